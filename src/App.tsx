@@ -3,12 +3,16 @@ import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-d
 import { Toaster } from 'react-hot-toast';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
 import LoginPage from './components/Auth/LoginPage';
+import SetupWizard from './components/Auth/SetupWizard';
 import UserDashboard from './components/Dashboard/UserDashboard';
 import AdminDashboard from './components/Dashboard/AdminDashboard';
+import DeviceHistory from './components/Dashboard/DeviceHistory';
+import ScanDevice from './components/Dashboard/ScanDevice';
+import { SCAN_ROUTE } from './utils/assetLabels';
 import Navbar from './components/Layout/Navbar';
 
 const AppContent: React.FC = () => {
-  const { user, loading, isAdmin } = useAuth();
+  const { user, loading, hasOperationsAccess, setupRequired, can } = useAuth();
 
   if (loading) {
     return (
@@ -21,6 +25,10 @@ const AppContent: React.FC = () => {
     );
   }
 
+  if (setupRequired) {
+    return <SetupWizard />;
+  }
+
   if (!user) {
     return <LoginPage />;
   }
@@ -32,13 +40,17 @@ const AppContent: React.FC = () => {
         <Route 
           path="/" 
           element={
-            isAdmin ? (
+            hasOperationsAccess ? (
               <AdminDashboard />
             ) : (
               <UserDashboard />
             )
           } 
         />
+        <Route path={`${SCAN_ROUTE}/:deviceId`} element={<ScanDevice />} />
+        {can('devices.view') && (
+          <Route path="/devices/:deviceId" element={<DeviceHistory />} />
+        )}
         <Route path="*" element={<Navigate to="/" replace />} />
       </Routes>
     </>
@@ -1,5 +1,8 @@
 import React, { useState } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
+import { dataBackend } from '../../services';
+import { demoAccounts } from '../../services/memoryService';
+import { roleLabels } from '../../utils/permissions';
 import { ComputerDesktopIcon, EyeIcon, EyeSlashIcon } from '@heroicons/react/24/outline';
 import toast from 'react-hot-toast';
 
@@ -11,7 +14,7 @@ const LoginPage: React.FC = () => {
   const [showPassword, setShowPassword] = useState(false);
   const [loading, setLoading] = useState(false);
   
-  const { signIn, signUp, signInWithGoogle } = useAuth();
+  const { signIn, signUp, signInWithGoogle, organizationName } = useAuth();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -41,9 +44,10 @@ const LoginPage: React.FC = () => {
     }
   };
 
-  const handleDemoLogin = () => {
-    setEmail('admin@hospital.com');
-    setPassword('admin123');
+  // Demo passwords are not checked, any value will do
+  const handleDemoLogin = (demoEmail: string) => {
+    setEmail(demoEmail);
+    setPassword('demo');
   };
 
   return (
@@ -62,7 +66,7 @@ const LoginPage: React.FC = () => {
               <ComputerDesktopIcon className="h-6 w-6 text-white" />
             </div>
             <h2 className="text-3xl font-bold bg-gradient-to-r from-gray-900 to-gray-600 bg-clip-text text-transparent">
-              Hospital IT Operations
+              {organizationName ?? 'Hospital IT Operations'}
             </h2>
             <p className="mt-2 text-gray-600">
               {isLogin ? 'Sign in to your account' : 'Create a new account'}
@@ -165,17 +169,22 @@ const LoginPage: React.FC = () => {
               {loading ? 'Please wait...' : isLogin ? 'Sign In' : 'Create Account'}
             </button>
 
-            {isLogin && (
-              <button
-                type="button"
-                onClick={() => {
-                  setEmail('mhiskall123@gmail.com');
-                  setPassword('Mhiskall9090@');
-                }}
-                className="w-full bg-gray-100 hover:bg-gray-200 text-gray-700 font-medium py-3 px-4 rounded-lg transition-all duration-200"
-              >
-                Use Admin Login
-              </button>
+            {isLogin && dataBackend === 'memory' && (
+              <div className="space-y-2">
+                <p className="text-center text-sm text-gray-500">Use a demo account</p>
+                <div className="grid grid-cols-2 gap-2">
+                  {Object.values(demoAccounts).map(account => (
+                    <button
+                      key={account.id}
+                      type="button"
+                      onClick={() => handleDemoLogin(account.email)}
+                      className="w-full bg-gray-100 hover:bg-gray-200 text-gray-700 text-sm font-medium py-2 px-3 rounded-lg transition-all duration-200"
+                    >
+                      {roleLabels[account.role]}
+                    </button>
+                  ))}
+                </div>
+              </div>
             )}
           </form>
 
@@ -0,0 +1,261 @@
+import React, { useState } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { BuildingOffice2Icon, CheckIcon, EyeIcon, EyeSlashIcon } from '@heroicons/react/24/outline';
+
+const steps = ['Organisation', 'Administrator', 'Sample Data'] as const;
+
+const SetupWizard: React.FC = () => {
+  const { completeSetup } = useAuth();
+  const [step, setStep] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [showPassword, setShowPassword] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [formData, setFormData] = useState({
+    organizationName: '',
+    fullName: '',
+    email: '',
+    password: '',
+    confirmPassword: '',
+    loadSampleData: false,
+  });
+
+  const passwordMismatch = formData.confirmPassword !== '' && formData.password !== formData.confirmPassword;
+
+  const handleNext = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (step === 1 && formData.password !== formData.confirmPassword) return;
+    setStep(step + 1);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+
+    try {
+      await completeSetup({
+        organizationName: formData.organizationName.trim(),
+        fullName: formData.fullName.trim(),
+        email: formData.email.trim(),
+        password: formData.password,
+        loadSampleData: formData.loadSampleData,
+      });
+    } catch (error) {
+      console.error('Setup error:', error);
+      setError((error as Error).message || 'Setup could not be completed');
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50 flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-lg w-full space-y-8">
+        <div className="bg-white/80 backdrop-blur-md rounded-2xl shadow-xl p-8 border border-white/20">
+          <div className="text-center mb-8">
+            <div className="mx-auto h-12 w-12 bg-gradient-to-r from-blue-500 to-purple-600 rounded-xl flex items-center justify-center mb-4">
+              <BuildingOffice2Icon className="h-6 w-6 text-white" />
+            </div>
+            <h2 className="text-3xl font-bold bg-gradient-to-r from-gray-900 to-gray-600 bg-clip-text text-transparent">
+              Welcome
+            </h2>
+            <p className="mt-2 text-gray-600">Set up Hospital IT Operations for your organisation</p>
+          </div>
+
+          {/* Step indicator */}
+          <div className="flex items-center justify-between mb-8">
+            {steps.map((label, index) => (
+              <div key={label} className="flex items-center space-x-2">
+                <div className={`h-8 w-8 rounded-full flex items-center justify-center text-sm font-semibold ${
+                  index < step
+                    ? 'bg-green-500 text-white'
+                    : index === step
+                      ? 'bg-gradient-to-r from-blue-600 to-purple-600 text-white'
+                      : 'bg-gray-200 text-gray-500'
+                }`}>
+                  {index < step ? <CheckIcon className="h-4 w-4" /> : index + 1}
+                </div>
+                <span className={`text-sm ${index === step ? 'font-medium text-gray-900' : 'text-gray-500'}`}>{label}</span>
+              </div>
+            ))}
+          </div>
+
+          {step === 0 && (
+            <form onSubmit={handleNext} className="space-y-6">
+              <div>
+                <label htmlFor="organizationName" className="block text-sm font-medium text-gray-700 mb-1">
+                  Organisation Name
+                </label>
+                <input
+                  id="organizationName"
+                  type="text"
+                  required
+                  value={formData.organizationName}
+                  onChange={(e) => setFormData(prev => ({ ...prev, organizationName: e.target.value }))}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+                  placeholder="e.g. St. Mary's General Hospital"
+                />
+                <p className="mt-1 text-xs text-gray-500">Shown on the sign-in page and in the navigation bar.</p>
+              </div>
+
+              <button
+                type="submit"
+                className="w-full bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white font-medium py-3 px-4 rounded-lg transition-all duration-200"
+              >
+                Continue
+              </button>
+            </form>
+          )}
+
+          {step === 1 && (
+            <form onSubmit={handleNext} className="space-y-6">
+              <p className="text-sm text-gray-600">
+                This account becomes the first administrator. Further users and roles are managed from the dashboard.
+              </p>
+
+              <div>
+                <label htmlFor="fullName" className="block text-sm font-medium text-gray-700 mb-1">
+                  Full Name
+                </label>
+                <input
+                  id="fullName"
+                  type="text"
+                  required
+                  value={formData.fullName}
+                  onChange={(e) => setFormData(prev => ({ ...prev, fullName: e.target.value }))}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+                />
+              </div>
+
+              <div>
+                <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-1">
+                  Email Address
+                </label>
+                <input
+                  id="email"
+                  type="email"
+                  required
+                  value={formData.email}
+                  onChange={(e) => setFormData(prev => ({ ...prev, email: e.target.value }))}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+                />
+              </div>
+
+              <div>
+                <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-1">
+                  Password
+                </label>
+                <div className="relative">
+                  <input
+                    id="password"
+                    type={showPassword ? 'text' : 'password'}
+                    required
+                    minLength={8}
+                    value={formData.password}
+                    onChange={(e) => setFormData(prev => ({ ...prev, password: e.target.value }))}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 pr-12"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setShowPassword(!showPassword)}
+                    className="absolute inset-y-0 right-0 pr-3 flex items-center"
+                  >
+                    {showPassword ? (
+                      <EyeSlashIcon className="h-5 w-5 text-gray-400" />
+                    ) : (
+                      <EyeIcon className="h-5 w-5 text-gray-400" />
+                    )}
+                  </button>
+                </div>
+              </div>
+
+              <div>
+                <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-700 mb-1">
+                  Confirm Password
+                </label>
+                <input
+                  id="confirmPassword"
+                  type={showPassword ? 'text' : 'password'}
+                  required
+                  value={formData.confirmPassword}
+                  onChange={(e) => setFormData(prev => ({ ...prev, confirmPassword: e.target.value }))}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+                />
+                {passwordMismatch && (
+                  <p className="mt-1 text-xs text-red-600">Passwords do not match</p>
+                )}
+              </div>
+
+              <div className="flex space-x-3">
+                <button
+                  type="button"
+                  onClick={() => setStep(0)}
+                  className="flex-1 bg-gray-200 hover:bg-gray-300 text-gray-800 font-medium py-3 px-4 rounded-lg transition-colors"
+                >
+                  Back
+                </button>
+                <button
+                  type="submit"
+                  disabled={passwordMismatch}
+                  className="flex-1 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white font-medium py-3 px-4 rounded-lg transition-all duration-200 disabled:opacity-50"
+                >
+                  Continue
+                </button>
+              </div>
+            </form>
+          )}
+
+          {step === 2 && (
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <label className="flex items-start space-x-3 p-4 border border-gray-200 rounded-lg cursor-pointer hover:bg-gray-50">
+                <input
+                  type="checkbox"
+                  checked={formData.loadSampleData}
+                  onChange={(e) => setFormData(prev => ({ ...prev, loadSampleData: e.target.checked }))}
+                  className="mt-1 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                />
+                <div>
+                  <div className="text-sm font-medium text-gray-900">Load sample hospital data</div>
+                  <div className="text-sm text-gray-500">
+                    Adds example departments, device categories, request types, equipment types, SLA policies, escalation rules and devices.
+                    Leave unchecked to start with an empty system.
+                  </div>
+                </div>
+              </label>
+
+              <div className="bg-gray-50 rounded-lg p-4 text-sm text-gray-600 space-y-1">
+                <div><span className="font-medium text-gray-900">Organisation:</span> {formData.organizationName}</div>
+                <div><span className="font-medium text-gray-900">Administrator:</span> {formData.fullName} ({formData.email})</div>
+              </div>
+
+              {error && (
+                <div className="bg-red-50 border border-red-200 text-red-700 rounded-lg p-3 text-sm">
+                  Setup did not finish: {error}. Check the details and try again.
+                </div>
+              )}
+
+              <div className="flex space-x-3">
+                <button
+                  type="button"
+                  onClick={() => setStep(1)}
+                  disabled={loading}
+                  className="flex-1 bg-gray-200 hover:bg-gray-300 text-gray-800 font-medium py-3 px-4 rounded-lg transition-colors disabled:opacity-50"
+                >
+                  Back
+                </button>
+                <button
+                  type="submit"
+                  disabled={loading}
+                  className="flex-1 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white font-medium py-3 px-4 rounded-lg transition-all duration-200 disabled:opacity-50"
+                >
+                  {loading ? 'Setting up...' : 'Finish Setup'}
+                </button>
+              </div>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SetupWizard;
@@ -1,14 +1,42 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { 
   UsersIcon, 
   ComputerDesktopIcon, 
   DocumentTextIcon,
   ChartBarIcon,
   Cog6ToothIcon,
-  PlusIcon
+  BriefcaseIcon,
+  TagIcon,
+  ClockIcon,
+  BellAlertIcon,
+  InboxStackIcon,
+  ClipboardDocumentListIcon,
+  EnvelopeIcon,
+  PhoneIcon,
+  CubeIcon
 } from '@heroicons/react/24/outline';
-// import { supabase } from '../../lib/supabase'; // Commented out - using Firebase
-import { deviceService, requestService, profileService } from '../../services/firebaseService';
+import {
+  deviceService,
+  requestService,
+  profileService,
+  incidentService,
+  maintenanceService,
+  serviceContractService,
+  sparePartService,
+} from '../../services';
+import type { Profile, ServiceContract, SparePart } from '../../types/models';
+import { newItemHighlight, useLiveCollection } from '../../hooks/useLiveCollection';
+import { useComplianceJob } from '../../hooks/useComplianceJob';
+import { useEscalationJob } from '../../hooks/useEscalationJob';
+import { useMaintenancePlanJob } from '../../hooks/useMaintenancePlanJob';
+import { useNotificationChecks } from '../../hooks/useNotificationChecks';
+import { useOutboxDispatcher } from '../../hooks/useOutboxDispatcher';
+import { useAuth } from '../../contexts/AuthContext';
+import type { Capability } from '../../utils/permissions';
+import { getContractHealth } from '../../utils/serviceContracts';
+import { isLowStock } from '../../utils/spareParts';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
 import Analytics from './Analytics';
 import UserManagement from './UserManagement';
 import DeviceManagement from './DeviceManagement';
@@ -16,8 +44,18 @@ import RequestManagement from './RequestManagement';
 import MaintenanceManagement from './MaintenanceManagement';
 import ComplianceManagement from './ComplianceManagement';
 import IncidentManagement from './IncidentManagement';
+import EquipmentTypeManagement from './EquipmentTypeManagement';
+import ServiceContractManagement from './ServiceContractManagement';
+import SlaPolicyManagement from './SlaPolicyManagement';
+import EscalationRuleManagement from './EscalationRuleManagement';
+import AuditLogViewer from './AuditLogViewer';
+import OutboxViewer from './OutboxViewer';
+import OnCallManagement from './OnCallManagement';
+import OnCallNow from './OnCallNow';
+import SparePartsManagement from './SparePartsManagement';
+import LowStockParts from './LowStockParts';
 
-type TabType = 'overview' | 'requests' | 'devices' | 'users' | 'maintenance' | 'compliance' | 'incidents' | 'analytics';
+type TabType = 'overview' | 'requests' | 'queue' | 'devices' | 'users' | 'maintenance' | 'compliance' | 'incidents' | 'equipment' | 'sla' | 'escalations' | 'contracts' | 'analytics' | 'audit' | 'messages' | 'oncall' | 'inventory';
 
 interface Stats {
   totalUsers: number;
@@ -30,49 +68,82 @@ interface Stats {
   complianceIssues: number;
   overdueMaintenances: number;
   openIncidents: number;
+  expiringContracts: number;
+  lowStockParts: number;
 }
 
+interface Tab {
+  id: TabType;
+  name: string;
+  icon: typeof ChartBarIcon;
+  // Shown when the user holds any of these; the overview is open to every operations role
+  requires?: Capability[];
+}
+
+const allTabs: Tab[] = [
+  { id: 'overview', name: 'Overview', icon: ChartBarIcon },
+  { id: 'requests', name: 'Requests', icon: DocumentTextIcon, requires: ['requests.viewAll', 'requests.viewDepartment'] },
+  { id: 'queue', name: 'My Queue', icon: InboxStackIcon, requires: ['requests.work'] },
+  { id: 'devices', name: 'Devices', icon: ComputerDesktopIcon, requires: ['devices.view'] },
+  { id: 'maintenance', name: 'Maintenance', icon: Cog6ToothIcon, requires: ['maintenance.view'] },
+  { id: 'inventory', name: 'Spare Parts', icon: CubeIcon, requires: ['inventory.view'] },
+  { id: 'compliance', name: 'Compliance', icon: Cog6ToothIcon, requires: ['compliance.view'] },
+  { id: 'incidents', name: 'Incidents', icon: DocumentTextIcon, requires: ['incidents.view'] },
+  { id: 'equipment', name: 'Equipment Types', icon: TagIcon, requires: ['catalog.manage'] },
+  { id: 'sla', name: 'SLA Policies', icon: ClockIcon, requires: ['catalog.manage'] },
+  { id: 'escalations', name: 'Escalations', icon: BellAlertIcon, requires: ['escalations.manage'] },
+  { id: 'oncall', name: 'On-Call', icon: PhoneIcon, requires: ['escalations.manage', 'requests.work'] },
+  { id: 'contracts', name: 'Service Contracts', icon: BriefcaseIcon, requires: ['contracts.view'] },
+  { id: 'users', name: 'Users', icon: UsersIcon, requires: ['users.manage'] },
+  { id: 'analytics', name: 'Analytics', icon: ChartBarIcon, requires: ['analytics.view'] },
+  { id: 'audit', name: 'Audit Log', icon: ClipboardDocumentListIcon, requires: ['audit.view'] },
+  { id: 'messages', name: 'Messages', icon: EnvelopeIcon, requires: ['system.configure'] },
+];
+
 const AdminDashboard: React.FC = () => {
+  const { can } = useAuth();
   const [activeTab, setActiveTab] = useState<TabType>('overview');
-  const [stats, setStats] = useState<Stats>({
-    totalUsers: 0,
-    totalDevices: 0,
-    pendingRequests: 0,
-    emergencyRequests: 0,
-    activeDevices: 0,
-    faultyDevices: 0,
-    criticalDevices: 0,
-    complianceIssues: 0,
-    overdueMaintenances: 0,
-    openIncidents: 0,
-  });
+  const [users, setUsers] = useState<Profile[]>([]);
+  const [contracts, setContracts] = useState<ServiceContract[]>([]);
+  const [spareParts, setSpareParts] = useState<SparePart[]>([]);
   const [loading, setLoading] = useState(true);
 
+  // Operational data streams in live; users, contracts and spare parts are loaded once
+  const requestsFeed = useLiveCollection(requestService.subscribeToRequests, { errorMessage: 'Failed to load requests' });
+  const devicesFeed = useLiveCollection(deviceService.subscribeToDevices, { errorMessage: 'Failed to load devices' });
+  const incidentsFeed = useLiveCollection(incidentService.subscribeToIncidents, { errorMessage: 'Failed to load incidents' });
+  const schedulesFeed = useLiveCollection(maintenanceService.subscribeToSchedules, { errorMessage: 'Failed to load maintenance data' });
+  const announcedIds = useRef<Set<string>>(new Set());
+
+  const canSeeContracts = can('contracts.view');
+  const canSeeParts = can('inventory.view');
+
+  // Unattended requests and incidents are escalated from the dashboards of users who manage escalations
+  useEscalationJob(can('escalations.manage'));
+  // Overdue maintenance and expiring certificates are checked from the dashboards of users who can see them
+  useNotificationChecks(can('maintenance.view') || can('compliance.view'));
+  // Queued email and SMS are delivered from the dashboards of IT staff
+  useOutboxDispatcher(can('requests.work'));
+  // Recurring maintenance plans are turned into schedule entries by whoever manages maintenance
+  useMaintenancePlanJob(can('maintenance.manage'));
+  // Certificate statuses and renewal tasks follow the expiry dates from the dashboards of compliance and maintenance managers
+  useComplianceJob(can('compliance.manage') || (can('maintenance.manage') && can('compliance.view')));
+
   useEffect(() => {
-    fetchStats();
-  }, []);
+    fetchStats(canSeeContracts, canSeeParts);
+  }, [canSeeContracts, canSeeParts]);
 
-  const fetchStats = async () => {
+  const fetchStats = async (includeContracts: boolean, includeParts: boolean) => {
     try {
-      // Fetch data from Firebase
-      const [users, devices, requests] = await Promise.all([
+      const [usersData, contractsData, partsData] = await Promise.all([
         profileService.getAllProfiles(),
-        deviceService.getAllDevices(),
-        requestService.getAllRequests(),
+        includeContracts ? serviceContractService.getAllContracts() : Promise.resolve([]),
+        includeParts ? sparePartService.getAllParts() : Promise.resolve([]),
       ]);
 
-      setStats({
-        totalUsers: users.length,
-        totalDevices: devices.length,
-        pendingRequests: requests.filter((r: any) => r.status === 'pending').length,
-        emergencyRequests: requests.filter((r: any) => r.urgencyLevel === 'emergency' || r.urgencyLevel === 'critical').length,
-        activeDevices: devices.filter((d: any) => d.status === 'active').length,
-        faultyDevices: devices.filter((d: any) => d.status === 'faulty').length,
-        criticalDevices: devices.filter((d: any) => d.isCritical).length,
-        complianceIssues: devices.filter((d: any) => d.complianceStatus !== 'compliant').length,
-        overdueMaintenances: 0, // TODO: Implement maintenance in Firebase
-        openIncidents: 0, // TODO: Implement incidents in Firebase
-      });
+      setUsers(usersData);
+      setContracts(contractsData);
+      setSpareParts(partsData);
     } catch (error) {
       console.error('Error fetching stats:', error);
     } finally {
@@ -80,16 +151,45 @@ const AdminDashboard: React.FC = () => {
     }
   };
 
-  const tabs = [
-    { id: 'overview', name: 'Overview', icon: ChartBarIcon },
-    { id: 'requests', name: 'Requests', icon: DocumentTextIcon },
-    { id: 'devices', name: 'Devices', icon: ComputerDesktopIcon },
-    { id: 'maintenance', name: 'Maintenance', icon: Cog6ToothIcon },
-    { id: 'compliance', name: 'Compliance', icon: Cog6ToothIcon },
-    { id: 'incidents', name: 'Incidents', icon: DocumentTextIcon },
-    { id: 'users', name: 'Users', icon: UsersIcon },
-    { id: 'analytics', name: 'Analytics', icon: ChartBarIcon },
-  ];
+  const { items: devices } = devicesFeed;
+  const { items: requests } = requestsFeed;
+  const stats = useMemo<Stats>(() => {
+    const now = new Date();
+
+    return {
+      totalUsers: users.length,
+      totalDevices: devices.length,
+      pendingRequests: requests.filter(r => r.status === 'pending').length,
+      emergencyRequests: requests.filter(r => r.urgencyLevel === 'emergency' || r.urgencyLevel === 'critical').length,
+      activeDevices: devices.filter(d => d.status === 'active').length,
+      faultyDevices: devices.filter(d => d.status === 'faulty').length,
+      criticalDevices: devices.filter(d => d.isCritical).length,
+      complianceIssues: devices.filter(d => (d.complianceStatus || 'compliant') !== 'compliant').length,
+      overdueMaintenances: schedulesFeed.items.filter(s => s.status === 'scheduled' && new Date(s.scheduledDate) < now).length,
+      openIncidents: incidentsFeed.items.filter(i => i.status === 'open').length,
+      expiringContracts: contracts.filter(c => getContractHealth(c, now) === 'expiring').length,
+      lowStockParts: spareParts.filter(isLowStock).length,
+    };
+  }, [users, contracts, spareParts, devices, requests, incidentsFeed.items, schedulesFeed.items]);
+
+  const statsLoading = loading || requestsFeed.loading || devicesFeed.loading || incidentsFeed.loading || schedulesFeed.loading;
+
+  // Emergencies that arrive while the dashboard is open get a toast on top of the highlight
+  const { items: liveRequests, isNew: isNewRequest } = requestsFeed;
+  useEffect(() => {
+    liveRequests
+      .filter(r => isNewRequest(r.id) && (r.urgencyLevel === 'emergency' || r.urgencyLevel === 'critical'))
+      .filter(r => !announcedIds.current.has(r.id))
+      .forEach(r => {
+        announcedIds.current.add(r.id);
+        toast.error(`New ${r.urgencyLevel} request: ${r.title}`, { icon: '🚨', duration: 8000 });
+      });
+  }, [liveRequests, isNewRequest]);
+
+  const latestRequests = requestsFeed.items.slice(0, 5);
+
+  const tabs = allTabs.filter(tab => !tab.requires || tab.requires.some(can));
+  const canOpen = (tabId: TabType) => tabs.some(tab => tab.id === tabId);
 
   const statCards = [
     {
@@ -143,28 +243,47 @@ const AdminDashboard: React.FC = () => {
   ];
 
   const renderTabContent = () => {
-    switch (activeTab) {
+    // A tab the role cannot open falls back to the overview
+    switch (canOpen(activeTab) ? activeTab : 'overview') {
       case 'requests':
         return <RequestManagement />;
+      case 'queue':
+        return <RequestManagement key="queue" queue />;
       case 'devices':
-        return <DeviceManagement onDeviceChange={fetchStats} />;
+        return <DeviceManagement />;
       case 'maintenance':
         return <MaintenanceManagement />;
+      case 'inventory':
+        return <SparePartsManagement />;
       case 'compliance':
         return <ComplianceManagement />;
       case 'incidents':
         return <IncidentManagement />;
+      case 'equipment':
+        return <EquipmentTypeManagement />;
+      case 'sla':
+        return <SlaPolicyManagement />;
+      case 'escalations':
+        return <EscalationRuleManagement />;
+      case 'oncall':
+        return <OnCallManagement />;
+      case 'contracts':
+        return <ServiceContractManagement />;
       case 'users':
         return <UserManagement />;
       case 'analytics':
         return <Analytics />;
+      case 'audit':
+        return <AuditLogViewer />;
+      case 'messages':
+        return <OutboxViewer />;
       default:
         return (
           <div className="space-y-6">
             <h2 className="text-2xl font-bold text-gray-900">Hospital IT Operations Dashboard</h2>
             
             {/* Emergency Alerts */}
-            {(stats.emergencyRequests > 0 || stats.openIncidents > 0 || stats.overdueMaintenances > 0) && (
+            {(stats.emergencyRequests > 0 || stats.openIncidents > 0 || stats.overdueMaintenances > 0 || stats.expiringContracts > 0 || stats.lowStockParts > 0) && (
               <div className="bg-red-50 border border-red-200 rounded-xl p-6">
                 <div className="flex items-center">
                   <DocumentTextIcon className="h-8 w-8 text-red-600 mr-3" />
@@ -180,6 +299,12 @@ const AdminDashboard: React.FC = () => {
                       {stats.overdueMaintenances > 0 && (
                         <p>🔧 {stats.overdueMaintenances} maintenance tasks are overdue</p>
                       )}
+                      {stats.expiringContracts > 0 && (
+                        <p>📄 {stats.expiringContracts} service contracts are about to expire</p>
+                      )}
+                      {stats.lowStockParts > 0 && (
+                        <p>📦 {stats.lowStockParts} spare parts are at or below their reorder point</p>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -199,7 +324,7 @@ const AdminDashboard: React.FC = () => {
                     <div className="ml-4">
                       <p className="text-sm font-medium text-gray-600">{stat.title}</p>
                       <p className="text-2xl font-bold text-gray-900">
-                        {loading ? '...' : stat.value}
+                        {statsLoading ? '...' : stat.value}
                       </p>
                     </div>
                   </div>
@@ -207,64 +332,127 @@ const AdminDashboard: React.FC = () => {
               ))}
             </div>
             
+            {/* On call */}
+            {canOpen('oncall') && (
+              <OnCallNow profiles={users} onManage={() => setActiveTab('oncall')} />
+            )}
+
+            {/* Low stock */}
+            {canOpen('inventory') && (
+              <LowStockParts parts={spareParts} onManage={() => setActiveTab('inventory')} />
+            )}
+
+            {/* Live Request Feed */}
+            <div className="bg-white rounded-xl shadow-sm border border-gray-100">
+              <div className="p-6 border-b border-gray-100 flex items-center justify-between">
+                <h3 className="text-lg font-semibold text-gray-800">Latest Requests</h3>
+                <span className="flex items-center space-x-2 text-sm text-green-600">
+                  <span className="h-2 w-2 rounded-full bg-green-500 animate-pulse"></span>
+                  <span>Live</span>
+                </span>
+              </div>
+              <div className="divide-y divide-gray-100">
+                {latestRequests.length === 0 ? (
+                  <p className="p-6 text-center text-gray-500">
+                    {requestsFeed.loading ? 'Loading requests...' : 'No requests yet'}
+                  </p>
+                ) : (
+                  latestRequests.map((request) => (
+                    <button
+                      key={request.id}
+                      onClick={() => setActiveTab('requests')}
+                      className={`w-full text-left px-6 py-4 hover:bg-gray-50 transition-colors duration-200 ${requestsFeed.isNew(request.id) ? newItemHighlight : ''}`}
+                    >
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center space-x-3">
+                          <p className="font-medium text-gray-900">{request.title}</p>
+                          {(request.urgencyLevel === 'emergency' || request.urgencyLevel === 'critical') && (
+                            <span className="px-2 py-1 text-xs rounded-full bg-red-100 text-red-700">
+                              {request.urgencyLevel}
+                            </span>
+                          )}
+                          {requestsFeed.isNew(request.id) && (
+                            <span className="px-2 py-1 text-xs font-semibold rounded-full bg-blue-600 text-white">New</span>
+                          )}
+                        </div>
+                        <span className="text-sm text-gray-500">
+                          {request.createdAt ? format(new Date(request.createdAt), 'MMM dd, HH:mm') : 'Just now'}
+                        </span>
+                      </div>
+                    </button>
+                  ))
+                )}
+              </div>
+            </div>
+
             {/* Quick Actions */}
             <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
               <h3 className="text-lg font-semibold text-gray-800 mb-4">Hospital IT Management</h3>
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-                <button
-                  onClick={() => setActiveTab('requests')}
-                  className="flex items-center p-4 bg-blue-50 hover:bg-blue-100 rounded-lg transition-colors duration-200"
-                >
-                  <DocumentTextIcon className="h-8 w-8 text-blue-600 mr-3" />
-                  <div className="text-left">
-                    <p className="font-medium text-gray-900">IT Requests</p>
-                    <p className="text-sm text-gray-600">Process equipment and support requests</p>
-                  </div>
-                </button>
+                {canOpen('requests') && (
+                  <button
+                    onClick={() => setActiveTab('requests')}
+                    className="flex items-center p-4 bg-blue-50 hover:bg-blue-100 rounded-lg transition-colors duration-200"
+                  >
+                    <DocumentTextIcon className="h-8 w-8 text-blue-600 mr-3" />
+                    <div className="text-left">
+                      <p className="font-medium text-gray-900">IT Requests</p>
+                      <p className="text-sm text-gray-600">Process equipment and support requests</p>
+                    </div>
+                  </button>
+                )}
                 
-                <button
-                  onClick={() => setActiveTab('devices')}
-                  className="flex items-center p-4 bg-indigo-50 hover:bg-indigo-100 rounded-lg transition-colors duration-200"
-                >
-                  <ComputerDesktopIcon className="h-8 w-8 text-indigo-600 mr-3" />
-                  <div className="text-left">
-                    <p className="font-medium text-gray-900">Medical Equipment</p>
-                    <p className="text-sm text-gray-600">Manage hospital IT and medical devices</p>
-                  </div>
-                </button>
+                {canOpen('devices') && (
+                  <button
+                    onClick={() => setActiveTab('devices')}
+                    className="flex items-center p-4 bg-indigo-50 hover:bg-indigo-100 rounded-lg transition-colors duration-200"
+                  >
+                    <ComputerDesktopIcon className="h-8 w-8 text-indigo-600 mr-3" />
+                    <div className="text-left">
+                      <p className="font-medium text-gray-900">Medical Equipment</p>
+                      <p className="text-sm text-gray-600">Manage hospital IT and medical devices</p>
+                    </div>
+                  </button>
+                )}
                 
-                <button
-                  onClick={() => setActiveTab('maintenance')}
-                  className="flex items-center p-4 bg-yellow-50 hover:bg-yellow-100 rounded-lg transition-colors duration-200"
-                >
-                  <Cog6ToothIcon className="h-8 w-8 text-yellow-600 mr-3" />
-                  <div className="text-left">
-                    <p className="font-medium text-gray-900">Maintenance</p>
-                    <p className="text-sm text-gray-600">Schedule and track equipment maintenance</p>
-                  </div>
-                </button>
+                {canOpen('maintenance') && (
+                  <button
+                    onClick={() => setActiveTab('maintenance')}
+                    className="flex items-center p-4 bg-yellow-50 hover:bg-yellow-100 rounded-lg transition-colors duration-200"
+                  >
+                    <Cog6ToothIcon className="h-8 w-8 text-yellow-600 mr-3" />
+                    <div className="text-left">
+                      <p className="font-medium text-gray-900">Maintenance</p>
+                      <p className="text-sm text-gray-600">Schedule and track equipment maintenance</p>
+                    </div>
+                  </button>
+                )}
                 
-                <button
-                  onClick={() => setActiveTab('incidents')}
-                  className="flex items-center p-4 bg-red-50 hover:bg-red-100 rounded-lg transition-colors duration-200"
-                >
-                  <DocumentTextIcon className="h-8 w-8 text-red-600 mr-3" />
-                  <div className="text-left">
-                    <p className="font-medium text-gray-900">Incidents</p>
-                    <p className="text-sm text-gray-600">Manage safety and security incidents</p>
-                  </div>
-                </button>
+                {canOpen('incidents') && (
+                  <button
+                    onClick={() => setActiveTab('incidents')}
+                    className="flex items-center p-4 bg-red-50 hover:bg-red-100 rounded-lg transition-colors duration-200"
+                  >
+                    <DocumentTextIcon className="h-8 w-8 text-red-600 mr-3" />
+                    <div className="text-left">
+                      <p className="font-medium text-gray-900">Incidents</p>
+                      <p className="text-sm text-gray-600">Manage safety and security incidents</p>
+                    </div>
+                  </button>
+                )}
                 
-                <button
-                  onClick={() => setActiveTab('users')}
-                  className="flex items-center p-4 bg-green-50 hover:bg-green-100 rounded-lg transition-colors duration-200"
-                >
-                  <UsersIcon className="h-8 w-8 text-green-600 mr-3" />
-                  <div className="text-left">
-                    <p className="font-medium text-gray-900">User Management</p>
-                    <p className="text-sm text-gray-600">Manage hospital staff accounts</p>
-                  </div>
-                </button>
+                {canOpen('users') && (
+                  <button
+                    onClick={() => setActiveTab('users')}
+                    className="flex items-center p-4 bg-green-50 hover:bg-green-100 rounded-lg transition-colors duration-200"
+                  >
+                    <UsersIcon className="h-8 w-8 text-green-600 mr-3" />
+                    <div className="text-left">
+                      <p className="font-medium text-gray-900">User Management</p>
+                      <p className="text-sm text-gray-600">Manage hospital staff accounts</p>
+                    </div>
+                  </button>
+                )}
               </div>
             </div>
           </div>
@@ -282,7 +470,7 @@ const AdminDashboard: React.FC = () => {
               {tabs.map((tab) => (
                 <button
                   key={tab.id}
-                  onClick={() => setActiveTab(tab.id as TabType)}
+                  onClick={() => setActiveTab(tab.id)}
                   className={`flex items-center space-x-2 py-4 px-1 border-b-2 font-medium text-sm whitespace-nowrap transition-colors duration-200 ${
                     activeTab === tab.id
                       ? 'border-blue-500 text-blue-600'
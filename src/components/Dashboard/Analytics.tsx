@@ -12,8 +12,8 @@ import {
   LineElement,
 } from 'chart.js';
 import { Bar, Doughnut, Line } from 'react-chartjs-2';
-// import { supabase } from '../../lib/supabase'; // Commented out - using Firebase
-import { deviceService, requestService } from '../../services/firebaseService';
+import { deviceService, requestService, incidentService, departmentService } from '../../services';
+import { computeSlaCompliance, getResolutionClock, getResponseClock, SlaCompliance } from '../../utils/sla';
 
 ChartJS.register(
   CategoryScale,
@@ -36,8 +36,22 @@ interface AnalyticsData {
   incidentsBySeverity: { severity: string; count: number }[];
   complianceStatus: { status: string; count: number }[];
   requestsOverTime: { date: string; count: number }[];
+  slaResponse: SlaCompliance;
+  slaResolution: SlaCompliance;
+  slaByPriority: { priority: string; response: number | null; resolution: number | null }[];
 }
 
+const noSlaData: SlaCompliance = { measured: 0, met: 0, percentage: null };
+
+const countBy = <T,>(items: T[], key: (item: T) => string): [string, number][] => {
+  const counts = items.reduce<Record<string, number>>((acc, item) => {
+    const value = key(item);
+    acc[value] = (acc[value] || 0) + 1;
+    return acc;
+  }, {});
+  return Object.entries(counts);
+};
+
 const Analytics: React.FC = () => {
   const [data, setData] = useState<AnalyticsData>({
     requestsByType: [],
@@ -48,6 +62,9 @@ const Analytics: React.FC = () => {
     incidentsBySeverity: [],
     complianceStatus: [],
     requestsOverTime: [],
+    slaResponse: noSlaData,
+    slaResolution: noSlaData,
+    slaByPriority: [],
   });
   const [loading, setLoading] = useState(true);
 
@@ -57,69 +74,47 @@ const Analytics: React.FC = () => {
 
   const fetchAnalytics = async () => {
     try {
-      // Fetch data from Firebase
-      const [devices, requests] = await Promise.all([
+      const [devices, requests, incidents, departments] = await Promise.all([
         deviceService.getAllDevices(),
         requestService.getAllRequests(),
+        incidentService.getAllIncidents(),
+        departmentService.getAllDepartments(),
       ]);
 
-      // Process requests by type
-      const requestsByType = requests.reduce((acc: any, req: any) => {
-        const typeName = req.requestType || 'General Request';
-        acc[typeName] = (acc[typeName] || 0) + 1;
-        return acc;
-      }, {});
-
-      // Process requests by status
-      const requestsByStatus = requests.reduce((acc: any, req: any) => {
-        acc[req.status] = (acc[req.status] || 0) + 1;
-        return acc;
-      }, {});
-
-      // Process requests by urgency
-      const requestsByUrgency = requests.reduce((acc: any, req: any) => {
-        const urgency = req.urgencyLevel || 'routine';
-        acc[urgency] = (acc[urgency] || 0) + 1;
-        return acc;
-      }, {});
-
-      // Process devices by status
-      const devicesByStatus = devices.reduce((acc: any, device: any) => {
-        acc[device.status] = (acc[device.status] || 0) + 1;
-        return acc;
-      }, {});
-
-      // Process compliance status
-      const complianceStatus = devices.reduce((acc: any, device: any) => {
-        const status = device.complianceStatus || 'compliant';
-        acc[status] = (acc[status] || 0) + 1;
-        return acc;
-      }, {});
+      const departmentNames = new Map(departments.map(dept => [dept.id, dept.name]));
+
+      const requestsByType = countBy(requests, req => req.requestType || 'General Request');
+      const requestsByStatus = countBy(requests, req => req.status);
+      const requestsByUrgency = countBy(requests, req => req.urgencyLevel || 'routine');
+      const requestsByDepartment = countBy(
+        requests.filter(req => req.departmentId),
+        req => departmentNames.get(req.departmentId as string) || 'Unknown'
+      );
+      const devicesByStatus = countBy(devices, device => device.status);
+      const complianceStatus = countBy(devices, device => device.complianceStatus || 'compliant');
+      const incidentsBySeverity = countBy(incidents, incident => incident.severity);
+      const now = new Date();
+      const slaByPriority = countBy(requests, req => req.priority).map(([priority]) => {
+        const inPriority = requests.filter(req => req.priority === priority);
+        return {
+          priority,
+          response: computeSlaCompliance(inPriority, getResponseClock, now).percentage,
+          resolution: computeSlaCompliance(inPriority, getResolutionClock, now).percentage,
+        };
+      });
 
       setData({
-        requestsByType: Object.entries(requestsByType || {}).map(([type, count]) => ({
-          type,
-          count: count as number,
-        })),
-        requestsByStatus: Object.entries(requestsByStatus || {}).map(([status, count]) => ({
-          status,
-          count: count as number,
-        })),
-        requestsByUrgency: Object.entries(requestsByUrgency || {}).map(([urgency, count]) => ({
-          urgency,
-          count: count as number,
-        })),
-        requestsByDepartment: [], // TODO: Implement departments in Firebase
-        devicesByStatus: Object.entries(devicesByStatus || {}).map(([status, count]) => ({
-          status,
-          count: count as number,
-        })),
-        complianceStatus: Object.entries(complianceStatus || {}).map(([status, count]) => ({
-          status,
-          count: count as number,
-        })),
-        incidentsBySeverity: [], // TODO: Implement incidents in Firebase
+        requestsByType: requestsByType.map(([type, count]) => ({ type, count })),
+        requestsByStatus: requestsByStatus.map(([status, count]) => ({ status, count })),
+        requestsByUrgency: requestsByUrgency.map(([urgency, count]) => ({ urgency, count })),
+        requestsByDepartment: requestsByDepartment.map(([department, count]) => ({ department, count })),
+        devicesByStatus: devicesByStatus.map(([status, count]) => ({ status, count })),
+        complianceStatus: complianceStatus.map(([status, count]) => ({ status, count })),
+        incidentsBySeverity: incidentsBySeverity.map(([severity, count]) => ({ severity, count })),
         requestsOverTime: [], // TODO: Implement time-based analytics
+        slaResponse: computeSlaCompliance(requests, getResponseClock, now),
+        slaResolution: computeSlaCompliance(requests, getResolutionClock, now),
+        slaByPriority,
       });
     } catch (error) {
       console.error('Error fetching analytics:', error);
@@ -285,6 +280,47 @@ const Analytics: React.FC = () => {
     ],
   };
 
+  const slaPriorityChart = {
+    labels: data.slaByPriority.map(item => item.priority),
+    datasets: [
+      {
+        label: 'Response met (%)',
+        data: data.slaByPriority.map(item => item.response ?? 0),
+        backgroundColor: 'rgba(59, 130, 246, 0.8)',
+        borderColor: 'rgba(59, 130, 246, 1)',
+        borderWidth: 2,
+      },
+      {
+        label: 'Resolution met (%)',
+        data: data.slaByPriority.map(item => item.resolution ?? 0),
+        backgroundColor: 'rgba(16, 185, 129, 0.8)',
+        borderColor: 'rgba(16, 185, 129, 1)',
+        borderWidth: 2,
+      },
+    ],
+  };
+
+  const getSlaColor = (percentage: number | null) => {
+    if (percentage === null) return 'text-gray-400';
+    if (percentage >= 90) return 'text-green-600';
+    if (percentage >= 75) return 'text-yellow-600';
+    return 'text-red-600';
+  };
+
+  const renderSlaCard = (title: string, compliance: SlaCompliance) => (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100 hover:shadow-md transition-shadow duration-200">
+      <h3 className="text-sm font-medium text-gray-600">{title}</h3>
+      <p className={`text-3xl font-bold mt-2 ${getSlaColor(compliance.percentage)}`}>
+        {compliance.percentage === null ? 'N/A' : `${compliance.percentage}%`}
+      </p>
+      <p className="text-sm text-gray-500 mt-1">
+        {compliance.measured === 0
+          ? 'No requests measured yet'
+          : `${compliance.met} of ${compliance.measured} requests within target`}
+      </p>
+    </div>
+  );
+
   if (loading) {
     return (
       <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
@@ -303,8 +339,22 @@ const Analytics: React.FC = () => {
   return (
     <div className="space-y-6">
       <h2 className="text-2xl font-bold text-gray-900 mb-6">Hospital IT Analytics & Reports</h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {renderSlaCard('Response SLA Compliance', data.slaResponse)}
+        {renderSlaCard('Resolution SLA Compliance', data.slaResolution)}
+      </div>
       
       <div className="grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-3 gap-6">
+        {data.slaByPriority.length > 0 && (
+          <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100 hover:shadow-md transition-shadow duration-200">
+            <h3 className="text-lg font-semibold text-gray-800 mb-4">SLA Compliance by Priority</h3>
+            <div className="h-64">
+              <Bar data={slaPriorityChart} options={chartOptions} />
+            </div>
+          </div>
+        )}
+
         <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100 hover:shadow-md transition-shadow duration-200">
           <h3 className="text-lg font-semibold text-gray-800 mb-4">Requests by Type</h3>
           <div className="h-64">
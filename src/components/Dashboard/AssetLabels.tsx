@@ -0,0 +1,146 @@
+import React, { useState, useEffect } from 'react';
+import { Dialog, Transition } from '@headlessui/react';
+import { PrinterIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import type { Device } from '../../types/models';
+import { useAuth } from '../../contexts/AuthContext';
+import { AssetLabel, deviceQrCode, labelSheetHtml } from '../../utils/assetLabels';
+import toast from 'react-hot-toast';
+
+interface AssetLabelsProps {
+  isOpen: boolean;
+  onClose: () => void;
+  devices: Device[];
+}
+
+// Preview and print QR labels; scanning one opens the report form for that device
+const AssetLabels: React.FC<AssetLabelsProps> = ({ isOpen, onClose, devices }) => {
+  const { organizationName } = useAuth();
+  const [labels, setLabels] = useState<AssetLabel[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let active = true;
+
+    const generateLabels = async () => {
+      setLoading(true);
+      try {
+        const generated = await Promise.all(
+          devices.map(async (device) => ({ device, qrCode: await deviceQrCode(device) }))
+        );
+        if (active) setLabels(generated);
+      } catch (error) {
+        console.error('Error generating labels:', error);
+        toast.error((error as Error).message || 'Failed to generate labels');
+      } finally {
+        if (active) setLoading(false);
+      }
+    };
+
+    generateLabels();
+    return () => {
+      active = false;
+    };
+  }, [isOpen, devices]);
+
+  const handlePrint = () => {
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) {
+      toast.error('Allow pop-ups for this site to print labels');
+      return;
+    }
+    // Print once the QR images have loaded
+    printWindow.onload = () => printWindow.print();
+    printWindow.document.write(labelSheetHtml(labels, organizationName));
+    printWindow.document.close();
+  };
+
+  return (
+    <Transition appear show={isOpen} as={React.Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={onClose}>
+        <Transition.Child
+          as={React.Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black bg-opacity-25 backdrop-blur-sm" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4">
+            <Transition.Child
+              as={React.Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 scale-95"
+              enterTo="opacity-100 scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 scale-100"
+              leaveTo="opacity-0 scale-95"
+            >
+              <Dialog.Panel className="w-full max-w-3xl transform rounded-2xl bg-white p-6 shadow-xl transition-all">
+                <Dialog.Title as="div" className="flex items-center justify-between mb-6">
+                  <h3 className="text-lg font-medium text-gray-900">
+                    Asset Labels ({devices.length})
+                  </h3>
+                  <button
+                    onClick={onClose}
+                    className="text-gray-400 hover:text-gray-600 transition-colors"
+                  >
+                    <XMarkIcon className="h-5 w-5" />
+                  </button>
+                </Dialog.Title>
+
+                {loading ? (
+                  <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-4 animate-pulse">
+                    {[...Array(Math.min(devices.length, 6))].map((_, i) => (
+                      <div key={i} className="h-24 bg-gray-200 rounded"></div>
+                    ))}
+                  </div>
+                ) : (
+                  <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-4 max-h-96 overflow-y-auto">
+                    {labels.map(({ device, qrCode }) => (
+                      <div key={device.id} className="flex items-center space-x-3 border border-dashed border-gray-300 rounded-lg p-2">
+                        <img src={qrCode} alt={`QR code for ${device.name}`} className="h-20 w-20 flex-shrink-0" />
+                        <div className="min-w-0">
+                          <p className="text-sm font-semibold text-gray-900 truncate">{device.name}</p>
+                          {device.serialNumber && <p className="text-xs text-gray-600">SN: {device.serialNumber}</p>}
+                          {device.location && <p className="text-xs text-gray-600 truncate">{device.location}</p>}
+                          <p className="text-xs text-gray-400">Scan to report a problem</p>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                <div className="flex space-x-3 pt-6">
+                  <button
+                    type="button"
+                    onClick={onClose}
+                    className="flex-1 bg-gray-200 hover:bg-gray-300 text-gray-800 font-medium py-2 px-4 rounded-lg transition-colors"
+                  >
+                    Close
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handlePrint}
+                    disabled={loading || labels.length === 0}
+                    className="flex-1 flex items-center justify-center space-x-2 bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded-lg transition-all duration-200 disabled:opacity-50"
+                  >
+                    <PrinterIcon className="h-5 w-5" />
+                    <span>Print</span>
+                  </button>
+                </div>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition>
+  );
+};
+
+export default AssetLabels;
@@ -0,0 +1,235 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ArrowUpTrayIcon, DocumentIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { attachmentService } from '../../services';
+import { getAttachmentUrl, removeAttachment, uploadAttachments } from '../../services/attachments';
+import { useAuth } from '../../contexts/AuthContext';
+import type { Attachment, AttachmentOwnerType } from '../../types/models';
+import type { Capability } from '../../utils/permissions';
+import { MAX_ATTACHMENTS_PER_UPLOAD, attachmentAccept, formatFileSize, validateAttachmentFile } from '../../utils/attachments';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+
+interface AttachmentListProps {
+  ownerType: AttachmentOwnerType;
+  ownerId: string;
+  // Device the record is about, so its files also show on the device history
+  deviceId?: string | null;
+  // On a device, also list the files attached to its requests and incidents
+  includeDeviceHistory?: boolean;
+  canUpload?: boolean;
+}
+
+const manageCapabilities: Record<AttachmentOwnerType, Capability> = {
+  request: 'requests.work',
+  incident: 'incidents.manage',
+  device: 'devices.manage',
+};
+
+const ownerLabels: Record<AttachmentOwnerType, string> = {
+  request: 'Request',
+  incident: 'Incident',
+  device: 'Device',
+};
+
+// Files on a request, incident or device, with thumbnails for photos
+const AttachmentList: React.FC<AttachmentListProps> = ({
+  ownerType,
+  ownerId,
+  deviceId = null,
+  includeDeviceHistory = false,
+  canUpload = false,
+}) => {
+  const { profile, can } = useAuth();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [uploading, setUploading] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+  const showHistory = ownerType === 'device' && includeDeviceHistory;
+
+  useEffect(() => {
+    let active = true;
+
+    const fetchAttachments = async () => {
+      try {
+        const data = showHistory
+          ? await attachmentService.getDeviceAttachments(ownerId)
+          : await attachmentService.getAttachments(ownerType, ownerId);
+        if (!active) return;
+        setAttachments(data);
+
+        // A missing preview falls back to the file icon
+        const urls = await Promise.all(
+          data.filter(a => a.thumbnailPath).map(async (a) => {
+            try {
+              return [a.id, await getAttachmentUrl(a.thumbnailPath as string)] as const;
+            } catch (error) {
+              console.error('Error loading thumbnail:', error);
+              return null;
+            }
+          })
+        );
+        if (active) {
+          setThumbnails(Object.fromEntries(urls.filter((entry): entry is readonly [string, string] => entry !== null)));
+        }
+      } catch (error) {
+        console.error('Error fetching attachments:', error);
+        if (active) toast.error((error as Error).message || 'Failed to load attachments');
+      } finally {
+        if (active) setLoading(false);
+      }
+    };
+
+    fetchAttachments();
+    return () => {
+      active = false;
+    };
+  }, [ownerType, ownerId, showHistory, reloadKey]);
+
+  const handleOpen = async (attachment: Attachment) => {
+    try {
+      window.open(await getAttachmentUrl(attachment.storagePath), '_blank', 'noopener');
+    } catch (error) {
+      console.error('Error opening attachment:', error);
+      toast.error((error as Error).message || 'Failed to open attachment');
+    }
+  };
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (!profile || selected.length === 0) return;
+
+    if (selected.length > MAX_ATTACHMENTS_PER_UPLOAD) {
+      toast.error(`You can upload up to ${MAX_ATTACHMENTS_PER_UPLOAD} files at a time`);
+      return;
+    }
+    const problem = selected.map(validateAttachmentFile).find(Boolean);
+    if (problem) {
+      toast.error(problem);
+      return;
+    }
+
+    setUploading(true);
+    try {
+      const failed = await uploadAttachments(
+        { ownerType, ownerId, deviceId: ownerType === 'device' ? ownerId : deviceId },
+        selected,
+        profile.id
+      );
+      if (failed > 0) {
+        toast.error(`${failed} of ${selected.length} files could not be uploaded`);
+      } else {
+        toast.success(selected.length === 1 ? 'File uploaded' : 'Files uploaded');
+      }
+      setReloadKey(key => key + 1);
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleDelete = async (attachment: Attachment) => {
+    if (!confirm(`Delete ${attachment.fileName}?`)) return;
+
+    try {
+      await removeAttachment(attachment);
+      toast.success('Attachment deleted');
+      setAttachments(prev => prev.filter(a => a.id !== attachment.id));
+    } catch (error) {
+      console.error('Error deleting attachment:', error);
+      toast.error((error as Error).message || 'Failed to delete attachment');
+    }
+  };
+
+  const canDelete = (attachment: Attachment) =>
+    attachment.uploadedBy === profile?.id || can(manageCapabilities[attachment.ownerType]);
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className="block text-sm font-medium text-gray-700">
+          Attachments {attachments.length > 0 && `(${attachments.length})`}
+        </label>
+        {canUpload && (
+          <>
+            <input
+              ref={inputRef}
+              type="file"
+              multiple
+              accept={attachmentAccept}
+              onChange={handleUpload}
+              className="hidden"
+            />
+            <button
+              type="button"
+              onClick={() => inputRef.current?.click()}
+              disabled={uploading}
+              className="flex items-center text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
+            >
+              <ArrowUpTrayIcon className="h-4 w-4 mr-1" />
+              {uploading ? 'Uploading...' : 'Upload'}
+            </button>
+          </>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="animate-pulse grid grid-cols-3 gap-3">
+          {[...Array(3)].map((_, i) => (
+            <div key={i} className="h-24 bg-gray-200 rounded-lg"></div>
+          ))}
+        </div>
+      ) : attachments.length === 0 ? (
+        <p className="text-sm text-gray-500">No files attached.</p>
+      ) : (
+        <ul className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+          {attachments.map(attachment => (
+            <li key={attachment.id} className="relative group border border-gray-200 rounded-lg overflow-hidden">
+              <button
+                type="button"
+                onClick={() => handleOpen(attachment)}
+                className="block w-full text-left"
+                title={attachment.fileName}
+              >
+                {thumbnails[attachment.id] ? (
+                  <img
+                    src={thumbnails[attachment.id]}
+                    alt={attachment.fileName}
+                    className="h-24 w-full object-cover bg-gray-100"
+                  />
+                ) : (
+                  <div className="h-24 w-full flex items-center justify-center bg-gray-50">
+                    <DocumentIcon className="h-10 w-10 text-gray-400" />
+                  </div>
+                )}
+                <div className="p-2">
+                  <p className="text-xs font-medium text-gray-900 truncate">{attachment.fileName}</p>
+                  <p className="text-xs text-gray-500">
+                    {formatFileSize(attachment.size)}
+                    {attachment.createdAt && ` · ${format(new Date(attachment.createdAt), 'MMM d, yyyy')}`}
+                  </p>
+                  {showHistory && attachment.ownerType !== 'device' && (
+                    <p className="text-xs text-blue-600">From {ownerLabels[attachment.ownerType].toLowerCase()}</p>
+                  )}
+                </div>
+              </button>
+              {canDelete(attachment) && (
+                <button
+                  type="button"
+                  onClick={() => handleDelete(attachment)}
+                  className="absolute top-1 right-1 p-1 rounded-full bg-white/90 text-gray-500 hover:text-red-600 opacity-0 group-hover:opacity-100 transition-opacity"
+                  title="Delete attachment"
+                >
+                  <TrashIcon className="h-4 w-4" />
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default AttachmentList;
@@ -0,0 +1,94 @@
+import React, { useRef } from 'react';
+import { PaperClipIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import {
+  MAX_ATTACHMENT_BYTES,
+  MAX_ATTACHMENTS_PER_UPLOAD,
+  attachmentAccept,
+  formatFileSize,
+  validateAttachmentFile
+} from '../../utils/attachments';
+import toast from 'react-hot-toast';
+
+interface AttachmentPickerProps {
+  files: File[];
+  onChange: (files: File[]) => void;
+  disabled?: boolean;
+}
+
+// Collects files in a form; they are uploaded once the record they belong to exists
+const AttachmentPicker: React.FC<AttachmentPickerProps> = ({ files, onChange, disabled = false }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files ?? []);
+    // Let the same file be picked again after it was removed
+    e.target.value = '';
+
+    const accepted: File[] = [];
+    for (const file of selected) {
+      const problem = validateAttachmentFile(file);
+      if (problem) {
+        toast.error(problem);
+      } else {
+        accepted.push(file);
+      }
+    }
+
+    const room = MAX_ATTACHMENTS_PER_UPLOAD - files.length;
+    if (accepted.length > room) {
+      toast.error(`You can attach up to ${MAX_ATTACHMENTS_PER_UPLOAD} files`);
+    }
+    onChange([...files, ...accepted.slice(0, Math.max(room, 0))]);
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-1">
+        Attachments
+      </label>
+      <input
+        ref={inputRef}
+        type="file"
+        multiple
+        accept={attachmentAccept}
+        onChange={handleSelect}
+        className="hidden"
+      />
+      <button
+        type="button"
+        onClick={() => inputRef.current?.click()}
+        disabled={disabled || files.length >= MAX_ATTACHMENTS_PER_UPLOAD}
+        className="flex items-center text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <PaperClipIcon className="h-4 w-4 mr-1" />
+        Add photos or documents
+      </button>
+      <p className="text-xs text-gray-500 mt-1">
+        Up to {MAX_ATTACHMENTS_PER_UPLOAD} files, {formatFileSize(MAX_ATTACHMENT_BYTES)} each. Images, PDFs, text and Word documents.
+      </p>
+
+      {files.length > 0 && (
+        <ul className="mt-2 space-y-1">
+          {files.map((file, index) => (
+            <li key={`${file.name}-${index}`} className="flex items-center justify-between text-sm bg-gray-50 rounded-lg px-3 py-1.5">
+              <span className="truncate text-gray-700">{file.name}</span>
+              <div className="flex items-center space-x-2 ml-2">
+                <span className="text-xs text-gray-500">{formatFileSize(file.size)}</span>
+                <button
+                  type="button"
+                  onClick={() => onChange(files.filter((_, i) => i !== index))}
+                  disabled={disabled}
+                  className="text-gray-400 hover:text-red-600 transition-colors"
+                >
+                  <XMarkIcon className="h-4 w-4" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default AttachmentPicker;
@@ -0,0 +1,234 @@
+import React, { useState, useEffect } from 'react';
+import { auditLogService, profileService } from '../../services';
+import { auditEntityTypes } from '../../types/models';
+import type { AuditAction, AuditEntityType, AuditEntry, AuditLogFilter, Profile } from '../../types/models';
+import { AUDIT_LOG_LIMIT, auditActionLabels, auditEntityLabels, formatAuditValue } from '../../utils/audit';
+import { endOfDay, format, parseISO, startOfDay } from 'date-fns';
+import toast from 'react-hot-toast';
+
+const actionColors: Record<AuditAction, string> = {
+  create: 'bg-green-100 text-green-700',
+  update: 'bg-blue-100 text-blue-700',
+  delete: 'bg-red-100 text-red-700',
+};
+
+const emptyFilters = {
+  entityType: '',
+  actorId: '',
+  from: '',
+  to: '',
+};
+
+const AuditLogViewer: React.FC = () => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filters, setFilters] = useState(emptyFilters);
+
+  useEffect(() => {
+    profileService.getAllProfiles()
+      .then(setProfiles)
+      .catch((error) => console.error('Error fetching profiles:', error));
+  }, []);
+
+  // Filtering happens in the backend query, so each change refetches
+  useEffect(() => {
+    const fetchEntries = async () => {
+      setLoading(true);
+      try {
+        const filter: AuditLogFilter = {
+          entityType: (filters.entityType || undefined) as AuditEntityType | undefined,
+          actorId: filters.actorId || undefined,
+          from: filters.from ? startOfDay(parseISO(filters.from)).toISOString() : undefined,
+          to: filters.to ? endOfDay(parseISO(filters.to)).toISOString() : undefined,
+        };
+        setEntries(await auditLogService.getEntries(filter));
+      } catch (error) {
+        console.error('Error fetching audit log:', error);
+        toast.error((error as Error).message || 'Failed to load the audit log');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchEntries();
+  }, [filters]);
+
+  const profileName = (profileId: string | null) =>
+    profileId ? profiles.find(profile => profile.id === profileId)?.fullName || 'Unknown user' : 'System';
+
+  const filtered = Object.values(filters).some(Boolean);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900">Audit Log</h2>
+        <p className="text-sm text-gray-500 mt-1">
+          Every create, update and delete, newest first. Entries cannot be edited or removed.
+        </p>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Entity
+            </label>
+            <select
+              value={filters.entityType}
+              onChange={(e) => setFilters(prev => ({ ...prev, entityType: e.target.value }))}
+              className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="">All entities</option>
+              {auditEntityTypes.map(entityType => (
+                <option key={entityType} value={entityType}>{auditEntityLabels[entityType]}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              User
+            </label>
+            <select
+              value={filters.actorId}
+              onChange={(e) => setFilters(prev => ({ ...prev, actorId: e.target.value }))}
+              className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="">All users</option>
+              {profiles.map(profile => (
+                <option key={profile.id} value={profile.id}>{profile.fullName}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              From
+            </label>
+            <input
+              type="date"
+              value={filters.from}
+              max={filters.to || undefined}
+              onChange={(e) => setFilters(prev => ({ ...prev, from: e.target.value }))}
+              className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              To
+            </label>
+            <input
+              type="date"
+              value={filters.to}
+              min={filters.from || undefined}
+              onChange={(e) => setFilters(prev => ({ ...prev, to: e.target.value }))}
+              className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+
+          <button
+            onClick={() => setFilters(emptyFilters)}
+            disabled={!filtered}
+            className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-medium py-2 px-4 rounded-lg transition-colors disabled:opacity-50"
+          >
+            Clear Filters
+          </button>
+        </div>
+      </div>
+
+      {/* Entries */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        {loading ? (
+          <div className="p-6 animate-pulse space-y-4">
+            {[...Array(5)].map((_, i) => (
+              <div key={i} className="h-12 bg-gray-200 rounded"></div>
+            ))}
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    When
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    User
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Action
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Entity
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Changes
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {entries.length === 0 ? (
+                  <tr>
+                    <td colSpan={5} className="px-6 py-8 text-center text-gray-500">
+                      {filtered ? 'No audit entries match these filters.' : 'No audit entries yet.'}
+                    </td>
+                  </tr>
+                ) : (
+                  entries.map((entry) => (
+                    <tr key={entry.id} className="hover:bg-gray-50 align-top">
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                        {format(new Date(entry.timestamp), 'PPP p')}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {profileName(entry.actorId)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={`px-2 py-1 text-xs font-semibold rounded-full ${actionColors[entry.action]}`}>
+                          {auditActionLabels[entry.action]}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 text-sm">
+                        <p className="font-medium text-gray-900">{entry.entityLabel || entry.entityId}</p>
+                        <p className="text-xs text-gray-500">{auditEntityLabels[entry.entityType]}</p>
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-600">
+                        {entry.changes.length === 0 ? (
+                          <span className="text-gray-400">No field changes</span>
+                        ) : (
+                          <ul className="space-y-1">
+                            {entry.changes.map((change) => (
+                              <li key={change.field}>
+                                <span className="font-medium text-gray-700">{change.field}:</span>{' '}
+                                {entry.action !== 'create' && (
+                                  <span className="text-red-600 line-through">{formatAuditValue(change.before)}</span>
+                                )}
+                                {entry.action === 'update' && ' → '}
+                                {entry.action !== 'delete' && (
+                                  <span className="text-green-700">{formatAuditValue(change.after)}</span>
+                                )}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        )}
+        {!loading && entries.length === AUDIT_LOG_LIMIT && (
+          <div className="px-6 py-3 border-t border-gray-200 text-sm text-gray-500">
+            Showing the latest {AUDIT_LOG_LIMIT} entries. Narrow the filters to see older changes.
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AuditLogViewer;
@@ -0,0 +1,112 @@
+import React from 'react';
+import { PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { checklistItemKinds } from '../../types/models';
+import type { ChecklistItem, ChecklistItemKind } from '../../types/models';
+import { newChecklistItem } from '../../utils/workOrders';
+
+interface ChecklistEditorProps {
+  items: ChecklistItem[];
+  onChange: (items: ChecklistItem[]) => void;
+}
+
+const kindLabels: Record<ChecklistItemKind, string> = {
+  check: 'Check',
+  reading: 'Reading',
+};
+
+const parseBound = (value: string) => (value.trim() === '' ? null : Number(value));
+
+// Edits the checklist an equipment type's work orders start from
+const ChecklistEditor: React.FC<ChecklistEditorProps> = ({ items, onChange }) => {
+  const updateItem = (index: number, changes: Partial<ChecklistItem>) =>
+    onChange(items.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-2">
+        <label className="block text-sm font-medium text-gray-700">Maintenance Checklist</label>
+        <button
+          type="button"
+          onClick={() => onChange([...items, newChecklistItem()])}
+          className="text-sm text-blue-600 hover:text-blue-900 flex items-center space-x-1"
+        >
+          <PlusIcon className="h-4 w-4" />
+          <span>Add Step</span>
+        </button>
+      </div>
+      {items.length === 0 ? (
+        <p className="text-sm text-gray-500">No checklist. Work orders for this type only record parts and labour.</p>
+      ) : (
+        <div className="space-y-2">
+          {items.map((item, index) => (
+            <div key={item.id} className="grid grid-cols-12 gap-2 items-center">
+              <input
+                type="text"
+                placeholder="Step, e.g. Earth leakage current"
+                value={item.label}
+                onChange={(e) => updateItem(index, { label: e.target.value })}
+                className="col-span-4 border border-gray-300 rounded-lg px-2 py-1 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <select
+                value={item.kind}
+                onChange={(e) => updateItem(index, { kind: e.target.value as ChecklistItemKind })}
+                className="col-span-2 border border-gray-300 rounded-lg px-2 py-1 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {checklistItemKinds.map(kind => (
+                  <option key={kind} value={kind}>{kindLabels[kind]}</option>
+                ))}
+              </select>
+              {item.kind === 'reading' ? (
+                <>
+                  <input
+                    type="text"
+                    placeholder="Unit"
+                    value={item.unit ?? ''}
+                    onChange={(e) => updateItem(index, { unit: e.target.value || null })}
+                    className="col-span-1 border border-gray-300 rounded-lg px-2 py-1 text-sm"
+                  />
+                  <input
+                    type="number"
+                    step="any"
+                    placeholder="Min"
+                    value={item.min ?? ''}
+                    onChange={(e) => updateItem(index, { min: parseBound(e.target.value) })}
+                    className="col-span-1 border border-gray-300 rounded-lg px-2 py-1 text-sm"
+                  />
+                  <input
+                    type="number"
+                    step="any"
+                    placeholder="Max"
+                    value={item.max ?? ''}
+                    onChange={(e) => updateItem(index, { max: parseBound(e.target.value) })}
+                    className="col-span-1 border border-gray-300 rounded-lg px-2 py-1 text-sm"
+                  />
+                </>
+              ) : (
+                <span className="col-span-3" />
+              )}
+              <label className="col-span-2 flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={item.required}
+                  onChange={(e) => updateItem(index, { required: e.target.checked })}
+                  className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded mr-2"
+                />
+                Required
+              </label>
+              <button
+                type="button"
+                onClick={() => onChange(items.filter((_, i) => i !== index))}
+                className="col-span-1 text-red-600 hover:text-red-900 justify-self-center"
+              >
+                <TrashIcon className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChecklistEditor;
@@ -1,42 +1,45 @@
 import React, { useState, useEffect } from 'react';
 import { PlusIcon, ShieldCheckIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
-import { supabase } from '../../lib/supabase';
-import { format, isAfter, isBefore, addDays } from 'date-fns';
+import { complianceService, deviceService } from '../../services';
+import type { ComplianceRecord, Device } from '../../types/models';
+import { format } from 'date-fns';
 import toast from 'react-hot-toast';
+import { useAuth } from '../../contexts/AuthContext';
+import { useNow } from '../../hooks/useNow';
+import {
+  complianceStatusLabels,
+  complianceStatusOf,
+  DEFAULT_REMINDER_DAYS,
+  isCurrentCertificate,
+  reminderWindows,
+} from '../../utils/compliance';
+import ComplianceTimeline from './ComplianceTimeline';
 
-interface ComplianceRecord {
-  id: string;
-  device_id: string;
-  compliance_type: string;
-  certificate_number: string | null;
-  issue_date: string | null;
-  expiry_date: string | null;
-  status: string;
-  auditor_name: string | null;
-  notes: string | null;
-  devices: { name: string; model: string | null };
-}
-
-interface Device {
-  id: string;
-  name: string;
-  model: string | null;
-}
+// "90, 60, 30, 7" -> [90, 60, 30, 7]; anything that isn't a whole number of days is dropped
+const parseReminderDays = (value: string) =>
+  reminderWindows({ reminderDays: value.split(',').map(part => Number(part.trim())) });
 
 const ComplianceManagement: React.FC = () => {
+  const { can } = useAuth();
+  const canManage = can('compliance.manage');
+  // Statuses follow the expiry dates as time passes, not just when a record is saved
+  const now = useNow(60 * 1000);
   const [records, setRecords] = useState<ComplianceRecord[]>([]);
   const [devices, setDevices] = useState<Device[]>([]);
   const [loading, setLoading] = useState(true);
   const [showForm, setShowForm] = useState(false);
   const [editingRecord, setEditingRecord] = useState<ComplianceRecord | null>(null);
+  const [renewingRecord, setRenewingRecord] = useState<ComplianceRecord | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
   const [formData, setFormData] = useState({
-    device_id: '',
-    compliance_type: 'FDA',
-    certificate_number: '',
-    issue_date: '',
-    expiry_date: '',
-    auditor_name: '',
+    deviceId: '',
+    complianceType: 'FDA',
+    certificateNumber: '',
+    issueDate: '',
+    expiryDate: '',
+    auditorName: '',
     notes: '',
+    reminderDays: DEFAULT_REMINDER_DAYS.join(', '),
   });
 
   useEffect(() => {
@@ -45,16 +48,13 @@ const ComplianceManagement: React.FC = () => {
 
   const fetchData = async () => {
     try {
-      const [recordsResult, devicesResult] = await Promise.all([
-        supabase.from('compliance_records').select(`
-          *,
-          devices(name, model)
-        `).order('expiry_date', { ascending: true }),
-        supabase.from('devices').select('id, name, model').order('name'),
+      const [recordsData, devicesData] = await Promise.all([
+        complianceService.getAllRecords(),
+        deviceService.getAllDevices(),
       ]);
 
-      if (recordsResult.data) setRecords(recordsResult.data);
-      if (devicesResult.data) setDevices(devicesResult.data);
+      setRecords(recordsData);
+      setDevices([...devicesData].sort((a, b) => a.name.localeCompare(b.name)));
     } catch (error) {
       console.error('Error fetching data:', error);
       toast.error('Failed to load compliance data');
@@ -69,26 +69,28 @@ const ComplianceManagement: React.FC = () => {
 
     try {
       const recordData = {
-        device_id: formData.device_id,
-        compliance_type: formData.compliance_type,
-        certificate_number: formData.certificate_number || null,
-        issue_date: formData.issue_date || null,
-        expiry_date: formData.expiry_date || null,
-        auditor_name: formData.auditor_name || null,
+        deviceId: formData.deviceId,
+        complianceType: formData.complianceType,
+        certificateNumber: formData.certificateNumber || null,
+        issueDate: formData.issueDate || null,
+        expiryDate: formData.expiryDate || null,
+        auditorName: formData.auditorName || null,
         notes: formData.notes || null,
-        status: getComplianceStatus(formData.expiry_date),
+        reminderDays: parseReminderDays(formData.reminderDays),
       };
+      const status = complianceStatusOf(
+        { ...recordData, status: 'valid', supersededBy: editingRecord?.supersededBy ?? null },
+        new Date()
+      );
 
-      if (editingRecord) {
-        const { error } = await supabase
-          .from('compliance_records')
-          .update(recordData)
-          .eq('id', editingRecord.id);
-        if (error) throw error;
+      if (renewingRecord) {
+        await complianceService.renewRecord(renewingRecord.id, { ...recordData, status });
+        toast.success('Certificate renewed; the previous record is kept as history');
+      } else if (editingRecord) {
+        await complianceService.updateRecord(editingRecord.id, { ...recordData, status });
         toast.success('Compliance record updated successfully');
       } else {
-        const { error } = await supabase.from('compliance_records').insert(recordData);
-        if (error) throw error;
+        await complianceService.createRecord({ ...recordData, status });
         toast.success('Compliance record created successfully');
       }
 
@@ -102,28 +104,36 @@ const ComplianceManagement: React.FC = () => {
     }
   };
 
-  const getComplianceStatus = (expiryDate: string | null) => {
-    if (!expiryDate) return 'valid';
-    
-    const expiry = new Date(expiryDate);
-    const now = new Date();
-    const thirtyDaysFromNow = addDays(now, 30);
-
-    if (isBefore(expiry, now)) return 'expired';
-    if (isBefore(expiry, thirtyDaysFromNow)) return 'pending_renewal';
-    return 'valid';
-  };
-
   const startEdit = (record: ComplianceRecord) => {
+    setRenewingRecord(null);
     setEditingRecord(record);
     setFormData({
-      device_id: record.device_id,
-      compliance_type: record.compliance_type,
-      certificate_number: record.certificate_number || '',
-      issue_date: record.issue_date || '',
-      expiry_date: record.expiry_date || '',
-      auditor_name: record.auditor_name || '',
+      deviceId: record.deviceId,
+      complianceType: record.complianceType,
+      certificateNumber: record.certificateNumber || '',
+      issueDate: record.issueDate || '',
+      expiryDate: record.expiryDate || '',
+      auditorName: record.auditorName || '',
       notes: record.notes || '',
+      reminderDays: record.reminderDays.join(', '),
+    });
+    setShowForm(true);
+  };
+
+  // The renewed certificate starts from the old one's device, type, auditor
+  // and reminders; the new number and dates have to be entered
+  const startRenew = (record: ComplianceRecord) => {
+    setEditingRecord(null);
+    setRenewingRecord(record);
+    setFormData({
+      deviceId: record.deviceId,
+      complianceType: record.complianceType,
+      certificateNumber: '',
+      issueDate: format(new Date(), 'yyyy-MM-dd'),
+      expiryDate: '',
+      auditorName: record.auditorName || '',
+      notes: '',
+      reminderDays: record.reminderDays.join(', '),
     });
     setShowForm(true);
   };
@@ -131,14 +141,16 @@ const ComplianceManagement: React.FC = () => {
   const resetForm = () => {
     setShowForm(false);
     setEditingRecord(null);
+    setRenewingRecord(null);
     setFormData({
-      device_id: '',
-      compliance_type: 'FDA',
-      certificate_number: '',
-      issue_date: '',
-      expiry_date: '',
-      auditor_name: '',
+      deviceId: '',
+      complianceType: 'FDA',
+      certificateNumber: '',
+      issueDate: '',
+      expiryDate: '',
+      auditorName: '',
       notes: '',
+      reminderDays: DEFAULT_REMINDER_DAYS.join(', '),
     });
   };
 
@@ -168,6 +180,9 @@ const ComplianceManagement: React.FC = () => {
     }
   };
 
+  const getDevice = (deviceId: string) => devices.find(device => device.id === deviceId);
+  const getRecord = (recordId: string | null) => records.find(record => record.id === recordId);
+
   if (loading && records.length === 0) {
     return (
       <div className="space-y-6">
@@ -186,20 +201,24 @@ const ComplianceManagement: React.FC = () => {
     );
   }
 
-  const expiredRecords = records.filter(r => r.status === 'expired').length;
-  const pendingRenewal = records.filter(r => r.status === 'pending_renewal').length;
+  const currentRecords = records.filter(isCurrentCertificate);
+  const visibleRecords = showHistory ? records : currentRecords;
+  const expiredRecords = currentRecords.filter(r => complianceStatusOf(r, now) === 'expired').length;
+  const pendingRenewal = currentRecords.filter(r => complianceStatusOf(r, now) === 'pending_renewal').length;
 
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-center">
         <h2 className="text-2xl font-bold text-gray-900">Compliance Management</h2>
-        <button
-          onClick={() => setShowForm(true)}
-          className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white font-medium py-2 px-4 rounded-lg transition-all duration-200 flex items-center space-x-2"
-        >
-          <PlusIcon className="h-4 w-4" />
-          <span>Add Compliance Record</span>
-        </button>
+        {canManage && (
+          <button
+            onClick={() => setShowForm(true)}
+            className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white font-medium py-2 px-4 rounded-lg transition-all duration-200 flex items-center space-x-2"
+          >
+            <PlusIcon className="h-4 w-4" />
+            <span>Add Compliance Record</span>
+          </button>
+        )}
       </div>
 
       {/* Compliance Alerts */}
@@ -214,7 +233,7 @@ const ComplianceManagement: React.FC = () => {
                   <p>🚨 {expiredRecords} compliance certificates have expired</p>
                 )}
                 {pendingRenewal > 0 && (
-                  <p>⚠️ {pendingRenewal} certificates require renewal within 30 days</p>
+                  <p>⚠️ {pendingRenewal} certificates are due for renewal</p>
                 )}
               </div>
             </div>
@@ -226,7 +245,9 @@ const ComplianceManagement: React.FC = () => {
       {showForm && (
         <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
           <h3 className="text-lg font-semibold text-gray-800 mb-4">
-            {editingRecord ? 'Edit Compliance Record' : 'Add New Compliance Record'}
+            {renewingRecord
+              ? `Renew ${renewingRecord.complianceType} Certificate${renewingRecord.certificateNumber ? ` ${renewingRecord.certificateNumber}` : ''}`
+              : editingRecord ? 'Edit Compliance Record' : 'Add New Compliance Record'}
           </h3>
           <form onSubmit={handleSubmit} className="space-y-4">
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
@@ -235,9 +256,10 @@ const ComplianceManagement: React.FC = () => {
                   Device *
                 </label>
                 <select
-                  value={formData.device_id}
-                  onChange={(e) => setFormData(prev => ({ ...prev, device_id: e.target.value }))}
+                  value={formData.deviceId}
+                  onChange={(e) => setFormData(prev => ({ ...prev, deviceId: e.target.value }))}
                   required
+                  disabled={!!renewingRecord}
                   className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                 >
                   <option value="">Select device</option>
@@ -254,9 +276,10 @@ const ComplianceManagement: React.FC = () => {
                   Compliance Type *
                 </label>
                 <select
-                  value={formData.compliance_type}
-                  onChange={(e) => setFormData(prev => ({ ...prev, compliance_type: e.target.value }))}
+                  value={formData.complianceType}
+                  onChange={(e) => setFormData(prev => ({ ...prev, complianceType: e.target.value }))}
                   required
+                  disabled={!!renewingRecord}
                   className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                 >
                   <option value="FDA">FDA</option>
@@ -274,8 +297,8 @@ const ComplianceManagement: React.FC = () => {
                 </label>
                 <input
                   type="text"
-                  value={formData.certificate_number}
-                  onChange={(e) => setFormData(prev => ({ ...prev, certificate_number: e.target.value }))}
+                  value={formData.certificateNumber}
+                  onChange={(e) => setFormData(prev => ({ ...prev, certificateNumber: e.target.value }))}
                   className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                 />
               </div>
@@ -286,20 +309,21 @@ const ComplianceManagement: React.FC = () => {
                 </label>
                 <input
                   type="date"
-                  value={formData.issue_date}
-                  onChange={(e) => setFormData(prev => ({ ...prev, issue_date: e.target.value }))}
+                  value={formData.issueDate}
+                  onChange={(e) => setFormData(prev => ({ ...prev, issueDate: e.target.value }))}
                   className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                 />
               </div>
 
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Expiry Date
+                  Expiry Date {renewingRecord && '*'}
                 </label>
                 <input
                   type="date"
-                  value={formData.expiry_date}
-                  onChange={(e) => setFormData(prev => ({ ...prev, expiry_date: e.target.value }))}
+                  value={formData.expiryDate}
+                  onChange={(e) => setFormData(prev => ({ ...prev, expiryDate: e.target.value }))}
+                  required={!!renewingRecord}
                   className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                 />
               </div>
@@ -310,12 +334,28 @@ const ComplianceManagement: React.FC = () => {
                 </label>
                 <input
                   type="text"
-                  value={formData.auditor_name}
-                  onChange={(e) => setFormData(prev => ({ ...prev, auditor_name: e.target.value }))}
+                  value={formData.auditorName}
+                  onChange={(e) => setFormData(prev => ({ ...prev, auditorName: e.target.value }))}
                   className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                 />
               </div>
 
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Reminders (days before expiry)
+                </label>
+                <input
+                  type="text"
+                  value={formData.reminderDays}
+                  onChange={(e) => setFormData(prev => ({ ...prev, reminderDays: e.target.value }))}
+                  placeholder={DEFAULT_REMINDER_DAYS.join(', ')}
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  A reminder goes out at each; the first opens renewal and raises a renewal task
+                </p>
+              </div>
+
               <div className="lg:col-span-3">
                 <label className="block text-sm font-medium text-gray-700 mb-1">
                   Notes
@@ -343,15 +383,28 @@ const ComplianceManagement: React.FC = () => {
                 disabled={loading}
                 className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white font-medium py-2 px-4 rounded-lg transition-all duration-200 disabled:opacity-50"
               >
-                {loading ? 'Saving...' : editingRecord ? 'Update Record' : 'Create Record'}
+                {loading ? 'Saving...' : renewingRecord ? 'Renew Certificate' : editingRecord ? 'Update Record' : 'Create Record'}
               </button>
             </div>
           </form>
         </div>
       )}
 
+      <ComplianceTimeline records={records} devices={devices} now={now} />
+
       {/* Compliance Records Table */}
       <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-100 flex justify-end">
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={showHistory}
+              onChange={(e) => setShowHistory(e.target.checked)}
+              className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded mr-2"
+            />
+            Show renewed certificates
+          </label>
+        </div>
         <div className="overflow-x-auto">
           <table className="min-w-full divide-y divide-gray-200">
             <thead className="bg-gray-50">
@@ -377,45 +430,68 @@ const ComplianceManagement: React.FC = () => {
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
-              {records.map((record) => (
+              {visibleRecords.map((record) => {
+                const device = getDevice(record.deviceId);
+                const status = complianceStatusOf(record, now);
+                const renewedFrom = getRecord(record.renewedFrom);
+                return (
                 <tr key={record.id} className="hover:bg-gray-50">
                   <td className="px-6 py-4 whitespace-nowrap">
                     <div>
                       <div className="text-sm font-medium text-gray-900">
-                        {record.devices.name}
+                        {device?.name || 'Unknown device'}
                       </div>
-                      {record.devices.model && (
-                        <div className="text-sm text-gray-500">{record.devices.model}</div>
+                      {device?.model && (
+                        <div className="text-sm text-gray-500">{device.model}</div>
                       )}
                     </div>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                    {record.compliance_type}
+                    {record.complianceType}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                    {record.certificate_number || 'N/A'}
+                    {record.certificateNumber || 'N/A'}
+                    {renewedFrom && (
+                      <div className="text-xs text-gray-500">
+                        Renews {renewedFrom.certificateNumber || 'certificate'}
+                        {renewedFrom.expiryDate && `, which ran to ${format(new Date(renewedFrom.expiryDate), 'MMM dd, yyyy')}`}
+                      </div>
+                    )}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                    {record.expiry_date ? format(new Date(record.expiry_date), 'MMM dd, yyyy') : 'N/A'}
+                    {record.expiryDate ? format(new Date(record.expiryDate), 'MMM dd, yyyy') : 'N/A'}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
                     <div className="flex items-center">
-                      {getStatusIcon(record.status)}
-                      <span className={`ml-2 px-2 py-1 text-xs font-semibold rounded-full ${getStatusColor(record.status)}`}>
-                        {record.status.replace('_', ' ')}
+                      {getStatusIcon(status)}
+                      <span className={`ml-2 px-2 py-1 text-xs font-semibold rounded-full ${getStatusColor(status)}`}>
+                        {complianceStatusLabels[status]}
                       </span>
                     </div>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
-                    <button
-                      onClick={() => startEdit(record)}
-                      className="text-blue-600 hover:text-blue-900 transition-colors"
-                    >
-                      Edit
-                    </button>
+                    {canManage && (
+                      <div className="flex space-x-3">
+                        <button
+                          onClick={() => startEdit(record)}
+                          className="text-blue-600 hover:text-blue-900 transition-colors"
+                        >
+                          Edit
+                        </button>
+                        {isCurrentCertificate(record) && (
+                          <button
+                            onClick={() => startRenew(record)}
+                            className="text-green-600 hover:text-green-900 transition-colors"
+                          >
+                            Renew
+                          </button>
+                        )}
+                      </div>
+                    )}
                   </td>
                 </tr>
-              ))}
+                );
+              })}
             </tbody>
           </table>
         </div>
@@ -0,0 +1,73 @@
+import React from 'react';
+import { format, parseISO } from 'date-fns';
+import { CalendarIcon } from '@heroicons/react/24/outline';
+import type { ComplianceRecord, Device } from '../../types/models';
+import { daysUntilExpiry, EXPIRY_TIMELINE_DAYS, reminderWindows, upcomingExpiries } from '../../utils/compliance';
+
+interface ComplianceTimelineProps {
+  records: ComplianceRecord[];
+  devices: Device[];
+  now: Date;
+}
+
+// Red inside the last reminder window, yellow once renewal is due, green before that
+const urgencyColor = (record: ComplianceRecord, now: Date) => {
+  const daysLeft = daysUntilExpiry(record, now) ?? 0;
+  const windows = reminderWindows(record);
+  if (daysLeft <= (windows[windows.length - 1] ?? 0)) return 'bg-red-100 text-red-700';
+  if (daysLeft <= (windows[0] ?? 0)) return 'bg-yellow-100 text-yellow-700';
+  return 'bg-green-100 text-green-700';
+};
+
+// Certificates in force that expire over the coming months
+const ComplianceTimeline: React.FC<ComplianceTimelineProps> = ({ records, devices, now }) => {
+  const months = upcomingExpiries(records, now);
+  const deviceName = (deviceId: string) => devices.find(device => device.id === deviceId)?.name || 'Unknown device';
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100">
+      <div className="p-6 border-b border-gray-100">
+        <h3 className="text-lg font-semibold text-gray-800">Upcoming Expiries</h3>
+        <p className="text-sm text-gray-500">Certificates expiring in the next {EXPIRY_TIMELINE_DAYS} days</p>
+      </div>
+      {months.length === 0 ? (
+        <p className="p-6 text-center text-gray-500">No certificates expire in the next {EXPIRY_TIMELINE_DAYS} days</p>
+      ) : (
+        <div className="p-6 space-y-6">
+          {months.map(({ month, records: expiring }) => (
+            <div key={month.toISOString()} className="relative pl-6 border-l-2 border-gray-200">
+              <span className="absolute -left-2 top-0 h-4 w-4 rounded-full bg-blue-500 border-2 border-white" />
+              <h4 className="text-sm font-semibold text-gray-700 mb-2">{format(month, 'MMMM yyyy')}</h4>
+              <div className="space-y-2">
+                {expiring.map(record => {
+                  const daysLeft = daysUntilExpiry(record, now) ?? 0;
+                  return (
+                    <div key={record.id} className="flex items-center justify-between">
+                      <div className="flex items-center space-x-3">
+                        <CalendarIcon className="h-4 w-4 text-gray-400" />
+                        <div>
+                          <p className="text-sm font-medium text-gray-900">
+                            {deviceName(record.deviceId)} · {record.complianceType}
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            {record.certificateNumber || 'No certificate number'} · expires{' '}
+                            {format(parseISO(record.expiryDate as string), 'MMM dd, yyyy')}
+                          </p>
+                        </div>
+                      </div>
+                      <span className={`px-2 py-1 text-xs font-semibold rounded-full ${urgencyColor(record, now)}`}>
+                        {daysLeft === 0 ? 'Today' : `${daysLeft} day(s)`}
+                      </span>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ComplianceTimeline;
@@ -0,0 +1,323 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import {
+  ArrowLeftIcon,
+  ArrowPathIcon,
+  CheckBadgeIcon,
+  Cog6ToothIcon,
+  DocumentTextIcon,
+  ExclamationTriangleIcon,
+  MapPinIcon,
+  PlusCircleIcon,
+  UserIcon,
+} from '@heroicons/react/24/outline';
+import {
+  auditLogService,
+  complianceService,
+  deviceService,
+  incidentService,
+  maintenanceService,
+  profileService,
+  requestService,
+} from '../../services';
+import type {
+  AuditEntry,
+  ComplianceRecord,
+  Device,
+  Incident,
+  MaintenanceSchedule,
+  Profile,
+  Request,
+} from '../../types/models';
+import { useAuth } from '../../contexts/AuthContext';
+import { useNow } from '../../hooks/useNow';
+import {
+  DeviceTimelineKind,
+  buildDeviceTimeline,
+  buildStatusPeriods,
+  computeReliability,
+  deviceStatusBarColors,
+  deviceStatusColors,
+  formatDuration,
+} from '../../utils/deviceHistory';
+import { AUDIT_HISTORY_LIMIT } from '../../utils/audit';
+import AttachmentList from './AttachmentList';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+
+const timelineIcons: Record<DeviceTimelineKind, { icon: typeof UserIcon; color: string }> = {
+  registered: { icon: PlusCircleIcon, color: 'bg-blue-100 text-blue-600' },
+  status: { icon: ArrowPathIcon, color: 'bg-purple-100 text-purple-600' },
+  assignment: { icon: UserIcon, color: 'bg-indigo-100 text-indigo-600' },
+  location: { icon: MapPinIcon, color: 'bg-teal-100 text-teal-600' },
+  request: { icon: DocumentTextIcon, color: 'bg-blue-100 text-blue-600' },
+  incident: { icon: ExclamationTriangleIcon, color: 'bg-red-100 text-red-600' },
+  maintenance: { icon: Cog6ToothIcon, color: 'bg-yellow-100 text-yellow-600' },
+  compliance: { icon: CheckBadgeIcon, color: 'bg-green-100 text-green-600' },
+};
+
+// Full lifecycle of one device: status over time, reliability figures and
+// every request, incident, maintenance job and certificate that touched it
+const DeviceHistory: React.FC = () => {
+  const { deviceId } = useParams<{ deviceId: string }>();
+  const { can } = useAuth();
+  const now = useNow(60000);
+  const [device, setDevice] = useState<Device | null>(null);
+  const [auditEntries, setAuditEntries] = useState<AuditEntry[]>([]);
+  const [historyTruncated, setHistoryTruncated] = useState(false);
+  const [requests, setRequests] = useState<Request[]>([]);
+  const [incidents, setIncidents] = useState<Incident[]>([]);
+  const [schedules, setSchedules] = useState<MaintenanceSchedule[]>([]);
+  const [records, setRecords] = useState<ComplianceRecord[]>([]);
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const canSeeRequests = can('requests.viewAll') || can('requests.viewDepartment');
+  const canSeeIncidents = can('incidents.view');
+  const canSeeMaintenance = can('maintenance.view');
+  const canSeeCompliance = can('compliance.view');
+  // Service reports and calibration certificates come from whoever looks after the equipment
+  const canUploadFiles = can('devices.manage') || can('maintenance.manage');
+
+  useEffect(() => {
+    if (!deviceId) return;
+
+    const fetchHistory = async () => {
+      setLoading(true);
+      try {
+        // Sections the role cannot see are simply left out
+        const [devicesData, auditData, requestsData, incidentsData, schedulesData, recordsData, profilesData] = await Promise.all([
+          deviceService.getAllDevices(),
+          auditLogService.getHistory('device', deviceId),
+          canSeeRequests ? requestService.getAllRequests() : Promise.resolve([]),
+          canSeeIncidents ? incidentService.getAllIncidents() : Promise.resolve([]),
+          canSeeMaintenance ? maintenanceService.getAllSchedules() : Promise.resolve([]),
+          canSeeCompliance ? complianceService.getAllRecords() : Promise.resolve([]),
+          profileService.getAllProfiles(),
+        ]);
+
+        setDevice(devicesData.find(d => d.id === deviceId) ?? null);
+        setAuditEntries(auditData.entries);
+        setHistoryTruncated(auditData.truncated);
+        setRequests(requestsData.filter(r => r.deviceId === deviceId));
+        setIncidents(incidentsData.filter(i => i.deviceId === deviceId));
+        setSchedules(schedulesData.filter(s => s.deviceId === deviceId));
+        setRecords(recordsData.filter(r => r.deviceId === deviceId));
+        setProfiles(profilesData);
+      } catch (error) {
+        console.error('Error fetching device history:', error);
+        toast.error((error as Error).message || 'Failed to load device history');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchHistory();
+  }, [deviceId, canSeeRequests, canSeeIncidents, canSeeMaintenance, canSeeCompliance]);
+
+  const profileName = (profileId: string | null) =>
+    profileId ? profiles.find(p => p.id === profileId)?.fullName || 'Unknown user' : 'Nobody';
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50">
+        <div className="max-w-7xl mx-auto p-6 space-y-6">
+          <div className="h-24 bg-white rounded-xl animate-pulse"></div>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+            {[...Array(4)].map((_, i) => (
+              <div key={i} className="h-24 bg-white rounded-xl animate-pulse"></div>
+            ))}
+          </div>
+          <div className="h-96 bg-white rounded-xl animate-pulse"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!device) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50">
+        <div className="max-w-7xl mx-auto p-6">
+          <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-8 text-center">
+            <p className="text-gray-500 mb-4">This device does not exist or has been deleted.</p>
+            <Link to="/" className="text-blue-600 hover:text-blue-900">Back to the dashboard</Link>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const periods = buildStatusPeriods(device, auditEntries);
+  const reliability = computeReliability(periods, now);
+  const timeline = buildDeviceTimeline({ device, auditEntries, requests, incidents, schedules, records, profileName });
+  const lifetimeMs = Math.max(now.getTime() - periods[0].from.getTime(), 1);
+
+  const metricCards = [
+    {
+      title: 'Failures',
+      value: reliability.failures.toString(),
+      hint: `${incidents.length} incident${incidents.length === 1 ? '' : 's'} reported`,
+    },
+    {
+      title: 'Mean Time Between Failures',
+      value: reliability.mtbfMs === null ? '—' : formatDuration(reliability.mtbfMs),
+      hint: reliability.mtbfMs === null ? 'No failures recorded' : 'In-service time per failure',
+    },
+    {
+      title: 'Downtime',
+      value: formatDuration(reliability.downtimeMs),
+      hint: `${formatDuration(reliability.faultyMs)} of it faulty`,
+    },
+    {
+      title: 'Availability',
+      value: reliability.availability === null ? '—' : `${(reliability.availability * 100).toFixed(1)}%`,
+      hint: 'Usable share of in-service time',
+    },
+  ];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50">
+      <div className="max-w-7xl mx-auto p-6 space-y-6">
+        <Link to="/" className="inline-flex items-center space-x-2 text-sm text-gray-600 hover:text-gray-900">
+          <ArrowLeftIcon className="h-4 w-4" />
+          <span>Back to the dashboard</span>
+        </Link>
+
+        {/* Device summary */}
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+          <div className="flex justify-between items-start">
+            <div>
+              <div className="flex items-center space-x-3">
+                <h2 className="text-2xl font-bold text-gray-900">{device.name}</h2>
+                <span className={`px-2 py-1 text-xs font-semibold rounded-full ${deviceStatusColors[device.status]}`}>
+                  {device.status}
+                </span>
+                {device.isCritical && (
+                  <span className="px-2 py-1 text-xs font-semibold rounded-full bg-red-100 text-red-700">Critical</span>
+                )}
+              </div>
+              <p className="text-sm text-gray-500 mt-1">
+                {[device.model, device.serialNumber && `SN: ${device.serialNumber}`, device.category].filter(Boolean).join(' · ')}
+              </p>
+            </div>
+          </div>
+          <dl className="grid grid-cols-2 md:grid-cols-5 gap-4 mt-4 text-sm">
+            <div>
+              <dt className="text-gray-500">Location</dt>
+              <dd className="text-gray-900">{device.location || '—'}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Assigned To</dt>
+              <dd className="text-gray-900">{device.assignedTo ? profileName(device.assignedTo) : 'Unassigned'}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Purchased</dt>
+              <dd className="text-gray-900">{device.purchaseDate ? format(new Date(device.purchaseDate), 'MMM dd, yyyy') : '—'}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Warranty Until</dt>
+              <dd className="text-gray-900">{device.warrantyDate ? format(new Date(device.warrantyDate), 'MMM dd, yyyy') : '—'}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Next Maintenance</dt>
+              <dd className="text-gray-900">{device.nextMaintenanceDate ? format(new Date(device.nextMaintenanceDate), 'MMM dd, yyyy') : '—'}</dd>
+            </div>
+          </dl>
+        </div>
+
+        {historyTruncated && (
+          <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+            This device has more than {AUDIT_HISTORY_LIMIT.toLocaleString()} recorded changes. Only the latest are
+            shown, so the status figures and timeline leave out its earliest history.
+          </div>
+        )}
+
+        {/* Reliability */}
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+          {metricCards.map((metric) => (
+            <div key={metric.title} className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+              <p className="text-sm font-medium text-gray-600">{metric.title}</p>
+              <p className="text-2xl font-bold text-gray-900">{metric.value}</p>
+              <p className="text-xs text-gray-500 mt-1">{metric.hint}</p>
+            </div>
+          ))}
+        </div>
+
+        {/* Status over time */}
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+          <h3 className="text-lg font-semibold text-gray-800 mb-4">Status Over Time</h3>
+          <div className="flex h-6 rounded-lg overflow-hidden">
+            {periods.map((period) => (
+              <div
+                key={period.from.getTime()}
+                className={deviceStatusBarColors[period.status]}
+                style={{ width: `${(((period.to ?? now).getTime() - period.from.getTime()) / lifetimeMs) * 100}%` }}
+                title={`${period.status}: ${format(period.from, 'MMM dd, yyyy HH:mm')} – ${period.to ? format(period.to, 'MMM dd, yyyy HH:mm') : 'now'}`}
+              />
+            ))}
+          </div>
+          <div className="flex justify-between text-xs text-gray-500 mt-2">
+            <span>{format(periods[0].from, 'MMM dd, yyyy')}</span>
+            <span>Now</span>
+          </div>
+          <div className="flex flex-wrap gap-4 mt-3 text-xs text-gray-600">
+            {(Object.keys(deviceStatusBarColors) as (keyof typeof deviceStatusBarColors)[]).map((status) => (
+              <span key={status} className="flex items-center space-x-1">
+                <span className={`h-3 w-3 rounded-sm ${deviceStatusBarColors[status]}`}></span>
+                <span>{status}</span>
+              </span>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Timeline */}
+          <div className="lg:col-span-2 bg-white rounded-xl shadow-sm border border-gray-100">
+            <div className="p-6 border-b border-gray-100">
+              <h3 className="text-lg font-semibold text-gray-800">Lifecycle Timeline</h3>
+            </div>
+            {timeline.length === 0 ? (
+              <p className="p-6 text-center text-gray-500">Nothing has been recorded for this device yet.</p>
+            ) : (
+              <ul className="divide-y divide-gray-100">
+                {timeline.map((event) => {
+                  const { icon: Icon, color } = timelineIcons[event.kind];
+                  return (
+                    <li key={event.id} className="px-6 py-4 flex items-start space-x-3">
+                      <div className={`p-2 rounded-lg ${color}`}>
+                        <Icon className="h-5 w-5" />
+                      </div>
+                      <div className="flex-1">
+                        <div className="flex justify-between">
+                          <p className="font-medium text-gray-900">{event.title}</p>
+                          <span className="text-sm text-gray-500 whitespace-nowrap ml-4">
+                            {format(event.at, 'MMM dd, yyyy HH:mm')}
+                          </span>
+                        </div>
+                        {event.detail && <p className="text-sm text-gray-600">{event.detail}</p>}
+                        {event.actorId && <p className="text-xs text-gray-500">by {profileName(event.actorId)}</p>}
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+
+          {/* Files */}
+          <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+            <h3 className="text-lg font-semibold text-gray-800 mb-4">Files</h3>
+            <AttachmentList
+              ownerType="device"
+              ownerId={device.id}
+              includeDeviceHistory
+              canUpload={canUploadFiles}
+            />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DeviceHistory;
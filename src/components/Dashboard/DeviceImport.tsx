@@ -0,0 +1,303 @@
+import React, { useState } from 'react';
+import { ArrowUpTrayIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { deviceService } from '../../services';
+import type { Device, DeviceCategory, DeviceInput } from '../../types/models';
+import {
+  DEVICE_IMPORT_BATCH_SIZE,
+  ImportDateFormat,
+  ImportMapping,
+  ImportRow,
+  ImportSheet,
+  guessMapping,
+  importDateFormats,
+  importFieldDefinitions,
+  importFields,
+  readImportFile,
+  validateImportRows,
+} from '../../utils/deviceImport';
+import toast from 'react-hot-toast';
+
+interface DeviceImportProps {
+  categories: DeviceCategory[];
+  // The current register, to catch serial numbers that are already taken
+  devices: Device[];
+  onClose: () => void;
+}
+
+type ImportStep = 'upload' | 'map' | 'preview' | 'done';
+
+// Only the first rows are listed; the counts cover the whole file
+const PREVIEW_ROWS = 100;
+
+// Bulk device import: upload a CSV or Excel sheet, map its columns, check the
+// dry run and write the valid rows in batches
+const DeviceImport: React.FC<DeviceImportProps> = ({ categories, devices, onClose }) => {
+  const [step, setStep] = useState<ImportStep>('upload');
+  const [fileName, setFileName] = useState('');
+  const [sheet, setSheet] = useState<ImportSheet>({ headers: [], rows: [] });
+  const [mapping, setMapping] = useState<ImportMapping>(() => guessMapping([]));
+  const [dateFormat, setDateFormat] = useState<ImportDateFormat>('yyyy-MM-dd');
+  // Validated once on entering the preview, so devices added meanwhile (by
+  // this import or anyone else) do not change what is about to be written
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [showProblemsOnly, setShowProblemsOnly] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [progress, setProgress] = useState({ written: 0, failed: 0 });
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const data = await readImportFile(file);
+      if (data.rows.length === 0) {
+        toast.error('The file has no rows below the header');
+        return;
+      }
+      setFileName(file.name);
+      setSheet(data);
+      setMapping(guessMapping(data.headers));
+      setStep('map');
+    } catch (error) {
+      console.error('Error reading import file:', error);
+      toast.error((error as Error).message || 'Failed to read the file');
+    }
+  };
+
+  const handleCheckRows = () => {
+    setRows(validateImportRows(sheet, mapping, {
+      categories,
+      existingSerials: devices.map(device => device.serialNumber ?? '').filter(Boolean),
+      dateFormat,
+    }));
+    setProgress({ written: 0, failed: 0 });
+    setStep('preview');
+  };
+
+  const validDevices = rows.map(row => row.device).filter((device): device is DeviceInput => device !== null);
+  const problemCount = rows.length - validDevices.length;
+  const listedRows = (showProblemsOnly ? rows.filter(row => row.errors.length > 0) : rows).slice(0, PREVIEW_ROWS);
+
+  const handleImport = async () => {
+    setImporting(true);
+    let written = 0;
+    let failed = 0;
+    // A failed batch is reported and skipped; the batches before it stay imported
+    for (let start = 0; start < validDevices.length; start += DEVICE_IMPORT_BATCH_SIZE) {
+      const batch = validDevices.slice(start, start + DEVICE_IMPORT_BATCH_SIZE);
+      try {
+        await deviceService.createDevices(batch);
+        written += batch.length;
+      } catch (error) {
+        console.error('Error importing devices:', error);
+        failed += batch.length;
+        toast.error((error as Error).message || 'Failed to import a batch of devices');
+      }
+      setProgress({ written, failed });
+    }
+    setImporting(false);
+    setStep('done');
+    if (written > 0) toast.success(`${written} devices imported`);
+  };
+
+  const selectClass = 'w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+      <div className="flex justify-between items-start mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-800">Import Devices</h3>
+          <p className="text-sm text-gray-500">
+            {fileName ? `${fileName} · ${sheet.rows.length} rows` : 'CSV or Excel (.xlsx) with a header row'}
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          disabled={importing}
+          className="text-gray-400 hover:text-gray-600 transition-colors disabled:opacity-50"
+        >
+          <XMarkIcon className="h-5 w-5" />
+        </button>
+      </div>
+
+      {step === 'upload' && (
+        <label className="flex flex-col items-center justify-center border-2 border-dashed border-gray-300 rounded-lg p-8 cursor-pointer hover:border-blue-400 transition-colors">
+          <ArrowUpTrayIcon className="h-8 w-8 text-gray-400 mb-2" />
+          <span className="text-sm font-medium text-gray-700">Choose a spreadsheet</span>
+          <span className="text-xs text-gray-500 mt-1">
+            Columns for name, model, serial number, category, location, critical, purchase and warranty dates
+          </span>
+          <input type="file" accept=".csv,.xlsx,text/csv" onChange={handleFile} className="hidden" />
+        </label>
+      )}
+
+      {step === 'map' && (
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+            {importFields.map(field => (
+              <div key={field}>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {importFieldDefinitions[field].label}{importFieldDefinitions[field].required && ' *'}
+                </label>
+                <select
+                  value={mapping[field] ?? ''}
+                  onChange={(e) => setMapping(prev => ({ ...prev, [field]: e.target.value === '' ? null : Number(e.target.value) }))}
+                  className={selectClass}
+                >
+                  <option value="">Not in file</option>
+                  {sheet.headers.map((header, index) => (
+                    <option key={index} value={index}>{header || `Column ${index + 1}`}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Dates Written As
+              </label>
+              <select
+                value={dateFormat}
+                onChange={(e) => setDateFormat(e.target.value as ImportDateFormat)}
+                className={selectClass}
+              >
+                {importDateFormats.map(layout => (
+                  <option key={layout} value={layout}>{layout}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">
+            Categories must match an existing category name. Critical accepts yes/no, true/false or 1/0.
+          </p>
+          <div className="flex space-x-3">
+            <button
+              onClick={() => setStep('upload')}
+              className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-medium py-2 px-4 rounded-lg transition-colors"
+            >
+              Back
+            </button>
+            <button
+              onClick={handleCheckRows}
+              disabled={mapping.name === null}
+              className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white font-medium py-2 px-4 rounded-lg transition-all duration-200 disabled:opacity-50"
+            >
+              Check Rows
+            </button>
+          </div>
+        </div>
+      )}
+
+      {(step === 'preview' || step === 'done') && (
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            <span className="px-2 py-1 rounded-full bg-green-100 text-green-700 font-semibold">
+              {validDevices.length} ready
+            </span>
+            <span className={`px-2 py-1 rounded-full font-semibold ${problemCount > 0 ? 'bg-red-100 text-red-700' : 'bg-gray-100 text-gray-700'}`}>
+              {problemCount} with problems
+            </span>
+            <label className="flex items-center space-x-2 text-gray-700 ml-auto">
+              <input
+                type="checkbox"
+                checked={showProblemsOnly}
+                onChange={(e) => setShowProblemsOnly(e.target.checked)}
+                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+              />
+              <span>Only rows with problems</span>
+            </label>
+          </div>
+
+          <div className="overflow-x-auto max-h-96 overflow-y-auto border border-gray-200 rounded-lg">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50 sticky top-0">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Row</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Serial</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Category</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Location</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Result</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {listedRows.map(row => {
+                  const source = sheet.rows[row.rowNumber - 2];
+                  const value = (field: keyof ImportMapping) => mapping[field] === null ? '' : source[mapping[field] as number] ?? '';
+                  return (
+                    <tr key={row.rowNumber} className={row.errors.length > 0 ? 'bg-red-50' : ''}>
+                      <td className="px-3 py-2 text-gray-500">{row.rowNumber}</td>
+                      <td className="px-3 py-2 text-gray-900">{value('name')}</td>
+                      <td className="px-3 py-2 text-gray-900">{value('serialNumber')}</td>
+                      <td className="px-3 py-2 text-gray-900">{value('category')}</td>
+                      <td className="px-3 py-2 text-gray-900">{value('location')}</td>
+                      <td className="px-3 py-2">
+                        {row.errors.length === 0 ? (
+                          <span className="text-green-700">OK</span>
+                        ) : (
+                          <ul className="text-red-700 space-y-0.5">
+                            {row.errors.map(error => <li key={error}>{error}</li>)}
+                          </ul>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          {listedRows.length === PREVIEW_ROWS && (
+            <p className="text-xs text-gray-500">Showing the first {PREVIEW_ROWS} rows.</p>
+          )}
+
+          {(importing || step === 'done') && (
+            <div>
+              <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+                <div
+                  className="h-2 bg-blue-600 transition-all duration-200"
+                  style={{ width: `${validDevices.length ? ((progress.written + progress.failed) / validDevices.length) * 100 : 0}%` }}
+                />
+              </div>
+              <p className="text-sm text-gray-600 mt-1">
+                {progress.written} of {validDevices.length} imported
+                {progress.failed > 0 && `, ${progress.failed} failed`}
+              </p>
+            </div>
+          )}
+
+          <div className="flex space-x-3">
+            {step === 'preview' ? (
+              <>
+                <button
+                  onClick={() => setStep('map')}
+                  disabled={importing}
+                  className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-medium py-2 px-4 rounded-lg transition-colors disabled:opacity-50"
+                >
+                  Back
+                </button>
+                <button
+                  onClick={handleImport}
+                  disabled={importing || validDevices.length === 0}
+                  className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white font-medium py-2 px-4 rounded-lg transition-all duration-200 disabled:opacity-50"
+                >
+                  {importing
+                    ? 'Importing...'
+                    : `Import ${validDevices.length} Device${validDevices.length === 1 ? '' : 's'}${problemCount > 0 ? `, Skip ${problemCount}` : ''}`}
+                </button>
+              </>
+            ) : (
+              <button
+                onClick={onClose}
+                className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-medium py-2 px-4 rounded-lg transition-colors"
+              >
+                Close
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DeviceImport;
@@ -1,51 +1,54 @@
 import React, { useState, useEffect } from 'react';
-import { PlusIcon, PencilIcon, TrashIcon } from '@heroicons/react/24/outline';
-// import { supabase } from '../../lib/supabase'; // Commented out - using Firebase
-import { deviceService, deviceCategoryService, profileService } from '../../services/firebaseService';
+import { Link } from 'react-router-dom';
+import { PlusIcon, PencilIcon, TrashIcon, PhoneIcon, PaperClipIcon, XMarkIcon, ClockIcon, QrCodeIcon, ArrowUpTrayIcon } from '@heroicons/react/24/outline';
+import {
+  deviceService,
+  deviceCategoryService,
+  equipmentTypeService,
+  profileService,
+  serviceContractService,
+} from '../../services';
+import { ensureCertificationPlaceholder } from '../../services/equipmentRules';
+import { newItemHighlight, useLiveCollection } from '../../hooks/useLiveCollection';
+import { useAuth } from '../../contexts/AuthContext';
+import type { Device, DeviceCategory, DeviceStatus, EquipmentType, Profile, ServiceContract } from '../../types/models';
+import { computeNextMaintenanceDate } from '../../utils/equipmentTypes';
+import { findCoveringContracts } from '../../utils/serviceContracts';
+import AttachmentList from './AttachmentList';
+import AssetLabels from './AssetLabels';
+import DeviceImport from './DeviceImport';
+import { format, parseISO } from 'date-fns';
 import toast from 'react-hot-toast';
 
-interface Device {
-  id: string;
-  name: string;
-  model: string | null;
-  serialNumber: string | null;
-  status: 'active' | 'faulty' | 'maintenance' | 'retired';
-  categoryId: string | null;
-  categoryName?: string;
-  assignedTo: string | null;
-  assignedUserName?: string;
-  purchaseDate: string | null;
-  warrantyDate: string | null;
-  notes: string | null;
-}
-
-interface Category {
-  id: string;
-  name: string;
-}
-
-interface User {
-  id: string;
-  fullName: string;
-}
-
-interface DeviceManagementProps {
-  onDeviceChange?: () => void;
-}
-
-const DeviceManagement: React.FC<DeviceManagementProps> = ({ onDeviceChange }) => {
-  const [devices, setDevices] = useState<Device[]>([]);
-  const [categories, setCategories] = useState<Category[]>([]);
-  const [users, setUsers] = useState<User[]>([]);
+const DeviceManagement: React.FC = () => {
+  const { can } = useAuth();
+  const canManage = can('devices.manage');
+  const canSeeContracts = can('contracts.view');
+  // Service reports and calibration certificates come from whoever looks after the equipment
+  const canUploadFiles = canManage || can('maintenance.manage');
+  const { items: devices, loading: devicesLoading, isNew } = useLiveCollection(
+    deviceService.subscribeToDevices,
+    { errorMessage: 'Failed to load data' }
+  );
+  const [categories, setCategories] = useState<DeviceCategory[]>([]);
+  const [equipmentTypes, setEquipmentTypes] = useState<EquipmentType[]>([]);
+  const [users, setUsers] = useState<Profile[]>([]);
+  const [contracts, setContracts] = useState<ServiceContract[]>([]);
+  const [contractLookupDevice, setContractLookupDevice] = useState<Device | null>(null);
+  const [filesDevice, setFilesDevice] = useState<Device | null>(null);
+  const [labelDevices, setLabelDevices] = useState<Device[]>([]);
   const [loading, setLoading] = useState(true);
   const [showForm, setShowForm] = useState(false);
+  const [showImport, setShowImport] = useState(false);
   const [editingDevice, setEditingDevice] = useState<Device | null>(null);
   const [formData, setFormData] = useState({
     name: '',
     model: '',
     serialNumber: '',
-    status: 'active' as 'active' | 'faulty' | 'maintenance' | 'retired',
+    status: 'active' as DeviceStatus,
     categoryId: '',
+    equipmentTypeId: '',
+    lastMaintenanceDate: '',
     assignedTo: '',
     purchaseDate: '',
     warrantyDate: '',
@@ -53,32 +56,23 @@ const DeviceManagement: React.FC<DeviceManagementProps> = ({ onDeviceChange }) =
   });
 
   useEffect(() => {
-    fetchData();
-  }, []);
+    fetchData(canSeeContracts);
+  }, [canSeeContracts]);
 
-  const fetchData = async () => {
+  // Devices themselves arrive through the live subscription
+  const fetchData = async (includeContracts: boolean) => {
     try {
-      const [devicesData, categoriesData, usersData] = await Promise.all([
-        deviceService.getAllDevices(),
+      const [categoriesData, equipmentTypesData, usersData, contractsData] = await Promise.all([
         deviceCategoryService.getAllCategories(),
+        equipmentTypeService.getAllEquipmentTypes(),
         profileService.getAllProfiles(),
+        includeContracts ? serviceContractService.getAllContracts() : Promise.resolve([]),
       ]);
 
-      if (devicesData) {
-        setDevices(devicesData.map((device: any) => ({
-          ...device,
-          serialNumber: device.serialNumber,
-          categoryId: device.categoryId,
-          assignedTo: device.assignedTo,
-          purchaseDate: device.purchaseDate,
-          warrantyDate: device.warrantyDate,
-          categoryName: device.categoryName,
-          assignedUserName: device.assignedUserName,
-        })));
-      }
-
-      if (categoriesData) setCategories(categoriesData);
-      if (usersData) setUsers(usersData.map((user: any) => ({ id: user.id, fullName: user.fullName })));
+      setCategories(categoriesData);
+      setEquipmentTypes(equipmentTypesData);
+      setUsers(usersData);
+      setContracts(contractsData);
     } catch (error) {
       console.error('Error fetching data:', error);
       toast.error('Failed to load data');
@@ -92,29 +86,41 @@ const DeviceManagement: React.FC<DeviceManagementProps> = ({ onDeviceChange }) =
     setLoading(true);
 
     try {
+      const equipmentType = getEquipmentType(formData.equipmentTypeId);
       const deviceData = {
         name: formData.name,
         model: formData.model || null,
         serialNumber: formData.serialNumber || null,
         status: formData.status,
         categoryId: formData.categoryId || null,
+        equipmentTypeId: formData.equipmentTypeId || null,
+        lastMaintenanceDate: formData.lastMaintenanceDate || null,
+        nextMaintenanceDate: equipmentType
+          ? computeNextMaintenanceDate(
+              { lastMaintenanceDate: formData.lastMaintenanceDate || null, purchaseDate: formData.purchaseDate || null },
+              equipmentType
+            )
+          : editingDevice?.nextMaintenanceDate ?? null,
         assignedTo: formData.assignedTo || null,
         purchaseDate: formData.purchaseDate || null,
         warrantyDate: formData.warrantyDate || null,
         notes: formData.notes || null,
       };
 
-      if (editingDevice) {
-        await deviceService.updateDevice(editingDevice.id, deviceData);
+      let deviceId = editingDevice?.id;
+      if (deviceId) {
+        await deviceService.updateDevice(deviceId, deviceData);
         toast.success('Device updated successfully');
       } else {
-        await deviceService.createDevice(deviceData);
+        deviceId = await deviceService.createDevice(deviceData);
         toast.success('Device created successfully');
       }
 
+      if (equipmentType && await ensureCertificationPlaceholder({ id: deviceId, name: deviceData.name }, equipmentType)) {
+        toast(`${equipmentType.name} requires certification - a compliance record placeholder was created`, { icon: '📋' });
+      }
+
       resetForm();
-      fetchData();
-      onDeviceChange?.();
     } catch (error: any) {
       console.error('Error saving device:', error);
       toast.error(error.message || 'Failed to save device');
@@ -131,8 +137,6 @@ const DeviceManagement: React.FC<DeviceManagementProps> = ({ onDeviceChange }) =
       await deviceService.deleteDevice(deviceId);
 
       toast.success('Device deleted successfully');
-      fetchData();
-      onDeviceChange?.();
     } catch (error: any) {
       console.error('Error deleting device:', error);
       toast.error(error.message || 'Failed to delete device');
@@ -149,6 +153,8 @@ const DeviceManagement: React.FC<DeviceManagementProps> = ({ onDeviceChange }) =
       serialNumber: device.serialNumber || '',
       status: device.status,
       categoryId: device.categoryId || '',
+      equipmentTypeId: device.equipmentTypeId || '',
+      lastMaintenanceDate: device.lastMaintenanceDate?.slice(0, 10) || '',
       assignedTo: device.assignedTo || '',
       purchaseDate: device.purchaseDate || '',
       warrantyDate: device.warrantyDate || '',
@@ -166,6 +172,8 @@ const DeviceManagement: React.FC<DeviceManagementProps> = ({ onDeviceChange }) =
       serialNumber: '',
       status: 'active',
       categoryId: '',
+      equipmentTypeId: '',
+      lastMaintenanceDate: '',
       assignedTo: '',
       purchaseDate: '',
       warrantyDate: '',
@@ -188,7 +196,22 @@ const DeviceManagement: React.FC<DeviceManagementProps> = ({ onDeviceChange }) =
     }
   };
 
-  if (loading && devices.length === 0) {
+  const getCategoryName = (device: Device) =>
+    categories.find(category => category.id === device.categoryId)?.name || device.category;
+
+  const getEquipmentType = (equipmentTypeId: string | null) =>
+    equipmentTypes.find(type => type.id === equipmentTypeId);
+
+  const getAssignedUserName = (device: Device) =>
+    users.find(user => user.id === device.assignedTo)?.fullName;
+
+  const formEquipmentType = getEquipmentType(formData.equipmentTypeId);
+
+  const coveringContracts = contractLookupDevice
+    ? findCoveringContracts(contracts, contractLookupDevice)
+    : [];
+
+  if ((loading || devicesLoading) && devices.length === 0) {
     return (
       <div className="space-y-6">
         <div className="flex justify-between items-center">
@@ -210,15 +233,50 @@ const DeviceManagement: React.FC<DeviceManagementProps> = ({ onDeviceChange }) =
     <div className="space-y-6">
       <div className="flex justify-between items-center">
         <h2 className="text-2xl font-bold text-gray-900">Device Management</h2>
-        <button
-          onClick={() => setShowForm(true)}
-          className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white font-medium py-2 px-4 rounded-lg transition-all duration-200 flex items-center space-x-2"
-        >
-          <PlusIcon className="h-4 w-4" />
-          <span>Add Device</span>
-        </button>
+        <div className="flex space-x-3">
+          <button
+            onClick={() => setLabelDevices(devices)}
+            disabled={devices.length === 0}
+            className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-medium py-2 px-4 rounded-lg transition-colors flex items-center space-x-2 disabled:opacity-50"
+          >
+            <QrCodeIcon className="h-4 w-4" />
+            <span>Print Labels</span>
+          </button>
+          {canManage && (
+            <button
+              onClick={() => setShowImport(true)}
+              className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-medium py-2 px-4 rounded-lg transition-colors flex items-center space-x-2"
+            >
+              <ArrowUpTrayIcon className="h-4 w-4" />
+              <span>Import</span>
+            </button>
+          )}
+          {canManage && (
+            <button
+              onClick={() => setShowForm(true)}
+              className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white font-medium py-2 px-4 rounded-lg transition-all duration-200 flex items-center space-x-2"
+            >
+              <PlusIcon className="h-4 w-4" />
+              <span>Add Device</span>
+            </button>
+          )}
+        </div>
       </div>
 
+      <AssetLabels
+        isOpen={labelDevices.length > 0}
+        onClose={() => setLabelDevices([])}
+        devices={labelDevices}
+      />
+
+      {showImport && (
+        <DeviceImport
+          categories={categories}
+          devices={devices}
+          onClose={() => setShowImport(false)}
+        />
+      )}
+
       {/* Form */}
       {showForm && (
         <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
@@ -282,13 +340,57 @@ const DeviceManagement: React.FC<DeviceManagementProps> = ({ onDeviceChange }) =
                 </select>
               </div>
 
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Equipment Type
+                </label>
+                <select
+                  value={formData.equipmentTypeId}
+                  onChange={(e) => setFormData(prev => ({ ...prev, equipmentTypeId: e.target.value }))}
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">Select equipment type</option>
+                  {equipmentTypes.map(type => (
+                    <option key={type.id} value={type.id}>
+                      {type.name}
+                    </option>
+                  ))}
+                </select>
+                {formEquipmentType && (
+                  <p className="mt-1 text-xs text-gray-500">
+                    Serviced every {formEquipmentType.maintenanceIntervalDays} days
+                    {formEquipmentType.requiresCertification && ' · certification required'}
+                  </p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Last Maintenance
+                </label>
+                <input
+                  type="date"
+                  value={formData.lastMaintenanceDate}
+                  onChange={(e) => setFormData(prev => ({ ...prev, lastMaintenanceDate: e.target.value }))}
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                {formEquipmentType && (
+                  <p className="mt-1 text-xs text-gray-500">
+                    Next maintenance: {format(parseISO(computeNextMaintenanceDate(
+                      { lastMaintenanceDate: formData.lastMaintenanceDate || null, purchaseDate: formData.purchaseDate || null },
+                      formEquipmentType
+                    )), 'MMM dd, yyyy')}
+                  </p>
+                )}
+              </div>
+
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
                   Status
                 </label>
                 <select
                   value={formData.status}
-                  onChange={(e) => setFormData(prev => ({ ...prev, status: e.target.value as any }))}
+                  onChange={(e) => setFormData(prev => ({ ...prev, status: e.target.value as DeviceStatus }))}
                   className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                 >
                   <option value="active">Active</option>
@@ -373,6 +475,94 @@ const DeviceManagement: React.FC<DeviceManagementProps> = ({ onDeviceChange }) =
         </div>
       )}
 
+      {/* Service Contract Lookup */}
+      {contractLookupDevice && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+          <div className="flex justify-between items-start mb-4">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-800">Service Coverage</h3>
+              <p className="text-sm text-gray-500">
+                {contractLookupDevice.name}
+                {contractLookupDevice.serialNumber && ` (SN: ${contractLookupDevice.serialNumber})`}
+              </p>
+            </div>
+            <button
+              onClick={() => setContractLookupDevice(null)}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              <XMarkIcon className="h-5 w-5" />
+            </button>
+          </div>
+
+          {coveringContracts.length === 0 ? (
+            <p className="text-sm text-gray-600">
+              No service contract currently covers this device. Raise a repair request with the IT team instead.
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {coveringContracts.map(contract => (
+                <div key={contract.id} className="border border-gray-200 rounded-lg p-4">
+                  <div className="flex justify-between">
+                    <div>
+                      <p className="font-medium text-gray-900">{contract.vendorName}</p>
+                      <p className="text-xs text-gray-400">
+                        #{contract.contractNumber} · valid until {format(new Date(contract.endDate), 'MMM dd, yyyy')}
+                      </p>
+                    </div>
+                    <div className="text-right text-sm">
+                      {contract.contactPerson && <p className="text-gray-900">{contract.contactPerson}</p>}
+                      {contract.contactPhone && (
+                        <a href={`tel:${contract.contactPhone}`} className="text-blue-600 hover:text-blue-800 block">
+                          {contract.contactPhone}
+                        </a>
+                      )}
+                      {contract.contactEmail && (
+                        <a href={`mailto:${contract.contactEmail}`} className="text-blue-600 hover:text-blue-800 block">
+                          {contract.contactEmail}
+                        </a>
+                      )}
+                    </div>
+                  </div>
+                  {contract.serviceLevelAgreement && (
+                    <p className="mt-2 text-sm text-gray-600">{contract.serviceLevelAgreement}</p>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Device Files */}
+      {filesDevice && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+          <div className="flex justify-between items-start mb-4">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-800">Device Files</h3>
+              <p className="text-sm text-gray-500">
+                {filesDevice.name}
+                {filesDevice.serialNumber && ` (SN: ${filesDevice.serialNumber})`}
+                {' · includes photos and documents from its requests and incidents'}
+              </p>
+            </div>
+            <button
+              onClick={() => setFilesDevice(null)}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              <XMarkIcon className="h-5 w-5" />
+            </button>
+          </div>
+
+          <AttachmentList
+            key={filesDevice.id}
+            ownerType="device"
+            ownerId={filesDevice.id}
+            includeDeviceHistory
+            canUpload={canUploadFiles}
+          />
+        </div>
+      )}
+
       {/* Devices Table */}
       <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
         <div className="overflow-x-auto">
@@ -385,6 +575,9 @@ const DeviceManagement: React.FC<DeviceManagementProps> = ({ onDeviceChange }) =
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Category
                 </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Next Maintenance
+                </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Status
                 </th>
@@ -398,12 +591,15 @@ const DeviceManagement: React.FC<DeviceManagementProps> = ({ onDeviceChange }) =
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
               {devices.map((device) => (
-                <tr key={device.id} className="hover:bg-gray-50">
+                <tr key={device.id} className={`hover:bg-gray-50 ${isNew(device.id) ? newItemHighlight : ''}`}>
                   <td className="px-6 py-4 whitespace-nowrap">
                     <div>
-                      <div className="text-sm font-medium text-gray-900">
+                      <Link
+                        to={`/devices/${device.id}`}
+                        className="text-sm font-medium text-gray-900 hover:text-blue-600"
+                      >
                         {device.name}
-                      </div>
+                      </Link>
                       {device.model && (
                         <div className="text-sm text-gray-500">{device.model}</div>
                       )}
@@ -413,7 +609,13 @@ const DeviceManagement: React.FC<DeviceManagementProps> = ({ onDeviceChange }) =
                     </div>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                    {device.categoryName || 'N/A'}
+                    <div>{getCategoryName(device) || 'N/A'}</div>
+                    {getEquipmentType(device.equipmentTypeId) && (
+                      <div className="text-xs text-gray-500">{getEquipmentType(device.equipmentTypeId)?.name}</div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {device.nextMaintenanceDate ? format(new Date(device.nextMaintenanceDate), 'MMM dd, yyyy') : 'N/A'}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
                     <span className={`px-2 py-1 text-xs font-semibold rounded-full ${getStatusColor(device.status)}`}>
@@ -421,21 +623,57 @@ const DeviceManagement: React.FC<DeviceManagementProps> = ({ onDeviceChange }) =
                     </span>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                    {device.assignedUserName || 'Unassigned'}
+                    {getAssignedUserName(device) || 'Unassigned'}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm font-medium space-x-2">
+                    {canSeeContracts && (
+                      <button
+                        onClick={() => setContractLookupDevice(device)}
+                        title="Find the service contract covering this device"
+                        className={`transition-colors ${
+                          device.status === 'faulty' ? 'text-red-600 hover:text-red-900' : 'text-gray-500 hover:text-gray-700'
+                        }`}
+                      >
+                        <PhoneIcon className="h-4 w-4" />
+                      </button>
+                    )}
                     <button
-                      onClick={() => startEdit(device)}
-                      className="text-blue-600 hover:text-blue-900 transition-colors"
+                      onClick={() => setLabelDevices([device])}
+                      title="Print a QR label for this device"
+                      className="text-gray-500 hover:text-gray-700 transition-colors"
                     >
-                      <PencilIcon className="h-4 w-4" />
+                      <QrCodeIcon className="h-4 w-4" />
                     </button>
+                    <Link
+                      to={`/devices/${device.id}`}
+                      title="Lifecycle history: status changes, requests, incidents and maintenance"
+                      className="inline-block text-gray-500 hover:text-gray-700 transition-colors"
+                    >
+                      <ClockIcon className="h-4 w-4" />
+                    </Link>
                     <button
-                      onClick={() => handleDelete(device.id)}
-                      className="text-red-600 hover:text-red-900 transition-colors"
+                      onClick={() => setFilesDevice(device)}
+                      title="Photos, service reports and other files for this device"
+                      className="text-gray-500 hover:text-gray-700 transition-colors"
                     >
-                      <TrashIcon className="h-4 w-4" />
+                      <PaperClipIcon className="h-4 w-4" />
                     </button>
+                    {canManage && (
+                      <>
+                        <button
+                          onClick={() => startEdit(device)}
+                          className="text-blue-600 hover:text-blue-900 transition-colors"
+                        >
+                          <PencilIcon className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(device.id)}
+                          className="text-red-600 hover:text-red-900 transition-colors"
+                        >
+                          <TrashIcon className="h-4 w-4" />
+                        </button>
+                      </>
+                    )}
                   </td>
                 </tr>
               ))}
@@ -0,0 +1,336 @@
+import React, { useState, useEffect } from 'react';
+import { PlusIcon, PencilIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { deviceService, equipmentTypeService } from '../../services';
+import ChecklistEditor from './ChecklistEditor';
+import type { ChecklistItem, Device, EquipmentType } from '../../types/models';
+import toast from 'react-hot-toast';
+
+const emptyForm = {
+  name: '',
+  description: '',
+  maintenanceIntervalDays: '90',
+  isMedicalDevice: false,
+  requiresCertification: false,
+  checklist: [] as ChecklistItem[],
+};
+
+const EquipmentTypeManagement: React.FC = () => {
+  const [equipmentTypes, setEquipmentTypes] = useState<EquipmentType[]>([]);
+  const [devices, setDevices] = useState<Device[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [editingType, setEditingType] = useState<EquipmentType | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    try {
+      const [equipmentTypesData, devicesData] = await Promise.all([
+        equipmentTypeService.getAllEquipmentTypes(),
+        deviceService.getAllDevices(),
+      ]);
+
+      setEquipmentTypes(equipmentTypesData);
+      setDevices(devicesData);
+    } catch (error) {
+      console.error('Error fetching data:', error);
+      toast.error('Failed to load equipment types');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+
+    try {
+      const equipmentTypeData = {
+        name: formData.name,
+        description: formData.description || null,
+        maintenanceIntervalDays: parseInt(formData.maintenanceIntervalDays, 10),
+        isMedicalDevice: formData.isMedicalDevice,
+        requiresCertification: formData.requiresCertification,
+        checklist: formData.checklist
+          .filter(item => item.label.trim() !== '')
+          // Bounds only mean something on readings
+          .map(item => (item.kind === 'reading' ? item : { ...item, unit: null, min: null, max: null })),
+      };
+
+      if (editingType) {
+        await equipmentTypeService.updateEquipmentType(editingType.id, equipmentTypeData);
+        toast.success('Equipment type updated successfully');
+      } else {
+        await equipmentTypeService.createEquipmentType(equipmentTypeData);
+        toast.success('Equipment type created successfully');
+      }
+
+      resetForm();
+      fetchData();
+    } catch (error) {
+      console.error('Error saving equipment type:', error);
+      toast.error((error as Error).message || 'Failed to save equipment type');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async (equipmentType: EquipmentType) => {
+    const inUse = getDeviceCount(equipmentType.id);
+    if (inUse > 0) {
+      toast.error(`${inUse} devices still use ${equipmentType.name}. Move them to another type first.`);
+      return;
+    }
+    if (!confirm('Are you sure you want to delete this equipment type?')) return;
+
+    setLoading(true);
+    try {
+      await equipmentTypeService.deleteEquipmentType(equipmentType.id);
+      toast.success('Equipment type deleted successfully');
+      fetchData();
+    } catch (error) {
+      console.error('Error deleting equipment type:', error);
+      toast.error((error as Error).message || 'Failed to delete equipment type');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const startEdit = (equipmentType: EquipmentType) => {
+    setEditingType(equipmentType);
+    setFormData({
+      name: equipmentType.name,
+      description: equipmentType.description || '',
+      maintenanceIntervalDays: equipmentType.maintenanceIntervalDays.toString(),
+      isMedicalDevice: equipmentType.isMedicalDevice,
+      requiresCertification: equipmentType.requiresCertification,
+      checklist: equipmentType.checklist,
+    });
+    setShowForm(true);
+  };
+
+  const resetForm = () => {
+    setShowForm(false);
+    setEditingType(null);
+    setFormData(emptyForm);
+  };
+
+  const getDeviceCount = (equipmentTypeId: string) =>
+    devices.filter(device => device.equipmentTypeId === equipmentTypeId).length;
+
+  if (loading && equipmentTypes.length === 0) {
+    return (
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <h2 className="text-2xl font-bold text-gray-900">Equipment Types</h2>
+          <div className="w-32 h-10 bg-gray-200 rounded animate-pulse"></div>
+        </div>
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+          <div className="animate-pulse space-y-4">
+            {[...Array(5)].map((_, i) => (
+              <div key={i} className="h-16 bg-gray-200 rounded"></div>
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-2xl font-bold text-gray-900">Equipment Types</h2>
+        <button
+          onClick={() => setShowForm(true)}
+          className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white font-medium py-2 px-4 rounded-lg transition-all duration-200 flex items-center space-x-2"
+        >
+          <PlusIcon className="h-4 w-4" />
+          <span>Add Equipment Type</span>
+        </button>
+      </div>
+
+      {/* Form */}
+      {showForm && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+          <h3 className="text-lg font-semibold text-gray-800 mb-4">
+            {editingType ? 'Edit Equipment Type' : 'Add New Equipment Type'}
+          </h3>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Name *
+                </label>
+                <input
+                  type="text"
+                  value={formData.name}
+                  onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                  required
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Maintenance Interval (days) *
+                </label>
+                <input
+                  type="number"
+                  min="1"
+                  value={formData.maintenanceIntervalDays}
+                  onChange={(e) => setFormData(prev => ({ ...prev, maintenanceIntervalDays: e.target.value }))}
+                  required
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Description
+                </label>
+                <textarea
+                  value={formData.description}
+                  onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                  rows={2}
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+
+              <div className="flex items-center">
+                <input
+                  type="checkbox"
+                  id="isMedicalDevice"
+                  checked={formData.isMedicalDevice}
+                  onChange={(e) => setFormData(prev => ({ ...prev, isMedicalDevice: e.target.checked }))}
+                  className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                />
+                <label htmlFor="isMedicalDevice" className="ml-2 block text-sm text-gray-700">
+                  Medical device
+                </label>
+              </div>
+
+              <div className="flex items-center">
+                <input
+                  type="checkbox"
+                  id="requiresCertification"
+                  checked={formData.requiresCertification}
+                  onChange={(e) => setFormData(prev => ({ ...prev, requiresCertification: e.target.checked }))}
+                  className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                />
+                <label htmlFor="requiresCertification" className="ml-2 block text-sm text-gray-700">
+                  Requires certification (new devices get a compliance record placeholder)
+                </label>
+              </div>
+            </div>
+
+            <ChecklistEditor
+              items={formData.checklist}
+              onChange={(checklist) => setFormData(prev => ({ ...prev, checklist }))}
+            />
+
+            <div className="flex space-x-3 pt-4">
+              <button
+                type="button"
+                onClick={resetForm}
+                className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-medium py-2 px-4 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={loading}
+                className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white font-medium py-2 px-4 rounded-lg transition-all duration-200 disabled:opacity-50"
+              >
+                {loading ? 'Saving...' : editingType ? 'Update Type' : 'Create Type'}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      {/* Equipment Types Table */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Equipment Type
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Maintenance Interval
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Classification
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Devices
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {equipmentTypes.map((equipmentType) => (
+                <tr key={equipmentType.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4">
+                    <div className="text-sm font-medium text-gray-900">{equipmentType.name}</div>
+                    {equipmentType.description && (
+                      <div className="text-sm text-gray-500">{equipmentType.description}</div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    Every {equipmentType.maintenanceIntervalDays} days
+                    {equipmentType.checklist.length > 0 && (
+                      <div className="text-xs text-gray-500">{equipmentType.checklist.length} checklist steps</div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap space-x-1">
+                    {equipmentType.isMedicalDevice && (
+                      <span className="px-2 py-1 text-xs font-semibold rounded-full bg-purple-100 text-purple-700">
+                        Medical
+                      </span>
+                    )}
+                    {equipmentType.requiresCertification && (
+                      <span className="px-2 py-1 text-xs font-semibold rounded-full bg-orange-100 text-orange-700">
+                        Certification
+                      </span>
+                    )}
+                    {!equipmentType.isMedicalDevice && !equipmentType.requiresCertification && (
+                      <span className="px-2 py-1 text-xs font-semibold rounded-full bg-gray-100 text-gray-700">
+                        General
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {getDeviceCount(equipmentType.id)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium space-x-2">
+                    <button
+                      onClick={() => startEdit(equipmentType)}
+                      className="text-blue-600 hover:text-blue-900 transition-colors"
+                    >
+                      <PencilIcon className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(equipmentType)}
+                      className="text-red-600 hover:text-red-900 transition-colors"
+                    >
+                      <TrashIcon className="h-4 w-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EquipmentTypeManagement;
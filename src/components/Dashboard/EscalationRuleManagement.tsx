@@ -0,0 +1,476 @@
+import React, { useState, useEffect } from 'react';
+import { PlusIcon, PencilIcon, TrashIcon, PlayIcon } from '@heroicons/react/24/outline';
+import { escalationService, profileService } from '../../services';
+import { runEscalations } from '../../services/escalationJob';
+import { escalationTargets } from '../../types/models';
+import type { EscalationEvent, EscalationRule, EscalationTarget, Profile } from '../../types/models';
+import { escalationLevels, escalationTargetLabels, unattendedStatuses } from '../../utils/escalation';
+import { hasCapability } from '../../utils/permissions';
+import { formatSlaDuration } from '../../utils/sla';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+
+const emptyForm = {
+  name: '',
+  appliesTo: 'request' as EscalationTarget,
+  thresholdMinutes: '240',
+  raisePriorityTo: 'high',
+  reassignToOnCall: false,
+  reassignToId: '',
+  isActive: true,
+};
+
+const EscalationRuleManagement: React.FC = () => {
+  const [rules, setRules] = useState<EscalationRule[]>([]);
+  const [events, setEvents] = useState<EscalationEvent[]>([]);
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [running, setRunning] = useState(false);
+  const [showForm, setShowForm] = useState(false);
+  const [editingRule, setEditingRule] = useState<EscalationRule | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    try {
+      const [rulesData, eventsData, profilesData] = await Promise.all([
+        escalationService.getAllRules(),
+        escalationService.getAllEvents(),
+        profileService.getAllProfiles(),
+      ]);
+
+      setRules(rulesData);
+      setEvents(eventsData);
+      setProfiles(profilesData);
+    } catch (error) {
+      console.error('Error fetching data:', error);
+      toast.error('Failed to load escalation rules');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Anyone who can work requests can be handed an escalated record
+  const onCallCandidates = profiles.filter(profile => hasCapability(profile.role, 'requests.work'));
+
+  const profileName = (profileId: string | null) =>
+    profileId ? profiles.find(profile => profile.id === profileId)?.fullName || 'Unknown user' : 'Unassigned';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+
+    try {
+      const ruleData = {
+        name: formData.name,
+        appliesTo: formData.appliesTo,
+        thresholdMinutes: parseInt(formData.thresholdMinutes, 10),
+        raisePriorityTo: formData.raisePriorityTo || null,
+        reassignToOnCall: formData.reassignToOnCall,
+        reassignToId: formData.reassignToId || null,
+        isActive: formData.isActive,
+      };
+
+      if (editingRule) {
+        await escalationService.updateRule(editingRule.id, ruleData);
+        toast.success('Escalation rule updated successfully');
+      } else {
+        await escalationService.createRule(ruleData);
+        toast.success('Escalation rule created successfully');
+      }
+
+      resetForm();
+      fetchData();
+    } catch (error) {
+      console.error('Error saving escalation rule:', error);
+      toast.error((error as Error).message || 'Failed to save escalation rule');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async (ruleId: string) => {
+    if (!confirm('Delete this escalation rule? Its past escalations stay in the history.')) return;
+
+    setLoading(true);
+    try {
+      await escalationService.deleteRule(ruleId);
+      toast.success('Escalation rule deleted successfully');
+      fetchData();
+    } catch (error) {
+      console.error('Error deleting escalation rule:', error);
+      toast.error((error as Error).message || 'Failed to delete escalation rule');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRunNow = async () => {
+    setRunning(true);
+    try {
+      const applied = await runEscalations();
+      toast.success(applied.length > 0 ? `Escalated ${applied.length} item${applied.length === 1 ? '' : 's'}` : 'Nothing needs escalating');
+      fetchData();
+    } catch (error) {
+      console.error('Error running escalations:', error);
+      toast.error((error as Error).message || 'Failed to run escalation rules');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const startEdit = (rule: EscalationRule) => {
+    setEditingRule(rule);
+    setFormData({
+      name: rule.name,
+      appliesTo: rule.appliesTo,
+      thresholdMinutes: rule.thresholdMinutes.toString(),
+      raisePriorityTo: rule.raisePriorityTo || '',
+      reassignToOnCall: rule.reassignToOnCall,
+      reassignToId: rule.reassignToId || '',
+      isActive: rule.isActive,
+    });
+    setShowForm(true);
+  };
+
+  const resetForm = () => {
+    setShowForm(false);
+    setEditingRule(null);
+    setFormData(emptyForm);
+  };
+
+  const describeActions = (rule: EscalationRule) => {
+    const actions = [
+      rule.raisePriorityTo && `Raise to ${rule.raisePriorityTo}`,
+      rule.reassignToOnCall && `Assign to whoever is on call${rule.reassignToId ? ` (else ${profileName(rule.reassignToId)})` : ''}`,
+      !rule.reassignToOnCall && rule.reassignToId && `Assign to ${profileName(rule.reassignToId)}`,
+    ].filter(Boolean);
+    return actions.length > 0 ? actions.join(', ') : 'Record only';
+  };
+
+  if (loading && rules.length === 0 && events.length === 0) {
+    return (
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <h2 className="text-2xl font-bold text-gray-900">Escalation Rules</h2>
+          <div className="w-32 h-10 bg-gray-200 rounded animate-pulse"></div>
+        </div>
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+          <div className="animate-pulse space-y-4">
+            {[...Array(5)].map((_, i) => (
+              <div key={i} className="h-16 bg-gray-200 rounded"></div>
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Escalation Rules</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            Checked every few minutes while an administrator has the dashboard open. Each rule escalates a record once.
+          </p>
+        </div>
+        <div className="flex space-x-3">
+          <button
+            onClick={handleRunNow}
+            disabled={running}
+            className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-medium py-2 px-4 rounded-lg transition-colors flex items-center space-x-2 disabled:opacity-50"
+          >
+            <PlayIcon className="h-4 w-4" />
+            <span>{running ? 'Running...' : 'Run Now'}</span>
+          </button>
+          <button
+            onClick={() => setShowForm(true)}
+            className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white font-medium py-2 px-4 rounded-lg transition-all duration-200 flex items-center space-x-2"
+          >
+            <PlusIcon className="h-4 w-4" />
+            <span>Add Rule</span>
+          </button>
+        </div>
+      </div>
+
+      {/* Form */}
+      {showForm && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+          <h3 className="text-lg font-semibold text-gray-800 mb-4">
+            {editingRule ? 'Edit Escalation Rule' : 'Add New Escalation Rule'}
+          </h3>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Name *
+                </label>
+                <input
+                  type="text"
+                  value={formData.name}
+                  onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                  required
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Applies To *
+                </label>
+                <select
+                  value={formData.appliesTo}
+                  onChange={(e) => {
+                    const appliesTo = e.target.value as EscalationTarget;
+                    // Priority and severity use different scales
+                    setFormData(prev => ({ ...prev, appliesTo, raisePriorityTo: 'high' }));
+                  }}
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {escalationTargets.map(target => (
+                    <option key={target} value={target}>
+                      {escalationTargetLabels[target]} still {unattendedStatuses[target]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  After (minutes) *
+                </label>
+                <input
+                  type="number"
+                  min="1"
+                  value={formData.thresholdMinutes}
+                  onChange={(e) => setFormData(prev => ({ ...prev, thresholdMinutes: e.target.value }))}
+                  required
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <p className="mt-1 text-xs text-gray-500">
+                  {formData.thresholdMinutes && formatSlaDuration(parseInt(formData.thresholdMinutes, 10) || 0)}
+                </p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Raise {formData.appliesTo === 'request' ? 'Priority' : 'Severity'} To
+                </label>
+                <select
+                  value={formData.raisePriorityTo}
+                  onChange={(e) => setFormData(prev => ({ ...prev, raisePriorityTo: e.target.value }))}
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">Leave unchanged</option>
+                  {escalationLevels[formData.appliesTo].map(level => (
+                    <option key={level} value={level}>{level}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {formData.reassignToOnCall ? 'If Nobody Is On Call, Reassign To' : 'Reassign To'}
+                </label>
+                <select
+                  value={formData.reassignToId}
+                  onChange={(e) => setFormData(prev => ({ ...prev, reassignToId: e.target.value }))}
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">Keep current assignee</option>
+                  {onCallCandidates.map(profile => (
+                    <option key={profile.id} value={profile.id}>{profile.fullName}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="flex items-center">
+                <input
+                  type="checkbox"
+                  id="reassignToOnCall"
+                  checked={formData.reassignToOnCall}
+                  onChange={(e) => setFormData(prev => ({ ...prev, reassignToOnCall: e.target.checked }))}
+                  className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                />
+                <label htmlFor="reassignToOnCall" className="ml-2 block text-sm text-gray-700">
+                  Hand to whoever is on call
+                </label>
+              </div>
+
+              <div className="flex items-center">
+                <input
+                  type="checkbox"
+                  id="isActive"
+                  checked={formData.isActive}
+                  onChange={(e) => setFormData(prev => ({ ...prev, isActive: e.target.checked }))}
+                  className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                />
+                <label htmlFor="isActive" className="ml-2 block text-sm text-gray-700">
+                  Active
+                </label>
+              </div>
+            </div>
+
+            <div className="flex space-x-3 pt-4">
+              <button
+                type="button"
+                onClick={resetForm}
+                className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-medium py-2 px-4 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={loading}
+                className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white font-medium py-2 px-4 rounded-lg transition-all duration-200 disabled:opacity-50"
+              >
+                {loading ? 'Saving...' : editingRule ? 'Update Rule' : 'Create Rule'}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      {/* Rules Table */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Rule
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Applies To
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  After
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions Taken
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Status
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {rules.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-8 text-center text-gray-500">
+                    No escalation rules yet.
+                  </td>
+                </tr>
+              ) : (
+                rules.map((rule) => (
+                  <tr key={rule.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 text-sm font-medium text-gray-900">{rule.name}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                      {escalationTargetLabels[rule.appliesTo]} still {unattendedStatuses[rule.appliesTo]}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {formatSlaDuration(rule.thresholdMinutes)}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-600">{describeActions(rule)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`px-2 py-1 text-xs font-semibold rounded-full ${
+                        rule.isActive ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-700'
+                      }`}>
+                        {rule.isActive ? 'Active' : 'Inactive'}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium space-x-2">
+                      <button
+                        onClick={() => startEdit(rule)}
+                        className="text-blue-600 hover:text-blue-900 transition-colors"
+                      >
+                        <PencilIcon className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(rule.id)}
+                        className="text-red-600 hover:text-red-900 transition-colors"
+                      >
+                        <TrashIcon className="h-4 w-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Escalation History */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-800">Escalation History</h3>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  When
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Escalated
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Rule
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Priority
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Assignee
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {events.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="px-6 py-8 text-center text-gray-500">
+                    Nothing has been escalated yet.
+                  </td>
+                </tr>
+              ) : (
+                events.map((event) => (
+                  <tr key={event.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                      {format(new Date(event.escalatedAt), 'MMM dd, HH:mm')}
+                    </td>
+                    <td className="px-6 py-4 text-sm">
+                      <div className="font-medium text-gray-900">{event.targetTitle}</div>
+                      <div className="text-xs text-gray-500 capitalize">{event.targetType}</div>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-600">{event.ruleName}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {event.previousPriority === event.newPriority
+                        ? event.newPriority
+                        : `${event.previousPriority} → ${event.newPriority}`}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {event.previousAssigneeId === event.newAssigneeId
+                        ? profileName(event.newAssigneeId)
+                        : `${profileName(event.previousAssigneeId)} → ${profileName(event.newAssigneeId)}`}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EscalationRuleManagement;
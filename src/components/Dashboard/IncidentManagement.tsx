@@ -1,32 +1,24 @@
 import React, { useState, useEffect } from 'react';
 import { ExclamationTriangleIcon, EyeIcon, CheckCircleIcon } from '@heroicons/react/24/outline';
-import { supabase } from '../../lib/supabase';
+import { incidentService, deviceService, profileService } from '../../services';
+import { newItemHighlight, useLiveCollection } from '../../hooks/useLiveCollection';
+import type { Device, Incident, IncidentStatus, Profile } from '../../types/models';
 import { format } from 'date-fns';
 import toast from 'react-hot-toast';
-
-interface IncidentReport {
-  id: string;
-  device_id: string | null;
-  reported_by: string;
-  incident_type: string;
-  severity: string;
-  description: string;
-  impact_assessment: string | null;
-  immediate_action_taken: string | null;
-  root_cause: string | null;
-  corrective_action: string | null;
-  status: string;
-  occurred_at: string;
-  resolved_at: string | null;
-  created_at: string;
-  devices: { name: string; model: string | null } | null;
-  profiles: { full_name: string; email: string };
-}
+import { useAuth } from '../../contexts/AuthContext';
+import AttachmentList from './AttachmentList';
 
 const IncidentManagement: React.FC = () => {
-  const [incidents, setIncidents] = useState<IncidentReport[]>([]);
+  const { can } = useAuth();
+  const canManage = can('incidents.manage');
+  const { items: incidents, loading: incidentsLoading, isNew } = useLiveCollection(
+    incidentService.subscribeToIncidents,
+    { errorMessage: 'Failed to load incident reports' }
+  );
+  const [devices, setDevices] = useState<Device[]>([]);
+  const [profiles, setProfiles] = useState<Profile[]>([]);
   const [loading, setLoading] = useState(true);
-  const [selectedIncident, setSelectedIncident] = useState<IncidentReport | null>(null);
+  const [selectedIncident, setSelectedIncident] = useState<Incident | null>(null);
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [severityFilter, setSeverityFilter] = useState<string>('all');
   const [resolutionData, setResolutionData] = useState({
@@ -35,22 +27,19 @@ const IncidentManagement: React.FC = () => {
   });
 
   useEffect(() => {
-    fetchIncidents();
+    fetchLookups();
   }, []);
 
-  const fetchIncidents = async () => {
+  // Incidents themselves arrive through the live subscription
+  const fetchLookups = async () => {
     try {
-      const { data, error } = await supabase
-        .from('incident_reports')
-        .select(`
-          *,
-          devices(name, model),
-          profiles(full_name, email)
-        `)
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-      if (data) setIncidents(data);
+      const [devicesData, profilesData] = await Promise.all([
+        deviceService.getAllDevices(),
+        profileService.getAllProfiles(),
+      ]);
+
+      setDevices(devicesData);
+      setProfiles(profilesData);
     } catch (error) {
       console.error('Error fetching incidents:', error);
       toast.error('Failed to load incident reports');
@@ -59,28 +48,22 @@ const IncidentManagement: React.FC = () => {
     }
   };
 
-  const updateIncidentStatus = async (incidentId: string, newStatus: string) => {
+  const updateIncidentStatus = async (incidentId: string, newStatus: IncidentStatus) => {
     setLoading(true);
     try {
-      const updateData: any = {
+      const updateData: Partial<Incident> = {
         status: newStatus,
       };
 
       if (newStatus === 'resolved') {
-        updateData.resolved_at = new Date().toISOString();
-        updateData.root_cause = resolutionData.rootCause;
-        updateData.corrective_action = resolutionData.correctiveAction;
+        updateData.resolvedAt = new Date().toISOString();
+        updateData.rootCause = resolutionData.rootCause;
+        updateData.correctiveAction = resolutionData.correctiveAction;
       }
 
-      const { error } = await supabase
-        .from('incident_reports')
-        .update(updateData)
-        .eq('id', incidentId);
-
-      if (error) throw error;
+      await incidentService.updateIncident(incidentId, updateData);
 
       toast.success('Incident status updated successfully');
-      fetchIncidents();
       setSelectedIncident(null);
       setResolutionData({ rootCause: '', correctiveAction: '' });
     } catch (error: any) {
@@ -136,13 +119,17 @@ const IncidentManagement: React.FC = () => {
     }
   };
 
+  const getDevice = (deviceId: string | null) => devices.find(device => device.id === deviceId);
+
+  const getReporter = (profileId: string) => profiles.find(profile => profile.id === profileId);
+
   const filteredIncidents = incidents.filter(incident => {
     const statusMatch = statusFilter === 'all' || incident.status === statusFilter;
     const severityMatch = severityFilter === 'all' || incident.severity === severityFilter;
     return statusMatch && severityMatch;
   });
 
-  if (loading && incidents.length === 0) {
+  if ((loading || incidentsLoading) && incidents.length === 0) {
     return (
       <div className="space-y-6">
         <h2 className="text-2xl font-bold text-gray-900">Incident Management</h2>
@@ -158,7 +145,6 @@ const IncidentManagement: React.FC = () => {
   }
 
   const criticalIncidents = incidents.filter(i => i.severity === 'critical' && i.status !== 'resolved').length;
-  const openIncidents = incidents.filter(i => i.status === 'open').length;
 
   return (
     <div className="space-y-6">
@@ -222,13 +208,16 @@ const IncidentManagement: React.FC = () => {
             </div>
           ) : (
             filteredIncidents.map((incident) => (
-              <div key={incident.id} className="p-6 hover:bg-gray-50 transition-colors duration-200">
+              <div
+                key={incident.id}
+                className={`p-6 hover:bg-gray-50 transition-colors duration-200 ${isNew(incident.id) ? newItemHighlight : ''}`}
+              >
                 <div className="flex items-start justify-between">
                   <div className="flex-1">
                     <div className="flex items-center space-x-3 mb-2">
                       {getSeverityIcon(incident.severity)}
                       <h3 className="font-medium text-gray-900">
-                        {incident.incident_type.replace('_', ' ')} Incident
+                        {incident.incidentType.replace('_', ' ')} Incident
                       </h3>
                       <span className={`px-2 py-1 text-xs rounded-full ${getSeverityColor(incident.severity)}`}>
                         {incident.severity}
@@ -236,39 +225,45 @@ const IncidentManagement: React.FC = () => {
                       <span className={`px-2 py-1 text-xs rounded-full ${getStatusColor(incident.status)}`}>
                         {incident.status}
                       </span>
+                      {isNew(incident.id) && (
+                        <span className="px-2 py-1 text-xs font-semibold rounded-full bg-blue-600 text-white">New</span>
+                      )}
                     </div>
                     
                     <p className="text-gray-600 mb-3">{incident.description.substring(0, 200)}...</p>
                     
                     <div className="flex items-center space-x-4 text-sm text-gray-500">
-                      <span>Reported by: {incident.profiles.full_name}</span>
-                      {incident.devices && (
-                        <span>Device: {incident.devices.name}</span>
+                      <span>Reported by: {getReporter(incident.reportedBy)?.fullName || 'Unknown'}</span>
+                      {incident.assignedTo && (
+                        <span>Assigned to: {getReporter(incident.assignedTo)?.fullName || 'Unknown'}</span>
+                      )}
+                      {getDevice(incident.deviceId) && (
+                        <span>Device: {getDevice(incident.deviceId)?.name}</span>
                       )}
-                      <span>Occurred: {format(new Date(incident.occurred_at), 'MMM dd, yyyy HH:mm')}</span>
+                      <span>Occurred: {format(new Date(incident.occurredAt), 'MMM dd, yyyy HH:mm')}</span>
                     </div>
                     
-                    {incident.impact_assessment && (
+                    {incident.impactAssessment && (
                       <div className="mt-3 p-3 bg-yellow-50 rounded-lg">
                         <p className="text-sm font-medium text-yellow-800">Impact Assessment:</p>
-                        <p className="text-sm text-yellow-700">{incident.impact_assessment}</p>
+                        <p className="text-sm text-yellow-700">{incident.impactAssessment}</p>
                       </div>
                     )}
                     
-                    {incident.immediate_action_taken && (
+                    {incident.immediateActionTaken && (
                       <div className="mt-3 p-3 bg-blue-50 rounded-lg">
                         <p className="text-sm font-medium text-blue-800">Immediate Action Taken:</p>
-                        <p className="text-sm text-blue-700">{incident.immediate_action_taken}</p>
+                        <p className="text-sm text-blue-700">{incident.immediateActionTaken}</p>
                       </div>
                     )}
                     
-                    {incident.root_cause && (
+                    {incident.rootCause && (
                       <div className="mt-3 p-3 bg-green-50 rounded-lg">
                         <p className="text-sm font-medium text-green-800">Root Cause & Resolution:</p>
-                        <p className="text-sm text-green-700">{incident.root_cause}</p>
-                        {incident.corrective_action && (
+                        <p className="text-sm text-green-700">{incident.rootCause}</p>
+                        {incident.correctiveAction && (
                           <p className="text-sm text-green-700 mt-1">
-                            <strong>Corrective Action:</strong> {incident.corrective_action}
+                            <strong>Corrective Action:</strong> {incident.correctiveAction}
                           </p>
                         )}
                       </div>
@@ -284,7 +279,7 @@ const IncidentManagement: React.FC = () => {
                       <EyeIcon className="h-4 w-4" />
                     </button>
                     
-                    {incident.status === 'open' && (
+                    {canManage && incident.status === 'open' && (
                       <button
                         onClick={() => updateIncidentStatus(incident.id, 'investigating')}
                         className="p-2 text-yellow-600 hover:bg-yellow-50 rounded-lg transition-colors"
@@ -294,7 +289,7 @@ const IncidentManagement: React.FC = () => {
                       </button>
                     )}
                     
-                    {incident.status === 'investigating' && (
+                    {canManage && incident.status === 'investigating' && (
                       <button
                         onClick={() => {
                           setSelectedIncident(incident);
@@ -336,7 +331,7 @@ const IncidentManagement: React.FC = () => {
                 <div className="space-y-4">
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-1">Incident Type</label>
-                    <p className="text-gray-900">{selectedIncident.incident_type.replace('_', ' ')}</p>
+                    <p className="text-gray-900">{selectedIncident.incidentType.replace('_', ' ')}</p>
                   </div>
 
                   <div>
@@ -355,22 +350,32 @@ const IncidentManagement: React.FC = () => {
 
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-1">Reported by</label>
-                    <p className="text-gray-900">{selectedIncident.profiles.full_name} ({selectedIncident.profiles.email})</p>
+                    <p className="text-gray-900">
+                      {getReporter(selectedIncident.reportedBy)?.fullName || 'Unknown'}
+                      {getReporter(selectedIncident.reportedBy)?.email && ` (${getReporter(selectedIncident.reportedBy)?.email})`}
+                    </p>
                   </div>
 
-                  {selectedIncident.devices && (
+                  {selectedIncident.assignedTo && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Assigned to</label>
+                      <p className="text-gray-900">{getReporter(selectedIncident.assignedTo)?.fullName || 'Unknown'}</p>
+                    </div>
+                  )}
+
+                  {getDevice(selectedIncident.deviceId) && (
                     <div>
                       <label className="block text-sm font-medium text-gray-700 mb-1">Related Device</label>
                       <p className="text-gray-900">
-                        {selectedIncident.devices.name} 
-                        {selectedIncident.devices.model && ` (${selectedIncident.devices.model})`}
+                        {getDevice(selectedIncident.deviceId)?.name} 
+                        {getDevice(selectedIncident.deviceId)?.model && ` (${getDevice(selectedIncident.deviceId)?.model})`}
                       </p>
                     </div>
                   )}
 
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-1">Occurred At</label>
-                    <p className="text-gray-900">{format(new Date(selectedIncident.occurred_at), 'PPP pp')}</p>
+                    <p className="text-gray-900">{format(new Date(selectedIncident.occurredAt), 'PPP pp')}</p>
                   </div>
                 </div>
 
@@ -380,23 +385,32 @@ const IncidentManagement: React.FC = () => {
                     <p className="text-gray-900 whitespace-pre-wrap">{selectedIncident.description}</p>
                   </div>
 
-                  {selectedIncident.impact_assessment && (
+                  {selectedIncident.impactAssessment && (
                     <div>
                       <label className="block text-sm font-medium text-gray-700 mb-1">Impact Assessment</label>
-                      <p className="text-gray-900 whitespace-pre-wrap">{selectedIncident.impact_assessment}</p>
+                      <p className="text-gray-900 whitespace-pre-wrap">{selectedIncident.impactAssessment}</p>
                     </div>
                   )}
 
-                  {selectedIncident.immediate_action_taken && (
+                  {selectedIncident.immediateActionTaken && (
                     <div>
                       <label className="block text-sm font-medium text-gray-700 mb-1">Immediate Action Taken</label>
-                      <p className="text-gray-900 whitespace-pre-wrap">{selectedIncident.immediate_action_taken}</p>
+                      <p className="text-gray-900 whitespace-pre-wrap">{selectedIncident.immediateActionTaken}</p>
                     </div>
                   )}
+
+                  <div className="pt-4 border-t border-gray-200">
+                    <AttachmentList
+                      ownerType="incident"
+                      ownerId={selectedIncident.id}
+                      deviceId={selectedIncident.deviceId}
+                      canUpload={canManage}
+                    />
+                  </div>
                 </div>
               </div>
 
-              {selectedIncident.status === 'investigating' && (
+              {canManage && selectedIncident.status === 'investigating' && (
                 <div className="mt-6 space-y-4">
                   <h4 className="text-lg font-semibold text-gray-900">Resolution Details</h4>
                   
@@ -429,7 +443,7 @@ const IncidentManagement: React.FC = () => {
               )}
 
               <div className="flex justify-end space-x-3 mt-6 pt-6 border-t border-gray-200">
-                {selectedIncident.status === 'investigating' && (
+                {canManage && selectedIncident.status === 'investigating' && (
                   <button
                     onClick={() => updateIncidentStatus(selectedIncident.id, 'resolved')}
                     disabled={!resolutionData.rootCause.trim() || !resolutionData.correctiveAction.trim()}
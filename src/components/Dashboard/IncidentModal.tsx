@@ -1,24 +1,22 @@
 import React, { useState, useEffect } from 'react';
 import { Dialog, Transition } from '@headlessui/react';
 import { XMarkIcon } from '@heroicons/react/24/outline';
-// import { supabase } from '../../lib/supabase'; // Using Firebase instead
-import { deviceService, incidentService } from '../../services/firebaseService';
+import { deviceService, incidentService } from '../../services';
+import type { Device, IncidentSeverity } from '../../types/models';
 import { useAuth } from '../../contexts/AuthContext';
+import { uploadAttachments } from '../../services/attachments';
+import AttachmentPicker from './AttachmentPicker';
 import toast from 'react-hot-toast';
 
-interface Device {
-  id: string;
-  name: string;
-  model: string | null;
-}
-
 interface IncidentModalProps {
   isOpen: boolean;
   onClose: () => void;
   onSuccess: () => void;
+  // Pre-selects the related device, e.g. when opened by scanning its label
+  deviceId?: string | null;
 }
 
-const IncidentModal: React.FC<IncidentModalProps> = ({ isOpen, onClose, onSuccess }) => {
+const IncidentModal: React.FC<IncidentModalProps> = ({ isOpen, onClose, onSuccess, deviceId = null }) => {
   const { profile } = useAuth();
   const [devices, setDevices] = useState<Device[]>([]);
   const [formData, setFormData] = useState({
@@ -30,14 +28,16 @@ const IncidentModal: React.FC<IncidentModalProps> = ({ isOpen, onClose, onSucces
     immediateAction: '',
     occurredAt: new Date().toISOString().slice(0, 16),
   });
+  const [files, setFiles] = useState<File[]>([]);
   const [loading, setLoading] = useState(false);
 
   useEffect(() => {
     if (isOpen) {
       fetchDevices();
       // Reset form
+      setFiles([]);
       setFormData({
-        deviceId: '',
+        deviceId: deviceId ?? '',
         incidentType: 'malfunction',
         severity: 'medium',
         description: '',
@@ -46,19 +46,11 @@ const IncidentModal: React.FC<IncidentModalProps> = ({ isOpen, onClose, onSucces
         occurredAt: new Date().toISOString().slice(0, 16),
       });
     }
-  }, [isOpen]);
+  }, [isOpen, deviceId]);
 
   const fetchDevices = async () => {
     try {
-      const data = await deviceService.getAllDevices();
-
-      if (data) {
-        setDevices(data.map((device: any) => ({
-          id: device.id,
-          name: device.name,
-          model: device.model
-        })));
-      }
+      setDevices(await deviceService.getAllDevices());
     } catch (error) {
       console.error('Error fetching devices:', error);
     }
@@ -70,11 +62,11 @@ const IncidentModal: React.FC<IncidentModalProps> = ({ isOpen, onClose, onSucces
 
     setLoading(true);
     try {
-      await incidentService.createIncident({
+      const incidentId = await incidentService.createIncident({
         deviceId: formData.deviceId || null,
         reportedBy: profile.id,
         incidentType: formData.incidentType,
-        severity: formData.severity,
+        severity: formData.severity as IncidentSeverity,
         description: formData.description,
         impactAssessment: formData.impactAssessment || null,
         immediateActionTaken: formData.immediateAction || null,
@@ -82,6 +74,16 @@ const IncidentModal: React.FC<IncidentModalProps> = ({ isOpen, onClose, onSucces
       });
 
       toast.success('Incident report submitted successfully!');
+
+      // The report is in; a failed upload is reported but does not undo it
+      if (files.length > 0) {
+        const failed = await uploadAttachments(
+          { ownerType: 'incident', ownerId: incidentId, deviceId: formData.deviceId || null },
+          files,
+          profile.id
+        );
+        if (failed > 0) toast.error(`${failed} of ${files.length} attachments could not be uploaded`);
+      }
       onSuccess();
       onClose();
     } catch (error: any) {
@@ -247,6 +249,8 @@ const IncidentModal: React.FC<IncidentModalProps> = ({ isOpen, onClose, onSucces
                     />
                   </div>
 
+                  <AttachmentPicker files={files} onChange={setFiles} disabled={loading} />
+
                   <div className="flex space-x-3 pt-4">
                     <button
                       type="button"
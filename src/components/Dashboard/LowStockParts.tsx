@@ -0,0 +1,56 @@
+import React from 'react';
+import { CubeIcon } from '@heroicons/react/24/outline';
+import type { SparePart } from '../../types/models';
+import { lowStockParts, totalStock } from '../../utils/spareParts';
+
+interface LowStockPartsProps {
+  parts: SparePart[];
+  onManage?: () => void;
+}
+
+// Parts at or below their reorder point, for the operations overview
+const LowStockParts: React.FC<LowStockPartsProps> = ({ parts, onManage }) => {
+  const lowStock = lowStockParts(parts);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100">
+      <div className="p-6 border-b border-gray-100 flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-gray-800">Low Stock</h3>
+        {onManage && (
+          <button onClick={onManage} className="text-sm text-blue-600 hover:text-blue-900">
+            View inventory
+          </button>
+        )}
+      </div>
+      {lowStock.length === 0 ? (
+        <p className="p-6 text-center text-gray-500">All spare parts are above their reorder points</p>
+      ) : (
+        <div className="divide-y divide-gray-100">
+          {lowStock.map((part) => (
+            <div key={part.id} className="px-6 py-4 flex items-center justify-between">
+              <div className="flex items-center space-x-3">
+                <CubeIcon className="h-5 w-5 text-gray-400" />
+                <div>
+                  <p className="font-medium text-gray-900">{part.name}</p>
+                  <p className="text-sm text-gray-500">{part.partNumber}</p>
+                </div>
+              </div>
+              <div className="text-right">
+                <span
+                  className={`px-2 py-1 text-xs font-semibold rounded-full ${
+                    totalStock(part) === 0 ? 'bg-red-100 text-red-700' : 'bg-yellow-100 text-yellow-700'
+                  }`}
+                >
+                  {totalStock(part) === 0 ? 'Out of stock' : `${totalStock(part)} left`}
+                </span>
+                <p className="text-xs text-gray-500 mt-1">Reorder at {part.reorderPoint}</p>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LowStockParts;
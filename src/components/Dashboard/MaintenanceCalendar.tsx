@@ -0,0 +1,300 @@
+import React, { useState } from 'react';
+import { ChevronLeftIcon, ChevronRightIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { maintenanceService } from '../../services';
+import type { Device, MaintenanceSchedule, Profile } from '../../types/models';
+import {
+  bookingsClashingWith,
+  CalendarView,
+  calendarDays,
+  calendarViews,
+  dayKey,
+  doubleBookedIds,
+  isOverdue,
+  maintenanceTypeColors,
+  schedulesByDay,
+  shiftAnchor,
+} from '../../utils/maintenanceCalendar';
+import { endOfWeek, format, isSameMonth, startOfWeek } from 'date-fns';
+import toast from 'react-hot-toast';
+
+interface MaintenanceCalendarProps {
+  schedules: MaintenanceSchedule[];
+  devices: Device[];
+  technicians: Profile[];
+  canManage: boolean;
+  onEdit: (schedule: MaintenanceSchedule) => void;
+}
+
+// A swimlane: one technician, or the visits nobody has been given yet
+interface Lane {
+  technicianId: string | null;
+  name: string;
+}
+
+// Chips shown in a month cell before the rest collapse into "+N more"
+const MONTH_CELL_LIMIT = 3;
+
+// Month, week and day views of the maintenance schedule. Visits still
+// 'scheduled' can be dragged to another day, or in the week and day views to
+// another technician's lane; a move that double-books someone asks first.
+const MaintenanceCalendar: React.FC<MaintenanceCalendarProps> = ({ schedules, devices, technicians, canManage, onEdit }) => {
+  const [view, setView] = useState<CalendarView>('month');
+  const [anchor, setAnchor] = useState(() => new Date());
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const now = new Date();
+  const days = calendarDays(view, anchor);
+  const visibleKeys = new Set(days.map(dayKey));
+  const visible = schedules.filter(schedule => visibleKeys.has(schedule.scheduledDate.slice(0, 10)));
+  const byDay = schedulesByDay(visible);
+  const doubleBooked = doubleBookedIds(schedules);
+  const visibleConflicts = visible.filter(schedule => doubleBooked.has(schedule.id)).length;
+
+  const deviceName = (deviceId: string) => devices.find(device => device.id === deviceId)?.name || 'Unknown device';
+  const technicianName = (technicianId: string | null) =>
+    technicianId ? technicians.find(tech => tech.id === technicianId)?.fullName || 'Former technician' : 'Unassigned';
+
+  // Everyone who can be booked, plus anyone no longer listed who still has visits in view
+  const lanes: Lane[] = [
+    ...technicians.map(tech => ({ technicianId: tech.id, name: tech.fullName })),
+    ...[...new Set(visible.map(schedule => schedule.technicianId))]
+      .filter((technicianId): technicianId is string => !!technicianId && !technicians.some(tech => tech.id === technicianId))
+      .map(technicianId => ({ technicianId, name: technicianName(technicianId) })),
+    { technicianId: null, name: 'Unassigned' },
+  ];
+
+  const title =
+    view === 'month'
+      ? format(anchor, 'MMMM yyyy')
+      : view === 'week'
+        ? `${format(startOfWeek(anchor, { weekStartsOn: 1 }), 'MMM dd')} – ${format(endOfWeek(anchor, { weekStartsOn: 1 }), 'MMM dd, yyyy')}`
+        : format(anchor, 'EEEE, MMM dd, yyyy');
+
+  const reschedule = async (schedule: MaintenanceSchedule, day: string, technicianId: string | null) => {
+    const dayChanged = day !== schedule.scheduledDate.slice(0, 10);
+    if (!dayChanged && technicianId === schedule.technicianId) return;
+    if (day < dayKey(now)) {
+      toast.error('Visits can only be moved to today or later');
+      return;
+    }
+
+    const clashes = bookingsClashingWith(schedules, schedule, day, technicianId);
+    if (
+      clashes.length > 0 &&
+      !confirm(
+        `${technicianName(technicianId)} already has ${clashes.length} other visit${clashes.length === 1 ? '' : 's'} on ${format(new Date(day), 'MMM dd, yyyy')} (${clashes.map(clash => deviceName(clash.deviceId)).join(', ')}). Book anyway?`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      await maintenanceService.updateSchedule(schedule.id, {
+        scheduledDate: day,
+        technicianId,
+        // Keeps the plan sync from moving a planned visit back
+        ...(dayChanged && schedule.planId ? { manuallyScheduled: true } : {}),
+      });
+      toast.success(`Visit moved to ${format(new Date(day), 'MMM dd')}${technicianId !== schedule.technicianId ? ` for ${technicianName(technicianId)}` : ''}`);
+    } catch (error) {
+      console.error('Error rescheduling maintenance:', error);
+      toast.error((error as Error).message || 'Failed to reschedule maintenance');
+    }
+  };
+
+  const dropProps = (targetKey: string, day: string, technicianId: (schedule: MaintenanceSchedule) => string | null) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (!draggingId) return;
+      e.preventDefault();
+      setDropTarget(targetKey);
+    },
+    onDragLeave: () => setDropTarget(current => (current === targetKey ? null : current)),
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      const schedule = schedules.find(s => s.id === draggingId);
+      setDraggingId(null);
+      setDropTarget(null);
+      if (schedule) reschedule(schedule, day, technicianId(schedule));
+    },
+  });
+
+  const renderChip = (schedule: MaintenanceSchedule) => {
+    const draggable = canManage && schedule.status === 'scheduled';
+    const overdue = isOverdue(schedule, now);
+    return (
+      <div
+        key={schedule.id}
+        draggable={draggable}
+        onDragStart={(e) => {
+          e.dataTransfer.setData('text/plain', schedule.id);
+          e.dataTransfer.effectAllowed = 'move';
+          setDraggingId(schedule.id);
+        }}
+        onDragEnd={() => {
+          setDraggingId(null);
+          setDropTarget(null);
+        }}
+        onClick={() => canManage && onEdit(schedule)}
+        title={`${deviceName(schedule.deviceId)} · ${schedule.maintenanceType} · ${technicianName(schedule.technicianId)}${overdue ? ' · overdue' : ''}`}
+        className={`flex items-center space-x-1 px-2 py-1 text-xs rounded truncate ${maintenanceTypeColors[schedule.maintenanceType]} ${
+          overdue ? 'ring-2 ring-red-500' : ''
+        } ${schedule.status === 'completed' || schedule.status === 'cancelled' ? 'opacity-50' : ''} ${
+          schedule.status === 'cancelled' ? 'line-through' : ''
+        } ${draggable ? 'cursor-move' : canManage ? 'cursor-pointer' : ''} ${draggingId === schedule.id ? 'opacity-40' : ''}`}
+      >
+        {doubleBooked.has(schedule.id) && <ExclamationTriangleIcon className="h-3 w-3 flex-shrink-0 text-orange-600" />}
+        <span className="truncate">{deviceName(schedule.deviceId)}</span>
+      </div>
+    );
+  };
+
+  const dropHighlight = (targetKey: string) => (dropTarget === targetKey ? 'bg-blue-50 ring-2 ring-inset ring-blue-300' : '');
+
+  const renderMonth = () => (
+    <div className="grid grid-cols-7 border-t border-l border-gray-200">
+      {days.slice(0, 7).map(day => (
+        <div key={`head-${dayKey(day)}`} className="px-2 py-1 text-xs font-medium text-gray-500 uppercase border-r border-b border-gray-200 bg-gray-50">
+          {format(day, 'EEE')}
+        </div>
+      ))}
+      {days.map(day => {
+        const key = dayKey(day);
+        const entries = byDay.get(key) ?? [];
+        return (
+          <div
+            key={key}
+            {...dropProps(key, key, schedule => schedule.technicianId)}
+            className={`min-h-28 p-1 border-r border-b border-gray-200 space-y-1 ${isSameMonth(day, anchor) ? 'bg-white' : 'bg-gray-50'} ${dropHighlight(key)}`}
+          >
+            <button
+              onClick={() => {
+                setAnchor(day);
+                setView('day');
+              }}
+              className={`text-xs font-medium px-1 rounded ${key === dayKey(now) ? 'bg-blue-600 text-white' : isSameMonth(day, anchor) ? 'text-gray-700' : 'text-gray-400'}`}
+            >
+              {format(day, 'd')}
+            </button>
+            {entries.slice(0, MONTH_CELL_LIMIT).map(renderChip)}
+            {entries.length > MONTH_CELL_LIMIT && (
+              <button
+                onClick={() => {
+                  setAnchor(day);
+                  setView('day');
+                }}
+                className="text-xs text-blue-600 hover:text-blue-900"
+              >
+                +{entries.length - MONTH_CELL_LIMIT} more
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  // Week and day views: a row per technician, a column per day
+  const renderLanes = () => (
+    <div className="overflow-x-auto">
+      <div
+        className="grid border-t border-l border-gray-200 min-w-[48rem]"
+        style={{ gridTemplateColumns: `10rem repeat(${days.length}, minmax(0, 1fr))` }}
+      >
+        <div className="px-2 py-1 text-xs font-medium text-gray-500 uppercase border-r border-b border-gray-200 bg-gray-50">
+          Technician
+        </div>
+        {days.map(day => (
+          <div
+            key={`head-${dayKey(day)}`}
+            className={`px-2 py-1 text-xs font-medium uppercase border-r border-b border-gray-200 ${dayKey(day) === dayKey(now) ? 'bg-blue-50 text-blue-700' : 'bg-gray-50 text-gray-500'}`}
+          >
+            {format(day, view === 'day' ? 'EEEE dd' : 'EEE dd')}
+          </div>
+        ))}
+        {lanes.map(lane => (
+          <React.Fragment key={lane.technicianId ?? 'unassigned'}>
+            <div className="px-2 py-2 text-sm font-medium text-gray-700 border-r border-b border-gray-200 bg-gray-50 truncate">
+              {lane.name}
+            </div>
+            {days.map(day => {
+              const key = dayKey(day);
+              const targetKey = `${lane.technicianId}:${key}`;
+              const entries = (byDay.get(key) ?? []).filter(schedule => schedule.technicianId === lane.technicianId);
+              return (
+                <div
+                  key={targetKey}
+                  {...dropProps(targetKey, key, () => lane.technicianId)}
+                  className={`min-h-16 p-1 border-r border-b border-gray-200 space-y-1 ${dropHighlight(targetKey)}`}
+                >
+                  {entries.map(renderChip)}
+                </div>
+              );
+            })}
+          </React.Fragment>
+        ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => setAnchor(current => shiftAnchor(view, current, -1))}
+            className="p-2 text-gray-500 hover:text-gray-800 rounded-lg hover:bg-gray-100"
+          >
+            <ChevronLeftIcon className="h-4 w-4" />
+          </button>
+          <button
+            onClick={() => setAnchor(new Date())}
+            className="px-3 py-1 text-sm font-medium text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50"
+          >
+            Today
+          </button>
+          <button
+            onClick={() => setAnchor(current => shiftAnchor(view, current, 1))}
+            className="p-2 text-gray-500 hover:text-gray-800 rounded-lg hover:bg-gray-100"
+          >
+            <ChevronRightIcon className="h-4 w-4" />
+          </button>
+          <h3 className="text-lg font-semibold text-gray-800 ml-2">{title}</h3>
+        </div>
+        <div className="flex rounded-lg border border-gray-300 overflow-hidden">
+          {calendarViews.map(option => (
+            <button
+              key={option}
+              onClick={() => setView(option)}
+              className={`px-3 py-1 text-sm font-medium capitalize ${view === option ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 text-xs text-gray-600">
+        {Object.entries(maintenanceTypeColors).map(([type, color]) => (
+          <span key={type} className={`px-2 py-0.5 rounded capitalize ${color}`}>{type}</span>
+        ))}
+        <span className="px-2 py-0.5 rounded ring-2 ring-red-500">Overdue</span>
+        <span className="flex items-center space-x-1">
+          <ExclamationTriangleIcon className="h-3 w-3 text-orange-600" />
+          <span>Technician double-booked</span>
+        </span>
+        {canManage && <span className="text-gray-400">Drag a scheduled visit to move it</span>}
+      </div>
+
+      {visibleConflicts > 0 && (
+        <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+          {visibleConflicts} visit{visibleConflicts === 1 ? '' : 's'} in view share a technician with another visit the same day.
+        </div>
+      )}
+
+      {view === 'month' ? renderMonth() : renderLanes()}
+    </div>
+  );
+};
+
+export default MaintenanceCalendar;
@@ -0,0 +1,63 @@
+import React from 'react';
+import type { Device, MaintenanceSchedule } from '../../types/models';
+import { forwardWeeks, PLAN_HORIZON_DAYS } from '../../utils/maintenancePlans';
+import { maintenanceTypeColors } from '../../utils/maintenanceCalendar';
+import { addDays, format } from 'date-fns';
+
+interface MaintenanceForecastProps {
+  schedules: MaintenanceSchedule[];
+  devices: Device[];
+  technicianName: (technicianId: string | null) => string | undefined;
+}
+
+// Planned work for the next PLAN_HORIZON_DAYS days, a week per row
+const MaintenanceForecast: React.FC<MaintenanceForecastProps> = ({ schedules, devices, technicianName }) => {
+  const weeks = forwardWeeks(schedules);
+  const total = weeks.reduce((sum, week) => sum + week.entries.length, 0);
+
+  const deviceName = (deviceId: string) => devices.find(device => device.id === deviceId)?.name || 'Unknown device';
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-semibold text-gray-800">Next {PLAN_HORIZON_DAYS} Days</h3>
+        <span className="text-sm text-gray-500">{total} visits planned</span>
+      </div>
+
+      <div className="divide-y divide-gray-100">
+        {weeks.map(week => (
+          <div key={week.weekStart.toISOString()} className="py-3 flex flex-col md:flex-row md:items-start">
+            <div className="md:w-40 flex-shrink-0 mb-2 md:mb-0">
+              <p className="text-sm font-medium text-gray-900">
+                {format(week.weekStart, 'MMM dd')} – {format(addDays(week.weekStart, 6), 'MMM dd')}
+              </p>
+              <p className="text-xs text-gray-500">
+                {week.entries.length} {week.entries.length === 1 ? 'visit' : 'visits'}
+              </p>
+            </div>
+            {week.entries.length === 0 ? (
+              <p className="text-sm text-gray-400">Nothing planned</p>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {week.entries.map(entry => (
+                  <div key={entry.id} className="border border-gray-200 rounded-lg px-3 py-2 text-sm">
+                    <div className="flex items-center space-x-2">
+                      <span className="font-medium text-gray-900">{format(new Date(entry.scheduledDate), 'EEE dd')}</span>
+                      <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${maintenanceTypeColors[entry.maintenanceType]}`}>
+                        {entry.maintenanceType}
+                      </span>
+                    </div>
+                    <p className="text-gray-700">{deviceName(entry.deviceId)}</p>
+                    <p className="text-xs text-gray-500">{technicianName(entry.technicianId) || 'Unassigned'}</p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default MaintenanceForecast;
@@ -1,69 +1,77 @@
 import React, { useState, useEffect } from 'react';
-import { PlusIcon, CalendarIcon, WrenchScrewdriverIcon } from '@heroicons/react/24/outline';
-import { supabase } from '../../lib/supabase';
+import { PlusIcon, CalendarIcon } from '@heroicons/react/24/outline';
+import { maintenanceService, deviceService, equipmentTypeService, profileService, sparePartService } from '../../services';
+import { newItemHighlight, useLiveCollection } from '../../hooks/useLiveCollection';
+import { useAuth } from '../../contexts/AuthContext';
+import { hasCapability } from '../../utils/permissions';
+import { syncMaintenancePlans } from '../../services/maintenancePlanJob';
+import MaintenancePlans from './MaintenancePlans';
+import MaintenanceForecast from './MaintenanceForecast';
+import MaintenanceCalendar from './MaintenanceCalendar';
+import MaintenanceWorkOrder, { WorkOrderUpdate } from './MaintenanceWorkOrder';
+import { checklistFor, completionBlockers } from '../../utils/workOrders';
+import { consumptionFor, totalStock } from '../../utils/spareParts';
+import type { Device, EquipmentType, MaintenanceSchedule, MaintenanceStatus, MaintenanceType, Profile, SparePart } from '../../types/models';
 import { format } from 'date-fns';
 import toast from 'react-hot-toast';
 
-interface MaintenanceSchedule {
-  id: string;
-  device_id: string;
-  maintenance_type: string;
-  scheduled_date: string;
-  completed_date: string | null;
-  technician_id: string | null;
-  notes: string | null;
-  cost: number | null;
-  status: string;
-  devices: { name: string; model: string | null };
-  profiles: { full_name: string } | null;
-}
-
-interface Device {
-  id: string;
-  name: string;
-  model: string | null;
-}
-
-interface Technician {
-  id: string;
-  full_name: string;
-}
+type MaintenanceView = 'schedules' | 'calendar' | 'plans' | 'forecast';
+
+const views: { id: MaintenanceView; name: string }[] = [
+  { id: 'schedules', name: 'Schedule' },
+  { id: 'calendar', name: 'Calendar' },
+  { id: 'plans', name: 'Plans' },
+  { id: 'forecast', name: 'Next 90 Days' },
+];
 
 const MaintenanceManagement: React.FC = () => {
-  const [schedules, setSchedules] = useState<MaintenanceSchedule[]>([]);
+  const { can, profile } = useAuth();
+  const canManage = can('maintenance.manage');
+  const canSeeParts = can('inventory.view');
+  const { items: schedules, loading: schedulesLoading, isNew } = useLiveCollection(
+    maintenanceService.subscribeToSchedules,
+    { errorMessage: 'Failed to load maintenance data' }
+  );
   const [devices, setDevices] = useState<Device[]>([]);
-  const [technicians, setTechnicians] = useState<Technician[]>([]);
+  const [equipmentTypes, setEquipmentTypes] = useState<EquipmentType[]>([]);
+  const [technicians, setTechnicians] = useState<Profile[]>([]);
+  const [spareParts, setSpareParts] = useState<SparePart[]>([]);
   const [loading, setLoading] = useState(true);
+  const [view, setView] = useState<MaintenanceView>('schedules');
   const [showForm, setShowForm] = useState(false);
   const [editingSchedule, setEditingSchedule] = useState<MaintenanceSchedule | null>(null);
+  const [workOrderId, setWorkOrderId] = useState<string | null>(null);
   const [formData, setFormData] = useState({
-    device_id: '',
-    maintenance_type: 'preventive',
-    scheduled_date: '',
-    technician_id: '',
+    deviceId: '',
+    maintenanceType: 'preventive' as MaintenanceType,
+    scheduledDate: '',
+    technicianId: '',
     notes: '',
     cost: '',
   });
 
   useEffect(() => {
-    fetchData();
-  }, []);
+    fetchData(canSeeParts);
+  }, [canSeeParts]);
 
-  const fetchData = async () => {
+  // Schedules themselves arrive through the live subscription
+  const fetchData = async (includeParts: boolean) => {
     try {
-      const [schedulesResult, devicesResult, techniciansResult] = await Promise.all([
-        supabase.from('maintenance_schedules').select(`
-          *,
-          devices(name, model),
-          profiles(full_name)
-        `).order('scheduled_date', { ascending: false }),
-        supabase.from('devices').select('id, name, model').order('name'),
-        supabase.from('profiles').select('id, full_name').eq('role', 'admin').order('full_name'),
+      const [devicesData, equipmentTypesData, profilesData, partsData] = await Promise.all([
+        deviceService.getAllDevices(),
+        equipmentTypeService.getAllEquipmentTypes(),
+        profileService.getAllProfiles(),
+        includeParts ? sparePartService.getAllParts() : Promise.resolve([]),
       ]);
 
-      if (schedulesResult.data) setSchedules(schedulesResult.data);
-      if (devicesResult.data) setDevices(devicesResult.data);
-      if (techniciansResult.data) setTechnicians(techniciansResult.data);
+      setDevices([...devicesData].sort((a, b) => a.name.localeCompare(b.name)));
+      setEquipmentTypes(equipmentTypesData);
+      setSpareParts(partsData);
+      setTechnicians(
+        profilesData
+          .filter(profile => hasCapability(profile.role, 'maintenance.manage'))
+          .sort((a, b) => a.fullName.localeCompare(b.fullName))
+      );
     } catch (error) {
       console.error('Error fetching data:', error);
       toast.error('Failed to load maintenance data');
@@ -78,29 +86,28 @@ const MaintenanceManagement: React.FC = () => {
 
     try {
       const scheduleData = {
-        device_id: formData.device_id,
-        maintenance_type: formData.maintenance_type,
-        scheduled_date: formData.scheduled_date,
-        technician_id: formData.technician_id || null,
+        deviceId: formData.deviceId,
+        maintenanceType: formData.maintenanceType,
+        scheduledDate: formData.scheduledDate,
+        technicianId: formData.technicianId || null,
         notes: formData.notes || null,
         cost: formData.cost ? parseFloat(formData.cost) : null,
       };
 
       if (editingSchedule) {
-        const { error } = await supabase
-          .from('maintenance_schedules')
-          .update(scheduleData)
-          .eq('id', editingSchedule.id);
-        if (error) throw error;
+        // A planned visit moved by hand keeps its new date through plan syncs
+        const moved = editingSchedule.planId && formData.scheduledDate !== editingSchedule.scheduledDate;
+        await maintenanceService.updateSchedule(editingSchedule.id, {
+          ...scheduleData,
+          ...(moved ? { manuallyScheduled: true } : {}),
+        });
         toast.success('Maintenance schedule updated successfully');
       } else {
-        const { error } = await supabase.from('maintenance_schedules').insert(scheduleData);
-        if (error) throw error;
+        await maintenanceService.createSchedule(scheduleData);
         toast.success('Maintenance schedule created successfully');
       }
 
       resetForm();
-      fetchData();
     } catch (error: any) {
       console.error('Error saving maintenance schedule:', error);
       toast.error(error.message || 'Failed to save maintenance schedule');
@@ -109,34 +116,61 @@ const MaintenanceManagement: React.FC = () => {
     }
   };
 
-  const handleStatusUpdate = async (scheduleId: string, newStatus: string) => {
+  const handleStatusUpdate = async (
+    schedule: MaintenanceSchedule,
+    newStatus: MaintenanceStatus,
+    workOrder?: WorkOrderUpdate
+  ) => {
     try {
-      const updateData: any = { status: newStatus };
+      const updateData: Partial<MaintenanceSchedule> = { status: newStatus, ...workOrder };
+      if (newStatus === 'in_progress' && schedule.checklist.length === 0) {
+        // The work order starts from the equipment type's current checklist
+        const device = getDevice(schedule.deviceId);
+        updateData.checklist = checklistFor(equipmentTypes.find(type => type.id === device?.equipmentTypeId));
+      }
       if (newStatus === 'completed') {
-        updateData.completed_date = new Date().toISOString().split('T')[0];
+        const blockers = completionBlockers({ ...schedule, ...workOrder });
+        if (blockers.length > 0) {
+          toast.error(`Cannot complete yet: ${blockers.join(', ')}`);
+          return;
+        }
+        updateData.completedDate = format(new Date(), 'yyyy-MM-dd');
+        updateData.signedOffBy = profile?.id ?? null;
+        updateData.signedOffAt = new Date().toISOString();
       }
 
-      const { error } = await supabase
-        .from('maintenance_schedules')
-        .update(updateData)
-        .eq('id', scheduleId);
+      // Stock goes first: if a store room has run short the visit stays open.
+      // A retry after a failed save does not take the parts a second time.
+      const consumption = newStatus === 'completed' ? consumptionFor(workOrder?.partsUsed ?? schedule.partsUsed) : [];
+      if (consumption.length > 0 && (await sparePartService.consumeParts(schedule.id, consumption))) {
+        if (canSeeParts) setSpareParts(await sparePartService.getAllParts());
+      }
 
-      if (error) throw error;
+      await maintenanceService.updateSchedule(schedule.id, updateData);
+      if (updateData.completedDate) {
+        // The device's own last/next maintenance dates follow the completed visit
+        await deviceService.recordMaintenance(schedule.deviceId, updateData.completedDate);
+      }
       toast.success('Maintenance status updated');
-      fetchData();
+      if (newStatus === 'in_progress') setWorkOrderId(schedule.id);
+      if (newStatus === 'completed') setWorkOrderId(null);
+      // Roll the plan forward from the day the visit was actually done
+      if (newStatus === 'completed' && schedule.planId) {
+        await syncMaintenancePlans();
+      }
     } catch (error: any) {
       console.error('Error updating status:', error);
-      toast.error('Failed to update status');
+      toast.error(error.message || 'Failed to update status');
     }
   };
 
   const startEdit = (schedule: MaintenanceSchedule) => {
     setEditingSchedule(schedule);
     setFormData({
-      device_id: schedule.device_id,
-      maintenance_type: schedule.maintenance_type,
-      scheduled_date: schedule.scheduled_date,
-      technician_id: schedule.technician_id || '',
+      deviceId: schedule.deviceId,
+      maintenanceType: schedule.maintenanceType,
+      scheduledDate: schedule.scheduledDate,
+      technicianId: schedule.technicianId || '',
       notes: schedule.notes || '',
       cost: schedule.cost?.toString() || '',
     });
@@ -147,10 +181,10 @@ const MaintenanceManagement: React.FC = () => {
     setShowForm(false);
     setEditingSchedule(null);
     setFormData({
-      device_id: '',
-      maintenance_type: 'preventive',
-      scheduled_date: '',
-      technician_id: '',
+      deviceId: '',
+      maintenanceType: 'preventive' as MaintenanceType,
+      scheduledDate: '',
+      technicianId: '',
       notes: '',
       cost: '',
     });
@@ -175,7 +209,20 @@ const MaintenanceManagement: React.FC = () => {
     }
   };
 
-  if (loading && schedules.length === 0) {
+  const getDevice = (deviceId: string) => devices.find(device => device.id === deviceId);
+
+  const workOrderSchedule = schedules.find(schedule => schedule.id === workOrderId);
+
+  // Spare parts that fit the device picked in the form, with what is in stock
+  const formEquipmentTypeId = getDevice(formData.deviceId)?.equipmentTypeId;
+  const formParts = formEquipmentTypeId
+    ? spareParts.filter(part => part.compatibleEquipmentTypeIds.includes(formEquipmentTypeId))
+    : [];
+
+  const getTechnicianName = (technicianId: string | null) =>
+    technicians.find(tech => tech.id === technicianId)?.fullName;
+
+  if ((loading || schedulesLoading) && schedules.length === 0) {
     return (
       <div className="space-y-6">
         <div className="flex justify-between items-center">
@@ -197,17 +244,70 @@ const MaintenanceManagement: React.FC = () => {
     <div className="space-y-6">
       <div className="flex justify-between items-center">
         <h2 className="text-2xl font-bold text-gray-900">Maintenance Management</h2>
-        <button
-          onClick={() => setShowForm(true)}
-          className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white font-medium py-2 px-4 rounded-lg transition-all duration-200 flex items-center space-x-2"
-        >
-          <PlusIcon className="h-4 w-4" />
-          <span>Schedule Maintenance</span>
-        </button>
+        {canManage && view === 'schedules' && (
+          <button
+            onClick={() => setShowForm(true)}
+            className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white font-medium py-2 px-4 rounded-lg transition-all duration-200 flex items-center space-x-2"
+          >
+            <PlusIcon className="h-4 w-4" />
+            <span>Schedule Maintenance</span>
+          </button>
+        )}
       </div>
 
+      <div className="flex space-x-8 border-b border-gray-200">
+        {views.map(({ id, name }) => (
+          <button
+            key={id}
+            onClick={() => setView(id)}
+            className={`py-2 px-1 border-b-2 font-medium text-sm whitespace-nowrap transition-colors duration-200 ${
+              view === id
+                ? 'border-blue-500 text-blue-600'
+                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+            }`}
+          >
+            {name}
+          </button>
+        ))}
+      </div>
+
+      {view === 'calendar' && (
+        <MaintenanceCalendar
+          schedules={schedules}
+          devices={devices}
+          technicians={technicians}
+          canManage={canManage}
+          onEdit={(schedule) => {
+            setView('schedules');
+            startEdit(schedule);
+          }}
+        />
+      )}
+
+      {view === 'plans' && (
+        <MaintenancePlans devices={devices} technicians={technicians} schedules={schedules} canManage={canManage} />
+      )}
+
+      {view === 'forecast' && (
+        <MaintenanceForecast schedules={schedules} devices={devices} technicianName={getTechnicianName} />
+      )}
+
+      {/* Keyed on status so the panel picks up the checklist written by Start */}
+      {view === 'schedules' && workOrderSchedule && (
+        <MaintenanceWorkOrder
+          key={`${workOrderSchedule.id}:${workOrderSchedule.status}`}
+          schedule={workOrderSchedule}
+          device={getDevice(workOrderSchedule.deviceId)}
+          spareParts={spareParts}
+          canManage={canManage}
+          technicianName={getTechnicianName}
+          onComplete={(workOrder) => handleStatusUpdate(workOrderSchedule, 'completed', workOrder)}
+          onClose={() => setWorkOrderId(null)}
+        />
+      )}
+
       {/* Form */}
-      {showForm && (
+      {view === 'schedules' && showForm && (
         <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
           <h3 className="text-lg font-semibold text-gray-800 mb-4">
             {editingSchedule ? 'Edit Maintenance Schedule' : 'Schedule New Maintenance'}
@@ -219,8 +319,8 @@ const MaintenanceManagement: React.FC = () => {
                   Device *
                 </label>
                 <select
-                  value={formData.device_id}
-                  onChange={(e) => setFormData(prev => ({ ...prev, device_id: e.target.value }))}
+                  value={formData.deviceId}
+                  onChange={(e) => setFormData(prev => ({ ...prev, deviceId: e.target.value }))}
                   required
                   className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                 >
@@ -238,8 +338,8 @@ const MaintenanceManagement: React.FC = () => {
                   Maintenance Type
                 </label>
                 <select
-                  value={formData.maintenance_type}
-                  onChange={(e) => setFormData(prev => ({ ...prev, maintenance_type: e.target.value }))}
+                  value={formData.maintenanceType}
+                  onChange={(e) => setFormData(prev => ({ ...prev, maintenanceType: e.target.value as MaintenanceType }))}
                   className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                 >
                   <option value="preventive">Preventive</option>
@@ -254,8 +354,8 @@ const MaintenanceManagement: React.FC = () => {
                 </label>
                 <input
                   type="date"
-                  value={formData.scheduled_date}
-                  onChange={(e) => setFormData(prev => ({ ...prev, scheduled_date: e.target.value }))}
+                  value={formData.scheduledDate}
+                  onChange={(e) => setFormData(prev => ({ ...prev, scheduledDate: e.target.value }))}
                   required
                   className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                 />
@@ -266,14 +366,14 @@ const MaintenanceManagement: React.FC = () => {
                   Assigned Technician
                 </label>
                 <select
-                  value={formData.technician_id}
-                  onChange={(e) => setFormData(prev => ({ ...prev, technician_id: e.target.value }))}
+                  value={formData.technicianId}
+                  onChange={(e) => setFormData(prev => ({ ...prev, technicianId: e.target.value }))}
                   className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                 >
                   <option value="">Select technician</option>
                   {technicians.map(tech => (
                     <option key={tech.id} value={tech.id}>
-                      {tech.full_name}
+                      {tech.fullName}
                     </option>
                   ))}
                 </select>
@@ -307,6 +407,25 @@ const MaintenanceManagement: React.FC = () => {
               </div>
             </div>
 
+            {formParts.length > 0 && (
+              <div className="p-3 bg-gray-50 border border-gray-200 rounded-lg">
+                <p className="text-sm font-medium text-gray-700 mb-2">Spare parts for this device</p>
+                <div className="flex flex-wrap gap-2">
+                  {formParts.map(part => (
+                    <span
+                      key={part.id}
+                      title={part.stockLevels.map(level => `${level.storeRoom}: ${level.quantity}`).join(', ')}
+                      className={`px-2 py-1 text-xs font-semibold rounded-full ${
+                        totalStock(part) === 0 ? 'bg-red-100 text-red-700' : totalStock(part) <= part.reorderPoint ? 'bg-yellow-100 text-yellow-700' : 'bg-green-100 text-green-700'
+                      }`}
+                    >
+                      {part.name} ({part.partNumber}): {totalStock(part)} in stock
+                    </span>
+                  ))}
+                </div>
+              </div>
+            )}
+
             <div className="flex space-x-3 pt-4">
               <button
                 type="button"
@@ -328,96 +447,121 @@ const MaintenanceManagement: React.FC = () => {
       )}
 
       {/* Maintenance Schedules Table */}
-      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
-        <div className="overflow-x-auto">
-          <table className="min-w-full divide-y divide-gray-200">
-            <thead className="bg-gray-50">
-              <tr>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Device
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Type
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Scheduled Date
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Technician
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Status
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Actions
-                </th>
-              </tr>
-            </thead>
-            <tbody className="bg-white divide-y divide-gray-200">
-              {schedules.map((schedule) => (
-                <tr key={schedule.id} className="hover:bg-gray-50">
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    <div>
-                      <div className="text-sm font-medium text-gray-900">
-                        {schedule.devices.name}
+      {view === 'schedules' && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Device
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Type
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Scheduled Date
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Technician
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Status
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {schedules.map((schedule) => {
+                  const device = getDevice(schedule.deviceId);
+                  return (
+                  <tr key={schedule.id} className={`hover:bg-gray-50 ${isNew(schedule.id) ? newItemHighlight : ''}`}>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div>
+                        <div className="text-sm font-medium text-gray-900">
+                          {device?.name || 'Unknown device'}
+                        </div>
+                        {device?.model && (
+                          <div className="text-sm text-gray-500">{device.model}</div>
+                        )}
                       </div>
-                      {schedule.devices.model && (
-                        <div className="text-sm text-gray-500">{schedule.devices.model}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className="px-2 py-1 text-xs font-semibold rounded-full bg-blue-100 text-blue-700">
+                        {schedule.maintenanceType}
+                      </span>
+                      {schedule.planId && (
+                        <span className="ml-2 px-2 py-1 text-xs font-semibold rounded-full bg-purple-100 text-purple-700">
+                          planned
+                        </span>
                       )}
-                    </div>
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    <span className="px-2 py-1 text-xs font-semibold rounded-full bg-blue-100 text-blue-700">
-                      {schedule.maintenance_type}
-                    </span>
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                    <div className="flex items-center">
-                      <CalendarIcon className="h-4 w-4 text-gray-400 mr-2" />
-                      {format(new Date(schedule.scheduled_date), 'MMM dd, yyyy')}
-                    </div>
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                    {schedule.profiles?.full_name || 'Unassigned'}
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    <span className={`px-2 py-1 text-xs font-semibold rounded-full ${getStatusColor(schedule.status, schedule.scheduled_date)}`}>
-                      {schedule.status === 'scheduled' && new Date(schedule.scheduled_date) < new Date() 
-                        ? 'Overdue' 
-                        : schedule.status.replace('_', ' ')
-                      }
-                    </span>
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium space-x-2">
-                    <button
-                      onClick={() => startEdit(schedule)}
-                      className="text-blue-600 hover:text-blue-900 transition-colors"
-                    >
-                      Edit
-                    </button>
-                    {schedule.status === 'scheduled' && (
-                      <button
-                        onClick={() => handleStatusUpdate(schedule.id, 'in_progress')}
-                        className="text-yellow-600 hover:text-yellow-900 transition-colors"
-                      >
-                        Start
-                      </button>
-                    )}
-                    {schedule.status === 'in_progress' && (
-                      <button
-                        onClick={() => handleStatusUpdate(schedule.id, 'completed')}
-                        className="text-green-600 hover:text-green-900 transition-colors"
-                      >
-                        Complete
-                      </button>
-                    )}
-                  </td>
-                </tr>
-              ))}
-            </tbody>
-          </table>
+                      {schedule.complianceRecordId && (
+                        <span className="ml-2 px-2 py-1 text-xs font-semibold rounded-full bg-amber-100 text-amber-700">
+                          certificate renewal
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      <div className="flex items-center">
+                        <CalendarIcon className="h-4 w-4 text-gray-400 mr-2" />
+                        {format(new Date(schedule.scheduledDate), 'MMM dd, yyyy')}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {getTechnicianName(schedule.technicianId) || 'Unassigned'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`px-2 py-1 text-xs font-semibold rounded-full ${getStatusColor(schedule.status, schedule.scheduledDate)}`}>
+                        {schedule.status === 'scheduled' && new Date(schedule.scheduledDate) < new Date() 
+                          ? 'Overdue' 
+                          : schedule.status.replace('_', ' ')
+                        }
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium space-x-2">
+                      {canManage && (
+                        <button
+                          onClick={() => startEdit(schedule)}
+                          className="text-blue-600 hover:text-blue-900 transition-colors"
+                        >
+                          Edit
+                        </button>
+                      )}
+                      {canManage && schedule.status === 'scheduled' && (
+                        <button
+                          onClick={() => handleStatusUpdate(schedule, 'in_progress')}
+                          className="text-yellow-600 hover:text-yellow-900 transition-colors"
+                        >
+                          Start
+                        </button>
+                      )}
+                      {canManage && schedule.status === 'in_progress' && (
+                        <button
+                          onClick={() => setWorkOrderId(schedule.id)}
+                          className="text-green-600 hover:text-green-900 transition-colors"
+                        >
+                          Complete
+                        </button>
+                      )}
+                      {schedule.status === 'completed' && (
+                        <button
+                          onClick={() => setWorkOrderId(schedule.id)}
+                          className="text-gray-600 hover:text-gray-900 transition-colors"
+                        >
+                          Work Order
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
         </div>
-      </div>
+      )}
     </div>
   );
 };
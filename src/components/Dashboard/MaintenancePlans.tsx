@@ -0,0 +1,595 @@
+import React, { useState, useEffect } from 'react';
+import { PlusIcon, PencilIcon, TrashIcon, ArrowPathIcon } from '@heroicons/react/24/outline';
+import { equipmentTypeService, maintenanceService } from '../../services';
+import { syncMaintenancePlans } from '../../services/maintenancePlanJob';
+import type {
+  Device,
+  EquipmentType,
+  MaintenancePlan,
+  MaintenancePlanInput,
+  MaintenanceSchedule,
+  MaintenanceType,
+  PlanRecurrence,
+  Profile,
+} from '../../types/models';
+import { describePlanRecurrence, planDevices, planRecurrenceLabels, PLAN_HORIZON_DAYS } from '../../utils/maintenancePlans';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+
+interface MaintenancePlansProps {
+  devices: Device[];
+  technicians: Profile[];
+  schedules: MaintenanceSchedule[];
+  canManage: boolean;
+}
+
+const emptyForm = () => ({
+  name: '',
+  scope: 'device' as 'device' | 'equipmentType',
+  deviceId: '',
+  equipmentTypeId: '',
+  maintenanceType: 'preventive' as MaintenanceType,
+  recurrence: 'interval' as PlanRecurrence,
+  startDate: format(new Date(), 'yyyy-MM-dd'),
+  intervalDays: '90',
+  intervalMonths: '3',
+  meterUnit: 'hours',
+  meterInterval: '',
+  dailyUsage: '',
+  technicianId: '',
+  estimatedCost: '',
+  notes: '',
+  isActive: true,
+});
+
+const inputClass = 'w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+// Recurring maintenance plans. Saving one brings the schedule in line straight
+// away; after that the dashboard's plan job keeps it PLAN_HORIZON_DAYS ahead.
+const MaintenancePlans: React.FC<MaintenancePlansProps> = ({ devices, technicians, schedules, canManage }) => {
+  const [plans, setPlans] = useState<MaintenancePlan[]>([]);
+  const [equipmentTypes, setEquipmentTypes] = useState<EquipmentType[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [showForm, setShowForm] = useState(false);
+  const [editingPlan, setEditingPlan] = useState<MaintenancePlan | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  useEffect(() => {
+    const fetchData = async () => {
+      try {
+        const [plansData, equipmentTypesData] = await Promise.all([
+          maintenanceService.getAllPlans(),
+          equipmentTypeService.getAllEquipmentTypes(),
+        ]);
+
+        setPlans(plansData);
+        setEquipmentTypes(equipmentTypesData);
+      } catch (error) {
+        console.error('Error fetching maintenance plans:', error);
+        toast.error('Failed to load maintenance plans');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchData();
+  }, [refreshKey]);
+
+  const refresh = () => setRefreshKey(key => key + 1);
+
+  // Generated entries appear through the schedule subscription
+  const syncSchedule = async () => {
+    try {
+      const { created, rescheduled, cancelled } = await syncMaintenancePlans();
+      if (created + rescheduled + cancelled > 0) {
+        toast.success(`Schedule updated: ${created} added, ${rescheduled} moved, ${cancelled} cancelled`);
+      }
+    } catch (error) {
+      console.error('Error syncing maintenance plans:', error);
+      toast.error((error as Error).message || 'Failed to update the schedule from the plans');
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (formData.recurrence === 'meter' && !(parseFloat(formData.dailyUsage) > 0)) {
+      toast.error('Enter the expected usage per day');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const planData: MaintenancePlanInput = {
+        name: formData.name,
+        deviceId: formData.scope === 'device' ? formData.deviceId : null,
+        equipmentTypeId: formData.scope === 'equipmentType' ? formData.equipmentTypeId : null,
+        maintenanceType: formData.maintenanceType,
+        recurrence: formData.recurrence,
+        startDate: formData.startDate,
+        intervalDays: formData.recurrence === 'interval' ? parseInt(formData.intervalDays, 10) : null,
+        intervalMonths: formData.recurrence === 'calendar' ? parseInt(formData.intervalMonths, 10) : null,
+        meterUnit: formData.recurrence === 'meter' ? formData.meterUnit || null : null,
+        meterInterval: formData.recurrence === 'meter' ? parseFloat(formData.meterInterval) : null,
+        dailyUsage: formData.recurrence === 'meter' ? parseFloat(formData.dailyUsage) : null,
+        technicianId: formData.technicianId || null,
+        estimatedCost: formData.estimatedCost ? parseFloat(formData.estimatedCost) : null,
+        notes: formData.notes || null,
+        isActive: formData.isActive,
+      };
+
+      if (editingPlan) {
+        await maintenanceService.updatePlan(editingPlan.id, planData);
+        toast.success('Maintenance plan updated successfully');
+      } else {
+        await maintenanceService.createPlan(planData);
+        toast.success('Maintenance plan created successfully');
+      }
+
+      resetForm();
+      refresh();
+      await syncSchedule();
+    } catch (error) {
+      console.error('Error saving maintenance plan:', error);
+      toast.error((error as Error).message || 'Failed to save maintenance plan');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async (planId: string) => {
+    if (!confirm('Delete this plan? Its upcoming visits will be cancelled; completed ones are kept.')) return;
+
+    setLoading(true);
+    try {
+      await maintenanceService.deletePlan(planId);
+      toast.success('Maintenance plan deleted successfully');
+      refresh();
+      await syncSchedule();
+    } catch (error) {
+      console.error('Error deleting maintenance plan:', error);
+      toast.error((error as Error).message || 'Failed to delete maintenance plan');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const startEdit = (plan: MaintenancePlan) => {
+    setEditingPlan(plan);
+    setFormData({
+      name: plan.name,
+      scope: plan.deviceId ? 'device' : 'equipmentType',
+      deviceId: plan.deviceId || '',
+      equipmentTypeId: plan.equipmentTypeId || '',
+      maintenanceType: plan.maintenanceType,
+      recurrence: plan.recurrence,
+      startDate: plan.startDate.slice(0, 10),
+      intervalDays: plan.intervalDays?.toString() || '90',
+      intervalMonths: plan.intervalMonths?.toString() || '3',
+      meterUnit: plan.meterUnit || 'hours',
+      meterInterval: plan.meterInterval?.toString() || '',
+      dailyUsage: plan.dailyUsage?.toString() || '',
+      technicianId: plan.technicianId || '',
+      estimatedCost: plan.estimatedCost?.toString() || '',
+      notes: plan.notes || '',
+      isActive: plan.isActive,
+    });
+    setShowForm(true);
+  };
+
+  const resetForm = () => {
+    setShowForm(false);
+    setEditingPlan(null);
+    setFormData(emptyForm());
+  };
+
+  const describeScope = (plan: MaintenancePlan) => {
+    if (plan.deviceId) return devices.find(device => device.id === plan.deviceId)?.name || 'Unknown device';
+    const typeName = equipmentTypes.find(type => type.id === plan.equipmentTypeId)?.name || 'Unknown type';
+    return `Every ${typeName} (${planDevices(plan, devices).length} devices)`;
+  };
+
+  const nextDue = (plan: MaintenancePlan) =>
+    schedules
+      .filter(schedule => schedule.planId === plan.id && schedule.status === 'scheduled')
+      .map(schedule => schedule.scheduledDate)
+      .sort()[0];
+
+  if (loading && plans.length === 0) {
+    return (
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+        <div className="animate-pulse space-y-4">
+          {[...Array(3)].map((_, i) => (
+            <div key={i} className="h-16 bg-gray-200 rounded"></div>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <p className="text-sm text-gray-500">
+          Plans schedule each visit automatically, up to {PLAN_HORIZON_DAYS} days ahead, and move the next ones when a visit is completed early or late.
+        </p>
+        {canManage && (
+          <div className="flex space-x-3">
+            <button
+              onClick={syncSchedule}
+              className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-medium py-2 px-4 rounded-lg transition-colors flex items-center space-x-2"
+            >
+              <ArrowPathIcon className="h-4 w-4" />
+              <span>Update Schedule</span>
+            </button>
+            <button
+              onClick={() => setShowForm(true)}
+              className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white font-medium py-2 px-4 rounded-lg transition-all duration-200 flex items-center space-x-2"
+            >
+              <PlusIcon className="h-4 w-4" />
+              <span>Add Plan</span>
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Form */}
+      {showForm && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+          <h3 className="text-lg font-semibold text-gray-800 mb-4">
+            {editingPlan ? 'Edit Maintenance Plan' : 'Add Maintenance Plan'}
+          </h3>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Name *
+                </label>
+                <input
+                  type="text"
+                  value={formData.name}
+                  onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                  required
+                  placeholder="e.g. Ventilator PM"
+                  className={inputClass}
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Applies To
+                </label>
+                <select
+                  value={formData.scope}
+                  onChange={(e) => setFormData(prev => ({ ...prev, scope: e.target.value as 'device' | 'equipmentType' }))}
+                  className={inputClass}
+                >
+                  <option value="device">One device</option>
+                  <option value="equipmentType">Every device of an equipment type</option>
+                </select>
+              </div>
+
+              {formData.scope === 'device' ? (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Device *
+                  </label>
+                  <select
+                    value={formData.deviceId}
+                    onChange={(e) => setFormData(prev => ({ ...prev, deviceId: e.target.value }))}
+                    required
+                    className={inputClass}
+                  >
+                    <option value="">Select device</option>
+                    {devices.map(device => (
+                      <option key={device.id} value={device.id}>
+                        {device.name} {device.model && `(${device.model})`}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ) : (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Equipment Type *
+                  </label>
+                  <select
+                    value={formData.equipmentTypeId}
+                    onChange={(e) => setFormData(prev => ({ ...prev, equipmentTypeId: e.target.value }))}
+                    required
+                    className={inputClass}
+                  >
+                    <option value="">Select equipment type</option>
+                    {equipmentTypes.map(type => (
+                      <option key={type.id} value={type.id}>{type.name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Maintenance Type
+                </label>
+                <select
+                  value={formData.maintenanceType}
+                  onChange={(e) => setFormData(prev => ({ ...prev, maintenanceType: e.target.value as MaintenanceType }))}
+                  className={inputClass}
+                >
+                  <option value="preventive">Preventive</option>
+                  <option value="corrective">Corrective</option>
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Repeats
+                </label>
+                <select
+                  value={formData.recurrence}
+                  onChange={(e) => setFormData(prev => ({ ...prev, recurrence: e.target.value as PlanRecurrence }))}
+                  className={inputClass}
+                >
+                  {Object.entries(planRecurrenceLabels).map(([recurrence, label]) => (
+                    <option key={recurrence} value={recurrence}>{label}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  First Due *
+                </label>
+                <input
+                  type="date"
+                  value={formData.startDate}
+                  onChange={(e) => setFormData(prev => ({ ...prev, startDate: e.target.value }))}
+                  required
+                  className={inputClass}
+                />
+              </div>
+
+              {formData.recurrence === 'interval' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Days Between Visits *
+                  </label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={formData.intervalDays}
+                    onChange={(e) => setFormData(prev => ({ ...prev, intervalDays: e.target.value }))}
+                    required
+                    className={inputClass}
+                  />
+                </div>
+              )}
+
+              {formData.recurrence === 'calendar' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Months Between Visits *
+                  </label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={formData.intervalMonths}
+                    onChange={(e) => setFormData(prev => ({ ...prev, intervalMonths: e.target.value }))}
+                    required
+                    className={inputClass}
+                  />
+                  <p className="mt-1 text-xs text-gray-500">Visits fall on the same day of the month as the first one.</p>
+                </div>
+              )}
+
+              {formData.recurrence === 'meter' && (
+                <>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Service Every *
+                    </label>
+                    <div className="flex space-x-2">
+                      <input
+                        type="number"
+                        min="1"
+                        step="any"
+                        value={formData.meterInterval}
+                        onChange={(e) => setFormData(prev => ({ ...prev, meterInterval: e.target.value }))}
+                        required
+                        placeholder="5000"
+                        className={inputClass}
+                      />
+                      <input
+                        type="text"
+                        value={formData.meterUnit}
+                        onChange={(e) => setFormData(prev => ({ ...prev, meterUnit: e.target.value }))}
+                        placeholder="hours"
+                        className={inputClass}
+                      />
+                    </div>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Expected Usage per Day *
+                    </label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="any"
+                      value={formData.dailyUsage}
+                      onChange={(e) => setFormData(prev => ({ ...prev, dailyUsage: e.target.value }))}
+                      required
+                      placeholder="16"
+                      className={inputClass}
+                    />
+                    <p className="mt-1 text-xs text-gray-500">Used to project when the next service falls due.</p>
+                  </div>
+                </>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Assigned Technician
+                </label>
+                <select
+                  value={formData.technicianId}
+                  onChange={(e) => setFormData(prev => ({ ...prev, technicianId: e.target.value }))}
+                  className={inputClass}
+                >
+                  <option value="">Select technician</option>
+                  {technicians.map(tech => (
+                    <option key={tech.id} value={tech.id}>
+                      {tech.fullName}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Estimated Cost per Visit
+                </label>
+                <input
+                  type="number"
+                  step="0.01"
+                  value={formData.estimatedCost}
+                  onChange={(e) => setFormData(prev => ({ ...prev, estimatedCost: e.target.value }))}
+                  className={inputClass}
+                  placeholder="0.00"
+                />
+              </div>
+
+              <div className="lg:col-span-3">
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Notes
+                </label>
+                <textarea
+                  value={formData.notes}
+                  onChange={(e) => setFormData(prev => ({ ...prev, notes: e.target.value }))}
+                  rows={2}
+                  className={inputClass}
+                  placeholder="Copied onto every visit, e.g. the procedure to follow"
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center">
+              <input
+                type="checkbox"
+                id="planActive"
+                checked={formData.isActive}
+                onChange={(e) => setFormData(prev => ({ ...prev, isActive: e.target.checked }))}
+                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+              />
+              <label htmlFor="planActive" className="ml-2 block text-sm text-gray-700">
+                Active (inactive plans cancel their upcoming visits)
+              </label>
+            </div>
+
+            <div className="flex space-x-3 pt-4">
+              <button
+                type="button"
+                onClick={resetForm}
+                className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-medium py-2 px-4 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={loading}
+                className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white font-medium py-2 px-4 rounded-lg transition-all duration-200 disabled:opacity-50"
+              >
+                {loading ? 'Saving...' : editingPlan ? 'Update Plan' : 'Create Plan'}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      {/* Plans */}
+      {plans.length === 0 ? (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-8 text-center text-gray-500">
+          No maintenance plans yet.
+        </div>
+      ) : (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Plan
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Applies To
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Repeats
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Next Due
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Status
+                  </th>
+                  {canManage && (
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Actions
+                    </th>
+                  )}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {plans.map((plan) => {
+                  const due = nextDue(plan);
+                  return (
+                    <tr key={plan.id} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm font-medium text-gray-900">{plan.name}</div>
+                        <div className="text-sm text-gray-500">{plan.maintenanceType}</div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {describeScope(plan)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {describePlanRecurrence(plan)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {due ? format(new Date(due), 'MMM dd, yyyy') : '-'}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={`px-2 py-1 text-xs font-semibold rounded-full ${plan.isActive ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-700'}`}>
+                          {plan.isActive ? 'Active' : 'Inactive'}
+                        </span>
+                      </td>
+                      {canManage && (
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                          <div className="flex space-x-2">
+                            <button
+                              onClick={() => startEdit(plan)}
+                              className="text-blue-600 hover:text-blue-900 transition-colors"
+                            >
+                              <PencilIcon className="h-4 w-4" />
+                            </button>
+                            <button
+                              onClick={() => handleDelete(plan.id)}
+                              className="text-red-600 hover:text-red-900 transition-colors"
+                            >
+                              <TrashIcon className="h-4 w-4" />
+                            </button>
+                          </div>
+                        </td>
+                      )}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MaintenancePlans;
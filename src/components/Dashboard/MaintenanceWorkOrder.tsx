@@ -0,0 +1,348 @@
+import React, { useState } from 'react';
+import { PlusIcon, TrashIcon, XMarkIcon, CheckCircleIcon, XCircleIcon } from '@heroicons/react/24/outline';
+import { maintenanceService } from '../../services';
+import type { ChecklistResult, Device, MaintenanceSchedule, PartUsage, SparePart } from '../../types/models';
+import { completionBlockers, describeTolerance, failedReadings, partsTotal, readingPassed } from '../../utils/workOrders';
+import { partsForEquipmentType, stockShortages } from '../../utils/spareParts';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+
+export type WorkOrderUpdate = Pick<MaintenanceSchedule, 'checklist' | 'partsUsed' | 'labourHours'>;
+
+interface MaintenanceWorkOrderProps {
+  schedule: MaintenanceSchedule;
+  device: Device | undefined;
+  spareParts: SparePart[];
+  canManage: boolean;
+  technicianName: (technicianId: string | null) => string | undefined;
+  onComplete: (workOrder: WorkOrderUpdate) => Promise<void>;
+  onClose: () => void;
+}
+
+const emptyPart: PartUsage = { partId: null, storeRoom: null, partNumber: null, description: '', quantity: 1, unitCost: null };
+
+const parseNumber = (value: string) => (value.trim() === '' ? null : Number(value));
+
+// Checklist, parts and labour for one visit. Filled in while the visit is in
+// progress and read-only once it has been signed off.
+const MaintenanceWorkOrder: React.FC<MaintenanceWorkOrderProps> = ({
+  schedule,
+  device,
+  spareParts,
+  canManage,
+  technicianName,
+  onComplete,
+  onClose,
+}) => {
+  const editable = canManage && schedule.status === 'in_progress';
+  const [checklist, setChecklist] = useState<ChecklistResult[]>(schedule.checklist);
+  const [partsUsed, setPartsUsed] = useState<PartUsage[]>(schedule.partsUsed);
+  const [labourHours, setLabourHours] = useState(schedule.labourHours?.toString() ?? '');
+  const [saving, setSaving] = useState(false);
+
+  const workOrder: WorkOrderUpdate = {
+    checklist,
+    // Rows left without a description are dropped rather than saved blank
+    partsUsed: partsUsed.filter(part => part.description.trim() !== ''),
+    labourHours: parseNumber(labourHours),
+  };
+  const blockers = [...completionBlockers(workOrder), ...stockShortages(workOrder.partsUsed, spareParts)];
+  const failed = failedReadings(checklist);
+  const pickableParts = partsForEquipmentType(spareParts, device?.equipmentTypeId);
+  const fitsDevice = (part: SparePart) =>
+    !!device?.equipmentTypeId && part.compatibleEquipmentTypeIds.includes(device.equipmentTypeId);
+
+  const updateResult = (index: number, changes: Partial<ChecklistResult>) =>
+    setChecklist(prev => prev.map((result, i) => (i === index ? { ...result, ...changes } : result)));
+
+  const updatePart = (index: number, changes: Partial<PartUsage>) =>
+    setPartsUsed(prev => prev.map((part, i) => (i === index ? { ...part, ...changes } : part)));
+
+  // Picking a stocked part fills in its details and the store room holding the most
+  const pickPart = (index: number, partId: string) => {
+    const part = spareParts.find(candidate => candidate.id === partId);
+    if (!part) {
+      updatePart(index, { partId: null, storeRoom: null });
+      return;
+    }
+    const fullest = [...part.stockLevels].sort((a, b) => b.quantity - a.quantity)[0];
+    updatePart(index, {
+      partId: part.id,
+      storeRoom: fullest?.storeRoom ?? null,
+      partNumber: part.partNumber,
+      description: part.name,
+      unitCost: part.unitCost,
+    });
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await maintenanceService.updateSchedule(schedule.id, workOrder);
+      toast.success('Work order saved');
+    } catch (error) {
+      console.error('Error saving work order:', error);
+      toast.error((error as Error).message || 'Failed to save work order');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleComplete = async () => {
+    if (
+      failed.length > 0 &&
+      !confirm(`${failed.length} reading${failed.length === 1 ? ' is' : 's are'} out of tolerance. Sign off the visit anyway?`)
+    ) {
+      return;
+    }
+    setSaving(true);
+    try {
+      await onComplete(workOrder);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 space-y-6">
+      <div className="flex justify-between items-start">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-800">Work Order</h3>
+          <p className="text-sm text-gray-500">
+            {device?.name || 'Unknown device'} · {schedule.maintenanceType} ·{' '}
+            {format(new Date(schedule.scheduledDate), 'MMM dd, yyyy')} · {technicianName(schedule.technicianId) || 'Unassigned'}
+          </p>
+        </div>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+          <XMarkIcon className="h-5 w-5" />
+        </button>
+      </div>
+
+      {/* Checklist */}
+      <div>
+        <h4 className="text-sm font-semibold text-gray-700 mb-2">Checklist</h4>
+        {checklist.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            No checklist for this equipment type. Add one under Equipment Types.
+          </p>
+        ) : (
+          <div className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+            {checklist.map((result, index) => {
+              const passed = readingPassed(result);
+              return (
+                <div key={result.id} className="flex flex-col md:flex-row md:items-center justify-between px-4 py-3 gap-2">
+                  <div className="flex items-center space-x-3">
+                    {result.kind === 'check' ? (
+                      <input
+                        type="checkbox"
+                        checked={result.done}
+                        disabled={!editable}
+                        onChange={(e) => updateResult(index, { done: e.target.checked })}
+                        className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                      />
+                    ) : (
+                      <span className="w-4" />
+                    )}
+                    <div>
+                      <p className="text-sm text-gray-900">
+                        {result.label}
+                        {result.required && <span className="text-red-500 ml-1">*</span>}
+                      </p>
+                      {result.kind === 'reading' && (
+                        <p className="text-xs text-gray-500">Tolerance {describeTolerance(result)}</p>
+                      )}
+                    </div>
+                  </div>
+                  {result.kind === 'reading' && (
+                    <div className="flex items-center space-x-2">
+                      <input
+                        type="number"
+                        step="any"
+                        value={result.value ?? ''}
+                        disabled={!editable}
+                        onChange={(e) => updateResult(index, { value: parseNumber(e.target.value) })}
+                        className="w-28 px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm disabled:bg-gray-50"
+                      />
+                      <span className="text-sm text-gray-500 w-10">{result.unit}</span>
+                      {passed === true && (
+                        <span className="flex items-center text-xs font-semibold text-green-700">
+                          <CheckCircleIcon className="h-4 w-4 mr-1" /> Pass
+                        </span>
+                      )}
+                      {passed === false && (
+                        <span className="flex items-center text-xs font-semibold text-red-700">
+                          <XCircleIcon className="h-4 w-4 mr-1" /> Fail
+                        </span>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* Parts */}
+      <div>
+        <div className="flex justify-between items-center mb-2">
+          <h4 className="text-sm font-semibold text-gray-700">Parts Used</h4>
+          {editable && (
+            <button
+              type="button"
+              onClick={() => setPartsUsed(prev => [...prev, emptyPart])}
+              className="text-sm text-blue-600 hover:text-blue-900 flex items-center space-x-1"
+            >
+              <PlusIcon className="h-4 w-4" />
+              <span>Add Part</span>
+            </button>
+          )}
+        </div>
+        {partsUsed.length === 0 ? (
+          <p className="text-sm text-gray-500">No parts recorded</p>
+        ) : (
+          <div className="space-y-2">
+            {partsUsed.map((part, index) => (
+              <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                <select
+                  value={part.partId ?? ''}
+                  disabled={!editable}
+                  onChange={(e) => pickPart(index, e.target.value)}
+                  className="col-span-3 px-2 py-1 border border-gray-300 rounded-lg text-sm disabled:bg-gray-50"
+                >
+                  <option value="">Not from stock</option>
+                  {pickableParts.map(sparePart => (
+                    <option key={sparePart.id} value={sparePart.id}>
+                      {sparePart.name} ({sparePart.partNumber}){fitsDevice(sparePart) ? ' ✓' : ''}
+                    </option>
+                  ))}
+                </select>
+                {part.partId ? (
+                  <select
+                    value={part.storeRoom ?? ''}
+                    disabled={!editable}
+                    onChange={(e) => updatePart(index, { storeRoom: e.target.value || null })}
+                    className="col-span-5 px-2 py-1 border border-gray-300 rounded-lg text-sm disabled:bg-gray-50"
+                  >
+                    <option value="">Select store room</option>
+                    {spareParts
+                      .find(sparePart => sparePart.id === part.partId)
+                      ?.stockLevels.map(level => (
+                        <option key={level.storeRoom} value={level.storeRoom}>
+                          {level.storeRoom} ({level.quantity} in stock)
+                        </option>
+                      ))}
+                  </select>
+                ) : (
+                  <>
+                    <input
+                      type="text"
+                      placeholder="Part number"
+                      value={part.partNumber ?? ''}
+                      disabled={!editable}
+                      onChange={(e) => updatePart(index, { partNumber: e.target.value || null })}
+                      className="col-span-2 px-2 py-1 border border-gray-300 rounded-lg text-sm disabled:bg-gray-50"
+                    />
+                    <input
+                      type="text"
+                      placeholder="Description"
+                      value={part.description}
+                      disabled={!editable}
+                      onChange={(e) => updatePart(index, { description: e.target.value })}
+                      className="col-span-3 px-2 py-1 border border-gray-300 rounded-lg text-sm disabled:bg-gray-50"
+                    />
+                  </>
+                )}
+                <input
+                  type="number"
+                  min="1"
+                  value={part.quantity}
+                  disabled={!editable}
+                  onChange={(e) => updatePart(index, { quantity: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                  className="col-span-1 px-2 py-1 border border-gray-300 rounded-lg text-sm disabled:bg-gray-50"
+                />
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  placeholder="Unit cost"
+                  value={part.unitCost ?? ''}
+                  disabled={!editable}
+                  onChange={(e) => updatePart(index, { unitCost: parseNumber(e.target.value) })}
+                  className="col-span-2 px-2 py-1 border border-gray-300 rounded-lg text-sm disabled:bg-gray-50"
+                />
+                {editable && (
+                  <button
+                    type="button"
+                    onClick={() => setPartsUsed(prev => prev.filter((_, i) => i !== index))}
+                    className="col-span-1 text-red-600 hover:text-red-900 justify-self-center"
+                  >
+                    <TrashIcon className="h-4 w-4" />
+                  </button>
+                )}
+              </div>
+            ))}
+            <p className="text-sm text-gray-600 text-right">Parts total ${partsTotal(workOrder.partsUsed).toFixed(2)}</p>
+          </div>
+        )}
+      </div>
+
+      {/* Labour and sign-off */}
+      <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Labour Hours *</label>
+          <input
+            type="number"
+            min="0"
+            step="0.25"
+            value={labourHours}
+            disabled={!editable}
+            onChange={(e) => setLabourHours(e.target.value)}
+            className="w-32 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-50"
+          />
+        </div>
+        {schedule.signedOffAt && (
+          <p className="text-sm text-gray-600">
+            Signed off by {technicianName(schedule.signedOffBy) || 'unknown user'} on{' '}
+            {format(new Date(schedule.signedOffAt), 'MMM dd, yyyy HH:mm')}
+          </p>
+        )}
+      </div>
+
+      {editable && (
+        <>
+          {blockers.length > 0 && (
+            <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+              <p className="font-medium mb-1">Before this visit can be completed:</p>
+              <ul className="list-disc list-inside">
+                {blockers.map(blocker => (
+                  <li key={blocker}>{blocker}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={saving}
+              className="px-4 py-2 text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors duration-200 disabled:opacity-50"
+            >
+              Save Progress
+            </button>
+            <button
+              type="button"
+              onClick={handleComplete}
+              disabled={saving || blockers.length > 0}
+              className="px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg transition-colors duration-200 disabled:opacity-50"
+            >
+              Sign Off & Complete
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default MaintenanceWorkOrder;
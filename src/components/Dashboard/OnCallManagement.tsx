@@ -0,0 +1,620 @@
+import React, { useState, useEffect } from 'react';
+import { PlusIcon, PencilIcon, TrashIcon, ArrowUpIcon, ArrowDownIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { onCallService, profileService, requestTypeService } from '../../services';
+import type { OnCallOverride, OnCallRotation, Profile, RequestType } from '../../types/models';
+import { useAuth } from '../../contexts/AuthContext';
+import { onCallAt, upcomingHandoffs } from '../../utils/onCall';
+import { hasCapability } from '../../utils/permissions';
+import { addDays, format, startOfWeek, set } from 'date-fns';
+import toast from 'react-hot-toast';
+
+const toInputValue = (date: Date) => format(date, "yyyy-MM-dd'T'HH:mm");
+
+// New rotations hand over on Monday morning by default
+const defaultStart = () => set(startOfWeek(new Date(), { weekStartsOn: 1 }), { hours: 8, minutes: 0, seconds: 0, milliseconds: 0 });
+
+const emptyForm = () => ({
+  name: '',
+  memberIds: [] as string[],
+  startsAt: toInputValue(defaultStart()),
+  shiftDays: '7',
+  requestTypeIds: [] as string[],
+  isActive: true,
+});
+
+const emptyOverride = () => ({
+  profileId: '',
+  startsAt: toInputValue(new Date()),
+  endsAt: toInputValue(addDays(new Date(), 1)),
+  reason: '',
+});
+
+const OnCallManagement: React.FC = () => {
+  const { profile, can } = useAuth();
+  const [rotations, setRotations] = useState<OnCallRotation[]>([]);
+  const [overrides, setOverrides] = useState<OnCallOverride[]>([]);
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [requestTypes, setRequestTypes] = useState<RequestType[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [showForm, setShowForm] = useState(false);
+  const [editingRotation, setEditingRotation] = useState<OnCallRotation | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [overrideRotationId, setOverrideRotationId] = useState<string | null>(null);
+  const [overrideData, setOverrideData] = useState(emptyOverride);
+
+  const canManage = can('escalations.manage');
+
+  useEffect(() => {
+    const fetchData = async () => {
+      try {
+        const [rotationsData, overridesData, profilesData, requestTypesData] = await Promise.all([
+          onCallService.getAllRotations(),
+          onCallService.getOverrides(new Date().toISOString()),
+          profileService.getAllProfiles(),
+          requestTypeService.getAllRequestTypes(),
+        ]);
+
+        setRotations(rotationsData);
+        setOverrides(overridesData);
+        setProfiles(profilesData);
+        setRequestTypes(requestTypesData);
+      } catch (error) {
+        console.error('Error fetching on-call schedule:', error);
+        toast.error('Failed to load the on-call schedule');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchData();
+  }, [refreshKey]);
+
+  const refresh = () => setRefreshKey(key => key + 1);
+
+  // Anyone who can work requests can be put on call
+  const onCallCandidates = profiles.filter(p => hasCapability(p.role, 'requests.work'));
+
+  const profileName = (profileId: string | null) =>
+    profileId ? profiles.find(p => p.id === profileId)?.fullName || 'Unknown user' : 'Nobody';
+
+  const requestTypeName = (requestTypeId: string) =>
+    requestTypes.find(requestType => requestType.id === requestTypeId)?.name || 'Unknown type';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (formData.memberIds.length === 0) {
+      toast.error('Add at least one member to the rotation');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const rotationData = {
+        name: formData.name,
+        memberIds: formData.memberIds,
+        startsAt: new Date(formData.startsAt).toISOString(),
+        shiftDays: parseInt(formData.shiftDays, 10),
+        requestTypeIds: formData.requestTypeIds,
+        isActive: formData.isActive,
+      };
+
+      if (editingRotation) {
+        await onCallService.updateRotation(editingRotation.id, rotationData);
+        toast.success('Rotation updated successfully');
+      } else {
+        await onCallService.createRotation(rotationData);
+        toast.success('Rotation created successfully');
+      }
+
+      resetForm();
+      refresh();
+    } catch (error) {
+      console.error('Error saving rotation:', error);
+      toast.error((error as Error).message || 'Failed to save rotation');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async (rotationId: string) => {
+    if (!confirm('Delete this rotation and its overrides?')) return;
+
+    setLoading(true);
+    try {
+      await onCallService.deleteRotation(rotationId);
+      toast.success('Rotation deleted successfully');
+      refresh();
+    } catch (error) {
+      console.error('Error deleting rotation:', error);
+      toast.error((error as Error).message || 'Failed to delete rotation');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAddOverride = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!profile || !overrideRotationId) return;
+    if (new Date(overrideData.endsAt) <= new Date(overrideData.startsAt)) {
+      toast.error('The override must end after it starts');
+      return;
+    }
+
+    try {
+      await onCallService.createOverride({
+        rotationId: overrideRotationId,
+        // Technicians can only put themselves in
+        profileId: canManage ? overrideData.profileId : profile.id,
+        startsAt: new Date(overrideData.startsAt).toISOString(),
+        endsAt: new Date(overrideData.endsAt).toISOString(),
+        reason: overrideData.reason || null,
+        createdBy: profile.id,
+      });
+      toast.success('Override added');
+      setOverrideRotationId(null);
+      refresh();
+    } catch (error) {
+      console.error('Error adding override:', error);
+      toast.error((error as Error).message || 'Failed to add override');
+    }
+  };
+
+  const handleDeleteOverride = async (overrideId: string) => {
+    if (!confirm('Remove this override?')) return;
+
+    try {
+      await onCallService.deleteOverride(overrideId);
+      toast.success('Override removed');
+      refresh();
+    } catch (error) {
+      console.error('Error removing override:', error);
+      toast.error((error as Error).message || 'Failed to remove override');
+    }
+  };
+
+  const startEdit = (rotation: OnCallRotation) => {
+    setEditingRotation(rotation);
+    setFormData({
+      name: rotation.name,
+      memberIds: rotation.memberIds,
+      startsAt: toInputValue(new Date(rotation.startsAt)),
+      shiftDays: rotation.shiftDays.toString(),
+      requestTypeIds: rotation.requestTypeIds,
+      isActive: rotation.isActive,
+    });
+    setShowForm(true);
+  };
+
+  const resetForm = () => {
+    setShowForm(false);
+    setEditingRotation(null);
+    setFormData(emptyForm());
+  };
+
+  const startOverride = (rotationId: string) => {
+    setOverrideRotationId(rotationId);
+    setOverrideData({ ...emptyOverride(), profileId: canManage ? '' : profile?.id ?? '' });
+  };
+
+  const moveMember = (index: number, offset: number) => {
+    setFormData(prev => {
+      const memberIds = [...prev.memberIds];
+      [memberIds[index], memberIds[index + offset]] = [memberIds[index + offset], memberIds[index]];
+      return { ...prev, memberIds };
+    });
+  };
+
+  const toggleRequestType = (requestTypeId: string) => {
+    setFormData(prev => ({
+      ...prev,
+      requestTypeIds: prev.requestTypeIds.includes(requestTypeId)
+        ? prev.requestTypeIds.filter(id => id !== requestTypeId)
+        : [...prev.requestTypeIds, requestTypeId],
+    }));
+  };
+
+  if (loading && rotations.length === 0) {
+    return (
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <h2 className="text-2xl font-bold text-gray-900">On-Call Schedule</h2>
+          <div className="w-32 h-10 bg-gray-200 rounded animate-pulse"></div>
+        </div>
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+          <div className="animate-pulse space-y-4">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="h-24 bg-gray-200 rounded"></div>
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const now = new Date();
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">On-Call Schedule</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            Members take turns in order, handing over at the rotation's start time. Emergency requests are routed to whoever is on call.
+          </p>
+        </div>
+        {canManage && (
+          <button
+            onClick={() => setShowForm(true)}
+            className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white font-medium py-2 px-4 rounded-lg transition-all duration-200 flex items-center space-x-2"
+          >
+            <PlusIcon className="h-4 w-4" />
+            <span>Add Rotation</span>
+          </button>
+        )}
+      </div>
+
+      {/* Form */}
+      {showForm && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+          <h3 className="text-lg font-semibold text-gray-800 mb-4">
+            {editingRotation ? 'Edit Rotation' : 'Add New Rotation'}
+          </h3>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Name *
+                </label>
+                <input
+                  type="text"
+                  value={formData.name}
+                  onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                  required
+                  placeholder="e.g. Biomedical on call"
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  First Handoff *
+                </label>
+                <input
+                  type="datetime-local"
+                  value={formData.startsAt}
+                  onChange={(e) => setFormData(prev => ({ ...prev, startsAt: e.target.value }))}
+                  required
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Shift Length (days) *
+                </label>
+                <input
+                  type="number"
+                  min="1"
+                  value={formData.shiftDays}
+                  onChange={(e) => setFormData(prev => ({ ...prev, shiftDays: e.target.value }))}
+                  required
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Members, in rotation order *
+                </label>
+                <ol className="space-y-2 mb-2">
+                  {formData.memberIds.map((memberId, index) => (
+                    <li key={memberId} className="flex items-center justify-between border border-gray-200 rounded-lg px-3 py-2 text-sm">
+                      <span>{index + 1}. {profileName(memberId)}</span>
+                      <span className="flex items-center space-x-1">
+                        <button
+                          type="button"
+                          onClick={() => moveMember(index, -1)}
+                          disabled={index === 0}
+                          className="p-1 text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                        >
+                          <ArrowUpIcon className="h-4 w-4" />
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => moveMember(index, 1)}
+                          disabled={index === formData.memberIds.length - 1}
+                          className="p-1 text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                        >
+                          <ArrowDownIcon className="h-4 w-4" />
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => setFormData(prev => ({ ...prev, memberIds: prev.memberIds.filter(id => id !== memberId) }))}
+                          className="p-1 text-red-500 hover:text-red-700"
+                        >
+                          <XMarkIcon className="h-4 w-4" />
+                        </button>
+                      </span>
+                    </li>
+                  ))}
+                </ol>
+                <select
+                  value=""
+                  onChange={(e) => e.target.value && setFormData(prev => ({ ...prev, memberIds: [...prev.memberIds, e.target.value] }))}
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">Add a member...</option>
+                  {onCallCandidates
+                    .filter(candidate => !formData.memberIds.includes(candidate.id))
+                    .map(candidate => (
+                      <option key={candidate.id} value={candidate.id}>{candidate.fullName}</option>
+                    ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Routes Request Types
+                </label>
+                <div className="border border-gray-200 rounded-lg p-3 max-h-48 overflow-y-auto space-y-1">
+                  {requestTypes.map(requestType => (
+                    <label key={requestType.id} className="flex items-center space-x-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={formData.requestTypeIds.includes(requestType.id)}
+                        onChange={() => toggleRequestType(requestType.id)}
+                        className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                      />
+                      <span>{requestType.name}</span>
+                    </label>
+                  ))}
+                </div>
+                <p className="mt-1 text-xs text-gray-500">Leave all unticked to cover every request type.</p>
+              </div>
+            </div>
+
+            <div className="flex items-center">
+              <input
+                type="checkbox"
+                id="rotationActive"
+                checked={formData.isActive}
+                onChange={(e) => setFormData(prev => ({ ...prev, isActive: e.target.checked }))}
+                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+              />
+              <label htmlFor="rotationActive" className="ml-2 block text-sm text-gray-700">
+                Active
+              </label>
+            </div>
+
+            <div className="flex space-x-3 pt-4">
+              <button
+                type="button"
+                onClick={resetForm}
+                className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-medium py-2 px-4 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={loading}
+                className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white font-medium py-2 px-4 rounded-lg transition-all duration-200 disabled:opacity-50"
+              >
+                {loading ? 'Saving...' : editingRotation ? 'Update Rotation' : 'Create Rotation'}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      {/* Rotations */}
+      {rotations.length === 0 ? (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-8 text-center text-gray-500">
+          No on-call rotations yet.
+        </div>
+      ) : (
+        rotations.map((rotation) => {
+          const current = onCallAt(rotation, overrides, now);
+          const handoffs = upcomingHandoffs(rotation, overrides, now);
+          const rotationOverrides = overrides.filter(override => override.rotationId === rotation.id);
+
+          return (
+            <div key={rotation.id} className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 space-y-4">
+              <div className="flex justify-between items-start">
+                <div>
+                  <div className="flex items-center space-x-2">
+                    <h3 className="text-lg font-semibold text-gray-900">{rotation.name}</h3>
+                    <span className={`px-2 py-1 text-xs font-semibold rounded-full ${
+                      rotation.isActive ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-700'
+                    }`}>
+                      {rotation.isActive ? 'Active' : 'Inactive'}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-500 mt-1">
+                    {rotation.shiftDays === 7 ? 'Weekly' : `Every ${rotation.shiftDays} days`}, handing over{' '}
+                    {format(new Date(rotation.startsAt), 'EEEE HH:mm')}
+                    {' · '}
+                    {rotation.requestTypeIds.length === 0
+                      ? 'All request types'
+                      : rotation.requestTypeIds.map(requestTypeName).join(', ')}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2">
+                  {(canManage || can('requests.work')) && (
+                    <button
+                      onClick={() => startOverride(rotation.id)}
+                      className="text-sm text-blue-600 hover:text-blue-900"
+                    >
+                      {canManage ? 'Add Override' : 'Cover a Shift'}
+                    </button>
+                  )}
+                  {canManage && (
+                    <>
+                      <button
+                        onClick={() => startEdit(rotation)}
+                        className="text-blue-600 hover:text-blue-900 transition-colors"
+                      >
+                        <PencilIcon className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(rotation.id)}
+                        className="text-red-600 hover:text-red-900 transition-colors"
+                      >
+                        <TrashIcon className="h-4 w-4" />
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="bg-blue-50 rounded-lg p-4">
+                  <p className="text-xs font-medium text-blue-700 uppercase tracking-wider">On call now</p>
+                  <p className="text-lg font-semibold text-gray-900 mt-1">{profileName(current?.profileId ?? null)}</p>
+                  {current && (
+                    <p className="text-xs text-gray-600">
+                      until {format(current.endsAt, 'EEE MMM d, HH:mm')}
+                      {current.override && ' (override)'}
+                    </p>
+                  )}
+                </div>
+
+                <div>
+                  <p className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">Rotation order</p>
+                  <ol className="text-sm text-gray-700 space-y-1">
+                    {rotation.memberIds.map((memberId, index) => (
+                      <li key={memberId}>{index + 1}. {profileName(memberId)}</li>
+                    ))}
+                  </ol>
+                </div>
+
+                <div>
+                  <p className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">Next handoffs</p>
+                  {handoffs.length === 0 ? (
+                    <p className="text-sm text-gray-500">None scheduled</p>
+                  ) : (
+                    <ul className="text-sm text-gray-700 space-y-1">
+                      {handoffs.map((handoff) => (
+                        <li key={handoff.at.getTime()}>
+                          <span className="text-gray-500">{format(handoff.at, 'EEE MMM d, HH:mm')}</span>{' '}
+                          {profileName(handoff.fromId)} → {profileName(handoff.toId)}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              </div>
+
+              {rotationOverrides.length > 0 && (
+                <div>
+                  <p className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">Overrides</p>
+                  <ul className="divide-y divide-gray-100 border border-gray-100 rounded-lg">
+                    {rotationOverrides.map((override) => (
+                      <li key={override.id} className="flex items-center justify-between px-3 py-2 text-sm">
+                        <span>
+                          <span className="font-medium text-gray-900">{profileName(override.profileId)}</span>{' '}
+                          <span className="text-gray-600">
+                            {format(new Date(override.startsAt), 'MMM d, HH:mm')} – {format(new Date(override.endsAt), 'MMM d, HH:mm')}
+                          </span>
+                          {override.reason && <span className="text-gray-500"> · {override.reason}</span>}
+                        </span>
+                        {canManage && (
+                          <button
+                            onClick={() => handleDeleteOverride(override.id)}
+                            className="text-red-600 hover:text-red-900 transition-colors"
+                          >
+                            <TrashIcon className="h-4 w-4" />
+                          </button>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {overrideRotationId === rotation.id && (
+                <form onSubmit={handleAddOverride} className="border-t border-gray-100 pt-4 grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Covered By *
+                    </label>
+                    {canManage ? (
+                      <select
+                        value={overrideData.profileId}
+                        onChange={(e) => setOverrideData(prev => ({ ...prev, profileId: e.target.value }))}
+                        required
+                        className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      >
+                        <option value="">Select...</option>
+                        {onCallCandidates.map(candidate => (
+                          <option key={candidate.id} value={candidate.id}>{candidate.fullName}</option>
+                        ))}
+                      </select>
+                    ) : (
+                      <p className="py-2 text-sm text-gray-900">{profile?.fullName}</p>
+                    )}
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      From *
+                    </label>
+                    <input
+                      type="datetime-local"
+                      value={overrideData.startsAt}
+                      onChange={(e) => setOverrideData(prev => ({ ...prev, startsAt: e.target.value }))}
+                      required
+                      className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Until *
+                    </label>
+                    <input
+                      type="datetime-local"
+                      value={overrideData.endsAt}
+                      onChange={(e) => setOverrideData(prev => ({ ...prev, endsAt: e.target.value }))}
+                      required
+                      className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Reason
+                    </label>
+                    <input
+                      type="text"
+                      value={overrideData.reason}
+                      onChange={(e) => setOverrideData(prev => ({ ...prev, reason: e.target.value }))}
+                      placeholder="e.g. Shift swap"
+                      className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                  <div className="flex space-x-2">
+                    <button
+                      type="button"
+                      onClick={() => setOverrideRotationId(null)}
+                      className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-medium py-2 px-4 rounded-lg transition-colors"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      type="submit"
+                      className="bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded-lg transition-colors"
+                    >
+                      Save
+                    </button>
+                  </div>
+                </form>
+              )}
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+};
+
+export default OnCallManagement;
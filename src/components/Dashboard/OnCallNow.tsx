@@ -0,0 +1,91 @@
+import React, { useState, useEffect } from 'react';
+import { PhoneIcon } from '@heroicons/react/24/outline';
+import { onCallService } from '../../services';
+import { useNow } from '../../hooks/useNow';
+import type { OnCallOverride, OnCallRotation, Profile } from '../../types/models';
+import { findOnCall } from '../../utils/onCall';
+import { format } from 'date-fns';
+
+interface OnCallNowProps {
+  profiles: Profile[];
+  onManage?: () => void;
+}
+
+// Overrides added elsewhere show up without reloading
+const REFRESH_INTERVAL_MS = 5 * 60 * 1000;
+
+// "Who is on call now" card for the operations overview
+const OnCallNow: React.FC<OnCallNowProps> = ({ profiles, onManage }) => {
+  const [rotations, setRotations] = useState<OnCallRotation[]>([]);
+  const [overrides, setOverrides] = useState<OnCallOverride[]>([]);
+  const now = useNow();
+
+  useEffect(() => {
+    const fetchSchedule = async () => {
+      try {
+        const [rotationsData, overridesData] = await Promise.all([
+          onCallService.getAllRotations(),
+          onCallService.getOverrides(new Date().toISOString()),
+        ]);
+        setRotations(rotationsData);
+        setOverrides(overridesData);
+      } catch (error) {
+        console.error('Error fetching on-call schedule:', error);
+      }
+    };
+
+    fetchSchedule();
+    const timer = window.setInterval(fetchSchedule, REFRESH_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  const shifts = findOnCall(rotations, overrides, now);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100">
+      <div className="p-6 border-b border-gray-100 flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-gray-800">Who's On Call Now</h3>
+        {onManage && (
+          <button onClick={onManage} className="text-sm text-blue-600 hover:text-blue-900">
+            View schedule
+          </button>
+        )}
+      </div>
+      {shifts.length === 0 ? (
+        <p className="p-6 text-center text-gray-500">
+          Nobody is on call. Emergency requests are sent to all IT staff.
+        </p>
+      ) : (
+        <div className="divide-y divide-gray-100">
+          {shifts.map((shift) => {
+            const person = profiles.find(p => p.id === shift.profileId);
+            return (
+              <div key={shift.rotation.id} className="px-6 py-4 flex items-center justify-between">
+                <div>
+                  <p className="text-sm text-gray-500">{shift.rotation.name}</p>
+                  <div className="flex items-center space-x-2">
+                    <p className="font-medium text-gray-900">{person?.fullName || 'Unknown user'}</p>
+                    {shift.override && (
+                      <span className="px-2 py-1 text-xs rounded-full bg-yellow-100 text-yellow-700">Covering</span>
+                    )}
+                  </div>
+                  {person && (
+                    <p className="text-sm text-gray-600 flex items-center space-x-1">
+                      <PhoneIcon className="h-4 w-4" />
+                      <span>{person.phone || person.email}</span>
+                    </p>
+                  )}
+                </div>
+                <span className="text-sm text-gray-500">
+                  until {format(shift.endsAt, 'EEE MMM d, HH:mm')}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OnCallNow;
@@ -0,0 +1,248 @@
+import React, { useState, useEffect } from 'react';
+import { ArrowPathIcon, ArrowDownTrayIcon } from '@heroicons/react/24/outline';
+import { localMailbox, outboxService, profileService } from '../../services';
+import type { SentMessage } from '../../services/messageTransports';
+import type { OutboxMessage, Profile } from '../../types/models';
+import { OUTBOX_LIMIT, deliveryChannelLabels, messageTemplateDefinitions, outboxStatusColors } from '../../utils/outbox';
+import { roleLabels } from '../../utils/permissions';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+
+// Queued email/SMS and, with the local transport, the mailbox they were delivered to
+const OutboxViewer: React.FC = () => {
+  const [messages, setMessages] = useState<OutboxMessage[]>([]);
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [sentMessages, setSentMessages] = useState<SentMessage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  useEffect(() => {
+    profileService.getAllProfiles()
+      .then(setProfiles)
+      .catch((error) => console.error('Error fetching profiles:', error));
+  }, []);
+
+  useEffect(() => {
+    const fetchMessages = async () => {
+      setLoading(true);
+      try {
+        setMessages(await outboxService.getMessages());
+        setSentMessages(localMailbox?.getSentMessages() ?? []);
+      } catch (error) {
+        console.error('Error fetching outbox:', error);
+        toast.error((error as Error).message || 'Failed to load the outbox');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchMessages();
+  }, [refreshKey]);
+
+  const refresh = () => setRefreshKey(key => key + 1);
+
+  const recipientsLabel = (message: OutboxMessage) =>
+    message.recipientId
+      ? profiles.find(profile => profile.id === message.recipientId)?.fullName || 'Unknown user'
+      : message.recipientRoles.map(role => roleLabels[role]).join(', ');
+
+  // Failed messages get a fresh set of attempts; pending ones are simply due now
+  const handleRetry = async (message: OutboxMessage) => {
+    try {
+      await outboxService.updateMessage(message.id, {
+        status: 'pending',
+        nextAttemptAt: new Date().toISOString(),
+        ...(message.status === 'failed' ? { attempts: 0 } : {}),
+      });
+      toast.success('Message will be sent on the next dispatch');
+      refresh();
+    } catch (error) {
+      console.error('Error retrying message:', error);
+      toast.error((error as Error).message || 'Failed to retry message');
+    }
+  };
+
+  const handleDownload = () => {
+    if (!localMailbox) return;
+    const url = URL.createObjectURL(new Blob([localMailbox.exportText()], { type: 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `mailbox-${format(new Date(), 'yyyy-MM-dd-HHmm')}.txt`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleClearMailbox = () => {
+    if (!localMailbox || !window.confirm('Clear the local mailbox?')) return;
+    localMailbox.clear();
+    setSentMessages([]);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-start">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Messages</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            Email and SMS waiting in the outbox, newest first. Failed deliveries are retried with increasing delays.
+          </p>
+        </div>
+        <button
+          onClick={refresh}
+          className="flex items-center space-x-2 bg-gray-200 hover:bg-gray-300 text-gray-800 font-medium py-2 px-4 rounded-lg transition-colors"
+        >
+          <ArrowPathIcon className="h-5 w-5" />
+          <span>Refresh</span>
+        </button>
+      </div>
+
+      {/* Outbox */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        {loading ? (
+          <div className="p-6 animate-pulse space-y-4">
+            {[...Array(5)].map((_, i) => (
+              <div key={i} className="h-12 bg-gray-200 rounded"></div>
+            ))}
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Queued
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Message
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Recipients
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Status
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {messages.length === 0 ? (
+                  <tr>
+                    <td colSpan={5} className="px-6 py-8 text-center text-gray-500">
+                      No messages have been queued yet.
+                    </td>
+                  </tr>
+                ) : (
+                  messages.map((message) => (
+                    <tr key={message.id} className="hover:bg-gray-50 align-top">
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                        {message.createdAt ? format(new Date(message.createdAt), 'PPP p') : '-'}
+                      </td>
+                      <td className="px-6 py-4 text-sm">
+                        <p className="font-medium text-gray-900">{messageTemplateDefinitions[message.template].label}</p>
+                        <p className="text-xs text-gray-500">{message.variables.title || message.variables.description}</p>
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-900">
+                        {recipientsLabel(message)}
+                        {message.deliveredTo.length > 0 && (
+                          <p className="text-xs text-gray-500">{message.deliveredTo.length} delivered</p>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-sm">
+                        <span className={`px-2 py-1 text-xs font-semibold rounded-full ${outboxStatusColors[message.status]}`}>
+                          {message.status}
+                        </span>
+                        {message.attempts > 0 && (
+                          <p className="text-xs text-gray-500 mt-1">
+                            {message.attempts} failed attempt{message.attempts === 1 ? '' : 's'}
+                          </p>
+                        )}
+                        {message.status === 'pending' && (
+                          <p className="text-xs text-gray-500 mt-1">Next try {format(new Date(message.nextAttemptAt), 'PPP p')}</p>
+                        )}
+                        {message.sentAt && (
+                          <p className="text-xs text-gray-500 mt-1">Sent {format(new Date(message.sentAt), 'PPP p')}</p>
+                        )}
+                        {message.lastError && message.status !== 'sent' && (
+                          <p className="text-xs text-red-600 mt-1">{message.lastError}</p>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        {(message.status === 'failed' || message.status === 'pending') && (
+                          <button
+                            onClick={() => handleRetry(message)}
+                            className="text-blue-600 hover:text-blue-900"
+                          >
+                            Retry now
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        )}
+        {!loading && messages.length === OUTBOX_LIMIT && (
+          <div className="px-6 py-3 border-t border-gray-200 text-sm text-gray-500">
+            Showing the latest {OUTBOX_LIMIT} messages.
+          </div>
+        )}
+      </div>
+
+      {/* Local mailbox */}
+      {localMailbox && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+          <div className="flex justify-between items-start mb-4">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">Local Mailbox</h3>
+              <p className="text-sm text-gray-500 mt-1">
+                No mail relay is configured, so delivered messages are kept in this browser instead.
+              </p>
+            </div>
+            <div className="flex space-x-2">
+              <button
+                onClick={handleDownload}
+                disabled={sentMessages.length === 0}
+                className="flex items-center space-x-2 bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded-lg transition-colors disabled:opacity-50"
+              >
+                <ArrowDownTrayIcon className="h-5 w-5" />
+                <span>Download</span>
+              </button>
+              <button
+                onClick={handleClearMailbox}
+                disabled={sentMessages.length === 0}
+                className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-medium py-2 px-4 rounded-lg transition-colors disabled:opacity-50"
+              >
+                Clear
+              </button>
+            </div>
+          </div>
+
+          {sentMessages.length === 0 ? (
+            <p className="text-sm text-gray-500">Nothing has been delivered yet.</p>
+          ) : (
+            <ul className="divide-y divide-gray-100 max-h-96 overflow-y-auto">
+              {sentMessages.map((message, index) => (
+                <li key={`${message.sentAt}-${index}`} className="py-3">
+                  <div className="flex justify-between text-xs text-gray-500">
+                    <span>{deliveryChannelLabels[message.channel]} to {message.to}</span>
+                    <span>{format(new Date(message.sentAt), 'PPP p')}</span>
+                  </div>
+                  {message.channel === 'email' && (
+                    <p className="text-sm font-medium text-gray-900 mt-1">{message.subject}</p>
+                  )}
+                  <p className="text-sm text-gray-600 whitespace-pre-line mt-1">{message.body}</p>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OutboxViewer;
@@ -1,53 +1,66 @@
 import React, { useState, useEffect } from 'react';
 import { 
   EyeIcon, 
-  PencilIcon, 
   CheckCircleIcon, 
   XCircleIcon,
   ClockIcon,
-  PlayCircleIcon
+  PlayCircleIcon,
+  UserIcon
 } from '@heroicons/react/24/outline';
-import { supabase } from '../../lib/supabase';
+import { requestService, requestTypeService, profileService } from '../../services';
+import { newItemHighlight, useLiveCollection } from '../../hooks/useLiveCollection';
+import { useNow } from '../../hooks/useNow';
+import { useAuth } from '../../contexts/AuthContext';
+import type { AssignmentMethod, Profile, Request, RequestStatus, RequestType } from '../../types/models';
+import { assignmentMethodLabels, bestSkillMatch, getTechnicians, getWorkload, isOpenRequest, nextRoundRobin } from '../../utils/assignment';
+import { describeSlaClock, getResolutionClock, getResponseClock, isSlaBreached, slaStateColors, SlaClock } from '../../utils/sla';
+import SlaBadge from './SlaBadge';
+import RequestTimeline from './RequestTimeline';
+import AttachmentList from './AttachmentList';
 import { format } from 'date-fns';
 import toast from 'react-hot-toast';
 
-interface Request {
-  id: string;
-  title: string;
-  description: string;
-  priority: string;
-  status: 'pending' | 'in_progress' | 'completed' | 'rejected';
-  created_at: string;
-  updated_at: string;
-  resolution_notes: string | null;
-  profiles: { full_name: string; email: string };
-  request_types: { name: string };
+interface RequestManagementProps {
+  // The signed-in technician's own queue instead of every request
+  queue?: boolean;
 }
 
-const RequestManagement: React.FC = () => {
-  const [requests, setRequests] = useState<Request[]>([]);
+const emptyAssignment = { toAssigneeId: '', method: 'manual' as AssignmentMethod, reason: '' };
+
+const RequestManagement: React.FC<RequestManagementProps> = ({ queue = false }) => {
+  const { profile, can } = useAuth();
+  // Technicians and admins work requests; department heads can only sign them off or turn them down
+  const canWork = can('requests.work');
+  const canApprove = can('requests.approve');
+  const canAssign = can('requests.assign');
+  const { items: requests, loading: requestsLoading, isNew } = useLiveCollection(
+    requestService.subscribeToRequests,
+    { errorMessage: 'Failed to load requests' }
+  );
+  const [requestTypes, setRequestTypes] = useState<RequestType[]>([]);
+  const [profiles, setProfiles] = useState<Profile[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedRequest, setSelectedRequest] = useState<Request | null>(null);
-  const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [statusFilter, setStatusFilter] = useState<string>(queue ? 'open' : 'all');
+  const [assigneeFilter, setAssigneeFilter] = useState<string>('all');
   const [resolutionNotes, setResolutionNotes] = useState('');
+  const [assignment, setAssignment] = useState(emptyAssignment);
+  const now = useNow();
 
   useEffect(() => {
-    fetchRequests();
+    fetchLookups();
   }, []);
 
-  const fetchRequests = async () => {
+  // Requests themselves arrive through the live subscription
+  const fetchLookups = async () => {
     try {
-      const { data, error } = await supabase
-        .from('requests')
-        .select(`
-          *,
-          profiles(full_name, email),
-          request_types(name)
-        `)
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-      if (data) setRequests(data);
+      const [requestTypesData, profilesData] = await Promise.all([
+        requestTypeService.getAllRequestTypes(),
+        profileService.getAllProfiles(),
+      ]);
+
+      setRequestTypes(requestTypesData);
+      setProfiles(profilesData);
     } catch (error) {
       console.error('Error fetching requests:', error);
       toast.error('Failed to load requests');
@@ -56,28 +69,21 @@ const RequestManagement: React.FC = () => {
     }
   };
 
-  const updateRequestStatus = async (requestId: string, newStatus: string) => {
+  const updateRequestStatus = async (requestId: string, newStatus: RequestStatus) => {
     setLoading(true);
     try {
-      const updateData: any = {
+      const updateData: Partial<Request> = {
         status: newStatus,
-        updated_at: new Date().toISOString(),
       };
 
       if (newStatus === 'completed' && resolutionNotes) {
-        updateData.resolution_notes = resolutionNotes;
-        updateData.completed_at = new Date().toISOString();
+        updateData.resolutionNotes = resolutionNotes;
+        updateData.completedAt = new Date().toISOString();
       }
 
-      const { error } = await supabase
-        .from('requests')
-        .update(updateData)
-        .eq('id', requestId);
-
-      if (error) throw error;
+      await requestService.updateRequest(requestId, updateData);
 
       toast.success('Request status updated successfully');
-      fetchRequests();
       setSelectedRequest(null);
       setResolutionNotes('');
     } catch (error: any) {
@@ -88,6 +94,83 @@ const RequestManagement: React.FC = () => {
     }
   };
 
+  const openRequest = (request: Request) => {
+    setSelectedRequest(request);
+    setResolutionNotes('');
+    setAssignment(emptyAssignment);
+  };
+
+  const closeRequest = () => {
+    setSelectedRequest(null);
+    setResolutionNotes('');
+    setAssignment(emptyAssignment);
+  };
+
+  const technicians = getTechnicians(profiles);
+  const workload = getWorkload(requests);
+
+  const suggestAssignee = async (method: AssignmentMethod) => {
+    if (!selectedRequest) return;
+
+    try {
+      const suggested = method === 'round_robin'
+        ? nextRoundRobin(technicians, await requestService.getAssignmentHistory())
+        : bestSkillMatch(technicians, selectedRequest, workload);
+      if (!suggested) {
+        toast.error('There are no technicians to assign');
+        return;
+      }
+      setAssignment(prev => ({ ...prev, toAssigneeId: suggested.id, method }));
+    } catch (error) {
+      console.error('Error suggesting assignee:', error);
+      toast.error((error as Error).message || 'Failed to suggest a technician');
+    }
+  };
+
+  const assignRequest = async (toAssigneeId: string, method: AssignmentMethod, reason: string) => {
+    if (!profile || !selectedRequest) return;
+
+    setLoading(true);
+    try {
+      await requestService.assignRequest(selectedRequest.id, {
+        toAssigneeId,
+        method,
+        reason: reason.trim() || null,
+        assignedBy: profile.id,
+      });
+      toast.success(`Assigned to ${getRequester(toAssigneeId)?.fullName || 'technician'}`);
+      setSelectedRequest({ ...selectedRequest, assignedAdminId: toAssigneeId });
+      setAssignment(emptyAssignment);
+    } catch (error) {
+      console.error('Error assigning request:', error);
+      toast.error((error as Error).message || 'Failed to assign request');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const approveRequest = async (requestId: string) => {
+    if (!profile) return;
+
+    setLoading(true);
+    try {
+      await requestService.updateRequest(requestId, {
+        approvedBy: profile.id,
+        approvedAt: new Date().toISOString(),
+      });
+      toast.success('Request approved');
+      setSelectedRequest(null);
+    } catch (error) {
+      console.error('Error approving request:', error);
+      toast.error((error as Error).message || 'Failed to approve request');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const awaitingApproval = (request: Request) =>
+    canApprove && request.status === 'pending' && !request.approvedBy;
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'pending':
@@ -133,14 +216,67 @@ const RequestManagement: React.FC = () => {
     }
   };
 
-  const filteredRequests = requests.filter(request => 
-    statusFilter === 'all' || request.status === statusFilter
+  const getRequester = (userId: string) => profiles.find(profile => profile.id === userId);
+
+  const getRequestTypeName = (request: Request) =>
+    requestTypes.find(type => type.id === request.requestTypeId)?.name || request.requestType || 'General Request';
+
+  const formatCreatedAt = (request: Request, pattern: string) =>
+    request.createdAt ? format(new Date(request.createdAt), pattern) : 'N/A';
+
+  const getProfileName = (profileId: string | null) =>
+    profileId ? getRequester(profileId)?.fullName || 'Unknown' : 'Unassigned';
+
+  const matchesStatus = (request: Request) => {
+    switch (statusFilter) {
+      case 'all':
+        return true;
+      case 'open':
+        return isOpenRequest(request);
+      case 'sla_breached':
+        return isSlaBreached(request, now);
+      default:
+        return request.status === statusFilter;
+    }
+  };
+
+  const matchesAssignee = (request: Request) => {
+    const filter = queue ? 'mine' : assigneeFilter;
+    if (filter === 'mine') return !!profile && request.assignedAdminId === profile.id;
+    if (filter === 'unassigned') return !request.assignedAdminId;
+    return true;
+  };
+
+  // The queue is worked in order of the resolution deadline; undated requests go last
+  const byResolutionDue = (a: Request, b: Request) =>
+    (a.resolutionDueAt ?? '\uffff').localeCompare(b.resolutionDueAt ?? '\uffff');
+
+  const filteredRequests = requests.filter(request => matchesStatus(request) && matchesAssignee(request));
+  if (queue) filteredRequests.sort(byResolutionDue);
+
+  // Taking a request away from someone needs a reason for the history
+  const reassigning = !!selectedRequest?.assignedAdminId;
+
+  const renderSlaTarget = (label: string, clock: SlaClock) => (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+      {clock.dueAt ? (
+        <div className="space-y-1">
+          <p className="text-gray-900">{format(new Date(clock.dueAt), 'PPP p')}</p>
+          <span className={`px-2 py-1 text-xs rounded-full ${slaStateColors[clock.state]}`}>
+            {describeSlaClock(clock)}
+          </span>
+        </div>
+      ) : (
+        <p className="text-gray-500">No target</p>
+      )}
+    </div>
   );
 
-  if (loading && requests.length === 0) {
+  if ((loading || requestsLoading) && requests.length === 0) {
     return (
       <div className="space-y-6">
-        <h2 className="text-2xl font-bold text-gray-900">Request Management</h2>
+        <h2 className="text-2xl font-bold text-gray-900">{queue ? 'My Queue' : 'Request Management'}</h2>
         <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
           <div className="animate-pulse space-y-4">
             {[...Array(5)].map((_, i) => (
@@ -155,21 +291,55 @@ const RequestManagement: React.FC = () => {
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-center">
-        <h2 className="text-2xl font-bold text-gray-900">Request Management</h2>
+        <h2 className="text-2xl font-bold text-gray-900">{queue ? 'My Queue' : 'Request Management'}</h2>
         
-        <select
-          value={statusFilter}
-          onChange={(e) => setStatusFilter(e.target.value)}
-          className="border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-        >
-          <option value="all">All Requests</option>
-          <option value="pending">Pending</option>
-          <option value="in_progress">In Progress</option>
-          <option value="completed">Completed</option>
-          <option value="rejected">Rejected</option>
-        </select>
+        <div className="flex space-x-3">
+          {canWork && !queue && (
+            <select
+              value={assigneeFilter}
+              onChange={(e) => setAssigneeFilter(e.target.value)}
+              className="border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="all">Anyone</option>
+              <option value="mine">Assigned to me</option>
+              <option value="unassigned">Unassigned</option>
+            </select>
+          )}
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value)}
+            className="border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="all">All Requests</option>
+            <option value="open">Open</option>
+            <option value="pending">Pending</option>
+            <option value="in_progress">In Progress</option>
+            <option value="completed">Completed</option>
+            <option value="rejected">Rejected</option>
+            <option value="sla_breached">SLA Breached</option>
+          </select>
+        </div>
       </div>
 
+      {/* Technician Workload */}
+      {canAssign && technicians.length > 0 && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-4">
+          <h3 className="text-sm font-medium text-gray-700 mb-3">Technician Workload (open requests)</h3>
+          <div className="flex flex-wrap gap-2">
+            {technicians.map(technician => (
+              <span
+                key={technician.id}
+                className={`px-3 py-1 text-sm rounded-full ${
+                  technician.id === profile?.id ? 'bg-blue-100 text-blue-700' : 'bg-gray-100 text-gray-700'
+                }`}
+              >
+                {technician.fullName}: <span className="font-semibold">{workload.get(technician.id) ?? 0}</span>
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Requests List */}
       <div className="bg-white rounded-xl shadow-sm border border-gray-100">
         <div className="divide-y divide-gray-100">
@@ -177,12 +347,21 @@ const RequestManagement: React.FC = () => {
             <div className="p-6 text-center">
               <ClockIcon className="mx-auto h-12 w-12 text-gray-400 mb-4" />
               <p className="text-gray-500">
-                {statusFilter === 'all' ? 'No requests found' : `No ${statusFilter} requests`}
+                {queue && statusFilter === 'open'
+                  ? 'Nothing in your queue'
+                  : statusFilter === 'all'
+                  ? 'No requests found'
+                  : statusFilter === 'sla_breached'
+                    ? 'No requests have breached their SLA'
+                    : `No ${statusFilter} requests`}
               </p>
             </div>
           ) : (
             filteredRequests.map((request) => (
-              <div key={request.id} className="p-6 hover:bg-gray-50 transition-colors duration-200">
+              <div
+                key={request.id}
+                className={`p-6 hover:bg-gray-50 transition-colors duration-200 ${isNew(request.id) ? newItemHighlight : ''}`}
+              >
                 <div className="flex items-start justify-between">
                   <div className="flex-1">
                     <div className="flex items-center space-x-3 mb-2">
@@ -194,34 +373,45 @@ const RequestManagement: React.FC = () => {
                       <span className={`px-2 py-1 text-xs rounded-full ${getPriorityColor(request.priority)}`}>
                         {request.priority}
                       </span>
+                      {request.approvedBy && (
+                        <span className="px-2 py-1 text-xs rounded-full bg-green-100 text-green-700">approved</span>
+                      )}
+                      <SlaBadge request={request} now={now} />
+                      {isNew(request.id) && (
+                        <span className="px-2 py-1 text-xs font-semibold rounded-full bg-blue-600 text-white">New</span>
+                      )}
                     </div>
                     
                     <p className="text-gray-600 mb-3">{request.description.substring(0, 200)}...</p>
                     
                     <div className="flex items-center space-x-4 text-sm text-gray-500">
-                      <span>By: {request.profiles.full_name}</span>
-                      <span>Type: {request.request_types.name}</span>
-                      <span>Created: {format(new Date(request.created_at), 'MMM dd, yyyy')}</span>
+                      <span>By: {getRequester(request.userId)?.fullName || 'Unknown'}</span>
+                      <span>Type: {getRequestTypeName(request)}</span>
+                      <span>Created: {formatCreatedAt(request, 'MMM dd, yyyy')}</span>
+                      <span className="flex items-center">
+                        <UserIcon className="h-4 w-4 mr-1" />
+                        {getProfileName(request.assignedAdminId)}
+                      </span>
                     </div>
                     
-                    {request.resolution_notes && (
+                    {request.resolutionNotes && (
                       <div className="mt-3 p-3 bg-green-50 rounded-lg">
                         <p className="text-sm font-medium text-green-800">Resolution Notes:</p>
-                        <p className="text-sm text-green-700">{request.resolution_notes}</p>
+                        <p className="text-sm text-green-700">{request.resolutionNotes}</p>
                       </div>
                     )}
                   </div>
                   
                   <div className="ml-4 flex space-x-2">
                     <button
-                      onClick={() => setSelectedRequest(request)}
+                      onClick={() => openRequest(request)}
                       className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
                       title="View Details"
                     >
                       <EyeIcon className="h-4 w-4" />
                     </button>
                     
-                    {request.status === 'pending' && (
+                    {canWork && request.status === 'pending' && (
                       <>
                         <button
                           onClick={() => updateRequestStatus(request.id, 'in_progress')}
@@ -240,12 +430,28 @@ const RequestManagement: React.FC = () => {
                       </>
                     )}
                     
-                    {request.status === 'in_progress' && (
+                    {!canWork && awaitingApproval(request) && (
+                      <>
+                        <button
+                          onClick={() => approveRequest(request.id)}
+                          className="p-2 text-green-600 hover:bg-green-50 rounded-lg transition-colors"
+                          title="Approve"
+                        >
+                          <CheckCircleIcon className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => updateRequestStatus(request.id, 'rejected')}
+                          className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                          title="Reject"
+                        >
+                          <XCircleIcon className="h-4 w-4" />
+                        </button>
+                      </>
+                    )}
+
+                    {canWork && request.status === 'in_progress' && (
                       <button
-                        onClick={() => {
-                          setSelectedRequest(request);
-                          setResolutionNotes('');
-                        }}
+                        onClick={() => openRequest(request)}
                         className="p-2 text-green-600 hover:bg-green-50 rounded-lg transition-colors"
                         title="Complete"
                       >
@@ -268,10 +474,7 @@ const RequestManagement: React.FC = () => {
               <div className="flex justify-between items-start mb-6">
                 <h3 className="text-xl font-semibold text-gray-900">Request Details</h3>
                 <button
-                  onClick={() => {
-                    setSelectedRequest(null);
-                    setResolutionNotes('');
-                  }}
+                  onClick={closeRequest}
                   className="text-gray-400 hover:text-gray-600"
                 >
                   <XCircleIcon className="h-6 w-6" />
@@ -306,20 +509,120 @@ const RequestManagement: React.FC = () => {
 
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">Requested by</label>
-                  <p className="text-gray-900">{selectedRequest.profiles.full_name} ({selectedRequest.profiles.email})</p>
+                  <p className="text-gray-900">
+                    {getRequester(selectedRequest.userId)?.fullName || 'Unknown'}
+                    {getRequester(selectedRequest.userId)?.email && ` (${getRequester(selectedRequest.userId)?.email})`}
+                  </p>
                 </div>
 
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">Request Type</label>
-                  <p className="text-gray-900">{selectedRequest.request_types.name}</p>
+                  <p className="text-gray-900">{getRequestTypeName(selectedRequest)}</p>
                 </div>
 
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">Created</label>
-                  <p className="text-gray-900">{format(new Date(selectedRequest.created_at), 'PPP pp')}</p>
+                  <p className="text-gray-900">{formatCreatedAt(selectedRequest, 'PPP pp')}</p>
                 </div>
 
-                {selectedRequest.status === 'in_progress' && (
+                <div className="grid grid-cols-2 gap-4">
+                  {renderSlaTarget('Response Target', getResponseClock(selectedRequest, now))}
+                  {renderSlaTarget('Resolution Target', getResolutionClock(selectedRequest, now))}
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Department Approval</label>
+                  <p className="text-gray-900">
+                    {selectedRequest.approvedBy
+                      ? `Approved by ${getRequester(selectedRequest.approvedBy)?.fullName || 'Unknown'}${
+                          selectedRequest.approvedAt ? ` on ${format(new Date(selectedRequest.approvedAt), 'PPP')}` : ''
+                        }`
+                      : 'Not approved yet'}
+                  </p>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Assigned To</label>
+                  <p className="text-gray-900">{getProfileName(selectedRequest.assignedAdminId)}</p>
+
+                  {canAssign && isOpenRequest(selectedRequest) && (
+                    <div className="mt-3 p-4 bg-gray-50 rounded-lg space-y-3">
+                      <div className="flex space-x-2">
+                        <select
+                          value={assignment.toAssigneeId}
+                          onChange={(e) => setAssignment(prev => ({ ...prev, toAssigneeId: e.target.value, method: 'manual' }))}
+                          className="flex-1 border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        >
+                          <option value="">Select technician</option>
+                          {technicians.map(technician => (
+                            <option key={technician.id} value={technician.id}>
+                              {technician.fullName} ({workload.get(technician.id) ?? 0} open)
+                            </option>
+                          ))}
+                        </select>
+                        <button
+                          type="button"
+                          onClick={() => suggestAssignee('round_robin')}
+                          className="bg-gray-200 hover:bg-gray-300 text-gray-800 text-sm px-3 py-2 rounded-lg transition-colors"
+                        >
+                          Round-robin
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => suggestAssignee('skill')}
+                          className="bg-gray-200 hover:bg-gray-300 text-gray-800 text-sm px-3 py-2 rounded-lg transition-colors"
+                        >
+                          Best Match
+                        </button>
+                      </div>
+                      {reassigning && (
+                        <input
+                          type="text"
+                          value={assignment.reason}
+                          onChange={(e) => setAssignment(prev => ({ ...prev, reason: e.target.value }))}
+                          className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                          placeholder="Reason for reassigning (required)"
+                        />
+                      )}
+                      <button
+                        onClick={() => assignRequest(assignment.toAssigneeId, assignment.method, assignment.reason)}
+                        disabled={
+                          loading ||
+                          !assignment.toAssigneeId ||
+                          assignment.toAssigneeId === selectedRequest.assignedAdminId ||
+                          (reassigning && !assignment.reason.trim())
+                        }
+                        className="bg-blue-600 hover:bg-blue-700 text-white text-sm px-4 py-2 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {reassigning ? 'Reassign' : 'Assign'}
+                        {assignment.method !== 'manual' && ` (${assignmentMethodLabels[assignment.method]})`}
+                      </button>
+                    </div>
+                  )}
+
+                  {!canAssign && canWork && isOpenRequest(selectedRequest) && selectedRequest.assignedAdminId !== profile?.id && (
+                    <div className="mt-3 flex space-x-2">
+                      {reassigning && (
+                        <input
+                          type="text"
+                          value={assignment.reason}
+                          onChange={(e) => setAssignment(prev => ({ ...prev, reason: e.target.value }))}
+                          className="flex-1 border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                          placeholder="Reason for taking this over (required)"
+                        />
+                      )}
+                      <button
+                        onClick={() => profile && assignRequest(profile.id, 'manual', assignment.reason)}
+                        disabled={loading || (reassigning && !assignment.reason.trim())}
+                        className="bg-blue-600 hover:bg-blue-700 text-white text-sm px-4 py-2 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        Assign to Me
+                      </button>
+                    </div>
+                  )}
+                </div>
+
+                {canWork && selectedRequest.status === 'in_progress' && (
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-1">
                       Resolution Notes (Required to complete)
@@ -334,16 +637,41 @@ const RequestManagement: React.FC = () => {
                   </div>
                 )}
 
-                {selectedRequest.resolution_notes && (
+                {selectedRequest.resolutionNotes && (
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-1">Resolution Notes</label>
-                    <p className="text-gray-900 whitespace-pre-wrap">{selectedRequest.resolution_notes}</p>
+                    <p className="text-gray-900 whitespace-pre-wrap">{selectedRequest.resolutionNotes}</p>
                   </div>
                 )}
+
+                <div className="pt-4 border-t border-gray-200">
+                  <AttachmentList ownerType="request" ownerId={selectedRequest.id} deviceId={selectedRequest.deviceId} canUpload />
+                </div>
+
+                <div className="pt-4 border-t border-gray-200">
+                  <RequestTimeline requestId={selectedRequest.id} profiles={profiles} />
+                </div>
               </div>
 
               <div className="flex justify-end space-x-3 mt-6 pt-6 border-t border-gray-200">
-                {selectedRequest.status === 'pending' && (
+                {!canWork && awaitingApproval(selectedRequest) && (
+                  <>
+                    <button
+                      onClick={() => approveRequest(selectedRequest.id)}
+                      className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg transition-colors"
+                    >
+                      Approve
+                    </button>
+                    <button
+                      onClick={() => updateRequestStatus(selectedRequest.id, 'rejected')}
+                      className="bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded-lg transition-colors"
+                    >
+                      Reject
+                    </button>
+                  </>
+                )}
+
+                {canWork && selectedRequest.status === 'pending' && (
                   <>
                     <button
                       onClick={() => updateRequestStatus(selectedRequest.id, 'in_progress')}
@@ -360,7 +688,7 @@ const RequestManagement: React.FC = () => {
                   </>
                 )}
                 
-                {selectedRequest.status === 'in_progress' && (
+                {canWork && selectedRequest.status === 'in_progress' && (
                   <button
                     onClick={() => updateRequestStatus(selectedRequest.id, 'completed')}
                     disabled={!resolutionNotes.trim()}
@@ -1,28 +1,27 @@
 import React, { useState, useEffect } from 'react';
 import { Dialog, Transition } from '@headlessui/react';
 import { XMarkIcon } from '@heroicons/react/24/outline';
-// import { supabase } from '../../lib/supabase'; // Using Firebase instead
-import { requestTypeService, departmentService } from '../../services/firebaseService';
+import { requestTypeService, departmentService, requestService, onCallService, profileService } from '../../services';
+import type { Department, Device, OnCallOverride, OnCallRotation, Profile, RequestType, UrgencyLevel } from '../../types/models';
 import { useAuth } from '../../contexts/AuthContext';
+import { findOnCall, onCallUrgencyLevels } from '../../utils/onCall';
+import { uploadAttachments } from '../../services/attachments';
+import AttachmentPicker from './AttachmentPicker';
 import toast from 'react-hot-toast';
 
-interface RequestType {
-  id: string;
-  name: string;
-  description: string;
-}
-
 interface RequestModalProps {
   isOpen: boolean;
   onClose: () => void;
   type: 'issue' | 'equipment' | 'emergency';
   onSuccess: () => void;
+  // Device the request is about, e.g. when opened by scanning its label
+  device?: Device | null;
 }
 
-const RequestModal: React.FC<RequestModalProps> = ({ isOpen, onClose, type, onSuccess }) => {
+const RequestModal: React.FC<RequestModalProps> = ({ isOpen, onClose, type, onSuccess, device = null }) => {
   const { profile } = useAuth();
   const [requestTypes, setRequestTypes] = useState<RequestType[]>([]);
-  const [departments, setDepartments] = useState<any[]>([]);
+  const [departments, setDepartments] = useState<Department[]>([]);
   const [formData, setFormData] = useState({
     requestTypeId: '',
     departmentId: '',
@@ -33,13 +32,19 @@ const RequestModal: React.FC<RequestModalProps> = ({ isOpen, onClose, type, onSu
     patientImpact: false,
     estimatedDowntime: '',
   });
+  const [files, setFiles] = useState<File[]>([]);
   const [loading, setLoading] = useState(false);
+  const [rotations, setRotations] = useState<OnCallRotation[]>([]);
+  const [overrides, setOverrides] = useState<OnCallOverride[]>([]);
+  const [onCallProfile, setOnCallProfile] = useState<Profile | null>(null);
 
   useEffect(() => {
     if (isOpen) {
       fetchRequestTypes();
       fetchDepartments();
+      fetchOnCall();
       // Reset form
+      setFiles([]);
       setFormData({
         requestTypeId: '',
         departmentId: '',
@@ -86,23 +91,50 @@ const RequestModal: React.FC<RequestModalProps> = ({ isOpen, onClose, type, onSu
     }
   };
 
+  const fetchOnCall = async () => {
+    try {
+      const [rotationsData, overridesData] = await Promise.all([
+        onCallService.getAllRotations(),
+        onCallService.getOverrides(new Date().toISOString()),
+      ]);
+      setRotations(rotationsData);
+      setOverrides(overridesData);
+    } catch (error) {
+      console.error('Error fetching on-call schedule:', error);
+    }
+  };
+
+  // Emergencies skip the queue and go to whoever is on call for the request type
+  const isOnCallUrgency = onCallUrgencyLevels.includes(formData.urgencyLevel as UrgencyLevel);
+  const onCallId = isOnCallUrgency
+    ? findOnCall(rotations, overrides, new Date(), formData.requestTypeId || null)[0]?.profileId ?? null
+    : null;
+
+  useEffect(() => {
+    if (!onCallId) {
+      setOnCallProfile(null);
+      return;
+    }
+    profileService.getProfile(onCallId)
+      .then(setOnCallProfile)
+      .catch((error) => console.error('Error fetching on-call profile:', error));
+  }, [onCallId]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!profile) return;
 
     setLoading(true);
     try {
-      // Import requestService at the top of the file
-      const { requestService } = await import('../../services/firebaseService');
-      
-      await requestService.createRequest({
+      const requestId = await requestService.createRequest({
         userId: profile.id,
+        deviceId: device?.id ?? null,
         requestTypeId: formData.requestTypeId,
         departmentId: formData.departmentId || null,
         title: formData.title,
         description: formData.description,
         priority: formData.priority,
-        urgencyLevel: formData.urgencyLevel,
+        urgencyLevel: formData.urgencyLevel as UrgencyLevel,
         patientImpact: formData.patientImpact,
         estimatedDowntime: formData.estimatedDowntime || null,
       });
@@ -111,6 +143,30 @@ const RequestModal: React.FC<RequestModalProps> = ({ isOpen, onClose, type, onSu
         ? 'Emergency request submitted! IT team will be notified immediately.'
         : 'Request submitted successfully!';
       toast.success(message);
+
+      // Routing is best effort; an unassigned emergency still reaches IT through notifications and escalation
+      if (onCallId) {
+        try {
+          await requestService.assignRequest(requestId, {
+            toAssigneeId: onCallId,
+            method: 'on_call',
+            reason: 'On call',
+            assignedBy: profile.id,
+          });
+        } catch (error) {
+          console.error('Error routing request to on-call staff:', error);
+        }
+      }
+
+      // The request is in; a failed upload is reported but does not undo it
+      if (files.length > 0) {
+        const failed = await uploadAttachments(
+          { ownerType: 'request', ownerId: requestId, deviceId: device?.id ?? null },
+          files,
+          profile.id
+        );
+        if (failed > 0) toast.error(`${failed} of ${files.length} attachments could not be uploaded`);
+      }
       onSuccess();
       onClose();
     } catch (error: any) {
@@ -183,6 +239,15 @@ const RequestModal: React.FC<RequestModalProps> = ({ isOpen, onClose, type, onSu
                   </div>
                 )}
 
+                {device && (
+                  <div className="mb-4 p-3 bg-gray-50 border border-gray-200 rounded-lg text-sm">
+                    <p className="font-medium text-gray-900">{device.name}</p>
+                    <p className="text-gray-600">
+                      {[device.serialNumber && `SN: ${device.serialNumber}`, device.location].filter(Boolean).join(' · ')}
+                    </p>
+                  </div>
+                )}
+
                 <form onSubmit={handleSubmit} className="space-y-4">
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                     <div>
@@ -286,6 +351,12 @@ const RequestModal: React.FC<RequestModalProps> = ({ isOpen, onClose, type, onSu
                     </div>
                   </div>
 
+                  {isOnCallUrgency && onCallProfile && (
+                    <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-800">
+                      This request will go straight to <span className="font-semibold">{onCallProfile.fullName}</span>, who is on call now.
+                    </div>
+                  )}
+
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-1">
                       Estimated Downtime
@@ -299,6 +370,8 @@ const RequestModal: React.FC<RequestModalProps> = ({ isOpen, onClose, type, onSu
                     />
                   </div>
 
+                  <AttachmentPicker files={files} onChange={setFiles} disabled={loading} />
+
                   <div className="flex items-center">
                     <input
                       type="checkbox"
@@ -0,0 +1,162 @@
+import React, { useState, useCallback } from 'react';
+import {
+  ArrowPathIcon,
+  BellAlertIcon,
+  ChatBubbleLeftRightIcon,
+  LockClosedIcon,
+  UserIcon
+} from '@heroicons/react/24/outline';
+import { requestService } from '../../services';
+import { useAuth } from '../../contexts/AuthContext';
+import { newItemHighlight, useLiveCollection } from '../../hooks/useLiveCollection';
+import type { LiveSubscription } from '../../hooks/useLiveCollection';
+import type { Profile, RequestActivity, RequestActivityKind } from '../../types/models';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+
+interface RequestTimelineProps {
+  requestId: string;
+  // Names for authors; requesters cannot load other profiles, so it may be empty
+  profiles?: Profile[];
+}
+
+const kindIcons: Record<RequestActivityKind, typeof ChatBubbleLeftRightIcon> = {
+  comment: ChatBubbleLeftRightIcon,
+  status: ArrowPathIcon,
+  assignment: UserIcon,
+  escalation: BellAlertIcon,
+};
+
+const kindColors: Record<RequestActivityKind, string> = {
+  comment: 'bg-blue-100 text-blue-600',
+  status: 'bg-gray-100 text-gray-600',
+  assignment: 'bg-indigo-100 text-indigo-600',
+  escalation: 'bg-red-100 text-red-600',
+};
+
+// Comment thread and activity history of one request, kept live
+const RequestTimeline: React.FC<RequestTimelineProps> = ({ requestId, profiles = [] }) => {
+  const { profile, can } = useAuth();
+  const canPostInternal = can('requests.work');
+  const subscribeToActivity = useCallback<LiveSubscription<RequestActivity>>(
+    (onChange, onError) => requestService.subscribeToActivity(requestId, onChange, onError),
+    [requestId]
+  );
+  const { items: activity, loading, isNew } = useLiveCollection(subscribeToActivity, {
+    errorMessage: 'Failed to load the request timeline',
+  });
+  const [comment, setComment] = useState('');
+  const [isInternal, setIsInternal] = useState(false);
+  const [posting, setPosting] = useState(false);
+
+  const authorName = (authorId: string | null) => {
+    if (!authorId) return 'System';
+    if (authorId === profile?.id) return 'You';
+    return profiles.find(p => p.id === authorId)?.fullName || 'IT Support';
+  };
+
+  const handlePost = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!profile || !comment.trim()) return;
+
+    setPosting(true);
+    try {
+      await requestService.addActivity(requestId, {
+        kind: 'comment',
+        authorId: profile.id,
+        body: comment.trim(),
+        isInternal: canPostInternal && isInternal,
+      });
+      setComment('');
+      setIsInternal(false);
+    } catch (error) {
+      console.error('Error posting comment:', error);
+      toast.error((error as Error).message || 'Failed to post comment');
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2">Activity</label>
+
+      {loading ? (
+        <div className="animate-pulse space-y-3">
+          {[...Array(3)].map((_, i) => (
+            <div key={i} className="h-10 bg-gray-200 rounded"></div>
+          ))}
+        </div>
+      ) : activity.length === 0 ? (
+        <p className="text-sm text-gray-500">No comments or updates yet.</p>
+      ) : (
+        <ul className="space-y-3">
+          {activity.map(entry => {
+            const Icon = kindIcons[entry.kind];
+            return (
+              <li
+                key={entry.id}
+                className={`flex space-x-3 rounded-lg p-2 ${
+                  entry.isInternal ? 'bg-yellow-50 border border-yellow-200' : ''
+                } ${isNew(entry.id) ? newItemHighlight : ''}`}
+              >
+                <div className={`p-1.5 h-fit rounded-full ${kindColors[entry.kind]}`}>
+                  <Icon className="h-4 w-4" />
+                </div>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center space-x-2 text-xs text-gray-500">
+                    <span className="font-medium text-gray-700">{authorName(entry.authorId)}</span>
+                    <span>{entry.createdAt ? format(new Date(entry.createdAt), 'PPP p') : 'Just now'}</span>
+                    {entry.isInternal && (
+                      <span className="inline-flex items-center px-1.5 py-0.5 rounded bg-yellow-100 text-yellow-800">
+                        <LockClosedIcon className="h-3 w-3 mr-1" />
+                        Internal
+                      </span>
+                    )}
+                  </div>
+                  <p className={`text-sm whitespace-pre-wrap ${entry.kind === 'comment' ? 'text-gray-900' : 'text-gray-600 italic'}`}>
+                    {entry.body}
+                  </p>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <form onSubmit={handlePost} className="mt-4 space-y-2">
+        <textarea
+          value={comment}
+          onChange={(e) => setComment(e.target.value)}
+          rows={3}
+          className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          placeholder={isInternal ? 'Add an internal note for IT staff...' : 'Add a comment...'}
+        />
+        <div className="flex items-center justify-between">
+          {canPostInternal ? (
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={isInternal}
+                onChange={(e) => setIsInternal(e.target.checked)}
+                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded mr-2"
+              />
+              Internal note (hidden from the requester)
+            </label>
+          ) : (
+            <span />
+          )}
+          <button
+            type="submit"
+            disabled={posting || !comment.trim()}
+            className="bg-blue-600 hover:bg-blue-700 text-white text-sm px-4 py-2 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {posting ? 'Posting...' : isInternal ? 'Add Note' : 'Post Comment'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default RequestTimeline;
@@ -0,0 +1,165 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import {
+  ClockIcon,
+  DocumentTextIcon,
+  ExclamationTriangleIcon,
+  WrenchScrewdriverIcon,
+} from '@heroicons/react/24/outline';
+import { deviceService } from '../../services';
+import type { Device } from '../../types/models';
+import { useAuth } from '../../contexts/AuthContext';
+import { deviceStatusColors } from '../../utils/deviceHistory';
+import RequestModal from './RequestModal';
+import IncidentModal from './IncidentModal';
+import toast from 'react-hot-toast';
+
+// Landing page of a device's QR label: shows which device was scanned and
+// opens the request or incident form with it already filled in
+const ScanDevice: React.FC = () => {
+  const { deviceId } = useParams<{ deviceId: string }>();
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const { can } = useAuth();
+  const [device, setDevice] = useState<Device | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [requestType, setRequestType] = useState<'issue' | 'emergency' | null>(null);
+  const [showIncidentModal, setShowIncidentModal] = useState(false);
+
+  // Serial number the label was printed for
+  const labelSerial = searchParams.get('sn');
+
+  useEffect(() => {
+    const fetchDevice = async () => {
+      try {
+        const devices = await deviceService.getAllDevices();
+        setDevice(devices.find(d => d.id === deviceId) ?? null);
+      } catch (error) {
+        console.error('Error fetching device:', error);
+        toast.error((error as Error).message || 'Failed to load device');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchDevice();
+  }, [deviceId]);
+
+  const handleReported = () => navigate('/', { replace: true });
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50">
+        <div className="max-w-lg mx-auto p-6 space-y-4">
+          <div className="h-32 bg-white rounded-xl animate-pulse"></div>
+          {[...Array(3)].map((_, i) => (
+            <div key={i} className="h-20 bg-white rounded-xl animate-pulse"></div>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  if (!device) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50">
+        <div className="max-w-lg mx-auto p-6">
+          <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-8 text-center">
+            <p className="text-gray-700 font-medium mb-2">This label does not match any device.</p>
+            <p className="text-sm text-gray-500 mb-4">The device may have been removed from the register. Report the problem from the dashboard instead.</p>
+            <Link to="/" className="text-blue-600 hover:text-blue-900">Go to the dashboard</Link>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  // A label moved to another unit, or a unit whose serial was corrected since printing
+  const serialMismatch = !!labelSerial && labelSerial !== device.serialNumber;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50">
+      <div className="max-w-lg mx-auto p-6 space-y-4">
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+          <div className="flex items-center justify-between">
+            <h2 className="text-xl font-bold text-gray-900">{device.name}</h2>
+            <span className={`px-2 py-1 text-xs font-semibold rounded-full ${deviceStatusColors[device.status]}`}>
+              {device.status}
+            </span>
+          </div>
+          <p className="text-sm text-gray-600 mt-1">
+            {[device.model, device.serialNumber && `SN: ${device.serialNumber}`].filter(Boolean).join(' · ')}
+          </p>
+          {device.location && <p className="text-sm text-gray-500">{device.location}</p>}
+        </div>
+
+        {serialMismatch && (
+          <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+            This label was printed for serial number {labelSerial}, but the register lists {device.serialNumber || 'no serial number'} for this device.
+            Check the plate on the device before reporting, and let IT know the label needs replacing.
+          </div>
+        )}
+
+        <button
+          onClick={() => setRequestType('issue')}
+          className="w-full flex items-center p-4 bg-white hover:bg-blue-50 rounded-xl shadow-sm border border-gray-100 transition-colors duration-200"
+        >
+          <WrenchScrewdriverIcon className="h-8 w-8 text-blue-600 mr-3" />
+          <div className="text-left">
+            <p className="font-medium text-gray-900">Report a Problem</p>
+            <p className="text-sm text-gray-600">Not working properly or needs attention</p>
+          </div>
+        </button>
+
+        <button
+          onClick={() => setRequestType('emergency')}
+          className="w-full flex items-center p-4 bg-white hover:bg-red-50 rounded-xl shadow-sm border border-red-200 transition-colors duration-200"
+        >
+          <DocumentTextIcon className="h-8 w-8 text-red-600 mr-3" />
+          <div className="text-left">
+            <p className="font-medium text-red-900">Emergency</p>
+            <p className="text-sm text-gray-600">Failed while in use on a patient; IT is paged immediately</p>
+          </div>
+        </button>
+
+        <button
+          onClick={() => setShowIncidentModal(true)}
+          className="w-full flex items-center p-4 bg-white hover:bg-orange-50 rounded-xl shadow-sm border border-gray-100 transition-colors duration-200"
+        >
+          <ExclamationTriangleIcon className="h-8 w-8 text-orange-600 mr-3" />
+          <div className="text-left">
+            <p className="font-medium text-gray-900">Report an Incident</p>
+            <p className="text-sm text-gray-600">Harm, a near miss or a safety concern</p>
+          </div>
+        </button>
+
+        {can('devices.view') && (
+          <Link
+            to={`/devices/${device.id}`}
+            className="flex items-center justify-center space-x-2 text-sm text-gray-600 hover:text-gray-900 pt-2"
+          >
+            <ClockIcon className="h-4 w-4" />
+            <span>View device history</span>
+          </Link>
+        )}
+      </div>
+
+      <RequestModal
+        isOpen={requestType !== null}
+        onClose={() => setRequestType(null)}
+        type={requestType ?? 'issue'}
+        device={device}
+        onSuccess={handleReported}
+      />
+
+      <IncidentModal
+        isOpen={showIncidentModal}
+        onClose={() => setShowIncidentModal(false)}
+        deviceId={device.id}
+        onSuccess={handleReported}
+      />
+    </div>
+  );
+};
+
+export default ScanDevice;
@@ -0,0 +1,524 @@
+import React, { useState, useEffect } from 'react';
+import { PlusIcon, PencilIcon, TrashIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { deviceService, equipmentTypeService, serviceContractService } from '../../services';
+import type { ContractStatus, Device, EquipmentType, ServiceContract } from '../../types/models';
+import {
+  CONTRACT_EXPIRY_WARNING_DAYS,
+  daysUntilContractEnds,
+  getContractHealth,
+} from '../../utils/serviceContracts';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+import { useAuth } from '../../contexts/AuthContext';
+
+const emptyForm = {
+  vendorName: '',
+  contractNumber: '',
+  equipmentTypeId: '',
+  deviceIds: [] as string[],
+  startDate: '',
+  endDate: '',
+  contractValue: '',
+  contactPerson: '',
+  contactEmail: '',
+  contactPhone: '',
+  serviceLevelAgreement: '',
+  status: 'active' as ContractStatus,
+};
+
+const ServiceContractManagement: React.FC = () => {
+  const { can } = useAuth();
+  const canManage = can('contracts.manage');
+  const [contracts, setContracts] = useState<ServiceContract[]>([]);
+  const [devices, setDevices] = useState<Device[]>([]);
+  const [equipmentTypes, setEquipmentTypes] = useState<EquipmentType[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [editingContract, setEditingContract] = useState<ServiceContract | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    try {
+      const [contractsData, devicesData, equipmentTypesData] = await Promise.all([
+        serviceContractService.getAllContracts(),
+        deviceService.getAllDevices(),
+        equipmentTypeService.getAllEquipmentTypes(),
+      ]);
+
+      setContracts(contractsData);
+      setDevices([...devicesData].sort((a, b) => a.name.localeCompare(b.name)));
+      setEquipmentTypes(equipmentTypesData);
+    } catch (error) {
+      console.error('Error fetching data:', error);
+      toast.error('Failed to load service contracts');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (formData.endDate < formData.startDate) {
+      toast.error('The contract must end after it starts');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const contractData = {
+        vendorName: formData.vendorName,
+        contractNumber: formData.contractNumber,
+        equipmentTypeId: formData.equipmentTypeId || null,
+        deviceIds: formData.deviceIds,
+        startDate: formData.startDate,
+        endDate: formData.endDate,
+        contractValue: formData.contractValue ? parseFloat(formData.contractValue) : null,
+        contactPerson: formData.contactPerson || null,
+        contactEmail: formData.contactEmail || null,
+        contactPhone: formData.contactPhone || null,
+        serviceLevelAgreement: formData.serviceLevelAgreement || null,
+        status: formData.status,
+      };
+
+      if (editingContract) {
+        await serviceContractService.updateContract(editingContract.id, contractData);
+        toast.success('Service contract updated successfully');
+      } else {
+        await serviceContractService.createContract(contractData);
+        toast.success('Service contract created successfully');
+      }
+
+      resetForm();
+      fetchData();
+    } catch (error) {
+      console.error('Error saving service contract:', error);
+      toast.error((error as Error).message || 'Failed to save service contract');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async (contractId: string) => {
+    if (!confirm('Are you sure you want to delete this service contract?')) return;
+
+    setLoading(true);
+    try {
+      await serviceContractService.deleteContract(contractId);
+      toast.success('Service contract deleted successfully');
+      fetchData();
+    } catch (error) {
+      console.error('Error deleting service contract:', error);
+      toast.error((error as Error).message || 'Failed to delete service contract');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const startEdit = (contract: ServiceContract) => {
+    setEditingContract(contract);
+    setFormData({
+      vendorName: contract.vendorName,
+      contractNumber: contract.contractNumber,
+      equipmentTypeId: contract.equipmentTypeId || '',
+      deviceIds: contract.deviceIds,
+      startDate: contract.startDate.slice(0, 10),
+      endDate: contract.endDate.slice(0, 10),
+      contractValue: contract.contractValue?.toString() || '',
+      contactPerson: contract.contactPerson || '',
+      contactEmail: contract.contactEmail || '',
+      contactPhone: contract.contactPhone || '',
+      serviceLevelAgreement: contract.serviceLevelAgreement || '',
+      status: contract.status,
+    });
+    setShowForm(true);
+  };
+
+  const resetForm = () => {
+    setShowForm(false);
+    setEditingContract(null);
+    setFormData(emptyForm);
+  };
+
+  const toggleDevice = (deviceId: string) => {
+    setFormData(prev => ({
+      ...prev,
+      deviceIds: prev.deviceIds.includes(deviceId)
+        ? prev.deviceIds.filter(id => id !== deviceId)
+        : [...prev.deviceIds, deviceId],
+    }));
+  };
+
+  const getHealthColor = (contract: ServiceContract) => {
+    switch (getContractHealth(contract)) {
+      case 'active':
+        return 'bg-green-100 text-green-700';
+      case 'expiring':
+        return 'bg-yellow-100 text-yellow-700';
+      case 'expired':
+        return 'bg-red-100 text-red-700';
+      case 'upcoming':
+        return 'bg-blue-100 text-blue-700';
+      default:
+        return 'bg-gray-100 text-gray-700';
+    }
+  };
+
+  const getHealthLabel = (contract: ServiceContract) => {
+    const health = getContractHealth(contract);
+    if (health === 'expiring') return `expires in ${daysUntilContractEnds(contract)} days`;
+    return health;
+  };
+
+  const getEquipmentTypeName = (equipmentTypeId: string | null) =>
+    equipmentTypes.find(type => type.id === equipmentTypeId)?.name;
+
+  const getDeviceName = (deviceId: string) =>
+    devices.find(device => device.id === deviceId)?.name || 'Unknown device';
+
+  if (loading && contracts.length === 0) {
+    return (
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <h2 className="text-2xl font-bold text-gray-900">Service Contracts</h2>
+          <div className="w-32 h-10 bg-gray-200 rounded animate-pulse"></div>
+        </div>
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+          <div className="animate-pulse space-y-4">
+            {[...Array(5)].map((_, i) => (
+              <div key={i} className="h-16 bg-gray-200 rounded"></div>
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const expiringContracts = contracts.filter(c => getContractHealth(c) === 'expiring').length;
+  const expiredContracts = contracts.filter(c => getContractHealth(c) === 'expired' && c.status === 'active').length;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-2xl font-bold text-gray-900">Service Contracts</h2>
+        {canManage && (
+          <button
+            onClick={() => setShowForm(true)}
+            className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white font-medium py-2 px-4 rounded-lg transition-all duration-200 flex items-center space-x-2"
+          >
+            <PlusIcon className="h-4 w-4" />
+            <span>Add Contract</span>
+          </button>
+        )}
+      </div>
+
+      {/* Expiry Warnings */}
+      {(expiringContracts > 0 || expiredContracts > 0) && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-xl p-6">
+          <div className="flex items-center">
+            <ExclamationTriangleIcon className="h-8 w-8 text-yellow-600 mr-3" />
+            <div>
+              <h3 className="text-lg font-semibold text-yellow-800">Contract Expiry Warnings</h3>
+              <div className="text-yellow-700 space-y-1">
+                {expiredContracts > 0 && (
+                  <p>🚨 {expiredContracts} contracts have lapsed and are still marked active</p>
+                )}
+                {expiringContracts > 0 && (
+                  <p>⚠️ {expiringContracts} contracts expire within {CONTRACT_EXPIRY_WARNING_DAYS} days</p>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Form */}
+      {showForm && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+          <h3 className="text-lg font-semibold text-gray-800 mb-4">
+            {editingContract ? 'Edit Service Contract' : 'Add New Service Contract'}
+          </h3>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Vendor Name *
+                </label>
+                <input
+                  type="text"
+                  value={formData.vendorName}
+                  onChange={(e) => setFormData(prev => ({ ...prev, vendorName: e.target.value }))}
+                  required
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Contract Number *
+                </label>
+                <input
+                  type="text"
+                  value={formData.contractNumber}
+                  onChange={(e) => setFormData(prev => ({ ...prev, contractNumber: e.target.value }))}
+                  required
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Status
+                </label>
+                <select
+                  value={formData.status}
+                  onChange={(e) => setFormData(prev => ({ ...prev, status: e.target.value as ContractStatus }))}
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="active">Active</option>
+                  <option value="expired">Expired</option>
+                  <option value="terminated">Terminated</option>
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Start Date *
+                </label>
+                <input
+                  type="date"
+                  value={formData.startDate}
+                  onChange={(e) => setFormData(prev => ({ ...prev, startDate: e.target.value }))}
+                  required
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  End Date *
+                </label>
+                <input
+                  type="date"
+                  value={formData.endDate}
+                  onChange={(e) => setFormData(prev => ({ ...prev, endDate: e.target.value }))}
+                  required
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Contract Value ($)
+                </label>
+                <input
+                  type="number"
+                  step="0.01"
+                  value={formData.contractValue}
+                  onChange={(e) => setFormData(prev => ({ ...prev, contractValue: e.target.value }))}
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Contact Person
+                </label>
+                <input
+                  type="text"
+                  value={formData.contactPerson}
+                  onChange={(e) => setFormData(prev => ({ ...prev, contactPerson: e.target.value }))}
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Contact Email
+                </label>
+                <input
+                  type="email"
+                  value={formData.contactEmail}
+                  onChange={(e) => setFormData(prev => ({ ...prev, contactEmail: e.target.value }))}
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Contact Phone
+                </label>
+                <input
+                  type="tel"
+                  value={formData.contactPhone}
+                  onChange={(e) => setFormData(prev => ({ ...prev, contactPhone: e.target.value }))}
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Covered Equipment Type
+                </label>
+                <select
+                  value={formData.equipmentTypeId}
+                  onChange={(e) => setFormData(prev => ({ ...prev, equipmentTypeId: e.target.value }))}
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">No equipment type</option>
+                  {equipmentTypes.map(type => (
+                    <option key={type.id} value={type.id}>
+                      {type.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="lg:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Covered Devices ({formData.deviceIds.length} selected)
+                </label>
+                <div className="border border-gray-300 rounded-lg max-h-40 overflow-y-auto divide-y divide-gray-100">
+                  {devices.map(device => (
+                    <label key={device.id} className="flex items-center px-3 py-2 text-sm text-gray-700 hover:bg-gray-50">
+                      <input
+                        type="checkbox"
+                        checked={formData.deviceIds.includes(device.id)}
+                        onChange={() => toggleDevice(device.id)}
+                        className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded mr-2"
+                      />
+                      {device.name} {device.serialNumber && <span className="ml-1 text-gray-400">({device.serialNumber})</span>}
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div className="lg:col-span-3">
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Service Level Agreement
+                </label>
+                <textarea
+                  value={formData.serviceLevelAgreement}
+                  onChange={(e) => setFormData(prev => ({ ...prev, serviceLevelAgreement: e.target.value }))}
+                  rows={3}
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  placeholder="Response times, on-site support hours, loan equipment terms"
+                />
+              </div>
+            </div>
+
+            <div className="flex space-x-3 pt-4">
+              <button
+                type="button"
+                onClick={resetForm}
+                className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-medium py-2 px-4 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={loading}
+                className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white font-medium py-2 px-4 rounded-lg transition-all duration-200 disabled:opacity-50"
+              >
+                {loading ? 'Saving...' : editingContract ? 'Update Contract' : 'Create Contract'}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      {/* Contracts Table */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Vendor
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Coverage
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Period
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Contact
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Status
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {contracts.map((contract) => (
+                <tr key={contract.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm font-medium text-gray-900">{contract.vendorName}</div>
+                    <div className="text-xs text-gray-400">#{contract.contractNumber}</div>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-900">
+                    {getEquipmentTypeName(contract.equipmentTypeId) && (
+                      <div>All {getEquipmentTypeName(contract.equipmentTypeId)} devices</div>
+                    )}
+                    {contract.deviceIds.length > 0 && (
+                      <div className="text-gray-500" title={contract.deviceIds.map(getDeviceName).join(', ')}>
+                        {contract.deviceIds.length} linked device{contract.deviceIds.length === 1 ? '' : 's'}
+                      </div>
+                    )}
+                    {!contract.equipmentTypeId && contract.deviceIds.length === 0 && (
+                      <span className="text-gray-400">No coverage set</span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {format(new Date(contract.startDate), 'MMM dd, yyyy')} – {format(new Date(contract.endDate), 'MMM dd, yyyy')}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    <div>{contract.contactPerson || 'N/A'}</div>
+                    {contract.contactPhone && (
+                      <a href={`tel:${contract.contactPhone}`} className="text-blue-600 hover:text-blue-800 block">
+                        {contract.contactPhone}
+                      </a>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span className={`px-2 py-1 text-xs font-semibold rounded-full ${getHealthColor(contract)}`}>
+                      {getHealthLabel(contract)}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium space-x-2">
+                    {canManage && (
+                      <>
+                        <button
+                          onClick={() => startEdit(contract)}
+                          className="text-blue-600 hover:text-blue-900 transition-colors"
+                        >
+                          <PencilIcon className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(contract.id)}
+                          className="text-red-600 hover:text-red-900 transition-colors"
+                        >
+                          <TrashIcon className="h-4 w-4" />
+                        </button>
+                      </>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ServiceContractManagement;
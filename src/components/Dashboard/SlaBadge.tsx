@@ -0,0 +1,27 @@
+import React from 'react';
+import { ClockIcon } from '@heroicons/react/24/outline';
+import type { Request } from '../../types/models';
+import { describeSlaClock, getActiveSlaClock, slaStateColors } from '../../utils/sla';
+
+interface SlaBadgeProps {
+  request: Request;
+  now: Date;
+}
+
+// Countdown for whichever SLA target the request is currently working towards
+const SlaBadge: React.FC<SlaBadgeProps> = ({ request, now }) => {
+  const { kind, clock } = getActiveSlaClock(request, now);
+  if (clock.state === 'none') return null;
+
+  return (
+    <span
+      className={`inline-flex items-center space-x-1 px-2 py-1 text-xs rounded-full ${slaStateColors[clock.state]}`}
+      title={clock.dueAt ? `${kind} due ${new Date(clock.dueAt).toLocaleString()}` : undefined}
+    >
+      <ClockIcon className="h-3 w-3" />
+      <span>{kind}: {describeSlaClock(clock)}</span>
+    </span>
+  );
+};
+
+export default SlaBadge;
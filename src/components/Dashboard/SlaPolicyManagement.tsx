@@ -0,0 +1,383 @@
+import React, { useState, useEffect } from 'react';
+import { PlusIcon, PencilIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { requestTypeService, slaPolicyService } from '../../services';
+import { requestPriorities, urgencyLevels } from '../../types/models';
+import type { RequestType, SlaPolicy, UrgencyLevel } from '../../types/models';
+import { formatSlaDuration } from '../../utils/sla';
+import toast from 'react-hot-toast';
+
+const emptyForm = {
+  name: '',
+  priority: '',
+  urgencyLevel: '',
+  requestTypeId: '',
+  responseMinutes: '60',
+  resolutionMinutes: '480',
+  isActive: true,
+};
+
+const SlaPolicyManagement: React.FC = () => {
+  const [policies, setPolicies] = useState<SlaPolicy[]>([]);
+  const [requestTypes, setRequestTypes] = useState<RequestType[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [editingPolicy, setEditingPolicy] = useState<SlaPolicy | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    try {
+      const [policiesData, requestTypesData] = await Promise.all([
+        slaPolicyService.getAllPolicies(),
+        requestTypeService.getAllRequestTypes(),
+      ]);
+
+      setPolicies(policiesData);
+      setRequestTypes(requestTypesData);
+    } catch (error) {
+      console.error('Error fetching data:', error);
+      toast.error('Failed to load SLA policies');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const responseMinutes = parseInt(formData.responseMinutes, 10);
+    const resolutionMinutes = parseInt(formData.resolutionMinutes, 10);
+    if (resolutionMinutes < responseMinutes) {
+      toast.error('The resolution target cannot be shorter than the response target');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const policyData = {
+        name: formData.name,
+        priority: formData.priority || null,
+        urgencyLevel: (formData.urgencyLevel || null) as UrgencyLevel | null,
+        requestTypeId: formData.requestTypeId || null,
+        responseMinutes,
+        resolutionMinutes,
+        isActive: formData.isActive,
+      };
+
+      if (editingPolicy) {
+        await slaPolicyService.updatePolicy(editingPolicy.id, policyData);
+        toast.success('SLA policy updated successfully');
+      } else {
+        await slaPolicyService.createPolicy(policyData);
+        toast.success('SLA policy created successfully');
+      }
+
+      resetForm();
+      fetchData();
+    } catch (error) {
+      console.error('Error saving SLA policy:', error);
+      toast.error((error as Error).message || 'Failed to save SLA policy');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async (policyId: string) => {
+    if (!confirm('Delete this SLA policy? Existing requests keep the due times they were given.')) return;
+
+    setLoading(true);
+    try {
+      await slaPolicyService.deletePolicy(policyId);
+      toast.success('SLA policy deleted successfully');
+      fetchData();
+    } catch (error) {
+      console.error('Error deleting SLA policy:', error);
+      toast.error((error as Error).message || 'Failed to delete SLA policy');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const startEdit = (policy: SlaPolicy) => {
+    setEditingPolicy(policy);
+    setFormData({
+      name: policy.name,
+      priority: policy.priority || '',
+      urgencyLevel: policy.urgencyLevel || '',
+      requestTypeId: policy.requestTypeId || '',
+      responseMinutes: policy.responseMinutes.toString(),
+      resolutionMinutes: policy.resolutionMinutes.toString(),
+      isActive: policy.isActive,
+    });
+    setShowForm(true);
+  };
+
+  const resetForm = () => {
+    setShowForm(false);
+    setEditingPolicy(null);
+    setFormData(emptyForm);
+  };
+
+  const describeScope = (policy: SlaPolicy) => {
+    const criteria = [
+      policy.priority && `${policy.priority} priority`,
+      policy.urgencyLevel && `${policy.urgencyLevel} urgency`,
+      policy.requestTypeId && (requestTypes.find(type => type.id === policy.requestTypeId)?.name || 'Unknown type'),
+    ].filter(Boolean);
+    return criteria.length > 0 ? criteria.join(', ') : 'All requests';
+  };
+
+  const previewDuration = (minutes: string) => {
+    const value = parseInt(minutes, 10);
+    return Number.isNaN(value) ? '' : formatSlaDuration(value);
+  };
+
+  if (loading && policies.length === 0) {
+    return (
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <h2 className="text-2xl font-bold text-gray-900">SLA Policies</h2>
+          <div className="w-32 h-10 bg-gray-200 rounded animate-pulse"></div>
+        </div>
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+          <div className="animate-pulse space-y-4">
+            {[...Array(5)].map((_, i) => (
+              <div key={i} className="h-16 bg-gray-200 rounded"></div>
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">SLA Policies</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            New requests take their targets from the most specific active policy that matches them.
+          </p>
+        </div>
+        <button
+          onClick={() => setShowForm(true)}
+          className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white font-medium py-2 px-4 rounded-lg transition-all duration-200 flex items-center space-x-2"
+        >
+          <PlusIcon className="h-4 w-4" />
+          <span>Add Policy</span>
+        </button>
+      </div>
+
+      {/* Form */}
+      {showForm && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+          <h3 className="text-lg font-semibold text-gray-800 mb-4">
+            {editingPolicy ? 'Edit SLA Policy' : 'Add New SLA Policy'}
+          </h3>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="md:col-span-3">
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Name *
+                </label>
+                <input
+                  type="text"
+                  value={formData.name}
+                  onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                  required
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Priority
+                </label>
+                <select
+                  value={formData.priority}
+                  onChange={(e) => setFormData(prev => ({ ...prev, priority: e.target.value }))}
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">Any priority</option>
+                  {requestPriorities.map(priority => (
+                    <option key={priority} value={priority}>{priority}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Urgency Level
+                </label>
+                <select
+                  value={formData.urgencyLevel}
+                  onChange={(e) => setFormData(prev => ({ ...prev, urgencyLevel: e.target.value }))}
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">Any urgency</option>
+                  {urgencyLevels.map(level => (
+                    <option key={level} value={level}>{level}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Request Type
+                </label>
+                <select
+                  value={formData.requestTypeId}
+                  onChange={(e) => setFormData(prev => ({ ...prev, requestTypeId: e.target.value }))}
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">Any request type</option>
+                  {requestTypes.map(type => (
+                    <option key={type.id} value={type.id}>{type.name}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Response Target (minutes) *
+                </label>
+                <input
+                  type="number"
+                  min="1"
+                  value={formData.responseMinutes}
+                  onChange={(e) => setFormData(prev => ({ ...prev, responseMinutes: e.target.value }))}
+                  required
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <p className="mt-1 text-xs text-gray-500">{previewDuration(formData.responseMinutes)}</p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Resolution Target (minutes) *
+                </label>
+                <input
+                  type="number"
+                  min="1"
+                  value={formData.resolutionMinutes}
+                  onChange={(e) => setFormData(prev => ({ ...prev, resolutionMinutes: e.target.value }))}
+                  required
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <p className="mt-1 text-xs text-gray-500">{previewDuration(formData.resolutionMinutes)}</p>
+              </div>
+
+              <div className="flex items-center">
+                <input
+                  type="checkbox"
+                  id="isActive"
+                  checked={formData.isActive}
+                  onChange={(e) => setFormData(prev => ({ ...prev, isActive: e.target.checked }))}
+                  className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                />
+                <label htmlFor="isActive" className="ml-2 block text-sm text-gray-700">
+                  Active
+                </label>
+              </div>
+            </div>
+
+            <div className="flex space-x-3 pt-4">
+              <button
+                type="button"
+                onClick={resetForm}
+                className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-medium py-2 px-4 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={loading}
+                className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white font-medium py-2 px-4 rounded-lg transition-all duration-200 disabled:opacity-50"
+              >
+                {loading ? 'Saving...' : editingPolicy ? 'Update Policy' : 'Create Policy'}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      {/* Policies Table */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Policy
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Applies To
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Response
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Resolution
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Status
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {policies.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-8 text-center text-gray-500">
+                    No SLA policies yet. Requests are created without due times until one is added.
+                  </td>
+                </tr>
+              ) : (
+                policies.map((policy) => (
+                  <tr key={policy.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 text-sm font-medium text-gray-900">{policy.name}</td>
+                    <td className="px-6 py-4 text-sm text-gray-600">{describeScope(policy)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {formatSlaDuration(policy.responseMinutes)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {formatSlaDuration(policy.resolutionMinutes)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`px-2 py-1 text-xs font-semibold rounded-full ${
+                        policy.isActive ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-700'
+                      }`}>
+                        {policy.isActive ? 'Active' : 'Inactive'}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium space-x-2">
+                      <button
+                        onClick={() => startEdit(policy)}
+                        className="text-blue-600 hover:text-blue-900 transition-colors"
+                      >
+                        <PencilIcon className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(policy.id)}
+                        className="text-red-600 hover:text-red-900 transition-colors"
+                      >
+                        <TrashIcon className="h-4 w-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SlaPolicyManagement;
@@ -0,0 +1,460 @@
+import React, { useState, useEffect } from 'react';
+import { PlusIcon, PencilIcon, TrashIcon, MagnifyingGlassIcon } from '@heroicons/react/24/outline';
+import { equipmentTypeService, sparePartService } from '../../services';
+import { useAuth } from '../../contexts/AuthContext';
+import type { EquipmentType, SparePart, StockLevel } from '../../types/models';
+import { isLowStock, knownStoreRooms, totalStock } from '../../utils/spareParts';
+import toast from 'react-hot-toast';
+
+const emptyForm = {
+  partNumber: '',
+  name: '',
+  description: '',
+  unitCost: '',
+  reorderPoint: '0',
+  compatibleEquipmentTypeIds: [] as string[],
+  stockLevels: [] as StockLevel[],
+};
+
+const stockBadge = (part: SparePart) => {
+  if (totalStock(part) === 0) return { label: 'Out of stock', color: 'bg-red-100 text-red-700' };
+  if (isLowStock(part)) return { label: 'Reorder', color: 'bg-yellow-100 text-yellow-700' };
+  return { label: 'In stock', color: 'bg-green-100 text-green-700' };
+};
+
+const SparePartsManagement: React.FC = () => {
+  const { can } = useAuth();
+  const canManage = can('inventory.manage');
+  const [parts, setParts] = useState<SparePart[]>([]);
+  const [equipmentTypes, setEquipmentTypes] = useState<EquipmentType[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [editingPart, setEditingPart] = useState<SparePart | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [lowStockOnly, setLowStockOnly] = useState(false);
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    try {
+      const [partsData, equipmentTypesData] = await Promise.all([
+        sparePartService.getAllParts(),
+        equipmentTypeService.getAllEquipmentTypes(),
+      ]);
+
+      setParts(partsData);
+      setEquipmentTypes(equipmentTypesData);
+    } catch (error) {
+      console.error('Error fetching data:', error);
+      toast.error('Failed to load spare parts');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const storeRooms = formData.stockLevels.map(level => level.storeRoom.trim()).filter(Boolean);
+    if (new Set(storeRooms).size !== storeRooms.length) {
+      toast.error('Each store room can only be listed once');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const partData = {
+        partNumber: formData.partNumber.trim(),
+        name: formData.name.trim(),
+        description: formData.description || null,
+        unitCost: formData.unitCost ? parseFloat(formData.unitCost) : null,
+        reorderPoint: parseInt(formData.reorderPoint, 10) || 0,
+        compatibleEquipmentTypeIds: formData.compatibleEquipmentTypeIds,
+        stockLevels: formData.stockLevels
+          .filter(level => level.storeRoom.trim() !== '')
+          .map(level => ({ storeRoom: level.storeRoom.trim(), quantity: level.quantity })),
+      };
+
+      if (editingPart) {
+        await sparePartService.updatePart(editingPart.id, partData);
+        toast.success('Spare part updated successfully');
+      } else {
+        await sparePartService.createPart(partData);
+        toast.success('Spare part created successfully');
+      }
+
+      resetForm();
+      fetchData();
+    } catch (error) {
+      console.error('Error saving spare part:', error);
+      toast.error((error as Error).message || 'Failed to save spare part');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async (part: SparePart) => {
+    if (!confirm(`Delete ${part.name} (${part.partNumber})? Work orders that used it keep their record.`)) return;
+
+    setLoading(true);
+    try {
+      await sparePartService.deletePart(part.id);
+      toast.success('Spare part deleted successfully');
+      fetchData();
+    } catch (error) {
+      console.error('Error deleting spare part:', error);
+      toast.error((error as Error).message || 'Failed to delete spare part');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const startEdit = (part: SparePart) => {
+    setEditingPart(part);
+    setFormData({
+      partNumber: part.partNumber,
+      name: part.name,
+      description: part.description || '',
+      unitCost: part.unitCost?.toString() || '',
+      reorderPoint: part.reorderPoint.toString(),
+      compatibleEquipmentTypeIds: part.compatibleEquipmentTypeIds,
+      stockLevels: part.stockLevels,
+    });
+    setShowForm(true);
+  };
+
+  const resetForm = () => {
+    setShowForm(false);
+    setEditingPart(null);
+    setFormData(emptyForm);
+  };
+
+  const toggleEquipmentType = (equipmentTypeId: string) =>
+    setFormData(prev => ({
+      ...prev,
+      compatibleEquipmentTypeIds: prev.compatibleEquipmentTypeIds.includes(equipmentTypeId)
+        ? prev.compatibleEquipmentTypeIds.filter(id => id !== equipmentTypeId)
+        : [...prev.compatibleEquipmentTypeIds, equipmentTypeId],
+    }));
+
+  const updateLevel = (index: number, changes: Partial<StockLevel>) =>
+    setFormData(prev => ({
+      ...prev,
+      stockLevels: prev.stockLevels.map((level, i) => (i === index ? { ...level, ...changes } : level)),
+    }));
+
+  const getEquipmentTypeName = (equipmentTypeId: string) =>
+    equipmentTypes.find(type => type.id === equipmentTypeId)?.name || 'Unknown type';
+
+  const filteredParts = parts.filter(part => {
+    const matchesSearch =
+      part.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      part.partNumber.toLowerCase().includes(searchTerm.toLowerCase());
+    return matchesSearch && (!lowStockOnly || isLowStock(part));
+  });
+  const lowStockCount = parts.filter(isLowStock).length;
+
+  if (loading && parts.length === 0) {
+    return (
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <h2 className="text-2xl font-bold text-gray-900">Spare Parts</h2>
+          <div className="w-32 h-10 bg-gray-200 rounded animate-pulse"></div>
+        </div>
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+          <div className="animate-pulse space-y-4">
+            {[...Array(5)].map((_, i) => (
+              <div key={i} className="h-16 bg-gray-200 rounded"></div>
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-2xl font-bold text-gray-900">Spare Parts</h2>
+        {canManage && (
+          <button
+            onClick={() => setShowForm(true)}
+            className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white font-medium py-2 px-4 rounded-lg transition-all duration-200 flex items-center space-x-2"
+          >
+            <PlusIcon className="h-4 w-4" />
+            <span>Add Part</span>
+          </button>
+        )}
+      </div>
+
+      {/* Form */}
+      {showForm && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+          <h3 className="text-lg font-semibold text-gray-800 mb-4">
+            {editingPart ? 'Edit Spare Part' : 'Add New Spare Part'}
+          </h3>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Part Number *</label>
+                <input
+                  type="text"
+                  value={formData.partNumber}
+                  onChange={(e) => setFormData(prev => ({ ...prev, partNumber: e.target.value }))}
+                  required
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Name *</label>
+                <input
+                  type="text"
+                  value={formData.name}
+                  onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                  required
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  placeholder="e.g. Oxygen sensor"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Unit Cost</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={formData.unitCost}
+                  onChange={(e) => setFormData(prev => ({ ...prev, unitCost: e.target.value }))}
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  placeholder="0.00"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Reorder Point *</label>
+                <input
+                  type="number"
+                  min="0"
+                  value={formData.reorderPoint}
+                  onChange={(e) => setFormData(prev => ({ ...prev, reorderPoint: e.target.value }))}
+                  required
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+
+              <div className="md:col-span-2 lg:col-span-4">
+                <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+                <textarea
+                  value={formData.description}
+                  onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                  rows={2}
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Compatible Equipment Types</label>
+              <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-2">
+                {equipmentTypes.map(type => (
+                  <label key={type.id} className="flex items-center text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={formData.compatibleEquipmentTypeIds.includes(type.id)}
+                      onChange={() => toggleEquipmentType(type.id)}
+                      className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded mr-2"
+                    />
+                    {type.name}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <div className="flex justify-between items-center mb-2">
+                <label className="block text-sm font-medium text-gray-700">Stock per Store Room</label>
+                <button
+                  type="button"
+                  onClick={() => setFormData(prev => ({ ...prev, stockLevels: [...prev.stockLevels, { storeRoom: '', quantity: 0 }] }))}
+                  className="text-sm text-blue-600 hover:text-blue-900 flex items-center space-x-1"
+                >
+                  <PlusIcon className="h-4 w-4" />
+                  <span>Add Store Room</span>
+                </button>
+              </div>
+              {formData.stockLevels.length === 0 ? (
+                <p className="text-sm text-gray-500">Not stocked anywhere yet</p>
+              ) : (
+                <div className="space-y-2">
+                  {formData.stockLevels.map((level, index) => (
+                    <div key={index} className="flex items-center space-x-2">
+                      <input
+                        type="text"
+                        list="store-rooms"
+                        placeholder="Store room, e.g. Biomed Workshop"
+                        value={level.storeRoom}
+                        onChange={(e) => updateLevel(index, { storeRoom: e.target.value })}
+                        className="flex-1 border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                      <input
+                        type="number"
+                        min="0"
+                        value={level.quantity}
+                        onChange={(e) => updateLevel(index, { quantity: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                        className="w-28 border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => setFormData(prev => ({ ...prev, stockLevels: prev.stockLevels.filter((_, i) => i !== index) }))}
+                        className="text-red-600 hover:text-red-900"
+                      >
+                        <TrashIcon className="h-4 w-4" />
+                      </button>
+                    </div>
+                  ))}
+                  <datalist id="store-rooms">
+                    {knownStoreRooms(parts).map(storeRoom => (
+                      <option key={storeRoom} value={storeRoom} />
+                    ))}
+                  </datalist>
+                </div>
+              )}
+            </div>
+
+            <div className="flex space-x-3 pt-4">
+              <button
+                type="button"
+                onClick={resetForm}
+                className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-medium py-2 px-4 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={loading}
+                className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white font-medium py-2 px-4 rounded-lg transition-all duration-200 disabled:opacity-50"
+              >
+                {loading ? 'Saving...' : editingPart ? 'Update Part' : 'Create Part'}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      {/* Filters */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-4 flex flex-col md:flex-row md:items-center gap-4">
+        <div className="relative flex-1">
+          <MagnifyingGlassIcon className="h-5 w-5 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            type="text"
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            placeholder="Search by name or part number"
+            className="w-full pl-10 border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+        <label className="flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={lowStockOnly}
+            onChange={(e) => setLowStockOnly(e.target.checked)}
+            className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded mr-2"
+          />
+          Only parts to reorder ({lowStockCount})
+        </label>
+      </div>
+
+      {/* Spare Parts Table */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Part
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Fits
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Stock
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Status
+                </th>
+                {canManage && (
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Actions
+                  </th>
+                )}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {filteredParts.length === 0 ? (
+                <tr>
+                  <td colSpan={canManage ? 5 : 4} className="px-6 py-8 text-center text-gray-500">
+                    {parts.length === 0 ? 'No spare parts yet' : 'No parts match the filters'}
+                  </td>
+                </tr>
+              ) : (
+                filteredParts.map((part) => {
+                  const badge = stockBadge(part);
+                  return (
+                    <tr key={part.id} className="hover:bg-gray-50">
+                      <td className="px-6 py-4">
+                        <div className="text-sm font-medium text-gray-900">{part.name}</div>
+                        <div className="text-sm text-gray-500">
+                          {part.partNumber}
+                          {part.unitCost !== null && ` · $${part.unitCost.toFixed(2)}`}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-900">
+                        {part.compatibleEquipmentTypeIds.length === 0
+                          ? <span className="text-gray-400">Any</span>
+                          : part.compatibleEquipmentTypeIds.map(getEquipmentTypeName).join(', ')}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-900">
+                        <div className="font-medium">{totalStock(part)} total · reorder at {part.reorderPoint}</div>
+                        {part.stockLevels.map(level => (
+                          <div key={level.storeRoom} className="text-xs text-gray-500">
+                            {level.storeRoom}: {level.quantity}
+                          </div>
+                        ))}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={`px-2 py-1 text-xs font-semibold rounded-full ${badge.color}`}>
+                          {badge.label}
+                        </span>
+                      </td>
+                      {canManage && (
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium space-x-2">
+                          <button
+                            onClick={() => startEdit(part)}
+                            className="text-blue-600 hover:text-blue-900 transition-colors"
+                          >
+                            <PencilIcon className="h-4 w-4" />
+                          </button>
+                          <button
+                            onClick={() => handleDelete(part)}
+                            className="text-red-600 hover:text-red-900 transition-colors"
+                          >
+                            <TrashIcon className="h-4 w-4" />
+                          </button>
+                        </td>
+                      )}
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SparePartsManagement;
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { 
   ComputerDesktopIcon, 
   ExclamationTriangleIcon, 
@@ -7,104 +7,54 @@ import {
   PlayCircleIcon,
   HeartIcon,
   ShieldCheckIcon,
-  WrenchScrewdriverIcon
+  XCircleIcon
 } from '@heroicons/react/24/outline';
-import { deviceService, requestService } from '../../services/firebaseService';
+import { deviceService, requestService, departmentService } from '../../services';
+import type { Department, Request } from '../../types/models';
 import { useAuth } from '../../contexts/AuthContext';
+import { newItemHighlight, useLiveCollection } from '../../hooks/useLiveCollection';
+import type { LiveSubscription } from '../../hooks/useLiveCollection';
+import { useNow } from '../../hooks/useNow';
 import FloatingActionButton from '../Layout/FloatingActionButton';
 import RequestModal from './RequestModal';
 import IncidentModal from './IncidentModal';
+import SlaBadge from './SlaBadge';
+import RequestTimeline from './RequestTimeline';
+import AttachmentList from './AttachmentList';
 import { format } from 'date-fns';
 import toast from 'react-hot-toast';
 
-interface Device {
-  id: string;
-  name: string;
-  model: string | null;
-  status: 'active' | 'faulty' | 'maintenance' | 'retired';
-  category: string;
-  location: string | null;
-  is_critical: boolean;
-  compliance_status: string;
-}
-
-interface Request {
-  id: string;
-  title: string;
-  description: string;
-  status: 'pending' | 'in_progress' | 'completed' | 'rejected';
-  priority: string;
-  urgency_level: string;
-  patient_impact: boolean;
-  created_at: string;
-  request_types: { name: string };
-}
-
-interface Department {
-  id: string;
-  name: string;
-  code: string;
-  is_critical: boolean;
-}
-
 const UserDashboard: React.FC = () => {
   const { profile } = useAuth();
-  const [devices, setDevices] = useState<Device[]>([]);
-  const [requests, setRequests] = useState<Request[]>([]);
+  const profileId = profile?.id;
+  const subscribeToMyRequests = useCallback<LiveSubscription<Request>>(
+    (onChange, onError) => requestService.subscribeToUserRequests(profileId as string, onChange, onError),
+    [profileId]
+  );
+  const { items: devices, loading: devicesLoading } = useLiveCollection(
+    deviceService.subscribeToDevices,
+    { errorMessage: 'Failed to load dashboard data' }
+  );
+  const { items: requests, isNew } = useLiveCollection(
+    profileId ? subscribeToMyRequests : null,
+    { errorMessage: 'Failed to load your requests' }
+  );
   const [departments, setDepartments] = useState<Department[]>([]);
   const [loading, setLoading] = useState(true);
   const [showRequestModal, setShowRequestModal] = useState(false);
   const [showIncidentModal, setShowIncidentModal] = useState(false);
   const [requestType, setRequestType] = useState<'issue' | 'equipment' | 'emergency'>('issue');
+  const [selectedRequestId, setSelectedRequestId] = useState<string | null>(null);
+  const now = useNow();
 
   useEffect(() => {
     fetchData();
   }, []);
 
+  // Devices and requests arrive through live subscriptions
   const fetchData = async () => {
     try {
-      // Fetch devices from Firebase
-      const devicesData = await deviceService.getAllDevices();
-      if (devicesData) {
-        setDevices(devicesData.map((device: any) => ({
-          id: device.id,
-          name: device.name,
-          model: device.model,
-          status: device.status,
-          category: device.category || 'Unknown',
-          location: device.location,
-          is_critical: device.isCritical || false,
-          compliance_status: device.complianceStatus || 'compliant'
-        })));
-      }
-
-      // Fetch user's requests from Firebase
-      if (profile?.id) {
-        const requestsData = await requestService.getUserRequests(profile.id);
-        if (requestsData) {
-          setRequests(requestsData.map((request: any) => ({
-            id: request.id,
-            title: request.title,
-            description: request.description,
-            status: request.status,
-            priority: request.priority || 'medium',
-            urgency_level: request.urgencyLevel || 'routine',
-            patient_impact: request.patientImpact || false,
-            created_at: request.createdAt?.toDate?.()?.toISOString() || new Date().toISOString(),
-            request_types: { name: request.requestType || 'General Request' }
-          })));
-        }
-      }
-
-      // Mock departments data for now
-      setDepartments([
-        { id: '1', name: 'Emergency Department', code: 'ED', is_critical: true },
-        { id: '2', name: 'Intensive Care Unit', code: 'ICU', is_critical: true },
-        { id: '3', name: 'Radiology', code: 'RAD', is_critical: false },
-        { id: '4', name: 'Laboratory', code: 'LAB', is_critical: false },
-        { id: '5', name: 'Pharmacy', code: 'PHARM', is_critical: false },
-        { id: '6', name: 'Surgery', code: 'SURG', is_critical: true }
-      ]);
+      setDepartments(await departmentService.getAllDepartments());
     } catch (error) {
       console.error('Error fetching data:', error);
       toast.error('Failed to load dashboard data');
@@ -185,7 +135,7 @@ const UserDashboard: React.FC = () => {
     setShowIncidentModal(true);
   };
 
-  if (loading) {
+  if (loading || devicesLoading) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50 p-6">
         <div className="max-w-7xl mx-auto space-y-6">
@@ -208,12 +158,14 @@ const UserDashboard: React.FC = () => {
 
   const activeDevices = devices.filter(d => d.status === 'active').length;
   const faultyDevices = devices.filter(d => d.status === 'faulty').length;
-  const criticalDevices = devices.filter(d => d.is_critical).length;
-  const complianceIssues = devices.filter(d => d.compliance_status !== 'compliant').length;
+  const criticalDevices = devices.filter(d => d.isCritical).length;
+  const complianceIssues = devices.filter(d => (d.complianceStatus || 'compliant') !== 'compliant').length;
   const pendingRequests = requests.filter(r => r.status === 'pending').length;
   const completedRequests = requests.filter(r => r.status === 'completed').length;
-  const emergencyRequests = requests.filter(r => r.urgency_level === 'emergency' || r.urgency_level === 'critical').length;
-  const patientImpactRequests = requests.filter(r => r.patient_impact).length;
+  const emergencyRequests = requests.filter(r => r.urgencyLevel === 'emergency' || r.urgencyLevel === 'critical').length;
+  const patientImpactRequests = requests.filter(r => r.patientImpact).length;
+  // Looked up by id so the open request follows live status changes
+  const selectedRequest = requests.find(r => r.id === selectedRequestId) ?? null;
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50">
@@ -221,7 +173,7 @@ const UserDashboard: React.FC = () => {
         {/* Welcome Section */}
         <div className="bg-white/80 backdrop-blur-sm rounded-2xl shadow-lg p-8 border border-white/20">
           <h1 className="text-3xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent mb-2">
-            Welcome to Hospital IT Operations, {profile?.full_name}
+            Welcome to Hospital IT Operations, {profile?.fullName}
           </h1>
           <p className="text-gray-600">
             Manage medical equipment, IT requests, and view system status from your dashboard.
@@ -332,7 +284,11 @@ const UserDashboard: React.FC = () => {
               </div>
             ) : (
               requests.slice(0, 5).map((request) => (
-                <div key={request.id} className="p-6 hover:bg-gray-50 transition-colors duration-200">
+                <div
+                  key={request.id}
+                  onClick={() => setSelectedRequestId(request.id)}
+                  className={`p-6 hover:bg-gray-50 transition-colors duration-200 cursor-pointer ${isNew(request.id) ? newItemHighlight : ''}`}
+                >
                   <div className="flex items-center justify-between">
                     <div className="flex-1">
                       <div className="flex items-center space-x-3">
@@ -341,20 +297,21 @@ const UserDashboard: React.FC = () => {
                         <span className={`px-2 py-1 text-xs rounded-full ${getStatusColor(request.status)}`}>
                           {request.status.replace('_', ' ')}
                         </span>
-                        <span className={`px-2 py-1 text-xs rounded-full ${getUrgencyColor(request.urgency_level)}`}>
-                          {request.urgency_level}
+                        <span className={`px-2 py-1 text-xs rounded-full ${getUrgencyColor(request.urgencyLevel)}`}>
+                          {request.urgencyLevel}
                         </span>
-                        {request.patient_impact && (
+                        {request.patientImpact && (
                           <span className="px-2 py-1 text-xs rounded-full bg-red-100 text-red-700">
                             Patient Impact
                           </span>
                         )}
+                        <SlaBadge request={request} now={now} />
                       </div>
                       <p className="text-gray-600 mt-1">{request.description.substring(0, 100)}...</p>
                       <div className="flex items-center space-x-4 mt-2 text-sm text-gray-500">
-                        <span>{request.request_types.name}</span>
+                        <span>{request.requestType || 'General Request'}</span>
                         <span>Priority: {request.priority}</span>
-                        <span>{format(new Date(request.created_at), 'MMM dd, yyyy')}</span>
+                        <span>{request.createdAt && format(new Date(request.createdAt), 'MMM dd, yyyy')}</span>
                       </div>
                     </div>
                   </div>
@@ -375,23 +332,23 @@ const UserDashboard: React.FC = () => {
                 <div className="flex items-center justify-between mb-2">
                   <div className="flex items-center space-x-2">
                     <h3 className="font-medium text-gray-900">{device.name}</h3>
-                    {device.is_critical && (
+                    {device.isCritical && (
                       <HeartIcon className="h-4 w-4 text-red-500" title="Critical Equipment" />
                     )}
                   </div>
                   {getStatusIcon(device.status)}
                 </div>
                 <p className="text-sm text-gray-600">{device.model || 'No model specified'}</p>
-                <p className="text-xs text-gray-500 mt-1">{device.category}</p>
+                <p className="text-xs text-gray-500 mt-1">{device.category || 'Unknown'}</p>
                 {device.location && (
                   <p className="text-xs text-gray-500">Location: {device.location}</p>
                 )}
                 <span className={`inline-block px-2 py-1 text-xs rounded-full mt-2 ${getStatusColor(device.status)}`}>
                   {device.status}
                 </span>
-                {device.compliance_status !== 'compliant' && (
+                {device.complianceStatus && device.complianceStatus !== 'compliant' && (
                   <span className="inline-block px-2 py-1 text-xs rounded-full mt-2 ml-2 bg-orange-100 text-orange-700">
-                    {device.compliance_status}
+                    {device.complianceStatus}
                   </span>
                 )}
               </div>
@@ -409,7 +366,7 @@ const UserDashboard: React.FC = () => {
               <div key={dept.id} className="border border-gray-200 rounded-lg p-4 hover:shadow-md transition-shadow duration-200">
                 <div className="flex items-center justify-between mb-2">
                   <h3 className="font-medium text-gray-900">{dept.name}</h3>
-                  {dept.is_critical && (
+                  {dept.isCritical && (
                     <span className="px-2 py-1 text-xs rounded-full bg-red-100 text-red-700">
                       Critical
                     </span>
@@ -438,6 +395,50 @@ const UserDashboard: React.FC = () => {
         onSuccess={fetchData}
       />
 
+      {/* Request Detail Modal */}
+      {selectedRequest && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-xl shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+            <div className="p-6 space-y-4">
+              <div className="flex justify-between items-start">
+                <div>
+                  <h3 className="text-xl font-semibold text-gray-900">{selectedRequest.title}</h3>
+                  <div className="flex items-center space-x-2 mt-2">
+                    <span className={`px-2 py-1 text-xs rounded-full ${getStatusColor(selectedRequest.status)}`}>
+                      {selectedRequest.status.replace('_', ' ')}
+                    </span>
+                    <SlaBadge request={selectedRequest} now={now} />
+                  </div>
+                </div>
+                <button
+                  onClick={() => setSelectedRequestId(null)}
+                  className="text-gray-400 hover:text-gray-600"
+                >
+                  <XCircleIcon className="h-6 w-6" />
+                </button>
+              </div>
+
+              <p className="text-gray-700 whitespace-pre-wrap">{selectedRequest.description}</p>
+
+              {selectedRequest.resolutionNotes && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Resolution Notes</label>
+                  <p className="text-gray-900 whitespace-pre-wrap">{selectedRequest.resolutionNotes}</p>
+                </div>
+              )}
+
+              <div className="pt-4 border-t border-gray-200">
+                <AttachmentList ownerType="request" ownerId={selectedRequest.id} deviceId={selectedRequest.deviceId} canUpload />
+              </div>
+
+              <div className="pt-4 border-t border-gray-200">
+                <RequestTimeline requestId={selectedRequest.id} />
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Incident Modal */}
       <IncidentModal
         isOpen={showIncidentModal}
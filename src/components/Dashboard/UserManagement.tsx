@@ -1,39 +1,27 @@
 import React, { useState, useEffect } from 'react';
 import { PlusIcon, PencilIcon, TrashIcon } from '@heroicons/react/24/outline';
-// import { supabase } from '../../lib/supabase'; // Commented out - using Firebase
-import { profileService, departmentService } from '../../services/firebaseService';
+import { profileService, departmentService, requestTypeService } from '../../services';
+import { userRoles } from '../../types/models';
+import type { Department, Profile, RequestType, UserRole } from '../../types/models';
+import { hasCapability, roleBadgeColors, roleDescriptions, roleLabels } from '../../utils/permissions';
 import toast from 'react-hot-toast';
 import { format } from 'date-fns';
 
-interface User {
-  id: string;
-  // user_id: string; // Firebase uses id directly
-  email: string;
-  fullName: string;
-  role: 'admin' | 'user';
-  department: string | null;
-  createdAt: any;
-}
-
-interface Department {
-  id: string;
-  name: string;
-  code: string;
-  description?: string;
-}
-
 const UserManagement: React.FC = () => {
-  const [users, setUsers] = useState<User[]>([]);
+  const [users, setUsers] = useState<Profile[]>([]);
   const [departments, setDepartments] = useState<Department[]>([]);
+  const [requestTypes, setRequestTypes] = useState<RequestType[]>([]);
   const [loading, setLoading] = useState(true);
   const [showCreateForm, setShowCreateForm] = useState(false);
-  const [editingUser, setEditingUser] = useState<User | null>(null);
+  const [editingUser, setEditingUser] = useState<Profile | null>(null);
   const [formData, setFormData] = useState({
     email: '',
     password: '',
     fullName: '',
-    role: 'user' as 'admin' | 'user',
+    role: 'user' as UserRole,
     department: '',
+    skills: [] as string[],
+    coveredDepartmentIds: [] as string[],
   });
 
   useEffect(() => {
@@ -42,25 +30,20 @@ const UserManagement: React.FC = () => {
 
   const fetchData = async () => {
     try {
-      const [usersData, departmentsData] = await Promise.all([
+      const [usersData, departmentsData, requestTypesData] = await Promise.all([
         profileService.getAllProfiles(),
-        departmentService.getAllDepartments()
+        departmentService.getAllDepartments(),
+        requestTypeService.getAllRequestTypes()
       ]);
 
-      if (usersData) {
-        setUsers(usersData.map((user: any) => ({
-          id: user.id,
-          email: user.email || 'No email',
-          fullName: user.fullName || 'Unknown User',
-          role: user.role || 'user',
-          department: user.department,
-          createdAt: user.createdAt
-        })));
-      }
-
-      if (departmentsData) {
-        setDepartments(departmentsData);
-      }
+      setUsers(usersData.map(user => ({
+        ...user,
+        email: user.email || 'No email',
+        fullName: user.fullName || 'Unknown User',
+        role: user.role || 'user',
+      })));
+      setDepartments(departmentsData);
+      setRequestTypes(requestTypesData);
     } catch (error) {
       console.error('Error fetching users:', error);
       toast.error('Failed to load users');
@@ -71,6 +54,10 @@ const UserManagement: React.FC = () => {
 
   const handleCreateUser = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (formData.role === 'department_head' && !formData.department) {
+      toast.error('Department heads need a department');
+      return;
+    }
     setLoading(true);
 
     try {
@@ -90,6 +77,8 @@ const UserManagement: React.FC = () => {
         fullName: '',
         role: 'user',
         department: '',
+        skills: [],
+        coveredDepartmentIds: [],
       });
       fetchData();
     } catch (error: any) {
@@ -103,6 +92,10 @@ const UserManagement: React.FC = () => {
   const handleUpdateUser = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!editingUser) return;
+    if (formData.role === 'department_head' && !formData.department) {
+      toast.error('Department heads need a department');
+      return;
+    }
 
     setLoading(true);
     try {
@@ -110,6 +103,12 @@ const UserManagement: React.FC = () => {
         fullName: formData.fullName,
         role: formData.role,
         department: formData.department || null,
+        // Department heads are scoped to their department by id
+        departmentId: departments.find(dept => dept.name === formData.department)?.id ?? null,
+        // Only people who work requests are matched on skills and coverage
+        ...(hasCapability(formData.role, 'requests.work')
+          ? { skills: formData.skills, coveredDepartmentIds: formData.coveredDepartmentIds }
+          : { skills: [], coveredDepartmentIds: [] }),
       });
 
       toast.success('User updated successfully');
@@ -120,6 +119,8 @@ const UserManagement: React.FC = () => {
         fullName: '',
         role: 'user',
         department: '',
+        skills: [],
+        coveredDepartmentIds: [],
       });
       fetchData();
     } catch (error: any) {
@@ -146,7 +147,10 @@ const UserManagement: React.FC = () => {
     }
   };
 
-  const startEdit = (user: User) => {
+  const toggle = (values: string[], value: string) =>
+    values.includes(value) ? values.filter(item => item !== value) : [...values, value];
+
+  const startEdit = (user: Profile) => {
     setEditingUser(user);
     setFormData({
       email: user.email,
@@ -154,6 +158,8 @@ const UserManagement: React.FC = () => {
       fullName: user.fullName,
       role: user.role,
       department: user.department || '',
+      skills: user.skills,
+      coveredDepartmentIds: user.coveredDepartmentIds,
     });
   };
 
@@ -166,6 +172,8 @@ const UserManagement: React.FC = () => {
       fullName: '',
       role: 'user',
       department: '',
+      skills: [],
+      coveredDepartmentIds: [],
     });
   };
 
@@ -387,12 +395,14 @@ const UserManagement: React.FC = () => {
                 </label>
                 <select
                   value={formData.role}
-                  onChange={(e) => setFormData(prev => ({ ...prev, role: e.target.value as 'admin' | 'user' }))}
+                  onChange={(e) => setFormData(prev => ({ ...prev, role: e.target.value as UserRole }))}
                   className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                 >
-                  <option value="user">User</option>
-                  <option value="admin">Admin</option>
+                  {userRoles.map(role => (
+                    <option key={role} value={role}>{roleLabels[role]}</option>
+                  ))}
                 </select>
+                <p className="mt-1 text-xs text-gray-500">{roleDescriptions[formData.role]}</p>
               </div>
 
               <div className="md:col-span-2">
@@ -412,6 +422,54 @@ const UserManagement: React.FC = () => {
                   ))}
                 </select>
               </div>
+
+              {editingUser && hasCapability(formData.role, 'requests.work') && (
+                <>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Skills
+                    </label>
+                    <div className="border border-gray-300 rounded-lg p-3 max-h-40 overflow-y-auto space-y-1">
+                      {requestTypes.map(type => (
+                        <label key={type.id} className="flex items-center text-sm text-gray-700">
+                          <input
+                            type="checkbox"
+                            checked={formData.skills.includes(type.id)}
+                            onChange={() => setFormData(prev => ({ ...prev, skills: toggle(prev.skills, type.id) }))}
+                            className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded mr-2"
+                          />
+                          {type.name}
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Covered Departments
+                    </label>
+                    <div className="border border-gray-300 rounded-lg p-3 max-h-40 overflow-y-auto space-y-1">
+                      {departments.map(dept => (
+                        <label key={dept.id} className="flex items-center text-sm text-gray-700">
+                          <input
+                            type="checkbox"
+                            checked={formData.coveredDepartmentIds.includes(dept.id)}
+                            onChange={() => setFormData(prev => ({
+                              ...prev,
+                              coveredDepartmentIds: toggle(prev.coveredDepartmentIds, dept.id),
+                            }))}
+                            className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded mr-2"
+                          />
+                          {dept.name}
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                  <p className="md:col-span-2 text-xs text-gray-500">
+                    Used by "Best Match" assignment: a matching skill counts for more than department coverage.
+                  </p>
+                </>
+              )}
             </div>
 
             <div className="flex space-x-3 pt-4">
@@ -473,11 +531,11 @@ const UserManagement: React.FC = () => {
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
                     <span className={`px-2 py-1 text-xs font-semibold rounded-full ${
-                      (dept as any).isCritical 
+                      dept.isCritical 
                         ? 'bg-red-100 text-red-700' 
                         : 'bg-blue-100 text-blue-700'
                     }`}>
-                      {(dept as any).isCritical ? 'Critical' : 'Standard'}
+                      {dept.isCritical ? 'Critical' : 'Standard'}
                     </span>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
@@ -533,19 +591,15 @@ const UserManagement: React.FC = () => {
                     </div>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
-                    <span className={`px-2 py-1 text-xs font-semibold rounded-full ${
-                      user.role === 'admin' 
-                        ? 'bg-purple-100 text-purple-700' 
-                        : 'bg-blue-100 text-blue-700'
-                    }`}>
-                      {user.role}
+                    <span className={`px-2 py-1 text-xs font-semibold rounded-full ${roleBadgeColors[user.role]}`}>
+                      {roleLabels[user.role]}
                     </span>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                     {user.department || 'N/A'}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                    {user.createdAt ? format(user.createdAt.toDate(), 'MMM dd, yyyy') : 'N/A'}
+                    {user.createdAt ? format(new Date(user.createdAt), 'MMM dd, yyyy') : 'N/A'}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm font-medium space-x-2">
                     <button
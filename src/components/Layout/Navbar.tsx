@@ -1,15 +1,18 @@
-import React, { Fragment } from 'react';
+import React, { Fragment, useState } from 'react';
 import { Menu, Transition } from '@headlessui/react';
 import { 
   UserCircleIcon, 
   Cog6ToothIcon, 
-  ArrowRightOnRectangleIcon,
-  BellIcon
+  ArrowRightOnRectangleIcon
 } from '@heroicons/react/24/outline';
 import { useAuth } from '../../contexts/AuthContext';
+import { roleBadgeColors, roleLabels } from '../../utils/permissions';
+import NotificationBell from './NotificationBell';
+import NotificationPreferences from './NotificationPreferences';
 
 const Navbar: React.FC = () => {
-  const { profile, signOut, isAdmin } = useAuth();
+  const { profile, signOut, isAdmin, organizationName } = useAuth();
+  const [showPreferences, setShowPreferences] = useState(false);
 
   return (
     <nav className="bg-white/90 backdrop-blur-md border-b border-gray-200 sticky top-0 z-40">
@@ -18,15 +21,13 @@ const Navbar: React.FC = () => {
           <div className="flex items-center">
             <div className="flex-shrink-0">
               <h1 className="text-xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
-                Hospital IT Operations {isAdmin && '(Admin)'}
+                {organizationName ?? 'Hospital IT Operations'} {isAdmin && '(Admin)'}
               </h1>
             </div>
           </div>
 
           <div className="flex items-center space-x-4">
-            <button className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition-all duration-200">
-              <BellIcon className="h-5 w-5" />
-            </button>
+            <NotificationBell />
 
             <Menu as="div" className="relative inline-block text-left">
               <div>
@@ -34,13 +35,11 @@ const Navbar: React.FC = () => {
                   <UserCircleIcon className="h-6 w-6" />
                   <span className="hidden md:block">{profile?.full_name}</span>
                   <div className="hidden md:block">
-                    <span className={`px-2 py-1 text-xs rounded-full ${
-                      isAdmin 
-                        ? 'bg-purple-100 text-purple-700' 
-                        : 'bg-blue-100 text-blue-700'
-                    }`}>
-                      {profile?.role}
-                    </span>
+                    {profile && (
+                      <span className={`px-2 py-1 text-xs rounded-full ${roleBadgeColors[profile.role]}`}>
+                        {roleLabels[profile.role]}
+                      </span>
+                    )}
                   </div>
                 </Menu.Button>
               </div>
@@ -59,6 +58,7 @@ const Navbar: React.FC = () => {
                     <Menu.Item>
                       {({ active }) => (
                         <button
+                          onClick={() => setShowPreferences(true)}
                           className={`${
                             active ? 'bg-gray-100' : ''
                           } group flex w-full items-center rounded-md px-2 py-2 text-sm text-gray-700`}
@@ -88,6 +88,8 @@ const Navbar: React.FC = () => {
           </div>
         </div>
       </div>
+
+      <NotificationPreferences isOpen={showPreferences} onClose={() => setShowPreferences(false)} />
     </nav>
   );
 };
@@ -0,0 +1,142 @@
+import React, { Fragment, useCallback } from 'react';
+import { Popover, Transition } from '@headlessui/react';
+import {
+  ArrowPathIcon,
+  BellIcon,
+  ClipboardDocumentCheckIcon,
+  ExclamationTriangleIcon,
+  ShieldExclamationIcon,
+  WrenchScrewdriverIcon
+} from '@heroicons/react/24/outline';
+import { notificationService } from '../../services';
+import { useAuth } from '../../contexts/AuthContext';
+import { newItemHighlight, useLiveCollection } from '../../hooks/useLiveCollection';
+import type { LiveSubscription } from '../../hooks/useLiveCollection';
+import type { NotificationKind, UserNotification } from '../../types/models';
+import { formatDistanceToNow } from 'date-fns';
+import toast from 'react-hot-toast';
+
+const kindIcons: Record<NotificationKind, typeof BellIcon> = {
+  requestStatus: ArrowPathIcon,
+  emergencyRequest: ExclamationTriangleIcon,
+  incidentAssigned: ShieldExclamationIcon,
+  maintenanceOverdue: WrenchScrewdriverIcon,
+  complianceExpiring: ClipboardDocumentCheckIcon,
+};
+
+const kindColors: Record<NotificationKind, string> = {
+  requestStatus: 'bg-blue-100 text-blue-600',
+  emergencyRequest: 'bg-red-100 text-red-600',
+  incidentAssigned: 'bg-orange-100 text-orange-600',
+  maintenanceOverdue: 'bg-yellow-100 text-yellow-700',
+  complianceExpiring: 'bg-purple-100 text-purple-600',
+};
+
+// Bell in the navbar with the signed-in user's notifications and an unread count
+const NotificationBell: React.FC = () => {
+  const { profile } = useAuth();
+  const profileId = profile?.id;
+  const subscribeToNotifications = useCallback<LiveSubscription<UserNotification>>(
+    (onChange, onError) => notificationService.subscribeToNotifications(profileId as string, onChange, onError),
+    [profileId]
+  );
+  const { items: notifications, isNew } = useLiveCollection(profileId ? subscribeToNotifications : null, {
+    errorMessage: 'Failed to load notifications',
+  });
+  const unreadCount = notifications.filter(n => !n.readAt).length;
+
+  const markRead = async (notification: UserNotification) => {
+    if (!profileId || notification.readAt) return;
+    try {
+      await notificationService.markRead(profileId, [notification.id]);
+    } catch (error) {
+      console.error('Error marking notification read:', error);
+      toast.error((error as Error).message || 'Failed to update notification');
+    }
+  };
+
+  const markAllRead = async () => {
+    if (!profileId) return;
+    try {
+      await notificationService.markAllRead(profileId);
+    } catch (error) {
+      console.error('Error marking notifications read:', error);
+      toast.error((error as Error).message || 'Failed to update notifications');
+    }
+  };
+
+  return (
+    <Popover className="relative">
+      <Popover.Button className="relative p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition-all duration-200">
+        <BellIcon className="h-5 w-5" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[1.25rem] h-5 px-1 flex items-center justify-center rounded-full bg-red-500 text-white text-xs font-semibold">
+            {unreadCount > 9 ? '9+' : unreadCount}
+          </span>
+        )}
+      </Popover.Button>
+
+      <Transition
+        as={Fragment}
+        enter="transition ease-out duration-100"
+        enterFrom="transform opacity-0 scale-95"
+        enterTo="transform opacity-100 scale-100"
+        leave="transition ease-in duration-75"
+        leaveFrom="transform opacity-100 scale-100"
+        leaveTo="transform opacity-0 scale-95"
+      >
+        <Popover.Panel className="absolute right-0 mt-2 w-80 sm:w-96 origin-top-right rounded-lg bg-white shadow-lg ring-1 ring-black ring-opacity-5 focus:outline-none">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100">
+            <h3 className="text-sm font-semibold text-gray-900">Notifications</h3>
+            {unreadCount > 0 && (
+              <button
+                onClick={markAllRead}
+                className="text-xs text-blue-600 hover:text-blue-800"
+              >
+                Mark all as read
+              </button>
+            )}
+          </div>
+
+          {notifications.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-center text-gray-500">You're all caught up.</p>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+              {notifications.map(notification => {
+                const Icon = kindIcons[notification.kind];
+                return (
+                  <li key={notification.id}>
+                    <button
+                      onClick={() => markRead(notification)}
+                      className={`w-full flex items-start space-x-3 px-4 py-3 text-left hover:bg-gray-50 ${
+                        notification.readAt ? '' : 'bg-blue-50/50'
+                      } ${isNew(notification.id) ? newItemHighlight : ''}`}
+                    >
+                      <div className={`p-1.5 rounded-full ${kindColors[notification.kind]}`}>
+                        <Icon className="h-4 w-4" />
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <p className={`text-sm ${notification.readAt ? 'text-gray-700' : 'font-semibold text-gray-900'}`}>
+                          {notification.title}
+                        </p>
+                        <p className="text-sm text-gray-600 line-clamp-2">{notification.body}</p>
+                        <p className="text-xs text-gray-400 mt-1">
+                          {notification.createdAt
+                            ? formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })
+                            : 'Just now'}
+                        </p>
+                      </div>
+                      {!notification.readAt && <span className="mt-1.5 h-2 w-2 rounded-full bg-blue-500 flex-shrink-0" />}
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </Popover.Panel>
+      </Transition>
+    </Popover>
+  );
+};
+
+export default NotificationBell;
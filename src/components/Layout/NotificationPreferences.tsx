@@ -0,0 +1,213 @@
+import React, { useState, useEffect } from 'react';
+import { Dialog, Transition } from '@headlessui/react';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import { profileService } from '../../services';
+import { deliveryChannels } from '../../types/models';
+import type { DeliveryChannel } from '../../types/models';
+import { useAuth } from '../../contexts/AuthContext';
+import { deliveryChannelLabels } from '../../utils/outbox';
+import toast from 'react-hot-toast';
+
+interface NotificationPreferencesProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const emptyPreferences = {
+  phone: '',
+  notificationChannels: ['email'] as DeliveryChannel[],
+  quietHoursStart: '',
+  quietHoursEnd: '',
+};
+
+// Where the signed-in user receives email/SMS and when routine messages should wait
+const NotificationPreferences: React.FC<NotificationPreferencesProps> = ({ isOpen, onClose }) => {
+  const { profile } = useAuth();
+  const profileId = profile?.id;
+  const [formData, setFormData] = useState(emptyPreferences);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen || !profileId) return;
+
+    const fetchPreferences = async () => {
+      try {
+        const saved = await profileService.getProfile(profileId);
+        setFormData(saved ? {
+          phone: saved.phone ?? '',
+          notificationChannels: saved.notificationChannels,
+          quietHoursStart: saved.quietHoursStart ?? '',
+          quietHoursEnd: saved.quietHoursEnd ?? '',
+        } : emptyPreferences);
+      } catch (error) {
+        console.error('Error fetching notification preferences:', error);
+        toast.error((error as Error).message || 'Failed to load notification preferences');
+      }
+    };
+
+    fetchPreferences();
+  }, [isOpen, profileId]);
+
+  const toggleChannel = (channel: DeliveryChannel) => {
+    setFormData(prev => ({
+      ...prev,
+      notificationChannels: prev.notificationChannels.includes(channel)
+        ? prev.notificationChannels.filter(c => c !== channel)
+        : [...prev.notificationChannels, channel],
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!profileId) return;
+
+    if (formData.notificationChannels.includes('sms') && !formData.phone.trim()) {
+      toast.error('Add a mobile number to receive SMS');
+      return;
+    }
+    if (!formData.quietHoursStart !== !formData.quietHoursEnd) {
+      toast.error('Set both the start and the end of quiet hours, or neither');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await profileService.updateNotificationPreferences(profileId, {
+        phone: formData.phone.trim() || null,
+        notificationChannels: formData.notificationChannels,
+        quietHoursStart: formData.quietHoursStart || null,
+        quietHoursEnd: formData.quietHoursEnd || null,
+      });
+      toast.success('Notification preferences saved');
+      onClose();
+    } catch (error) {
+      console.error('Error saving notification preferences:', error);
+      toast.error((error as Error).message || 'Failed to save notification preferences');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Transition appear show={isOpen} as={React.Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={onClose}>
+        <Transition.Child
+          as={React.Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black bg-opacity-25 backdrop-blur-sm" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4">
+            <Transition.Child
+              as={React.Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 scale-95"
+              enterTo="opacity-100 scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 scale-100"
+              leaveTo="opacity-0 scale-95"
+            >
+              <Dialog.Panel className="w-full max-w-md transform rounded-2xl bg-white p-6 shadow-xl transition-all">
+                <Dialog.Title as="div" className="flex items-center justify-between mb-6">
+                  <h3 className="text-lg font-medium text-gray-900">
+                    Notification Preferences
+                  </h3>
+                  <button
+                    onClick={onClose}
+                    className="text-gray-400 hover:text-gray-600 transition-colors"
+                  >
+                    <XMarkIcon className="h-5 w-5" />
+                  </button>
+                </Dialog.Title>
+
+                <form onSubmit={handleSubmit} className="space-y-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Send me messages by
+                    </label>
+                    <div className="flex space-x-6">
+                      {deliveryChannels.map(channel => (
+                        <label key={channel} className="flex items-center space-x-2 text-sm text-gray-700">
+                          <input
+                            type="checkbox"
+                            checked={formData.notificationChannels.includes(channel)}
+                            onChange={() => toggleChannel(channel)}
+                            className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                          />
+                          <span>{deliveryChannelLabels[channel]}</span>
+                        </label>
+                      ))}
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">Email goes to {profile?.email}.</p>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Mobile Number
+                    </label>
+                    <input
+                      type="tel"
+                      value={formData.phone}
+                      onChange={(e) => setFormData(prev => ({ ...prev, phone: e.target.value }))}
+                      className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      placeholder="+1 555 0100"
+                    />
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Quiet Hours
+                    </label>
+                    <div className="grid grid-cols-2 gap-4">
+                      <input
+                        type="time"
+                        value={formData.quietHoursStart}
+                        onChange={(e) => setFormData(prev => ({ ...prev, quietHoursStart: e.target.value }))}
+                        className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                      <input
+                        type="time"
+                        value={formData.quietHoursEnd}
+                        onChange={(e) => setFormData(prev => ({ ...prev, quietHoursEnd: e.target.value }))}
+                        className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">
+                      Routine messages wait until quiet hours end. Emergency pages are always sent.
+                    </p>
+                  </div>
+
+                  <div className="flex space-x-3 pt-4">
+                    <button
+                      type="button"
+                      onClick={onClose}
+                      className="flex-1 bg-gray-200 hover:bg-gray-300 text-gray-800 font-medium py-2 px-4 rounded-lg transition-colors"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      type="submit"
+                      disabled={loading}
+                      className="flex-1 bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded-lg transition-all duration-200 disabled:opacity-50"
+                    >
+                      {loading ? 'Saving...' : 'Save'}
+                    </button>
+                  </div>
+                </form>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition>
+  );
+};
+
+export default NotificationPreferences;
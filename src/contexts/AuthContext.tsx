@@ -1,29 +1,32 @@
-import React, { createContext, useContext, useEffect, useState } from 'react';
-import { 
-  User,
-  signInWithEmailAndPassword,
-  createUserWithEmailAndPassword,
-  signInWithPopup,
-  signOut as firebaseSignOut,
-  onAuthStateChanged,
-  updateProfile
-} from 'firebase/auth';
-import { doc, setDoc, getDoc } from 'firebase/firestore';
-import { auth, googleProvider, db } from '../lib/firebase';
-import { profileService, initializeSampleData } from '../services/firebaseService';
+import React, { createContext, useContext, useEffect, useRef, useState } from 'react';
+import { authService, profileService, systemConfigService } from '../services';
+import { setAccessContext } from '../services/accessControl';
+import type { AuthUser } from '../services/repository';
+import type { Profile, UserRole } from '../types/models';
+import { Capability, hasCapability, isOperationsRole } from '../utils/permissions';
 import toast from 'react-hot-toast';
 
 interface UserProfile {
   id: string;
   email: string;
   fullName: string;
-  role: 'admin' | 'user';
+  role: UserRole;
   department?: string;
-  createdAt?: any;
+  departmentId?: string | null;
+  createdAt?: string | null;
+}
+
+// Everything the first-run setup wizard collects
+export interface SetupDetails {
+  organizationName: string;
+  fullName: string;
+  email: string;
+  password: string;
+  loadSampleData: boolean;
 }
 
 interface AuthContextType {
-  user: User | null;
+  user: AuthUser | null;
   profile: UserProfile | null;
   loading: boolean;
   signIn: (email: string, password: string) => Promise<void>;
@@ -31,6 +34,13 @@ interface AuthContextType {
   signInWithGoogle: () => Promise<void>;
   signOut: () => Promise<void>;
   isAdmin: boolean;
+  // True for every role that gets the operations dashboard rather than the staff one
+  hasOperationsAccess: boolean;
+  can: (capability: Capability) => boolean;
+  // Null until setup has run (or while the system config is unreadable)
+  organizationName: string | null;
+  setupRequired: boolean;
+  completeSetup: (details: SetupDetails) => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType>({
@@ -42,6 +52,11 @@ const AuthContext = createContext<AuthContextType>({
   signInWithGoogle: async () => {},
   signOut: async () => {},
   isAdmin: false,
+  hasOperationsAccess: false,
+  can: () => false,
+  organizationName: null,
+  setupRequired: false,
+  completeSetup: async () => {},
 });
 
 export const useAuth = () => {
@@ -56,75 +71,83 @@ interface AuthProviderProps {
   children: React.ReactNode;
 }
 
+// The account's profile, created on first sign-in (a new sign-up, or Google).
+// Everyone starts as staff until an admin changes the role.
+const ensureProfile = async (account: AuthUser, department: string) => {
+  const existing = await profileService.getProfile(account.uid);
+  if (existing) return existing;
+  await profileService.createProfile(account.uid, {
+    email: account.email ?? '',
+    fullName: account.displayName || account.email?.split('@')[0] || 'User',
+    role: 'user',
+    department,
+  });
+  const created = await profileService.getProfile(account.uid);
+  if (!created) throw new Error('Your profile could not be created');
+  return created;
+};
+
+const toUserProfile = (profile: Profile, account: AuthUser): UserProfile => ({
+  id: profile.id,
+  email: account.email || profile.email,
+  fullName: profile.fullName || account.displayName || '',
+  role: profile.role,
+  department: profile.department ?? undefined,
+  departmentId: profile.departmentId,
+  createdAt: profile.createdAt,
+});
+
 export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
-  const [user, setUser] = useState<User | null>(null);
+  const [user, setUser] = useState<AuthUser | null>(null);
   const [profile, setProfile] = useState<UserProfile | null>(null);
   const [loading, setLoading] = useState(true);
+  const [configLoading, setConfigLoading] = useState(true);
+  const [organizationName, setOrganizationName] = useState<string | null>(null);
+  const [setupRequired, setSetupRequired] = useState(false);
+  // Set while signUp or completeSetup create an account, whose profile they write themselves
+  const creatingAccount = useRef(false);
+
+  // The service layer's permission checks must know the profile before any
+  // screen below mounts and fetches, so sync it during render rather than in an effect
+  setAccessContext(profile ? { userId: profile.id, role: profile.role, departmentId: profile.departmentId ?? null } : null);
 
   useEffect(() => {
-    const unsubscribe = onAuthStateChanged(auth, async (user) => {
-      setUser(user);
-      
-      if (user) {
-        await fetchUserProfile(user);
-      } else {
+    systemConfigService.getConfig()
+      .then((config) => {
+        setOrganizationName(config?.organizationName ?? null);
+        setSetupRequired(!config);
+      })
+      .catch((error) => console.error('Error loading system config:', error))
+      .finally(() => setConfigLoading(false));
+  }, []);
+
+  useEffect(() => {
+    const loadProfile = async (account: AuthUser) => {
+      try {
+        setProfile(toUserProfile(await ensureProfile(account, 'General'), account));
+      } catch (error) {
+        console.error('Error fetching user profile:', error);
+        toast.error('Failed to load user profile');
+      }
+    };
+
+    return authService.onAuthStateChanged(async (account) => {
+      setUser(account);
+
+      if (account && !creatingAccount.current) {
+        await loadProfile(account);
+      } else if (!account) {
         setProfile(null);
       }
-      
+
       setLoading(false);
     });
-
-    return unsubscribe;
   }, []);
 
-  const fetchUserProfile = async (user: User) => {
-    try {
-      const profileRef = doc(db, 'profiles', user.uid);
-      const profileSnap = await getDoc(profileRef);
-      
-      if (profileSnap.exists()) {
-        const profileData = profileSnap.data();
-        setProfile({
-          id: user.uid,
-          email: user.email || '',
-          fullName: profileData.fullName || user.displayName || '',
-          role: profileData.role || (user.email === 'mhiskall123@gmail.com' ? 'admin' : 'user'),
-          department: profileData.department,
-          createdAt: profileData.createdAt
-        });
-      } else {
-        // Create new profile for first-time users
-        const isAdmin = user.email === 'mhiskall123@gmail.com';
-        const newProfile = {
-          fullName: user.displayName || user.email?.split('@')[0] || 'User',
-          role: isAdmin ? 'admin' as const : 'user' as const,
-          department: 'General',
-          createdAt: new Date(),
-          updatedAt: new Date()
-        };
-        
-        await setDoc(profileRef, newProfile);
-        
-        setProfile({
-          id: user.uid,
-          email: user.email || '',
-          ...newProfile
-        });
-
-        // Initialize sample data for new users
-        await initializeSampleData(user.uid);
-        toast.success(isAdmin ? 'Welcome Admin! Sample data has been created.' : 'Welcome! Sample data has been created for you.');
-      }
-    } catch (error) {
-      console.error('Error fetching user profile:', error);
-      toast.error('Failed to load user profile');
-    }
-  };
-
   const signIn = async (email: string, password: string) => {
     try {
       setLoading(true);
-      await signInWithEmailAndPassword(auth, email, password);
+      await authService.signIn(email, password);
       toast.success('Welcome back!');
     } catch (error: any) {
       console.error('Sign in error:', error);
@@ -136,37 +159,66 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   };
 
   const signUp = async (email: string, password: string, fullName: string) => {
+    creatingAccount.current = true;
     try {
       setLoading(true);
-      const { user } = await createUserWithEmailAndPassword(auth, email, password);
-      
-      // Update user profile
-      await updateProfile(user, { displayName: fullName });
-      
-      // Create user profile in Firestore
-      await setDoc(doc(db, 'profiles', user.uid), {
-        fullName,
-        role: 'user',
-        department: 'General',
-        createdAt: new Date(),
-        updatedAt: new Date()
-      });
-
+      const account = await authService.signUp(email, password, fullName);
+      const created = await ensureProfile({ ...account, displayName: fullName }, 'General');
+      setUser(account);
+      setProfile(toUserProfile(created, account));
       toast.success('Account created successfully!');
     } catch (error: any) {
       console.error('Sign up error:', error);
       toast.error(error.message || 'Failed to create account');
       throw error;
     } finally {
+      creatingAccount.current = false;
       setLoading(false);
     }
   };
 
+  // Creates the first admin account and the system config in one go. The
+  // account starts as staff and is promoted by completeSetup, which the
+  // backend only allows once. Everything runs under the new account's own
+  // session, and a run that failed halfway can simply be repeated.
+  const completeSetup = async ({ organizationName, fullName, email, password, loadSampleData }: SetupDetails) => {
+    creatingAccount.current = true;
+    try {
+      // An earlier attempt may already have created the account
+      const account = await authService.signIn(email, password)
+        .catch(() => authService.signUp(email, password, fullName));
+      const adminProfile = await ensureProfile({ ...account, displayName: fullName }, 'IT Department');
+
+      // The new account only reaches the access context on the next render, so pass it on directly
+      setAccessContext({ userId: adminProfile.id, role: adminProfile.role, departmentId: null });
+      await systemConfigService.completeSetup({ organizationName, adminUserId: adminProfile.id });
+      setAccessContext({ userId: adminProfile.id, role: 'admin', departmentId: null });
+
+      if (loadSampleData) {
+        await systemConfigService.seedSampleData();
+      }
+
+      const promoted = await profileService.getProfile(account.uid);
+      setUser(account);
+      setProfile(toUserProfile(promoted ?? { ...adminProfile, role: 'admin' }, account));
+      setOrganizationName(organizationName);
+      setSetupRequired(false);
+      toast.success(`${organizationName} is ready to use`);
+    } catch (error) {
+      console.error('Setup error:', error);
+      toast.error((error as Error).message || 'Failed to complete setup');
+      throw error;
+    } finally {
+      creatingAccount.current = false;
+    }
+  };
+
   const signInWithGoogle = async () => {
     try {
       setLoading(true);
-      const result = await signInWithPopup(auth, googleProvider);
-      toast.success(`Welcome ${result.user.displayName}!`);
+      const account = await authService.signInWithGoogle();
+      // Null while the browser is redirected to Google; the account arrives on return
+      if (account) toast.success(`Welcome ${account.displayName}!`);
     } catch (error: any) {
       console.error('Google sign in error:', error);
       toast.error(error.message || 'Failed to sign in with Google');
@@ -178,7 +230,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
 
   const signOut = async () => {
     try {
-      await firebaseSignOut(auth);
+      await authService.signOut();
       setProfile(null);
       toast.success('Signed out successfully');
     } catch (error: any) {
@@ -186,16 +238,20 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       toast.error('Failed to sign out');
     }
   };
-
   const value = {
     user,
     profile,
-    loading,
+    loading: loading || configLoading,
     signIn,
     signUp,
     signInWithGoogle,
     signOut,
     isAdmin: profile?.role === 'admin',
+    hasOperationsAccess: isOperationsRole(profile?.role),
+    can: (capability: Capability) => hasCapability(profile?.role, capability),
+    organizationName,
+    setupRequired,
+    completeSetup,
   };
 
   return (
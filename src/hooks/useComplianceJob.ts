@@ -0,0 +1,8 @@
+import { COMPLIANCE_CHECK_INTERVAL_MS, runComplianceChecks } from '../services/complianceJob';
+import { usePeriodicJob } from './usePeriodicJob';
+
+// Keeps certificate statuses and renewal tasks in step with the expiry dates:
+// straight away and then on a timer while `enabled`. Changes show up through
+// the compliance and schedule views, so there is no toast.
+export const useComplianceJob = (enabled: boolean, intervalMs = COMPLIANCE_CHECK_INTERVAL_MS) =>
+  usePeriodicJob(runComplianceChecks, { enabled, name: 'Compliance checks', intervalMs });
@@ -0,0 +1,18 @@
+import toast from 'react-hot-toast';
+import { ESCALATION_INTERVAL_MS, runEscalations } from '../services/escalationJob';
+import { usePeriodicJob } from './usePeriodicJob';
+
+// Runs the escalation rules straight away and then on a timer while `enabled`
+// (the dashboard passes whether the user may run escalations). The background
+// worker (src/worker.ts) runs them when no admin dashboard is open.
+export const useEscalationJob = (enabled: boolean, intervalMs = ESCALATION_INTERVAL_MS) =>
+  usePeriodicJob(runEscalations, {
+    enabled,
+    name: 'Escalation run',
+    intervalMs,
+    onResult: (applied) => {
+      if (applied.length > 0) {
+        toast(`${applied.length} unattended item${applied.length === 1 ? '' : 's'} escalated`, { icon: '⏫' });
+      }
+    },
+  });
@@ -0,0 +1,69 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import toast from 'react-hot-toast';
+import type { ChangeListener, ErrorListener, Unsubscribe } from '../services/repository';
+
+// How long an item that arrived while the list was open stays highlighted
+export const NEW_ITEM_HIGHLIGHT_MS = 15000;
+
+export type LiveSubscription<T> = (onChange: ChangeListener<T>, onError?: ErrorListener) => Unsubscribe;
+
+interface LiveCollectionOptions {
+  // Toast shown when the subscription fails
+  errorMessage?: string;
+}
+
+// Keeps a list in sync with one of the repositories' subscribe* methods.
+// Pass a stable function (a service method, or one wrapped in useCallback);
+// pass null to wait, e.g. until the signed-in user is known.
+export const useLiveCollection = <T extends { id: string }>(
+  subscribe: LiveSubscription<T> | null,
+  { errorMessage = 'Live updates are unavailable' }: LiveCollectionOptions = {}
+) => {
+  const [items, setItems] = useState<T[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [newIds, setNewIds] = useState<Set<string>>(() => new Set());
+  const knownIds = useRef<Set<string> | null>(null);
+
+  useEffect(() => {
+    if (!subscribe) return;
+
+    knownIds.current = null;
+    const timers: number[] = [];
+
+    const unsubscribe = subscribe(
+      (next) => {
+        // Everything in the first snapshot is old news; later additions are new
+        const known = knownIds.current;
+        const arrived = known ? next.filter((item) => !known.has(item.id)).map((item) => item.id) : [];
+        knownIds.current = new Set(next.map((item) => item.id));
+
+        setItems(next);
+        setLoading(false);
+
+        if (arrived.length > 0) {
+          setNewIds((current) => new Set([...current, ...arrived]));
+          timers.push(window.setTimeout(() => {
+            setNewIds((current) => new Set([...current].filter((id) => !arrived.includes(id))));
+          }, NEW_ITEM_HIGHLIGHT_MS));
+        }
+      },
+      (error) => {
+        console.error('Live subscription error:', error);
+        toast.error(errorMessage);
+        setLoading(false);
+      }
+    );
+
+    return () => {
+      unsubscribe();
+      timers.forEach((timer) => window.clearTimeout(timer));
+    };
+  }, [subscribe, errorMessage]);
+
+  const isNew = useCallback((id: string) => newIds.has(id), [newIds]);
+
+  return { items, loading, isNew };
+};
+
+// Row/card classes for an item flagged by isNew
+export const newItemHighlight = 'bg-blue-50 ring-2 ring-inset ring-blue-300';
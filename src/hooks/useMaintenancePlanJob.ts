@@ -0,0 +1,8 @@
+import { PLAN_SYNC_INTERVAL_MS, syncMaintenancePlans } from '../services/maintenancePlanJob';
+import { usePeriodicJob } from './usePeriodicJob';
+
+// Keeps the schedule generated from the maintenance plans up to date: straight
+// away and then on a timer while `enabled`. New entries show up through the
+// schedule subscription, so there is no toast.
+export const useMaintenancePlanJob = (enabled: boolean, intervalMs = PLAN_SYNC_INTERVAL_MS) =>
+  usePeriodicJob(syncMaintenancePlans, { enabled, name: 'Maintenance plan sync', intervalMs });
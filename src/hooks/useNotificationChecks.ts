@@ -0,0 +1,8 @@
+import { NOTIFICATION_CHECK_INTERVAL_MS, runNotificationChecks } from '../services/notificationJob';
+import { usePeriodicJob } from './usePeriodicJob';
+
+// Runs the overdue-maintenance and expiring-certificate checks straight away
+// and then on a timer while `enabled`. Results arrive through the bell menu,
+// so unlike the escalation job there is no toast.
+export const useNotificationChecks = (enabled: boolean, intervalMs = NOTIFICATION_CHECK_INTERVAL_MS) =>
+  usePeriodicJob(runNotificationChecks, { enabled, name: 'Notification checks', intervalMs });
@@ -0,0 +1,13 @@
+import { useEffect, useState } from 'react';
+
+// Current time, refreshed every `intervalMs` so countdowns keep ticking
+export const useNow = (intervalMs = 30000) => {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(new Date()), intervalMs);
+    return () => window.clearInterval(timer);
+  }, [intervalMs]);
+
+  return now;
+};
@@ -0,0 +1,8 @@
+import { OUTBOX_DISPATCH_INTERVAL_MS, dispatchOutbox } from '../services/outboxDispatcher';
+import { usePeriodicJob } from './usePeriodicJob';
+
+// Delivers queued email/SMS straight away and then on a timer while `enabled`
+// (the dashboard passes whether the user works on requests). This only speeds
+// things up; the background worker (src/worker.ts) delivers when no dashboard is open.
+export const useOutboxDispatcher = (enabled: boolean, intervalMs = OUTBOX_DISPATCH_INTERVAL_MS) =>
+  usePeriodicJob(dispatchOutbox, { enabled, name: 'Outbox dispatch', intervalMs });
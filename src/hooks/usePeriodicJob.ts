@@ -0,0 +1,22 @@
+import { useEffect, useRef } from 'react';
+import { PeriodicJobOptions, startPeriodicJob } from '../utils/periodicJob';
+
+// Runs a background job while `enabled`; see startPeriodicJob. The job and
+// onResult are read at run time, so callers may pass inline functions without
+// restarting the timer on every render.
+export const usePeriodicJob = <T>(
+  job: () => Promise<T>,
+  { enabled, name, intervalMs, onResult }: PeriodicJobOptions<T> & { enabled: boolean }
+) => {
+  const latest = useRef({ job, onResult });
+  latest.current = { job, onResult };
+
+  useEffect(() => {
+    if (!enabled) return;
+    return startPeriodicJob(() => latest.current.job(), {
+      name,
+      intervalMs,
+      onResult: (result) => latest.current.onResult?.(result),
+    });
+  }, [enabled, name, intervalMs]);
+};
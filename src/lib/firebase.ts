@@ -1,6 +1,7 @@
 import { initializeApp } from 'firebase/app';
 import { getAuth, GoogleAuthProvider } from 'firebase/auth';
 import { getFirestore } from 'firebase/firestore';
+import { getStorage } from 'firebase/storage';
 import { getAnalytics } from 'firebase/analytics';
 
 // Your web app's Firebase configuration
@@ -20,7 +21,9 @@ const app = initializeApp(firebaseConfig);
 // Initialize Firebase services
 export const auth = getAuth(app);
 export const db = getFirestore(app);
-export const analytics = getAnalytics(app);
+export const storage = getStorage(app);
+// Analytics needs a browser, and the background worker runs in Node
+export const analytics = typeof window !== 'undefined' ? getAnalytics(app) : null;
 
 // Google Auth Provider
 export const googleProvider = new GoogleAuthProvider();
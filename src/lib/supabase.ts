@@ -1,9 +1,17 @@
-import { createClient } from '@supabase/supabase-js';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL || '';
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY || '';
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey);
+let client: SupabaseClient | null = null;
+
+// Created on first use so other data backends can run without Supabase credentials
+export const getSupabase = () => {
+  if (!client) {
+    client = createClient(supabaseUrl, supabaseAnonKey);
+  }
+  return client;
+};
 
 export type Database = {
   public: {
@@ -14,9 +22,15 @@ export type Database = {
           user_id: string;
           email: string;
           full_name: string;
-          role: 'admin' | 'user';
+          role: 'admin' | 'technician' | 'department_head' | 'auditor' | 'user';
           department: string | null;
           department_id: string | null;
+          skills: string[];
+          covered_department_ids: string[];
+          phone: string | null;
+          notification_channels: ('email' | 'sms')[];
+          quiet_hours_start: string | null;
+          quiet_hours_end: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -25,7 +39,7 @@ export type Database = {
           user_id: string;
           email: string;
           full_name: string;
-          role?: 'admin' | 'user';
+          role?: 'admin' | 'technician' | 'department_head' | 'auditor' | 'user';
           department?: string | null;
           department_id?: string | null;
           created_at?: string;
@@ -36,7 +50,7 @@ export type Database = {
           user_id?: string;
           email?: string;
           full_name?: string;
-          role?: 'admin' | 'user';
+          role?: 'admin' | 'technician' | 'department_head' | 'auditor' | 'user';
           department?: string | null;
           department_id?: string | null;
           created_at?: string;
@@ -82,11 +96,162 @@ export type Database = {
           assigned_admin_id: string | null;
           device_id: string | null;
           resolution_notes: string | null;
+          approved_by: string | null;
+          approved_at: string | null;
+          sla_policy_id: string | null;
+          response_due_at: string | null;
+          resolution_due_at: string | null;
+          responded_at: string | null;
           created_at: string;
           updated_at: string;
           completed_at: string | null;
         };
       };
+      escalation_rules: {
+        Row: {
+          id: string;
+          name: string;
+          applies_to: 'request' | 'incident';
+          threshold_minutes: number;
+          raise_priority_to: string | null;
+          reassign_to_on_call: boolean;
+          reassign_to_id: string | null;
+          is_active: boolean;
+          created_at: string;
+        };
+      };
+      escalation_events: {
+        Row: {
+          id: string;
+          rule_id: string;
+          rule_name: string;
+          target_type: 'request' | 'incident';
+          target_id: string;
+          target_title: string;
+          previous_priority: string;
+          new_priority: string;
+          previous_assignee_id: string | null;
+          new_assignee_id: string | null;
+          escalated_at: string;
+        };
+      };
+      on_call_rotations: {
+        Row: {
+          id: string;
+          name: string;
+          member_ids: string[];
+          starts_at: string;
+          shift_days: number;
+          request_type_ids: string[];
+          is_active: boolean;
+          created_at: string;
+        };
+      };
+      on_call_overrides: {
+        Row: {
+          id: string;
+          rotation_id: string;
+          profile_id: string;
+          starts_at: string;
+          ends_at: string;
+          reason: string | null;
+          created_by: string;
+          created_at: string;
+        };
+      };
+      request_assignments: {
+        Row: {
+          id: string;
+          request_id: string;
+          from_assignee_id: string | null;
+          to_assignee_id: string;
+          method: 'manual' | 'round_robin' | 'skill' | 'on_call' | 'escalation';
+          reason: string | null;
+          assigned_by: string;
+          assigned_at: string;
+        };
+      };
+      request_activity: {
+        Row: {
+          id: string;
+          request_id: string;
+          kind: 'comment' | 'status' | 'assignment' | 'escalation';
+          author_id: string | null;
+          body: string;
+          is_internal: boolean;
+          created_at: string;
+        };
+      };
+      attachments: {
+        Row: {
+          id: string;
+          owner_type: 'request' | 'incident' | 'device';
+          owner_id: string;
+          device_id: string | null;
+          file_name: string;
+          content_type: string;
+          size: number;
+          storage_path: string;
+          thumbnail_path: string | null;
+          uploaded_by: string;
+          created_at: string;
+        };
+      };
+      notifications: {
+        Row: {
+          id: string;
+          recipient_id: string;
+          kind: string;
+          title: string;
+          body: string;
+          target_type: 'request' | 'incident' | 'maintenance' | 'compliance';
+          target_id: string;
+          dedupe_key: string | null;
+          read_at: string | null;
+          created_at: string;
+        };
+      };
+      outbox: {
+        Row: {
+          id: string;
+          template: 'emergencyRequest' | 'criticalIncident' | 'requestReceived';
+          recipient_id: string | null;
+          recipient_roles: ('admin' | 'technician' | 'department_head' | 'auditor' | 'user')[];
+          variables: Record<string, string>;
+          status: 'pending' | 'sending' | 'sent' | 'failed';
+          attempts: number;
+          next_attempt_at: string;
+          last_error: string | null;
+          delivered_to: string[];
+          sent_at: string | null;
+          created_at: string;
+        };
+      };
+      audit_log: {
+        Row: {
+          id: string;
+          entity_type: string;
+          entity_id: string;
+          entity_label: string;
+          action: 'create' | 'update' | 'delete';
+          actor_id: string | null;
+          changes: { field: string; before: unknown; after: unknown }[];
+          timestamp: string;
+        };
+      };
+      sla_policies: {
+        Row: {
+          id: string;
+          name: string;
+          priority: string | null;
+          urgency_level: string | null;
+          request_type_id: string | null;
+          response_minutes: number;
+          resolution_minutes: number;
+          is_active: boolean;
+          created_at: string;
+        };
+      };
       departments: {
         Row: {
           id: string;
@@ -108,6 +273,15 @@ export type Database = {
           is_medical_device: boolean;
           requires_certification: boolean;
           maintenance_interval_days: number;
+          checklist: {
+            id: string;
+            label: string;
+            kind: string;
+            required: boolean;
+            unit: string | null;
+            min: number | null;
+            max: number | null;
+          }[];
           created_at: string;
         };
       };
@@ -122,6 +296,53 @@ export type Database = {
           notes: string | null;
           cost: number | null;
           status: string;
+          plan_id: string | null;
+          manually_scheduled: boolean;
+          compliance_record_id: string | null;
+          checklist: {
+            id: string;
+            label: string;
+            kind: string;
+            required: boolean;
+            unit: string | null;
+            min: number | null;
+            max: number | null;
+            done: boolean;
+            value: number | null;
+          }[];
+          parts_used: {
+            partId: string | null;
+            storeRoom: string | null;
+            partNumber: string | null;
+            description: string;
+            quantity: number;
+            unitCost: number | null;
+          }[];
+          labour_hours: number | null;
+          signed_off_by: string | null;
+          signed_off_at: string | null;
+          parts_consumed_at: string | null;
+          created_at: string;
+        };
+      };
+      maintenance_plans: {
+        Row: {
+          id: string;
+          name: string;
+          device_id: string | null;
+          equipment_type_id: string | null;
+          maintenance_type: string;
+          recurrence: 'interval' | 'calendar' | 'meter';
+          start_date: string;
+          interval_days: number | null;
+          interval_months: number | null;
+          meter_unit: string | null;
+          meter_interval: number | null;
+          daily_usage: number | null;
+          technician_id: string | null;
+          estimated_cost: number | null;
+          notes: string | null;
+          is_active: boolean;
           created_at: string;
         };
       };
@@ -136,6 +357,9 @@ export type Database = {
           status: string;
           auditor_name: string | null;
           notes: string | null;
+          reminder_days: number[];
+          renewed_from: string | null;
+          superseded_by: string | null;
           created_at: string;
         };
       };
@@ -152,17 +376,32 @@ export type Database = {
           root_cause: string | null;
           corrective_action: string | null;
           status: string;
+          assigned_to: string | null;
           occurred_at: string;
           resolved_at: string | null;
           created_at: string;
         };
       };
+      spare_parts: {
+        Row: {
+          id: string;
+          part_number: string;
+          name: string;
+          description: string | null;
+          compatible_equipment_type_ids: string[];
+          stock_levels: { storeRoom: string; quantity: number }[];
+          reorder_point: number;
+          unit_cost: number | null;
+          created_at: string;
+        };
+      };
       service_contracts: {
         Row: {
           id: string;
           vendor_name: string;
           contract_number: string;
           equipment_type_id: string | null;
+          device_ids: string[];
           start_date: string;
           end_date: string;
           contract_value: number | null;
@@ -190,6 +429,15 @@ export type Database = {
           created_at: string;
         };
       };
+      system_config: {
+        Row: {
+          id: 'config';
+          organization_name: string;
+          setup_completed_by: string;
+          setup_completed_at: string;
+          sample_data_seeded_at: string | null;
+        };
+      };
     };
   };
 };
\ No newline at end of file
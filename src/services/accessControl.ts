@@ -0,0 +1,476 @@
+import type { Attachment, AttachmentOwnerType, Request, RequestActivity, UserNotification, UserRole } from '../types/models';
+import { Capability, hasAnyCapability, hasCapability } from '../utils/permissions';
+import type { ChangeListener, DataRepository, ErrorListener, Unsubscribe } from './repository';
+import { findOnCall, onCallUrgencyLevels } from '../utils/onCall';
+
+// Service-layer half of the permission model: every repository call checks the
+// signed-in user's capabilities before it reaches a backend. The Supabase RLS
+// policies enforce the same rules server-side; Firestore and the memory store
+// rely on this layer.
+
+export interface AccessContext {
+  userId: string;
+  role: UserRole;
+  departmentId: string | null;
+}
+
+export class PermissionDeniedError extends Error {
+  readonly action: string;
+
+  constructor(action: string) {
+    super(`You do not have permission to ${action}`);
+    this.name = 'PermissionDeniedError';
+    this.action = action;
+  }
+}
+
+let access: AccessContext | null = null;
+
+// Called by AuthContext whenever the signed-in profile changes (null on sign-out)
+export const setAccessContext = (context: AccessContext | null) => {
+  access = context;
+};
+
+export const getAccessContext = () => access;
+
+const can = (...anyOf: Capability[]) => hasAnyCapability(access?.role, anyOf);
+
+const requireCapability = <A extends unknown[], R>(
+  action: string,
+  anyOf: Capability[],
+  method: (...args: A) => Promise<R>
+) => async (...args: A): Promise<R> => {
+  if (!can(...anyOf)) throw new PermissionDeniedError(action);
+  return method(...args);
+};
+
+// Subscriptions report a denial through onError instead of throwing during render
+const requireForSubscription = <T>(
+  action: string,
+  allowed: () => boolean,
+  subscribe: (onChange: ChangeListener<T>, onError?: ErrorListener) => Unsubscribe
+) => (onChange: ChangeListener<T>, onError?: ErrorListener): Unsubscribe => {
+  if (!allowed()) {
+    onError?.(new PermissionDeniedError(action));
+    return () => {};
+  }
+  return subscribe(onChange, onError);
+};
+
+// Department heads only see requests raised for their own department
+const scopeRequests = (requests: Request[]) =>
+  hasCapability(access?.role, 'requests.viewAll')
+    ? requests
+    : requests.filter((request) => !!access?.departmentId && request.departmentId === access.departmentId);
+
+const canSeeUserRequests = (userId: string) => access?.userId === userId || can('requests.viewAll');
+
+// Requesters see their own requests, department heads their department's, IT all of them
+const canSeeRequest = (request: Request) =>
+  request.userId === access?.userId ||
+  (can('requests.viewAll', 'requests.viewDepartment') && scopeRequests([request]).length > 0);
+
+// Internal notes stay within IT (and the auditors who review its work)
+const visibleActivity = (activity: RequestActivity[]) =>
+  can('requests.work', 'requests.viewAll') ? activity : activity.filter((entry) => !entry.isInternal);
+
+// The only fields a department head may change when signing a request off
+const approvalFields = ['approvedBy', 'approvedAt', 'status'];
+
+const isApprovalUpdate = (updates: Partial<Request>) =>
+  Object.keys(updates).every((key) => approvalFields.includes(key)) &&
+  (updates.status === undefined || updates.status === 'rejected');
+
+export const withAccessControl = (repository: DataRepository): DataRepository => {
+  const {
+    profileService,
+    departmentService,
+    requestTypeService,
+    deviceCategoryService,
+    deviceService,
+    requestService,
+    incidentService,
+    maintenanceService,
+    complianceService,
+    equipmentTypeService,
+    sparePartService,
+    serviceContractService,
+    slaPolicyService,
+    escalationService,
+    onCallService,
+    attachmentService,
+    notificationService,
+    outboxService,
+    auditLogService,
+    systemConfigService,
+  } = repository;
+
+  // Attachments follow the record they belong to: whoever can see the request
+  // or incident can see its files, and device files go with the device register
+  const canSeeOwner = async (ownerType: AttachmentOwnerType, ownerId: string) => {
+    if (ownerType === 'request') {
+      const request = await requestService.getRequest(ownerId);
+      return !!request && canSeeRequest(request);
+    }
+    if (ownerType === 'incident') {
+      if (can('incidents.view')) return true;
+      const incident = (await incidentService.getAllIncidents()).find((item) => item.id === ownerId);
+      return !!incident && incident.reportedBy === access?.userId;
+    }
+    return can('devices.view');
+  };
+
+  // A requester may hand their own new emergency request to whoever is on call
+  // for it (RequestModal does this straight after creating it)
+  const isOnCallRouting = async (requestId: string, toAssigneeId: string) => {
+    const request = await requestService.getRequest(requestId);
+    if (!request || request.userId !== access?.userId || request.assignedAdminId) return false;
+    if (!onCallUrgencyLevels.includes(request.urgencyLevel)) return false;
+    const now = new Date();
+    const [rotations, overrides] = await Promise.all([
+      onCallService.getAllRotations(),
+      onCallService.getOverrides(now.toISOString()),
+    ]);
+    return findOnCall(rotations, overrides, now, request.requestTypeId).some((shift) => shift.profileId === toAssigneeId);
+  };
+
+  // Uploaders may remove their own files; otherwise it takes the right to manage the record
+  const canRemoveAttachment = (attachment: Attachment) => {
+    if (attachment.uploadedBy === access?.userId) return true;
+    if (attachment.ownerType === 'request') return can('requests.work');
+    if (attachment.ownerType === 'incident') return can('incidents.manage');
+    return can('devices.manage');
+  };
+
+  return {
+    profileService: {
+      ...profileService,
+      createUser: requireCapability('create users', ['users.manage'], profileService.createUser),
+      deleteUser: requireCapability('delete users', ['users.manage'], profileService.deleteUser),
+      async updateProfile(userId, updates) {
+        // Anyone may edit their own profile, but only user managers may change roles
+        const ownProfile = access?.userId === userId && updates.role === undefined;
+        if (!ownProfile && !can('users.manage')) throw new PermissionDeniedError('update this profile');
+        return profileService.updateProfile(userId, updates);
+      },
+      async updateNotificationPreferences(userId, preferences) {
+        if (access?.userId !== userId) throw new PermissionDeniedError('change these notification preferences');
+        return profileService.updateNotificationPreferences(userId, preferences);
+      },
+    },
+
+    departmentService: {
+      ...departmentService,
+      createDepartment: requireCapability('create departments', ['users.manage'], departmentService.createDepartment),
+      updateDepartment: requireCapability('update departments', ['users.manage'], departmentService.updateDepartment),
+      deleteDepartment: requireCapability('delete departments', ['users.manage'], departmentService.deleteDepartment),
+    },
+
+    requestTypeService: {
+      ...requestTypeService,
+      createRequestType: requireCapability('create request types', ['catalog.manage'], requestTypeService.createRequestType),
+    },
+
+    deviceCategoryService: {
+      ...deviceCategoryService,
+      createCategory: requireCapability('create device categories', ['catalog.manage'], deviceCategoryService.createCategory),
+    },
+
+    deviceService: {
+      ...deviceService,
+      createDevice: requireCapability('add devices', ['devices.manage'], deviceService.createDevice),
+      createDevices: requireCapability('add devices', ['devices.manage'], deviceService.createDevices),
+      updateDevice: requireCapability('update devices', ['devices.manage'], deviceService.updateDevice),
+      recordMaintenance: requireCapability('record maintenance', ['devices.manage', 'maintenance.manage'], deviceService.recordMaintenance),
+      deleteDevice: requireCapability('delete devices', ['devices.manage'], deviceService.deleteDevice),
+    },
+
+    requestService: {
+      ...requestService,
+      async getRequest(requestId) {
+        const request = await requestService.getRequest(requestId);
+        if (request && !canSeeRequest(request)) throw new PermissionDeniedError('view this request');
+        return request;
+      },
+      getAllRequests: requireCapability(
+        'view requests',
+        ['requests.viewAll', 'requests.viewDepartment'],
+        async () => scopeRequests(await requestService.getAllRequests())
+      ),
+      async getUserRequests(userId) {
+        if (!canSeeUserRequests(userId)) throw new PermissionDeniedError("view this user's requests");
+        return requestService.getUserRequests(userId);
+      },
+      async updateRequest(requestId, updates) {
+        const allowed = can('requests.work') || (can('requests.approve') && isApprovalUpdate(updates));
+        if (!allowed) throw new PermissionDeniedError('update requests');
+        return requestService.updateRequest(requestId, updates);
+      },
+      async assignRequest(requestId, assignment) {
+        // Technicians may pick a request up themselves; handing it to someone else takes requests.assign
+        const selfAssignment = can('requests.work') && assignment.toAssigneeId === access?.userId;
+        const onCallRouting = assignment.method === 'on_call' && (await isOnCallRouting(requestId, assignment.toAssigneeId));
+        if (!selfAssignment && !onCallRouting && !can('requests.assign')) throw new PermissionDeniedError('assign requests');
+        if (assignment.assignedBy !== access?.userId) throw new PermissionDeniedError('assign requests on behalf of someone else');
+        return requestService.assignRequest(requestId, assignment);
+      },
+      getAssignmentHistory: requireCapability(
+        'view assignment history',
+        ['requests.viewAll', 'requests.viewDepartment'],
+        requestService.getAssignmentHistory
+      ),
+      async addActivity(requestId, activity) {
+        if (activity.authorId !== access?.userId) throw new PermissionDeniedError('post on behalf of someone else');
+        // Status and assignment entries are only written by the service layer itself
+        if (activity.kind === 'escalation') {
+          if (!can('escalations.manage')) throw new PermissionDeniedError('record escalations');
+        } else if (activity.kind !== 'comment') {
+          throw new PermissionDeniedError('write timeline entries');
+        }
+        const request = await requestService.getRequest(requestId);
+        if (!request || !canSeeRequest(request)) throw new PermissionDeniedError('comment on this request');
+        if (activity.isInternal && !can('requests.work')) throw new PermissionDeniedError('post internal notes');
+        return requestService.addActivity(requestId, activity);
+      },
+      async getActivity(requestId) {
+        const request = await requestService.getRequest(requestId);
+        if (!request || !canSeeRequest(request)) throw new PermissionDeniedError('view this request');
+        return visibleActivity(await requestService.getActivity(requestId));
+      },
+      subscribeToActivity(requestId, onChange, onError) {
+        // Visibility depends on the request, which has to be loaded before subscribing
+        let active = true;
+        let unsubscribe: Unsubscribe | null = null;
+        requestService.getRequest(requestId)
+          .then((request) => {
+            if (!active) return;
+            if (!request || !canSeeRequest(request)) {
+              onError?.(new PermissionDeniedError('view this request'));
+              return;
+            }
+            unsubscribe = requestService.subscribeToActivity(requestId, (activity) => onChange(visibleActivity(activity)), onError);
+          })
+          .catch((error) => active && onError?.(error));
+        return () => {
+          active = false;
+          unsubscribe?.();
+        };
+      },
+      subscribeToRequests: requireForSubscription<Request>(
+        'view requests',
+        () => can('requests.viewAll', 'requests.viewDepartment'),
+        (onChange, onError) => requestService.subscribeToRequests((requests) => onChange(scopeRequests(requests)), onError)
+      ),
+      subscribeToUserRequests(userId, onChange, onError) {
+        return requireForSubscription<Request>(
+          "view this user's requests",
+          () => canSeeUserRequests(userId),
+          (change, error) => requestService.subscribeToUserRequests(userId, change, error)
+        )(onChange, onError);
+      },
+    },
+
+    incidentService: {
+      ...incidentService,
+      getAllIncidents: requireCapability('view incidents', ['incidents.view'], incidentService.getAllIncidents),
+      updateIncident: requireCapability('update incidents', ['incidents.manage'], incidentService.updateIncident),
+      subscribeToIncidents: requireForSubscription(
+        'view incidents',
+        () => can('incidents.view'),
+        incidentService.subscribeToIncidents
+      ),
+    },
+
+    maintenanceService: {
+      ...maintenanceService,
+      getAllSchedules: requireCapability('view maintenance', ['maintenance.view'], maintenanceService.getAllSchedules),
+      createSchedule: requireCapability('schedule maintenance', ['maintenance.manage'], maintenanceService.createSchedule),
+      updateSchedule: requireCapability('update maintenance', ['maintenance.manage'], maintenanceService.updateSchedule),
+      subscribeToSchedules: requireForSubscription(
+        'view maintenance',
+        () => can('maintenance.view'),
+        maintenanceService.subscribeToSchedules
+      ),
+      getAllPlans: requireCapability('view maintenance plans', ['maintenance.view'], maintenanceService.getAllPlans),
+      createPlan: requireCapability('create maintenance plans', ['maintenance.manage'], maintenanceService.createPlan),
+      updatePlan: requireCapability('update maintenance plans', ['maintenance.manage'], maintenanceService.updatePlan),
+      deletePlan: requireCapability('delete maintenance plans', ['maintenance.manage'], maintenanceService.deletePlan),
+    },
+
+    complianceService: {
+      ...complianceService,
+      getAllRecords: requireCapability('view compliance records', ['compliance.view', 'devices.manage'], complianceService.getAllRecords),
+      createRecord: requireCapability('create compliance records', ['compliance.manage'], complianceService.createRecord),
+      updateRecord: requireCapability('update compliance records', ['compliance.manage'], complianceService.updateRecord),
+      renewRecord: requireCapability('renew compliance records', ['compliance.manage'], complianceService.renewRecord),
+    },
+
+    equipmentTypeService: {
+      ...equipmentTypeService,
+      createEquipmentType: requireCapability('create equipment types', ['catalog.manage'], equipmentTypeService.createEquipmentType),
+      updateEquipmentType: requireCapability('update equipment types', ['catalog.manage'], equipmentTypeService.updateEquipmentType),
+      deleteEquipmentType: requireCapability('delete equipment types', ['catalog.manage'], equipmentTypeService.deleteEquipmentType),
+    },
+
+    // Signing off a work order takes its parts out of stock, so maintenance staff may consume them
+    sparePartService: {
+      ...sparePartService,
+      getAllParts: requireCapability('view spare parts', ['inventory.view'], sparePartService.getAllParts),
+      createPart: requireCapability('create spare parts', ['inventory.manage'], sparePartService.createPart),
+      updatePart: requireCapability('update spare parts', ['inventory.manage'], sparePartService.updatePart),
+      deletePart: requireCapability('delete spare parts', ['inventory.manage'], sparePartService.deletePart),
+      consumeParts: requireCapability('take parts out of stock', ['inventory.manage', 'maintenance.manage'], sparePartService.consumeParts),
+    },
+
+    serviceContractService: {
+      ...serviceContractService,
+      getAllContracts: requireCapability('view service contracts', ['contracts.view'], serviceContractService.getAllContracts),
+      createContract: requireCapability('create service contracts', ['contracts.manage'], serviceContractService.createContract),
+      updateContract: requireCapability('update service contracts', ['contracts.manage'], serviceContractService.updateContract),
+      deleteContract: requireCapability('delete service contracts', ['contracts.manage'], serviceContractService.deleteContract),
+    },
+
+    slaPolicyService: {
+      ...slaPolicyService,
+      createPolicy: requireCapability('create SLA policies', ['catalog.manage'], slaPolicyService.createPolicy),
+      updatePolicy: requireCapability('update SLA policies', ['catalog.manage'], slaPolicyService.updatePolicy),
+      deletePolicy: requireCapability('delete SLA policies', ['catalog.manage'], slaPolicyService.deletePolicy),
+    },
+
+    escalationService: {
+      ...escalationService,
+      createRule: requireCapability('create escalation rules', ['escalations.manage'], escalationService.createRule),
+      updateRule: requireCapability('update escalation rules', ['escalations.manage'], escalationService.updateRule),
+      deleteRule: requireCapability('delete escalation rules', ['escalations.manage'], escalationService.deleteRule),
+      getAllEvents: requireCapability(
+        'view escalation history',
+        ['escalations.manage', 'requests.viewAll', 'incidents.view'],
+        escalationService.getAllEvents
+      ),
+      recordEvent: requireCapability('run escalations', ['escalations.manage'], escalationService.recordEvent),
+    },
+
+    // Everyone may see who is on call; the schedule is kept by whoever manages escalations,
+    // though technicians may put themselves in to cover a shift
+    onCallService: {
+      ...onCallService,
+      createRotation: requireCapability('create on-call rotations', ['escalations.manage'], onCallService.createRotation),
+      updateRotation: requireCapability('update on-call rotations', ['escalations.manage'], onCallService.updateRotation),
+      deleteRotation: requireCapability('delete on-call rotations', ['escalations.manage'], onCallService.deleteRotation),
+      async createOverride(overrideData) {
+        if (overrideData.createdBy !== access?.userId) throw new PermissionDeniedError('add overrides on behalf of someone else');
+        const coveringSelf = can('requests.work') && overrideData.profileId === access?.userId;
+        if (!coveringSelf && !can('escalations.manage')) throw new PermissionDeniedError('change the on-call schedule');
+        return onCallService.createOverride(overrideData);
+      },
+      deleteOverride: requireCapability('change the on-call schedule', ['escalations.manage'], onCallService.deleteOverride),
+    },
+
+    attachmentService: {
+      ...attachmentService,
+      async createAttachment(attachmentData) {
+        if (attachmentData.uploadedBy !== access?.userId) throw new PermissionDeniedError('upload on behalf of someone else');
+        // Service reports and photos on the device record come from whoever looks after the equipment
+        const allowed = attachmentData.ownerType === 'device'
+          ? can('devices.manage', 'maintenance.manage')
+          : await canSeeOwner(attachmentData.ownerType, attachmentData.ownerId);
+        if (!allowed) throw new PermissionDeniedError('attach files to this record');
+        return attachmentService.createAttachment(attachmentData);
+      },
+      async getAttachment(attachmentId) {
+        const attachment = await attachmentService.getAttachment(attachmentId);
+        if (attachment && !(await canSeeOwner(attachment.ownerType, attachment.ownerId))) {
+          throw new PermissionDeniedError('view this attachment');
+        }
+        return attachment;
+      },
+      async getAttachments(ownerType, ownerId) {
+        if (!(await canSeeOwner(ownerType, ownerId))) throw new PermissionDeniedError('view these attachments');
+        return attachmentService.getAttachments(ownerType, ownerId);
+      },
+      getDeviceAttachments: requireCapability('view device files', ['devices.view'], attachmentService.getDeviceAttachments),
+      async deleteAttachment(attachmentId) {
+        const attachment = await attachmentService.getAttachment(attachmentId);
+        if (!attachment) return;
+        if (!canRemoveAttachment(attachment)) throw new PermissionDeniedError('delete this attachment');
+        return attachmentService.deleteAttachment(attachmentId);
+      },
+    },
+
+    // Any signed-in user's actions may notify others; everyone reads and clears only their own
+    notificationService: {
+      ...notificationService,
+      async createNotification(notificationData) {
+        if (!access) throw new PermissionDeniedError('send notifications');
+        return notificationService.createNotification(notificationData);
+      },
+      async notifyRoles(roles, notificationData) {
+        if (!access) throw new PermissionDeniedError('send notifications');
+        return notificationService.notifyRoles(roles, notificationData);
+      },
+      async getNotifications(recipientId) {
+        if (recipientId !== access?.userId) throw new PermissionDeniedError("read someone else's notifications");
+        return notificationService.getNotifications(recipientId);
+      },
+      async markRead(recipientId, notificationIds) {
+        if (recipientId !== access?.userId) throw new PermissionDeniedError("update someone else's notifications");
+        return notificationService.markRead(recipientId, notificationIds);
+      },
+      async markAllRead(recipientId) {
+        if (recipientId !== access?.userId) throw new PermissionDeniedError("update someone else's notifications");
+        return notificationService.markAllRead(recipientId);
+      },
+      subscribeToNotifications(recipientId, onChange, onError) {
+        return requireForSubscription<UserNotification>(
+          "read someone else's notifications",
+          () => recipientId === access?.userId,
+          (change, error) => notificationService.subscribeToNotifications(recipientId, change, error)
+        )(onChange, onError);
+      },
+    },
+
+    // Anyone signed in may queue a page or email; only IT staff, whose dashboards
+    // run the dispatcher, read and work through the outbox
+    outboxService: {
+      async enqueueMessage(messageData) {
+        if (!access) throw new PermissionDeniedError('send messages');
+        return outboxService.enqueueMessage(messageData);
+      },
+      getMessages: requireCapability('view the outbox', ['requests.work', 'system.configure'], outboxService.getMessages),
+      getDueMessages: requireCapability('dispatch messages', ['requests.work'], outboxService.getDueMessages),
+      claimMessage: requireCapability('dispatch messages', ['requests.work'], outboxService.claimMessage),
+      updateMessage: requireCapability('dispatch messages', ['requests.work', 'system.configure'], outboxService.updateMessage),
+    },
+
+    auditLogService: {
+      ...auditLogService,
+      async recordEntry(entryData) {
+        // Entries are written on behalf of whoever is signed in, never someone else
+        if (entryData.actorId !== (access?.userId ?? null)) throw new PermissionDeniedError('write audit entries for someone else');
+        return auditLogService.recordEntry(entryData);
+      },
+      async getEntries(filter) {
+        // A device's own changes make up its lifecycle history, open to whoever sees the register
+        const deviceHistory = filter?.entityType === 'device' && !!filter.entityId;
+        if (!can('audit.view') && !(deviceHistory && can('devices.view'))) throw new PermissionDeniedError('view the audit log');
+        return auditLogService.getEntries(filter);
+      },
+      async getHistory(entityType, entityId) {
+        if (!can('audit.view') && !(entityType === 'device' && can('devices.view'))) {
+          throw new PermissionDeniedError('view the audit log');
+        }
+        return auditLogService.getHistory(entityType, entityId);
+      },
+    },
+
+    systemConfigService: {
+      ...systemConfigService,
+      async completeSetup(setup) {
+        // The backend rejects a second setup; here we only stop someone promoting another account
+        if (access?.userId !== setup.adminUserId) throw new PermissionDeniedError('complete setup for another account');
+        return systemConfigService.completeSetup(setup);
+      },
+      seedSampleData: requireCapability('load sample data', ['system.configure'], systemConfigService.seedSampleData),
+    },
+  };
+};
@@ -0,0 +1,80 @@
+import { attachmentService, fileStorage } from './index';
+import type { Attachment, AttachmentOwnerType } from '../types/models';
+import { attachmentPath, createThumbnail, isImageType, validateAttachmentFile } from '../utils/attachments';
+
+export interface AttachmentOwner {
+  ownerType: AttachmentOwnerType;
+  ownerId: string;
+  deviceId?: string | null;
+}
+
+// Stores the file (and a thumbnail for images) in the file storage adapter,
+// then records its metadata. Resolves to the new attachment's id.
+export const uploadAttachment = async (owner: AttachmentOwner, file: File, uploadedBy: string) => {
+  const problem = validateAttachmentFile(file);
+  if (problem) {
+    throw new Error(problem);
+  }
+
+  const storagePath = attachmentPath(owner.ownerType, owner.ownerId, file.name);
+  await fileStorage.upload(storagePath, file);
+
+  // The attachment is still useful without a preview
+  let thumbnailPath: string | null = null;
+  if (isImageType(file.type)) {
+    try {
+      const thumbnail = await createThumbnail(file);
+      thumbnailPath = `${storagePath}.thumb.jpg`;
+      await fileStorage.upload(thumbnailPath, thumbnail);
+    } catch (error) {
+      console.error('Error creating thumbnail:', error);
+      thumbnailPath = null;
+    }
+  }
+
+  try {
+    return await attachmentService.createAttachment({
+      ownerType: owner.ownerType,
+      ownerId: owner.ownerId,
+      deviceId: owner.deviceId ?? null,
+      fileName: file.name,
+      contentType: file.type,
+      size: file.size,
+      storagePath,
+      thumbnailPath,
+      uploadedBy,
+    });
+  } catch (error) {
+    // Don't leave files behind that nothing points at
+    await Promise.all([storagePath, thumbnailPath].filter(Boolean).map((path) => fileStorage.remove(path as string)))
+      .catch((cleanupError) => console.error('Error removing orphaned upload:', cleanupError));
+    throw error;
+  }
+};
+
+// Uploads several files for a record that was just created; resolves to the
+// number that failed so the caller can say so without failing the whole form
+export const uploadAttachments = async (owner: AttachmentOwner, files: File[], uploadedBy: string) => {
+  let failed = 0;
+  for (const file of files) {
+    try {
+      await uploadAttachment(owner, file, uploadedBy);
+    } catch (error) {
+      console.error(`Error uploading ${file.name}:`, error);
+      failed += 1;
+    }
+  }
+  return failed;
+};
+
+export const getAttachmentUrl = (path: string) => fileStorage.getUrl(path);
+
+// Metadata goes first: once it is gone nobody can reach the file, even if removing it fails
+export const removeAttachment = async (attachment: Attachment) => {
+  await attachmentService.deleteAttachment(attachment.id);
+  await Promise.all(
+    [attachment.storagePath, attachment.thumbnailPath]
+      .filter(Boolean)
+      .map((path) => fileStorage.remove(path as string))
+  ).catch((error) => console.error('Error removing attachment files:', error));
+};
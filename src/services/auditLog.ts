@@ -0,0 +1,283 @@
+import type { AuditAction, AuditEntityType } from '../types/models';
+import { describeRecord, diffFields } from '../utils/audit';
+import { getAccessContext } from './accessControl';
+import type { DataRepository } from './repository';
+
+// Audit trail shared by every backend: each create, update and delete made
+// through the repository appends an entry with who made it and the
+// field-level before/after. Entries are written once the change has gone
+// through; a failed audit write is logged, since the change cannot be undone.
+export const withAuditLog = (repository: DataRepository): DataRepository => {
+  const {
+    profileService,
+    departmentService,
+    requestTypeService,
+    deviceCategoryService,
+    deviceService,
+    requestService,
+    incidentService,
+    maintenanceService,
+    complianceService,
+    equipmentTypeService,
+    sparePartService,
+    serviceContractService,
+    slaPolicyService,
+    escalationService,
+    onCallService,
+    attachmentService,
+    auditLogService,
+    systemConfigService,
+  } = repository;
+
+  const record = async (
+    entityType: AuditEntityType,
+    entityId: string,
+    action: AuditAction,
+    before: object | null,
+    after: object | null
+  ) => {
+    const changes = diffFields(before, after);
+    // Saving a form without changing anything is not worth an entry
+    if (action === 'update' && changes.length === 0) return;
+
+    try {
+      await auditLogService.recordEntry({
+        entityType,
+        entityId,
+        entityLabel: describeRecord(after === null ? before : { ...before, ...after }),
+        action,
+        actorId: getAccessContext()?.userId ?? null,
+        changes,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      console.error('Error writing audit entry:', error);
+    }
+  };
+
+  // The before-state of an update or delete comes from the same list the dashboards load
+  const finder = <T extends { id: string }>(getAll: () => Promise<T[]>) => async (id: string) =>
+    (await getAll()).find((item) => item.id === id) ?? null;
+
+  const auditCreate = <D extends object>(entityType: AuditEntityType, create: (data: D) => Promise<string>) =>
+    async (data: D) => {
+      const id = await create(data);
+      await record(entityType, id, 'create', null, data);
+      return id;
+    };
+
+  const auditUpdate = <U extends object>(
+    entityType: AuditEntityType,
+    load: (id: string) => Promise<object | null>,
+    update: (id: string, updates: U) => Promise<void>
+  ) => async (id: string, updates: U) => {
+    const before = await load(id);
+    await update(id, updates);
+    await record(entityType, id, 'update', before, updates);
+  };
+
+  const auditDelete = (
+    entityType: AuditEntityType,
+    load: (id: string) => Promise<object | null>,
+    remove: (id: string) => Promise<void>
+  ) => async (id: string) => {
+    const before = await load(id);
+    await remove(id);
+    await record(entityType, id, 'delete', before, null);
+  };
+
+  const findDepartment = finder(departmentService.getAllDepartments);
+  const findDevice = finder(deviceService.getAllDevices);
+  const findRequest = requestService.getRequest;
+  const findIncident = finder(incidentService.getAllIncidents);
+  const findSchedule = finder(maintenanceService.getAllSchedules);
+  const findPlan = finder(maintenanceService.getAllPlans);
+  const findRecord = finder(complianceService.getAllRecords);
+  const findEquipmentType = finder(equipmentTypeService.getAllEquipmentTypes);
+  const findPart = finder(sparePartService.getAllParts);
+  const findContract = finder(serviceContractService.getAllContracts);
+  const findPolicy = finder(slaPolicyService.getAllPolicies);
+  const findRule = finder(escalationService.getAllRules);
+  const findRotation = finder(onCallService.getAllRotations);
+  const findOverride = finder(() => onCallService.getOverrides(new Date(0).toISOString()));
+
+  return {
+    ...repository,
+
+    profileService: {
+      ...profileService,
+      async createProfile(userId, profileData) {
+        await profileService.createProfile(userId, profileData);
+        await record('profile', userId, 'create', null, profileData);
+      },
+      updateProfile: auditUpdate('profile', profileService.getProfile, profileService.updateProfile),
+      updateNotificationPreferences: auditUpdate(
+        'profile',
+        profileService.getProfile,
+        profileService.updateNotificationPreferences
+      ),
+      createUser: auditCreate('profile', profileService.createUser),
+      deleteUser: auditDelete('profile', profileService.getProfile, profileService.deleteUser),
+    },
+
+    departmentService: {
+      ...departmentService,
+      createDepartment: auditCreate('department', departmentService.createDepartment),
+      updateDepartment: auditUpdate('department', findDepartment, departmentService.updateDepartment),
+      deleteDepartment: auditDelete('department', findDepartment, departmentService.deleteDepartment),
+    },
+
+    requestTypeService: {
+      ...requestTypeService,
+      createRequestType: auditCreate('requestType', requestTypeService.createRequestType),
+    },
+
+    deviceCategoryService: {
+      ...deviceCategoryService,
+      createCategory: auditCreate('deviceCategory', deviceCategoryService.createCategory),
+    },
+
+    deviceService: {
+      ...deviceService,
+      createDevice: auditCreate('device', deviceService.createDevice),
+      async createDevices(devicesData) {
+        const ids = await deviceService.createDevices(devicesData);
+        await Promise.all(ids.map((id, index) => record('device', id, 'create', null, devicesData[index])));
+        return ids;
+      },
+      updateDevice: auditUpdate('device', findDevice, deviceService.updateDevice),
+      async recordMaintenance(deviceId, completedDate) {
+        const before = await findDevice(deviceId);
+        await deviceService.recordMaintenance(deviceId, completedDate);
+        await record('device', deviceId, 'update', before, await findDevice(deviceId));
+      },
+      deleteDevice: auditDelete('device', findDevice, deviceService.deleteDevice),
+    },
+
+    requestService: {
+      ...requestService,
+      createRequest: auditCreate('request', requestService.createRequest),
+      updateRequest: auditUpdate('request', findRequest, requestService.updateRequest),
+      async assignRequest(requestId, assignment) {
+        // The assignment history keeps the method and reason; the audit entry records the field change
+        const before = await findRequest(requestId);
+        await requestService.assignRequest(requestId, assignment);
+        await record('request', requestId, 'update', before, { assignedAdminId: assignment.toAssigneeId });
+      },
+    },
+
+    incidentService: {
+      ...incidentService,
+      createIncident: auditCreate('incident', incidentService.createIncident),
+      updateIncident: auditUpdate('incident', findIncident, incidentService.updateIncident),
+    },
+
+    maintenanceService: {
+      ...maintenanceService,
+      createSchedule: auditCreate('maintenanceSchedule', maintenanceService.createSchedule),
+      updateSchedule: auditUpdate('maintenanceSchedule', findSchedule, maintenanceService.updateSchedule),
+      createPlan: auditCreate('maintenancePlan', maintenanceService.createPlan),
+      updatePlan: auditUpdate('maintenancePlan', findPlan, maintenanceService.updatePlan),
+      deletePlan: auditDelete('maintenancePlan', findPlan, maintenanceService.deletePlan),
+    },
+
+    complianceService: {
+      ...complianceService,
+      createRecord: auditCreate('complianceRecord', complianceService.createRecord),
+      updateRecord: auditUpdate('complianceRecord', findRecord, complianceService.updateRecord),
+      // A renewal is the new certificate's creation plus the old one being superseded
+      async renewRecord(recordId, renewal) {
+        const before = await findRecord(recordId);
+        const renewalId = await complianceService.renewRecord(recordId, renewal);
+        await record('complianceRecord', renewalId, 'create', null, { ...renewal, renewedFrom: recordId });
+        await record('complianceRecord', recordId, 'update', before, { supersededBy: renewalId, status: 'superseded' });
+        return renewalId;
+      },
+    },
+
+    equipmentTypeService: {
+      ...equipmentTypeService,
+      createEquipmentType: auditCreate('equipmentType', equipmentTypeService.createEquipmentType),
+      updateEquipmentType: auditUpdate('equipmentType', findEquipmentType, equipmentTypeService.updateEquipmentType),
+      deleteEquipmentType: auditDelete('equipmentType', findEquipmentType, equipmentTypeService.deleteEquipmentType),
+    },
+
+    sparePartService: {
+      ...sparePartService,
+      createPart: auditCreate('sparePart', sparePartService.createPart),
+      updatePart: auditUpdate('sparePart', findPart, sparePartService.updatePart),
+      deletePart: auditDelete('sparePart', findPart, sparePartService.deletePart),
+      // Stock taken by a work order shows up as a stock change on each part
+      async consumeParts(scheduleId, usages) {
+        const before = await sparePartService.getAllParts();
+        if (!(await sparePartService.consumeParts(scheduleId, usages))) return false;
+        const after = await sparePartService.getAllParts();
+        await Promise.all(
+          [...new Set(usages.map((usage) => usage.partId))].map((partId) => {
+            const part = before.find((candidate) => candidate.id === partId) ?? null;
+            const updated = after.find((candidate) => candidate.id === partId);
+            return record('sparePart', partId, 'update', part, { stockLevels: updated?.stockLevels ?? [] });
+          })
+        );
+        return true;
+      },
+    },
+
+    serviceContractService: {
+      ...serviceContractService,
+      createContract: auditCreate('serviceContract', serviceContractService.createContract),
+      updateContract: auditUpdate('serviceContract', findContract, serviceContractService.updateContract),
+      deleteContract: auditDelete('serviceContract', findContract, serviceContractService.deleteContract),
+    },
+
+    slaPolicyService: {
+      ...slaPolicyService,
+      createPolicy: auditCreate('slaPolicy', slaPolicyService.createPolicy),
+      updatePolicy: auditUpdate('slaPolicy', findPolicy, slaPolicyService.updatePolicy),
+      deletePolicy: auditDelete('slaPolicy', findPolicy, slaPolicyService.deletePolicy),
+    },
+
+    // Escalation events are an append-only history of their own, so only the rules are audited
+    escalationService: {
+      ...escalationService,
+      createRule: auditCreate('escalationRule', escalationService.createRule),
+      updateRule: auditUpdate('escalationRule', findRule, escalationService.updateRule),
+      deleteRule: auditDelete('escalationRule', findRule, escalationService.deleteRule),
+    },
+
+    onCallService: {
+      ...onCallService,
+      createRotation: auditCreate('onCallRotation', onCallService.createRotation),
+      updateRotation: auditUpdate('onCallRotation', findRotation, onCallService.updateRotation),
+      deleteRotation: auditDelete('onCallRotation', findRotation, onCallService.deleteRotation),
+      createOverride: auditCreate('onCallOverride', onCallService.createOverride),
+      deleteOverride: auditDelete('onCallOverride', findOverride, onCallService.deleteOverride),
+    },
+
+    attachmentService: {
+      ...attachmentService,
+      createAttachment: auditCreate('attachment', attachmentService.createAttachment),
+      deleteAttachment: auditDelete('attachment', attachmentService.getAttachment, attachmentService.deleteAttachment),
+    },
+
+    systemConfigService: {
+      ...systemConfigService,
+      async completeSetup(setup) {
+        const admin = await profileService.getProfile(setup.adminUserId);
+        await systemConfigService.completeSetup(setup);
+        await record('systemConfig', 'config', 'create', null, {
+          organizationName: setup.organizationName,
+          setupCompletedBy: setup.adminUserId,
+        });
+        await record('profile', setup.adminUserId, 'update', admin, { role: 'admin' });
+      },
+      async seedSampleData() {
+        // Logged as one change to the settings rather than an entry per sample record
+        const before = await systemConfigService.getConfig();
+        await systemConfigService.seedSampleData();
+        const after = await systemConfigService.getConfig();
+        await record('systemConfig', 'config', 'update', before, after && { sampleDataSeededAt: after.sampleDataSeededAt });
+      },
+    },
+  };
+};
@@ -0,0 +1,43 @@
+import { format } from 'date-fns';
+import { getAccessContext } from './accessControl';
+import { dataRepository } from './index';
+import type { DataRepository } from './repository';
+import { hasAnyCapability } from '../utils/permissions';
+import { planComplianceStatusUpdates, planRenewalTasks } from '../utils/compliance';
+
+// How often an open compliance dashboard brings certificate statuses and renewal tasks up to date
+export const COMPLIANCE_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+// One pass over the compliance records, covering whatever the signed-in user
+// may change: compliance managers get stored statuses brought in line with
+// the expiry dates, maintenance managers get renewal tasks raised for
+// certificates due for renewal and closed once they are renewed. Like the
+// plan sync it works from what is already stored, so running it again right
+// away changes nothing.
+export const runComplianceChecks = async (repository: DataRepository = dataRepository, now = new Date()) => {
+  const { complianceService, deviceService, maintenanceService } = repository;
+  const role = getAccessContext()?.role;
+  const updateStatuses = hasAnyCapability(role, ['compliance.manage']);
+  const manageTasks = hasAnyCapability(role, ['maintenance.manage']) && hasAnyCapability(role, ['compliance.view']);
+  if (!updateStatuses && !manageTasks) return { updated: 0, created: 0, completed: 0 };
+
+  const [records, devices, schedules] = await Promise.all([
+    complianceService.getAllRecords(),
+    manageTasks ? deviceService.getAllDevices() : Promise.resolve([]),
+    manageTasks ? maintenanceService.getAllSchedules() : Promise.resolve([]),
+  ]);
+
+  const updates = updateStatuses ? planComplianceStatusUpdates(records, now) : [];
+  for (const { recordId, status } of updates) {
+    await complianceService.updateRecord(recordId, { status });
+  }
+
+  const { create, complete } = manageTasks ? planRenewalTasks(records, devices, schedules, now) : { create: [], complete: [] };
+  for (const scheduleData of create) {
+    await maintenanceService.createSchedule(scheduleData);
+  }
+  for (const scheduleId of complete) {
+    await maintenanceService.updateSchedule(scheduleId, { status: 'completed', completedDate: format(now, 'yyyy-MM-dd') });
+  }
+  return { updated: updates.length, created: create.length, completed: complete.length };
+};
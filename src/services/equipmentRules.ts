@@ -0,0 +1,21 @@
+import { complianceService, deviceService } from './index';
+import type { Device, EquipmentType } from '../types/models';
+import { buildCertificationPlaceholder } from '../utils/equipmentTypes';
+
+// Run after a device is saved with an equipment type. Types that require
+// certification get a placeholder compliance record unless the device already
+// has one, and the device is flagged as pending compliance until it is filled in.
+// Returns true when a placeholder was created.
+export const ensureCertificationPlaceholder = async (
+  device: Pick<Device, 'id' | 'name'>,
+  equipmentType: EquipmentType
+) => {
+  if (!equipmentType.requiresCertification) return false;
+
+  const records = await complianceService.getAllRecords();
+  if (records.some(record => record.deviceId === device.id)) return false;
+
+  await complianceService.createRecord(buildCertificationPlaceholder(device, equipmentType));
+  await deviceService.updateDevice(device.id, { complianceStatus: 'pending' });
+  return true;
+};
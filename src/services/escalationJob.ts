@@ -0,0 +1,85 @@
+import { getAccessContext } from './accessControl';
+import { dataRepository } from './index';
+import type { DataRepository } from './repository';
+import type { EscalationEventInput, IncidentSeverity } from '../types/models';
+import { escalationKey, incidentCandidate, planEscalations, requestCandidate } from '../utils/escalation';
+
+// How often the background worker and any open admin dashboard run the escalation rules
+export const ESCALATION_INTERVAL_MS = 5 * 60 * 1000;
+
+// Shown on the request's timeline, so the requester sees why it moved up. A
+// reassignment gets its own entry naming the new assignee.
+const describeEscalation = (event: EscalationEventInput) =>
+  [
+    `Escalated by "${event.ruleName}"`,
+    event.newPriority !== event.previousPriority && `priority raised to ${event.newPriority}`,
+  ].filter(Boolean).join(', ');
+
+// Requests are reassigned through assignRequest so the handover shows up in
+// the assignment history like any other
+const applyRequestEscalation = async (repository: DataRepository, event: EscalationEventInput) => {
+  const { requestService } = repository;
+  const actorId = getAccessContext()?.userId ?? null;
+  if (event.newPriority !== event.previousPriority) {
+    await requestService.updateRequest(event.targetId, { priority: event.newPriority });
+  }
+  await requestService.addActivity(event.targetId, {
+    kind: 'escalation',
+    authorId: actorId,
+    body: describeEscalation(event),
+    isInternal: false,
+  });
+  if (event.newAssigneeId && event.newAssigneeId !== event.previousAssigneeId && actorId) {
+    await requestService.assignRequest(event.targetId, {
+      toAssigneeId: event.newAssigneeId,
+      method: 'escalation',
+      reason: `Escalated by "${event.ruleName}"`,
+      assignedBy: actorId,
+    });
+  }
+};
+
+const applyEscalation = (repository: DataRepository, event: EscalationEventInput) =>
+  event.targetType === 'request'
+    ? applyRequestEscalation(repository, event)
+    : repository.incidentService.updateIncident(event.targetId, {
+        severity: event.newPriority as IncidentSeverity,
+        assignedTo: event.newAssigneeId,
+      });
+
+// One pass of the escalation engine. It only talks to the repository
+// interfaces, so it runs the same against every backend; the worker and
+// several browsers running it at once is safe because recordEvent lets only
+// one of them claim each escalation. Resolves to the escalations this run applied.
+export const runEscalations = async (repository: DataRepository = dataRepository, now = new Date()) => {
+  const { escalationService, requestService, incidentService, onCallService } = repository;
+
+  const rules = (await escalationService.getAllRules()).filter((rule) => rule.isActive);
+  if (rules.length === 0) return [];
+
+  const coversIncidents = rules.some((rule) => rule.appliesTo === 'incident');
+  const usesOnCall = rules.some((rule) => rule.reassignToOnCall);
+  const [requests, incidents, events, rotations, overrides] = await Promise.all([
+    requestService.getAllRequests(),
+    coversIncidents ? incidentService.getAllIncidents() : Promise.resolve([]),
+    escalationService.getAllEvents(),
+    usesOnCall ? onCallService.getAllRotations() : Promise.resolve([]),
+    usesOnCall ? onCallService.getOverrides(now.toISOString()) : Promise.resolve([]),
+  ]);
+
+  const planned = planEscalations(
+    rules,
+    [...requests.map(requestCandidate), ...incidents.map(incidentCandidate)],
+    new Set(events.map((event) => escalationKey(event.ruleId, event.targetId))),
+    { rotations, overrides },
+    now
+  );
+
+  const applied: EscalationEventInput[] = [];
+  for (const event of planned) {
+    if (!(await escalationService.recordEvent(event))) continue;
+    await applyEscalation(repository, event);
+    applied.push(event);
+  }
+  return applied;
+};
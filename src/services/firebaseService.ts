@@ -11,45 +11,239 @@ import {
   orderBy, 
   limit,
   serverTimestamp,
+  Timestamp,
   writeBatch,
-  setDoc
+  setDoc,
+  onSnapshot,
+  runTransaction,
+  CollectionReference,
+  FirestoreDataConverter,
+  Query,
+  QueryConstraint
 } from 'firebase/firestore';
-import { db, auth } from '../lib/firebase';
-import { createUserWithEmailAndPassword, updateProfile } from 'firebase/auth';
+import { deleteObject, getDownloadURL, ref, uploadBytes } from 'firebase/storage';
+import { db, auth, googleProvider, storage } from '../lib/firebase';
+import {
+  User,
+  createUserWithEmailAndPassword,
+  onAuthStateChanged,
+  signInWithEmailAndPassword,
+  signInWithPopup,
+  signOut as firebaseSignOut,
+  updateProfile
+} from 'firebase/auth';
+import {
+  attachmentSchema,
+  auditEntrySchema,
+  complianceRecordSchema,
+  departmentSchema,
+  deviceCategorySchema,
+  deviceSchema,
+  equipmentTypeSchema,
+  escalationEventSchema,
+  escalationRuleSchema,
+  incidentSchema,
+  maintenancePlanSchema,
+  maintenanceScheduleSchema,
+  onCallOverrideSchema,
+  onCallRotationSchema,
+  outboxMessageSchema,
+  profileSchema,
+  requestActivitySchema,
+  requestAssignmentSchema,
+  requestSchema,
+  requestTypeSchema,
+  serviceContractSchema,
+  slaPolicySchema,
+  sparePartSchema,
+  systemConfigSchema,
+  userNotificationSchema,
+} from '../types/schemas';
+import type {
+  Attachment,
+  AuditEntry,
+  ComplianceRecord,
+  Department,
+  Device,
+  DeviceCategory,
+  EquipmentType,
+  EscalationEvent,
+  EscalationRule,
+  Incident,
+  MaintenancePlan,
+  MaintenanceSchedule,
+  OnCallOverride,
+  OnCallRotation,
+  OutboxMessage,
+  Profile,
+  Request,
+  RequestActivity,
+  RequestAssignment,
+  RequestType,
+  ServiceContract,
+  SlaPolicy,
+  SparePart,
+  SystemConfig,
+  UserNotification,
+} from '../types/models';
+import { parseModel, validateWrite, ModelSchema } from '../types/validation';
+import type {
+  AttachmentRepository,
+  AuthAdapter,
+  AuthUser,
+  AuditLogRepository,
+  ChangeListener,
+  ComplianceRepository,
+  DataRepository,
+  DepartmentRepository,
+  DeviceCategoryRepository,
+  DeviceRepository,
+  EquipmentTypeRepository,
+  ErrorListener,
+  EscalationRepository,
+  FileStorage,
+  IncidentRepository,
+  MaintenanceRepository,
+  NotificationRepository,
+  OnCallRepository,
+  OutboxRepository,
+  ProfileRepository,
+  RequestRepository,
+  RequestTypeRepository,
+  ServiceContractRepository,
+  SlaPolicyRepository,
+  SparePartRepository,
+  SystemConfigRepository,
+  Unsubscribe,
+} from './repository';
+import { missingSampleData } from './sampleData';
+import { escalationKey } from '../utils/escalation';
+import { AUDIT_HISTORY_LIMIT, AUDIT_LOG_LIMIT } from '../utils/audit';
+import { NOTIFICATION_LIMIT, notificationKey } from '../utils/notifications';
+import { OUTBOX_LIMIT, isDue, newOutboxMessage } from '../utils/outbox';
+import { applyConsumption } from '../utils/spareParts';
+import { maintenanceDatesAfterVisit } from '../utils/equipmentTypes';
+
+// Typed converters: reads are checked against the model schema (Timestamps
+// become ISO strings), writes through a converted ref are checked too
+const converterFor = <T>(schema: ModelSchema<T>): FirestoreDataConverter<T> => ({
+  toFirestore: (model) => validateWrite(schema, model as object),
+  fromFirestore: (snapshot) => parseModel(schema, snapshot.id, snapshot.data()),
+});
+
+interface CollectionModels {
+  profiles: Profile;
+  departments: Department;
+  requestTypes: RequestType;
+  deviceCategories: DeviceCategory;
+  devices: Device;
+  requests: Request;
+  requestAssignments: RequestAssignment;
+  requestActivity: RequestActivity;
+  incidents: Incident;
+  maintenanceSchedules: MaintenanceSchedule;
+  maintenancePlans: MaintenancePlan;
+  complianceRecords: ComplianceRecord;
+  equipmentTypes: EquipmentType;
+  spareParts: SparePart;
+  serviceContracts: ServiceContract;
+  slaPolicies: SlaPolicy;
+  escalationRules: EscalationRule;
+  escalationEvents: EscalationEvent;
+  onCallRotations: OnCallRotation;
+  onCallOverrides: OnCallOverride;
+  attachments: Attachment;
+  notifications: UserNotification;
+  outbox: OutboxMessage;
+  auditLog: AuditEntry;
+  system: SystemConfig;
+}
+
+const converters: { [K in keyof CollectionModels]: FirestoreDataConverter<CollectionModels[K]> } = {
+  profiles: converterFor(profileSchema),
+  departments: converterFor(departmentSchema),
+  requestTypes: converterFor(requestTypeSchema),
+  deviceCategories: converterFor(deviceCategorySchema),
+  devices: converterFor(deviceSchema),
+  requests: converterFor(requestSchema),
+  requestAssignments: converterFor(requestAssignmentSchema),
+  requestActivity: converterFor(requestActivitySchema),
+  incidents: converterFor(incidentSchema),
+  maintenanceSchedules: converterFor(maintenanceScheduleSchema),
+  maintenancePlans: converterFor(maintenancePlanSchema),
+  complianceRecords: converterFor(complianceRecordSchema),
+  equipmentTypes: converterFor(equipmentTypeSchema),
+  spareParts: converterFor(sparePartSchema),
+  serviceContracts: converterFor(serviceContractSchema),
+  slaPolicies: converterFor(slaPolicySchema),
+  escalationRules: converterFor(escalationRuleSchema),
+  escalationEvents: converterFor(escalationEventSchema),
+  onCallRotations: converterFor(onCallRotationSchema),
+  onCallOverrides: converterFor(onCallOverrideSchema),
+  attachments: converterFor(attachmentSchema),
+  notifications: converterFor(userNotificationSchema),
+  outbox: converterFor(outboxMessageSchema),
+  auditLog: converterFor(auditEntrySchema),
+  system: converterFor(systemConfigSchema),
+};
+
+const typedCollection = <K extends keyof CollectionModels>(name: K): CollectionReference<CollectionModels[K]> =>
+  collection(db, name).withConverter(converters[name]);
+
+// Live query shared by the subscribe* methods. A document that fails its
+// schema check is reported through onError rather than thrown inside Firestore.
+const subscribeToQuery = <T>(q: Query<T>, onChange: ChangeListener<T>, onError?: ErrorListener): Unsubscribe =>
+  onSnapshot(
+    q,
+    (snapshot) => {
+      try {
+        onChange(snapshot.docs.map(doc => doc.data()));
+      } catch (error) {
+        onError?.(error as Error);
+      }
+    },
+    (error) => onError?.(error)
+  );
 
 // User Profile Service
-export const profileService = {
-  async createProfile(userId: string, profileData: any) {
+export const profileService: ProfileRepository = {
+  async createProfile(userId, profileData) {
     const profileRef = doc(db, 'profiles', userId);
-    await updateDoc(profileRef, {
-      ...profileData,
+    await setDoc(profileRef, {
+      ...validateWrite(profileSchema, profileData),
       createdAt: serverTimestamp(),
       updatedAt: serverTimestamp()
     });
-    return profileRef;
   },
 
-  async getProfile(userId: string) {
-    const profileRef = doc(db, 'profiles', userId);
+  async getProfile(userId) {
+    const profileRef = doc(typedCollection('profiles'), userId);
     const profileSnap = await getDoc(profileRef);
-    return profileSnap.exists() ? { id: profileSnap.id, ...profileSnap.data() } : null;
+    return profileSnap.exists() ? profileSnap.data() : null;
+  },
+
+  async updateProfile(userId, updates) {
+    const profileRef = doc(db, 'profiles', userId);
+    await updateDoc(profileRef, {
+      ...validateWrite(profileSchema, updates),
+      updatedAt: serverTimestamp()
+    });
   },
 
-  async updateProfile(userId: string, updates: any) {
+  async updateNotificationPreferences(userId, preferences) {
     const profileRef = doc(db, 'profiles', userId);
     await updateDoc(profileRef, {
-      ...updates,
+      ...validateWrite(profileSchema, preferences),
       updatedAt: serverTimestamp()
     });
   },
 
   async getAllProfiles() {
-    const profilesRef = collection(db, 'profiles');
-    const snapshot = await getDocs(profilesRef);
-    return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }));
+    const snapshot = await getDocs(typedCollection('profiles'));
+    return snapshot.docs.map(doc => doc.data());
   },
 
-  async createUser(userData: { email: string; password: string; fullName: string; role: string; department: string }) {
+  async createUser(userData) {
     try {
       // Create auth user
       const { user } = await createUserWithEmailAndPassword(auth, userData.email, userData.password);
@@ -59,6 +253,7 @@ export const profileService = {
       
       // Create profile document
       await setDoc(doc(db, 'profiles', user.uid), {
+        email: userData.email,
         fullName: userData.fullName,
         role: userData.role,
         department: userData.department,
@@ -66,14 +261,14 @@ export const profileService = {
         updatedAt: serverTimestamp()
       });
       
-      return user;
+      return user.uid;
     } catch (error) {
       console.error('Error creating user:', error);
       throw error;
     }
   },
 
-  async deleteUser(userId: string) {
+  async deleteUser(userId) {
     try {
       // Delete profile document
       await deleteDoc(doc(db, 'profiles', userId));
@@ -86,405 +281,1055 @@ export const profileService = {
 };
 
 // Department Service
-export const departmentService = {
-  async createDepartment(departmentData: any) {
+export const departmentService: DepartmentRepository = {
+  async createDepartment(departmentData) {
     const departmentsRef = collection(db, 'departments');
     const docRef = await addDoc(departmentsRef, {
-      ...departmentData,
+      ...validateWrite(departmentSchema, departmentData),
       createdAt: serverTimestamp()
     });
-    return docRef;
+    return docRef.id;
   },
 
   async getAllDepartments() {
-    const departmentsRef = collection(db, 'departments');
+    const departmentsRef = typedCollection('departments');
     const q = query(departmentsRef, orderBy('name'));
     const snapshot = await getDocs(q);
-    return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }));
+    return snapshot.docs.map(doc => doc.data());
   },
 
-  async updateDepartment(departmentId: string, updates: any) {
+  async updateDepartment(departmentId, updates) {
     const departmentRef = doc(db, 'departments', departmentId);
     await updateDoc(departmentRef, {
-      ...updates,
+      ...validateWrite(departmentSchema, updates),
       updatedAt: serverTimestamp()
     });
   },
 
-  async deleteDepartment(departmentId: string) {
+  async deleteDepartment(departmentId) {
     const departmentRef = doc(db, 'departments', departmentId);
     await deleteDoc(departmentRef);
   }
 };
 
 // Request Types Service
-export const requestTypeService = {
-  async createRequestType(requestTypeData: any) {
+export const requestTypeService: RequestTypeRepository = {
+  async createRequestType(requestTypeData) {
     const requestTypesRef = collection(db, 'requestTypes');
     const docRef = await addDoc(requestTypesRef, {
-      ...requestTypeData,
+      ...validateWrite(requestTypeSchema, requestTypeData),
       createdAt: serverTimestamp()
     });
-    return docRef;
+    return docRef.id;
   },
 
   async getAllRequestTypes() {
-    const requestTypesRef = collection(db, 'requestTypes');
+    const requestTypesRef = typedCollection('requestTypes');
     const q = query(requestTypesRef, orderBy('name'));
     const snapshot = await getDocs(q);
-    return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }));
+    return snapshot.docs.map(doc => doc.data());
   }
 };
 
 // Device Categories Service
-export const deviceCategoryService = {
-  async createCategory(categoryData: any) {
+export const deviceCategoryService: DeviceCategoryRepository = {
+  async createCategory(categoryData) {
     const categoriesRef = collection(db, 'deviceCategories');
     const docRef = await addDoc(categoriesRef, {
-      ...categoryData,
+      ...validateWrite(deviceCategorySchema, categoryData),
       createdAt: serverTimestamp()
     });
-    return docRef;
+    return docRef.id;
   },
 
   async getAllCategories() {
-    const categoriesRef = collection(db, 'deviceCategories');
+    const categoriesRef = typedCollection('deviceCategories');
     const q = query(categoriesRef, orderBy('name'));
     const snapshot = await getDocs(q);
-    return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }));
+    return snapshot.docs.map(doc => doc.data());
   }
 };
 
 // Device Service
-export const deviceService = {
-  async createDevice(deviceData: any) {
+export const deviceService: DeviceRepository = {
+  async createDevice(deviceData) {
     const devicesRef = collection(db, 'devices');
     const docRef = await addDoc(devicesRef, {
-      ...deviceData,
+      ...validateWrite(deviceSchema, deviceData),
       createdAt: serverTimestamp(),
       updatedAt: serverTimestamp()
     });
-    return docRef;
+    return docRef.id;
+  },
+
+  async createDevices(devicesData) {
+    const batch = writeBatch(db);
+    const refs = devicesData.map((deviceData) => {
+      const deviceRef = doc(collection(db, 'devices'));
+      batch.set(deviceRef, {
+        ...validateWrite(deviceSchema, deviceData),
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp()
+      });
+      return deviceRef;
+    });
+    await batch.commit();
+    return refs.map((deviceRef) => deviceRef.id);
   },
 
   async getAllDevices() {
-    const devicesRef = collection(db, 'devices');
+    const devicesRef = typedCollection('devices');
     const q = query(devicesRef, orderBy('createdAt', 'desc'));
     const snapshot = await getDocs(q);
-    return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }));
+    return snapshot.docs.map(doc => doc.data());
   },
 
-  async updateDevice(deviceId: string, updates: any) {
+  async updateDevice(deviceId, updates) {
     const deviceRef = doc(db, 'devices', deviceId);
     await updateDoc(deviceRef, {
-      ...updates,
+      ...validateWrite(deviceSchema, updates),
       updatedAt: serverTimestamp()
     });
   },
 
-  async deleteDevice(deviceId: string) {
+  async recordMaintenance(deviceId, completedDate) {
+    await runTransaction(db, async (transaction) => {
+      const deviceSnap = await transaction.get(doc(typedCollection('devices'), deviceId));
+      if (!deviceSnap.exists()) {
+        throw new Error('Device not found');
+      }
+      const device = deviceSnap.data();
+      const equipmentTypeSnap = device.equipmentTypeId
+        ? await transaction.get(doc(typedCollection('equipmentTypes'), device.equipmentTypeId))
+        : null;
+      const dates = maintenanceDatesAfterVisit(device, equipmentTypeSnap?.data(), completedDate);
+      if (!dates) return;
+      transaction.update(doc(db, 'devices', deviceId), {
+        ...validateWrite(deviceSchema, dates),
+        updatedAt: serverTimestamp()
+      });
+    });
+  },
+
+  async deleteDevice(deviceId) {
     const deviceRef = doc(db, 'devices', deviceId);
     await deleteDoc(deviceRef);
   },
 
-  async getDevicesByCategory(categoryId: string) {
-    const devicesRef = collection(db, 'devices');
+  async getDevicesByCategory(categoryId) {
+    const devicesRef = typedCollection('devices');
     const q = query(devicesRef, where('categoryId', '==', categoryId));
     const snapshot = await getDocs(q);
-    return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }));
+    return snapshot.docs.map(doc => doc.data());
+  },
+
+  subscribeToDevices(onChange, onError) {
+    const q = query(typedCollection('devices'), orderBy('createdAt', 'desc'));
+    return subscribeToQuery(q, onChange, onError);
   }
 };
 
 // Request Service
-export const requestService = {
-  async createRequest(requestData: any) {
+export const requestService: RequestRepository = {
+  async createRequest(requestData) {
     const requestsRef = collection(db, 'requests');
     const docRef = await addDoc(requestsRef, {
-      ...requestData,
+      ...validateWrite(requestSchema, requestData),
       status: 'pending',
       createdAt: serverTimestamp(),
       updatedAt: serverTimestamp()
     });
-    return docRef;
+    return docRef.id;
+  },
+
+  async getRequest(requestId) {
+    const requestSnap = await getDoc(doc(typedCollection('requests'), requestId));
+    return requestSnap.exists() ? requestSnap.data() : null;
   },
 
   async getAllRequests() {
-    const requestsRef = collection(db, 'requests');
+    const requestsRef = typedCollection('requests');
     const q = query(requestsRef, orderBy('createdAt', 'desc'));
     const snapshot = await getDocs(q);
-    return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }));
+    return snapshot.docs.map(doc => doc.data());
   },
 
-  async getUserRequests(userId: string) {
-    const requestsRef = collection(db, 'requests');
+  async getUserRequests(userId) {
+    const requestsRef = typedCollection('requests');
     const q = query(requestsRef, where('userId', '==', userId), orderBy('createdAt', 'desc'));
     const snapshot = await getDocs(q);
-    return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }));
+    return snapshot.docs.map(doc => doc.data());
   },
 
-  async updateRequest(requestId: string, updates: any) {
+  async updateRequest(requestId, updates) {
     const requestRef = doc(db, 'requests', requestId);
     await updateDoc(requestRef, {
-      ...updates,
+      ...validateWrite(requestSchema, updates),
       updatedAt: serverTimestamp()
     });
+  },
+
+  async assignRequest(requestId, assignment) {
+    // Read the current assignee in the same transaction so the history never records a stale one
+    await runTransaction(db, async (transaction) => {
+      const requestRef = doc(typedCollection('requests'), requestId);
+      const requestSnap = await transaction.get(requestRef);
+      if (!requestSnap.exists()) {
+        throw new Error('Request not found');
+      }
+
+      transaction.update(doc(db, 'requests', requestId), {
+        assignedAdminId: assignment.toAssigneeId,
+        updatedAt: serverTimestamp()
+      });
+      transaction.set(doc(collection(db, 'requestAssignments')), validateWrite(requestAssignmentSchema, {
+        ...assignment,
+        requestId,
+        fromAssigneeId: requestSnap.data().assignedAdminId,
+        assignedAt: new Date().toISOString()
+      }));
+    });
+  },
+
+  async getAssignmentHistory(requestId) {
+    const assignmentsRef = typedCollection('requestAssignments');
+    const q = requestId
+      ? query(assignmentsRef, where('requestId', '==', requestId), orderBy('assignedAt', 'desc'))
+      : query(assignmentsRef, orderBy('assignedAt', 'desc'));
+    const snapshot = await getDocs(q);
+    return snapshot.docs.map(doc => doc.data());
+  },
+
+  async addActivity(requestId, activity) {
+    const activityRef = collection(db, 'requestActivity');
+    const docRef = await addDoc(activityRef, {
+      ...validateWrite(requestActivitySchema, { ...activity, requestId }),
+      createdAt: serverTimestamp()
+    });
+    return docRef.id;
+  },
+
+  async getActivity(requestId) {
+    const activityRef = typedCollection('requestActivity');
+    const q = query(activityRef, where('requestId', '==', requestId), orderBy('createdAt'));
+    const snapshot = await getDocs(q);
+    return snapshot.docs.map(doc => doc.data());
+  },
+
+  subscribeToActivity(requestId, onChange, onError) {
+    const q = query(typedCollection('requestActivity'), where('requestId', '==', requestId), orderBy('createdAt'));
+    return subscribeToQuery(q, onChange, onError);
+  },
+
+  subscribeToRequests(onChange, onError) {
+    const q = query(typedCollection('requests'), orderBy('createdAt', 'desc'));
+    return subscribeToQuery(q, onChange, onError);
+  },
+
+  subscribeToUserRequests(userId, onChange, onError) {
+    const q = query(typedCollection('requests'), where('userId', '==', userId), orderBy('createdAt', 'desc'));
+    return subscribeToQuery(q, onChange, onError);
   }
 };
 
 // Incident Service
-export const incidentService = {
-  async createIncident(incidentData: any) {
+export const incidentService: IncidentRepository = {
+  async createIncident(incidentData) {
     const incidentsRef = collection(db, 'incidents');
     const docRef = await addDoc(incidentsRef, {
-      ...incidentData,
+      ...validateWrite(incidentSchema, incidentData),
       status: 'open',
       createdAt: serverTimestamp()
     });
-    return docRef;
+    return docRef.id;
   },
 
   async getAllIncidents() {
-    const incidentsRef = collection(db, 'incidents');
+    const incidentsRef = typedCollection('incidents');
     const q = query(incidentsRef, orderBy('createdAt', 'desc'));
     const snapshot = await getDocs(q);
-    return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }));
+    return snapshot.docs.map(doc => doc.data());
   },
 
-  async updateIncident(incidentId: string, updates: any) {
+  async updateIncident(incidentId, updates) {
     const incidentRef = doc(db, 'incidents', incidentId);
     await updateDoc(incidentRef, {
-      ...updates,
+      ...validateWrite(incidentSchema, updates),
+      updatedAt: serverTimestamp()
+    });
+  },
+
+  subscribeToIncidents(onChange, onError) {
+    const q = query(typedCollection('incidents'), orderBy('createdAt', 'desc'));
+    return subscribeToQuery(q, onChange, onError);
+  }
+};
+
+// Maintenance Schedule Service
+export const maintenanceService: MaintenanceRepository = {
+  async createSchedule(scheduleData) {
+    const schedulesRef = collection(db, 'maintenanceSchedules');
+    const docRef = await addDoc(schedulesRef, {
+      status: 'scheduled',
+      ...validateWrite(maintenanceScheduleSchema, scheduleData),
+      createdAt: serverTimestamp()
+    });
+    return docRef.id;
+  },
+
+  async getAllSchedules() {
+    const schedulesRef = typedCollection('maintenanceSchedules');
+    const q = query(schedulesRef, orderBy('scheduledDate', 'desc'));
+    const snapshot = await getDocs(q);
+    return snapshot.docs.map(doc => doc.data());
+  },
+
+  async updateSchedule(scheduleId, updates) {
+    const scheduleRef = doc(db, 'maintenanceSchedules', scheduleId);
+    await updateDoc(scheduleRef, {
+      ...validateWrite(maintenanceScheduleSchema, updates),
+      updatedAt: serverTimestamp()
+    });
+  },
+
+  subscribeToSchedules(onChange, onError) {
+    const q = query(typedCollection('maintenanceSchedules'), orderBy('scheduledDate', 'desc'));
+    return subscribeToQuery(q, onChange, onError);
+  },
+
+  async createPlan(planData) {
+    const plansRef = collection(db, 'maintenancePlans');
+    const docRef = await addDoc(plansRef, {
+      ...validateWrite(maintenancePlanSchema, planData),
+      createdAt: serverTimestamp()
+    });
+    return docRef.id;
+  },
+
+  async getAllPlans() {
+    const plansRef = typedCollection('maintenancePlans');
+    const q = query(plansRef, orderBy('name'));
+    const snapshot = await getDocs(q);
+    return snapshot.docs.map(doc => doc.data());
+  },
+
+  async updatePlan(planId, updates) {
+    const planRef = doc(db, 'maintenancePlans', planId);
+    await updateDoc(planRef, {
+      ...validateWrite(maintenancePlanSchema, updates),
+      updatedAt: serverTimestamp()
+    });
+  },
+
+  async deletePlan(planId) {
+    const planRef = doc(db, 'maintenancePlans', planId);
+    await deleteDoc(planRef);
+  }
+};
+
+// Compliance Record Service
+export const complianceService: ComplianceRepository = {
+  async createRecord(recordData) {
+    const recordsRef = collection(db, 'complianceRecords');
+    const docRef = await addDoc(recordsRef, {
+      ...validateWrite(complianceRecordSchema, recordData),
+      createdAt: serverTimestamp()
+    });
+    return docRef.id;
+  },
+
+  async getAllRecords() {
+    const recordsRef = typedCollection('complianceRecords');
+    const q = query(recordsRef, orderBy('expiryDate'));
+    const snapshot = await getDocs(q);
+    return snapshot.docs.map(doc => doc.data());
+  },
+
+  async updateRecord(recordId, updates) {
+    const recordRef = doc(db, 'complianceRecords', recordId);
+    await updateDoc(recordRef, {
+      ...validateWrite(complianceRecordSchema, updates),
+      updatedAt: serverTimestamp()
+    });
+  },
+
+  async renewRecord(recordId, renewal) {
+    const recordRef = doc(db, 'complianceRecords', recordId);
+    const renewalRef = doc(collection(db, 'complianceRecords'));
+    // The old record is read inside the transaction, so it can only be renewed once
+    await runTransaction(db, async (transaction) => {
+      const recordSnap = await transaction.get(doc(typedCollection('complianceRecords'), recordId));
+      if (!recordSnap.exists()) {
+        throw new Error('Compliance record not found');
+      }
+      if (recordSnap.data().supersededBy) {
+        throw new Error('This certificate has already been renewed');
+      }
+      transaction.set(renewalRef, {
+        ...validateWrite(complianceRecordSchema, { ...renewal, renewedFrom: recordId }),
+        createdAt: serverTimestamp()
+      });
+      transaction.update(recordRef, {
+        ...validateWrite(complianceRecordSchema, { supersededBy: renewalRef.id, status: 'superseded' }),
+        updatedAt: serverTimestamp()
+      });
+    });
+    return renewalRef.id;
+  }
+};
+
+// Equipment Type Service
+export const equipmentTypeService: EquipmentTypeRepository = {
+  async createEquipmentType(equipmentTypeData) {
+    const equipmentTypesRef = collection(db, 'equipmentTypes');
+    const docRef = await addDoc(equipmentTypesRef, {
+      ...validateWrite(equipmentTypeSchema, equipmentTypeData),
+      createdAt: serverTimestamp()
+    });
+    return docRef.id;
+  },
+
+  async getAllEquipmentTypes() {
+    const equipmentTypesRef = typedCollection('equipmentTypes');
+    const q = query(equipmentTypesRef, orderBy('name'));
+    const snapshot = await getDocs(q);
+    return snapshot.docs.map(doc => doc.data());
+  },
+
+  async updateEquipmentType(equipmentTypeId, updates) {
+    const equipmentTypeRef = doc(db, 'equipmentTypes', equipmentTypeId);
+    await updateDoc(equipmentTypeRef, {
+      ...validateWrite(equipmentTypeSchema, updates),
       updatedAt: serverTimestamp()
     });
+  },
+
+  async deleteEquipmentType(equipmentTypeId) {
+    const equipmentTypeRef = doc(db, 'equipmentTypes', equipmentTypeId);
+    await deleteDoc(equipmentTypeRef);
   }
 };
 
-// Initialize sample data
-export const initializeSampleData = async (userId: string) => {
-  try {
+// Spare Part Service
+export const sparePartService: SparePartRepository = {
+  async createPart(partData) {
+    const partsRef = collection(db, 'spareParts');
+    const docRef = await addDoc(partsRef, {
+      ...validateWrite(sparePartSchema, partData),
+      createdAt: serverTimestamp()
+    });
+    return docRef.id;
+  },
+
+  async getAllParts() {
+    const partsRef = typedCollection('spareParts');
+    const q = query(partsRef, orderBy('name'));
+    const snapshot = await getDocs(q);
+    return snapshot.docs.map(doc => doc.data());
+  },
+
+  async updatePart(partId, updates) {
+    const partRef = doc(db, 'spareParts', partId);
+    await updateDoc(partRef, {
+      ...validateWrite(sparePartSchema, updates),
+      updatedAt: serverTimestamp()
+    });
+  },
+
+  async deletePart(partId) {
+    const partRef = doc(db, 'spareParts', partId);
+    await deleteDoc(partRef);
+  },
+
+  async consumeParts(scheduleId, usages) {
+    // Every part is read inside the transaction, so two work orders can't both take the last one
+    return runTransaction(db, async (transaction) => {
+      const scheduleRef = doc(typedCollection('maintenanceSchedules'), scheduleId);
+      const scheduleSnap = await transaction.get(scheduleRef);
+      if (!scheduleSnap.exists()) {
+        throw new Error('Maintenance schedule not found');
+      }
+      if (scheduleSnap.data().partsConsumedAt) return false;
+
+      const partIds = [...new Set(usages.map(usage => usage.partId))];
+      const snapshots = await Promise.all(
+        partIds.map(partId => transaction.get(doc(typedCollection('spareParts'), partId)))
+      );
+      const stockLevels = snapshots.map((snapshot, index) => {
+        if (!snapshot.exists()) {
+          throw new Error('Spare part not found');
+        }
+        return applyConsumption(snapshot.data(), usages.filter(usage => usage.partId === partIds[index]));
+      });
+      partIds.forEach((partId, index) => {
+        transaction.update(doc(db, 'spareParts', partId), {
+          stockLevels: stockLevels[index],
+          updatedAt: serverTimestamp()
+        });
+      });
+      transaction.update(doc(db, 'maintenanceSchedules', scheduleId), {
+        partsConsumedAt: serverTimestamp(),
+        updatedAt: serverTimestamp()
+      });
+      return true;
+    });
+  }
+};
+
+// Service Contract Service
+export const serviceContractService: ServiceContractRepository = {
+  async createContract(contractData) {
+    const contractsRef = collection(db, 'serviceContracts');
+    const docRef = await addDoc(contractsRef, {
+      ...validateWrite(serviceContractSchema, contractData),
+      createdAt: serverTimestamp()
+    });
+    return docRef.id;
+  },
+
+  async getAllContracts() {
+    const contractsRef = typedCollection('serviceContracts');
+    const q = query(contractsRef, orderBy('endDate'));
+    const snapshot = await getDocs(q);
+    return snapshot.docs.map(doc => doc.data());
+  },
+
+  async updateContract(contractId, updates) {
+    const contractRef = doc(db, 'serviceContracts', contractId);
+    await updateDoc(contractRef, {
+      ...validateWrite(serviceContractSchema, updates),
+      updatedAt: serverTimestamp()
+    });
+  },
+
+  async deleteContract(contractId) {
+    const contractRef = doc(db, 'serviceContracts', contractId);
+    await deleteDoc(contractRef);
+  }
+};
+
+// SLA Policy Service
+export const slaPolicyService: SlaPolicyRepository = {
+  async createPolicy(policyData) {
+    const policiesRef = collection(db, 'slaPolicies');
+    const docRef = await addDoc(policiesRef, {
+      ...validateWrite(slaPolicySchema, policyData),
+      createdAt: serverTimestamp()
+    });
+    return docRef.id;
+  },
+
+  async getAllPolicies() {
+    const policiesRef = typedCollection('slaPolicies');
+    const q = query(policiesRef, orderBy('resolutionMinutes'));
+    const snapshot = await getDocs(q);
+    return snapshot.docs.map(doc => doc.data());
+  },
+
+  async updatePolicy(policyId, updates) {
+    const policyRef = doc(db, 'slaPolicies', policyId);
+    await updateDoc(policyRef, {
+      ...validateWrite(slaPolicySchema, updates),
+      updatedAt: serverTimestamp()
+    });
+  },
+
+  async deletePolicy(policyId) {
+    const policyRef = doc(db, 'slaPolicies', policyId);
+    await deleteDoc(policyRef);
+  }
+};
+
+// Escalation Service
+export const escalationService: EscalationRepository = {
+  async createRule(ruleData) {
+    const rulesRef = collection(db, 'escalationRules');
+    const docRef = await addDoc(rulesRef, {
+      ...validateWrite(escalationRuleSchema, ruleData),
+      createdAt: serverTimestamp()
+    });
+    return docRef.id;
+  },
+
+  async getAllRules() {
+    const rulesRef = typedCollection('escalationRules');
+    const q = query(rulesRef, orderBy('thresholdMinutes'));
+    const snapshot = await getDocs(q);
+    return snapshot.docs.map(doc => doc.data());
+  },
+
+  async updateRule(ruleId, updates) {
+    const ruleRef = doc(db, 'escalationRules', ruleId);
+    await updateDoc(ruleRef, {
+      ...validateWrite(escalationRuleSchema, updates),
+      updatedAt: serverTimestamp()
+    });
+  },
+
+  async deleteRule(ruleId) {
+    const ruleRef = doc(db, 'escalationRules', ruleId);
+    await deleteDoc(ruleRef);
+  },
+
+  async getAllEvents() {
+    const eventsRef = typedCollection('escalationEvents');
+    const q = query(eventsRef, orderBy('escalatedAt', 'desc'));
+    const snapshot = await getDocs(q);
+    return snapshot.docs.map(doc => doc.data());
+  },
+
+  async recordEvent(eventData) {
+    // The event id is fixed per rule and record, so concurrent runs cannot both record it
+    const eventRef = doc(db, 'escalationEvents', escalationKey(eventData.ruleId, eventData.targetId));
+    return runTransaction(db, async (transaction) => {
+      const eventSnap = await transaction.get(eventRef);
+      if (eventSnap.exists()) return false;
+      transaction.set(eventRef, validateWrite(escalationEventSchema, eventData));
+      return true;
+    });
+  }
+};
+
+// On-Call Service
+export const onCallService: OnCallRepository = {
+  async createRotation(rotationData) {
+    const rotationsRef = collection(db, 'onCallRotations');
+    const docRef = await addDoc(rotationsRef, {
+      ...validateWrite(onCallRotationSchema, rotationData),
+      createdAt: serverTimestamp()
+    });
+    return docRef.id;
+  },
+
+  async getAllRotations() {
+    const rotationsRef = typedCollection('onCallRotations');
+    const q = query(rotationsRef, orderBy('name'));
+    const snapshot = await getDocs(q);
+    return snapshot.docs.map(doc => doc.data());
+  },
+
+  async updateRotation(rotationId, updates) {
+    const rotationRef = doc(db, 'onCallRotations', rotationId);
+    await updateDoc(rotationRef, {
+      ...validateWrite(onCallRotationSchema, updates),
+      updatedAt: serverTimestamp()
+    });
+  },
+
+  async deleteRotation(rotationId) {
+    // Overrides mean nothing without their rotation
+    const overrides = await getDocs(query(collection(db, 'onCallOverrides'), where('rotationId', '==', rotationId)));
     const batch = writeBatch(db);
+    overrides.docs.forEach((overrideDoc) => batch.delete(overrideDoc.ref));
+    batch.delete(doc(db, 'onCallRotations', rotationId));
+    await batch.commit();
+  },
+
+  async createOverride(overrideData) {
+    const overridesRef = collection(db, 'onCallOverrides');
+    const docRef = await addDoc(overridesRef, {
+      ...validateWrite(onCallOverrideSchema, overrideData),
+      createdAt: serverTimestamp()
+    });
+    return docRef.id;
+  },
+
+  async getOverrides(since) {
+    const overridesRef = typedCollection('onCallOverrides');
+    const q = query(overridesRef, where('endsAt', '>', since), orderBy('endsAt'));
+    const snapshot = await getDocs(q);
+    return snapshot.docs.map(doc => doc.data());
+  },
+
+  async deleteOverride(overrideId) {
+    const overrideRef = doc(db, 'onCallOverrides', overrideId);
+    await deleteDoc(overrideRef);
+  }
+};
+
+// Attachment Service: metadata in Firestore, files in firebaseFileStorage
+export const attachmentService: AttachmentRepository = {
+  async createAttachment(attachmentData) {
+    const attachmentsRef = collection(db, 'attachments');
+    const docRef = await addDoc(attachmentsRef, {
+      ...validateWrite(attachmentSchema, attachmentData),
+      createdAt: serverTimestamp()
+    });
+    return docRef.id;
+  },
+
+  async getAttachment(attachmentId) {
+    const attachmentSnap = await getDoc(doc(typedCollection('attachments'), attachmentId));
+    return attachmentSnap.exists() ? attachmentSnap.data() : null;
+  },
+
+  async getAttachments(ownerType, ownerId) {
+    const attachmentsRef = typedCollection('attachments');
+    const q = query(
+      attachmentsRef,
+      where('ownerType', '==', ownerType),
+      where('ownerId', '==', ownerId),
+      orderBy('createdAt')
+    );
+    const snapshot = await getDocs(q);
+    return snapshot.docs.map(doc => doc.data());
+  },
+
+  async getDeviceAttachments(deviceId) {
+    const attachmentsRef = typedCollection('attachments');
+    const q = query(attachmentsRef, where('deviceId', '==', deviceId), orderBy('createdAt', 'desc'));
+    const snapshot = await getDocs(q);
+    return snapshot.docs.map(doc => doc.data());
+  },
+
+  async deleteAttachment(attachmentId) {
+    const attachmentRef = doc(db, 'attachments', attachmentId);
+    await deleteDoc(attachmentRef);
+  }
+};
+
+// Files in the project's default Cloud Storage bucket
+export const firebaseFileStorage: FileStorage = {
+  async upload(path, file) {
+    await uploadBytes(ref(storage, path), file, { contentType: file.type || undefined });
+  },
+
+  async getUrl(path) {
+    return getDownloadURL(ref(storage, path));
+  },
+
+  async remove(path) {
+    await deleteObject(ref(storage, path));
+  }
+};
+
+const toAuthUser = ({ uid, email, displayName }: User): AuthUser => ({ uid, email, displayName });
+
+// Firebase Authentication; profiles live at profiles/{uid}
+export const firebaseAuth: AuthAdapter = {
+  onAuthStateChanged(listener) {
+    return onAuthStateChanged(auth, (user) => listener(user && toAuthUser(user)));
+  },
+
+  async signIn(email, password) {
+    const { user } = await signInWithEmailAndPassword(auth, email, password);
+    return toAuthUser(user);
+  },
+
+  async signUp(email, password, fullName) {
+    const { user } = await createUserWithEmailAndPassword(auth, email, password);
+    await updateProfile(user, { displayName: fullName });
+    return { ...toAuthUser(user), displayName: fullName };
+  },
+
+  async signInWithGoogle() {
+    const { user } = await signInWithPopup(auth, googleProvider);
+    return toAuthUser(user);
+  },
+
+  async signOut() {
+    await firebaseSignOut(auth);
+  }
+};
+
+// Notification Service: notifications with a dedupe key get a fixed id, so a
+// check that runs in several browsers sends each one once
+export const notificationService: NotificationRepository = {
+  async createNotification(notificationData) {
+    const data = {
+      ...validateWrite(userNotificationSchema, notificationData),
+      readAt: null,
+      createdAt: serverTimestamp()
+    };
+    if (!notificationData.dedupeKey) {
+      await addDoc(collection(db, 'notifications'), data);
+      return true;
+    }
 
-    // Sample departments
-    const sampleDepartments = [
-      { name: 'Emergency Department', code: 'ED', description: 'Emergency medical services and trauma care', isCritical: true, headOfDepartment: 'Dr. Sarah Johnson', contactNumber: '(555) 123-4567', location: 'Ground Floor, Wing A' },
-      { name: 'Intensive Care Unit', code: 'ICU', description: 'Critical care for severely ill patients', isCritical: true, headOfDepartment: 'Dr. Michael Chen', contactNumber: '(555) 123-4568', location: '3rd Floor, Wing B' },
-      { name: 'Radiology Department', code: 'RAD', description: 'Medical imaging and diagnostic services', isCritical: false, headOfDepartment: 'Dr. Emily Rodriguez', contactNumber: '(555) 123-4569', location: '2nd Floor, Wing C' },
-      { name: 'Laboratory Services', code: 'LAB', description: 'Clinical laboratory and pathology services', isCritical: false, headOfDepartment: 'Dr. James Wilson', contactNumber: '(555) 123-4570', location: 'Basement Level, Wing A' },
-      { name: 'Pharmacy Department', code: 'PHARM', description: 'Hospital pharmacy and medication management', isCritical: false, headOfDepartment: 'PharmD Lisa Thompson', contactNumber: '(555) 123-4571', location: 'Ground Floor, Wing B' },
-      { name: 'Surgical Department', code: 'SURG', description: 'Operating rooms and surgical services', isCritical: true, headOfDepartment: 'Dr. Robert Martinez', contactNumber: '(555) 123-4572', location: '4th Floor, Wing A' },
-      { name: 'Cardiology Department', code: 'CARD', description: 'Heart and cardiovascular care services', isCritical: true, headOfDepartment: 'Dr. Amanda Davis', contactNumber: '(555) 123-4573', location: '5th Floor, Wing B' },
-      { name: 'Pediatrics Department', code: 'PED', description: 'Children and adolescent medical care', isCritical: false, headOfDepartment: 'Dr. Kevin Brown', contactNumber: '(555) 123-4574', location: '6th Floor, Wing C' },
-      { name: 'Oncology Department', code: 'ONC', description: 'Cancer treatment and care services', isCritical: true, headOfDepartment: 'Dr. Maria Garcia', contactNumber: '(555) 123-4575', location: '7th Floor, Wing A' },
-      { name: 'Neurology Department', code: 'NEURO', description: 'Brain and nervous system disorders', isCritical: true, headOfDepartment: 'Dr. David Lee', contactNumber: '(555) 123-4576', location: '8th Floor, Wing B' },
-      { name: 'Orthopedics Department', code: 'ORTHO', description: 'Bone, joint, and musculoskeletal care', isCritical: false, headOfDepartment: 'Dr. Jennifer White', contactNumber: '(555) 123-4577', location: '9th Floor, Wing C' },
-      { name: 'Maternity Ward', code: 'MAT', description: 'Obstetrics and gynecology services', isCritical: true, headOfDepartment: 'Dr. Susan Taylor', contactNumber: '(555) 123-4578', location: '10th Floor, Wing A' },
-      { name: 'Psychiatry Department', code: 'PSYCH', description: 'Mental health and psychiatric services', isCritical: false, headOfDepartment: 'Dr. Mark Anderson', contactNumber: '(555) 123-4579', location: '11th Floor, Wing B' },
-      { name: 'Physical Therapy', code: 'PT', description: 'Rehabilitation and physical therapy services', isCritical: false, headOfDepartment: 'PT Director Rachel Green', contactNumber: '(555) 123-4580', location: '1st Floor, Wing C' },
-      { name: 'IT Department', code: 'IT', description: 'Information technology and systems management', isCritical: true, headOfDepartment: 'IT Director John Smith', contactNumber: '(555) 123-4581', location: 'Basement Level, Wing B' }
-    ];
-
-    // Add sample departments
-    sampleDepartments.forEach((department) => {
-      const departmentRef = doc(collection(db, 'departments'));
-      batch.set(departmentRef, {
+    const notificationRef = doc(db, 'notifications', notificationKey(notificationData.recipientId, notificationData.dedupeKey));
+    return runTransaction(db, async (transaction) => {
+      const notificationSnap = await transaction.get(notificationRef);
+      if (notificationSnap.exists()) return false;
+      transaction.set(notificationRef, data);
+      return true;
+    });
+  },
+
+  async notifyRoles(roles, notificationData) {
+    const profiles = await profileService.getAllProfiles();
+    let created = 0;
+    for (const profile of profiles.filter((p) => roles.includes(p.role))) {
+      if (await notificationService.createNotification({ ...notificationData, recipientId: profile.id })) created += 1;
+    }
+    return created;
+  },
+
+  async getNotifications(recipientId) {
+    const q = query(
+      typedCollection('notifications'),
+      where('recipientId', '==', recipientId),
+      orderBy('createdAt', 'desc'),
+      limit(NOTIFICATION_LIMIT)
+    );
+    const snapshot = await getDocs(q);
+    return snapshot.docs.map(doc => doc.data());
+  },
+
+  // The access control layer has already checked these belong to recipientId
+  async markRead(_recipientId, notificationIds) {
+    const batch = writeBatch(db);
+    notificationIds.forEach((notificationId) => {
+      batch.update(doc(db, 'notifications', notificationId), { readAt: serverTimestamp() });
+    });
+    await batch.commit();
+  },
+
+  async markAllRead(recipientId) {
+    const q = query(collection(db, 'notifications'), where('recipientId', '==', recipientId), where('readAt', '==', null));
+    const snapshot = await getDocs(q);
+    const batch = writeBatch(db);
+    snapshot.docs.forEach((notificationDoc) => batch.update(notificationDoc.ref, { readAt: serverTimestamp() }));
+    await batch.commit();
+  },
+
+  subscribeToNotifications(recipientId, onChange, onError) {
+    const q = query(
+      typedCollection('notifications'),
+      where('recipientId', '==', recipientId),
+      orderBy('createdAt', 'desc'),
+      limit(NOTIFICATION_LIMIT)
+    );
+    return subscribeToQuery(q, onChange, onError);
+  }
+};
+
+// Outbox Service: the claim runs in a transaction so two dispatchers never
+// send the same message
+export const outboxService: OutboxRepository = {
+  async enqueueMessage(messageData) {
+    const outboxRef = collection(db, 'outbox');
+    const docRef = await addDoc(outboxRef, {
+      ...validateWrite(outboxMessageSchema, newOutboxMessage(messageData)),
+      createdAt: serverTimestamp()
+    });
+    return docRef.id;
+  },
+
+  async getMessages() {
+    const q = query(typedCollection('outbox'), orderBy('createdAt', 'desc'), limit(OUTBOX_LIMIT));
+    const snapshot = await getDocs(q);
+    return snapshot.docs.map(doc => doc.data());
+  },
+
+  async getDueMessages(now) {
+    const q = query(
+      typedCollection('outbox'),
+      where('status', 'in', ['pending', 'sending']),
+      where('nextAttemptAt', '<=', now),
+      orderBy('nextAttemptAt')
+    );
+    const snapshot = await getDocs(q);
+    return snapshot.docs.map(doc => doc.data());
+  },
+
+  async claimMessage(messageId, now, leaseUntil) {
+    const messageRef = doc(typedCollection('outbox'), messageId);
+    return runTransaction(db, async (transaction) => {
+      const messageSnap = await transaction.get(messageRef);
+      const message = messageSnap.data();
+      if (!message || message.status === 'sent' || message.status === 'failed') return false;
+      if (!isDue(message.nextAttemptAt, new Date(now))) return false;
+      transaction.update(doc(db, 'outbox', messageId), { status: 'sending', nextAttemptAt: leaseUntil });
+      return true;
+    });
+  },
+
+  async updateMessage(messageId, updates) {
+    const messageRef = doc(db, 'outbox', messageId);
+    await updateDoc(messageRef, {
+      ...validateWrite(outboxMessageSchema, updates),
+      updatedAt: serverTimestamp()
+    });
+  }
+};
+
+// Audit Log Service: entries are only ever added (the security rules should
+// deny update and delete on auditLog)
+export const auditLogService: AuditLogRepository = {
+  async recordEntry(entryData) {
+    const entriesRef = collection(db, 'auditLog');
+    await addDoc(entriesRef, {
+      ...validateWrite(auditEntrySchema, entryData),
+      timestamp: serverTimestamp()
+    });
+  },
+
+  async getEntries(filter = {}) {
+    const { entityType, entityId, actorId, from, to } = filter;
+    const constraints: QueryConstraint[] = [];
+    if (entityType) constraints.push(where('entityType', '==', entityType));
+    if (entityId) constraints.push(where('entityId', '==', entityId));
+    if (actorId) constraints.push(where('actorId', '==', actorId));
+    if (from) constraints.push(where('timestamp', '>=', Timestamp.fromDate(new Date(from))));
+    if (to) constraints.push(where('timestamp', '<=', Timestamp.fromDate(new Date(to))));
+
+    const q = query(typedCollection('auditLog'), ...constraints, orderBy('timestamp', 'desc'), limit(AUDIT_LOG_LIMIT));
+    const snapshot = await getDocs(q);
+    return snapshot.docs.map(doc => doc.data());
+  },
+
+  async getHistory(entityType, entityId) {
+    // One document past the limit tells whether anything was left out
+    const q = query(
+      typedCollection('auditLog'),
+      where('entityType', '==', entityType),
+      where('entityId', '==', entityId),
+      orderBy('timestamp', 'desc'),
+      limit(AUDIT_HISTORY_LIMIT + 1)
+    );
+    const snapshot = await getDocs(q);
+    const entries = snapshot.docs.map(doc => doc.data());
+    return { entries: entries.slice(0, AUDIT_HISTORY_LIMIT), truncated: entries.length > AUDIT_HISTORY_LIMIT };
+  }
+};
+
+// System Config Service: one document at system/config
+export const systemConfigService: SystemConfigRepository = {
+  async getConfig() {
+    const configSnap = await getDoc(doc(typedCollection('system'), 'config'));
+    return configSnap.exists() ? configSnap.data() : null;
+  },
+
+  async completeSetup({ organizationName, adminUserId }) {
+    // Checked inside a transaction so two browsers racing through setup cannot both promote an admin
+    await runTransaction(db, async (transaction) => {
+      const configRef = doc(db, 'system', 'config');
+      const configSnap = await transaction.get(configRef);
+      if (configSnap.exists()) {
+        throw new Error('Setup has already been completed');
+      }
+
+      transaction.set(configRef, {
+        ...validateWrite(systemConfigSchema, { organizationName, setupCompletedBy: adminUserId }),
+        setupCompletedAt: serverTimestamp()
+      });
+      transaction.update(doc(db, 'profiles', adminUserId), {
+        role: 'admin',
+        updatedAt: serverTimestamp()
+      });
+    });
+  },
+
+  async seedSampleData() {
+    const [departments, categories, requestTypes, equipmentTypes, spareParts, devices, slaPolicies, escalationRules] = await Promise.all([
+      getDocs(typedCollection('departments')),
+      getDocs(typedCollection('deviceCategories')),
+      getDocs(typedCollection('requestTypes')),
+      getDocs(typedCollection('equipmentTypes')),
+      getDocs(typedCollection('spareParts')),
+      getDocs(typedCollection('devices')),
+      getDocs(typedCollection('slaPolicies')),
+      getDocs(typedCollection('escalationRules')),
+    ]);
+    const missing = missingSampleData({
+      departments: departments.docs.map(doc => doc.data().name),
+      categories: categories.docs.map(doc => doc.data().name),
+      requestTypes: requestTypes.docs.map(doc => doc.data().name),
+      equipmentTypes: equipmentTypes.docs.map(doc => doc.data().name),
+      partNumbers: spareParts.docs.map(doc => doc.data().partNumber),
+      serialNumbers: devices.docs.map(doc => doc.data().serialNumber ?? ''),
+      slaPolicies: slaPolicies.docs.map(doc => doc.data().name),
+      escalationRules: escalationRules.docs.map(doc => doc.data().name),
+    });
+
+    const batch = writeBatch(db);
+
+    missing.departments.forEach((department) => {
+      batch.set(doc(collection(db, 'departments')), {
         ...department,
         createdAt: serverTimestamp()
       });
     });
 
-    // Sample device categories
-    const sampleCategories = [
-      { name: 'Medical Imaging Equipment', description: 'X-ray, MRI, CT scan, ultrasound equipment' },
-      { name: 'Patient Monitoring Systems', description: 'Vital signs and patient monitoring devices' },
-      { name: 'Laboratory Equipment', description: 'Lab testing, analysis, and diagnostic equipment' },
-      { name: 'Surgical Equipment', description: 'Operating room and surgical instruments' },
-      { name: 'IT Equipment', description: 'Computers, servers, network devices, and software' },
-      { name: 'Life Support Systems', description: 'Ventilators, ECMO, and critical life support' },
-      { name: 'Cardiac Equipment', description: 'ECG, defibrillators, and cardiac monitoring' },
-      { name: 'Anesthesia Equipment', description: 'Anesthesia machines and gas monitoring' },
-      { name: 'Emergency Equipment', description: 'Crash carts, emergency response equipment' },
-      { name: 'Rehabilitation Equipment', description: 'Physical therapy and rehabilitation devices' }
-    ];
-
-    // Add sample categories
-    sampleCategories.forEach((category) => {
-      const categoryRef = doc(collection(db, 'deviceCategories'));
-      batch.set(categoryRef, {
+    missing.categories.forEach((category) => {
+      batch.set(doc(collection(db, 'deviceCategories')), {
         ...category,
         createdAt: serverTimestamp()
       });
     });
 
-    // Sample request types
-    const sampleRequestTypes = [
-      { name: 'Equipment Failure', description: 'Report broken or malfunctioning medical equipment' },
-      { name: 'New Equipment Request', description: 'Request for new medical or IT equipment purchase' },
-      { name: 'Software Issue', description: 'Problems with hospital management software systems' },
-      { name: 'Network Connectivity Problem', description: 'Internet, WiFi, or network connectivity issues' },
-      { name: 'Emergency Repair', description: 'Urgent equipment repair affecting patient care' },
-      { name: 'Preventive Maintenance', description: 'Scheduled maintenance and calibration services' },
-      { name: 'Equipment Training', description: 'Staff training on medical equipment usage' },
-      { name: 'System Integration', description: 'Integration of new systems with existing infrastructure' },
-      { name: 'Security Incident', description: 'IT security breaches or suspicious activities' },
-      { name: 'Data Recovery', description: 'Recovery of lost or corrupted patient data' },
-      { name: 'Compliance Audit', description: 'Equipment compliance and regulatory audit requests' },
-      { name: 'Upgrade Request', description: 'Software or hardware upgrade requirements' }
-    ];
-
-    // Add sample request types
-    sampleRequestTypes.forEach((requestType) => {
-      const requestTypeRef = doc(collection(db, 'requestTypes'));
-      batch.set(requestTypeRef, {
+    missing.requestTypes.forEach((requestType) => {
+      batch.set(doc(collection(db, 'requestTypes')), {
         ...requestType,
         createdAt: serverTimestamp()
       });
     });
 
-    // Sample devices
-    const sampleDevices = [
-      {
-        name: 'MRI Scanner - Radiology Main',
-        model: 'Siemens MAGNETOM Skyra 3T',
-        serialNumber: 'MRI-001-2024',
-        status: 'active',
-        category: 'Medical Imaging Equipment',
-        location: 'Radiology Department',
-        isCritical: true,
-        complianceStatus: 'compliant',
-        purchaseDate: '2023-01-15',
-        warrantyDate: '2026-01-15',
-        notes: 'Primary MRI scanner for emergency and routine imaging. Last calibration: 2024-01-15'
-      },
-      {
-        name: 'Patient Monitor - ICU Room 101',
-        model: 'Philips IntelliVue MX800',
-        serialNumber: 'PM-ICU-001',
-        status: 'active',
-        category: 'Patient Monitoring Systems',
-        location: 'ICU Room 101',
-        isCritical: true,
-        complianceStatus: 'compliant',
-        purchaseDate: '2023-03-20',
-        warrantyDate: '2026-03-20',
-        notes: 'Multi-parameter patient monitor with advanced cardiac monitoring capabilities'
-      },
-      {
-        name: 'Digital X-Ray System - Emergency',
-        model: 'GE Healthcare Optima XR200amx',
-        serialNumber: 'XR-ED-003',
-        status: 'maintenance',
-        category: 'Medical Imaging Equipment',
-        location: 'Emergency Department',
-        isCritical: true,
-        complianceStatus: 'pending',
-        purchaseDate: '2022-08-10',
-        warrantyDate: '2025-08-10',
-        notes: 'Currently under preventive maintenance - detector calibration and software update'
-      },
-      {
-        name: 'Mechanical Ventilator - ICU Room 102',
-        model: 'Medtronic PB980',
-        serialNumber: 'VENT-ICU-002',
-        status: 'active',
-        category: 'Life Support Systems',
-        location: 'ICU Room 102',
-        isCritical: true,
-        complianceStatus: 'compliant',
-        purchaseDate: '2023-05-12',
-        warrantyDate: '2026-05-12',
-        notes: 'Advanced mechanical ventilator with lung protective ventilation modes and NIV capability'
-      },
-      {
-        name: 'CT Scanner - Radiology',
-        model: 'Siemens SOMATOM Definition AS+',
-        serialNumber: 'CT-RAD-001',
-        status: 'active',
-        category: 'Medical Imaging Equipment',
-        location: 'Radiology Department',
-        isCritical: true,
-        complianceStatus: 'compliant',
-        purchaseDate: '2022-11-30',
-        warrantyDate: '2025-11-30',
-        notes: '128-slice CT scanner with advanced cardiac imaging capabilities'
-      },
-      {
-        name: 'Portable Ultrasound - Emergency',
-        model: 'Philips EPIQ CVx',
-        serialNumber: 'US-PORT-001',
-        status: 'active',
-        category: 'Medical Imaging Equipment',
-        location: 'Emergency Department',
-        isCritical: false,
-        complianceStatus: 'compliant',
-        purchaseDate: '2023-07-18',
-        warrantyDate: '2026-07-18',
-        notes: 'High-end portable ultrasound system for bedside examinations and procedures'
-      },
-      {
-        name: 'Defibrillator - Emergency Room 1',
-        model: 'ZOLL X Series',
-        serialNumber: 'DEFIB-ED-001',
-        status: 'active',
-        category: 'Emergency Equipment',
-        location: 'Emergency Department',
-        isCritical: true,
-        complianceStatus: 'compliant',
-        purchaseDate: '2023-02-28',
-        warrantyDate: '2026-02-28',
-        notes: 'Advanced life support defibrillator with Real CPR Help'
-      },
-      {
-        name: 'Anesthesia Machine - OR-01',
-        model: 'GE Healthcare Aisys CS2',
-        serialNumber: 'ANES-OR-001',
-        status: 'faulty',
-        category: 'Surgical Equipment',
-        location: 'Operating Room 1',
-        isCritical: true,
-        complianceStatus: 'non-compliant',
-        purchaseDate: '2021-12-15',
-        warrantyDate: '2024-12-15',
-        notes: 'Oxygen sensor malfunction - requires immediate repair'
-      }
-    ];
+    // Parts list the equipment they fit by id, so new types get theirs up front
+    const equipmentTypeIds = new Map(equipmentTypes.docs.map(doc => [doc.data().name, doc.id]));
+    missing.equipmentTypes.forEach((equipmentType) => {
+      const equipmentTypeRef = doc(collection(db, 'equipmentTypes'));
+      equipmentTypeIds.set(equipmentType.name, equipmentTypeRef.id);
+      batch.set(equipmentTypeRef, {
+        ...equipmentType,
+        createdAt: serverTimestamp()
+      });
+    });
 
-    // Add sample devices
-    sampleDevices.forEach((device) => {
-      const deviceRef = doc(collection(db, 'devices'));
-      batch.set(deviceRef, {
+    missing.spareParts.forEach(({ compatibleEquipmentTypes, ...part }) => {
+      batch.set(doc(collection(db, 'spareParts')), {
+        ...part,
+        compatibleEquipmentTypeIds: compatibleEquipmentTypes.flatMap((name) => equipmentTypeIds.get(name) ?? []),
+        createdAt: serverTimestamp()
+      });
+    });
+
+    missing.devices.forEach((device) => {
+      batch.set(doc(collection(db, 'devices')), {
         ...device,
         createdAt: serverTimestamp(),
         updatedAt: serverTimestamp()
       });
     });
 
-    // Sample requests
-    const sampleRequests = [
-      {
-        title: 'MRI Scanner Calibration Required',
-        description: 'The MRI scanner in Radiology needs routine calibration. Image quality has been slightly degraded in recent scans.',
-        requestType: 'Maintenance Request',
-        priority: 'medium',
-        urgencyLevel: 'routine',
-        patientImpact: false,
-        status: 'pending',
-        userId: userId
-      },
-      {
-        title: 'Emergency: Anesthesia Machine Malfunction',
-        description: 'Anesthesia machine in OR-1 showing oxygen sensor errors. Surgery scheduled in 2 hours needs immediate attention.',
-        requestType: 'Emergency Repair',
-        priority: 'urgent',
-        urgencyLevel: 'emergency',
-        patientImpact: true,
-        status: 'in_progress',
-        userId: userId
-      }
-    ];
+    missing.slaPolicies.forEach((policy) => {
+      batch.set(doc(collection(db, 'slaPolicies')), {
+        ...policy,
+        createdAt: serverTimestamp()
+      });
+    });
+
+    missing.escalationRules.forEach((rule) => {
+      batch.set(doc(collection(db, 'escalationRules')), {
+        ...rule,
+        createdAt: serverTimestamp()
+      });
+    });
 
+    batch.set(doc(db, 'system', 'config'), { sampleDataSeededAt: serverTimestamp() }, { merge: true });
     await batch.commit();
-    console.log('Sample data initialized successfully');
-  } catch (error) {
-    console.error('Error initializing sample data:', error);
   }
-};
\ No newline at end of file
+};
+
+export const firebaseRepository: DataRepository = {
+  profileService,
+  departmentService,
+  requestTypeService,
+  deviceCategoryService,
+  deviceService,
+  requestService,
+  incidentService,
+  maintenanceService,
+  complianceService,
+  equipmentTypeService,
+  sparePartService,
+  serviceContractService,
+  slaPolicyService,
+  escalationService,
+  onCallService,
+  attachmentService,
+  notificationService,
+  outboxService,
+  auditLogService,
+  systemConfigService,
+};
@@ -0,0 +1,95 @@
+import { withAccessControl } from './accessControl';
+import { withAuditLog } from './auditLog';
+import { withNotifications } from './notifications';
+import { withRequestActivity } from './requestActivity';
+import { firebaseAuth, firebaseFileStorage, firebaseRepository } from './firebaseService';
+import { createLocalFileStorage, createMemoryAuth, createMemoryRepository } from './memoryService';
+import { createHttpMessageTransport, createLocalMessageTransport } from './messageTransports';
+import { withSlaTracking } from './slaTracking';
+import { supabaseAuth, supabaseFileStorage, supabaseRepository } from './supabaseService';
+import type { AuthAdapter, DataRepository, FileStorage, MessageTransport } from './repository';
+
+export type DataBackend = 'firebase' | 'supabase' | 'memory';
+export type StorageBackend = 'firebase' | 'supabase' | 'local';
+export type MessageTransportKind = 'local' | 'http';
+
+// Pick the data backend with VITE_DATA_BACKEND; Firebase stays the default
+export const dataBackend: DataBackend = import.meta.env.VITE_DATA_BACKEND || 'firebase';
+
+// The memory backend keeps everything in the browser (persisted to localStorage)
+// so the app can be demoed without any cloud project
+export const memoryStorageKey = 'hospital-it:memory-store';
+export const demoSessionKey = 'hospital-it:demo-session';
+export const localFilesStorageKey = 'hospital-it:local-files';
+export const localMailboxStorageKey = 'hospital-it:local-mailbox';
+
+// Attachment files follow the data backend unless VITE_STORAGE_BACKEND says otherwise
+export const storageBackend: StorageBackend =
+  import.meta.env.VITE_STORAGE_BACKEND || (dataBackend === 'memory' ? 'local' : dataBackend);
+
+const repositories: Record<DataBackend, () => DataRepository> = {
+  firebase: () => firebaseRepository,
+  supabase: () => supabaseRepository,
+  memory: () => createMemoryRepository({ storageKey: memoryStorageKey }),
+};
+
+const fileStorages: Record<StorageBackend, () => FileStorage> = {
+  firebase: () => firebaseFileStorage,
+  supabase: () => supabaseFileStorage,
+  local: () => createLocalFileStorage({ storageKey: localFilesStorageKey }),
+};
+
+export const fileStorage = fileStorages[storageBackend]();
+
+// Email and SMS go to an HTTP relay when VITE_MESSAGE_TRANSPORT is 'http'
+// (VITE_MESSAGE_RELAY_URL); otherwise they land in a local mailbox that the
+// outbox viewer can show and download
+export const messageTransportKind: MessageTransportKind = import.meta.env.VITE_MESSAGE_TRANSPORT || 'local';
+
+export const localMailbox =
+  messageTransportKind === 'local' ? createLocalMessageTransport({ storageKey: localMailboxStorageKey }) : null;
+
+export const messageTransport: MessageTransport =
+  localMailbox ?? createHttpMessageTransport(import.meta.env.VITE_MESSAGE_RELAY_URL ?? '/api/messages');
+
+// Every backend gets the audit trail (auditLog.ts), SLA bookkeeping
+// (slaTracking.ts), request timelines (requestActivity.ts), notifications and
+// queued email/SMS (notifications.ts) and, in front of them all, the
+// capability checks from accessControl.ts. Auditing sits closest to the backend so its entries
+// include the SLA fields stamped on the way in.
+export const dataRepository = withAccessControl(
+  withNotifications(withRequestActivity(withSlaTracking(withAuditLog(repositories[dataBackend]()))))
+);
+
+// Sign-in goes to the same backend as the data, so its session is the one the
+// backend's security rules see
+const authAdapters: Record<DataBackend, () => AuthAdapter> = {
+  firebase: () => firebaseAuth,
+  supabase: () => supabaseAuth,
+  memory: () => createMemoryAuth({ profiles: dataRepository.profileService, sessionKey: demoSessionKey }),
+};
+
+export const authService = authAdapters[dataBackend]();
+
+export const {
+  profileService,
+  departmentService,
+  requestTypeService,
+  deviceCategoryService,
+  deviceService,
+  requestService,
+  incidentService,
+  maintenanceService,
+  complianceService,
+  equipmentTypeService,
+  sparePartService,
+  serviceContractService,
+  slaPolicyService,
+  escalationService,
+  onCallService,
+  attachmentService,
+  notificationService,
+  outboxService,
+  auditLogService,
+  systemConfigService,
+} = dataRepository;
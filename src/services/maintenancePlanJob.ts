@@ -0,0 +1,32 @@
+import { dataRepository } from './index';
+import type { DataRepository } from './repository';
+import { planScheduleChanges } from '../utils/maintenancePlans';
+
+// How often an open maintenance dashboard extends the plans' schedule
+export const PLAN_SYNC_INTERVAL_MS = 60 * 60 * 1000;
+
+// One pass over the maintenance plans: generates entries up to the horizon,
+// rolls open entries forward after a visit is completed and cancels those a
+// plan no longer covers. Every pass works from what is already in the
+// schedule, so running it again right away changes nothing. Resolves to the
+// number of entries created, moved and cancelled.
+export const syncMaintenancePlans = async (repository: DataRepository = dataRepository, now = new Date()) => {
+  const { maintenanceService, deviceService } = repository;
+  const [plans, devices, schedules] = await Promise.all([
+    maintenanceService.getAllPlans(),
+    deviceService.getAllDevices(),
+    maintenanceService.getAllSchedules(),
+  ]);
+
+  const { create, reschedule, cancel } = planScheduleChanges(plans, devices, schedules, now);
+  for (const scheduleData of create) {
+    await maintenanceService.createSchedule(scheduleData);
+  }
+  for (const { scheduleId, scheduledDate } of reschedule) {
+    await maintenanceService.updateSchedule(scheduleId, { scheduledDate });
+  }
+  for (const scheduleId of cancel) {
+    await maintenanceService.updateSchedule(scheduleId, { status: 'cancelled' });
+  }
+  return { created: create.length, rescheduled: reschedule.length, cancelled: cancel.length };
+};
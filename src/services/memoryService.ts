@@ -0,0 +1,1004 @@
+import type {
+  Attachment,
+  AuditEntry,
+  ComplianceRecord,
+  Department,
+  Device,
+  DeviceCategory,
+  EquipmentType,
+  EscalationEvent,
+  EscalationRule,
+  Incident,
+  MaintenancePlan,
+  MaintenanceSchedule,
+  OnCallOverride,
+  OnCallRotation,
+  OutboxMessage,
+  Profile,
+  Request,
+  RequestActivity,
+  RequestAssignment,
+  RequestType,
+  ServiceContract,
+  SparePart,
+  SlaPolicy,
+  SystemConfig,
+  UserNotification,
+} from '../types/models';
+import {
+  attachmentSchema,
+  auditEntrySchema,
+  complianceRecordSchema,
+  departmentSchema,
+  deviceCategorySchema,
+  deviceSchema,
+  equipmentTypeSchema,
+  escalationEventSchema,
+  escalationRuleSchema,
+  incidentSchema,
+  maintenancePlanSchema,
+  maintenanceScheduleSchema,
+  onCallOverrideSchema,
+  onCallRotationSchema,
+  outboxMessageSchema,
+  profileSchema,
+  requestActivitySchema,
+  requestAssignmentSchema,
+  requestSchema,
+  requestTypeSchema,
+  serviceContractSchema,
+  slaPolicySchema,
+  sparePartSchema,
+  systemConfigSchema,
+  userNotificationSchema,
+} from '../types/schemas';
+import { parseModel, validateWrite, ModelSchema } from '../types/validation';
+import type {
+  AuthAdapter,
+  AuthUser,
+  ChangeListener,
+  DataRepository,
+  ErrorListener,
+  FileStorage,
+  ProfileRepository,
+  Unsubscribe,
+} from './repository';
+import {
+  buildSampleRequests,
+  missingSampleData,
+  sampleCategories,
+  sampleDepartments,
+  sampleDevices,
+  sampleEquipmentTypes,
+  sampleEscalationRules,
+  sampleRequestTypes,
+  sampleSlaPolicies,
+  sampleSpareParts,
+} from './sampleData';
+import { computeSlaTargets, findSlaPolicy } from '../utils/sla';
+import { escalationKey } from '../utils/escalation';
+import { AUDIT_HISTORY_LIMIT, AUDIT_LOG_LIMIT } from '../utils/audit';
+import { NOTIFICATION_LIMIT, notificationKey } from '../utils/notifications';
+import { OUTBOX_LIMIT, isDue, newOutboxMessage } from '../utils/outbox';
+import { applyConsumption } from '../utils/spareParts';
+import { maintenanceDatesAfterVisit } from '../utils/equipmentTypes';
+
+type Collection =
+  | 'profiles'
+  | 'departments'
+  | 'requestTypes'
+  | 'deviceCategories'
+  | 'devices'
+  | 'requests'
+  | 'requestAssignments'
+  | 'requestActivity'
+  | 'incidents'
+  | 'maintenanceSchedules'
+  | 'maintenancePlans'
+  | 'complianceRecords'
+  | 'equipmentTypes'
+  | 'spareParts'
+  | 'serviceContracts'
+  | 'slaPolicies'
+  | 'escalationRules'
+  | 'escalationEvents'
+  | 'onCallRotations'
+  | 'onCallOverrides'
+  | 'attachments'
+  | 'notifications'
+  | 'outbox'
+  | 'auditLog'
+  | 'systemConfig';
+
+const schemas: Record<Collection, ModelSchema<unknown>> = {
+  profiles: profileSchema,
+  departments: departmentSchema,
+  requestTypes: requestTypeSchema,
+  deviceCategories: deviceCategorySchema,
+  devices: deviceSchema,
+  requests: requestSchema,
+  requestAssignments: requestAssignmentSchema,
+  requestActivity: requestActivitySchema,
+  incidents: incidentSchema,
+  maintenanceSchedules: maintenanceScheduleSchema,
+  maintenancePlans: maintenancePlanSchema,
+  complianceRecords: complianceRecordSchema,
+  equipmentTypes: equipmentTypeSchema,
+  spareParts: sparePartSchema,
+  serviceContracts: serviceContractSchema,
+  slaPolicies: slaPolicySchema,
+  escalationRules: escalationRuleSchema,
+  escalationEvents: escalationEventSchema,
+  onCallRotations: onCallRotationSchema,
+  onCallOverrides: onCallOverrideSchema,
+  attachments: attachmentSchema,
+  notifications: userNotificationSchema,
+  outbox: outboxMessageSchema,
+  auditLog: auditEntrySchema,
+  systemConfig: systemConfigSchema,
+};
+
+type StoredRecord = Record<string, unknown> & { id: string };
+type Store = Record<Collection, Record<string, StoredRecord>>;
+
+export interface MemoryRepositoryOptions {
+  // Persist the store to localStorage under this key; omit to keep data for the page lifetime only
+  storageKey?: string;
+  // Seed an empty store with the sample hospital (defaults to true)
+  seed?: boolean;
+}
+
+// Accounts created when the store is seeded, so offline demos have someone to sign in as
+export const demoAccounts = {
+  admin: { id: 'demo-admin', email: 'admin@hospital.com', fullName: 'Demo Administrator', role: 'admin', department: 'IT Department' },
+  technician: { id: 'demo-technician', email: 'biomed@hospital.com', fullName: 'Demo Technician', role: 'technician', department: 'IT Department' },
+  departmentHead: { id: 'demo-department-head', email: 'ed-head@hospital.com', fullName: 'Demo Department Head', role: 'department_head', department: 'Emergency Department' },
+  auditor: { id: 'demo-auditor', email: 'auditor@hospital.com', fullName: 'Demo Auditor', role: 'auditor', department: null },
+  user: { id: 'demo-user', email: 'nurse@hospital.com', fullName: 'Demo Nurse', role: 'user', department: 'Emergency Department' },
+} as const;
+
+const emptyStore = (): Store => ({
+  profiles: {},
+  departments: {},
+  requestTypes: {},
+  deviceCategories: {},
+  devices: {},
+  requests: {},
+  requestAssignments: {},
+  requestActivity: {},
+  incidents: {},
+  maintenanceSchedules: {},
+  maintenancePlans: {},
+  complianceRecords: {},
+  equipmentTypes: {},
+  spareParts: {},
+  serviceContracts: {},
+  slaPolicies: {},
+  escalationRules: {},
+  escalationEvents: {},
+  onCallRotations: {},
+  onCallOverrides: {},
+  attachments: {},
+  notifications: {},
+  outbox: {},
+  auditLog: {},
+  systemConfig: {},
+});
+
+const byField = <T>(field: keyof T, direction: 'asc' | 'desc' = 'asc') => (a: T, b: T) => {
+  const left = String(a[field] ?? '');
+  const right = String(b[field] ?? '');
+  return direction === 'asc' ? left.localeCompare(right) : right.localeCompare(left);
+};
+
+export const createMemoryRepository = (options: MemoryRepositoryOptions = {}): DataRepository => {
+  const { storageKey, seed = true } = options;
+  const storage = storageKey && typeof localStorage !== 'undefined' ? localStorage : null;
+
+  const load = (): Store => {
+    const saved = storage?.getItem(storageKey as string);
+    return saved ? { ...emptyStore(), ...JSON.parse(saved) } : emptyStore();
+  };
+
+  const store = load();
+  const watchers = new Map<Collection, Set<() => void>>();
+
+  const notify = (collection: Collection) => {
+    watchers.get(collection)?.forEach((reload) => reload());
+  };
+
+  const save = () => {
+    storage?.setItem(storageKey as string, JSON.stringify(store));
+  };
+
+  // Re-runs `load` after every write to the collection, like a snapshot listener
+  const watch = <T>(
+    collection: Collection,
+    load: () => Promise<T[]>,
+    onChange: ChangeListener<T>,
+    onError?: ErrorListener
+  ): Unsubscribe => {
+    const reload = () => {
+      load().then(onChange).catch((error) => onError?.(error));
+    };
+    if (!watchers.has(collection)) watchers.set(collection, new Set());
+    watchers.get(collection)?.add(reload);
+    reload();
+    return () => {
+      watchers.get(collection)?.delete(reload);
+    };
+  };
+
+  // Writes from another tab of the same demo arrive as storage events
+  if (storage && typeof window !== 'undefined') {
+    window.addEventListener('storage', (event) => {
+      if (event.key !== storageKey) return;
+      Object.assign(store, load());
+      watchers.forEach((_, collection) => notify(collection));
+    });
+  }
+
+  const insert = (collection: Collection, data: object, id: string = crypto.randomUUID()) => {
+    const now = new Date().toISOString();
+    store[collection][id] = { ...validateWrite(schemas[collection], data), id, createdAt: now, updatedAt: now };
+    save();
+    notify(collection);
+    return id;
+  };
+
+  // Records go through the same schema check as the real backends on the way out
+  const read = <T>(collection: Collection, record: StoredRecord) =>
+    parseModel(schemas[collection], record.id, record) as T;
+
+  const list = <T>(collection: Collection): T[] =>
+    Object.values(store[collection]).map((record) => read<T>(collection, record));
+
+  const update = (collection: Collection, id: string, updates: object) => {
+    const existing = store[collection][id];
+    if (!existing) {
+      throw new Error(`No ${collection} record with id ${id}`);
+    }
+    store[collection][id] = { ...existing, ...validateWrite(schemas[collection], updates), id, updatedAt: new Date().toISOString() };
+    save();
+    notify(collection);
+  };
+
+  const remove = (collection: Collection, id: string) => {
+    delete store[collection][id];
+    save();
+    notify(collection);
+  };
+
+  // The system config is a single record under a fixed id
+  const configId = 'config';
+
+  if (seed && Object.keys(store.devices).length === 0) {
+    const departmentIds = new Map(
+      sampleDepartments.map((department) => [department.name, insert('departments', department)])
+    );
+    Object.values(demoAccounts).forEach(({ id, ...account }) =>
+      insert('profiles', { ...account, departmentId: departmentIds.get(account.department ?? '') ?? null }, id)
+    );
+    sampleCategories.forEach((category) => insert('deviceCategories', category));
+    sampleRequestTypes.forEach((requestType) => insert('requestTypes', requestType));
+    const equipmentTypeIds = new Map(
+      sampleEquipmentTypes.map((equipmentType) => [equipmentType.name, insert('equipmentTypes', equipmentType)])
+    );
+    sampleSpareParts.forEach(({ compatibleEquipmentTypes, ...part }) =>
+      insert('spareParts', {
+        ...part,
+        compatibleEquipmentTypeIds: compatibleEquipmentTypes.flatMap((name) => equipmentTypeIds.get(name) ?? []),
+      })
+    );
+    sampleDevices.forEach((device) => insert('devices', device));
+    sampleSlaPolicies.forEach((policy) => insert('slaPolicies', policy));
+    sampleEscalationRules.forEach((rule) => insert('escalationRules', rule));
+    // The demo nurse's requests belong to their department so its head can approve them
+    const nurseDepartmentId = departmentIds.get(demoAccounts.user.department) ?? null;
+    const slaPolicies = list<SlaPolicy>('slaPolicies');
+    buildSampleRequests(demoAccounts.user.id).forEach((request) =>
+      insert('requests', {
+        ...request,
+        ...computeSlaTargets(findSlaPolicy(slaPolicies, request)),
+        departmentId: nurseDepartmentId,
+      })
+    );
+  }
+
+  // A seeded demo skips the setup wizard, with the demo admin as the first admin
+  if (seed && !store.systemConfig[configId]) {
+    const now = new Date().toISOString();
+    insert('systemConfig', {
+      organizationName: 'Demo General Hospital',
+      setupCompletedBy: demoAccounts.admin.id,
+      setupCompletedAt: now,
+      sampleDataSeededAt: now,
+    }, configId);
+  }
+
+  const repository: DataRepository = {
+    profileService: {
+      async createProfile(userId, profileData) {
+        insert('profiles', profileData, userId);
+      },
+
+      async getProfile(userId) {
+        const profile = store.profiles[userId];
+        return profile ? read<Profile>('profiles', profile) : null;
+      },
+
+      async updateProfile(userId, updates) {
+        update('profiles', userId, updates);
+      },
+
+      async updateNotificationPreferences(userId, preferences) {
+        update('profiles', userId, preferences);
+      },
+
+      async getAllProfiles() {
+        return list<Profile>('profiles');
+      },
+
+      async createUser(userData) {
+        const { email, fullName, role, department } = userData;
+        return insert('profiles', { email, fullName, role, department });
+      },
+
+      async deleteUser(userId) {
+        remove('profiles', userId);
+      },
+    },
+
+    departmentService: {
+      async createDepartment(departmentData) {
+        return insert('departments', departmentData);
+      },
+
+      async getAllDepartments() {
+        return list<Department>('departments').sort(byField('name'));
+      },
+
+      async updateDepartment(departmentId, updates) {
+        update('departments', departmentId, updates);
+      },
+
+      async deleteDepartment(departmentId) {
+        remove('departments', departmentId);
+      },
+    },
+
+    requestTypeService: {
+      async createRequestType(requestTypeData) {
+        return insert('requestTypes', requestTypeData);
+      },
+
+      async getAllRequestTypes() {
+        return list<RequestType>('requestTypes').sort(byField('name'));
+      },
+    },
+
+    deviceCategoryService: {
+      async createCategory(categoryData) {
+        return insert('deviceCategories', categoryData);
+      },
+
+      async getAllCategories() {
+        return list<DeviceCategory>('deviceCategories').sort(byField('name'));
+      },
+    },
+
+    deviceService: {
+      async createDevice(deviceData) {
+        return insert('devices', deviceData);
+      },
+
+      async createDevices(devicesData) {
+        return devicesData.map((deviceData) => insert('devices', deviceData));
+      },
+
+      async getAllDevices() {
+        return list<Device>('devices').sort(byField('createdAt', 'desc'));
+      },
+
+      async updateDevice(deviceId, updates) {
+        update('devices', deviceId, updates);
+      },
+
+      async recordMaintenance(deviceId, completedDate) {
+        const device = list<Device>('devices').find((candidate) => candidate.id === deviceId);
+        if (!device) throw new Error(`No devices record with id ${deviceId}`);
+        const equipmentType = list<EquipmentType>('equipmentTypes').find((type) => type.id === device.equipmentTypeId);
+        const dates = maintenanceDatesAfterVisit(device, equipmentType, completedDate);
+        if (dates) update('devices', deviceId, dates);
+      },
+
+      async deleteDevice(deviceId) {
+        remove('devices', deviceId);
+      },
+
+      async getDevicesByCategory(categoryId) {
+        return list<Device>('devices').filter((device) => device.categoryId === categoryId);
+      },
+
+      subscribeToDevices(onChange, onError) {
+        return watch('devices', repository.deviceService.getAllDevices, onChange, onError);
+      },
+    },
+
+    requestService: {
+      async createRequest(requestData) {
+        return insert('requests', { ...requestData, status: 'pending' });
+      },
+
+      async getRequest(requestId) {
+        const request = store.requests[requestId];
+        return request ? read<Request>('requests', request) : null;
+      },
+
+      async getAllRequests() {
+        return list<Request>('requests').sort(byField('createdAt', 'desc'));
+      },
+
+      async getUserRequests(userId) {
+        return list<Request>('requests')
+          .filter((request) => request.userId === userId)
+          .sort(byField('createdAt', 'desc'));
+      },
+
+      async updateRequest(requestId, updates) {
+        update('requests', requestId, updates);
+      },
+
+      async assignRequest(requestId, assignment) {
+        const request = store.requests[requestId];
+        if (!request) {
+          throw new Error('Request not found');
+        }
+        insert('requestAssignments', {
+          ...assignment,
+          requestId,
+          fromAssigneeId: request.assignedAdminId ?? null,
+          assignedAt: new Date().toISOString(),
+        });
+        update('requests', requestId, { assignedAdminId: assignment.toAssigneeId });
+      },
+
+      async getAssignmentHistory(requestId) {
+        return list<RequestAssignment>('requestAssignments')
+          .filter((assignment) => !requestId || assignment.requestId === requestId)
+          .sort(byField('assignedAt', 'desc'));
+      },
+
+      async addActivity(requestId, activity) {
+        return insert('requestActivity', { ...activity, requestId });
+      },
+
+      async getActivity(requestId) {
+        return list<RequestActivity>('requestActivity')
+          .filter((activity) => activity.requestId === requestId)
+          .sort(byField('createdAt'));
+      },
+
+      subscribeToActivity(requestId, onChange, onError) {
+        return watch('requestActivity', () => repository.requestService.getActivity(requestId), onChange, onError);
+      },
+
+      subscribeToRequests(onChange, onError) {
+        return watch('requests', repository.requestService.getAllRequests, onChange, onError);
+      },
+
+      subscribeToUserRequests(userId, onChange, onError) {
+        return watch('requests', () => repository.requestService.getUserRequests(userId), onChange, onError);
+      },
+    },
+
+    incidentService: {
+      async createIncident(incidentData) {
+        return insert('incidents', { ...incidentData, status: 'open' });
+      },
+
+      async getAllIncidents() {
+        return list<Incident>('incidents').sort(byField('createdAt', 'desc'));
+      },
+
+      async updateIncident(incidentId, updates) {
+        update('incidents', incidentId, updates);
+      },
+
+      subscribeToIncidents(onChange, onError) {
+        return watch('incidents', repository.incidentService.getAllIncidents, onChange, onError);
+      },
+    },
+
+    maintenanceService: {
+      async createSchedule(scheduleData) {
+        return insert('maintenanceSchedules', { status: 'scheduled', ...scheduleData });
+      },
+
+      async getAllSchedules() {
+        return list<MaintenanceSchedule>('maintenanceSchedules').sort(byField('scheduledDate', 'desc'));
+      },
+
+      async updateSchedule(scheduleId, updates) {
+        update('maintenanceSchedules', scheduleId, updates);
+      },
+
+      subscribeToSchedules(onChange, onError) {
+        return watch('maintenanceSchedules', repository.maintenanceService.getAllSchedules, onChange, onError);
+      },
+
+      async createPlan(planData) {
+        return insert('maintenancePlans', planData);
+      },
+
+      async getAllPlans() {
+        return list<MaintenancePlan>('maintenancePlans').sort(byField('name'));
+      },
+
+      async updatePlan(planId, updates) {
+        update('maintenancePlans', planId, updates);
+      },
+
+      async deletePlan(planId) {
+        remove('maintenancePlans', planId);
+      },
+    },
+
+    complianceService: {
+      async createRecord(recordData) {
+        return insert('complianceRecords', recordData);
+      },
+
+      async getAllRecords() {
+        return list<ComplianceRecord>('complianceRecords').sort(byField('expiryDate'));
+      },
+
+      async updateRecord(recordId, updates) {
+        update('complianceRecords', recordId, updates);
+      },
+
+      async renewRecord(recordId, renewal) {
+        const current = list<ComplianceRecord>('complianceRecords').find((record) => record.id === recordId);
+        if (!current) throw new Error(`No complianceRecords record with id ${recordId}`);
+        if (current.supersededBy) throw new Error('This certificate has already been renewed');
+        const renewalId = insert('complianceRecords', { ...renewal, renewedFrom: recordId });
+        update('complianceRecords', recordId, { supersededBy: renewalId, status: 'superseded' });
+        return renewalId;
+      },
+    },
+
+    equipmentTypeService: {
+      async createEquipmentType(equipmentTypeData) {
+        return insert('equipmentTypes', equipmentTypeData);
+      },
+
+      async getAllEquipmentTypes() {
+        return list<EquipmentType>('equipmentTypes').sort(byField('name'));
+      },
+
+      async updateEquipmentType(equipmentTypeId, updates) {
+        update('equipmentTypes', equipmentTypeId, updates);
+      },
+
+      async deleteEquipmentType(equipmentTypeId) {
+        remove('equipmentTypes', equipmentTypeId);
+      },
+    },
+
+    sparePartService: {
+      async createPart(partData) {
+        return insert('spareParts', partData);
+      },
+
+      async getAllParts() {
+        return list<SparePart>('spareParts').sort(byField('name'));
+      },
+
+      async updatePart(partId, updates) {
+        update('spareParts', partId, updates);
+      },
+
+      async deletePart(partId) {
+        remove('spareParts', partId);
+      },
+
+      async consumeParts(scheduleId, usages) {
+        const schedule = list<MaintenanceSchedule>('maintenanceSchedules').find((candidate) => candidate.id === scheduleId);
+        if (!schedule) throw new Error(`No maintenanceSchedules record with id ${scheduleId}`);
+        if (schedule.partsConsumedAt) return false;
+
+        // Work everything out before writing, so a shortage leaves all stock as it was
+        const stockLevels = [...new Set(usages.map((usage) => usage.partId))].map((partId) => {
+          const part = list<SparePart>('spareParts').find((candidate) => candidate.id === partId);
+          if (!part) throw new Error(`No spareParts record with id ${partId}`);
+          return { partId, levels: applyConsumption(part, usages.filter((usage) => usage.partId === partId)) };
+        });
+        stockLevels.forEach(({ partId, levels }) => update('spareParts', partId, { stockLevels: levels }));
+        update('maintenanceSchedules', scheduleId, { partsConsumedAt: new Date().toISOString() });
+        return true;
+      },
+    },
+
+    serviceContractService: {
+      async createContract(contractData) {
+        return insert('serviceContracts', contractData);
+      },
+
+      async getAllContracts() {
+        return list<ServiceContract>('serviceContracts').sort(byField('endDate'));
+      },
+
+      async updateContract(contractId, updates) {
+        update('serviceContracts', contractId, updates);
+      },
+
+      async deleteContract(contractId) {
+        remove('serviceContracts', contractId);
+      },
+    },
+
+    slaPolicyService: {
+      async createPolicy(policyData) {
+        return insert('slaPolicies', policyData);
+      },
+
+      async getAllPolicies() {
+        return list<SlaPolicy>('slaPolicies').sort((a, b) => a.resolutionMinutes - b.resolutionMinutes);
+      },
+
+      async updatePolicy(policyId, updates) {
+        update('slaPolicies', policyId, updates);
+      },
+
+      async deletePolicy(policyId) {
+        remove('slaPolicies', policyId);
+      },
+    },
+
+    escalationService: {
+      async createRule(ruleData) {
+        return insert('escalationRules', ruleData);
+      },
+
+      async getAllRules() {
+        return list<EscalationRule>('escalationRules').sort((a, b) => a.thresholdMinutes - b.thresholdMinutes);
+      },
+
+      async updateRule(ruleId, updates) {
+        update('escalationRules', ruleId, updates);
+      },
+
+      async deleteRule(ruleId) {
+        remove('escalationRules', ruleId);
+      },
+
+      async getAllEvents() {
+        return list<EscalationEvent>('escalationEvents').sort(byField('escalatedAt', 'desc'));
+      },
+
+      async recordEvent(eventData) {
+        const id = escalationKey(eventData.ruleId, eventData.targetId);
+        if (store.escalationEvents[id]) return false;
+        insert('escalationEvents', eventData, id);
+        return true;
+      },
+    },
+
+    onCallService: {
+      async createRotation(rotationData) {
+        return insert('onCallRotations', rotationData);
+      },
+
+      async getAllRotations() {
+        return list<OnCallRotation>('onCallRotations').sort(byField('name'));
+      },
+
+      async updateRotation(rotationId, updates) {
+        update('onCallRotations', rotationId, updates);
+      },
+
+      async deleteRotation(rotationId) {
+        list<OnCallOverride>('onCallOverrides')
+          .filter((override) => override.rotationId === rotationId)
+          .forEach((override) => remove('onCallOverrides', override.id));
+        remove('onCallRotations', rotationId);
+      },
+
+      async createOverride(overrideData) {
+        return insert('onCallOverrides', overrideData);
+      },
+
+      async getOverrides(since) {
+        return list<OnCallOverride>('onCallOverrides')
+          .filter((override) => new Date(override.endsAt) > new Date(since))
+          .sort(byField('endsAt'));
+      },
+
+      async deleteOverride(overrideId) {
+        remove('onCallOverrides', overrideId);
+      },
+    },
+
+    attachmentService: {
+      async createAttachment(attachmentData) {
+        return insert('attachments', attachmentData);
+      },
+
+      async getAttachment(attachmentId) {
+        const attachment = store.attachments[attachmentId];
+        return attachment ? read<Attachment>('attachments', attachment) : null;
+      },
+
+      async getAttachments(ownerType, ownerId) {
+        return list<Attachment>('attachments')
+          .filter((attachment) => attachment.ownerType === ownerType && attachment.ownerId === ownerId)
+          .sort(byField('createdAt'));
+      },
+
+      async getDeviceAttachments(deviceId) {
+        return list<Attachment>('attachments')
+          .filter((attachment) => attachment.deviceId === deviceId)
+          .sort(byField('createdAt', 'desc'));
+      },
+
+      async deleteAttachment(attachmentId) {
+        remove('attachments', attachmentId);
+      },
+    },
+
+    notificationService: {
+      async createNotification(notificationData) {
+        const id = notificationData.dedupeKey
+          ? notificationKey(notificationData.recipientId, notificationData.dedupeKey)
+          : undefined;
+        if (id && store.notifications[id]) return false;
+        insert('notifications', { ...notificationData, readAt: null }, id);
+        return true;
+      },
+
+      async notifyRoles(roles, notificationData) {
+        let created = 0;
+        for (const profile of list<Profile>('profiles').filter((p) => roles.includes(p.role))) {
+          if (await repository.notificationService.createNotification({ ...notificationData, recipientId: profile.id })) {
+            created += 1;
+          }
+        }
+        return created;
+      },
+
+      async getNotifications(recipientId) {
+        return list<UserNotification>('notifications')
+          .filter((notification) => notification.recipientId === recipientId)
+          .sort(byField('createdAt', 'desc'))
+          .slice(0, NOTIFICATION_LIMIT);
+      },
+
+      async markRead(recipientId, notificationIds) {
+        const readAt = new Date().toISOString();
+        notificationIds
+          .filter((id) => store.notifications[id]?.recipientId === recipientId)
+          .forEach((id) => update('notifications', id, { readAt }));
+      },
+
+      async markAllRead(recipientId) {
+        const unread = list<UserNotification>('notifications')
+          .filter((notification) => notification.recipientId === recipientId && !notification.readAt);
+        await repository.notificationService.markRead(recipientId, unread.map((notification) => notification.id));
+      },
+
+      subscribeToNotifications(recipientId, onChange, onError) {
+        return watch('notifications', () => repository.notificationService.getNotifications(recipientId), onChange, onError);
+      },
+    },
+
+    outboxService: {
+      async enqueueMessage(messageData) {
+        return insert('outbox', newOutboxMessage(messageData));
+      },
+
+      async getMessages() {
+        return list<OutboxMessage>('outbox').sort(byField('createdAt', 'desc')).slice(0, OUTBOX_LIMIT);
+      },
+
+      async getDueMessages(now) {
+        return list<OutboxMessage>('outbox')
+          .filter((message) =>
+            (message.status === 'pending' || message.status === 'sending') && isDue(message.nextAttemptAt, new Date(now))
+          )
+          .sort(byField('nextAttemptAt'));
+      },
+
+      async claimMessage(messageId, now, leaseUntil) {
+        const stored = store.outbox[messageId];
+        if (!stored) return false;
+        const message = read<OutboxMessage>('outbox', stored);
+        if (message.status === 'sent' || message.status === 'failed' || !isDue(message.nextAttemptAt, new Date(now))) {
+          return false;
+        }
+        update('outbox', messageId, { status: 'sending', nextAttemptAt: leaseUntil });
+        return true;
+      },
+
+      async updateMessage(messageId, updates) {
+        update('outbox', messageId, updates);
+      },
+    },
+
+    auditLogService: {
+      async recordEntry(entryData) {
+        insert('auditLog', entryData);
+      },
+
+      async getEntries(filter = {}) {
+        const { entityType, entityId, actorId, from, to } = filter;
+        return list<AuditEntry>('auditLog')
+          .filter((entry) =>
+            (!entityType || entry.entityType === entityType) &&
+            (!entityId || entry.entityId === entityId) &&
+            (!actorId || entry.actorId === actorId) &&
+            (!from || entry.timestamp >= from) &&
+            (!to || entry.timestamp <= to)
+          )
+          .sort(byField('timestamp', 'desc'))
+          .slice(0, AUDIT_LOG_LIMIT);
+      },
+
+      async getHistory(entityType, entityId) {
+        const entries = list<AuditEntry>('auditLog')
+          .filter((entry) => entry.entityType === entityType && entry.entityId === entityId)
+          .sort(byField('timestamp', 'desc'));
+        return { entries: entries.slice(0, AUDIT_HISTORY_LIMIT), truncated: entries.length > AUDIT_HISTORY_LIMIT };
+      },
+    },
+
+    systemConfigService: {
+      async getConfig() {
+        const config = store.systemConfig[configId];
+        return config ? read<SystemConfig>('systemConfig', config) : null;
+      },
+
+      async completeSetup({ organizationName, adminUserId }) {
+        if (store.systemConfig[configId]) {
+          throw new Error('Setup has already been completed');
+        }
+        insert('systemConfig', {
+          organizationName,
+          setupCompletedBy: adminUserId,
+          setupCompletedAt: new Date().toISOString(),
+        }, configId);
+        update('profiles', adminUserId, { role: 'admin' });
+      },
+
+      async seedSampleData() {
+        const missing = missingSampleData({
+          departments: list<Department>('departments').map((department) => department.name),
+          categories: list<DeviceCategory>('deviceCategories').map((category) => category.name),
+          requestTypes: list<RequestType>('requestTypes').map((requestType) => requestType.name),
+          equipmentTypes: list<EquipmentType>('equipmentTypes').map((equipmentType) => equipmentType.name),
+          partNumbers: list<SparePart>('spareParts').map((part) => part.partNumber),
+          serialNumbers: list<Device>('devices').map((device) => device.serialNumber ?? ''),
+          slaPolicies: list<SlaPolicy>('slaPolicies').map((policy) => policy.name),
+          escalationRules: list<EscalationRule>('escalationRules').map((rule) => rule.name),
+        });
+        missing.departments.forEach((department) => insert('departments', department));
+        missing.categories.forEach((category) => insert('deviceCategories', category));
+        missing.requestTypes.forEach((requestType) => insert('requestTypes', requestType));
+        missing.equipmentTypes.forEach((equipmentType) => insert('equipmentTypes', equipmentType));
+        // Parts list the equipment they fit by id, including types inserted just above
+        const equipmentTypeIds = new Map(
+          list<EquipmentType>('equipmentTypes').map((equipmentType) => [equipmentType.name, equipmentType.id])
+        );
+        missing.spareParts.forEach(({ compatibleEquipmentTypes, ...part }) =>
+          insert('spareParts', {
+            ...part,
+            compatibleEquipmentTypeIds: compatibleEquipmentTypes.flatMap((name) => equipmentTypeIds.get(name) ?? []),
+          })
+        );
+        missing.devices.forEach((device) => insert('devices', device));
+        missing.slaPolicies.forEach((policy) => insert('slaPolicies', policy));
+        missing.escalationRules.forEach((rule) => insert('escalationRules', rule));
+        update('systemConfig', configId, { sampleDataSeededAt: new Date().toISOString() });
+      },
+    },
+  };
+
+  return repository;
+};
+
+const readAsDataUrl = (file: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error('Could not read the file'));
+    reader.readAsDataURL(file);
+  });
+
+// Stand-in for a storage bucket when running without a cloud project: files
+// are kept as data URLs, in localStorage under `storageKey` when given. The
+// browser's storage quota is small, so large files may only last the session.
+export const createLocalFileStorage = (options: { storageKey?: string } = {}): FileStorage => {
+  const { storageKey } = options;
+  const storage = storageKey && typeof localStorage !== 'undefined' ? localStorage : null;
+  const saved = storage?.getItem(storageKey as string);
+  const files = new Map<string, string>(saved ? Object.entries(JSON.parse(saved)) : []);
+
+  const save = () => {
+    try {
+      storage?.setItem(storageKey as string, JSON.stringify(Object.fromEntries(files)));
+    } catch (error) {
+      console.warn('Local file storage is full; files will be lost on reload:', error);
+    }
+  };
+
+  return {
+    async upload(path, file) {
+      files.set(path, await readAsDataUrl(file));
+      save();
+    },
+
+    async getUrl(path) {
+      const url = files.get(path);
+      if (!url) {
+        throw new Error(`No stored file at ${path}`);
+      }
+      return url;
+    },
+
+    async remove(path) {
+      files.delete(path);
+      save();
+    },
+  };
+};
+
+// Sign-in for the offline demo: there is no auth provider, so signing in picks
+// a stored profile by email (passwords are not checked) and the session is
+// remembered in localStorage under `sessionKey`. The account uid is the profile id.
+export const createMemoryAuth = (options: { profiles: ProfileRepository; sessionKey?: string }): AuthAdapter => {
+  const { profiles, sessionKey } = options;
+  const storage = sessionKey && typeof localStorage !== 'undefined' ? localStorage : null;
+  const listeners = new Set<(user: AuthUser | null) => void>();
+
+  const toAuthUser = (profile: Profile): AuthUser => ({ uid: profile.id, email: profile.email, displayName: profile.fullName });
+
+  const notify = (user: AuthUser | null) => listeners.forEach((listener) => listener(user));
+
+  const startSession = (user: AuthUser) => {
+    storage?.setItem(sessionKey as string, user.uid);
+    notify(user);
+    return user;
+  };
+
+  return {
+    onAuthStateChanged(listener) {
+      listeners.add(listener);
+      const sessionId = storage?.getItem(sessionKey as string);
+      const restore = sessionId ? profiles.getProfile(sessionId) : Promise.resolve(null);
+      restore
+        .catch(() => null)
+        .then((profile) => listeners.has(listener) && listener(profile && toAuthUser(profile)));
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    async signIn(email) {
+      const profile = (await profiles.getAllProfiles()).find((p) => p.email.toLowerCase() === email.toLowerCase());
+      if (!profile) throw new Error('No demo account exists for this email');
+      return startSession(toAuthUser(profile));
+    },
+
+    async signUp(email, _password, fullName) {
+      return startSession({ uid: crypto.randomUUID(), email, displayName: fullName });
+    },
+
+    async signInWithGoogle() {
+      throw new Error('Google sign-in is not available in offline demo mode');
+    },
+
+    async signOut() {
+      storage?.removeItem(sessionKey as string);
+      notify(null);
+    },
+  };
+};
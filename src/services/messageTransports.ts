@@ -0,0 +1,89 @@
+import type { DeliveryChannel } from '../types/models';
+import type { MessageTransport } from './repository';
+
+export interface SentMessage {
+  channel: DeliveryChannel;
+  to: string;
+  subject: string;
+  body: string;
+  sentAt: string;
+}
+
+// The local transport also lets the outbox viewer read back what was "sent"
+export interface LocalMailbox extends MessageTransport {
+  getSentMessages(): SentMessage[];
+  // The mailbox as a plain-text file, one message after another
+  exportText(): string;
+  clear(): void;
+}
+
+// Only the newest messages are kept so localStorage does not fill up
+const LOCAL_MAILBOX_LIMIT = 200;
+
+// Stand-in for an SMTP server and SMS gateway when testing: messages are
+// written to a mailbox in localStorage under `storageKey` (or kept for the
+// page lifetime) and can be downloaded as a text file from the outbox viewer.
+export const createLocalMessageTransport = (options: { storageKey?: string } = {}): LocalMailbox => {
+  const { storageKey } = options;
+  const storage = storageKey && typeof localStorage !== 'undefined' ? localStorage : null;
+  const saved = storage?.getItem(storageKey as string);
+  let messages: SentMessage[] = saved ? JSON.parse(saved) : [];
+
+  const save = () => {
+    try {
+      storage?.setItem(storageKey as string, JSON.stringify(messages));
+    } catch (error) {
+      console.warn('Local mailbox is full; sent messages will be lost on reload:', error);
+    }
+  };
+
+  return {
+    async send(message) {
+      messages = [{ ...message, sentAt: new Date().toISOString() }, ...messages].slice(0, LOCAL_MAILBOX_LIMIT);
+      save();
+    },
+
+    getSentMessages() {
+      // Another tab may have sent something since this one loaded
+      const latest = storage?.getItem(storageKey as string);
+      if (latest) messages = JSON.parse(latest);
+      return messages;
+    },
+
+    exportText() {
+      return this.getSentMessages()
+        .map((message) =>
+          [
+            `Date: ${message.sentAt}`,
+            `Channel: ${message.channel}`,
+            `To: ${message.to}`,
+            ...(message.channel === 'email' ? [`Subject: ${message.subject}`] : []),
+            '',
+            message.body,
+          ].join('\n')
+        )
+        .join('\n\n----------------------------------------\n\n');
+    },
+
+    clear() {
+      messages = [];
+      save();
+    },
+  };
+};
+
+// Posts each message as JSON to a relay that owns the SMTP and SMS gateway
+// credentials, which must never ship to the browser. The relay should answer
+// with a 2xx status once it has accepted the message.
+export const createHttpMessageTransport = (url: string): MessageTransport => ({
+  async send(message) {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(message),
+    });
+    if (!response.ok) {
+      throw new Error(`Message relay answered ${response.status} ${response.statusText}`.trim());
+    }
+  },
+});
@@ -0,0 +1,48 @@
+import { getAccessContext } from './accessControl';
+import { dataRepository } from './index';
+import type { DataRepository } from './repository';
+import { hasAnyCapability, rolesWithCapability } from '../utils/permissions';
+import { planComplianceExpiring, planMaintenanceOverdue } from '../utils/notifications';
+
+// How often an open operations dashboard looks for overdue maintenance and expiring certificates
+export const NOTIFICATION_CHECK_INTERVAL_MS = 15 * 60 * 1000;
+
+// Keys this browser has already sent, so every run does not go back to the
+// backend for notifications that exist (the dedupe key stops duplicates anyway)
+const sentKeys = new Set<string>();
+
+// One pass of the periodic notification checks, covering whatever the signed-in
+// user may see. Overdue maintenance goes to its technician, or to everyone who
+// manages maintenance when nobody is assigned; expiring certificates go to the
+// compliance managers. Resolves to the number of notifications created.
+export const runNotificationChecks = async (repository: DataRepository = dataRepository, now = new Date()) => {
+  const { deviceService, maintenanceService, complianceService, notificationService } = repository;
+  const role = getAccessContext()?.role;
+  const checkMaintenance = hasAnyCapability(role, ['maintenance.view']);
+  const checkCompliance = hasAnyCapability(role, ['compliance.view', 'devices.manage']);
+  if (!checkMaintenance && !checkCompliance) return 0;
+
+  const [devices, schedules, records] = await Promise.all([
+    deviceService.getAllDevices(),
+    checkMaintenance ? maintenanceService.getAllSchedules() : Promise.resolve([]),
+    checkCompliance ? complianceService.getAllRecords() : Promise.resolve([]),
+  ]);
+
+  let created = 0;
+  for (const { schedule, notification } of planMaintenanceOverdue(schedules, devices, now)) {
+    if (sentKeys.has(notification.dedupeKey as string)) continue;
+    if (schedule.technicianId) {
+      if (await notificationService.createNotification({ ...notification, recipientId: schedule.technicianId })) created += 1;
+    } else {
+      created += await notificationService.notifyRoles(rolesWithCapability('maintenance.manage'), notification);
+    }
+    sentKeys.add(notification.dedupeKey as string);
+  }
+
+  for (const notification of planComplianceExpiring(records, devices, now)) {
+    if (sentKeys.has(notification.dedupeKey as string)) continue;
+    created += await notificationService.notifyRoles(rolesWithCapability('compliance.manage'), notification);
+    sentKeys.add(notification.dedupeKey as string);
+  }
+  return created;
+};
@@ -0,0 +1,194 @@
+import { rolesWithCapability } from '../utils/permissions';
+import { findOnCall, onCallUrgencyLevels } from '../utils/onCall';
+import { getAccessContext } from './accessControl';
+import type { DataRepository } from './repository';
+import { format } from 'date-fns';
+import type { OutboxMessageInput, UserNotificationInput } from '../types/models';
+
+const statusLabel = (status: string) => status.replace(/_/g, ' ');
+
+// Notifications shared by every backend: status changes reach the requester,
+// incident assignments the assignee and emergencies whoever is on call (or,
+// with nobody on call, everyone who works on requests). Nobody is notified
+// about their own change. The periodic checks
+// (maintenance overdue, certificates expiring) live in notificationJob.ts.
+// New requests, emergencies and critical incidents also queue email/SMS in
+// the outbox, which outboxDispatcher.ts delivers.
+export const withNotifications = (repository: DataRepository): DataRepository => {
+  const {
+    profileService,
+    deviceService,
+    requestService,
+    incidentService,
+    onCallService,
+    notificationService,
+    outboxService,
+  } = repository;
+
+  const actorId = () => getAccessContext()?.userId ?? null;
+
+  // A notification that fails to send must not fail a change that has already been saved
+  const send = async (notificationData: UserNotificationInput) => {
+    if (notificationData.recipientId === actorId()) return;
+    try {
+      await notificationService.createNotification(notificationData);
+    } catch (error) {
+      console.error('Error sending notification:', error);
+    }
+  };
+
+  // Likewise for email/SMS: the outbox retries delivery, but queueing must not throw
+  const enqueue = async (messageData: OutboxMessageInput) => {
+    try {
+      await outboxService.enqueueMessage(messageData);
+    } catch (error) {
+      console.error('Error queueing message:', error);
+    }
+  };
+
+  const profileName = async (profileId: string) => {
+    try {
+      return (await profileService.getProfile(profileId))?.fullName ?? 'A colleague';
+    } catch {
+      return 'A colleague';
+    }
+  };
+
+  const deviceName = async (deviceId: string | null | undefined) => {
+    if (!deviceId) return 'Not recorded';
+    try {
+      return (await deviceService.getAllDevices()).find((device) => device.id === deviceId)?.name ?? 'Not recorded';
+    } catch {
+      return 'Not recorded';
+    }
+  };
+
+  // Who is on call now, for a request type or (without one) on any rotation;
+  // empty when nobody is, so callers fall back to paging by role
+  const onCallNow = async (requestTypeId?: string | null) => {
+    try {
+      const now = new Date();
+      const [rotations, overrides] = await Promise.all([
+        onCallService.getAllRotations(),
+        onCallService.getOverrides(now.toISOString()),
+      ]);
+      return [...new Set(findOnCall(rotations, overrides, now, requestTypeId).map((shift) => shift.profileId))];
+    } catch (error) {
+      console.error('Error looking up the on-call schedule:', error);
+      return [];
+    }
+  };
+
+  return {
+    ...repository,
+
+    requestService: {
+      ...requestService,
+      async createRequest(requestData) {
+        const id = await requestService.createRequest(requestData);
+        const variables = {
+          title: requestData.title,
+          description: requestData.description,
+          requester: await profileName(requestData.userId),
+          urgency: requestData.urgencyLevel ?? 'routine',
+          patientImpact: requestData.patientImpact ? 'yes' : 'no',
+        };
+        await enqueue({ template: 'requestReceived', recipientId: requestData.userId, recipientRoles: [], variables });
+
+        if (requestData.urgencyLevel && onCallUrgencyLevels.includes(requestData.urgencyLevel)) {
+          const notification = {
+            kind: 'emergencyRequest' as const,
+            title: 'Emergency request',
+            body: `${requestData.title}${requestData.patientImpact ? ' (may affect patient care)' : ''}`,
+            targetType: 'request' as const,
+            targetId: id,
+            dedupeKey: `emergencyRequest:${id}`,
+          };
+          // The same person RequestModal routes the request to
+          const [onCallId] = await onCallNow(requestData.requestTypeId ?? null);
+          if (onCallId) {
+            await send({ ...notification, recipientId: onCallId });
+            await enqueue({ template: 'emergencyRequest', recipientId: onCallId, recipientRoles: [], variables });
+          } else {
+            try {
+              await notificationService.notifyRoles(rolesWithCapability('requests.work'), notification);
+            } catch (error) {
+              console.error('Error notifying IT staff:', error);
+            }
+            await enqueue({
+              template: 'emergencyRequest',
+              recipientId: null,
+              recipientRoles: rolesWithCapability('requests.work'),
+              variables,
+            });
+          }
+        }
+        return id;
+      },
+      async updateRequest(requestId, updates) {
+        const before = await requestService.getRequest(requestId);
+        await requestService.updateRequest(requestId, updates);
+
+        if (before && updates.status && updates.status !== before.status) {
+          await send({
+            recipientId: before.userId,
+            kind: 'requestStatus',
+            title: `Request ${statusLabel(updates.status)}`,
+            body: `"${before.title}" is now ${statusLabel(updates.status)}`,
+            targetType: 'request',
+            targetId: requestId,
+            dedupeKey: null,
+          });
+        }
+      },
+    },
+
+    incidentService: {
+      ...incidentService,
+      async createIncident(incidentData) {
+        const id = await incidentService.createIncident(incidentData);
+        if (incidentData.severity === 'critical') {
+          const variables = {
+            incidentType: statusLabel(incidentData.incidentType),
+            description: incidentData.description,
+            device: await deviceName(incidentData.deviceId),
+            occurredAt: format(new Date(incidentData.occurredAt), 'MMM d, yyyy HH:mm'),
+          };
+          // Every rotation's on-call engineer: an incident may need IT or biomed
+          const onCallIds = await onCallNow();
+          if (onCallIds.length > 0) {
+            for (const recipientId of onCallIds) {
+              await enqueue({ template: 'criticalIncident', recipientId, recipientRoles: [], variables });
+            }
+          } else {
+            await enqueue({
+              template: 'criticalIncident',
+              recipientId: null,
+              recipientRoles: rolesWithCapability('incidents.manage'),
+              variables,
+            });
+          }
+        }
+        return id;
+      },
+      async updateIncident(incidentId, updates) {
+        const before = updates.assignedTo
+          ? (await incidentService.getAllIncidents()).find((incident) => incident.id === incidentId) ?? null
+          : null;
+        await incidentService.updateIncident(incidentId, updates);
+
+        if (updates.assignedTo && before && updates.assignedTo !== before.assignedTo) {
+          await send({
+            recipientId: updates.assignedTo,
+            kind: 'incidentAssigned',
+            title: 'Incident assigned to you',
+            body: `${before.severity} ${statusLabel(before.incidentType)}: ${before.description.slice(0, 120)}`,
+            targetType: 'incident',
+            targetId: incidentId,
+            dedupeKey: null,
+          });
+        }
+      },
+    },
+  };
+};
@@ -0,0 +1,115 @@
+import { addMinutes, min } from 'date-fns';
+import { dataRepository, messageTransport } from './index';
+import type { DataRepository, MessageTransport } from './repository';
+import type { OutboxMessage, Profile } from '../types/models';
+import {
+  DISPATCH_LEASE_MINUTES,
+  MAX_DELIVERY_ATTEMPTS,
+  deliveryAddress,
+  deliveryKey,
+  messageTemplateDefinitions,
+  quietHoursEndAt,
+  renderMessage,
+  retryAt,
+} from '../utils/outbox';
+
+// How often the background worker and any open IT dashboard work through the outbox
+export const OUTBOX_DISPATCH_INTERVAL_MS = 60 * 1000;
+
+const recipientsOf = (message: OutboxMessage, profiles: Profile[]) =>
+  message.recipientId
+    ? profiles.filter((profile) => profile.id === message.recipientId)
+    : profiles.filter((profile) => message.recipientRoles.includes(profile.role));
+
+// Sends one claimed message to every recipient and channel it has not reached
+// yet, then records the outcome: sent, pending again (a failure to retry with
+// backoff, or a routine message held back by quiet hours) or failed for good.
+const deliver = async (
+  repository: DataRepository,
+  transport: MessageTransport,
+  message: OutboxMessage,
+  profiles: Profile[],
+  now: Date
+) => {
+  const { urgent } = messageTemplateDefinitions[message.template];
+  const delivered = new Set(message.deliveredTo);
+  const errors: string[] = [];
+  const heldBack: Date[] = [];
+
+  for (const profile of recipientsOf(message, profiles)) {
+    const quietUntil = urgent ? null : quietHoursEndAt(profile, now);
+    for (const channel of profile.notificationChannels) {
+      const key = deliveryKey(profile.id, channel);
+      const to = deliveryAddress(profile, channel);
+      if (delivered.has(key) || !to) continue;
+      if (quietUntil) {
+        heldBack.push(quietUntil);
+        continue;
+      }
+      try {
+        await transport.send({
+          channel,
+          to,
+          ...renderMessage(message.template, channel, { ...message.variables, recipient: profile.fullName }),
+        });
+        delivered.add(key);
+      } catch (error) {
+        errors.push(`${to}: ${(error as Error).message || 'delivery failed'}`);
+      }
+    }
+  }
+
+  const deliveredTo = [...delivered];
+  if (errors.length > 0) {
+    const attempts = message.attempts + 1;
+    const failed = attempts >= MAX_DELIVERY_ATTEMPTS;
+    await repository.outboxService.updateMessage(message.id, {
+      status: failed ? 'failed' : 'pending',
+      attempts,
+      nextAttemptAt: failed ? now.toISOString() : retryAt(attempts, now).toISOString(),
+      lastError: errors.join('; '),
+      deliveredTo,
+    });
+    return false;
+  }
+  if (heldBack.length > 0) {
+    await repository.outboxService.updateMessage(message.id, {
+      status: 'pending',
+      nextAttemptAt: min(heldBack).toISOString(),
+      deliveredTo,
+    });
+    return false;
+  }
+  await repository.outboxService.updateMessage(message.id, {
+    status: 'sent',
+    deliveredTo,
+    sentAt: now.toISOString(),
+  });
+  return true;
+};
+
+// One pass over the due outbox messages. Several dashboards may run it at
+// once: each message is claimed first, and deliveredTo stops a retry from
+// paging someone twice. Resolves to the number of messages fully sent.
+export const dispatchOutbox = async (
+  repository: DataRepository = dataRepository,
+  transport: MessageTransport = messageTransport,
+  now = new Date()
+) => {
+  const due = await repository.outboxService.getDueMessages(now.toISOString());
+  if (due.length === 0) return 0;
+
+  const profiles = await repository.profileService.getAllProfiles();
+  const leaseUntil = addMinutes(now, DISPATCH_LEASE_MINUTES).toISOString();
+  let sent = 0;
+  for (const message of due) {
+    if (!(await repository.outboxService.claimMessage(message.id, now.toISOString(), leaseUntil))) continue;
+    try {
+      if (await deliver(repository, transport, message, profiles, now)) sent += 1;
+    } catch (error) {
+      // The lease runs out and the next pass picks the message up again
+      console.error('Error dispatching message:', error);
+    }
+  }
+  return sent;
+};
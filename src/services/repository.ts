@@ -0,0 +1,325 @@
+import type {
+  Attachment,
+  AttachmentInput,
+  AttachmentOwnerType,
+  AuditEntityType,
+  AuditEntry,
+  AuditEntryInput,
+  AuditHistory,
+  AuditLogFilter,
+  ComplianceRecord,
+  ComplianceRecordInput,
+  DeliveryChannel,
+  Department,
+  DepartmentInput,
+  Device,
+  DeviceCategory,
+  DeviceInput,
+  EquipmentType,
+  EquipmentTypeInput,
+  EscalationEvent,
+  EscalationEventInput,
+  EscalationRule,
+  EscalationRuleInput,
+  Incident,
+  IncidentInput,
+  MaintenancePlan,
+  MaintenancePlanInput,
+  MaintenanceSchedule,
+  MaintenanceScheduleInput,
+  NewUserInput,
+  NotificationPreferencesInput,
+  OnCallOverride,
+  OnCallOverrideInput,
+  OnCallRotation,
+  OnCallRotationInput,
+  OutboxMessage,
+  OutboxMessageInput,
+  PartConsumption,
+  Profile,
+  ProfileInput,
+  Request,
+  RequestActivity,
+  RequestActivityInput,
+  RequestAssignment,
+  RequestAssignmentInput,
+  RequestInput,
+  RequestType,
+  ServiceContract,
+  ServiceContractInput,
+  SetupInput,
+  SlaPolicy,
+  SlaPolicyInput,
+  SparePart,
+  SparePartInput,
+  SystemConfig,
+  UserNotification,
+  UserNotificationInput,
+  UserRole,
+} from '../types/models';
+
+// Contract every data backend implements. Components only talk to these
+// interfaces (via services/index.ts), never to Firestore or Supabase directly.
+
+// Live subscriptions call onChange with the whole list (ordered like the
+// matching get* method) once straight away and again after every change.
+export type Unsubscribe = () => void;
+export type ChangeListener<T> = (items: T[]) => void;
+export type ErrorListener = (error: Error) => void;
+
+export interface ProfileRepository {
+  createProfile(userId: string, profileData: ProfileInput): Promise<void>;
+  getProfile(userId: string): Promise<Profile | null>;
+  updateProfile(userId: string, updates: ProfileInput): Promise<void>;
+  // Users may change their own delivery preferences, and nothing else on
+  // their profile, without users.manage
+  updateNotificationPreferences(userId: string, preferences: NotificationPreferencesInput): Promise<void>;
+  getAllProfiles(): Promise<Profile[]>;
+  createUser(userData: NewUserInput): Promise<string>;
+  deleteUser(userId: string): Promise<void>;
+}
+
+export interface DepartmentRepository {
+  createDepartment(departmentData: DepartmentInput): Promise<string>;
+  getAllDepartments(): Promise<Department[]>;
+  updateDepartment(departmentId: string, updates: Partial<DepartmentInput>): Promise<void>;
+  deleteDepartment(departmentId: string): Promise<void>;
+}
+
+export interface RequestTypeRepository {
+  createRequestType(requestTypeData: Omit<RequestType, 'id'>): Promise<string>;
+  getAllRequestTypes(): Promise<RequestType[]>;
+}
+
+export interface DeviceCategoryRepository {
+  createCategory(categoryData: Omit<DeviceCategory, 'id'>): Promise<string>;
+  getAllCategories(): Promise<DeviceCategory[]>;
+}
+
+export interface DeviceRepository {
+  createDevice(deviceData: DeviceInput): Promise<string>;
+  // Bulk import: all or nothing per call, ids in input order (at most DEVICE_IMPORT_BATCH_SIZE)
+  createDevices(devicesData: DeviceInput[]): Promise<string[]>;
+  getAllDevices(): Promise<Device[]>;
+  updateDevice(deviceId: string, updates: Partial<DeviceInput>): Promise<void>;
+  // Moves the maintenance dates on after a visit completed on `completedDate`
+  // (yyyy-MM-dd); maintenance staff may call it without devices.manage
+  recordMaintenance(deviceId: string, completedDate: string): Promise<void>;
+  deleteDevice(deviceId: string): Promise<void>;
+  getDevicesByCategory(categoryId: string): Promise<Device[]>;
+  subscribeToDevices(onChange: ChangeListener<Device>, onError?: ErrorListener): Unsubscribe;
+}
+
+export interface RequestRepository {
+  createRequest(requestData: RequestInput): Promise<string>;
+  getRequest(requestId: string): Promise<Request | null>;
+  getAllRequests(): Promise<Request[]>;
+  getUserRequests(userId: string): Promise<Request[]>;
+  updateRequest(requestId: string, updates: Partial<Omit<Request, 'id' | 'createdAt'>>): Promise<void>;
+  // Sets the assignee and appends the change to the assignment history
+  assignRequest(requestId: string, assignment: RequestAssignmentInput): Promise<void>;
+  // Newest first; all requests' history when no id is given
+  getAssignmentHistory(requestId?: string): Promise<RequestAssignment[]>;
+  // A request's timeline: comments plus status, assignment and escalation entries, oldest first
+  addActivity(requestId: string, activity: RequestActivityInput): Promise<string>;
+  getActivity(requestId: string): Promise<RequestActivity[]>;
+  subscribeToActivity(requestId: string, onChange: ChangeListener<RequestActivity>, onError?: ErrorListener): Unsubscribe;
+  subscribeToRequests(onChange: ChangeListener<Request>, onError?: ErrorListener): Unsubscribe;
+  subscribeToUserRequests(userId: string, onChange: ChangeListener<Request>, onError?: ErrorListener): Unsubscribe;
+}
+
+export interface IncidentRepository {
+  createIncident(incidentData: IncidentInput): Promise<string>;
+  getAllIncidents(): Promise<Incident[]>;
+  updateIncident(incidentId: string, updates: Partial<Omit<Incident, 'id' | 'createdAt'>>): Promise<void>;
+  subscribeToIncidents(onChange: ChangeListener<Incident>, onError?: ErrorListener): Unsubscribe;
+}
+
+export interface MaintenanceRepository {
+  createSchedule(scheduleData: MaintenanceScheduleInput): Promise<string>;
+  getAllSchedules(): Promise<MaintenanceSchedule[]>;
+  updateSchedule(scheduleId: string, updates: Partial<Omit<MaintenanceSchedule, 'id' | 'createdAt'>>): Promise<void>;
+  subscribeToSchedules(onChange: ChangeListener<MaintenanceSchedule>, onError?: ErrorListener): Unsubscribe;
+  // Recurring plans; services/maintenancePlanJob.ts turns them into schedule entries
+  createPlan(planData: MaintenancePlanInput): Promise<string>;
+  getAllPlans(): Promise<MaintenancePlan[]>;
+  updatePlan(planId: string, updates: Partial<MaintenancePlanInput>): Promise<void>;
+  // Entries already generated stay; the next plan sync cancels the open ones
+  deletePlan(planId: string): Promise<void>;
+}
+
+export interface ComplianceRepository {
+  createRecord(recordData: ComplianceRecordInput): Promise<string>;
+  getAllRecords(): Promise<ComplianceRecord[]>;
+  updateRecord(recordId: string, updates: Partial<ComplianceRecordInput>): Promise<void>;
+  // Files the renewed certificate and marks the old one superseded, keeping it
+  // as history; fails if the old one has already been renewed. Resolves to the
+  // new record's id.
+  renewRecord(recordId: string, renewal: ComplianceRecordInput): Promise<string>;
+}
+
+export interface EquipmentTypeRepository {
+  createEquipmentType(equipmentTypeData: EquipmentTypeInput): Promise<string>;
+  getAllEquipmentTypes(): Promise<EquipmentType[]>;
+  updateEquipmentType(equipmentTypeId: string, updates: Partial<EquipmentTypeInput>): Promise<void>;
+  deleteEquipmentType(equipmentTypeId: string): Promise<void>;
+}
+
+export interface SparePartRepository {
+  createPart(partData: SparePartInput): Promise<string>;
+  getAllParts(): Promise<SparePart[]>;
+  updatePart(partId: string, updates: Partial<SparePartInput>): Promise<void>;
+  deletePart(partId: string): Promise<void>;
+  // Takes a work order's lines out of stock and stamps its partsConsumedAt, or
+  // does nothing when any store room is short. Resolves to false, without
+  // touching stock, when the work order's parts were already taken.
+  consumeParts(scheduleId: string, usages: PartConsumption[]): Promise<boolean>;
+}
+
+export interface ServiceContractRepository {
+  createContract(contractData: ServiceContractInput): Promise<string>;
+  getAllContracts(): Promise<ServiceContract[]>;
+  updateContract(contractId: string, updates: Partial<ServiceContractInput>): Promise<void>;
+  deleteContract(contractId: string): Promise<void>;
+}
+
+export interface SlaPolicyRepository {
+  createPolicy(policyData: SlaPolicyInput): Promise<string>;
+  getAllPolicies(): Promise<SlaPolicy[]>;
+  updatePolicy(policyId: string, updates: Partial<SlaPolicyInput>): Promise<void>;
+  deletePolicy(policyId: string): Promise<void>;
+}
+
+export interface EscalationRepository {
+  createRule(ruleData: EscalationRuleInput): Promise<string>;
+  getAllRules(): Promise<EscalationRule[]>;
+  updateRule(ruleId: string, updates: Partial<EscalationRuleInput>): Promise<void>;
+  deleteRule(ruleId: string): Promise<void>;
+  // Newest first
+  getAllEvents(): Promise<EscalationEvent[]>;
+  // Appends to the history; resolves false if the rule has already escalated this record
+  recordEvent(eventData: EscalationEventInput): Promise<boolean>;
+}
+
+// Who is on call is worked out from these by utils/onCall.ts
+export interface OnCallRepository {
+  createRotation(rotationData: OnCallRotationInput): Promise<string>;
+  getAllRotations(): Promise<OnCallRotation[]>;
+  updateRotation(rotationId: string, updates: Partial<OnCallRotationInput>): Promise<void>;
+  deleteRotation(rotationId: string): Promise<void>;
+  createOverride(overrideData: OnCallOverrideInput): Promise<string>;
+  // Overrides that have not ended by `since`, in the order they end
+  getOverrides(since: string): Promise<OnCallOverride[]>;
+  deleteOverride(overrideId: string): Promise<void>;
+}
+
+// Metadata only; the files themselves go through a FileStorage
+export interface AttachmentRepository {
+  createAttachment(attachmentData: AttachmentInput): Promise<string>;
+  getAttachment(attachmentId: string): Promise<Attachment | null>;
+  // Oldest first
+  getAttachments(ownerType: AttachmentOwnerType, ownerId: string): Promise<Attachment[]>;
+  // Files on the device itself and on requests and incidents about it, newest first
+  getDeviceAttachments(deviceId: string): Promise<Attachment[]>;
+  deleteAttachment(attachmentId: string): Promise<void>;
+}
+
+// Where attachment files are kept: Firebase Storage, Supabase Storage or the
+// browser (services/index.ts picks one). Paths are relative to one bucket.
+export interface FileStorage {
+  upload(path: string, file: Blob): Promise<void>;
+  // A URL the browser can open or use as an <img> src
+  getUrl(path: string): Promise<string>;
+  remove(path: string): Promise<void>;
+}
+
+// The signed-in account as the auth provider sees it. Profiles are keyed on
+// `uid`: the Firebase uid, the Supabase auth user id, or the demo profile id.
+export interface AuthUser {
+  uid: string;
+  email: string | null;
+  displayName: string | null;
+}
+
+// Sign-in for the selected data backend (services/index.ts picks one), so the
+// data calls that follow run under that backend's session
+export interface AuthAdapter {
+  // Calls back with the current account once it is known and on every change
+  onAuthStateChanged(listener: (user: AuthUser | null) => void): Unsubscribe;
+  signIn(email: string, password: string): Promise<AuthUser>;
+  signUp(email: string, password: string, fullName: string): Promise<AuthUser>;
+  // Null when the provider redirects away; the account arrives through onAuthStateChanged
+  signInWithGoogle(): Promise<AuthUser | null>;
+  signOut(): Promise<void>;
+}
+
+export interface NotificationRepository {
+  // Resolves false when the recipient already has a notification with the same dedupe key
+  createNotification(notificationData: UserNotificationInput): Promise<boolean>;
+  // Sends one notification to every user holding one of the roles; resolves to how many were created
+  notifyRoles(roles: UserRole[], notificationData: Omit<UserNotificationInput, 'recipientId'>): Promise<number>;
+  // Newest first, at most NOTIFICATION_LIMIT
+  getNotifications(recipientId: string): Promise<UserNotification[]>;
+  markRead(recipientId: string, notificationIds: string[]): Promise<void>;
+  markAllRead(recipientId: string): Promise<void>;
+  subscribeToNotifications(recipientId: string, onChange: ChangeListener<UserNotification>, onError?: ErrorListener): Unsubscribe;
+}
+
+// Email/SMS waiting for services/outboxDispatcher.ts
+export interface OutboxRepository {
+  // Queued as 'pending' and due straight away
+  enqueueMessage(messageData: OutboxMessageInput): Promise<string>;
+  // Newest first, at most OUTBOX_LIMIT
+  getMessages(): Promise<OutboxMessage[]>;
+  // 'pending' or 'sending' messages whose nextAttemptAt has passed
+  getDueMessages(now: string): Promise<OutboxMessage[]>;
+  // Marks a due message 'sending' until leaseUntil; resolves false if another dispatcher got there first
+  claimMessage(messageId: string, now: string, leaseUntil: string): Promise<boolean>;
+  updateMessage(messageId: string, updates: Partial<Omit<OutboxMessage, 'id' | 'createdAt'>>): Promise<void>;
+}
+
+// Hands a rendered message to the outside world: an SMTP/SMS relay, or the
+// local stand-in (services/index.ts picks one)
+export interface MessageTransport {
+  send(message: { channel: DeliveryChannel; to: string; subject: string; body: string }): Promise<void>;
+}
+
+// Append-only: there is deliberately no way to change or remove an entry
+export interface AuditLogRepository {
+  recordEntry(entryData: AuditEntryInput): Promise<void>;
+  // Newest first, at most AUDIT_LOG_LIMIT entries
+  getEntries(filter?: AuditLogFilter): Promise<AuditEntry[]>;
+  // Every change to one record, newest first, up to AUDIT_HISTORY_LIMIT
+  getHistory(entityType: AuditEntityType, entityId: string): Promise<AuditHistory>;
+}
+
+export interface SystemConfigRepository {
+  getConfig(): Promise<SystemConfig | null>;
+  // Records the organisation and promotes its first admin; fails once setup has run
+  completeSetup(setup: SetupInput): Promise<void>;
+  // Adds whatever part of the sample hospital is missing, so it is safe to run again
+  seedSampleData(): Promise<void>;
+}
+
+export interface DataRepository {
+  profileService: ProfileRepository;
+  departmentService: DepartmentRepository;
+  requestTypeService: RequestTypeRepository;
+  deviceCategoryService: DeviceCategoryRepository;
+  deviceService: DeviceRepository;
+  requestService: RequestRepository;
+  incidentService: IncidentRepository;
+  maintenanceService: MaintenanceRepository;
+  complianceService: ComplianceRepository;
+  equipmentTypeService: EquipmentTypeRepository;
+  sparePartService: SparePartRepository;
+  serviceContractService: ServiceContractRepository;
+  slaPolicyService: SlaPolicyRepository;
+  escalationService: EscalationRepository;
+  onCallService: OnCallRepository;
+  attachmentService: AttachmentRepository;
+  notificationService: NotificationRepository;
+  outboxService: OutboxRepository;
+  auditLogService: AuditLogRepository;
+  systemConfigService: SystemConfigRepository;
+}
@@ -0,0 +1,63 @@
+import { assignmentMethodLabels } from '../utils/assignment';
+import { getAccessContext } from './accessControl';
+import type { DataRepository } from './repository';
+
+const statusLabel = (status: string) => status.replace(/_/g, ' ');
+
+// Request timelines shared by every backend: status changes, approvals and
+// assignments made through the repository are written into the request's
+// activity next to its comments. Names are copied into the entry because the
+// requester reading the timeline cannot look other profiles up.
+export const withRequestActivity = (repository: DataRepository): DataRepository => {
+  const { requestService, profileService } = repository;
+
+  const profileName = async (profileId: string | null) =>
+    profileId ? (await profileService.getProfile(profileId))?.fullName || 'Unknown user' : 'nobody';
+
+  // A missing timeline entry must not fail a change that has already been saved
+  const record = async (requestId: string, kind: 'status' | 'assignment', body: string) => {
+    try {
+      await requestService.addActivity(requestId, {
+        kind,
+        authorId: getAccessContext()?.userId ?? null,
+        body,
+        isInternal: false,
+      });
+    } catch (error) {
+      console.error('Error recording request activity:', error);
+    }
+  };
+
+  return {
+    ...repository,
+    requestService: {
+      ...requestService,
+      async updateRequest(requestId, updates) {
+        const before = await requestService.getRequest(requestId);
+        await requestService.updateRequest(requestId, updates);
+
+        if (updates.approvedBy && updates.approvedBy !== before?.approvedBy) {
+          await record(requestId, 'status', `Approved by ${await profileName(updates.approvedBy)}`);
+        }
+        if (updates.status && updates.status !== before?.status) {
+          await record(
+            requestId,
+            'status',
+            before ? `Status changed from ${statusLabel(before.status)} to ${statusLabel(updates.status)}` : `Status set to ${statusLabel(updates.status)}`
+          );
+        }
+      },
+      async assignRequest(requestId, assignment) {
+        const before = await requestService.getRequest(requestId);
+        await requestService.assignRequest(requestId, assignment);
+
+        const to = await profileName(assignment.toAssigneeId);
+        const body = before?.assignedAdminId
+          ? `Reassigned from ${await profileName(before.assignedAdminId)} to ${to}`
+          : `Assigned to ${to}`;
+        const method = assignment.method === 'manual' ? '' : ` (${assignmentMethodLabels[assignment.method]})`;
+        await record(requestId, 'assignment', `${body}${method}${assignment.reason ? `: ${assignment.reason}` : ''}`);
+      },
+    },
+  };
+};
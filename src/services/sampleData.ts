@@ -0,0 +1,287 @@
+import type { ChecklistItem, DeviceCategory, DeviceInput, DepartmentInput, EquipmentType, EscalationRuleInput, Request, RequestInput, RequestType, SlaPolicyInput, SparePartInput } from '../types/models';
+
+// Fixtures used to seed a fresh hospital, shared by every backend that can seed itself
+
+export const sampleDepartments: DepartmentInput[] = [
+  { name: 'Emergency Department', code: 'ED', description: 'Emergency medical services and trauma care', isCritical: true, headOfDepartment: 'Dr. Sarah Johnson', contactNumber: '(555) 123-4567', location: 'Ground Floor, Wing A' },
+  { name: 'Intensive Care Unit', code: 'ICU', description: 'Critical care for severely ill patients', isCritical: true, headOfDepartment: 'Dr. Michael Chen', contactNumber: '(555) 123-4568', location: '3rd Floor, Wing B' },
+  { name: 'Radiology Department', code: 'RAD', description: 'Medical imaging and diagnostic services', isCritical: false, headOfDepartment: 'Dr. Emily Rodriguez', contactNumber: '(555) 123-4569', location: '2nd Floor, Wing C' },
+  { name: 'Laboratory Services', code: 'LAB', description: 'Clinical laboratory and pathology services', isCritical: false, headOfDepartment: 'Dr. James Wilson', contactNumber: '(555) 123-4570', location: 'Basement Level, Wing A' },
+  { name: 'Pharmacy Department', code: 'PHARM', description: 'Hospital pharmacy and medication management', isCritical: false, headOfDepartment: 'PharmD Lisa Thompson', contactNumber: '(555) 123-4571', location: 'Ground Floor, Wing B' },
+  { name: 'Surgical Department', code: 'SURG', description: 'Operating rooms and surgical services', isCritical: true, headOfDepartment: 'Dr. Robert Martinez', contactNumber: '(555) 123-4572', location: '4th Floor, Wing A' },
+  { name: 'Cardiology Department', code: 'CARD', description: 'Heart and cardiovascular care services', isCritical: true, headOfDepartment: 'Dr. Amanda Davis', contactNumber: '(555) 123-4573', location: '5th Floor, Wing B' },
+  { name: 'Pediatrics Department', code: 'PED', description: 'Children and adolescent medical care', isCritical: false, headOfDepartment: 'Dr. Kevin Brown', contactNumber: '(555) 123-4574', location: '6th Floor, Wing C' },
+  { name: 'Oncology Department', code: 'ONC', description: 'Cancer treatment and care services', isCritical: true, headOfDepartment: 'Dr. Maria Garcia', contactNumber: '(555) 123-4575', location: '7th Floor, Wing A' },
+  { name: 'Neurology Department', code: 'NEURO', description: 'Brain and nervous system disorders', isCritical: true, headOfDepartment: 'Dr. David Lee', contactNumber: '(555) 123-4576', location: '8th Floor, Wing B' },
+  { name: 'Orthopedics Department', code: 'ORTHO', description: 'Bone, joint, and musculoskeletal care', isCritical: false, headOfDepartment: 'Dr. Jennifer White', contactNumber: '(555) 123-4577', location: '9th Floor, Wing C' },
+  { name: 'Maternity Ward', code: 'MAT', description: 'Obstetrics and gynecology services', isCritical: true, headOfDepartment: 'Dr. Susan Taylor', contactNumber: '(555) 123-4578', location: '10th Floor, Wing A' },
+  { name: 'Psychiatry Department', code: 'PSYCH', description: 'Mental health and psychiatric services', isCritical: false, headOfDepartment: 'Dr. Mark Anderson', contactNumber: '(555) 123-4579', location: '11th Floor, Wing B' },
+  { name: 'Physical Therapy', code: 'PT', description: 'Rehabilitation and physical therapy services', isCritical: false, headOfDepartment: 'PT Director Rachel Green', contactNumber: '(555) 123-4580', location: '1st Floor, Wing C' },
+  { name: 'IT Department', code: 'IT', description: 'Information technology and systems management', isCritical: true, headOfDepartment: 'IT Director John Smith', contactNumber: '(555) 123-4581', location: 'Basement Level, Wing B' }
+];
+
+export const sampleCategories: Omit<DeviceCategory, 'id'>[] = [
+  { name: 'Medical Imaging Equipment', description: 'X-ray, MRI, CT scan, ultrasound equipment' },
+  { name: 'Patient Monitoring Systems', description: 'Vital signs and patient monitoring devices' },
+  { name: 'Laboratory Equipment', description: 'Lab testing, analysis, and diagnostic equipment' },
+  { name: 'Surgical Equipment', description: 'Operating room and surgical instruments' },
+  { name: 'IT Equipment', description: 'Computers, servers, network devices, and software' },
+  { name: 'Life Support Systems', description: 'Ventilators, ECMO, and critical life support' },
+  { name: 'Cardiac Equipment', description: 'ECG, defibrillators, and cardiac monitoring' },
+  { name: 'Anesthesia Equipment', description: 'Anesthesia machines and gas monitoring' },
+  { name: 'Emergency Equipment', description: 'Crash carts, emergency response equipment' },
+  { name: 'Rehabilitation Equipment', description: 'Physical therapy and rehabilitation devices' }
+];
+
+export const sampleRequestTypes: Omit<RequestType, 'id'>[] = [
+  { name: 'Equipment Failure', description: 'Report broken or malfunctioning medical equipment' },
+  { name: 'New Equipment Request', description: 'Request for new medical or IT equipment purchase' },
+  { name: 'Software Issue', description: 'Problems with hospital management software systems' },
+  { name: 'Network Connectivity Problem', description: 'Internet, WiFi, or network connectivity issues' },
+  { name: 'Emergency Repair', description: 'Urgent equipment repair affecting patient care' },
+  { name: 'Preventive Maintenance', description: 'Scheduled maintenance and calibration services' },
+  { name: 'Equipment Training', description: 'Staff training on medical equipment usage' },
+  { name: 'System Integration', description: 'Integration of new systems with existing infrastructure' },
+  { name: 'Security Incident', description: 'IT security breaches or suspicious activities' },
+  { name: 'Data Recovery', description: 'Recovery of lost or corrupted patient data' },
+  { name: 'Compliance Audit', description: 'Equipment compliance and regulatory audit requests' },
+  { name: 'Upgrade Request', description: 'Software or hardware upgrade requirements' }
+];
+
+// Electrical safety test (IEC 62353 limits) run on every medical device
+const electricalSafetyChecklist: ChecklistItem[] = [
+  { id: 'visual-inspection', label: 'Visual inspection of casing, cables and plugs', kind: 'check', required: true, unit: null, min: null, max: null },
+  { id: 'protective-earth', label: 'Protective earth resistance', kind: 'reading', required: true, unit: 'Ω', min: null, max: 0.3 },
+  { id: 'equipment-leakage', label: 'Equipment leakage current', kind: 'reading', required: true, unit: 'µA', min: null, max: 500 },
+  { id: 'applied-part-leakage', label: 'Applied part leakage current', kind: 'reading', required: true, unit: 'µA', min: null, max: 50 },
+  { id: 'function-test', label: 'Functional test after service', kind: 'check', required: true, unit: null, min: null, max: null },
+];
+
+const calibrationChecklists: Record<string, ChecklistItem[]> = {
+  Ventilator: [
+    { id: 'tidal-volume', label: 'Delivered tidal volume at 500 ml setting', kind: 'reading', required: true, unit: 'ml', min: 450, max: 550 },
+    { id: 'oxygen-concentration', label: 'FiO2 at 21% setting', kind: 'reading', required: true, unit: '%', min: 19, max: 23 },
+    { id: 'alarm-test', label: 'Disconnect and high-pressure alarms sound', kind: 'check', required: true, unit: null, min: null, max: null },
+  ],
+  Defibrillator: [
+    { id: 'energy-200j', label: 'Delivered energy at 200 J', kind: 'reading', required: true, unit: 'J', min: 170, max: 230 },
+    { id: 'charge-time', label: 'Charge time to maximum energy', kind: 'reading', required: true, unit: 's', min: null, max: 10 },
+    { id: 'battery-check', label: 'Battery condition and date', kind: 'check', required: false, unit: null, min: null, max: null },
+  ],
+  'Infusion Pump': [
+    { id: 'flow-accuracy', label: 'Flow rate error at 100 ml/h', kind: 'reading', required: true, unit: '%', min: -5, max: 5 },
+    { id: 'occlusion-alarm', label: 'Occlusion alarm triggers', kind: 'check', required: true, unit: null, min: null, max: null },
+  ],
+  'Patient Monitor': [
+    { id: 'spo2-simulator', label: 'SpO2 reading against 97% simulator', kind: 'reading', required: true, unit: '%', min: 95, max: 99 },
+    { id: 'nibp-simulator', label: 'NIBP systolic against 120 mmHg simulator', kind: 'reading', required: true, unit: 'mmHg', min: 117, max: 123 },
+  ],
+};
+
+const equipmentTypeSeed: Omit<EquipmentType, 'id' | 'createdAt' | 'checklist'>[] = [
+  { name: 'MRI Machine', description: 'Magnetic Resonance Imaging equipment', isMedicalDevice: true, requiresCertification: true, maintenanceIntervalDays: 30 },
+  { name: 'CT Scanner', description: 'Computed Tomography scanner', isMedicalDevice: true, requiresCertification: true, maintenanceIntervalDays: 30 },
+  { name: 'X-Ray Machine', description: 'Radiographic imaging equipment', isMedicalDevice: true, requiresCertification: true, maintenanceIntervalDays: 60 },
+  { name: 'Ultrasound', description: 'Ultrasonic imaging device', isMedicalDevice: true, requiresCertification: true, maintenanceIntervalDays: 90 },
+  { name: 'Ventilator', description: 'Mechanical ventilation device', isMedicalDevice: true, requiresCertification: true, maintenanceIntervalDays: 7 },
+  { name: 'Defibrillator', description: 'Emergency cardiac device', isMedicalDevice: true, requiresCertification: true, maintenanceIntervalDays: 30 },
+  { name: 'Patient Monitor', description: 'Vital signs monitoring system', isMedicalDevice: true, requiresCertification: true, maintenanceIntervalDays: 90 },
+  { name: 'Infusion Pump', description: 'Medication delivery system', isMedicalDevice: true, requiresCertification: true, maintenanceIntervalDays: 60 },
+  { name: 'ECG Machine', description: 'Electrocardiogram device', isMedicalDevice: true, requiresCertification: true, maintenanceIntervalDays: 90 },
+  { name: 'Anesthesia Machine', description: 'Surgical anesthesia equipment', isMedicalDevice: true, requiresCertification: true, maintenanceIntervalDays: 30 },
+  { name: 'Desktop Computer', description: 'Standard workstation computer', isMedicalDevice: false, requiresCertification: false, maintenanceIntervalDays: 180 },
+  { name: 'Laptop', description: 'Portable computer', isMedicalDevice: false, requiresCertification: false, maintenanceIntervalDays: 180 },
+  { name: 'Printer', description: 'Document printing device', isMedicalDevice: false, requiresCertification: false, maintenanceIntervalDays: 90 },
+  { name: 'Network Switch', description: 'Network infrastructure', isMedicalDevice: false, requiresCertification: false, maintenanceIntervalDays: 365 },
+  { name: 'Server', description: 'Data server equipment', isMedicalDevice: false, requiresCertification: false, maintenanceIntervalDays: 90 }
+];
+
+// Mirrors the equipment_types seed in the Supabase migrations
+export const sampleEquipmentTypes: Omit<EquipmentType, 'id' | 'createdAt'>[] = equipmentTypeSeed.map((equipmentType) => ({
+  ...equipmentType,
+  checklist: equipmentType.isMedicalDevice
+    ? [...electricalSafetyChecklist, ...(calibrationChecklists[equipmentType.name] ?? [])]
+    : [],
+}));
+
+// Compatible equipment types are named here and resolved to ids when seeding
+export const sampleSpareParts: (Omit<SparePartInput, 'compatibleEquipmentTypeIds'> & { compatibleEquipmentTypes: string[] })[] = [
+  { partNumber: 'OS-21A', name: 'Oxygen sensor', description: 'Galvanic O2 cell for ventilator FiO2 monitoring', compatibleEquipmentTypes: ['Ventilator', 'Anesthesia Machine'], stockLevels: [{ storeRoom: 'Biomed Workshop', quantity: 2 }, { storeRoom: 'ICU Store', quantity: 1 }], reorderPoint: 4, unitCost: 145 },
+  { partNumber: 'EXP-VLV-300', name: 'Expiratory valve membrane', description: null, compatibleEquipmentTypes: ['Ventilator'], stockLevels: [{ storeRoom: 'Biomed Workshop', quantity: 12 }], reorderPoint: 5, unitCost: 38.5 },
+  { partNumber: 'DEF-PAD-A', name: 'Adult defibrillation pads', description: 'Single-use, pre-gelled', compatibleEquipmentTypes: ['Defibrillator'], stockLevels: [{ storeRoom: 'Central Stores', quantity: 40 }, { storeRoom: 'ED Store', quantity: 6 }], reorderPoint: 20, unitCost: 24 },
+  { partNumber: 'LI-BAT-12', name: 'Defibrillator battery pack', description: null, compatibleEquipmentTypes: ['Defibrillator'], stockLevels: [{ storeRoom: 'Biomed Workshop', quantity: 0 }], reorderPoint: 1, unitCost: 310 },
+  { partNumber: 'SPO2-ADL', name: 'SpO2 finger sensor, adult', description: 'Reusable clip sensor', compatibleEquipmentTypes: ['Patient Monitor'], stockLevels: [{ storeRoom: 'Central Stores', quantity: 15 }], reorderPoint: 10, unitCost: 65 },
+  { partNumber: 'IP-DOOR-LT', name: 'Infusion pump door latch', description: null, compatibleEquipmentTypes: ['Infusion Pump'], stockLevels: [{ storeRoom: 'Biomed Workshop', quantity: 3 }], reorderPoint: 2, unitCost: 18 },
+];
+
+export const sampleDevices: DeviceInput[] = [
+  {
+    name: 'MRI Scanner - Radiology Main',
+    model: 'Siemens MAGNETOM Skyra 3T',
+    serialNumber: 'MRI-001-2024',
+    status: 'active',
+    category: 'Medical Imaging Equipment',
+    location: 'Radiology Department',
+    isCritical: true,
+    complianceStatus: 'compliant',
+    purchaseDate: '2023-01-15',
+    warrantyDate: '2026-01-15',
+    notes: 'Primary MRI scanner for emergency and routine imaging. Last calibration: 2024-01-15'
+  },
+  {
+    name: 'Patient Monitor - ICU Room 101',
+    model: 'Philips IntelliVue MX800',
+    serialNumber: 'PM-ICU-001',
+    status: 'active',
+    category: 'Patient Monitoring Systems',
+    location: 'ICU Room 101',
+    isCritical: true,
+    complianceStatus: 'compliant',
+    purchaseDate: '2023-03-20',
+    warrantyDate: '2026-03-20',
+    notes: 'Multi-parameter patient monitor with advanced cardiac monitoring capabilities'
+  },
+  {
+    name: 'Digital X-Ray System - Emergency',
+    model: 'GE Healthcare Optima XR200amx',
+    serialNumber: 'XR-ED-003',
+    status: 'maintenance',
+    category: 'Medical Imaging Equipment',
+    location: 'Emergency Department',
+    isCritical: true,
+    complianceStatus: 'pending',
+    purchaseDate: '2022-08-10',
+    warrantyDate: '2025-08-10',
+    notes: 'Currently under preventive maintenance - detector calibration and software update'
+  },
+  {
+    name: 'Mechanical Ventilator - ICU Room 102',
+    model: 'Medtronic PB980',
+    serialNumber: 'VENT-ICU-002',
+    status: 'active',
+    category: 'Life Support Systems',
+    location: 'ICU Room 102',
+    isCritical: true,
+    complianceStatus: 'compliant',
+    purchaseDate: '2023-05-12',
+    warrantyDate: '2026-05-12',
+    notes: 'Advanced mechanical ventilator with lung protective ventilation modes and NIV capability'
+  },
+  {
+    name: 'CT Scanner - Radiology',
+    model: 'Siemens SOMATOM Definition AS+',
+    serialNumber: 'CT-RAD-001',
+    status: 'active',
+    category: 'Medical Imaging Equipment',
+    location: 'Radiology Department',
+    isCritical: true,
+    complianceStatus: 'compliant',
+    purchaseDate: '2022-11-30',
+    warrantyDate: '2025-11-30',
+    notes: '128-slice CT scanner with advanced cardiac imaging capabilities'
+  },
+  {
+    name: 'Portable Ultrasound - Emergency',
+    model: 'Philips EPIQ CVx',
+    serialNumber: 'US-PORT-001',
+    status: 'active',
+    category: 'Medical Imaging Equipment',
+    location: 'Emergency Department',
+    isCritical: false,
+    complianceStatus: 'compliant',
+    purchaseDate: '2023-07-18',
+    warrantyDate: '2026-07-18',
+    notes: 'High-end portable ultrasound system for bedside examinations and procedures'
+  },
+  {
+    name: 'Defibrillator - Emergency Room 1',
+    model: 'ZOLL X Series',
+    serialNumber: 'DEFIB-ED-001',
+    status: 'active',
+    category: 'Emergency Equipment',
+    location: 'Emergency Department',
+    isCritical: true,
+    complianceStatus: 'compliant',
+    purchaseDate: '2023-02-28',
+    warrantyDate: '2026-02-28',
+    notes: 'Advanced life support defibrillator with Real CPR Help'
+  },
+  {
+    name: 'Anesthesia Machine - OR-01',
+    model: 'GE Healthcare Aisys CS2',
+    serialNumber: 'ANES-OR-001',
+    status: 'faulty',
+    category: 'Surgical Equipment',
+    location: 'Operating Room 1',
+    isCritical: true,
+    complianceStatus: 'non-compliant',
+    purchaseDate: '2021-12-15',
+    warrantyDate: '2024-12-15',
+    notes: 'Oxygen sensor malfunction - requires immediate repair'
+  }
+];
+
+export const buildSampleRequests = (userId: string): (RequestInput & Pick<Request, 'status'>)[] => [
+  {
+    title: 'MRI Scanner Calibration Required',
+    description: 'The MRI scanner in Radiology needs routine calibration. Image quality has been slightly degraded in recent scans.',
+    requestType: 'Maintenance Request',
+    priority: 'medium',
+    urgencyLevel: 'routine',
+    patientImpact: false,
+    status: 'pending',
+    userId: userId
+  },
+  {
+    title: 'Emergency: Anesthesia Machine Malfunction',
+    description: 'Anesthesia machine in OR-1 showing oxygen sensor errors. Surgery scheduled in 2 hours needs immediate attention.',
+    requestType: 'Emergency Repair',
+    priority: 'urgent',
+    urgencyLevel: 'emergency',
+    patientImpact: true,
+    status: 'in_progress',
+    userId: userId
+  }
+];
+
+// Baseline targets per priority, tightened for emergency and critical urgency
+export const sampleSlaPolicies: SlaPolicyInput[] = [
+  { name: 'Low priority', priority: 'low', urgencyLevel: null, requestTypeId: null, responseMinutes: 1440, resolutionMinutes: 7200, isActive: true },
+  { name: 'Medium priority', priority: 'medium', urgencyLevel: null, requestTypeId: null, responseMinutes: 240, resolutionMinutes: 2880, isActive: true },
+  { name: 'High priority', priority: 'high', urgencyLevel: null, requestTypeId: null, responseMinutes: 120, resolutionMinutes: 1440, isActive: true },
+  { name: 'Urgent priority', priority: 'urgent', urgencyLevel: null, requestTypeId: null, responseMinutes: 60, resolutionMinutes: 480, isActive: true },
+  { name: 'Emergency', priority: null, urgencyLevel: 'emergency', requestTypeId: null, responseMinutes: 15, resolutionMinutes: 240, isActive: true },
+  { name: 'Critical', priority: null, urgencyLevel: 'critical', requestTypeId: null, responseMinutes: 15, resolutionMinutes: 120, isActive: true },
+];
+
+// Two-step ladder for requests nobody has picked up, and one for open incidents.
+// Reassignment needs a real on-call admin, so it is left for the administrator to set.
+export const sampleEscalationRules: EscalationRuleInput[] = [
+  { name: 'Unattended request', appliesTo: 'request', thresholdMinutes: 240, raisePriorityTo: 'high', reassignToOnCall: false, reassignToId: null, isActive: true },
+  { name: 'Request unattended for a day', appliesTo: 'request', thresholdMinutes: 1440, raisePriorityTo: 'urgent', reassignToOnCall: true, reassignToId: null, isActive: true },
+  { name: 'Unattended incident', appliesTo: 'incident', thresholdMinutes: 60, raisePriorityTo: 'high', reassignToOnCall: false, reassignToId: null, isActive: true },
+];
+
+// Names (serial numbers for devices, part numbers for spare parts) of what a backend already holds
+export interface ExistingSampleKeys {
+  departments: string[];
+  categories: string[];
+  requestTypes: string[];
+  equipmentTypes: string[];
+  partNumbers: string[];
+  serialNumbers: string[];
+  slaPolicies: string[];
+  escalationRules: string[];
+}
+
+// The fixtures a backend still lacks, so seeding twice never duplicates anything
+export const missingSampleData = (existing: ExistingSampleKeys) => ({
+  departments: sampleDepartments.filter((department) => !existing.departments.includes(department.name)),
+  categories: sampleCategories.filter((category) => !existing.categories.includes(category.name)),
+  requestTypes: sampleRequestTypes.filter((requestType) => !existing.requestTypes.includes(requestType.name)),
+  equipmentTypes: sampleEquipmentTypes.filter((equipmentType) => !existing.equipmentTypes.includes(equipmentType.name)),
+  spareParts: sampleSpareParts.filter((part) => !existing.partNumbers.includes(part.partNumber)),
+  devices: sampleDevices.filter((device) => !existing.serialNumbers.includes(device.serialNumber ?? '')),
+  slaPolicies: sampleSlaPolicies.filter((policy) => !existing.slaPolicies.includes(policy.name)),
+  escalationRules: sampleEscalationRules.filter((rule) => !existing.escalationRules.includes(rule.name)),
+});
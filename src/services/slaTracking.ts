@@ -0,0 +1,35 @@
+import { computeSlaTargets, findSlaPolicy } from '../utils/sla';
+import type { DataRepository } from './repository';
+
+// SLA bookkeeping shared by every backend: new requests get the due times of
+// their matching policy, and status changes record when a request was first
+// responded to and when it was resolved.
+export const withSlaTracking = (repository: DataRepository): DataRepository => {
+  const { requestService, slaPolicyService } = repository;
+
+  return {
+    ...repository,
+    requestService: {
+      ...requestService,
+      async createRequest(requestData) {
+        const policies = await slaPolicyService.getAllPolicies();
+        return requestService.createRequest({
+          ...requestData,
+          ...computeSlaTargets(findSlaPolicy(policies, requestData)),
+        });
+      },
+      async updateRequest(requestId, updates) {
+        const now = new Date().toISOString();
+        const stamped = { ...updates };
+        // Requests only reach in_progress or rejected straight from pending, so this is the first response
+        if ((updates.status === 'in_progress' || updates.status === 'rejected') && !updates.respondedAt) {
+          stamped.respondedAt = now;
+        }
+        if (updates.status === 'completed' && !updates.completedAt) {
+          stamped.completedAt = now;
+        }
+        return requestService.updateRequest(requestId, stamped);
+      },
+    },
+  };
+};
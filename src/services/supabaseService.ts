@@ -0,0 +1,1239 @@
+import type { User as SupabaseUser } from '@supabase/supabase-js';
+import { getSupabase } from '../lib/supabase';
+import type { AuditEntry, Device, Request } from '../types/models';
+import {
+  attachmentSchema,
+  auditEntrySchema,
+  complianceRecordSchema,
+  departmentSchema,
+  deviceCategorySchema,
+  deviceSchema,
+  equipmentTypeSchema,
+  escalationEventSchema,
+  escalationRuleSchema,
+  incidentSchema,
+  maintenancePlanSchema,
+  maintenanceScheduleSchema,
+  onCallOverrideSchema,
+  onCallRotationSchema,
+  outboxMessageSchema,
+  profileSchema,
+  requestActivitySchema,
+  requestAssignmentSchema,
+  requestSchema,
+  requestTypeSchema,
+  serviceContractSchema,
+  slaPolicySchema,
+  sparePartSchema,
+  systemConfigSchema,
+  userNotificationSchema,
+} from '../types/schemas';
+import { parseModel, validateWrite, ModelSchema } from '../types/validation';
+import type {
+  AttachmentRepository,
+  AuthAdapter,
+  AuthUser,
+  AuditLogRepository,
+  ChangeListener,
+  ComplianceRepository,
+  DataRepository,
+  DepartmentRepository,
+  DeviceCategoryRepository,
+  DeviceRepository,
+  EquipmentTypeRepository,
+  ErrorListener,
+  EscalationRepository,
+  FileStorage,
+  IncidentRepository,
+  MaintenanceRepository,
+  NotificationRepository,
+  OnCallRepository,
+  OutboxRepository,
+  ProfileRepository,
+  RequestRepository,
+  RequestTypeRepository,
+  ServiceContractRepository,
+  SlaPolicyRepository,
+  SparePartRepository,
+  SystemConfigRepository,
+  Unsubscribe,
+} from './repository';
+import { missingSampleData } from './sampleData';
+import { AUDIT_HISTORY_LIMIT, AUDIT_HISTORY_PAGE_SIZE, AUDIT_LOG_LIMIT } from '../utils/audit';
+import { NOTIFICATION_LIMIT } from '../utils/notifications';
+import { OUTBOX_LIMIT, newOutboxMessage } from '../utils/outbox';
+
+type Row = Record<string, unknown>;
+
+const toSnakeCase = (key: string) => key.replace(/[A-Z]/g, (char) => `_${char.toLowerCase()}`);
+const toCamelCase = (key: string) => key.replace(/_([a-z])/g, (_, char: string) => char.toUpperCase());
+
+// Domain object -> table row, validated against the model schema first.
+// `derived` lists model fields that come from joins (e.g. a device's category
+// name) and have no column of their own.
+const toRow = <T>(schema: ModelSchema<T>, data: object, derived: string[] = []): Row =>
+  Object.fromEntries(
+    Object.entries(validateWrite(schema, data))
+      .filter(([key]) => !derived.includes(key))
+      .map(([key, value]) => [toSnakeCase(key), value])
+  );
+
+const fromRow = <T>(schema: ModelSchema<T>, row: Row): T =>
+  parseModel(
+    schema,
+    String(row.id),
+    Object.fromEntries(Object.entries(row).map(([key, value]) => [toCamelCase(key), value]))
+  );
+
+const joinedName = (relation: unknown) =>
+  (relation as { name?: string } | null)?.name ?? null;
+
+const fromDeviceRow = ({ device_categories, ...row }: Row): Device =>
+  fromRow(deviceSchema, { ...row, category: joinedName(device_categories) });
+
+const fromRequestRow = ({ request_types, ...row }: Row): Request =>
+  fromRow(requestSchema, { ...row, request_type: joinedName(request_types) });
+
+// Realtime change events only carry the bare row, so every change triggers a
+// reload through the matching get* method to keep joins and ordering intact.
+// The tables must be in the supabase_realtime publication (see migrations).
+const subscribeToTable = <T>(
+  table: string,
+  load: () => Promise<T[]>,
+  onChange: ChangeListener<T>,
+  onError?: ErrorListener,
+  filter?: string
+): Unsubscribe => {
+  let active = true;
+  const reload = () =>
+    load()
+      .then((items) => active && onChange(items))
+      .catch((error) => active && onError?.(error));
+
+  const channel = getSupabase()
+    .channel(`live:${table}:${filter ?? 'all'}:${crypto.randomUUID()}`)
+    .on('postgres_changes', { event: '*', schema: 'public', table, filter }, reload)
+    .subscribe((status, error) => {
+      if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+        onError?.(error ?? new Error(`Live updates for ${table} are unavailable (${status})`));
+      }
+    });
+
+  reload();
+  return () => {
+    active = false;
+    getSupabase().removeChannel(channel);
+  };
+};
+
+const toAuthUser = (user: SupabaseUser): AuthUser => ({
+  uid: user.id,
+  email: user.email ?? null,
+  displayName: (user.user_metadata?.full_name as string | undefined) ?? null,
+});
+
+// Supabase Auth. Its session is what the RLS policies see as auth.uid(), and
+// the handle_new_user trigger gives every account a profile with the same id.
+export const supabaseAuth: AuthAdapter = {
+  onAuthStateChanged(listener) {
+    // Fires with the stored session (or null) first. Supabase calls made
+    // inside the callback would wait on the auth lock, so hand it off.
+    const { data } = getSupabase().auth.onAuthStateChange((_event, session) => {
+      setTimeout(() => listener(session ? toAuthUser(session.user) : null), 0);
+    });
+    return () => data.subscription.unsubscribe();
+  },
+
+  async signIn(email, password) {
+    const { data, error } = await getSupabase().auth.signInWithPassword({ email, password });
+    if (error) throw error;
+    return toAuthUser(data.user);
+  },
+
+  async signUp(email, password, fullName) {
+    const { data, error } = await getSupabase().auth.signUp({
+      email,
+      password,
+      options: { data: { full_name: fullName } },
+    });
+    if (error) throw error;
+    // No session means the project wants the address confirmed before sign-in
+    if (!data.user || !data.session) {
+      throw new Error('Confirm your email address with the link we sent you, then try again');
+    }
+    return toAuthUser(data.user);
+  },
+
+  async signInWithGoogle() {
+    const { error } = await getSupabase().auth.signInWithOAuth({
+      provider: 'google',
+      options: { redirectTo: window.location.origin },
+    });
+    if (error) throw error;
+    return null;
+  },
+
+  async signOut() {
+    const { error } = await getSupabase().auth.signOut();
+    if (error) throw error;
+  }
+};
+
+// User Profile Service. Profiles are keyed on user_id, the auth user id; the
+// profile id is the same value (see the profile_ids migration).
+export const profileService: ProfileRepository = {
+  async createProfile(userId, profileData) {
+    const { error } = await getSupabase()
+      .from('profiles')
+      .insert({ ...toRow(profileSchema, profileData), id: userId, user_id: userId });
+    if (error) throw error;
+  },
+
+  async getProfile(userId) {
+    const { data, error } = await getSupabase()
+      .from('profiles')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+    if (error) throw error;
+    return data ? fromRow(profileSchema, data) : null;
+  },
+
+  async updateProfile(userId, updates) {
+    // Row level security drops an update the caller may not make without an
+    // error, so check that the row was actually written
+    const { data, error } = await getSupabase()
+      .from('profiles')
+      .update({ ...toRow(profileSchema, updates), updated_at: new Date().toISOString() })
+      .eq('user_id', userId)
+      .select('id');
+    if (error) throw error;
+    if (!data || data.length === 0) throw new Error('Profile not found, or you may not update it');
+  },
+
+  async updateNotificationPreferences(userId, preferences) {
+    // update_own_notification_preferences() lets users save these without users.manage
+    const { error } = await getSupabase().rpc('update_own_notification_preferences', {
+      target_user_id: userId,
+      new_phone: preferences.phone,
+      new_channels: preferences.notificationChannels,
+      new_quiet_hours_start: preferences.quietHoursStart,
+      new_quiet_hours_end: preferences.quietHoursEnd,
+    });
+    if (error) throw error;
+  },
+
+  async getAllProfiles() {
+    const { data, error } = await getSupabase().from('profiles').select('*').order('full_name');
+    if (error) throw error;
+    return (data || []).map((row) => fromRow(profileSchema, row));
+  },
+
+  async createUser(userData) {
+    try {
+      // The handle_new_user trigger creates the profile row for us
+      const { data, error } = await getSupabase().auth.signUp({
+        email: userData.email,
+        password: userData.password,
+        options: { data: { full_name: userData.fullName } },
+      });
+      if (error) throw error;
+      if (!data.user) throw new Error('User was not created');
+
+      const { data: profile, error: profileError } = await getSupabase()
+        .from('profiles')
+        .update({ role: userData.role, department: userData.department })
+        .eq('user_id', data.user.id)
+        .select('id')
+        .single();
+      if (profileError) throw profileError;
+
+      return profile.id as string;
+    } catch (error) {
+      console.error('Error creating user:', error);
+      throw error;
+    }
+  },
+
+  async deleteUser(userId) {
+    try {
+      const { error } = await getSupabase().from('profiles').delete().eq('id', userId);
+      if (error) throw error;
+      // Note: removing the auth user requires the service role key on a backend
+    } catch (error) {
+      console.error('Error deleting user:', error);
+      throw error;
+    }
+  }
+};
+
+// Department Service
+export const departmentService: DepartmentRepository = {
+  async createDepartment(departmentData) {
+    const { data, error } = await getSupabase()
+      .from('departments')
+      .insert(toRow(departmentSchema, departmentData))
+      .select('id')
+      .single();
+    if (error) throw error;
+    return data.id as string;
+  },
+
+  async getAllDepartments() {
+    const { data, error } = await getSupabase().from('departments').select('*').order('name');
+    if (error) throw error;
+    return (data || []).map((row) => fromRow(departmentSchema, row));
+  },
+
+  async updateDepartment(departmentId, updates) {
+    const { error } = await getSupabase()
+      .from('departments')
+      .update(toRow(departmentSchema, updates))
+      .eq('id', departmentId);
+    if (error) throw error;
+  },
+
+  async deleteDepartment(departmentId) {
+    const { error } = await getSupabase().from('departments').delete().eq('id', departmentId);
+    if (error) throw error;
+  }
+};
+
+// Request Types Service
+export const requestTypeService: RequestTypeRepository = {
+  async createRequestType(requestTypeData) {
+    const { data, error } = await getSupabase()
+      .from('request_types')
+      .insert(toRow(requestTypeSchema, requestTypeData))
+      .select('id')
+      .single();
+    if (error) throw error;
+    return data.id as string;
+  },
+
+  async getAllRequestTypes() {
+    const { data, error } = await getSupabase().from('request_types').select('*').order('name');
+    if (error) throw error;
+    return (data || []).map((row) => fromRow(requestTypeSchema, row));
+  }
+};
+
+// Device Categories Service
+export const deviceCategoryService: DeviceCategoryRepository = {
+  async createCategory(categoryData) {
+    const { data, error } = await getSupabase()
+      .from('device_categories')
+      .insert(toRow(deviceCategorySchema, categoryData))
+      .select('id')
+      .single();
+    if (error) throw error;
+    return data.id as string;
+  },
+
+  async getAllCategories() {
+    const { data, error } = await getSupabase().from('device_categories').select('*').order('name');
+    if (error) throw error;
+    return (data || []).map((row) => fromRow(deviceCategorySchema, row));
+  }
+};
+
+// Device Service
+export const deviceService: DeviceRepository = {
+  async createDevice(deviceData) {
+    const { data, error } = await getSupabase()
+      .from('devices')
+      .insert(toRow(deviceSchema, deviceData, ['category']))
+      .select('id')
+      .single();
+    if (error) throw error;
+    return data.id as string;
+  },
+
+  async createDevices(devicesData) {
+    // A multi-row insert is one statement, so the batch lands as a whole
+    const { data, error } = await getSupabase()
+      .from('devices')
+      .insert(devicesData.map((deviceData) => toRow(deviceSchema, deviceData, ['category'])))
+      .select('id');
+    if (error) throw error;
+    return (data || []).map((row) => row.id as string);
+  },
+
+  async getAllDevices() {
+    const { data, error } = await getSupabase()
+      .from('devices')
+      .select('*, device_categories(name)')
+      .order('created_at', { ascending: false });
+    if (error) throw error;
+    return (data || []).map(fromDeviceRow);
+  },
+
+  async updateDevice(deviceId, updates) {
+    const { error } = await getSupabase()
+      .from('devices')
+      .update({ ...toRow(deviceSchema, updates, ['category']), updated_at: new Date().toISOString() })
+      .eq('id', deviceId);
+    if (error) throw error;
+  },
+
+  async recordMaintenance(deviceId, completedDate) {
+    // record_device_maintenance() lets maintenance staff move the dates without devices.manage
+    const { error } = await getSupabase().rpc('record_device_maintenance', {
+      target_device_id: deviceId,
+      completed_on: completedDate,
+    });
+    if (error) throw error;
+  },
+
+  async deleteDevice(deviceId) {
+    const { error } = await getSupabase().from('devices').delete().eq('id', deviceId);
+    if (error) throw error;
+  },
+
+  async getDevicesByCategory(categoryId) {
+    const { data, error } = await getSupabase()
+      .from('devices')
+      .select('*, device_categories(name)')
+      .eq('category_id', categoryId);
+    if (error) throw error;
+    return (data || []).map(fromDeviceRow);
+  },
+
+  subscribeToDevices(onChange, onError) {
+    return subscribeToTable('devices', deviceService.getAllDevices, onChange, onError);
+  }
+};
+
+// Request Service
+export const requestService: RequestRepository = {
+  async createRequest(requestData) {
+    const { data, error } = await getSupabase()
+      .from('requests')
+      .insert({ ...toRow(requestSchema, requestData, ['requestType']), status: 'pending' })
+      .select('id')
+      .single();
+    if (error) throw error;
+    return data.id as string;
+  },
+
+  async getRequest(requestId) {
+    const { data, error } = await getSupabase()
+      .from('requests')
+      .select('*, request_types(name)')
+      .eq('id', requestId)
+      .maybeSingle();
+    if (error) throw error;
+    return data ? fromRequestRow(data) : null;
+  },
+
+  async getAllRequests() {
+    const { data, error } = await getSupabase()
+      .from('requests')
+      .select('*, request_types(name)')
+      .order('created_at', { ascending: false });
+    if (error) throw error;
+    return (data || []).map(fromRequestRow);
+  },
+
+  async getUserRequests(userId) {
+    const { data, error } = await getSupabase()
+      .from('requests')
+      .select('*, request_types(name)')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+    if (error) throw error;
+    return (data || []).map(fromRequestRow);
+  },
+
+  async updateRequest(requestId, updates) {
+    const { error } = await getSupabase()
+      .from('requests')
+      .update({ ...toRow(requestSchema, updates, ['requestType']), updated_at: new Date().toISOString() })
+      .eq('id', requestId);
+    if (error) throw error;
+  },
+
+  async assignRequest(requestId, assignment) {
+    // assign_request() updates the request and writes the history row in one transaction
+    const { error } = await getSupabase().rpc('assign_request', {
+      target_request_id: requestId,
+      to_assignee_id: assignment.toAssigneeId,
+      assignment_method: assignment.method,
+      assignment_reason: assignment.reason,
+      assigned_by_id: assignment.assignedBy,
+    });
+    if (error) throw error;
+  },
+
+  async getAssignmentHistory(requestId) {
+    let q = getSupabase().from('request_assignments').select('*').order('assigned_at', { ascending: false });
+    if (requestId) q = q.eq('request_id', requestId);
+    const { data, error } = await q;
+    if (error) throw error;
+    return (data || []).map((row) => fromRow(requestAssignmentSchema, row));
+  },
+
+  async addActivity(requestId, activity) {
+    const { data, error } = await getSupabase()
+      .from('request_activity')
+      .insert(toRow(requestActivitySchema, { ...activity, requestId }))
+      .select('id')
+      .single();
+    if (error) throw error;
+    return data.id as string;
+  },
+
+  async getActivity(requestId) {
+    const { data, error } = await getSupabase()
+      .from('request_activity')
+      .select('*')
+      .eq('request_id', requestId)
+      .order('created_at');
+    if (error) throw error;
+    return (data || []).map((row) => fromRow(requestActivitySchema, row));
+  },
+
+  subscribeToActivity(requestId, onChange, onError) {
+    return subscribeToTable(
+      'request_activity',
+      () => requestService.getActivity(requestId),
+      onChange,
+      onError,
+      `request_id=eq.${requestId}`
+    );
+  },
+
+  subscribeToRequests(onChange, onError) {
+    return subscribeToTable('requests', requestService.getAllRequests, onChange, onError);
+  },
+
+  subscribeToUserRequests(userId, onChange, onError) {
+    return subscribeToTable(
+      'requests',
+      () => requestService.getUserRequests(userId),
+      onChange,
+      onError,
+      `user_id=eq.${userId}`
+    );
+  }
+};
+
+// Incident Service
+export const incidentService: IncidentRepository = {
+  async createIncident(incidentData) {
+    const { data, error } = await getSupabase()
+      .from('incident_reports')
+      .insert({ ...toRow(incidentSchema, incidentData), status: 'open' })
+      .select('id')
+      .single();
+    if (error) throw error;
+    return data.id as string;
+  },
+
+  async getAllIncidents() {
+    const { data, error } = await getSupabase()
+      .from('incident_reports')
+      .select('*')
+      .order('created_at', { ascending: false });
+    if (error) throw error;
+    return (data || []).map((row) => fromRow(incidentSchema, row));
+  },
+
+  async updateIncident(incidentId, updates) {
+    const { error } = await getSupabase()
+      .from('incident_reports')
+      .update(toRow(incidentSchema, updates))
+      .eq('id', incidentId);
+    if (error) throw error;
+  },
+
+  subscribeToIncidents(onChange, onError) {
+    return subscribeToTable('incident_reports', incidentService.getAllIncidents, onChange, onError);
+  }
+};
+
+// Maintenance Schedule Service
+export const maintenanceService: MaintenanceRepository = {
+  async createSchedule(scheduleData) {
+    const { data, error } = await getSupabase()
+      .from('maintenance_schedules')
+      .insert(toRow(maintenanceScheduleSchema, scheduleData))
+      .select('id')
+      .single();
+    if (error) throw error;
+    return data.id as string;
+  },
+
+  async getAllSchedules() {
+    const { data, error } = await getSupabase()
+      .from('maintenance_schedules')
+      .select('*')
+      .order('scheduled_date', { ascending: false });
+    if (error) throw error;
+    return (data || []).map((row) => fromRow(maintenanceScheduleSchema, row));
+  },
+
+  async updateSchedule(scheduleId, updates) {
+    const { error } = await getSupabase()
+      .from('maintenance_schedules')
+      .update(toRow(maintenanceScheduleSchema, updates))
+      .eq('id', scheduleId);
+    if (error) throw error;
+  },
+
+  subscribeToSchedules(onChange, onError) {
+    return subscribeToTable('maintenance_schedules', maintenanceService.getAllSchedules, onChange, onError);
+  },
+
+  async createPlan(planData) {
+    const { data, error } = await getSupabase()
+      .from('maintenance_plans')
+      .insert(toRow(maintenancePlanSchema, planData))
+      .select('id')
+      .single();
+    if (error) throw error;
+    return data.id as string;
+  },
+
+  async getAllPlans() {
+    const { data, error } = await getSupabase().from('maintenance_plans').select('*').order('name');
+    if (error) throw error;
+    return (data || []).map((row) => fromRow(maintenancePlanSchema, row));
+  },
+
+  async updatePlan(planId, updates) {
+    const { error } = await getSupabase()
+      .from('maintenance_plans')
+      .update(toRow(maintenancePlanSchema, updates))
+      .eq('id', planId);
+    if (error) throw error;
+  },
+
+  async deletePlan(planId) {
+    const { error } = await getSupabase().from('maintenance_plans').delete().eq('id', planId);
+    if (error) throw error;
+  }
+};
+
+// Compliance Record Service
+export const complianceService: ComplianceRepository = {
+  async createRecord(recordData) {
+    const { data, error } = await getSupabase()
+      .from('compliance_records')
+      .insert(toRow(complianceRecordSchema, recordData))
+      .select('id')
+      .single();
+    if (error) throw error;
+    return data.id as string;
+  },
+
+  async getAllRecords() {
+    const { data, error } = await getSupabase()
+      .from('compliance_records')
+      .select('*')
+      .order('expiry_date', { ascending: true });
+    if (error) throw error;
+    return (data || []).map((row) => fromRow(complianceRecordSchema, row));
+  },
+
+  async updateRecord(recordId, updates) {
+    const { error } = await getSupabase()
+      .from('compliance_records')
+      .update(toRow(complianceRecordSchema, updates))
+      .eq('id', recordId);
+    if (error) throw error;
+  },
+
+  async renewRecord(recordId, renewal) {
+    // renew_compliance_record() locks the old record, so it can only be renewed once
+    const { data, error } = await getSupabase().rpc('renew_compliance_record', {
+      record_id: recordId,
+      renewal: toRow(complianceRecordSchema, renewal),
+    });
+    if (error) throw error;
+    return data as string;
+  }
+};
+
+// Equipment Type Service
+export const equipmentTypeService: EquipmentTypeRepository = {
+  async createEquipmentType(equipmentTypeData) {
+    const { data, error } = await getSupabase()
+      .from('equipment_types')
+      .insert(toRow(equipmentTypeSchema, equipmentTypeData))
+      .select('id')
+      .single();
+    if (error) throw error;
+    return data.id as string;
+  },
+
+  async getAllEquipmentTypes() {
+    const { data, error } = await getSupabase().from('equipment_types').select('*').order('name');
+    if (error) throw error;
+    return (data || []).map((row) => fromRow(equipmentTypeSchema, row));
+  },
+
+  async updateEquipmentType(equipmentTypeId, updates) {
+    const { error } = await getSupabase()
+      .from('equipment_types')
+      .update(toRow(equipmentTypeSchema, updates))
+      .eq('id', equipmentTypeId);
+    if (error) throw error;
+  },
+
+  async deleteEquipmentType(equipmentTypeId) {
+    const { error } = await getSupabase().from('equipment_types').delete().eq('id', equipmentTypeId);
+    if (error) throw error;
+  }
+};
+
+// Spare Part Service
+export const sparePartService: SparePartRepository = {
+  async createPart(partData) {
+    const { data, error } = await getSupabase()
+      .from('spare_parts')
+      .insert(toRow(sparePartSchema, partData))
+      .select('id')
+      .single();
+    if (error) throw error;
+    return data.id as string;
+  },
+
+  async getAllParts() {
+    const { data, error } = await getSupabase().from('spare_parts').select('*').order('name');
+    if (error) throw error;
+    return (data || []).map((row) => fromRow(sparePartSchema, row));
+  },
+
+  async updatePart(partId, updates) {
+    const { error } = await getSupabase()
+      .from('spare_parts')
+      .update(toRow(sparePartSchema, updates))
+      .eq('id', partId);
+    if (error) throw error;
+  },
+
+  async deletePart(partId) {
+    const { error } = await getSupabase().from('spare_parts').delete().eq('id', partId);
+    if (error) throw error;
+  },
+
+  async consumeParts(scheduleId, usages) {
+    // consume_spare_parts() locks the work order and the parts, and fails as a whole if any store room is short
+    const { data, error } = await getSupabase().rpc('consume_spare_parts', { work_order_id: scheduleId, usages });
+    if (error) throw error;
+    return data as boolean;
+  }
+};
+
+// Service Contract Service
+export const serviceContractService: ServiceContractRepository = {
+  async createContract(contractData) {
+    const { data, error } = await getSupabase()
+      .from('service_contracts')
+      .insert(toRow(serviceContractSchema, contractData))
+      .select('id')
+      .single();
+    if (error) throw error;
+    return data.id as string;
+  },
+
+  async getAllContracts() {
+    const { data, error } = await getSupabase()
+      .from('service_contracts')
+      .select('*')
+      .order('end_date', { ascending: true });
+    if (error) throw error;
+    return (data || []).map((row) => fromRow(serviceContractSchema, row));
+  },
+
+  async updateContract(contractId, updates) {
+    const { error } = await getSupabase()
+      .from('service_contracts')
+      .update(toRow(serviceContractSchema, updates))
+      .eq('id', contractId);
+    if (error) throw error;
+  },
+
+  async deleteContract(contractId) {
+    const { error } = await getSupabase().from('service_contracts').delete().eq('id', contractId);
+    if (error) throw error;
+  }
+};
+
+// SLA Policy Service
+export const slaPolicyService: SlaPolicyRepository = {
+  async createPolicy(policyData) {
+    const { data, error } = await getSupabase()
+      .from('sla_policies')
+      .insert(toRow(slaPolicySchema, policyData))
+      .select('id')
+      .single();
+    if (error) throw error;
+    return data.id as string;
+  },
+
+  async getAllPolicies() {
+    const { data, error } = await getSupabase().from('sla_policies').select('*').order('resolution_minutes');
+    if (error) throw error;
+    return (data || []).map((row) => fromRow(slaPolicySchema, row));
+  },
+
+  async updatePolicy(policyId, updates) {
+    const { error } = await getSupabase()
+      .from('sla_policies')
+      .update(toRow(slaPolicySchema, updates))
+      .eq('id', policyId);
+    if (error) throw error;
+  },
+
+  async deletePolicy(policyId) {
+    const { error } = await getSupabase().from('sla_policies').delete().eq('id', policyId);
+    if (error) throw error;
+  }
+};
+
+// Escalation Service
+export const escalationService: EscalationRepository = {
+  async createRule(ruleData) {
+    const { data, error } = await getSupabase()
+      .from('escalation_rules')
+      .insert(toRow(escalationRuleSchema, ruleData))
+      .select('id')
+      .single();
+    if (error) throw error;
+    return data.id as string;
+  },
+
+  async getAllRules() {
+    const { data, error } = await getSupabase().from('escalation_rules').select('*').order('threshold_minutes');
+    if (error) throw error;
+    return (data || []).map((row) => fromRow(escalationRuleSchema, row));
+  },
+
+  async updateRule(ruleId, updates) {
+    const { error } = await getSupabase()
+      .from('escalation_rules')
+      .update(toRow(escalationRuleSchema, updates))
+      .eq('id', ruleId);
+    if (error) throw error;
+  },
+
+  async deleteRule(ruleId) {
+    const { error } = await getSupabase().from('escalation_rules').delete().eq('id', ruleId);
+    if (error) throw error;
+  },
+
+  async getAllEvents() {
+    const { data, error } = await getSupabase()
+      .from('escalation_events')
+      .select('*')
+      .order('escalated_at', { ascending: false });
+    if (error) throw error;
+    return (data || []).map((row) => fromRow(escalationEventSchema, row));
+  },
+
+  async recordEvent(eventData) {
+    const { error } = await getSupabase()
+      .from('escalation_events')
+      .insert(toRow(escalationEventSchema, eventData));
+    // unique_violation: another run already recorded this rule for this record
+    if (error?.code === '23505') return false;
+    if (error) throw error;
+    return true;
+  }
+};
+
+// On-Call Service: overrides are removed with their rotation (ON DELETE CASCADE)
+export const onCallService: OnCallRepository = {
+  async createRotation(rotationData) {
+    const { data, error } = await getSupabase()
+      .from('on_call_rotations')
+      .insert(toRow(onCallRotationSchema, rotationData))
+      .select('id')
+      .single();
+    if (error) throw error;
+    return data.id as string;
+  },
+
+  async getAllRotations() {
+    const { data, error } = await getSupabase().from('on_call_rotations').select('*').order('name');
+    if (error) throw error;
+    return (data || []).map((row) => fromRow(onCallRotationSchema, row));
+  },
+
+  async updateRotation(rotationId, updates) {
+    const { error } = await getSupabase()
+      .from('on_call_rotations')
+      .update(toRow(onCallRotationSchema, updates))
+      .eq('id', rotationId);
+    if (error) throw error;
+  },
+
+  async deleteRotation(rotationId) {
+    const { error } = await getSupabase().from('on_call_rotations').delete().eq('id', rotationId);
+    if (error) throw error;
+  },
+
+  async createOverride(overrideData) {
+    const { data, error } = await getSupabase()
+      .from('on_call_overrides')
+      .insert(toRow(onCallOverrideSchema, overrideData))
+      .select('id')
+      .single();
+    if (error) throw error;
+    return data.id as string;
+  },
+
+  async getOverrides(since) {
+    const { data, error } = await getSupabase()
+      .from('on_call_overrides')
+      .select('*')
+      .gt('ends_at', since)
+      .order('ends_at');
+    if (error) throw error;
+    return (data || []).map((row) => fromRow(onCallOverrideSchema, row));
+  },
+
+  async deleteOverride(overrideId) {
+    const { error } = await getSupabase().from('on_call_overrides').delete().eq('id', overrideId);
+    if (error) throw error;
+  }
+};
+
+// Attachment Service: metadata in the attachments table, files in supabaseFileStorage
+export const attachmentService: AttachmentRepository = {
+  async createAttachment(attachmentData) {
+    const { data, error } = await getSupabase()
+      .from('attachments')
+      .insert(toRow(attachmentSchema, attachmentData))
+      .select('id')
+      .single();
+    if (error) throw error;
+    return data.id as string;
+  },
+
+  async getAttachment(attachmentId) {
+    const { data, error } = await getSupabase().from('attachments').select('*').eq('id', attachmentId).maybeSingle();
+    if (error) throw error;
+    return data ? fromRow(attachmentSchema, data) : null;
+  },
+
+  async getAttachments(ownerType, ownerId) {
+    const { data, error } = await getSupabase()
+      .from('attachments')
+      .select('*')
+      .eq('owner_type', ownerType)
+      .eq('owner_id', ownerId)
+      .order('created_at');
+    if (error) throw error;
+    return (data || []).map((row) => fromRow(attachmentSchema, row));
+  },
+
+  async getDeviceAttachments(deviceId) {
+    const { data, error } = await getSupabase()
+      .from('attachments')
+      .select('*')
+      .eq('device_id', deviceId)
+      .order('created_at', { ascending: false });
+    if (error) throw error;
+    return (data || []).map((row) => fromRow(attachmentSchema, row));
+  },
+
+  async deleteAttachment(attachmentId) {
+    const { error } = await getSupabase().from('attachments').delete().eq('id', attachmentId);
+    if (error) throw error;
+  }
+};
+
+// Files in the private `attachments` bucket, handed out as short-lived signed URLs
+const attachmentBucket = () => getSupabase().storage.from('attachments');
+
+export const supabaseFileStorage: FileStorage = {
+  async upload(path, file) {
+    const { error } = await attachmentBucket().upload(path, file, { contentType: file.type || undefined });
+    if (error) throw error;
+  },
+
+  async getUrl(path) {
+    const { data, error } = await attachmentBucket().createSignedUrl(path, 60 * 60);
+    if (error) throw error;
+    return data.signedUrl;
+  },
+
+  async remove(path) {
+    const { error } = await attachmentBucket().remove([path]);
+    if (error) throw error;
+  }
+};
+
+// Notification Service: a unique index on (recipient_id, dedupe_key) stops
+// repeated checks sending the same notification twice
+export const notificationService: NotificationRepository = {
+  async createNotification(notificationData) {
+    const { error } = await getSupabase()
+      .from('notifications')
+      .insert(toRow(userNotificationSchema, notificationData));
+    // unique_violation: the recipient already has this notification
+    if (error?.code === '23505') return false;
+    if (error) throw error;
+    return true;
+  },
+
+  async notifyRoles(roles, notificationData) {
+    // notify_roles() runs with definer rights: most users cannot read other profiles
+    const { data, error } = await getSupabase().rpc('notify_roles', {
+      recipient_roles: roles,
+      notification_kind: notificationData.kind,
+      notification_title: notificationData.title,
+      notification_body: notificationData.body,
+      notification_target_type: notificationData.targetType,
+      notification_target_id: notificationData.targetId,
+      notification_dedupe_key: notificationData.dedupeKey,
+    });
+    if (error) throw error;
+    return (data as number | null) ?? 0;
+  },
+
+  async getNotifications(recipientId) {
+    const { data, error } = await getSupabase()
+      .from('notifications')
+      .select('*')
+      .eq('recipient_id', recipientId)
+      .order('created_at', { ascending: false })
+      .limit(NOTIFICATION_LIMIT);
+    if (error) throw error;
+    return (data || []).map((row) => fromRow(userNotificationSchema, row));
+  },
+
+  async markRead(recipientId, notificationIds) {
+    const { error } = await getSupabase()
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('recipient_id', recipientId)
+      .in('id', notificationIds);
+    if (error) throw error;
+  },
+
+  async markAllRead(recipientId) {
+    const { error } = await getSupabase()
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('recipient_id', recipientId)
+      .is('read_at', null);
+    if (error) throw error;
+  },
+
+  subscribeToNotifications(recipientId, onChange, onError) {
+    return subscribeToTable(
+      'notifications',
+      () => notificationService.getNotifications(recipientId),
+      onChange,
+      onError,
+      `recipient_id=eq.${recipientId}`
+    );
+  }
+};
+
+// Outbox Service: anyone signed in may queue a message but only IT staff can
+// read the outbox back, so the id is made here rather than selected after insert
+export const outboxService: OutboxRepository = {
+  async enqueueMessage(messageData) {
+    const id = crypto.randomUUID();
+    const { error } = await getSupabase()
+      .from('outbox')
+      .insert({ ...toRow(outboxMessageSchema, newOutboxMessage(messageData)), id });
+    if (error) throw error;
+    return id;
+  },
+
+  async getMessages() {
+    const { data, error } = await getSupabase()
+      .from('outbox')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(OUTBOX_LIMIT);
+    if (error) throw error;
+    return (data || []).map((row) => fromRow(outboxMessageSchema, row));
+  },
+
+  async getDueMessages(now) {
+    const { data, error } = await getSupabase()
+      .from('outbox')
+      .select('*')
+      .in('status', ['pending', 'sending'])
+      .lte('next_attempt_at', now)
+      .order('next_attempt_at');
+    if (error) throw error;
+    return (data || []).map((row) => fromRow(outboxMessageSchema, row));
+  },
+
+  // A conditional update: only one dispatcher sees the row come back
+  async claimMessage(messageId, now, leaseUntil) {
+    const { data, error } = await getSupabase()
+      .from('outbox')
+      .update({ status: 'sending', next_attempt_at: leaseUntil })
+      .eq('id', messageId)
+      .in('status', ['pending', 'sending'])
+      .lte('next_attempt_at', now)
+      .select('id');
+    if (error) throw error;
+    return (data || []).length > 0;
+  },
+
+  async updateMessage(messageId, updates) {
+    const { error } = await getSupabase()
+      .from('outbox')
+      .update(toRow(outboxMessageSchema, updates))
+      .eq('id', messageId);
+    if (error) throw error;
+  }
+};
+
+// Audit Log Service: RLS only allows inserting and reading audit_log rows
+export const auditLogService: AuditLogRepository = {
+  async recordEntry(entryData) {
+    const { error } = await getSupabase().from('audit_log').insert(toRow(auditEntrySchema, entryData));
+    if (error) throw error;
+  },
+
+  async getEntries(filter = {}) {
+    const { entityType, entityId, actorId, from, to } = filter;
+    let q = getSupabase()
+      .from('audit_log')
+      .select('*')
+      .order('timestamp', { ascending: false })
+      .limit(AUDIT_LOG_LIMIT);
+    if (entityType) q = q.eq('entity_type', entityType);
+    if (entityId) q = q.eq('entity_id', entityId);
+    if (actorId) q = q.eq('actor_id', actorId);
+    if (from) q = q.gte('timestamp', from);
+    if (to) q = q.lte('timestamp', to);
+    const { data, error } = await q;
+    if (error) throw error;
+    return (data || []).map((row) => fromRow(auditEntrySchema, row));
+  },
+
+  async getHistory(entityType, entityId) {
+    // The API caps each response, so read page by page until a short page or
+    // one row past the limit, which tells whether anything was left out
+    const entries: AuditEntry[] = [];
+    while (entries.length <= AUDIT_HISTORY_LIMIT) {
+      const end = Math.min(entries.length + AUDIT_HISTORY_PAGE_SIZE, AUDIT_HISTORY_LIMIT + 1);
+      const { data, error } = await getSupabase()
+        .from('audit_log')
+        .select('*')
+        .eq('entity_type', entityType)
+        .eq('entity_id', entityId)
+        .order('timestamp', { ascending: false })
+        .order('id')
+        .range(entries.length, end - 1);
+      if (error) throw error;
+      const page = (data || []).map((row) => fromRow(auditEntrySchema, row));
+      entries.push(...page);
+      if (entries.length < end) break;
+    }
+    return { entries: entries.slice(0, AUDIT_HISTORY_LIMIT), truncated: entries.length > AUDIT_HISTORY_LIMIT };
+  }
+};
+
+// System Config Service: a single-row table written by the complete_setup() function
+export const systemConfigService: SystemConfigRepository = {
+  async getConfig() {
+    const { data, error } = await getSupabase().from('system_config').select('*').maybeSingle();
+    if (error) throw error;
+    return data ? fromRow(systemConfigSchema, data) : null;
+  },
+
+  async completeSetup({ organizationName, adminUserId }) {
+    // The function refuses to run a second time, so only the first admin is ever promoted
+    const { error } = await getSupabase().rpc('complete_setup', {
+      organization_name: organizationName,
+      admin_profile_id: adminUserId,
+    });
+    if (error) throw error;
+  },
+
+  async seedSampleData() {
+    const [departments, categories, requestTypes, equipmentTypes, spareParts, devices, slaPolicies, escalationRules] = await Promise.all([
+      departmentService.getAllDepartments(),
+      deviceCategoryService.getAllCategories(),
+      requestTypeService.getAllRequestTypes(),
+      equipmentTypeService.getAllEquipmentTypes(),
+      sparePartService.getAllParts(),
+      deviceService.getAllDevices(),
+      slaPolicyService.getAllPolicies(),
+      escalationService.getAllRules(),
+    ]);
+    const missing = missingSampleData({
+      departments: departments.map((department) => department.name),
+      categories: categories.map((category) => category.name),
+      requestTypes: requestTypes.map((requestType) => requestType.name),
+      equipmentTypes: equipmentTypes.map((equipmentType) => equipmentType.name),
+      partNumbers: spareParts.map((part) => part.partNumber),
+      serialNumbers: devices.map((device) => device.serialNumber ?? ''),
+      slaPolicies: slaPolicies.map((policy) => policy.name),
+      escalationRules: escalationRules.map((rule) => rule.name),
+    });
+
+    const insertAll = async (table: string, rows: Row[]) => {
+      if (rows.length === 0) return;
+      const { error } = await getSupabase().from(table).insert(rows);
+      if (error) throw error;
+    };
+
+    await insertAll('departments', missing.departments.map((department) => toRow(departmentSchema, department)));
+    await insertAll('device_categories', missing.categories.map((category) => toRow(deviceCategorySchema, category)));
+    await insertAll('request_types', missing.requestTypes.map((requestType) => toRow(requestTypeSchema, requestType)));
+    await insertAll('equipment_types', missing.equipmentTypes.map((equipmentType) => toRow(equipmentTypeSchema, equipmentType)));
+    await insertAll('sla_policies', missing.slaPolicies.map((policy) => toRow(slaPolicySchema, policy)));
+    await insertAll('escalation_rules', missing.escalationRules.map((rule) => toRow(escalationRuleSchema, rule)));
+
+    // Devices reference their category by id, including categories inserted just above
+    const categoryIds = new Map((await deviceCategoryService.getAllCategories()).map((category) => [category.name, category.id]));
+    await insertAll('devices', missing.devices.map((device) => ({
+      ...toRow(deviceSchema, device, ['category']),
+      category_id: categoryIds.get(device.category ?? '') ?? null,
+    })));
+
+    // Parts list the equipment they fit by id, likewise
+    const equipmentTypeIds = new Map(
+      (await equipmentTypeService.getAllEquipmentTypes()).map((equipmentType) => [equipmentType.name, equipmentType.id])
+    );
+    await insertAll('spare_parts', missing.spareParts.map(({ compatibleEquipmentTypes, ...part }) =>
+      toRow(sparePartSchema, {
+        ...part,
+        compatibleEquipmentTypeIds: compatibleEquipmentTypes.flatMap((name) => equipmentTypeIds.get(name) ?? []),
+      })
+    ));
+
+    const { error } = await getSupabase()
+      .from('system_config')
+      .update({ sample_data_seeded_at: new Date().toISOString() })
+      .eq('id', 'config');
+    if (error) throw error;
+  }
+};
+
+export const supabaseRepository: DataRepository = {
+  profileService,
+  departmentService,
+  requestTypeService,
+  deviceCategoryService,
+  deviceService,
+  requestService,
+  incidentService,
+  maintenanceService,
+  complianceService,
+  equipmentTypeService,
+  sparePartService,
+  serviceContractService,
+  slaPolicyService,
+  escalationService,
+  onCallService,
+  attachmentService,
+  notificationService,
+  outboxService,
+  auditLogService,
+  systemConfigService,
+};
@@ -0,0 +1,628 @@
+// Shared domain models used by every data backend.
+// Field names are camelCase; adapters translate to and from their storage format
+// (Firestore documents or the snake_case Supabase tables described in lib/supabase.ts).
+// Timestamps are always ISO 8601 strings once they leave an adapter.
+
+// What each role may do is defined in utils/permissions.ts
+export const userRoles = ['admin', 'technician', 'department_head', 'auditor', 'user'] as const;
+export type UserRole = typeof userRoles[number];
+
+export const deviceStatuses = ['active', 'faulty', 'maintenance', 'retired'] as const;
+export type DeviceStatus = typeof deviceStatuses[number];
+
+export const requestStatuses = ['pending', 'in_progress', 'completed', 'rejected'] as const;
+export type RequestStatus = typeof requestStatuses[number];
+
+export const urgencyLevels = ['routine', 'urgent', 'emergency', 'critical'] as const;
+export type UrgencyLevel = typeof urgencyLevels[number];
+
+export const incidentStatuses = ['open', 'investigating', 'resolved', 'closed'] as const;
+export type IncidentStatus = typeof incidentStatuses[number];
+
+export const incidentSeverities = ['low', 'medium', 'high', 'critical'] as const;
+export type IncidentSeverity = typeof incidentSeverities[number];
+
+export const maintenanceTypes = ['preventive', 'corrective', 'emergency'] as const;
+export type MaintenanceType = typeof maintenanceTypes[number];
+
+export const maintenanceStatuses = ['scheduled', 'in_progress', 'completed', 'cancelled'] as const;
+export type MaintenanceStatus = typeof maintenanceStatuses[number];
+
+// How a maintenance plan repeats; see utils/maintenancePlans.ts
+export const planRecurrences = ['interval', 'calendar', 'meter'] as const;
+export type PlanRecurrence = typeof planRecurrences[number];
+
+// A checklist step is either ticked off or a reading checked against a tolerance
+export const checklistItemKinds = ['check', 'reading'] as const;
+export type ChecklistItemKind = typeof checklistItemKinds[number];
+
+// 'superseded' records have been renewed; they stay on file as history
+export const complianceStatuses = ['valid', 'pending_renewal', 'expired', 'superseded'] as const;
+export type ComplianceStatus = typeof complianceStatuses[number];
+
+export const requestPriorities = ['low', 'medium', 'high', 'urgent'] as const;
+export type RequestPriority = typeof requestPriorities[number];
+
+export const assignmentMethods = ['manual', 'round_robin', 'skill', 'on_call', 'escalation'] as const;
+export type AssignmentMethod = typeof assignmentMethods[number];
+
+export const attachmentOwnerTypes = ['request', 'incident', 'device'] as const;
+export type AttachmentOwnerType = typeof attachmentOwnerTypes[number];
+
+export const deliveryChannels = ['email', 'sms'] as const;
+export type DeliveryChannel = typeof deliveryChannels[number];
+
+export const messageTemplates = ['emergencyRequest', 'criticalIncident', 'requestReceived'] as const;
+export type MessageTemplate = typeof messageTemplates[number];
+
+// 'sending' is a claim with a lease: a dispatcher that dies mid-send leaves the
+// message to be picked up again once nextAttemptAt passes
+export const outboxStatuses = ['pending', 'sending', 'sent', 'failed'] as const;
+export type OutboxStatus = typeof outboxStatuses[number];
+
+export const notificationKinds = [
+  'requestStatus',
+  'emergencyRequest',
+  'incidentAssigned',
+  'maintenanceOverdue',
+  'complianceExpiring',
+] as const;
+export type NotificationKind = typeof notificationKinds[number];
+
+export const notificationTargets = ['request', 'incident', 'maintenance', 'compliance'] as const;
+export type NotificationTarget = typeof notificationTargets[number];
+
+// Comments are posted by people; the other kinds are written by the service layer
+export const requestActivityKinds = ['comment', 'status', 'assignment', 'escalation'] as const;
+export type RequestActivityKind = typeof requestActivityKinds[number];
+
+export const auditActions = ['create', 'update', 'delete'] as const;
+export type AuditAction = typeof auditActions[number];
+
+export const auditEntityTypes = [
+  'profile',
+  'department',
+  'requestType',
+  'deviceCategory',
+  'device',
+  'request',
+  'incident',
+  'maintenanceSchedule',
+  'maintenancePlan',
+  'complianceRecord',
+  'equipmentType',
+  'sparePart',
+  'serviceContract',
+  'slaPolicy',
+  'escalationRule',
+  'onCallRotation',
+  'onCallOverride',
+  'attachment',
+  'systemConfig',
+] as const;
+export type AuditEntityType = typeof auditEntityTypes[number];
+
+export const escalationTargets = ['request', 'incident'] as const;
+export type EscalationTarget = typeof escalationTargets[number];
+
+export const contractStatuses = ['active', 'expired', 'terminated'] as const;
+export type ContractStatus = typeof contractStatuses[number];
+
+export interface Profile {
+  id: string;
+  email: string;
+  fullName: string;
+  role: UserRole;
+  department: string | null;
+  departmentId: string | null;
+  // Technicians only: request types they are skilled in and departments they
+  // cover, used by skill-based assignment (utils/assignment.ts)
+  skills: string[];
+  coveredDepartmentIds: string[];
+  // Email and SMS delivery (services/outboxDispatcher.ts)
+  phone: string | null;
+  notificationChannels: DeliveryChannel[];
+  // Local 'HH:mm'; routine messages wait until quiet hours end, urgent pages do not
+  quietHoursStart: string | null;
+  quietHoursEnd: string | null;
+  createdAt: string | null;
+  updatedAt: string | null;
+}
+
+export interface Department {
+  id: string;
+  name: string;
+  code: string;
+  description: string | null;
+  headOfDepartment: string | null;
+  contactNumber: string | null;
+  location: string | null;
+  isCritical: boolean;
+  createdAt: string | null;
+}
+
+export interface RequestType {
+  id: string;
+  name: string;
+  description: string | null;
+}
+
+export interface DeviceCategory {
+  id: string;
+  name: string;
+  description: string | null;
+}
+
+export interface Device {
+  id: string;
+  name: string;
+  model: string | null;
+  serialNumber: string | null;
+  status: DeviceStatus;
+  categoryId: string | null;
+  category: string | null;
+  equipmentTypeId: string | null;
+  assignedTo: string | null;
+  location: string | null;
+  isCritical: boolean;
+  lastMaintenanceDate: string | null;
+  nextMaintenanceDate: string | null;
+  complianceStatus: string;
+  purchaseDate: string | null;
+  warrantyDate: string | null;
+  notes: string | null;
+  createdAt: string | null;
+  updatedAt: string | null;
+}
+
+export interface Request {
+  id: string;
+  userId: string;
+  requestTypeId: string | null;
+  requestType: string | null;
+  departmentId: string | null;
+  deviceId: string | null;
+  title: string;
+  description: string;
+  priority: string;
+  urgencyLevel: UrgencyLevel;
+  patientImpact: boolean;
+  estimatedDowntime: string | null;
+  status: RequestStatus;
+  assignedAdminId: string | null;
+  resolutionNotes: string | null;
+  // Set when a department head signs the request off
+  approvedBy: string | null;
+  approvedAt: string | null;
+  // SLA targets fixed when the request is created (see utils/sla.ts)
+  slaPolicyId: string | null;
+  responseDueAt: string | null;
+  resolutionDueAt: string | null;
+  // First time the request left 'pending'
+  respondedAt: string | null;
+  createdAt: string | null;
+  updatedAt: string | null;
+  completedAt: string | null;
+}
+
+export interface Incident {
+  id: string;
+  deviceId: string | null;
+  reportedBy: string;
+  incidentType: string;
+  severity: IncidentSeverity;
+  description: string;
+  impactAssessment: string | null;
+  immediateActionTaken: string | null;
+  rootCause: string | null;
+  correctiveAction: string | null;
+  status: IncidentStatus;
+  assignedTo: string | null;
+  occurredAt: string;
+  resolvedAt: string | null;
+  createdAt: string | null;
+}
+
+export interface MaintenanceSchedule {
+  id: string;
+  deviceId: string;
+  maintenanceType: MaintenanceType;
+  scheduledDate: string;
+  completedDate: string | null;
+  technicianId: string | null;
+  notes: string | null;
+  cost: number | null;
+  status: MaintenanceStatus;
+  // Set on entries generated from a maintenance plan
+  planId: string | null;
+  // Moved to another date by hand; plan syncs leave the date alone
+  manuallyScheduled: boolean;
+  // Set on renewal tasks raised for an expiring compliance certificate
+  complianceRecordId: string | null;
+  // Work order: filled in while the visit is in progress
+  checklist: ChecklistResult[];
+  partsUsed: PartUsage[];
+  labourHours: number | null;
+  signedOffBy: string | null;
+  signedOffAt: string | null;
+  // When partsUsed was taken out of stock; consumeParts only does it once
+  partsConsumedAt: string | null;
+  createdAt: string | null;
+}
+
+// One step of an equipment type's maintenance checklist. A reading passes
+// when the measured value is within min..max (either bound may be open).
+export interface ChecklistItem {
+  id: string;
+  label: string;
+  kind: ChecklistItemKind;
+  required: boolean;
+  unit: string | null;
+  min: number | null;
+  max: number | null;
+}
+
+// A checklist step as recorded on a work order. The item is copied in when
+// the visit starts, so later template edits don't rewrite finished work.
+export interface ChecklistResult extends ChecklistItem {
+  done: boolean;
+  value: number | null;
+}
+
+// Parts taken from the inventory carry partId and storeRoom and are booked out
+// of stock when the visit is signed off; others are bought in and only recorded
+export interface PartUsage {
+  partId: string | null;
+  storeRoom: string | null;
+  partNumber: string | null;
+  description: string;
+  quantity: number;
+  unitCost: number | null;
+}
+
+export interface StockLevel {
+  storeRoom: string;
+  quantity: number;
+}
+
+export interface SparePart {
+  id: string;
+  partNumber: string;
+  name: string;
+  description: string | null;
+  compatibleEquipmentTypeIds: string[];
+  stockLevels: StockLevel[];
+  // Reorder once the stock across all store rooms falls to this
+  reorderPoint: number;
+  unitCost: number | null;
+  createdAt: string | null;
+}
+
+// Recurring maintenance for one device, or for every device of an equipment
+// type. Schedule entries are generated from it PLAN_HORIZON_DAYS ahead and
+// roll forward each time one is completed.
+export interface MaintenancePlan {
+  id: string;
+  name: string;
+  deviceId: string | null;
+  equipmentTypeId: string | null;
+  maintenanceType: MaintenanceType;
+  recurrence: PlanRecurrence;
+  // First due date; calendar plans keep its day of the month
+  startDate: string;
+  // interval: days from one completion to the next visit
+  intervalDays: number | null;
+  // calendar: months between fixed visits, e.g. 3 for quarterly
+  intervalMonths: number | null;
+  // meter: every meterInterval units (running hours, cycles...) at dailyUsage units a day
+  meterUnit: string | null;
+  meterInterval: number | null;
+  dailyUsage: number | null;
+  technicianId: string | null;
+  estimatedCost: number | null;
+  notes: string | null;
+  isActive: boolean;
+  createdAt: string | null;
+}
+
+export interface ComplianceRecord {
+  id: string;
+  deviceId: string;
+  complianceType: string;
+  certificateNumber: string | null;
+  issueDate: string | null;
+  expiryDate: string | null;
+  status: ComplianceStatus;
+  auditorName: string | null;
+  notes: string | null;
+  // Days before expiry at which reminders go out; the largest also opens the
+  // renewal window and raises a renewal task
+  reminderDays: number[];
+  // Renewal chain: the certificate this one replaced, and the one that replaced it
+  renewedFrom: string | null;
+  supersededBy: string | null;
+  createdAt: string | null;
+}
+
+export interface EquipmentType {
+  id: string;
+  name: string;
+  description: string | null;
+  isMedicalDevice: boolean;
+  requiresCertification: boolean;
+  maintenanceIntervalDays: number;
+  checklist: ChecklistItem[];
+  createdAt: string | null;
+}
+
+export interface ServiceContract {
+  id: string;
+  vendorName: string;
+  contractNumber: string;
+  // A contract covers every device of this equipment type...
+  equipmentTypeId: string | null;
+  // ...plus any devices linked to it individually
+  deviceIds: string[];
+  startDate: string;
+  endDate: string;
+  contractValue: number | null;
+  contactPerson: string | null;
+  contactEmail: string | null;
+  contactPhone: string | null;
+  serviceLevelAgreement: string | null;
+  status: ContractStatus;
+  createdAt: string | null;
+}
+
+// Response/resolution targets for requests. Null criteria match anything; the
+// most specific active policy wins.
+export interface SlaPolicy {
+  id: string;
+  name: string;
+  priority: string | null;
+  urgencyLevel: UrgencyLevel | null;
+  requestTypeId: string | null;
+  responseMinutes: number;
+  resolutionMinutes: number;
+  isActive: boolean;
+  createdAt: string | null;
+}
+
+// History entry written every time a request is assigned or reassigned
+export interface RequestAssignment {
+  id: string;
+  requestId: string;
+  fromAssigneeId: string | null;
+  toAssigneeId: string;
+  method: AssignmentMethod;
+  // Required when taking a request away from someone
+  reason: string | null;
+  assignedBy: string;
+  assignedAt: string;
+}
+
+// One entry in a request's timeline: a comment, or a status change,
+// assignment or escalation recorded when it happened
+export interface RequestActivity {
+  id: string;
+  requestId: string;
+  kind: RequestActivityKind;
+  // Profile id; null for entries the system writes on its own
+  authorId: string | null;
+  body: string;
+  // Internal notes are only shown to IT staff, never to the requester
+  isInternal: boolean;
+  createdAt: string | null;
+}
+
+// A file uploaded against a request, an incident or a device. The bytes live
+// in the file storage adapter under storagePath; this is the metadata.
+export interface Attachment {
+  id: string;
+  ownerType: AttachmentOwnerType;
+  ownerId: string;
+  // The device the owner concerns, so a device's history can list every file about it
+  deviceId: string | null;
+  fileName: string;
+  contentType: string;
+  // Bytes
+  size: number;
+  storagePath: string;
+  // Small JPEG preview, for images only
+  thumbnailPath: string | null;
+  uploadedBy: string;
+  createdAt: string | null;
+}
+
+// A message in one user's notification center
+export interface UserNotification {
+  id: string;
+  recipientId: string;
+  kind: NotificationKind;
+  title: string;
+  body: string;
+  // The record it is about, so the bell menu can open it
+  targetType: NotificationTarget;
+  targetId: string;
+  // Notifications from periodic checks carry a key so each one is only sent once per recipient
+  dedupeKey: string | null;
+  readAt: string | null;
+  createdAt: string | null;
+}
+
+// An email/SMS waiting to be delivered. Recipients are resolved when it is
+// sent, so a requester can page IT staff whose contact details they cannot read.
+export interface OutboxMessage {
+  id: string;
+  template: MessageTemplate;
+  // A single profile, or everyone holding one of recipientRoles
+  recipientId: string | null;
+  recipientRoles: UserRole[];
+  // Values for the template's {{placeholders}}
+  variables: Record<string, string>;
+  status: OutboxStatus;
+  attempts: number;
+  nextAttemptAt: string;
+  lastError: string | null;
+  // 'recipientId:channel' keys already delivered, so a retry skips them
+  deliveredTo: string[];
+  sentAt: string | null;
+  createdAt: string | null;
+}
+
+// Escalates requests still 'pending' (incidents still 'open') once they are
+// older than the threshold. Each rule fires at most once per record, so a
+// ladder of rules with growing thresholds escalates step by step.
+export interface EscalationRule {
+  id: string;
+  name: string;
+  appliesTo: EscalationTarget;
+  thresholdMinutes: number;
+  // Request priority or incident severity to raise to; never lowers it
+  raisePriorityTo: string | null;
+  // Hand the record to whoever is on call (see utils/onCall.ts)
+  reassignToOnCall: boolean;
+  // Technician the record is reassigned to; with reassignToOnCall, only when nobody is on call
+  reassignToId: string | null;
+  isActive: boolean;
+  createdAt: string | null;
+}
+
+// History entry written every time a rule escalates a record
+export interface EscalationEvent {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  targetType: EscalationTarget;
+  targetId: string;
+  targetTitle: string;
+  previousPriority: string;
+  newPriority: string;
+  previousAssigneeId: string | null;
+  newAssigneeId: string | null;
+  escalatedAt: string;
+}
+
+// Weekly (or longer) shifts handed from one member to the next in order. The
+// first shift starts at startsAt, which also fixes the handoff day and time.
+export interface OnCallRotation {
+  id: string;
+  name: string;
+  memberIds: string[];
+  startsAt: string;
+  shiftDays: number;
+  // Request types routed to this rotation; empty covers every type
+  requestTypeIds: string[];
+  isActive: boolean;
+  createdAt: string | null;
+}
+
+// Someone covering part of a rotation instead of the scheduled member
+export interface OnCallOverride {
+  id: string;
+  rotationId: string;
+  profileId: string;
+  startsAt: string;
+  endsAt: string;
+  reason: string | null;
+  createdBy: string;
+  createdAt: string | null;
+}
+
+export interface AuditFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+// Append-only record of one create/update/delete, written by the service
+// layer (services/auditLog.ts) whatever the backend
+export interface AuditEntry {
+  id: string;
+  entityType: AuditEntityType;
+  entityId: string;
+  // Readable name of the record when it was changed (device name, request title...)
+  entityLabel: string;
+  action: AuditAction;
+  // Profile id; null for changes made before anyone is signed in, e.g. first-run setup
+  actorId: string | null;
+  changes: AuditFieldChange[];
+  timestamp: string;
+}
+
+// Singleton written by the first-run setup wizard; until it exists the app
+// shows the wizard instead of the login page
+export interface SystemConfig {
+  id: string;
+  organizationName: string;
+  // Profile id of the first administrator
+  setupCompletedBy: string;
+  setupCompletedAt: string | null;
+  // Set once the optional sample hospital has been loaded
+  sampleDataSeededAt: string | null;
+}
+
+// Input shapes: what callers supply when creating a record. Ids, audit
+// timestamps and server-controlled defaults are filled in by the adapter.
+export type ProfileInput = Partial<Omit<Profile, 'id' | 'createdAt' | 'updatedAt'>>;
+export type NotificationPreferencesInput = Pick<Profile, 'phone' | 'notificationChannels' | 'quietHoursStart' | 'quietHoursEnd'>;
+export type DepartmentInput = Pick<Department, 'name' | 'code'> & Partial<Omit<Department, 'id' | 'name' | 'code' | 'createdAt'>>;
+export type DeviceInput = Partial<Omit<Device, 'id' | 'name' | 'createdAt' | 'updatedAt'>> & Pick<Device, 'name'>;
+export type RequestInput = Pick<Request, 'userId' | 'title' | 'description'> &
+  Partial<Omit<Request, 'id' | 'userId' | 'title' | 'description' | 'status' | 'createdAt' | 'updatedAt' | 'completedAt'>>;
+export type IncidentInput = Pick<Incident, 'reportedBy' | 'incidentType' | 'severity' | 'description' | 'occurredAt'> &
+  Partial<Pick<Incident, 'deviceId' | 'impactAssessment' | 'immediateActionTaken'>>;
+export type MaintenanceScheduleInput = Pick<MaintenanceSchedule, 'deviceId' | 'maintenanceType' | 'scheduledDate'> &
+  Partial<Omit<MaintenanceSchedule, 'id' | 'deviceId' | 'maintenanceType' | 'scheduledDate' | 'createdAt'>>;
+export type MaintenancePlanInput = Omit<MaintenancePlan, 'id' | 'createdAt'>;
+export type ComplianceRecordInput = Omit<ComplianceRecord, 'id' | 'reminderDays' | 'renewedFrom' | 'supersededBy' | 'createdAt'> &
+  Partial<Pick<ComplianceRecord, 'reminderDays' | 'renewedFrom' | 'supersededBy'>>;
+export type EquipmentTypeInput = Pick<EquipmentType, 'name'> & Partial<Omit<EquipmentType, 'id' | 'name' | 'createdAt'>>;
+export type SparePartInput = Omit<SparePart, 'id' | 'createdAt'>;
+export type ServiceContractInput = Omit<ServiceContract, 'id' | 'createdAt'>;
+export type SlaPolicyInput = Omit<SlaPolicy, 'id' | 'createdAt'>;
+export type AuditEntryInput = Omit<AuditEntry, 'id'>;
+export type AttachmentInput = Omit<Attachment, 'id' | 'createdAt'>;
+export type OutboxMessageInput = Pick<OutboxMessage, 'template' | 'recipientId' | 'recipientRoles' | 'variables'>;
+export type UserNotificationInput = Omit<UserNotification, 'id' | 'readAt' | 'createdAt'>;
+export type RequestActivityInput = Pick<RequestActivity, 'kind' | 'authorId' | 'body' | 'isInternal'>;
+export type RequestAssignmentInput = Pick<RequestAssignment, 'toAssigneeId' | 'method' | 'reason' | 'assignedBy'>;
+export type EscalationRuleInput = Omit<EscalationRule, 'id' | 'createdAt'>;
+export type EscalationEventInput = Omit<EscalationEvent, 'id'>;
+export type OnCallRotationInput = Omit<OnCallRotation, 'id' | 'createdAt'>;
+export type OnCallOverrideInput = Omit<OnCallOverride, 'id' | 'createdAt'>;
+
+// One line of a work order's parts, as taken out of stock
+export interface PartConsumption {
+  partId: string;
+  storeRoom: string;
+  quantity: number;
+}
+
+export interface NewUserInput {
+  email: string;
+  password: string;
+  fullName: string;
+  role: UserRole;
+  department: string;
+}
+
+export interface AuditLogFilter {
+  entityType?: AuditEntityType;
+  entityId?: string;
+  actorId?: string;
+  // Inclusive ISO timestamps
+  from?: string;
+  to?: string;
+}
+
+// One record's changes, newest first; `truncated` when older ones were left out
+export interface AuditHistory {
+  entries: AuditEntry[];
+  truncated: boolean;
+}
+
+export interface SetupInput {
+  organizationName: string;
+  adminUserId: string;
+}
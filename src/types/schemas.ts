@@ -0,0 +1,377 @@
+import {
+  assignmentMethods,
+  attachmentOwnerTypes,
+  auditActions,
+  auditEntityTypes,
+  complianceStatuses,
+  contractStatuses,
+  deviceStatuses,
+  escalationTargets,
+  incidentSeverities,
+  incidentStatuses,
+  maintenanceStatuses,
+  maintenanceTypes,
+  messageTemplates,
+  notificationKinds,
+  notificationTargets,
+  outboxStatuses,
+  planRecurrences,
+  requestActivityKinds,
+  requestStatuses,
+  urgencyLevels,
+  userRoles,
+} from './models';
+import type {
+  Attachment,
+  AuditEntry,
+  ComplianceRecord,
+  Department,
+  Device,
+  DeviceCategory,
+  EquipmentType,
+  EscalationEvent,
+  EscalationRule,
+  Incident,
+  MaintenancePlan,
+  MaintenanceSchedule,
+  OnCallOverride,
+  OnCallRotation,
+  OutboxMessage,
+  Profile,
+  Request,
+  RequestActivity,
+  RequestAssignment,
+  RequestType,
+  ServiceContract,
+  SlaPolicy,
+  SparePart,
+  SystemConfig,
+  UserNotification,
+} from './models';
+import { defineSchema, oneOf, optional, required } from './validation';
+
+// Runtime schemas for the models in models.ts; the field lists must match the
+// interfaces exactly (the compiler enforces it through ModelSchema).
+
+export const profileSchema = defineSchema<Profile>('Profile', {
+  email: optional('string', ''),
+  fullName: required('string'),
+  role: oneOf(userRoles, 'user'),
+  department: optional('string'),
+  departmentId: optional('string'),
+  skills: optional('string[]', []),
+  coveredDepartmentIds: optional('string[]', []),
+  phone: optional('string'),
+  notificationChannels: optional('string[]', ['email']),
+  quietHoursStart: optional('string'),
+  quietHoursEnd: optional('string'),
+  createdAt: optional('timestamp'),
+  updatedAt: optional('timestamp'),
+});
+
+export const departmentSchema = defineSchema<Department>('Department', {
+  name: required('string'),
+  code: required('string'),
+  description: optional('string'),
+  headOfDepartment: optional('string'),
+  contactNumber: optional('string'),
+  location: optional('string'),
+  isCritical: optional('boolean', false),
+  createdAt: optional('timestamp'),
+});
+
+export const requestTypeSchema = defineSchema<RequestType>('RequestType', {
+  name: required('string'),
+  description: optional('string'),
+});
+
+export const deviceCategorySchema = defineSchema<DeviceCategory>('DeviceCategory', {
+  name: required('string'),
+  description: optional('string'),
+});
+
+export const deviceSchema = defineSchema<Device>('Device', {
+  name: required('string'),
+  model: optional('string'),
+  serialNumber: optional('string'),
+  status: oneOf(deviceStatuses),
+  categoryId: optional('string'),
+  category: optional('string'),
+  equipmentTypeId: optional('string'),
+  assignedTo: optional('string'),
+  location: optional('string'),
+  isCritical: optional('boolean', false),
+  lastMaintenanceDate: optional('timestamp'),
+  nextMaintenanceDate: optional('timestamp'),
+  complianceStatus: optional('string', 'compliant'),
+  purchaseDate: optional('timestamp'),
+  warrantyDate: optional('timestamp'),
+  notes: optional('string'),
+  createdAt: optional('timestamp'),
+  updatedAt: optional('timestamp'),
+});
+
+export const requestSchema = defineSchema<Request>('Request', {
+  userId: required('string'),
+  requestTypeId: optional('string'),
+  requestType: optional('string'),
+  departmentId: optional('string'),
+  deviceId: optional('string'),
+  title: required('string'),
+  description: required('string'),
+  priority: optional('string', 'medium'),
+  urgencyLevel: oneOf(urgencyLevels, 'routine'),
+  patientImpact: optional('boolean', false),
+  estimatedDowntime: optional('string'),
+  status: oneOf(requestStatuses),
+  assignedAdminId: optional('string'),
+  resolutionNotes: optional('string'),
+  approvedBy: optional('string'),
+  approvedAt: optional('timestamp'),
+  slaPolicyId: optional('string'),
+  responseDueAt: optional('timestamp'),
+  resolutionDueAt: optional('timestamp'),
+  respondedAt: optional('timestamp'),
+  createdAt: optional('timestamp'),
+  updatedAt: optional('timestamp'),
+  completedAt: optional('timestamp'),
+});
+
+export const requestAssignmentSchema = defineSchema<RequestAssignment>('RequestAssignment', {
+  requestId: required('string'),
+  fromAssigneeId: optional('string'),
+  toAssigneeId: required('string'),
+  method: oneOf(assignmentMethods, 'manual'),
+  reason: optional('string'),
+  assignedBy: required('string'),
+  assignedAt: required('timestamp'),
+});
+
+export const requestActivitySchema = defineSchema<RequestActivity>('RequestActivity', {
+  requestId: required('string'),
+  kind: oneOf(requestActivityKinds, 'comment'),
+  authorId: optional('string'),
+  body: required('string'),
+  isInternal: optional('boolean', false),
+  createdAt: optional('timestamp'),
+});
+
+export const attachmentSchema = defineSchema<Attachment>('Attachment', {
+  ownerType: oneOf(attachmentOwnerTypes),
+  ownerId: required('string'),
+  deviceId: optional('string'),
+  fileName: required('string'),
+  contentType: optional('string', 'application/octet-stream'),
+  size: required('number'),
+  storagePath: required('string'),
+  thumbnailPath: optional('string'),
+  uploadedBy: required('string'),
+  createdAt: optional('timestamp'),
+});
+
+export const userNotificationSchema = defineSchema<UserNotification>('UserNotification', {
+  recipientId: required('string'),
+  kind: oneOf(notificationKinds),
+  title: required('string'),
+  body: optional('string', ''),
+  targetType: oneOf(notificationTargets),
+  targetId: required('string'),
+  dedupeKey: optional('string'),
+  readAt: optional('timestamp'),
+  createdAt: optional('timestamp'),
+});
+
+export const outboxMessageSchema = defineSchema<OutboxMessage>('OutboxMessage', {
+  template: oneOf(messageTemplates),
+  recipientId: optional('string'),
+  recipientRoles: optional('string[]', []),
+  variables: optional('json', {}),
+  status: oneOf(outboxStatuses, 'pending'),
+  attempts: optional('number', 0),
+  nextAttemptAt: required('timestamp'),
+  lastError: optional('string'),
+  deliveredTo: optional('string[]', []),
+  sentAt: optional('timestamp'),
+  createdAt: optional('timestamp'),
+});
+
+export const incidentSchema = defineSchema<Incident>('Incident', {
+  deviceId: optional('string'),
+  reportedBy: required('string'),
+  incidentType: required('string'),
+  severity: oneOf(incidentSeverities),
+  description: required('string'),
+  impactAssessment: optional('string'),
+  immediateActionTaken: optional('string'),
+  rootCause: optional('string'),
+  correctiveAction: optional('string'),
+  status: oneOf(incidentStatuses),
+  assignedTo: optional('string'),
+  occurredAt: required('timestamp'),
+  resolvedAt: optional('timestamp'),
+  createdAt: optional('timestamp'),
+});
+
+export const maintenanceScheduleSchema = defineSchema<MaintenanceSchedule>('MaintenanceSchedule', {
+  deviceId: required('string'),
+  maintenanceType: oneOf(maintenanceTypes),
+  scheduledDate: required('timestamp'),
+  completedDate: optional('timestamp'),
+  technicianId: optional('string'),
+  notes: optional('string'),
+  cost: optional('number'),
+  status: oneOf(maintenanceStatuses, 'scheduled'),
+  planId: optional('string'),
+  manuallyScheduled: optional('boolean', false),
+  complianceRecordId: optional('string'),
+  checklist: optional('json', []),
+  partsUsed: optional('json', []),
+  labourHours: optional('number'),
+  signedOffBy: optional('string'),
+  signedOffAt: optional('timestamp'),
+  partsConsumedAt: optional('timestamp'),
+  createdAt: optional('timestamp'),
+});
+
+export const maintenancePlanSchema = defineSchema<MaintenancePlan>('MaintenancePlan', {
+  name: required('string'),
+  deviceId: optional('string'),
+  equipmentTypeId: optional('string'),
+  maintenanceType: oneOf(maintenanceTypes, 'preventive'),
+  recurrence: oneOf(planRecurrences),
+  startDate: required('timestamp'),
+  intervalDays: optional('number'),
+  intervalMonths: optional('number'),
+  meterUnit: optional('string'),
+  meterInterval: optional('number'),
+  dailyUsage: optional('number'),
+  technicianId: optional('string'),
+  estimatedCost: optional('number'),
+  notes: optional('string'),
+  isActive: optional('boolean', true),
+  createdAt: optional('timestamp'),
+});
+
+export const complianceRecordSchema = defineSchema<ComplianceRecord>('ComplianceRecord', {
+  deviceId: required('string'),
+  complianceType: required('string'),
+  certificateNumber: optional('string'),
+  issueDate: optional('timestamp'),
+  expiryDate: optional('timestamp'),
+  status: oneOf(complianceStatuses),
+  auditorName: optional('string'),
+  notes: optional('string'),
+  reminderDays: optional('json', [90, 60, 30, 7]),
+  renewedFrom: optional('string'),
+  supersededBy: optional('string'),
+  createdAt: optional('timestamp'),
+});
+
+export const equipmentTypeSchema = defineSchema<EquipmentType>('EquipmentType', {
+  name: required('string'),
+  description: optional('string'),
+  isMedicalDevice: optional('boolean', false),
+  requiresCertification: optional('boolean', false),
+  maintenanceIntervalDays: optional('number', 90),
+  checklist: optional('json', []),
+  createdAt: optional('timestamp'),
+});
+
+export const sparePartSchema = defineSchema<SparePart>('SparePart', {
+  partNumber: required('string'),
+  name: required('string'),
+  description: optional('string'),
+  compatibleEquipmentTypeIds: optional('string[]', []),
+  stockLevels: optional('json', []),
+  reorderPoint: optional('number', 0),
+  unitCost: optional('number'),
+  createdAt: optional('timestamp'),
+});
+
+export const serviceContractSchema = defineSchema<ServiceContract>('ServiceContract', {
+  vendorName: required('string'),
+  contractNumber: required('string'),
+  equipmentTypeId: optional('string'),
+  deviceIds: optional('string[]', []),
+  startDate: required('timestamp'),
+  endDate: required('timestamp'),
+  contractValue: optional('number'),
+  contactPerson: optional('string'),
+  contactEmail: optional('string'),
+  contactPhone: optional('string'),
+  serviceLevelAgreement: optional('string'),
+  status: oneOf(contractStatuses, 'active'),
+  createdAt: optional('timestamp'),
+});
+
+export const slaPolicySchema = defineSchema<SlaPolicy>('SlaPolicy', {
+  name: required('string'),
+  priority: optional('string'),
+  urgencyLevel: { ...optional('string'), values: urgencyLevels },
+  requestTypeId: optional('string'),
+  responseMinutes: required('number'),
+  resolutionMinutes: required('number'),
+  isActive: optional('boolean', true),
+  createdAt: optional('timestamp'),
+});
+
+export const escalationRuleSchema = defineSchema<EscalationRule>('EscalationRule', {
+  name: required('string'),
+  appliesTo: oneOf(escalationTargets),
+  thresholdMinutes: required('number'),
+  raisePriorityTo: optional('string'),
+  reassignToOnCall: optional('boolean', false),
+  reassignToId: optional('string'),
+  isActive: optional('boolean', true),
+  createdAt: optional('timestamp'),
+});
+
+export const escalationEventSchema = defineSchema<EscalationEvent>('EscalationEvent', {
+  ruleId: required('string'),
+  ruleName: required('string'),
+  targetType: oneOf(escalationTargets),
+  targetId: required('string'),
+  targetTitle: optional('string', ''),
+  previousPriority: required('string'),
+  newPriority: required('string'),
+  previousAssigneeId: optional('string'),
+  newAssigneeId: optional('string'),
+  escalatedAt: required('timestamp'),
+});
+
+export const onCallRotationSchema = defineSchema<OnCallRotation>('OnCallRotation', {
+  name: required('string'),
+  memberIds: optional('string[]', []),
+  startsAt: required('timestamp'),
+  shiftDays: optional('number', 7),
+  requestTypeIds: optional('string[]', []),
+  isActive: optional('boolean', true),
+  createdAt: optional('timestamp'),
+});
+
+export const onCallOverrideSchema = defineSchema<OnCallOverride>('OnCallOverride', {
+  rotationId: required('string'),
+  profileId: required('string'),
+  startsAt: required('timestamp'),
+  endsAt: required('timestamp'),
+  reason: optional('string'),
+  createdBy: required('string'),
+  createdAt: optional('timestamp'),
+});
+
+export const auditEntrySchema = defineSchema<AuditEntry>('AuditEntry', {
+  entityType: oneOf(auditEntityTypes),
+  entityId: required('string'),
+  entityLabel: optional('string', ''),
+  action: oneOf(auditActions),
+  actorId: optional('string'),
+  changes: optional('json', []),
+  timestamp: required('timestamp'),
+});
+
+export const systemConfigSchema = defineSchema<SystemConfig>('SystemConfig', {
+  organizationName: required('string'),
+  setupCompletedBy: required('string'),
+  setupCompletedAt: optional('timestamp'),
+  sampleDataSeededAt: optional('timestamp'),
+});
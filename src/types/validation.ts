@@ -0,0 +1,141 @@
+// Small runtime schema layer for the domain models. TypeScript only checks the
+// code we write; documents coming back from Firestore or Supabase are checked
+// here so a stray `serial_number` or a missing field fails loudly instead of
+// rendering blanks.
+
+// 'json' holds nested data (arrays or objects) stored as-is, e.g. a jsonb column
+export type FieldType = 'string' | 'number' | 'boolean' | 'timestamp' | 'string[]' | 'json';
+
+export interface FieldSpec {
+  type: FieldType;
+  required: boolean;
+  // Allowed values for enum-like string fields
+  values?: readonly string[];
+  // Used on read when an optional field is missing
+  fallback?: unknown;
+}
+
+export interface ModelSchema<T> {
+  name: string;
+  fields: { [K in Exclude<keyof T, 'id'>]-?: FieldSpec };
+}
+
+export class ModelValidationError extends Error {
+  readonly model: string;
+  readonly problems: string[];
+
+  constructor(model: string, problems: string[]) {
+    super(`Invalid ${model}: ${problems.join('; ')}`);
+    this.name = 'ModelValidationError';
+    this.model = model;
+    this.problems = problems;
+  }
+}
+
+export const required = (type: FieldType): FieldSpec => ({ type, required: true });
+
+export const optional = (type: FieldType, fallback: unknown = null): FieldSpec => ({ type, required: false, fallback });
+
+export const oneOf = (values: readonly string[], fallback?: string): FieldSpec =>
+  fallback === undefined
+    ? { type: 'string', required: true, values }
+    : { type: 'string', required: false, values, fallback };
+
+export const defineSchema = <T>(name: string, fields: ModelSchema<T>['fields']): ModelSchema<T> => ({ name, fields });
+
+const toCamelCase = (key: string) => key.replace(/_([a-z])/g, (_, char: string) => char.toUpperCase());
+
+// Firestore Timestamps (anything with toDate) and Dates become ISO strings
+const normalize = (spec: FieldSpec, value: unknown) => {
+  if (spec.type !== 'timestamp' || value === null || typeof value !== 'object') return value;
+  if (value instanceof Date) return value.toISOString();
+  if ('toDate' in value && typeof value.toDate === 'function') {
+    return (value.toDate() as Date).toISOString();
+  }
+  return value;
+};
+
+const checkValue = (key: string, spec: FieldSpec, value: unknown): string | null => {
+  let matchesType: boolean;
+  if (spec.type === 'timestamp') {
+    matchesType = typeof value === 'string' && !Number.isNaN(Date.parse(value));
+  } else if (spec.type === 'string[]') {
+    matchesType = Array.isArray(value) && value.every((item) => typeof item === 'string');
+  } else if (spec.type === 'json') {
+    matchesType = typeof value === 'object';
+  } else {
+    matchesType = typeof value === spec.type;
+  }
+  if (!matchesType) return `${key} should be a ${spec.type}, got ${JSON.stringify(value)}`;
+  if (spec.values && !spec.values.includes(value as string)) {
+    return `${key} must be one of ${spec.values.join(', ')}, got "${value}"`;
+  }
+  return null;
+};
+
+const fieldsOf = <T>(schema: ModelSchema<T>) => schema.fields as Record<string, FieldSpec>;
+
+// Catches the snake_case/camelCase mix-up between the Supabase tables and the models
+const misnamedField = <T>(schema: ModelSchema<T>, key: string) => {
+  const camelKey = toCamelCase(key);
+  return camelKey !== key && camelKey in schema.fields ? `${key} should be ${camelKey}` : null;
+};
+
+// Stored document -> domain model. Optional fields get their fallback, unknown
+// fields are dropped, and anything that doesn't fit the schema throws.
+export const parseModel = <T>(schema: ModelSchema<T>, id: string, data: Record<string, unknown>): T => {
+  const problems: string[] = [];
+  const model: Record<string, unknown> = { id };
+
+  Object.entries(fieldsOf(schema)).forEach(([key, spec]) => {
+    const value = normalize(spec, data[key]);
+    if (value === undefined || value === null) {
+      if (spec.required) problems.push(`${key} is required`);
+      model[key] = spec.required ? null : spec.fallback;
+      return;
+    }
+    const problem = checkValue(key, spec, value);
+    if (problem) problems.push(problem);
+    model[key] = value;
+  });
+
+  Object.keys(data).forEach((key) => {
+    const problem = misnamedField(schema, key);
+    if (problem) problems.push(problem);
+  });
+
+  if (problems.length > 0) {
+    throw new ModelValidationError(`${schema.name} ${id}`, problems);
+  }
+  return model as T;
+};
+
+// Checks a create/update payload before it is written. Every field is optional
+// here (the TypeScript input types cover required ones), but unknown fields and
+// wrongly typed values are rejected. Returns the payload without its id.
+export const validateWrite = <T>(schema: ModelSchema<T>, data: object): Record<string, unknown> => {
+  const problems: string[] = [];
+  const fields = fieldsOf(schema);
+  const payload: Record<string, unknown> = {};
+
+  Object.entries(data).forEach(([key, value]) => {
+    if (key === 'id' || value === undefined) return;
+    const spec = fields[key];
+    if (!spec) {
+      problems.push(misnamedField(schema, key) ?? `${key} is not a ${schema.name} field`);
+      return;
+    }
+    // Timestamp sentinels such as serverTimestamp() are passed through untouched
+    const isSentinel = spec.type === 'timestamp' && typeof value === 'object';
+    if (value !== null && !isSentinel) {
+      const problem = checkValue(key, spec, value);
+      if (problem) problems.push(problem);
+    }
+    payload[key] = value;
+  });
+
+  if (problems.length > 0) {
+    throw new ModelValidationError(schema.name, problems);
+  }
+  return payload;
+};
@@ -0,0 +1,57 @@
+import QRCode from 'qrcode';
+import type { Device } from '../types/models';
+
+// Route a label's QR code opens; see components/Dashboard/ScanDevice.tsx
+export const SCAN_ROUTE = '/scan';
+
+// What a label encodes: a link into the app naming the device, plus the serial
+// number it was printed for so a label moved to another unit can be caught
+export const deviceScanUrl = (device: Pick<Device, 'id' | 'serialNumber'>, origin = window.location.origin) => {
+  const url = new URL(`${SCAN_ROUTE}/${encodeURIComponent(device.id)}`, origin);
+  if (device.serialNumber) url.searchParams.set('sn', device.serialNumber);
+  return url.toString();
+};
+
+export const deviceQrCode = (device: Pick<Device, 'id' | 'serialNumber'>) =>
+  QRCode.toDataURL(deviceScanUrl(device), { errorCorrectionLevel: 'M', margin: 1, width: 240 });
+
+export interface AssetLabel {
+  device: Device;
+  // PNG data URL of the QR code
+  qrCode: string;
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, (char) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char] as string);
+
+// Printable page of labels sized for 62 x 29 mm label stock, three across on A4
+export const labelSheetHtml = (labels: AssetLabel[], organizationName: string | null) => `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Asset labels</title>
+<style>
+  @page { size: A4; margin: 10mm; }
+  body { margin: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; }
+  .sheet { display: grid; grid-template-columns: repeat(3, 62mm); gap: 4mm; }
+  .label { box-sizing: border-box; width: 62mm; height: 29mm; padding: 2mm; border: 0.2mm dashed #9ca3af; display: flex; align-items: center; gap: 2mm; overflow: hidden; break-inside: avoid; }
+  .label img { width: 25mm; height: 25mm; flex-shrink: 0; }
+  .name { font-size: 9pt; font-weight: 600; line-height: 1.2; }
+  .meta { font-size: 7pt; color: #374151; line-height: 1.3; }
+  .hint { font-size: 6.5pt; color: #6b7280; margin-top: 1mm; }
+</style>
+</head>
+<body>
+<div class="sheet">
+${labels.map(({ device, qrCode }) => `  <div class="label">
+    <img src="${qrCode}" alt="">
+    <div>
+      <div class="name">${escapeHtml(device.name)}</div>
+      ${device.serialNumber ? `<div class="meta">SN: ${escapeHtml(device.serialNumber)}</div>` : ''}
+      ${device.location ? `<div class="meta">${escapeHtml(device.location)}</div>` : ''}
+      <div class="hint">Scan to report a problem${organizationName ? ` · ${escapeHtml(organizationName)}` : ''}</div>
+    </div>
+  </div>`).join('\n')}
+</div>
+</body>
+</html>`;
@@ -0,0 +1,53 @@
+import type { AssignmentMethod, Profile, Request, RequestAssignment } from '../types/models';
+import { hasCapability } from './permissions';
+
+export const assignmentMethodLabels: Record<AssignmentMethod, string> = {
+  manual: 'Manual',
+  round_robin: 'Round-robin',
+  skill: 'Skill match',
+  on_call: 'On call',
+  escalation: 'Escalation',
+};
+
+// Everyone who works requests can be assigned one, in a stable order for round-robin
+export const getTechnicians = (profiles: Profile[]) =>
+  profiles
+    .filter((profile) => hasCapability(profile.role, 'requests.work'))
+    .sort((a, b) => a.fullName.localeCompare(b.fullName));
+
+export const isOpenRequest = (request: Pick<Request, 'status'>) =>
+  request.status === 'pending' || request.status === 'in_progress';
+
+// Open requests per assignee
+export const getWorkload = (requests: Request[]) =>
+  requests.reduce((workload, request) => {
+    if (request.assignedAdminId && isOpenRequest(request)) {
+      workload.set(request.assignedAdminId, (workload.get(request.assignedAdminId) ?? 0) + 1);
+    }
+    return workload;
+  }, new Map<string, number>());
+
+// The technician after whoever received the latest round-robin assignment
+// (history is newest first, as getAssignmentHistory returns it)
+export const nextRoundRobin = (technicians: Profile[], history: RequestAssignment[]) => {
+  if (technicians.length === 0) return null;
+  const last = history.find((assignment) => assignment.method === 'round_robin');
+  const lastIndex = last ? technicians.findIndex((technician) => technician.id === last.toAssigneeId) : -1;
+  return technicians[(lastIndex + 1) % technicians.length];
+};
+
+// A skill in the request type outweighs covering the department; among equal
+// matches the technician with the fewest open requests wins
+export const bestSkillMatch = (
+  technicians: Profile[],
+  request: Pick<Request, 'requestTypeId' | 'departmentId'>,
+  workload: Map<string, number>
+) => {
+  const score = (technician: Profile) =>
+    (request.requestTypeId && technician.skills.includes(request.requestTypeId) ? 2 : 0) +
+    (request.departmentId && technician.coveredDepartmentIds.includes(request.departmentId) ? 1 : 0);
+
+  return [...technicians].sort(
+    (a, b) => score(b) - score(a) || (workload.get(a.id) ?? 0) - (workload.get(b.id) ?? 0)
+  )[0] ?? null;
+};
@@ -0,0 +1,69 @@
+import type { AttachmentOwnerType } from '../types/models';
+
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+export const MAX_ATTACHMENTS_PER_UPLOAD = 5;
+
+// Photos of screens and equipment, plus the documents service engineers send back
+export const allowedAttachmentTypes = [
+  'image/jpeg',
+  'image/png',
+  'image/gif',
+  'image/webp',
+  'application/pdf',
+  'text/plain',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+];
+
+// For the file input's accept attribute
+export const attachmentAccept = allowedAttachmentTypes.join(',');
+
+const THUMBNAIL_SIZE = 240;
+
+export const isImageType = (contentType: string) => contentType.startsWith('image/');
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Reason a file cannot be attached, or null when it is fine
+export const validateAttachmentFile = (file: File) => {
+  if (!allowedAttachmentTypes.includes(file.type)) {
+    return `${file.name}: only images, PDFs, text and Word documents can be attached`;
+  }
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    return `${file.name} is larger than ${formatFileSize(MAX_ATTACHMENT_BYTES)}`;
+  }
+  return null;
+};
+
+// Unique per upload, so two files with the same name never overwrite each other
+export const attachmentPath = (ownerType: AttachmentOwnerType, ownerId: string, fileName: string) =>
+  `${ownerType}s/${ownerId}/${crypto.randomUUID()}-${fileName.replace(/[^\w.-]+/g, '_')}`;
+
+// Scales an image down to a small JPEG for list views
+export const createThumbnail = (file: Blob) =>
+  new Promise<Blob>((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(image.width, image.height));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(image.width * scale);
+      canvas.height = Math.round(image.height * scale);
+      canvas.getContext('2d')?.drawImage(image, 0, 0, canvas.width, canvas.height);
+      URL.revokeObjectURL(url);
+      canvas.toBlob(
+        (blob) => (blob ? resolve(blob) : reject(new Error('Could not create a thumbnail'))),
+        'image/jpeg',
+        0.8
+      );
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not read the image'));
+    };
+    image.src = url;
+  });
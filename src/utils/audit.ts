@@ -0,0 +1,73 @@
+import type { AuditAction, AuditEntityType, AuditFieldChange } from '../types/models';
+
+// The viewer shows the newest entries up to this many per query
+export const AUDIT_LOG_LIMIT = 500;
+
+// A single record's history is read in full up to this many entries, in
+// pages no bigger than Supabase's default response cap
+export const AUDIT_HISTORY_LIMIT = 10000;
+export const AUDIT_HISTORY_PAGE_SIZE = 1000;
+
+export const auditEntityLabels: Record<AuditEntityType, string> = {
+  profile: 'User',
+  department: 'Department',
+  requestType: 'Request Type',
+  deviceCategory: 'Device Category',
+  device: 'Device',
+  request: 'Request',
+  incident: 'Incident',
+  maintenanceSchedule: 'Maintenance',
+  maintenancePlan: 'Maintenance Plan',
+  complianceRecord: 'Compliance Record',
+  equipmentType: 'Equipment Type',
+  sparePart: 'Spare Part',
+  serviceContract: 'Service Contract',
+  slaPolicy: 'SLA Policy',
+  escalationRule: 'Escalation Rule',
+  onCallRotation: 'On-Call Rotation',
+  onCallOverride: 'On-Call Override',
+  attachment: 'Attachment',
+  systemConfig: 'System Settings',
+};
+
+export const auditActionLabels: Record<AuditAction, string> = {
+  create: 'Created',
+  update: 'Updated',
+  delete: 'Deleted',
+};
+
+// Bookkeeping the adapters write themselves, plus the new-user password,
+// which must never reach the log
+const untrackedFields = ['id', 'createdAt', 'updatedAt', 'password'];
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+// Field-level before/after of a record. A create passes null as `before`, a
+// delete null as `after`, and an update only the fields it writes as `after`.
+export const diffFields = (before: object | null, after: object | null): AuditFieldChange[] => {
+  const from = (before ?? {}) as Record<string, unknown>;
+  const to = (after ?? {}) as Record<string, unknown>;
+  const fields = new Set([...Object.keys(from), ...Object.keys(to)]);
+
+  return [...fields]
+    .filter((field) => !untrackedFields.includes(field))
+    .filter((field) => after === null || to[field] !== undefined)
+    .map((field) => ({ field, before: from[field] ?? null, after: to[field] ?? null }))
+    .filter((change) => !same(change.before, change.after));
+};
+
+// Best readable name a record offers, for the viewer's Entity column
+export const describeRecord = (record: object | null) => {
+  const fields = (record ?? {}) as Record<string, unknown>;
+  const label =
+    fields.name ?? fields.title ?? fields.fullName ?? fields.organizationName ??
+    fields.contractNumber ?? fields.complianceType ?? fields.maintenanceType ?? fields.incidentType ?? fields.fileName;
+  return typeof label === 'string' ? label : '';
+};
+
+export const formatAuditValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (Array.isArray(value)) return value.length === 0 ? '—' : value.join(', ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
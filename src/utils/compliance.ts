@@ -0,0 +1,142 @@
+import { addDays, differenceInCalendarDays, format, max, parseISO, startOfDay, startOfMonth } from 'date-fns';
+import type {
+  ComplianceRecord,
+  ComplianceStatus,
+  Device,
+  MaintenanceSchedule,
+  MaintenanceScheduleInput,
+} from '../types/models';
+
+// Reminder windows a new certificate starts with, in days before expiry
+export const DEFAULT_REMINDER_DAYS = [90, 60, 30, 7];
+
+// How far ahead the upcoming-expiries timeline looks
+export const EXPIRY_TIMELINE_DAYS = 180;
+
+export const complianceStatusLabels: Record<ComplianceStatus, string> = {
+  valid: 'Valid',
+  pending_renewal: 'Pending renewal',
+  expired: 'Expired',
+  superseded: 'Superseded',
+};
+
+// Windows largest first, without duplicates or anything under a day
+export const reminderWindows = (record: Pick<ComplianceRecord, 'reminderDays'>) =>
+  [...new Set(record.reminderDays.filter((days) => Number.isInteger(days) && days > 0))].sort((a, b) => b - a);
+
+// Renewed certificates stay on file but are no longer the one in force
+export const isCurrentCertificate = (record: Pick<ComplianceRecord, 'supersededBy'>) => !record.supersededBy;
+
+// Calendar days until the expiry date, negative once it has passed. A
+// certificate is valid through its expiry date.
+export const daysUntilExpiry = (record: Pick<ComplianceRecord, 'expiryDate'>, now = new Date()) =>
+  record.expiryDate ? differenceInCalendarDays(parseISO(record.expiryDate), now) : null;
+
+// Status as of `now`: pending renewal once the largest reminder window opens.
+// Records without an expiry date (e.g. placeholders waiting for certificate
+// details) keep the status they were saved with.
+export const complianceStatusOf = (
+  record: Pick<ComplianceRecord, 'status' | 'expiryDate' | 'reminderDays' | 'supersededBy'>,
+  now = new Date()
+): ComplianceStatus => {
+  if (record.supersededBy) return 'superseded';
+  const daysLeft = daysUntilExpiry(record, now);
+  if (daysLeft === null) return record.status;
+  if (daysLeft < 0) return 'expired';
+  const [renewalOpensAt = 0] = reminderWindows(record);
+  return daysLeft <= renewalOpensAt ? 'pending_renewal' : 'valid';
+};
+
+// The smallest reminder window a certificate has reached, i.e. the reminder
+// that is due now; null before the first window opens and after expiry
+export const dueReminderWindow = (record: ComplianceRecord, now = new Date()) => {
+  const daysLeft = daysUntilExpiry(record, now);
+  if (daysLeft === null || daysLeft < 0) return null;
+  const reached = reminderWindows(record).filter((days) => daysLeft <= days);
+  return reached.length > 0 ? reached[reached.length - 1] : null;
+};
+
+// Records whose stored status no longer matches the date
+export const planComplianceStatusUpdates = (records: ComplianceRecord[], now = new Date()) =>
+  records
+    .map((record) => ({ recordId: record.id, current: record.status, status: complianceStatusOf(record, now) }))
+    .filter(({ current, status }) => current !== status)
+    .map(({ recordId, status }) => ({ recordId, status }));
+
+export interface RenewalTaskChanges {
+  create: MaintenanceScheduleInput[];
+  // Open tasks of certificates that have been renewed since
+  complete: string[];
+}
+
+// Renewal tasks to raise and close. A current certificate that is due for
+// renewal or expired gets one task, due on its last reminder day (or today if
+// that has passed). Any earlier task for the certificate, even a cancelled
+// one, counts, so a task someone closed by hand is not raised again.
+export const planRenewalTasks = (
+  records: ComplianceRecord[],
+  devices: Device[],
+  schedules: MaintenanceSchedule[],
+  now = new Date()
+): RenewalTaskChanges => {
+  const changes: RenewalTaskChanges = { create: [], complete: [] };
+  const today = startOfDay(now);
+
+  records.forEach((record) => {
+    const tasks = schedules.filter((schedule) => schedule.complianceRecordId === record.id);
+    if (!isCurrentCertificate(record)) {
+      tasks
+        .filter((task) => task.status === 'scheduled' || task.status === 'in_progress')
+        .forEach((task) => changes.complete.push(task.id));
+      return;
+    }
+
+    const status = complianceStatusOf(record, now);
+    const device = devices.find((candidate) => candidate.id === record.deviceId);
+    if (!record.expiryDate || (status !== 'pending_renewal' && status !== 'expired')) return;
+    if (tasks.length > 0 || !device || device.status === 'retired') return;
+
+    const windows = reminderWindows(record);
+    const lastReminder = windows[windows.length - 1] ?? 0;
+    const expiry = parseISO(record.expiryDate);
+    changes.create.push({
+      deviceId: record.deviceId,
+      maintenanceType: 'preventive',
+      scheduledDate: format(max([today, addDays(expiry, -lastReminder)]), 'yyyy-MM-dd'),
+      notes: `Renew ${record.complianceType} certificate${
+        record.certificateNumber ? ` ${record.certificateNumber}` : ''
+      } (expires ${format(expiry, 'MMM dd, yyyy')})`,
+      complianceRecordId: record.id,
+    });
+  });
+
+  return changes;
+};
+
+export interface ExpiryMonth {
+  // First day of the month
+  month: Date;
+  records: ComplianceRecord[];
+}
+
+// Current certificates expiring from today up to `days` ahead, grouped by
+// month, soonest first
+export const upcomingExpiries = (
+  records: ComplianceRecord[],
+  now = new Date(),
+  days = EXPIRY_TIMELINE_DAYS
+): ExpiryMonth[] => {
+  const months = new Map<string, ExpiryMonth>();
+  records
+    .filter((record) => {
+      const daysLeft = daysUntilExpiry(record, now);
+      return isCurrentCertificate(record) && daysLeft !== null && daysLeft >= 0 && daysLeft <= days;
+    })
+    .sort((a, b) => (a.expiryDate as string).localeCompare(b.expiryDate as string))
+    .forEach((record) => {
+      const month = startOfMonth(parseISO(record.expiryDate as string));
+      const key = format(month, 'yyyy-MM');
+      months.set(key, { month, records: [...(months.get(key)?.records ?? []), record] });
+    });
+  return [...months.values()];
+};
@@ -0,0 +1,238 @@
+import { isBefore } from 'date-fns';
+import type {
+  AuditEntry,
+  ComplianceRecord,
+  Device,
+  DeviceStatus,
+  Incident,
+  MaintenanceSchedule,
+  Request,
+} from '../types/models';
+
+export const deviceStatusColors: Record<DeviceStatus, string> = {
+  active: 'bg-green-100 text-green-700',
+  faulty: 'bg-red-100 text-red-700',
+  maintenance: 'bg-yellow-100 text-yellow-700',
+  retired: 'bg-gray-100 text-gray-700',
+};
+
+// Solid colours for the status bar on the device history page
+export const deviceStatusBarColors: Record<DeviceStatus, string> = {
+  active: 'bg-green-500',
+  faulty: 'bg-red-500',
+  maintenance: 'bg-yellow-400',
+  retired: 'bg-gray-400',
+};
+
+export interface StatusPeriod {
+  status: DeviceStatus;
+  from: Date;
+  // null while the device is still in this status
+  to: Date | null;
+}
+
+const statusChanges = (entries: AuditEntry[]) =>
+  entries
+    .map((entry) => ({ entry, change: entry.changes.find((change) => change.field === 'status') }))
+    .filter(({ change }) => change !== undefined && change.after !== null)
+    .map(({ entry, change }) => ({
+      at: new Date(entry.timestamp),
+      before: (change?.before ?? null) as DeviceStatus | null,
+      after: change?.after as DeviceStatus,
+    }))
+    .sort((a, b) => a.at.getTime() - b.at.getTime());
+
+// The device's statuses over time, oldest first, rebuilt from its audit trail.
+// Devices registered before the audit log existed start in the status their
+// first recorded change moved them out of.
+export const buildStatusPeriods = (device: Device, entries: AuditEntry[]): StatusPeriod[] => {
+  const changes = statusChanges(entries);
+  const registeredAt = device.createdAt ? new Date(device.createdAt) : changes[0]?.at ?? new Date();
+
+  const periods: StatusPeriod[] = [];
+  let status: DeviceStatus = changes[0]?.before ?? changes[0]?.after ?? device.status;
+  let from = registeredAt;
+  changes.forEach((change) => {
+    if (change.after === status) return;
+    if (isBefore(from, change.at)) periods.push({ status, from, to: change.at });
+    status = change.after;
+    from = change.at;
+  });
+  // The device record is the authority on where it stands now
+  periods.push({ status: device.status, from, to: null });
+  return periods;
+};
+
+export interface DeviceReliability {
+  // Times the device went faulty
+  failures: number;
+  // Time in service and out of it (faulty or in maintenance); retirement counts as neither
+  uptimeMs: number;
+  downtimeMs: number;
+  // Unplanned share of the downtime, while faulty
+  faultyMs: number;
+  // Mean time between failures; null until the device has failed once
+  mtbfMs: number | null;
+  // Share of in-service time the device was usable, 0-1; null before any time has passed
+  availability: number | null;
+}
+
+export const computeReliability = (periods: StatusPeriod[], now = new Date()): DeviceReliability => {
+  const duration = (period: StatusPeriod) => Math.max((period.to ?? now).getTime() - period.from.getTime(), 0);
+  const total = (statuses: DeviceStatus[]) =>
+    periods.filter((period) => statuses.includes(period.status)).reduce((sum, period) => sum + duration(period), 0);
+
+  const failures = periods.filter((period) => period.status === 'faulty').length;
+  const uptimeMs = total(['active']);
+  const downtimeMs = total(['faulty', 'maintenance']);
+
+  return {
+    failures,
+    uptimeMs,
+    downtimeMs,
+    faultyMs: total(['faulty']),
+    mtbfMs: failures > 0 ? uptimeMs / failures : null,
+    availability: uptimeMs + downtimeMs > 0 ? uptimeMs / (uptimeMs + downtimeMs) : null,
+  };
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// "5.5 h" under two days, "12.3 days" beyond
+export const formatDuration = (ms: number) => {
+  const hours = ms / HOUR_MS;
+  if (hours < 48) return `${hours.toFixed(1)} h`;
+  return `${(hours / 24).toFixed(1)} days`;
+};
+
+export type DeviceTimelineKind = 'registered' | 'status' | 'assignment' | 'location' | 'request' | 'incident' | 'maintenance' | 'compliance';
+
+export interface DeviceTimelineEvent {
+  id: string;
+  kind: DeviceTimelineKind;
+  at: Date;
+  title: string;
+  detail: string | null;
+  // Profile behind the event, when known
+  actorId: string | null;
+}
+
+interface DeviceTimelineSources {
+  device: Device;
+  auditEntries: AuditEntry[];
+  requests: Request[];
+  incidents: Incident[];
+  schedules: MaintenanceSchedule[];
+  records: ComplianceRecord[];
+  // Readable name for a profile id
+  profileName: (profileId: string | null) => string;
+}
+
+// Everything that happened to a device, newest first
+export const buildDeviceTimeline = ({
+  device,
+  auditEntries,
+  requests,
+  incidents,
+  schedules,
+  records,
+  profileName,
+}: DeviceTimelineSources): DeviceTimelineEvent[] => {
+  const events: DeviceTimelineEvent[] = [];
+
+  if (device.createdAt) {
+    events.push({ id: 'registered', kind: 'registered', at: new Date(device.createdAt), title: 'Registered', detail: null, actorId: null });
+  }
+
+  auditEntries
+    .filter((entry) => entry.action === 'update')
+    .forEach((entry) => {
+      const at = new Date(entry.timestamp);
+      entry.changes.forEach((change) => {
+        if (change.field === 'status') {
+          events.push({
+            id: `${entry.id}:status`,
+            kind: 'status',
+            at,
+            title: `Status changed to ${change.after}`,
+            detail: change.before ? `was ${change.before}` : null,
+            actorId: entry.actorId,
+          });
+        }
+        if (change.field === 'assignedTo') {
+          events.push({
+            id: `${entry.id}:assignedTo`,
+            kind: 'assignment',
+            at,
+            title: change.after ? `Assigned to ${profileName(change.after as string)}` : 'Unassigned',
+            detail: change.before ? `previously ${profileName(change.before as string)}` : null,
+            actorId: entry.actorId,
+          });
+        }
+        if (change.field === 'location') {
+          events.push({
+            id: `${entry.id}:location`,
+            kind: 'location',
+            at,
+            title: `Moved to ${change.after ?? 'no location'}`,
+            detail: change.before ? `from ${change.before}` : null,
+            actorId: entry.actorId,
+          });
+        }
+      });
+    });
+
+  requests
+    .filter((request) => request.deviceId === device.id && request.createdAt)
+    .forEach((request) => {
+      events.push({
+        id: `request:${request.id}`,
+        kind: 'request',
+        at: new Date(request.createdAt as string),
+        title: `Request: ${request.title}`,
+        detail: `${request.urgencyLevel} · ${request.status.replace('_', ' ')}`,
+        actorId: request.userId,
+      });
+    });
+
+  incidents
+    .filter((incident) => incident.deviceId === device.id)
+    .forEach((incident) => {
+      events.push({
+        id: `incident:${incident.id}`,
+        kind: 'incident',
+        at: new Date(incident.occurredAt),
+        title: `Incident: ${incident.incidentType}`,
+        detail: `${incident.severity} · ${incident.status}${incident.rootCause ? ` · root cause: ${incident.rootCause}` : ''}`,
+        actorId: incident.reportedBy,
+      });
+    });
+
+  schedules
+    .filter((schedule) => schedule.deviceId === device.id)
+    .forEach((schedule) => {
+      events.push({
+        id: `maintenance:${schedule.id}`,
+        kind: 'maintenance',
+        at: new Date(schedule.completedDate ?? schedule.scheduledDate),
+        title: `${schedule.maintenanceType.charAt(0).toUpperCase()}${schedule.maintenanceType.slice(1)} maintenance ${schedule.status.replace('_', ' ')}`,
+        detail: schedule.notes,
+        actorId: schedule.technicianId,
+      });
+    });
+
+  records
+    .filter((record) => record.deviceId === device.id && (record.issueDate || record.createdAt))
+    .forEach((record) => {
+      events.push({
+        id: `compliance:${record.id}`,
+        kind: 'compliance',
+        at: new Date((record.issueDate ?? record.createdAt) as string),
+        title: `${record.complianceType}${record.certificateNumber ? ` #${record.certificateNumber}` : ''}`,
+        detail: `${record.status.replace('_', ' ')}${record.expiryDate ? ` · expires ${record.expiryDate.slice(0, 10)}` : ''}`,
+        actorId: null,
+      });
+    });
+
+  return events.sort((a, b) => b.at.getTime() - a.at.getTime());
+};
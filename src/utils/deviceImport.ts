@@ -0,0 +1,217 @@
+import { format, isValid, parse } from 'date-fns';
+import type { DeviceCategory, DeviceInput } from '../types/models';
+
+// Devices written per call; a Firestore batch takes at most 500 writes
+export const DEVICE_IMPORT_BATCH_SIZE = 200;
+
+export const importFields = [
+  'name',
+  'model',
+  'serialNumber',
+  'category',
+  'location',
+  'isCritical',
+  'purchaseDate',
+  'warrantyDate',
+] as const;
+export type ImportField = typeof importFields[number];
+
+// Spreadsheet column index per device field; null leaves the field empty
+export type ImportMapping = Record<ImportField, number | null>;
+
+export const importFieldDefinitions: Record<ImportField, { label: string; required: boolean; aliases: string[] }> = {
+  name: { label: 'Name', required: true, aliases: ['name', 'devicename', 'assetname', 'description', 'equipment'] },
+  model: { label: 'Model', required: false, aliases: ['model', 'modelnumber', 'modelno'] },
+  serialNumber: { label: 'Serial Number', required: false, aliases: ['serialnumber', 'serial', 'serialno', 'sn'] },
+  category: { label: 'Category', required: false, aliases: ['category', 'devicecategory', 'class', 'type'] },
+  location: { label: 'Location', required: false, aliases: ['location', 'room', 'ward', 'site'] },
+  isCritical: { label: 'Critical', required: false, aliases: ['critical', 'iscritical', 'lifesupport'] },
+  purchaseDate: { label: 'Purchase Date', required: false, aliases: ['purchasedate', 'purchased', 'acquired', 'acquisitiondate', 'installdate'] },
+  warrantyDate: { label: 'Warranty Until', required: false, aliases: ['warrantydate', 'warranty', 'warrantyend', 'warrantyexpiry', 'warrantyuntil'] },
+};
+
+// Date layouts a CMMS export is likely to use; spreadsheet date cells need none
+export const importDateFormats = ['yyyy-MM-dd', 'dd/MM/yyyy', 'MM/dd/yyyy', 'dd.MM.yyyy'] as const;
+export type ImportDateFormat = typeof importDateFormats[number];
+
+export interface ImportSheet {
+  headers: string[];
+  rows: string[][];
+}
+
+// RFC 4180 CSV: quoted fields may hold the delimiter, doubled quotes and line breaks.
+// The delimiter is whichever of comma, semicolon or tab the header line uses most.
+export const parseCsv = (text: string): string[][] => {
+  const firstLine = text.slice(0, text.indexOf('\n') === -1 ? undefined : text.indexOf('\n'));
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i += 1) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i += 1;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
+
+const cellText = (value: unknown) => {
+  if (value === null || value === undefined) return '';
+  // Date cells come through as dates, whatever layout the sheet displays them in
+  if (value instanceof Date) return format(value, 'yyyy-MM-dd');
+  return String(value);
+};
+
+// First sheet of an .xlsx workbook, or a .csv file; the first row holds the headers
+export const readImportFile = async (file: File): Promise<ImportSheet> => {
+  let data: string[][];
+  if (/\.xlsx$/i.test(file.name)) {
+    const { readSheet } = await import('read-excel-file/browser');
+    data = (await readSheet(file)).map((row) => row.map(cellText));
+  } else {
+    data = parseCsv((await file.text()).replace(/^\uFEFF/, ''));
+  }
+
+  const [headers = [], ...rows] = data.filter((row) => row.some((cell) => cell.trim() !== ''));
+  return { headers: headers.map((header) => header.trim()), rows };
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Matches spreadsheet headers to device fields by their usual names
+export const guessMapping = (headers: string[]): ImportMapping => {
+  const normalized = headers.map(normalizeHeader);
+  return Object.fromEntries(
+    importFields.map((field) => {
+      const index = normalized.findIndex((header) => importFieldDefinitions[field].aliases.includes(header));
+      return [field, index === -1 ? null : index];
+    })
+  ) as ImportMapping;
+};
+
+export interface ImportRow {
+  // Row in the file counting the header as row 1, blank rows skipped
+  rowNumber: number;
+  // Null when the row has errors
+  device: DeviceInput | null;
+  errors: string[];
+}
+
+interface ValidationContext {
+  categories: DeviceCategory[];
+  // Serial numbers already in the register
+  existingSerials: string[];
+  dateFormat: ImportDateFormat;
+}
+
+const truthy = ['yes', 'y', 'true', '1', 'x'];
+const falsy = ['no', 'n', 'false', '0', ''];
+
+const normalizeSerial = (serial: string) => serial.trim().toLowerCase();
+
+const parseImportDate = (value: string, dateFormat: ImportDateFormat) => {
+  // Dates read from spreadsheet cells are already ISO
+  for (const layout of ['yyyy-MM-dd', dateFormat]) {
+    const date = parse(value, layout, new Date());
+    if (isValid(date)) return format(date, 'yyyy-MM-dd');
+  }
+  return null;
+};
+
+// Dry run of an import: what every row would write, or why it cannot be imported
+export const validateImportRows = (
+  sheet: ImportSheet,
+  mapping: ImportMapping,
+  { categories, existingSerials, dateFormat }: ValidationContext
+): ImportRow[] => {
+  const cell = (row: string[], field: ImportField) => {
+    const index = mapping[field];
+    return index === null ? '' : (row[index] ?? '').trim();
+  };
+
+  const registered = new Set(existingSerials.map(normalizeSerial));
+  const serialCounts = new Map<string, number>();
+  sheet.rows.forEach((row) => {
+    const serial = normalizeSerial(cell(row, 'serialNumber'));
+    if (serial) serialCounts.set(serial, (serialCounts.get(serial) ?? 0) + 1);
+  });
+
+  return sheet.rows.map((row, index) => {
+    const errors: string[] = [];
+    const name = cell(row, 'name');
+    if (!name) errors.push('Name is missing');
+
+    const serialNumber = cell(row, 'serialNumber');
+    if (serialNumber && registered.has(normalizeSerial(serialNumber))) {
+      errors.push(`Serial number ${serialNumber} is already registered`);
+    } else if (serialNumber && (serialCounts.get(normalizeSerial(serialNumber)) ?? 0) > 1) {
+      errors.push(`Serial number ${serialNumber} appears more than once in the file`);
+    }
+
+    const categoryName = cell(row, 'category');
+    const category = categories.find((c) => c.name.toLowerCase() === categoryName.toLowerCase());
+    if (categoryName && !category) errors.push(`Unknown category "${categoryName}"`);
+
+    const critical = cell(row, 'isCritical').toLowerCase();
+    if (!truthy.includes(critical) && !falsy.includes(critical)) {
+      errors.push(`Critical must be yes or no, not "${cell(row, 'isCritical')}"`);
+    }
+
+    const dates = { purchaseDate: null as string | null, warrantyDate: null as string | null };
+    (['purchaseDate', 'warrantyDate'] as const).forEach((field) => {
+      const value = cell(row, field);
+      if (!value) return;
+      dates[field] = parseImportDate(value, dateFormat);
+      if (!dates[field]) errors.push(`${importFieldDefinitions[field].label} "${value}" is not a ${dateFormat} date`);
+    });
+    if (dates.purchaseDate && dates.warrantyDate && dates.warrantyDate < dates.purchaseDate) {
+      errors.push('Warranty ends before the purchase date');
+    }
+
+    return {
+      rowNumber: index + 2,
+      errors,
+      device: errors.length > 0 ? null : {
+        name,
+        model: cell(row, 'model') || null,
+        serialNumber: serialNumber || null,
+        status: 'active',
+        categoryId: category?.id ?? null,
+        location: cell(row, 'location') || null,
+        isCritical: truthy.includes(critical),
+        purchaseDate: dates.purchaseDate,
+        warrantyDate: dates.warrantyDate,
+      },
+    };
+  });
+};
@@ -0,0 +1,48 @@
+import { addDays, format, isBefore, parseISO } from 'date-fns';
+import type { ComplianceRecordInput, Device, EquipmentType } from '../types/models';
+
+// Same rule as the update_next_maintenance_date trigger in Supabase: last
+// maintenance plus the type's interval. A device that was never serviced
+// counts from its purchase date, or from today if that is not known either.
+export const computeNextMaintenanceDate = (
+  device: Pick<Device, 'lastMaintenanceDate' | 'purchaseDate'>,
+  equipmentType: Pick<EquipmentType, 'maintenanceIntervalDays'>,
+  today = new Date()
+) => {
+  const from = device.lastMaintenanceDate || device.purchaseDate;
+  return format(addDays(from ? parseISO(from) : today, equipmentType.maintenanceIntervalDays), 'yyyy-MM-dd');
+};
+
+// A device's maintenance dates after a visit completed on `completedDate`, or
+// null when a later visit is already on record. Without an equipment type
+// there is no interval, so the next date stays as it was.
+export const maintenanceDatesAfterVisit = (
+  device: Pick<Device, 'lastMaintenanceDate' | 'nextMaintenanceDate' | 'purchaseDate'>,
+  equipmentType: Pick<EquipmentType, 'maintenanceIntervalDays'> | null | undefined,
+  completedDate: string
+) => {
+  if (device.lastMaintenanceDate && !isBefore(parseISO(device.lastMaintenanceDate), parseISO(completedDate))) {
+    return null;
+  }
+  return {
+    lastMaintenanceDate: completedDate,
+    nextMaintenanceDate: equipmentType
+      ? computeNextMaintenanceDate({ ...device, lastMaintenanceDate: completedDate }, equipmentType)
+      : device.nextMaintenanceDate,
+  };
+};
+
+// Compliance record standing in for a certificate that still has to be obtained
+export const buildCertificationPlaceholder = (
+  device: Pick<Device, 'id' | 'name'>,
+  equipmentType: Pick<EquipmentType, 'name' | 'isMedicalDevice'>
+): ComplianceRecordInput => ({
+  deviceId: device.id,
+  complianceType: equipmentType.isMedicalDevice ? 'FDA' : 'Other',
+  certificateNumber: null,
+  issueDate: null,
+  expiryDate: null,
+  status: 'pending_renewal',
+  auditorName: null,
+  notes: `Placeholder: ${equipmentType.name} equipment requires certification. Add the certificate details for ${device.name}.`,
+});
@@ -0,0 +1,139 @@
+import { differenceInMinutes } from 'date-fns';
+import { incidentSeverities, requestPriorities } from '../types/models';
+import type {
+  EscalationEventInput,
+  EscalationRule,
+  EscalationTarget,
+  Incident,
+  OnCallOverride,
+  OnCallRotation,
+  Request,
+} from '../types/models';
+import { findOnCall } from './onCall';
+
+// Priority (severity for incidents) levels, lowest first
+export const escalationLevels: Record<EscalationTarget, readonly string[]> = {
+  request: requestPriorities,
+  incident: incidentSeverities,
+};
+
+// The status a record sits in until someone picks it up
+export const unattendedStatuses: Record<EscalationTarget, string> = {
+  request: 'pending',
+  incident: 'open',
+};
+
+export const escalationTargetLabels: Record<EscalationTarget, string> = {
+  request: 'Requests',
+  incident: 'Incidents',
+};
+
+// What the engine needs to know about a request or an incident
+export interface EscalationCandidate {
+  targetType: EscalationTarget;
+  id: string;
+  title: string;
+  status: string;
+  priority: string;
+  assigneeId: string | null;
+  createdAt: string | null;
+  // Which on-call rotations apply: those covering the request type, or all of them for incidents
+  requestTypeId?: string | null;
+}
+
+export interface OnCallSchedule {
+  rotations: OnCallRotation[];
+  overrides: OnCallOverride[];
+}
+
+export const requestCandidate = (request: Request): EscalationCandidate => ({
+  targetType: 'request',
+  id: request.id,
+  title: request.title,
+  status: request.status,
+  priority: request.priority,
+  assigneeId: request.assignedAdminId,
+  createdAt: request.createdAt,
+  requestTypeId: request.requestTypeId,
+});
+
+export const incidentCandidate = (incident: Incident): EscalationCandidate => ({
+  targetType: 'incident',
+  id: incident.id,
+  title: incident.incidentType,
+  status: incident.status,
+  priority: incident.severity,
+  assigneeId: incident.assignedTo,
+  createdAt: incident.createdAt,
+});
+
+// One history entry per rule and record; adapters use it as the event id so a
+// rule can never escalate the same record twice
+export const escalationKey = (ruleId: string, targetId: string) => `${ruleId}_${targetId}`;
+
+const raiseLevel = (targetType: EscalationTarget, current: string, wanted: string | null) => {
+  if (!wanted) return current;
+  const levels = escalationLevels[targetType];
+  return levels.indexOf(wanted) > levels.indexOf(current) ? wanted : current;
+};
+
+// Who an escalating rule hands the record to: whoever is on call for it if the
+// rule says so, else the rule's fixed technician, else the current assignee
+const escalationAssignee = (
+  rule: EscalationRule,
+  candidate: EscalationCandidate,
+  currentAssigneeId: string | null,
+  schedule: OnCallSchedule,
+  now: Date
+) => {
+  const [onCall] = rule.reassignToOnCall
+    ? findOnCall(schedule.rotations, schedule.overrides, now, candidate.requestTypeId)
+    : [];
+  return onCall?.profileId ?? rule.reassignToId ?? currentAssigneeId;
+};
+
+// Escalations that are due now. Rules are applied in threshold order, so a
+// record that has waited past several of them climbs the whole ladder in one run.
+export const planEscalations = (
+  rules: EscalationRule[],
+  candidates: EscalationCandidate[],
+  escalatedKeys: Set<string>,
+  schedule: OnCallSchedule = { rotations: [], overrides: [] },
+  now = new Date()
+): EscalationEventInput[] => {
+  const ladder = rules
+    .filter((rule) => rule.isActive)
+    .sort((a, b) => a.thresholdMinutes - b.thresholdMinutes);
+  const planned: EscalationEventInput[] = [];
+
+  candidates.forEach((candidate) => {
+    if (candidate.status !== unattendedStatuses[candidate.targetType] || !candidate.createdAt) return;
+
+    const waited = differenceInMinutes(now, new Date(candidate.createdAt));
+    let { priority, assigneeId } = candidate;
+
+    ladder
+      .filter((rule) => rule.appliesTo === candidate.targetType && waited >= rule.thresholdMinutes)
+      .filter((rule) => !escalatedKeys.has(escalationKey(rule.id, candidate.id)))
+      .forEach((rule) => {
+        const newPriority = raiseLevel(candidate.targetType, priority, rule.raisePriorityTo);
+        const newAssigneeId = escalationAssignee(rule, candidate, assigneeId, schedule, now);
+        planned.push({
+          ruleId: rule.id,
+          ruleName: rule.name,
+          targetType: candidate.targetType,
+          targetId: candidate.id,
+          targetTitle: candidate.title,
+          previousPriority: priority,
+          newPriority,
+          previousAssigneeId: assigneeId,
+          newAssigneeId,
+          escalatedAt: now.toISOString(),
+        });
+        priority = newPriority;
+        assigneeId = newAssigneeId;
+      });
+  });
+
+  return planned;
+};
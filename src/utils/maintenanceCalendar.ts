@@ -0,0 +1,85 @@
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+import type { MaintenanceSchedule, MaintenanceType } from '../types/models';
+
+export const calendarViews = ['month', 'week', 'day'] as const;
+export type CalendarView = typeof calendarViews[number];
+
+export const maintenanceTypeColors: Record<MaintenanceType, string> = {
+  preventive: 'bg-blue-100 text-blue-700',
+  corrective: 'bg-yellow-100 text-yellow-700',
+  emergency: 'bg-red-100 text-red-700',
+};
+
+// Same rule as the schedule table and the overdue notifications
+export const isOverdue = (schedule: MaintenanceSchedule, now = new Date()) =>
+  schedule.status === 'scheduled' && new Date(schedule.scheduledDate) < now;
+
+// Cancelled and completed visits stay on the calendar but take nobody's time
+export const isOpen = (schedule: MaintenanceSchedule) =>
+  schedule.status === 'scheduled' || schedule.status === 'in_progress';
+
+const weekOptions = { weekStartsOn: 1 } as const;
+
+// Days shown for a view around `anchor`; month views pad to whole weeks
+export const calendarDays = (view: CalendarView, anchor: Date) => {
+  if (view === 'day') return [anchor];
+  if (view === 'week') {
+    return eachDayOfInterval({ start: startOfWeek(anchor, weekOptions), end: endOfWeek(anchor, weekOptions) });
+  }
+  return eachDayOfInterval({
+    start: startOfWeek(startOfMonth(anchor), weekOptions),
+    end: endOfWeek(endOfMonth(anchor), weekOptions),
+  });
+};
+
+export const shiftAnchor = (view: CalendarView, anchor: Date, step: number) => {
+  if (view === 'day') return addDays(anchor, step);
+  if (view === 'week') return addWeeks(anchor, step);
+  return addMonths(anchor, step);
+};
+
+export const dayKey = (date: Date) => format(date, 'yyyy-MM-dd');
+
+export const schedulesByDay = (schedules: MaintenanceSchedule[]) => {
+  const byDay = new Map<string, MaintenanceSchedule[]>();
+  schedules.forEach((schedule) => {
+    const key = schedule.scheduledDate.slice(0, 10);
+    byDay.set(key, [...(byDay.get(key) ?? []), schedule]);
+  });
+  return byDay;
+};
+
+// Open visits given to a technician who already has another open visit that day
+export const doubleBookedIds = (schedules: MaintenanceSchedule[]) => {
+  const counts = new Map<string, number>();
+  const keyOf = (schedule: MaintenanceSchedule) => `${schedule.technicianId}:${schedule.scheduledDate.slice(0, 10)}`;
+  const booked = schedules.filter((schedule) => schedule.technicianId && isOpen(schedule));
+  booked.forEach((schedule) => counts.set(keyOf(schedule), (counts.get(keyOf(schedule)) ?? 0) + 1));
+  return new Set(booked.filter((schedule) => (counts.get(keyOf(schedule)) ?? 0) > 1).map((schedule) => schedule.id));
+};
+
+// Other open visits the technician already has on the day a visit is being moved to
+export const bookingsClashingWith = (
+  schedules: MaintenanceSchedule[],
+  moving: MaintenanceSchedule,
+  day: string,
+  technicianId: string | null
+) =>
+  technicianId
+    ? schedules.filter((schedule) =>
+        schedule.id !== moving.id &&
+        isOpen(schedule) &&
+        schedule.technicianId === technicianId &&
+        schedule.scheduledDate.slice(0, 10) === day
+      )
+    : [];
@@ -0,0 +1,197 @@
+import { addDays, addMonths, differenceInCalendarDays, format, parseISO, startOfDay, startOfWeek } from 'date-fns';
+import type { Device, MaintenancePlan, MaintenanceSchedule, MaintenanceScheduleInput } from '../types/models';
+
+// How far ahead plan entries are generated, and how far the forward calendar looks
+export const PLAN_HORIZON_DAYS = 90;
+
+// Upper bound on entries generated per device and plan, so a one-day interval
+// cannot flood the schedule
+const MAX_OCCURRENCES = 120;
+
+export const planRecurrenceLabels = {
+  interval: 'Every N days after the last service',
+  calendar: 'Fixed dates every N months',
+  meter: 'Usage based (hours, cycles...)',
+} as const;
+
+// Devices a plan generates work for; retired equipment is left out
+export const planDevices = (plan: Pick<MaintenancePlan, 'deviceId' | 'equipmentTypeId'>, devices: Device[]) =>
+  devices.filter((device) =>
+    device.status !== 'retired' &&
+    (plan.deviceId ? device.id === plan.deviceId : !!plan.equipmentTypeId && device.equipmentTypeId === plan.equipmentTypeId)
+  );
+
+// Days between visits for interval and meter plans; meter plans project the
+// usage interval onto the expected daily usage
+export const planStepDays = (plan: MaintenancePlan) => {
+  if (plan.recurrence === 'interval') return Math.max(1, plan.intervalDays ?? 0);
+  if (plan.recurrence === 'meter' && plan.meterInterval && plan.dailyUsage) {
+    return Math.max(1, Math.ceil(plan.meterInterval / plan.dailyUsage));
+  }
+  return null;
+};
+
+export const describePlanRecurrence = (plan: MaintenancePlan) => {
+  switch (plan.recurrence) {
+    case 'interval':
+      return `Every ${plan.intervalDays} days`;
+    case 'calendar':
+      return plan.intervalMonths === 1 ? 'Monthly' : `Every ${plan.intervalMonths} months`;
+    case 'meter':
+      return `Every ${plan.meterInterval} ${plan.meterUnit || 'units'} (~${planStepDays(plan)} days)`;
+  }
+};
+
+const toDate = (value: string) => startOfDay(parseISO(value));
+const toDateString = (date: Date) => format(date, 'yyyy-MM-dd');
+
+// Due dates of a plan for one device: the next one after the last completed
+// visit, even if it lies beyond `until`, then every later one up to `until`.
+// Interval and meter plans count from the day the last visit was actually
+// done; calendar plans keep their fixed dates, so a late visit does not push
+// the next one back. Only one missed visit is kept as overdue: the original
+// due date for interval plans, the most recent slot for calendar plans.
+export const planOccurrences = (
+  plan: MaintenancePlan,
+  lastCompleted: Pick<MaintenanceSchedule, 'scheduledDate' | 'completedDate'> | null,
+  today: Date,
+  until: Date
+): string[] => {
+  const dates: Date[] = [];
+  const start = toDate(plan.startDate);
+
+  if (plan.recurrence === 'calendar') {
+    const months = Math.max(1, plan.intervalMonths ?? 1);
+    const after = lastCompleted ? toDate(lastCompleted.scheduledDate) : null;
+    // addMonths from the start each time keeps the 31st on month ends instead of drifting
+    for (let k = 0; dates.length < MAX_OCCURRENCES; k += 1) {
+      const date = addMonths(start, k * months);
+      if (after && date <= after) continue;
+      if (dates.length > 0 && date > until) break;
+      // Only the latest missed slot stays due
+      if (dates.length === 1 && date < today) dates.pop();
+      dates.push(date);
+    }
+    return dates.map(toDateString);
+  }
+
+  const step = planStepDays(plan);
+  if (!step) return [];
+  let date = lastCompleted
+    ? addDays(toDate(lastCompleted.completedDate ?? lastCompleted.scheduledDate), step)
+    : start;
+  // A plan started after the last visit (e.g. one replacing an older plan) begins on its start date
+  if (date < start) date = start;
+  // Later visits are counted from whenever the overdue one gets done
+  if (date < today) return [toDateString(date)];
+  while (dates.length < MAX_OCCURRENCES && (dates.length === 0 || date <= until)) {
+    dates.push(date);
+    date = addDays(date, step);
+  }
+  return dates.map(toDateString);
+};
+
+export interface PlanScheduleChanges {
+  create: MaintenanceScheduleInput[];
+  reschedule: { scheduleId: string; scheduledDate: string }[];
+  // Open entries of plans that were switched off or deleted, or of devices a plan no longer covers
+  cancel: string[];
+}
+
+const latestCompleted = (entries: MaintenanceSchedule[]) =>
+  entries
+    .filter((entry) => entry.status === 'completed')
+    .sort((a, b) =>
+      (b.completedDate ?? b.scheduledDate).localeCompare(a.completedDate ?? a.scheduledDate)
+    )[0] ?? null;
+
+// Works out what brings the schedule in line with the plans: entries to
+// create up to the horizon, open entries whose date moved because a visit was
+// completed early or late, and entries to cancel. Visits already in progress
+// count as the next due date and are never touched; visits moved by hand keep
+// their slot in the sequence but not the plan's date.
+export const planScheduleChanges = (
+  plans: MaintenancePlan[],
+  devices: Device[],
+  schedules: MaintenanceSchedule[],
+  now = new Date()
+): PlanScheduleChanges => {
+  const changes: PlanScheduleChanges = { create: [], reschedule: [], cancel: [] };
+  const today = startOfDay(now);
+  const until = addDays(today, PLAN_HORIZON_DAYS);
+
+  // Generated entries grouped per plan and device
+  const entriesByTarget = new Map<string, MaintenanceSchedule[]>();
+  schedules.forEach((schedule) => {
+    if (!schedule.planId) return;
+    const key = `${schedule.planId}:${schedule.deviceId}`;
+    entriesByTarget.set(key, [...(entriesByTarget.get(key) ?? []), schedule]);
+  });
+
+  const covered = new Set<string>();
+  plans.filter((plan) => plan.isActive).forEach((plan) => {
+    planDevices(plan, devices).forEach((device) => {
+      const key = `${plan.id}:${device.id}`;
+      covered.add(key);
+      const entries = entriesByTarget.get(key) ?? [];
+      const inProgress = entries.filter((entry) => entry.status === 'in_progress').length;
+      const open = entries
+        .filter((entry) => entry.status === 'scheduled')
+        .sort((a, b) => a.scheduledDate.localeCompare(b.scheduledDate));
+      const due = planOccurrences(plan, latestCompleted(entries), today, until).slice(inProgress);
+
+      open.forEach((entry, index) => {
+        if (index >= due.length) {
+          changes.cancel.push(entry.id);
+        } else if (!entry.manuallyScheduled && entry.scheduledDate.slice(0, 10) !== due[index]) {
+          changes.reschedule.push({ scheduleId: entry.id, scheduledDate: due[index] });
+        }
+      });
+      due.slice(open.length).forEach((scheduledDate) => {
+        changes.create.push({
+          deviceId: device.id,
+          maintenanceType: plan.maintenanceType,
+          scheduledDate,
+          technicianId: plan.technicianId,
+          notes: plan.notes ? `${plan.name}: ${plan.notes}` : plan.name,
+          cost: plan.estimatedCost,
+          planId: plan.id,
+        });
+      });
+    });
+  });
+
+  entriesByTarget.forEach((entries, key) => {
+    if (covered.has(key)) return;
+    entries.filter((entry) => entry.status === 'scheduled').forEach((entry) => changes.cancel.push(entry.id));
+  });
+
+  return changes;
+};
+
+export interface ForwardWeek {
+  // Monday of the week
+  weekStart: Date;
+  entries: MaintenanceSchedule[];
+}
+
+// Open work from today to the plan horizon, week by week, for the forward calendar.
+// Overdue entries are left to the schedule table.
+export const forwardWeeks = (schedules: MaintenanceSchedule[], now = new Date()): ForwardWeek[] => {
+  const today = startOfDay(now);
+  const until = addDays(today, PLAN_HORIZON_DAYS);
+  const weeks: ForwardWeek[] = [];
+  for (let weekStart = startOfWeek(today, { weekStartsOn: 1 }); weekStart <= until; weekStart = addDays(weekStart, 7)) {
+    weeks.push({ weekStart, entries: [] });
+  }
+
+  schedules
+    .filter((schedule) => schedule.status === 'scheduled' || schedule.status === 'in_progress')
+    .forEach((schedule) => {
+      const date = toDate(schedule.scheduledDate);
+      if (date < today || date > until) return;
+      weeks[Math.floor(differenceInCalendarDays(date, weeks[0].weekStart) / 7)].entries.push(schedule);
+    });
+  weeks.forEach((week) => week.entries.sort((a, b) => a.scheduledDate.localeCompare(b.scheduledDate)));
+  return weeks;
+};
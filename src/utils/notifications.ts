@@ -0,0 +1,80 @@
+import { differenceInCalendarDays, isBefore } from 'date-fns';
+import type {
+  ComplianceRecord,
+  Device,
+  MaintenanceSchedule,
+  NotificationKind,
+  UserNotificationInput,
+} from '../types/models';
+import { daysUntilExpiry, dueReminderWindow, isCurrentCertificate } from './compliance';
+
+// The bell menu keeps this many of the newest notifications
+export const NOTIFICATION_LIMIT = 50;
+
+// Document id for a notification with a dedupe key, fixed per recipient so a
+// second send finds the first
+export const notificationKey = (recipientId: string, dedupeKey: string) => `${recipientId}_${dedupeKey}`;
+
+export const notificationKindLabels: Record<NotificationKind, string> = {
+  requestStatus: 'Request update',
+  emergencyRequest: 'Emergency request',
+  incidentAssigned: 'Incident assigned',
+  maintenanceOverdue: 'Maintenance overdue',
+  complianceExpiring: 'Certificate expiring',
+};
+
+export type PlannedNotification = Omit<UserNotificationInput, 'recipientId'>;
+
+const deviceName = (devices: Device[], deviceId: string) =>
+  devices.find((device) => device.id === deviceId)?.name ?? 'Unknown device';
+
+// Scheduled maintenance whose date has passed. The key includes the date, so
+// rescheduling a job and missing it again sends a fresh notice.
+export const planMaintenanceOverdue = (
+  schedules: MaintenanceSchedule[],
+  devices: Device[],
+  now = new Date()
+): { schedule: MaintenanceSchedule; notification: PlannedNotification }[] =>
+  schedules
+    .filter((schedule) => schedule.status === 'scheduled' && isBefore(new Date(schedule.scheduledDate), now))
+    .map((schedule) => {
+      const daysLate = differenceInCalendarDays(now, new Date(schedule.scheduledDate));
+      return {
+        schedule,
+        notification: {
+          kind: 'maintenanceOverdue',
+          title: 'Maintenance overdue',
+          body: `${schedule.maintenanceType} maintenance on ${deviceName(devices, schedule.deviceId)} was due ${
+            daysLate === 0 ? 'earlier today' : `${daysLate} day(s) ago`
+          }`,
+          targetType: 'maintenance',
+          targetId: schedule.id,
+          dedupeKey: `maintenanceOverdue:${schedule.id}:${schedule.scheduledDate.slice(0, 10)}`,
+        },
+      };
+    });
+
+// Current certificates that have reached one of their reminder windows, or
+// expired. The key includes the window and the expiry date, so each window
+// sends one reminder and a renewed certificate is watched afresh.
+export const planComplianceExpiring = (
+  records: ComplianceRecord[],
+  devices: Device[],
+  now = new Date()
+): PlannedNotification[] =>
+  records.filter(isCurrentCertificate).flatMap((record) => {
+    const daysLeft = daysUntilExpiry(record, now);
+    const window = daysLeft !== null && daysLeft < 0 ? 'expired' : dueReminderWindow(record, now);
+    if (daysLeft === null || window === null) return [];
+    const expiryDate = record.expiryDate as string;
+    return [{
+      kind: 'complianceExpiring',
+      title: daysLeft < 0 ? 'Certificate expired' : 'Certificate expiring',
+      body: `${record.complianceType} for ${deviceName(devices, record.deviceId)} ${
+        daysLeft < 0 ? `expired ${-daysLeft} day(s) ago` : daysLeft === 0 ? 'expires today' : `expires in ${daysLeft} day(s)`
+      }`,
+      targetType: 'compliance',
+      targetId: record.id,
+      dedupeKey: `complianceExpiring:${record.id}:${expiryDate.slice(0, 10)}:${window}`,
+    }];
+  });
@@ -0,0 +1,121 @@
+import { addDays, differenceInCalendarDays, isBefore } from 'date-fns';
+import type { OnCallOverride, OnCallRotation, UrgencyLevel } from '../types/models';
+
+// Urgency levels routed straight to whoever is on call
+export const onCallUrgencyLevels: UrgencyLevel[] = ['emergency', 'critical'];
+
+export interface OnCallShift {
+  rotation: OnCallRotation;
+  profileId: string;
+  startsAt: Date;
+  endsAt: Date;
+  // Set when someone is covering instead of the scheduled member
+  override: OnCallOverride | null;
+}
+
+// The scheduled shift number at `at`, or null before the rotation starts.
+// Shifts are counted in calendar days so a handoff stays at the same local
+// time across daylight saving changes.
+const shiftIndex = (rotation: OnCallRotation, at: Date) => {
+  const start = new Date(rotation.startsAt);
+  if (isBefore(at, start)) return null;
+  const index = Math.floor(differenceInCalendarDays(at, start) / rotation.shiftDays);
+  return isBefore(at, addDays(start, index * rotation.shiftDays)) ? index - 1 : index;
+};
+
+const scheduledShift = (rotation: OnCallRotation, index: number) => {
+  const start = new Date(rotation.startsAt);
+  return {
+    profileId: rotation.memberIds[index % rotation.memberIds.length],
+    startsAt: addDays(start, index * rotation.shiftDays),
+    endsAt: addDays(start, (index + 1) * rotation.shiftDays),
+  };
+};
+
+// The latest override wins where several cover the same moment
+const activeOverride = (rotation: OnCallRotation, overrides: OnCallOverride[], at: Date) =>
+  overrides
+    .filter((override) =>
+      override.rotationId === rotation.id &&
+      !isBefore(at, new Date(override.startsAt)) &&
+      isBefore(at, new Date(override.endsAt))
+    )
+    .sort((a, b) => String(b.createdAt ?? '').localeCompare(String(a.createdAt ?? '')))[0] ?? null;
+
+// Who holds the rotation at `at`, or null if nobody does (not started, no members).
+// The Supabase function on_call_holder() mirrors this; keep the two in step.
+export const onCallAt = (rotation: OnCallRotation, overrides: OnCallOverride[], at: Date): OnCallShift | null => {
+  const override = activeOverride(rotation, overrides, at);
+  if (override) {
+    return {
+      rotation,
+      profileId: override.profileId,
+      startsAt: new Date(override.startsAt),
+      endsAt: new Date(override.endsAt),
+      override,
+    };
+  }
+  const index = rotation.memberIds.length > 0 ? shiftIndex(rotation, at) : null;
+  return index === null ? null : { rotation, ...scheduledShift(rotation, index), override: null };
+};
+
+export const coversRequestType = (rotation: OnCallRotation, requestTypeId: string | null | undefined) =>
+  rotation.requestTypeIds.length === 0 || (!!requestTypeId && rotation.requestTypeIds.includes(requestTypeId));
+
+// Everyone on call right now, one shift per active rotation, optionally only
+// rotations covering a request type. Rotations naming the type come before
+// catch-all ones, so routing prefers the specialist.
+export const findOnCall = (
+  rotations: OnCallRotation[],
+  overrides: OnCallOverride[],
+  now = new Date(),
+  requestTypeId?: string | null
+) =>
+  rotations
+    .filter((rotation) => rotation.isActive && (requestTypeId === undefined || coversRequestType(rotation, requestTypeId)))
+    .sort((a, b) => b.requestTypeIds.length - a.requestTypeIds.length || a.name.localeCompare(b.name))
+    .map((rotation) => onCallAt(rotation, overrides, now))
+    .filter((shift): shift is OnCallShift => shift !== null);
+
+export interface OnCallHandoff {
+  at: Date;
+  fromId: string | null;
+  toId: string;
+  override: OnCallOverride | null;
+}
+
+// The next `count` changes of hands in a rotation, scheduled or caused by an override
+export const upcomingHandoffs = (
+  rotation: OnCallRotation,
+  overrides: OnCallOverride[],
+  from = new Date(),
+  count = 4
+): OnCallHandoff[] => {
+  if (rotation.memberIds.length === 0) return [];
+
+  // Every moment the holder could change: shift boundaries and override edges
+  const boundaries = new Set<number>();
+  const firstIndex = Math.max(shiftIndex(rotation, from) ?? -1, -1) + 1;
+  for (let index = firstIndex; index < firstIndex + count; index += 1) {
+    boundaries.add(scheduledShift(rotation, index).startsAt.getTime());
+  }
+  overrides
+    .filter((override) => override.rotationId === rotation.id)
+    .forEach((override) => {
+      boundaries.add(new Date(override.startsAt).getTime());
+      boundaries.add(new Date(override.endsAt).getTime());
+    });
+
+  const handoffs: OnCallHandoff[] = [];
+  let holder = onCallAt(rotation, overrides, from)?.profileId ?? null;
+  [...boundaries]
+    .filter((time) => time > from.getTime())
+    .sort((a, b) => a - b)
+    .forEach((time) => {
+      const shift = onCallAt(rotation, overrides, new Date(time));
+      if (!shift || shift.profileId === holder) return;
+      handoffs.push({ at: new Date(time), fromId: holder, toId: shift.profileId, override: shift.override });
+      holder = shift.profileId;
+    });
+  return handoffs.slice(0, count);
+};
@@ -0,0 +1,121 @@
+import { addMinutes, isAfter, isBefore, set } from 'date-fns';
+import type { DeliveryChannel, MessageTemplate, OutboxMessageInput, OutboxStatus, Profile } from '../types/models';
+
+// The outbox viewer shows the newest messages up to this many
+export const OUTBOX_LIMIT = 200;
+
+// A message that still fails after this many attempts is marked 'failed'
+export const MAX_DELIVERY_ATTEMPTS = 5;
+
+// How long a dispatcher may hold a message before another one may retry it
+export const DISPATCH_LEASE_MINUTES = 2;
+
+export const deliveryChannelLabels: Record<DeliveryChannel, string> = {
+  email: 'Email',
+  sms: 'SMS',
+};
+
+export const outboxStatusColors: Record<OutboxStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  sending: 'bg-blue-100 text-blue-800',
+  sent: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+interface TemplateDefinition {
+  label: string;
+  // Urgent pages go out during quiet hours too
+  urgent: boolean;
+  subject: string;
+  body: string;
+  // SMS has no subject and should fit one message
+  sms: string;
+}
+
+// {{placeholders}} are filled from the message's variables
+export const messageTemplateDefinitions: Record<MessageTemplate, TemplateDefinition> = {
+  emergencyRequest: {
+    label: 'Emergency request',
+    urgent: true,
+    subject: 'EMERGENCY: {{title}}',
+    body:
+      'An emergency request was raised by {{requester}}.\n\n' +
+      '{{title}}\n{{description}}\n\nUrgency: {{urgency}}\nPatient impact: {{patientImpact}}\n\n' +
+      'Open the IT operations dashboard to pick it up.',
+    sms: 'EMERGENCY IT request: {{title}} (patient impact: {{patientImpact}}). Check the operations dashboard.',
+  },
+  criticalIncident: {
+    label: 'Critical incident',
+    urgent: true,
+    subject: 'CRITICAL incident: {{incidentType}}',
+    body:
+      'A critical {{incidentType}} incident was reported at {{occurredAt}}.\n\n' +
+      '{{description}}\n\nDevice: {{device}}\n\nOpen the IT operations dashboard to investigate.',
+    sms: 'CRITICAL incident ({{incidentType}}) on {{device}}. Check the operations dashboard.',
+  },
+  requestReceived: {
+    label: 'Request received',
+    urgent: false,
+    subject: 'We received your request: {{title}}',
+    body:
+      'Hello {{recipient}},\n\nYour request "{{title}}" has been logged with the IT team. ' +
+      'You can follow its progress and add comments from your dashboard.',
+    sms: 'Your IT request "{{title}}" has been logged.',
+  },
+};
+
+export const renderTemplate = (text: string, variables: Record<string, string>) =>
+  text.replace(/\{\{(\w+)\}\}/g, (_, name: string) => variables[name] ?? '');
+
+export const renderMessage = (template: MessageTemplate, channel: DeliveryChannel, variables: Record<string, string>) => {
+  const definition = messageTemplateDefinitions[template];
+  return {
+    subject: renderTemplate(definition.subject, variables),
+    body: renderTemplate(channel === 'sms' ? definition.sms : definition.body, variables),
+  };
+};
+
+// Fields every new outbox message starts with; the adapters add them on enqueue
+export const newOutboxMessage = (messageData: OutboxMessageInput, now = new Date()) => ({
+  ...messageData,
+  status: 'pending' as const,
+  attempts: 0,
+  nextAttemptAt: now.toISOString(),
+  lastError: null,
+  deliveredTo: [],
+  sentAt: null,
+});
+
+export const deliveryKey = (recipientId: string, channel: DeliveryChannel) => `${recipientId}:${channel}`;
+
+// Where to send on a channel, or null if the profile has no address for it
+export const deliveryAddress = (profile: Profile, channel: DeliveryChannel) =>
+  (channel === 'email' ? profile.email : profile.phone) || null;
+
+const atTime = (day: Date, time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return set(day, { hours, minutes, seconds: 0, milliseconds: 0 });
+};
+
+// When the profile's quiet hours end if `now` falls inside them, otherwise
+// null. Times are the dispatcher's local time; a window like 22:00-07:00
+// runs over midnight.
+export const quietHoursEndAt = (profile: Profile, now = new Date()) => {
+  const { quietHoursStart, quietHoursEnd } = profile;
+  if (!quietHoursStart || !quietHoursEnd || quietHoursStart === quietHoursEnd) return null;
+
+  const start = atTime(now, quietHoursStart);
+  const end = atTime(now, quietHoursEnd);
+  if (isBefore(start, end)) {
+    return !isBefore(now, start) && isBefore(now, end) ? end : null;
+  }
+  // Over midnight: quiet from start until midnight, and from midnight until end
+  if (isBefore(now, end)) return end;
+  if (!isBefore(now, start)) return addMinutes(end, 24 * 60);
+  return null;
+};
+
+// Exponential backoff: 1, 2, 4, 8 minutes...
+export const retryAt = (attempts: number, now = new Date()) => addMinutes(now, 2 ** Math.max(attempts - 1, 0));
+
+export const isDue = (nextAttemptAt: string, now = new Date()) => !isAfter(new Date(nextAttemptAt), now);
@@ -0,0 +1,29 @@
+export interface PeriodicJobOptions<T> {
+  // Used in the log line when a run fails, e.g. 'Escalation run'
+  name: string;
+  intervalMs: number;
+  onResult?: (result: T) => void;
+}
+
+// Runs `job` straight away and then every `intervalMs` until the returned
+// function is called. A run that is still going when the next one is due is
+// skipped rather than started twice, so a slow backend never sees overlapping
+// runs. Failures are logged and the timer carries on.
+export const startPeriodicJob = <T>(job: () => Promise<T>, { name, intervalMs, onResult }: PeriodicJobOptions<T>) => {
+  let running = false;
+  const run = async () => {
+    if (running) return;
+    running = true;
+    try {
+      onResult?.(await job());
+    } catch (error) {
+      console.error(`${name} failed:`, error);
+    } finally {
+      running = false;
+    }
+  };
+
+  run();
+  const timer = setInterval(run, intervalMs);
+  return () => clearInterval(timer);
+};
@@ -0,0 +1,106 @@
+import { userRoles } from '../types/models';
+import type { UserRole } from '../types/models';
+
+// Named capabilities checked by the dashboard, the service layer and (with the
+// same names) the has_capability() function in the Supabase migrations.
+export const capabilities = [
+  'requests.viewAll',
+  'requests.viewDepartment',
+  'requests.approve',
+  'requests.work',
+  'requests.assign',
+  'devices.view',
+  'devices.manage',
+  'maintenance.view',
+  'maintenance.manage',
+  'inventory.view',
+  'inventory.manage',
+  'compliance.view',
+  'compliance.manage',
+  'incidents.view',
+  'incidents.manage',
+  'catalog.manage',
+  'escalations.manage',
+  'contracts.view',
+  'contracts.manage',
+  'users.manage',
+  'system.configure',
+  'analytics.view',
+  'audit.view',
+] as const;
+export type Capability = typeof capabilities[number];
+
+export const roleLabels: Record<UserRole, string> = {
+  admin: 'Administrator',
+  technician: 'Biomedical Technician',
+  department_head: 'Department Head',
+  auditor: 'Compliance Auditor',
+  user: 'Staff Member',
+};
+
+export const roleDescriptions: Record<UserRole, string> = {
+  admin: 'Full access to every part of the system',
+  technician: 'Works maintenance, incidents and requests for all departments',
+  department_head: "Sees and approves their own department's requests",
+  auditor: 'Read-only access to equipment, maintenance, compliance records and the audit log',
+  user: 'Submits requests and reports incidents',
+};
+
+// Badge colours used wherever a role is shown
+export const roleBadgeColors: Record<UserRole, string> = {
+  admin: 'bg-purple-100 text-purple-700',
+  technician: 'bg-teal-100 text-teal-700',
+  department_head: 'bg-indigo-100 text-indigo-700',
+  auditor: 'bg-amber-100 text-amber-700',
+  user: 'bg-blue-100 text-blue-700',
+};
+
+const roleCapabilities: Record<UserRole, readonly Capability[]> = {
+  admin: capabilities,
+  technician: [
+    'requests.viewAll',
+    'requests.work',
+    'devices.view',
+    'maintenance.view',
+    'maintenance.manage',
+    'inventory.view',
+    'compliance.view',
+    'incidents.view',
+    'incidents.manage',
+    'contracts.view',
+  ],
+  department_head: [
+    'requests.viewDepartment',
+    'requests.approve',
+    'devices.view',
+    'maintenance.view',
+    'incidents.view',
+    'analytics.view',
+  ],
+  auditor: [
+    'requests.viewAll',
+    'devices.view',
+    'maintenance.view',
+    'inventory.view',
+    'compliance.view',
+    'incidents.view',
+    'contracts.view',
+    'analytics.view',
+    'audit.view',
+  ],
+  user: [],
+};
+
+export const hasCapability = (role: UserRole | null | undefined, capability: Capability) =>
+  !!role && roleCapabilities[role].includes(capability);
+
+export const hasAnyCapability = (role: UserRole | null | undefined, required: readonly Capability[]) =>
+  required.some((capability) => hasCapability(role, capability));
+
+// Roles with any capability get the operations dashboard instead of the staff one
+export const isOperationsRole = (role: UserRole | null | undefined) =>
+  !!role && roleCapabilities[role].length > 0;
+
+// Who to notify about work that needs a capability, e.g. every role that can work on requests
+export const rolesWithCapability = (capability: Capability) =>
+  userRoles.filter((role) => hasCapability(role, capability));
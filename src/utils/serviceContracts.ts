@@ -0,0 +1,38 @@
+import { differenceInCalendarDays, isBefore } from 'date-fns';
+import type { Device, ServiceContract } from '../types/models';
+
+// Contracts ending within this many days are flagged for renewal
+export const CONTRACT_EXPIRY_WARNING_DAYS = 60;
+
+export type ContractHealth = 'upcoming' | 'active' | 'expiring' | 'expired' | 'terminated';
+
+export const daysUntilContractEnds = (contract: ServiceContract, now = new Date()) =>
+  differenceInCalendarDays(new Date(contract.endDate), now);
+
+// Where a contract stands today, based on its dates rather than the stored status
+export const getContractHealth = (contract: ServiceContract, now = new Date()): ContractHealth => {
+  if (contract.status === 'terminated') return 'terminated';
+  if (isBefore(now, new Date(contract.startDate))) return 'upcoming';
+
+  const daysLeft = daysUntilContractEnds(contract, now);
+  if (daysLeft < 0) return 'expired';
+  if (daysLeft <= CONTRACT_EXPIRY_WARNING_DAYS) return 'expiring';
+  return 'active';
+};
+
+export const isContractInForce = (contract: ServiceContract, now = new Date()) =>
+  ['active', 'expiring'].includes(getContractHealth(contract, now));
+
+export const contractCoversDevice = (contract: ServiceContract, device: Pick<Device, 'id' | 'equipmentTypeId'>) =>
+  contract.deviceIds.includes(device.id) ||
+  (contract.equipmentTypeId !== null && contract.equipmentTypeId === device.equipmentTypeId);
+
+// Contracts in force for a device, ones naming the device directly first
+export const findCoveringContracts = (
+  contracts: ServiceContract[],
+  device: Pick<Device, 'id' | 'equipmentTypeId'>,
+  now = new Date()
+) =>
+  contracts
+    .filter(contract => contractCoversDevice(contract, device) && isContractInForce(contract, now))
+    .sort((a, b) => Number(b.deviceIds.includes(device.id)) - Number(a.deviceIds.includes(device.id)));
@@ -0,0 +1,164 @@
+import { addMinutes, differenceInMinutes } from 'date-fns';
+import type { Request, SlaPolicy } from '../types/models';
+
+// A running clock is flagged at risk once this share of its window has passed
+export const SLA_AT_RISK_RATIO = 0.75;
+
+// none: no target; on_track/at_risk/breached: still running; met/missed: stopped
+export type SlaClockState = 'none' | 'on_track' | 'at_risk' | 'breached' | 'met' | 'missed';
+
+export interface SlaClock {
+  state: SlaClockState;
+  dueAt: string | null;
+  // Negative once overdue; for stopped clocks, the margin it stopped with
+  minutesLeft: number | null;
+}
+
+// New requests may leave priority and urgency to the schema defaults
+type SlaSubject = Partial<Pick<Request, 'priority' | 'urgencyLevel' | 'requestTypeId'>>;
+
+type SlaTracked = Pick<
+  Request,
+  'status' | 'createdAt' | 'updatedAt' | 'completedAt' | 'respondedAt' | 'responseDueAt' | 'resolutionDueAt'
+>;
+
+export const slaStateLabels: Record<SlaClockState, string> = {
+  none: 'No SLA',
+  on_track: 'On track',
+  at_risk: 'At risk',
+  breached: 'Breached',
+  met: 'Met',
+  missed: 'Missed',
+};
+
+export const slaStateColors: Record<SlaClockState, string> = {
+  none: 'bg-gray-100 text-gray-600',
+  on_track: 'bg-green-100 text-green-700',
+  at_risk: 'bg-yellow-100 text-yellow-700',
+  breached: 'bg-red-100 text-red-700',
+  met: 'bg-green-100 text-green-700',
+  missed: 'bg-red-100 text-red-700',
+};
+
+const specificity = (policy: SlaPolicy) =>
+  [policy.priority, policy.urgencyLevel, policy.requestTypeId].filter((criterion) => criterion !== null).length;
+
+export const slaPolicyMatches = (policy: SlaPolicy, request: SlaSubject) =>
+  policy.isActive &&
+  (policy.priority === null || policy.priority === (request.priority ?? 'medium')) &&
+  (policy.urgencyLevel === null || policy.urgencyLevel === (request.urgencyLevel ?? 'routine')) &&
+  (policy.requestTypeId === null || policy.requestTypeId === request.requestTypeId);
+
+// Most specific matching policy; ties go to the stricter resolution target
+export const findSlaPolicy = (policies: SlaPolicy[], request: SlaSubject) =>
+  policies
+    .filter((policy) => slaPolicyMatches(policy, request))
+    .sort((a, b) => specificity(b) - specificity(a) || a.resolutionMinutes - b.resolutionMinutes)[0] ?? null;
+
+// The SLA fields stored on a request when it is created
+export const computeSlaTargets = (policy: SlaPolicy | null, createdAt = new Date()) => ({
+  slaPolicyId: policy?.id ?? null,
+  responseDueAt: policy ? addMinutes(createdAt, policy.responseMinutes).toISOString() : null,
+  resolutionDueAt: policy ? addMinutes(createdAt, policy.resolutionMinutes).toISOString() : null,
+});
+
+const clockFor = (startedAt: string | null, dueAt: string | null, stoppedAt: string | null, now: Date): SlaClock => {
+  if (!dueAt) return { state: 'none', dueAt: null, minutesLeft: null };
+
+  const due = new Date(dueAt);
+  if (stoppedAt) {
+    const margin = differenceInMinutes(due, new Date(stoppedAt));
+    return { state: margin >= 0 ? 'met' : 'missed', dueAt, minutesLeft: margin };
+  }
+
+  const minutesLeft = differenceInMinutes(due, now);
+  if (minutesLeft < 0) return { state: 'breached', dueAt, minutesLeft };
+
+  const window = startedAt ? differenceInMinutes(due, new Date(startedAt)) : 0;
+  const atRisk = window > 0 && minutesLeft <= window * (1 - SLA_AT_RISK_RATIO);
+  return { state: atRisk ? 'at_risk' : 'on_track', dueAt, minutesLeft };
+};
+
+// Requests from before SLA tracking have no respondedAt/completedAt, so fall
+// back to their last update once they have clearly moved on
+export const getResponseClock = (request: SlaTracked, now = new Date()) =>
+  clockFor(
+    request.createdAt,
+    request.responseDueAt,
+    request.respondedAt ?? (request.status !== 'pending' ? request.updatedAt : null),
+    now
+  );
+
+// A rejected request has nothing left to resolve, so it does not count either way
+export const getResolutionClock = (request: SlaTracked, now = new Date()): SlaClock =>
+  request.status === 'rejected'
+    ? { state: 'none', dueAt: request.resolutionDueAt, minutesLeft: null }
+    : clockFor(
+        request.createdAt,
+        request.resolutionDueAt,
+        request.completedAt ?? (request.status === 'completed' ? request.updatedAt : null),
+        now
+      );
+
+export const isSlaBreached = (request: SlaTracked, now = new Date()) =>
+  [getResponseClock(request, now), getResolutionClock(request, now)].some(
+    (clock) => clock.state === 'breached' || clock.state === 'missed'
+  );
+
+// The clock that matters right now: response until someone picks the request up, then resolution
+export const getActiveSlaClock = (request: SlaTracked, now = new Date()) => {
+  const response = getResponseClock(request, now);
+  return response.state === 'on_track' || response.state === 'at_risk' || response.state === 'breached'
+    ? { kind: 'Response' as const, clock: response }
+    : { kind: 'Resolution' as const, clock: getResolutionClock(request, now) };
+};
+
+// 95 -> "1h 35m", 3000 -> "2d 2h"
+export const formatSlaDuration = (minutes: number) => {
+  const total = Math.abs(minutes);
+  const days = Math.floor(total / 1440);
+  const hours = Math.floor((total % 1440) / 60);
+  const mins = total % 60;
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${mins}m`;
+  return `${mins}m`;
+};
+
+export const describeSlaClock = (clock: SlaClock) => {
+  if (clock.minutesLeft === null) return slaStateLabels[clock.state];
+  const duration = formatSlaDuration(clock.minutesLeft);
+  switch (clock.state) {
+    case 'breached':
+      return `Overdue by ${duration}`;
+    case 'met':
+      return `Met with ${duration} to spare`;
+    case 'missed':
+      return `Missed by ${duration}`;
+    default:
+      return `Due in ${duration}`;
+  }
+};
+
+export interface SlaCompliance {
+  measured: number;
+  met: number;
+  // Null when nothing could be measured yet
+  percentage: number | null;
+}
+
+// Counts finished clocks plus running ones that are already overdue
+export const computeSlaCompliance = (
+  requests: SlaTracked[],
+  clockOf: (request: SlaTracked, now: Date) => SlaClock,
+  now = new Date()
+): SlaCompliance => {
+  const states = requests
+    .map((request) => clockOf(request, now).state)
+    .filter((state) => state === 'met' || state === 'missed' || state === 'breached');
+  const met = states.filter((state) => state === 'met').length;
+  return {
+    measured: states.length,
+    met,
+    percentage: states.length > 0 ? Math.round((met / states.length) * 100) : null,
+  };
+};
@@ -0,0 +1,67 @@
+import type { PartConsumption, PartUsage, SparePart, StockLevel } from '../types/models';
+
+export class InsufficientStockError extends Error {
+  readonly partId: string;
+
+  constructor(part: Pick<SparePart, 'id' | 'name' | 'partNumber'>, storeRoom: string, available: number, wanted: number) {
+    super(`Only ${available} of ${part.name} (${part.partNumber}) in ${storeRoom}, ${wanted} needed`);
+    this.name = 'InsufficientStockError';
+    this.partId = part.id;
+  }
+}
+
+export const totalStock = (part: SparePart) =>
+  part.stockLevels.reduce((sum, level) => sum + level.quantity, 0);
+
+export const stockIn = (part: SparePart, storeRoom: string) =>
+  part.stockLevels.find((level) => level.storeRoom === storeRoom)?.quantity ?? 0;
+
+export const isLowStock = (part: SparePart) => totalStock(part) <= part.reorderPoint;
+
+// Emptiest first, so the parts that have run out lead the list
+export const lowStockParts = (parts: SparePart[]) =>
+  parts.filter(isLowStock).sort((a, b) => totalStock(a) - a.reorderPoint - (totalStock(b) - b.reorderPoint));
+
+// Every store room named on any part, for suggestions in the forms
+export const knownStoreRooms = (parts: SparePart[]) =>
+  [...new Set(parts.flatMap((part) => part.stockLevels.map((level) => level.storeRoom)))].sort();
+
+// Parts listed for the equipment type first, then the rest
+export const partsForEquipmentType = (parts: SparePart[], equipmentTypeId: string | null | undefined) => {
+  const fits = (part: SparePart) => !!equipmentTypeId && part.compatibleEquipmentTypeIds.includes(equipmentTypeId);
+  return [...parts.filter(fits), ...parts.filter((part) => !fits(part))];
+};
+
+// The inventory lines of a work order, ready for consumeParts
+export const consumptionFor = (partsUsed: PartUsage[]): PartConsumption[] =>
+  partsUsed
+    .filter((usage): usage is PartUsage & { partId: string; storeRoom: string } => !!usage.partId && !!usage.storeRoom)
+    .map((usage) => ({ partId: usage.partId, storeRoom: usage.storeRoom, quantity: usage.quantity }));
+
+// Stock left once `usages` (lines for this part) are taken out; throws when a store room runs short
+export const applyConsumption = (part: SparePart, usages: PartConsumption[]): StockLevel[] =>
+  usages.reduce((levels, usage) => {
+    const available = levels.find((level) => level.storeRoom === usage.storeRoom)?.quantity ?? 0;
+    if (available < usage.quantity) throw new InsufficientStockError(part, usage.storeRoom, available, usage.quantity);
+    return levels.map((level) =>
+      level.storeRoom === usage.storeRoom ? { ...level, quantity: level.quantity - usage.quantity } : level
+    );
+  }, part.stockLevels);
+
+// Stock lines that can't be booked out as they stand, as messages for the work order
+export const stockShortages = (partsUsed: PartUsage[], parts: SparePart[]) => {
+  const shortages = partsUsed
+    .filter((usage) => usage.partId && !usage.storeRoom)
+    .map((usage) => `No store room picked for ${usage.description}`);
+  const consumption = consumptionFor(partsUsed);
+  new Set(consumption.map((usage) => usage.partId)).forEach((partId) => {
+    const part = parts.find((candidate) => candidate.id === partId);
+    if (!part) return;
+    try {
+      applyConsumption(part, consumption.filter((usage) => usage.partId === partId));
+    } catch (error) {
+      shortages.push((error as Error).message);
+    }
+  });
+  return shortages;
+};
@@ -0,0 +1,47 @@
+import type { ChecklistItem, ChecklistResult, EquipmentType, MaintenanceSchedule, PartUsage } from '../types/models';
+
+export const newChecklistItem = (): ChecklistItem => ({
+  id: crypto.randomUUID(),
+  label: '',
+  kind: 'check',
+  required: true,
+  unit: null,
+  min: null,
+  max: null,
+});
+
+// Copied onto the work order when a visit starts
+export const checklistFor = (equipmentType: EquipmentType | undefined): ChecklistResult[] =>
+  (equipmentType?.checklist ?? []).map((item) => ({ ...item, done: false, value: null }));
+
+export const describeTolerance = (item: ChecklistItem) => {
+  const unit = item.unit ? ` ${item.unit}` : '';
+  if (item.min !== null && item.max !== null) return `${item.min}–${item.max}${unit}`;
+  if (item.max !== null) return `≤ ${item.max}${unit}`;
+  if (item.min !== null) return `≥ ${item.min}${unit}`;
+  return 'No tolerance';
+};
+
+// null until a reading has been taken; checks have no pass/fail of their own
+export const readingPassed = (result: ChecklistResult) => {
+  if (result.kind !== 'reading' || result.value === null) return null;
+  return (result.min === null || result.value >= result.min) && (result.max === null || result.value <= result.max);
+};
+
+export const isItemDone = (result: ChecklistResult) =>
+  result.kind === 'reading' ? result.value !== null : result.done;
+
+export const failedReadings = (checklist: ChecklistResult[]) =>
+  checklist.filter((result) => readingPassed(result) === false);
+
+export const partsTotal = (parts: PartUsage[]) =>
+  parts.reduce((sum, part) => sum + part.quantity * (part.unitCost ?? 0), 0);
+
+// Reasons a visit can't be completed yet; empty when it can
+export const completionBlockers = (schedule: Pick<MaintenanceSchedule, 'checklist' | 'labourHours'>) => {
+  const blockers = schedule.checklist
+    .filter((result) => result.required && !isItemDone(result))
+    .map((result) => `${result.label} is not done`);
+  if (schedule.labourHours === null) blockers.push('Labour hours are not recorded');
+  return blockers;
+};
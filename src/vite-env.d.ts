@@ -1 +1,17 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_DATA_BACKEND?: 'firebase' | 'supabase' | 'memory';
+  readonly VITE_STORAGE_BACKEND?: 'firebase' | 'supabase' | 'local';
+  readonly VITE_MESSAGE_TRANSPORT?: 'local' | 'http';
+  readonly VITE_MESSAGE_RELAY_URL?: string;
+  readonly VITE_SUPABASE_URL?: string;
+  readonly VITE_SUPABASE_ANON_KEY?: string;
+  // Only set in the background worker build (vite.worker.config.ts)
+  readonly WORKER_EMAIL?: string;
+  readonly WORKER_PASSWORD?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
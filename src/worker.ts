@@ -0,0 +1,46 @@
+import { authService, dataBackend, messageTransportKind, profileService } from './services';
+import { setAccessContext } from './services/accessControl';
+import { ESCALATION_INTERVAL_MS, runEscalations } from './services/escalationJob';
+import { OUTBOX_DISPATCH_INTERVAL_MS, dispatchOutbox } from './services/outboxDispatcher';
+import { hasCapability } from './utils/permissions';
+import { startPeriodicJob } from './utils/periodicJob';
+
+// Headless entry point for the background jobs, so they keep running when no
+// dashboard is open. `npm run build:worker` bundles it with the same .env as
+// the app and `npm run worker` starts it on a server; see docs/background-jobs.md.
+// It signs in as WORKER_EMAIL / WORKER_PASSWORD, which are read from the
+// server's environment when it starts, and the jobs run with that account's role.
+
+const start = async () => {
+  if (dataBackend === 'memory') {
+    throw new Error('The offline demo keeps its data in the browser; the worker needs the Firebase or Supabase backend');
+  }
+
+  const email = import.meta.env.WORKER_EMAIL;
+  const password = import.meta.env.WORKER_PASSWORD;
+  if (!email || !password) {
+    throw new Error('Set WORKER_EMAIL and WORKER_PASSWORD to the account the worker signs in with');
+  }
+
+  const account = await authService.signIn(email, password);
+  const profile = await profileService.getProfile(account.uid);
+  if (!profile) throw new Error(`${email} has no profile; sign in to the app once to create it`);
+  setAccessContext({ userId: profile.id, role: profile.role, departmentId: profile.departmentId });
+
+  // Each job needs the same capability as on the dashboard
+  const sendsMessages = hasCapability(profile.role, 'requests.work');
+  const runsEscalations = hasCapability(profile.role, 'escalations.manage');
+  if (!sendsMessages && !runsEscalations) {
+    throw new Error(`${email} may neither send queued email and SMS nor run escalations`);
+  }
+  if (sendsMessages && messageTransportKind !== 'http') {
+    throw new Error('Set VITE_MESSAGE_TRANSPORT=http so the worker hands messages to the relay');
+  }
+  if (sendsMessages) startPeriodicJob(dispatchOutbox, { name: 'Outbox dispatch', intervalMs: OUTBOX_DISPATCH_INTERVAL_MS });
+  if (runsEscalations) startPeriodicJob(runEscalations, { name: 'Escalation run', intervalMs: ESCALATION_INTERVAL_MS });
+  console.log(`Background jobs running as ${email} on the ${dataBackend} backend`);
+};
+
+// A failed start is an unhandled rejection, which stops Node with a non-zero
+// exit code so the process manager can restart the worker
+start();
@@ -0,0 +1,16 @@
+/*
+  # Service contract device coverage
+
+  1. Changes
+    - `service_contracts.device_ids` - individual devices a contract covers,
+      on top of every device of its `equipment_type_id`
+
+  2. Indexes
+    - Lookups by equipment type and by covered device, used to find the
+      vendor to call for a faulty device
+*/
+
+ALTER TABLE service_contracts ADD COLUMN IF NOT EXISTS device_ids uuid[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_service_contracts_equipment_type ON service_contracts(equipment_type_id);
+CREATE INDEX IF NOT EXISTS idx_service_contracts_devices ON service_contracts USING gin(device_ids);
@@ -0,0 +1,27 @@
+/*
+  # Realtime change feeds
+
+  1. Changes
+    - Adds `requests`, `incident_reports`, `devices` and `maintenance_schedules`
+      to the `supabase_realtime` publication so dashboards can subscribe to
+      inserts, updates and deletes instead of polling
+
+  2. Security
+    - Realtime respects the existing RLS policies; users only receive changes
+      to rows they are allowed to select
+*/
+
+DO $$
+DECLARE
+  live_table text;
+BEGIN
+  FOREACH live_table IN ARRAY ARRAY['requests', 'incident_reports', 'devices', 'maintenance_schedules']
+  LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = live_table
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', live_table);
+    END IF;
+  END LOOP;
+END $$;
@@ -0,0 +1,19 @@
+/*
+  # Extended user roles
+
+  1. Changes
+    - `user_role` gains `technician`, `department_head` and `auditor`
+    - `requests.approved_by` / `requests.approved_at` - set when a department
+      head signs a request off
+
+  2. Notes
+    - New enum values cannot be used in the transaction that adds them, so the
+      policies that reference them live in the next migration
+*/
+
+ALTER TYPE user_role ADD VALUE IF NOT EXISTS 'technician';
+ALTER TYPE user_role ADD VALUE IF NOT EXISTS 'department_head';
+ALTER TYPE user_role ADD VALUE IF NOT EXISTS 'auditor';
+
+ALTER TABLE requests ADD COLUMN IF NOT EXISTS approved_by uuid REFERENCES profiles(id);
+ALTER TABLE requests ADD COLUMN IF NOT EXISTS approved_at timestamptz;
@@ -0,0 +1,160 @@
+/*
+  # Capability-based access policies
+
+  1. Functions
+    - `current_user_role()` / `current_user_department()` - the signed-in
+      user's profile, read without triggering profile RLS
+    - `has_capability(text)` - mirrors the role matrix in
+      src/utils/permissions.ts; keep the two in sync
+
+  2. Security
+    - Admin-only policies are replaced by capability checks so technicians,
+      department heads and auditors get their share of access
+    - Department heads read and approve requests of their own department
+*/
+
+CREATE OR REPLACE FUNCTION current_user_role()
+RETURNS user_role
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT role FROM profiles WHERE user_id = auth.uid();
+$$;
+
+CREATE OR REPLACE FUNCTION current_user_department()
+RETURNS uuid
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT department_id FROM profiles WHERE user_id = auth.uid();
+$$;
+
+CREATE OR REPLACE FUNCTION has_capability(capability text)
+RETURNS boolean
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT CASE current_user_role()
+    WHEN 'admin' THEN true
+    WHEN 'technician' THEN capability IN (
+      'requests.viewAll', 'requests.work', 'devices.view', 'maintenance.view',
+      'maintenance.manage', 'compliance.view', 'incidents.view', 'incidents.manage',
+      'contracts.view'
+    )
+    WHEN 'department_head' THEN capability IN (
+      'requests.viewDepartment', 'requests.approve', 'devices.view',
+      'maintenance.view', 'incidents.view', 'analytics.view'
+    )
+    WHEN 'auditor' THEN capability IN (
+      'requests.viewAll', 'devices.view', 'maintenance.view', 'compliance.view',
+      'incidents.view', 'contracts.view', 'analytics.view'
+    )
+    ELSE false
+  END;
+$$;
+
+-- Profiles
+DROP POLICY IF EXISTS "Admins can read all profiles" ON profiles;
+DROP POLICY IF EXISTS "Admins can update profiles" ON profiles;
+
+CREATE POLICY "Operations roles can read all profiles"
+  ON profiles FOR SELECT
+  TO authenticated
+  USING (current_user_role() <> 'user');
+
+CREATE POLICY "User managers can manage profiles"
+  ON profiles FOR ALL
+  TO authenticated
+  USING (has_capability('users.manage'))
+  WITH CHECK (has_capability('users.manage'));
+
+-- Departments, equipment types and catalog
+DROP POLICY IF EXISTS "Admins can manage departments" ON departments;
+DROP POLICY IF EXISTS "Admins can manage equipment types" ON equipment_types;
+
+CREATE POLICY "User managers can manage departments"
+  ON departments FOR ALL
+  TO authenticated
+  USING (has_capability('users.manage'))
+  WITH CHECK (has_capability('users.manage'));
+
+CREATE POLICY "Catalog managers can manage equipment types"
+  ON equipment_types FOR ALL
+  TO authenticated
+  USING (has_capability('catalog.manage'))
+  WITH CHECK (has_capability('catalog.manage'));
+
+-- Devices
+DROP POLICY IF EXISTS "Admins can manage devices" ON devices;
+
+CREATE POLICY "Device managers can manage devices"
+  ON devices FOR ALL
+  TO authenticated
+  USING (has_capability('devices.manage'))
+  WITH CHECK (has_capability('devices.manage'));
+
+-- Requests
+DROP POLICY IF EXISTS "Admins can read all requests" ON requests;
+DROP POLICY IF EXISTS "Admins can update requests" ON requests;
+
+CREATE POLICY "Staff with full visibility can read all requests"
+  ON requests FOR SELECT
+  TO authenticated
+  USING (has_capability('requests.viewAll'));
+
+CREATE POLICY "Department heads can read department requests"
+  ON requests FOR SELECT
+  TO authenticated
+  USING (
+    has_capability('requests.viewDepartment')
+    AND department_id = current_user_department()
+  );
+
+CREATE POLICY "Technicians and approvers can update requests"
+  ON requests FOR UPDATE
+  TO authenticated
+  USING (
+    has_capability('requests.work')
+    OR (has_capability('requests.approve') AND department_id = current_user_department())
+  )
+  WITH CHECK (
+    has_capability('requests.work')
+    OR (has_capability('requests.approve') AND department_id = current_user_department())
+  );
+
+-- Maintenance and compliance
+DROP POLICY IF EXISTS "Admins can manage maintenance schedules" ON maintenance_schedules;
+DROP POLICY IF EXISTS "Admins can manage compliance records" ON compliance_records;
+
+CREATE POLICY "Maintenance managers can manage schedules"
+  ON maintenance_schedules FOR ALL
+  TO authenticated
+  USING (has_capability('maintenance.manage'))
+  WITH CHECK (has_capability('maintenance.manage'));
+
+CREATE POLICY "Compliance managers can manage compliance records"
+  ON compliance_records FOR ALL
+  TO authenticated
+  USING (has_capability('compliance.manage'))
+  WITH CHECK (has_capability('compliance.manage'));
+
+-- Incidents
+DROP POLICY IF EXISTS "Admins can read all incident reports" ON incident_reports;
+DROP POLICY IF EXISTS "Admins can manage incident reports" ON incident_reports;
+
+CREATE POLICY "Incident viewers can read all incident reports"
+  ON incident_reports FOR SELECT
+  TO authenticated
+  USING (has_capability('incidents.view'));
+
+CREATE POLICY "Incident managers can manage incident reports"
+  ON incident_reports FOR ALL
+  TO authenticated
+  USING (has_capability('incidents.manage'))
+  WITH CHECK (has_capability('incidents.manage'));
+
+-- Service contracts
+DROP POLICY IF EXISTS "Admins can manage service contracts" ON service_contracts;
+
+CREATE POLICY "Contract managers can manage service contracts"
+  ON service_contracts FOR ALL
+  TO authenticated
+  USING (has_capability('contracts.manage'))
+  WITH CHECK (has_capability('contracts.manage'));
@@ -0,0 +1,78 @@
+/*
+  # First-run setup
+
+  1. New Tables
+    - `system_config` - single row written by the setup wizard: organisation
+      name, first administrator and when sample data was loaded
+
+  2. Functions
+    - `complete_setup(organization_name, admin_profile_id)` - records the
+      organisation and promotes the caller's own profile to admin; refuses to
+      run once a config row exists
+    - `handle_new_user()` - no longer grants admin to a hard-coded email;
+      every new account starts as a regular user
+
+  3. Security
+    - Anyone may read the config (the app checks it before sign-in)
+    - Only users with the `system.configure` capability may change it
+*/
+
+CREATE TABLE IF NOT EXISTS system_config (
+  id text PRIMARY KEY DEFAULT 'config' CHECK (id = 'config'),
+  organization_name text NOT NULL,
+  setup_completed_by uuid NOT NULL REFERENCES profiles(id),
+  setup_completed_at timestamptz NOT NULL DEFAULT now(),
+  sample_data_seeded_at timestamptz
+);
+
+ALTER TABLE system_config ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can read system config" ON system_config;
+CREATE POLICY "Anyone can read system config"
+  ON system_config FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "System configurators can update system config" ON system_config;
+CREATE POLICY "System configurators can update system config"
+  ON system_config FOR UPDATE
+  TO authenticated
+  USING (has_capability('system.configure'))
+  WITH CHECK (has_capability('system.configure'));
+
+CREATE OR REPLACE FUNCTION complete_setup(organization_name text, admin_profile_id uuid)
+RETURNS void
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM system_config) THEN
+    RAISE EXCEPTION 'Setup has already been completed';
+  END IF;
+
+  UPDATE profiles
+  SET role = 'admin', updated_at = now()
+  WHERE id = admin_profile_id AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only your own account can become the first administrator';
+  END IF;
+
+  -- The fixed primary key also stops two concurrent setups from both succeeding
+  INSERT INTO system_config (id, organization_name, setup_completed_by)
+  VALUES ('config', organization_name, admin_profile_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION handle_new_user()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.profiles (user_id, email, full_name, role)
+  VALUES (
+    NEW.id,
+    NEW.email,
+    COALESCE(NEW.raw_user_meta_data->>'full_name', NEW.email),
+    'user'::user_role
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
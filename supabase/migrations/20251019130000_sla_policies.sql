@@ -0,0 +1,55 @@
+/*
+  # SLA policies
+
+  1. New Tables
+    - `sla_policies` - response and resolution targets in minutes, matched to
+      new requests by priority, urgency level and request type (a null
+      criterion matches anything)
+
+  2. Changes
+    - `requests.sla_policy_id` - the policy whose targets the request was given
+    - `requests.response_due_at` / `requests.resolution_due_at` - targets
+      stamped when the request is created
+    - `requests.responded_at` - when the request first left `pending`
+
+  3. Security
+    - Any signed-in user may read policies
+    - Only users with the `catalog.manage` capability may change them
+
+  4. Notes
+    - Existing requests keep null targets and show as "No SLA"
+*/
+
+CREATE TABLE IF NOT EXISTS sla_policies (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  priority text CHECK (priority IN ('low', 'medium', 'high', 'urgent')),
+  urgency_level text CHECK (urgency_level IN ('routine', 'urgent', 'critical', 'emergency')),
+  request_type_id uuid REFERENCES request_types(id) ON DELETE CASCADE,
+  response_minutes integer NOT NULL CHECK (response_minutes > 0),
+  resolution_minutes integer NOT NULL CHECK (resolution_minutes >= response_minutes),
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE sla_policies ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can read SLA policies" ON sla_policies;
+CREATE POLICY "Authenticated users can read SLA policies"
+  ON sla_policies FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Catalog managers can manage SLA policies" ON sla_policies;
+CREATE POLICY "Catalog managers can manage SLA policies"
+  ON sla_policies FOR ALL
+  TO authenticated
+  USING (has_capability('catalog.manage'))
+  WITH CHECK (has_capability('catalog.manage'));
+
+ALTER TABLE requests ADD COLUMN IF NOT EXISTS sla_policy_id uuid REFERENCES sla_policies(id) ON DELETE SET NULL;
+ALTER TABLE requests ADD COLUMN IF NOT EXISTS response_due_at timestamptz;
+ALTER TABLE requests ADD COLUMN IF NOT EXISTS resolution_due_at timestamptz;
+ALTER TABLE requests ADD COLUMN IF NOT EXISTS responded_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_requests_resolution_due_at ON requests(resolution_due_at) WHERE status IN ('pending', 'in_progress');
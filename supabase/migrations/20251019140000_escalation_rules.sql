@@ -0,0 +1,87 @@
+/*
+  # Escalation rules
+
+  1. New Tables
+    - `escalation_rules` - escalate requests still `pending` (or incidents
+      still `open`) after `threshold_minutes`: raise the priority/severity
+      and/or reassign to an on-call admin
+    - `escalation_events` - history of every escalation; one row per rule and
+      record, which also stops concurrent runs from escalating twice
+
+  2. Changes
+    - `incident_reports.assigned_to` - who is working the incident
+
+  3. Security
+    - Any signed-in user may read rules; `escalations.manage` may change them
+    - History is readable by escalation managers and by anyone who sees all
+      requests or incidents, and is append-only
+
+  4. Notes
+    - The rules run in the application (src/services/escalationJob.ts) so
+      they behave the same on every backend. `check_request_escalation`
+      still raises emergency/critical requests to urgent on write.
+    - `rule_id` / `target_id` carry no foreign keys: history outlives deleted
+      rules, and the target is either a request or an incident
+*/
+
+CREATE TABLE IF NOT EXISTS escalation_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  applies_to text NOT NULL CHECK (applies_to IN ('request', 'incident')),
+  threshold_minutes integer NOT NULL CHECK (threshold_minutes > 0),
+  raise_priority_to text,
+  reassign_to_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS escalation_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  rule_id uuid NOT NULL,
+  rule_name text NOT NULL,
+  target_type text NOT NULL CHECK (target_type IN ('request', 'incident')),
+  target_id uuid NOT NULL,
+  target_title text NOT NULL DEFAULT '',
+  previous_priority text NOT NULL,
+  new_priority text NOT NULL,
+  previous_assignee_id uuid,
+  new_assignee_id uuid,
+  escalated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (rule_id, target_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_escalation_events_escalated_at ON escalation_events(escalated_at DESC);
+
+ALTER TABLE incident_reports ADD COLUMN IF NOT EXISTS assigned_to uuid REFERENCES profiles(id);
+
+ALTER TABLE escalation_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE escalation_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can read escalation rules" ON escalation_rules;
+CREATE POLICY "Authenticated users can read escalation rules"
+  ON escalation_rules FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Escalation managers can manage escalation rules" ON escalation_rules;
+CREATE POLICY "Escalation managers can manage escalation rules"
+  ON escalation_rules FOR ALL
+  TO authenticated
+  USING (has_capability('escalations.manage'))
+  WITH CHECK (has_capability('escalations.manage'));
+
+DROP POLICY IF EXISTS "Request and incident viewers can read escalation history" ON escalation_events;
+CREATE POLICY "Request and incident viewers can read escalation history"
+  ON escalation_events FOR SELECT
+  TO authenticated
+  USING (
+    has_capability('escalations.manage')
+    OR has_capability('requests.viewAll')
+    OR has_capability('incidents.view')
+  );
+
+DROP POLICY IF EXISTS "Escalation managers can record escalations" ON escalation_events;
+CREATE POLICY "Escalation managers can record escalations"
+  ON escalation_events FOR INSERT
+  TO authenticated
+  WITH CHECK (has_capability('escalations.manage'));
@@ -0,0 +1,90 @@
+/*
+  # Request assignment
+
+  1. New Tables
+    - `request_assignments` - history of every assignment and reassignment,
+      with the method used (manual, round-robin or skill match) and the
+      reason given when a request is taken away from someone
+
+  2. Changes
+    - `profiles.skills` - request types a technician is skilled in
+    - `profiles.covered_department_ids` - departments a technician covers
+
+  3. Functions
+    - `assign_request(...)` - sets `requests.assigned_admin_id` and writes the
+      history row in one transaction; technicians may only assign themselves
+      unless they hold `requests.assign`
+
+  4. Security
+    - History is readable by anyone who sees requests and is append-only
+*/
+
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS skills uuid[] NOT NULL DEFAULT '{}';
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS covered_department_ids uuid[] NOT NULL DEFAULT '{}';
+
+CREATE TABLE IF NOT EXISTS request_assignments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  request_id uuid NOT NULL REFERENCES requests(id) ON DELETE CASCADE,
+  from_assignee_id uuid REFERENCES profiles(id),
+  to_assignee_id uuid NOT NULL REFERENCES profiles(id),
+  method text NOT NULL DEFAULT 'manual' CHECK (method IN ('manual', 'round_robin', 'skill')),
+  reason text,
+  assigned_by uuid NOT NULL REFERENCES profiles(id),
+  assigned_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_request_assignments_request ON request_assignments(request_id, assigned_at DESC);
+CREATE INDEX IF NOT EXISTS idx_requests_assigned_admin ON requests(assigned_admin_id);
+
+ALTER TABLE request_assignments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Request viewers can read assignment history" ON request_assignments;
+CREATE POLICY "Request viewers can read assignment history"
+  ON request_assignments FOR SELECT
+  TO authenticated
+  USING (has_capability('requests.viewAll') OR has_capability('requests.viewDepartment'));
+
+DROP POLICY IF EXISTS "Technicians can record assignments" ON request_assignments;
+CREATE POLICY "Technicians can record assignments"
+  ON request_assignments FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    has_capability('requests.work')
+    AND assigned_by = (SELECT id FROM profiles WHERE user_id = auth.uid())
+  );
+
+CREATE OR REPLACE FUNCTION assign_request(
+  target_request_id uuid,
+  to_assignee_id uuid,
+  assignment_method text,
+  assignment_reason text,
+  assigned_by_id uuid
+)
+RETURNS void
+LANGUAGE plpgsql SET search_path = public
+AS $$
+DECLARE
+  caller_id uuid := (SELECT id FROM profiles WHERE user_id = auth.uid());
+  current_assignee uuid;
+BEGIN
+  IF NOT has_capability('requests.assign')
+     AND NOT (has_capability('requests.work') AND to_assignee_id = caller_id) THEN
+    RAISE EXCEPTION 'You do not have permission to assign requests';
+  END IF;
+
+  SELECT assigned_admin_id INTO current_assignee
+  FROM requests WHERE id = target_request_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Request not found';
+  END IF;
+
+  UPDATE requests
+  SET assigned_admin_id = to_assignee_id, updated_at = now()
+  WHERE id = target_request_id;
+
+  INSERT INTO request_assignments (request_id, from_assignee_id, to_assignee_id, method, reason, assigned_by)
+  VALUES (target_request_id, current_assignee, to_assignee_id, assignment_method, assignment_reason, assigned_by_id);
+END;
+$$;
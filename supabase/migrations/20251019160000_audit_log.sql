@@ -0,0 +1,94 @@
+/*
+  # Audit log
+
+  1. New Tables
+    - `audit_log` - one row per create, update or delete made through the
+      service layer: actor, timestamp, entity and the field-level
+      before/after (`changes`, a jsonb array of {field, before, after})
+
+  2. Functions
+    - `has_capability(text)` - the auditor role gains `audit.view`
+      (admins already hold every capability)
+    - `stamp_audit_entry()` - entries get the database clock, not the
+      browser's
+
+  3. Security
+    - `audit.view` may read the log
+    - Signed-in users may only add entries in their own name, or anonymous
+      ones made before a profile exists (sign-up)
+    - There are no update or delete policies: the log is append-only
+
+  4. Notes
+    - `actor_id` and `entity_id` carry no foreign keys so entries outlive the
+      profiles and records they mention
+*/
+
+CREATE TABLE IF NOT EXISTS audit_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  entity_type text NOT NULL,
+  entity_id text NOT NULL,
+  entity_label text NOT NULL DEFAULT '',
+  action text NOT NULL CHECK (action IN ('create', 'update', 'delete')),
+  actor_id uuid,
+  changes jsonb NOT NULL DEFAULT '[]',
+  timestamp timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_timestamp ON audit_log(timestamp DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_entity ON audit_log(entity_type, entity_id);
+CREATE INDEX IF NOT EXISTS idx_audit_log_actor ON audit_log(actor_id);
+
+CREATE OR REPLACE FUNCTION stamp_audit_entry()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.timestamp := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS stamp_audit_entry ON audit_log;
+CREATE TRIGGER stamp_audit_entry
+  BEFORE INSERT ON audit_log
+  FOR EACH ROW EXECUTE FUNCTION stamp_audit_entry();
+
+CREATE OR REPLACE FUNCTION has_capability(capability text)
+RETURNS boolean
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT CASE current_user_role()
+    WHEN 'admin' THEN true
+    WHEN 'technician' THEN capability IN (
+      'requests.viewAll', 'requests.work', 'devices.view', 'maintenance.view',
+      'maintenance.manage', 'compliance.view', 'incidents.view', 'incidents.manage',
+      'contracts.view'
+    )
+    WHEN 'department_head' THEN capability IN (
+      'requests.viewDepartment', 'requests.approve', 'devices.view',
+      'maintenance.view', 'incidents.view', 'analytics.view'
+    )
+    WHEN 'auditor' THEN capability IN (
+      'requests.viewAll', 'devices.view', 'maintenance.view', 'compliance.view',
+      'incidents.view', 'contracts.view', 'analytics.view', 'audit.view'
+    )
+    ELSE false
+  END;
+$$;
+
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Auditors can read the audit log" ON audit_log;
+CREATE POLICY "Auditors can read the audit log"
+  ON audit_log FOR SELECT
+  TO authenticated
+  USING (has_capability('audit.view'));
+
+DROP POLICY IF EXISTS "Users can record their own changes" ON audit_log;
+CREATE POLICY "Users can record their own changes"
+  ON audit_log FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    actor_id IS NULL
+    OR actor_id = (SELECT id FROM profiles WHERE user_id = auth.uid())
+  );
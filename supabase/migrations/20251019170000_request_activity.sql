@@ -0,0 +1,69 @@
+/*
+  # Request activity timeline
+
+  1. New Tables
+    - `request_activity` - a request's timeline: comments from the requester
+      and IT, plus status changes, assignments and escalations recorded as
+      they happen. `is_internal` marks IT-only notes.
+
+  2. Security
+    - Readable by anyone who can read the request; internal notes only by
+      `requests.work` and `requests.viewAll`
+    - Authors post in their own name. Anyone who sees a request may comment,
+      internal notes need `requests.work`, status and assignment entries need
+      `requests.work` or `requests.approve`, escalation entries
+      `escalations.manage`
+    - Append-only: no update or delete policies
+
+  3. Notes
+    - Added to the `supabase_realtime` publication for live timelines
+*/
+
+CREATE TABLE IF NOT EXISTS request_activity (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  request_id uuid NOT NULL REFERENCES requests(id) ON DELETE CASCADE,
+  kind text NOT NULL DEFAULT 'comment' CHECK (kind IN ('comment', 'status', 'assignment', 'escalation')),
+  author_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  body text NOT NULL,
+  is_internal boolean NOT NULL DEFAULT false,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_request_activity_request ON request_activity(request_id, created_at);
+
+ALTER TABLE request_activity ENABLE ROW LEVEL SECURITY;
+
+-- The subqueries on requests go through its own RLS, so "can read the request" comes for free
+DROP POLICY IF EXISTS "Request viewers can read the timeline" ON request_activity;
+CREATE POLICY "Request viewers can read the timeline"
+  ON request_activity FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM requests WHERE requests.id = request_activity.request_id)
+    AND (NOT is_internal OR has_capability('requests.work') OR has_capability('requests.viewAll'))
+  );
+
+DROP POLICY IF EXISTS "Request viewers can post to the timeline" ON request_activity;
+CREATE POLICY "Request viewers can post to the timeline"
+  ON request_activity FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    author_id = (SELECT id FROM profiles WHERE user_id = auth.uid())
+    AND EXISTS (SELECT 1 FROM requests WHERE requests.id = request_activity.request_id)
+    AND (NOT is_internal OR has_capability('requests.work'))
+    AND CASE kind
+      WHEN 'comment' THEN true
+      WHEN 'escalation' THEN has_capability('escalations.manage')
+      ELSE has_capability('requests.work') OR has_capability('requests.approve')
+    END
+  );
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'request_activity'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.request_activity;
+  END IF;
+END $$;
@@ -0,0 +1,143 @@
+/*
+  # Attachments
+
+  1. New Tables
+    - `attachments` - photos and documents on requests, incident reports and
+      devices. The file lives in the `attachments` storage bucket at
+      `storage_path`; images also get a small JPEG at `thumbnail_path`.
+      `device_id` links request and incident files to the device they are
+      about, so they show on the device history.
+
+  2. Storage
+    - Private `attachments` bucket, limited to 10 MB per file and to images,
+      PDFs, text and Word documents (the same limits the app checks)
+    - Files are readable by whoever can read an attachment row pointing at them
+
+  3. Security
+    - Attachments follow their record: readable by anyone who can read the
+      request or incident; device files by `devices.view`
+    - Uploaders attach in their own name; device files need `devices.manage`
+      or `maintenance.manage`
+    - Uploaders may delete their own attachments; otherwise `requests.work`,
+      `incidents.manage` or `devices.manage` depending on the record
+*/
+
+CREATE TABLE IF NOT EXISTS attachments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_type text NOT NULL CHECK (owner_type IN ('request', 'incident', 'device')),
+  owner_id uuid NOT NULL,
+  device_id uuid REFERENCES devices(id) ON DELETE SET NULL,
+  file_name text NOT NULL,
+  content_type text NOT NULL DEFAULT 'application/octet-stream',
+  size bigint NOT NULL DEFAULT 0 CHECK (size <= 10485760),
+  storage_path text NOT NULL UNIQUE,
+  thumbnail_path text,
+  uploaded_by uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_attachments_owner ON attachments(owner_type, owner_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_attachments_device ON attachments(device_id, created_at);
+
+ALTER TABLE attachments ENABLE ROW LEVEL SECURITY;
+
+-- The subqueries go through the requests and incident_reports RLS, so "can read the record" comes for free
+DROP POLICY IF EXISTS "Record viewers can read attachments" ON attachments;
+CREATE POLICY "Record viewers can read attachments"
+  ON attachments FOR SELECT
+  TO authenticated
+  USING (
+    CASE owner_type
+      WHEN 'request' THEN EXISTS (SELECT 1 FROM requests WHERE requests.id = attachments.owner_id)
+      WHEN 'incident' THEN EXISTS (SELECT 1 FROM incident_reports WHERE incident_reports.id = attachments.owner_id)
+      ELSE has_capability('devices.view')
+    END
+    OR (device_id IS NOT NULL AND has_capability('devices.view'))
+  );
+
+DROP POLICY IF EXISTS "Record viewers can add attachments" ON attachments;
+CREATE POLICY "Record viewers can add attachments"
+  ON attachments FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    uploaded_by = (SELECT id FROM profiles WHERE user_id = auth.uid())
+    AND CASE owner_type
+      WHEN 'request' THEN EXISTS (SELECT 1 FROM requests WHERE requests.id = attachments.owner_id)
+      WHEN 'incident' THEN EXISTS (SELECT 1 FROM incident_reports WHERE incident_reports.id = attachments.owner_id)
+      ELSE has_capability('devices.manage') OR has_capability('maintenance.manage')
+    END
+  );
+
+DROP POLICY IF EXISTS "Uploaders and record managers can delete attachments" ON attachments;
+CREATE POLICY "Uploaders and record managers can delete attachments"
+  ON attachments FOR DELETE
+  TO authenticated
+  USING (
+    uploaded_by = (SELECT id FROM profiles WHERE user_id = auth.uid())
+    OR CASE owner_type
+      WHEN 'request' THEN has_capability('requests.work')
+      WHEN 'incident' THEN has_capability('incidents.manage')
+      ELSE has_capability('devices.manage')
+    END
+  );
+
+-- Storage bucket
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'attachments',
+  'attachments',
+  false,
+  10485760,
+  ARRAY[
+    'image/jpeg',
+    'image/png',
+    'image/gif',
+    'image/webp',
+    'application/pdf',
+    'text/plain',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+  ]
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- Files are uploaded before their attachment row exists, so any signed-in user may upload
+DROP POLICY IF EXISTS "Signed-in users can upload attachment files" ON storage.objects;
+CREATE POLICY "Signed-in users can upload attachment files"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'attachments');
+
+DROP POLICY IF EXISTS "Attachment viewers can read attachment files" ON storage.objects;
+CREATE POLICY "Attachment viewers can read attachment files"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'attachments'
+    AND (
+      owner = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM public.attachments
+        WHERE attachments.storage_path = storage.objects.name OR attachments.thumbnail_path = storage.objects.name
+      )
+    )
+  );
+
+-- The row is deleted first, so record managers may clear files no attachment points at any more
+DROP POLICY IF EXISTS "Uploaders and record managers can delete attachment files" ON storage.objects;
+CREATE POLICY "Uploaders and record managers can delete attachment files"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'attachments'
+    AND (
+      owner = auth.uid()
+      OR (
+        (has_capability('requests.work') OR has_capability('incidents.manage') OR has_capability('devices.manage'))
+        AND NOT EXISTS (
+          SELECT 1 FROM public.attachments
+          WHERE attachments.storage_path = storage.objects.name OR attachments.thumbnail_path = storage.objects.name
+        )
+      )
+    )
+  );
@@ -0,0 +1,105 @@
+/*
+  # In-app notifications
+
+  1. New Tables
+    - `notifications` - one user's notification center: request status
+      changes, incident assignments, emergency requests, overdue maintenance
+      and expiring certificates. `dedupe_key` is set by the periodic checks so
+      each notice reaches a recipient once.
+
+  2. Functions
+    - `notify_roles(...)` - sends one notification to every profile holding
+      one of the given roles. Runs with definer rights because most users
+      cannot read other profiles (a nurse raising an emergency request still
+      has to reach IT).
+
+  3. Security
+    - Recipients read and mark their own notifications; nobody else can
+    - Any signed-in user may create notifications: they are raised as a side
+      effect of other users' changes
+    - No delete policy; old notifications simply drop out of the bell menu
+
+  4. Notes
+    - Added to the `supabase_realtime` publication for live unread counts
+*/
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  recipient_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN (
+    'requestStatus', 'emergencyRequest', 'incidentAssigned', 'maintenanceOverdue', 'complianceExpiring'
+  )),
+  title text NOT NULL,
+  body text NOT NULL DEFAULT '',
+  target_type text NOT NULL CHECK (target_type IN ('request', 'incident', 'maintenance', 'compliance')),
+  target_id uuid NOT NULL,
+  dedupe_key text,
+  read_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_recipient ON notifications(recipient_id, created_at DESC);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_notifications_dedupe ON notifications(recipient_id, dedupe_key)
+  WHERE dedupe_key IS NOT NULL;
+
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Recipients can read their notifications" ON notifications;
+CREATE POLICY "Recipients can read their notifications"
+  ON notifications FOR SELECT
+  TO authenticated
+  USING (recipient_id = (SELECT id FROM profiles WHERE user_id = auth.uid()));
+
+DROP POLICY IF EXISTS "Recipients can mark their notifications read" ON notifications;
+CREATE POLICY "Recipients can mark their notifications read"
+  ON notifications FOR UPDATE
+  TO authenticated
+  USING (recipient_id = (SELECT id FROM profiles WHERE user_id = auth.uid()))
+  WITH CHECK (recipient_id = (SELECT id FROM profiles WHERE user_id = auth.uid()));
+
+DROP POLICY IF EXISTS "Signed-in users can send notifications" ON notifications;
+CREATE POLICY "Signed-in users can send notifications"
+  ON notifications FOR INSERT
+  TO authenticated
+  WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE user_id = auth.uid()));
+
+CREATE OR REPLACE FUNCTION notify_roles(
+  recipient_roles user_role[],
+  notification_kind text,
+  notification_title text,
+  notification_body text,
+  notification_target_type text,
+  notification_target_id uuid,
+  notification_dedupe_key text
+)
+RETURNS integer
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  created integer;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'You must be signed in to send notifications';
+  END IF;
+
+  INSERT INTO notifications (recipient_id, kind, title, body, target_type, target_id, dedupe_key)
+  SELECT p.id, notification_kind, notification_title, coalesce(notification_body, ''),
+    notification_target_type, notification_target_id, notification_dedupe_key
+  FROM profiles p
+  WHERE p.role = ANY(recipient_roles)
+  ON CONFLICT (recipient_id, dedupe_key) WHERE dedupe_key IS NOT NULL DO NOTHING;
+
+  GET DIAGNOSTICS created = ROW_COUNT;
+  RETURN created;
+END;
+$$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'notifications'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+  END IF;
+END $$;
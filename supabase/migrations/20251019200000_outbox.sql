@@ -0,0 +1,68 @@
+/*
+  # Email and SMS outbox
+
+  1. Changes
+    - `profiles` gains the delivery preferences: `phone`,
+      `notification_channels` ('email', 'sms') and `quiet_hours_start` /
+      `quiet_hours_end` (local 'HH:mm'; routine messages wait until quiet
+      hours end, emergency pages do not)
+
+  2. New Tables
+    - `outbox` - email/SMS waiting to be delivered. A message names one
+      recipient or a set of roles; addresses and preferences are looked up
+      when it is sent. The dispatcher in the IT dashboards claims a message by
+      moving `next_attempt_at` forward, retries failures with backoff and
+      records who it reached in `delivered_to` so a retry pages nobody twice.
+
+  3. Security
+    - Any signed-in user may queue a message (raising an emergency request
+      pages IT), but cannot read the outbox back
+    - Reading and updating the outbox takes `requests.work` (the dispatcher)
+      or `system.configure` (the outbox viewer)
+    - No delete policy; delivered messages stay as a record
+*/
+
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS phone text;
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS notification_channels text[] NOT NULL DEFAULT '{email}';
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS quiet_hours_start text;
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS quiet_hours_end text;
+
+CREATE TABLE IF NOT EXISTS outbox (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  template text NOT NULL CHECK (template IN ('emergencyRequest', 'criticalIncident', 'requestReceived')),
+  recipient_id uuid REFERENCES profiles(id) ON DELETE CASCADE,
+  recipient_roles user_role[] NOT NULL DEFAULT '{}',
+  variables jsonb NOT NULL DEFAULT '{}',
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'sent', 'failed')),
+  attempts integer NOT NULL DEFAULT 0,
+  next_attempt_at timestamptz NOT NULL DEFAULT now(),
+  last_error text,
+  delivered_to text[] NOT NULL DEFAULT '{}',
+  sent_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (recipient_id IS NOT NULL OR cardinality(recipient_roles) > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_outbox_due ON outbox(next_attempt_at) WHERE status IN ('pending', 'sending');
+CREATE INDEX IF NOT EXISTS idx_outbox_created ON outbox(created_at DESC);
+
+ALTER TABLE outbox ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Signed-in users can queue messages" ON outbox;
+CREATE POLICY "Signed-in users can queue messages"
+  ON outbox FOR INSERT
+  TO authenticated
+  WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE user_id = auth.uid()));
+
+DROP POLICY IF EXISTS "IT staff can read the outbox" ON outbox;
+CREATE POLICY "IT staff can read the outbox"
+  ON outbox FOR SELECT
+  TO authenticated
+  USING (has_capability('requests.work') OR has_capability('system.configure'));
+
+DROP POLICY IF EXISTS "IT staff can dispatch messages" ON outbox;
+CREATE POLICY "IT staff can dispatch messages"
+  ON outbox FOR UPDATE
+  TO authenticated
+  USING (has_capability('requests.work') OR has_capability('system.configure'))
+  WITH CHECK (has_capability('requests.work') OR has_capability('system.configure'));
@@ -0,0 +1,177 @@
+/*
+  # On-call rotations
+
+  1. New Tables
+    - `on_call_rotations` - members take turns in `member_ids` order, each for
+      `shift_days` days, handing over at the time of day of `starts_at`. A
+      rotation covers the request types in `request_type_ids`, or every type
+      when empty. Who is on call is worked out in src/utils/onCall.ts.
+    - `on_call_overrides` - someone covering a rotation for a period; the
+      most recent override wins where several overlap
+
+  2. Changes
+    - `request_assignments.method` accepts 'on_call'
+    - `assign_request(...)` lets the requester of an unassigned emergency or
+      critical request route it to a member of the on-call schedule. It now
+      runs as SECURITY DEFINER because requesters cannot update requests or
+      write assignment history themselves; callers are checked up front.
+    - The requester may post the matching assignment entry to the timeline
+
+  3. Security
+    - Every signed-in user reads the schedule (RequestModal shows who a
+      request will go to)
+    - Rotations and overrides are managed with `escalations.manage`
+    - Technicians may add an override putting themselves on call
+*/
+
+CREATE TABLE IF NOT EXISTS on_call_rotations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  member_ids uuid[] NOT NULL DEFAULT '{}',
+  starts_at timestamptz NOT NULL,
+  shift_days integer NOT NULL DEFAULT 7 CHECK (shift_days > 0),
+  request_type_ids uuid[] NOT NULL DEFAULT '{}',
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS on_call_overrides (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  rotation_id uuid NOT NULL REFERENCES on_call_rotations(id) ON DELETE CASCADE,
+  profile_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  starts_at timestamptz NOT NULL,
+  ends_at timestamptz NOT NULL,
+  reason text,
+  created_by uuid NOT NULL REFERENCES profiles(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (ends_at > starts_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_on_call_overrides_rotation ON on_call_overrides(rotation_id, ends_at);
+
+ALTER TABLE on_call_rotations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE on_call_overrides ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Signed-in users can read rotations" ON on_call_rotations;
+CREATE POLICY "Signed-in users can read rotations"
+  ON on_call_rotations FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Escalation managers can manage rotations" ON on_call_rotations;
+CREATE POLICY "Escalation managers can manage rotations"
+  ON on_call_rotations FOR ALL
+  TO authenticated
+  USING (has_capability('escalations.manage'))
+  WITH CHECK (has_capability('escalations.manage'));
+
+DROP POLICY IF EXISTS "Signed-in users can read overrides" ON on_call_overrides;
+CREATE POLICY "Signed-in users can read overrides"
+  ON on_call_overrides FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Escalation managers can manage overrides" ON on_call_overrides;
+CREATE POLICY "Escalation managers can manage overrides"
+  ON on_call_overrides FOR ALL
+  TO authenticated
+  USING (has_capability('escalations.manage'))
+  WITH CHECK (has_capability('escalations.manage'));
+
+DROP POLICY IF EXISTS "Technicians can cover a shift" ON on_call_overrides;
+CREATE POLICY "Technicians can cover a shift"
+  ON on_call_overrides FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    has_capability('requests.work')
+    AND profile_id = (SELECT id FROM profiles WHERE user_id = auth.uid())
+    AND created_by = profile_id
+  );
+
+ALTER TABLE request_assignments DROP CONSTRAINT IF EXISTS request_assignments_method_check;
+ALTER TABLE request_assignments ADD CONSTRAINT request_assignments_method_check
+  CHECK (method IN ('manual', 'round_robin', 'skill', 'on_call'));
+
+CREATE OR REPLACE FUNCTION assign_request(
+  target_request_id uuid,
+  to_assignee_id uuid,
+  assignment_method text,
+  assignment_reason text,
+  assigned_by_id uuid
+)
+RETURNS void
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  caller_id uuid := (SELECT id FROM profiles WHERE user_id = auth.uid());
+  current_assignee uuid;
+  on_call_routing boolean;
+BEGIN
+  IF assigned_by_id IS DISTINCT FROM caller_id THEN
+    RAISE EXCEPTION 'Assignments must be recorded by the signed-in user';
+  END IF;
+
+  -- The requester of an unassigned emergency may hand it to someone on the schedule
+  on_call_routing := assignment_method = 'on_call'
+    AND EXISTS (
+      SELECT 1 FROM requests
+      WHERE id = target_request_id
+        AND user_id = caller_id
+        AND assigned_admin_id IS NULL
+        AND urgency_level IN ('emergency', 'critical')
+    )
+    AND (
+      EXISTS (
+        SELECT 1 FROM on_call_rotations
+        WHERE is_active AND to_assignee_id = ANY(member_ids)
+      )
+      OR EXISTS (
+        SELECT 1 FROM on_call_overrides
+        WHERE profile_id = to_assignee_id AND now() >= starts_at AND now() < ends_at
+      )
+    );
+
+  IF NOT has_capability('requests.assign')
+     AND NOT (has_capability('requests.work') AND to_assignee_id = caller_id)
+     AND NOT on_call_routing THEN
+    RAISE EXCEPTION 'You do not have permission to assign requests';
+  END IF;
+
+  SELECT assigned_admin_id INTO current_assignee
+  FROM requests WHERE id = target_request_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Request not found';
+  END IF;
+
+  UPDATE requests
+  SET assigned_admin_id = to_assignee_id, updated_at = now()
+  WHERE id = target_request_id;
+
+  INSERT INTO request_assignments (request_id, from_assignee_id, to_assignee_id, method, reason, assigned_by)
+  VALUES (target_request_id, current_assignee, to_assignee_id, assignment_method, assignment_reason, assigned_by_id);
+END;
+$$;
+
+DROP POLICY IF EXISTS "Request viewers can post to the timeline" ON request_activity;
+CREATE POLICY "Request viewers can post to the timeline"
+  ON request_activity FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    author_id = (SELECT id FROM profiles WHERE user_id = auth.uid())
+    AND EXISTS (SELECT 1 FROM requests WHERE requests.id = request_activity.request_id)
+    AND (NOT is_internal OR has_capability('requests.work'))
+    AND CASE kind
+      WHEN 'comment' THEN true
+      WHEN 'escalation' THEN has_capability('escalations.manage')
+      WHEN 'assignment' THEN has_capability('requests.work') OR has_capability('requests.approve')
+        OR EXISTS (
+          SELECT 1 FROM request_assignments
+          WHERE request_assignments.request_id = request_activity.request_id
+            AND method = 'on_call'
+            AND assigned_by = request_activity.author_id
+        )
+      ELSE has_capability('requests.work') OR has_capability('requests.approve')
+    END
+  );
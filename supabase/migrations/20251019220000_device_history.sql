@@ -0,0 +1,14 @@
+/*
+  # Device lifecycle history
+
+  1. Security
+    - The device history page rebuilds status changes, reassignments and
+      moves from the audit log, so anyone with `devices.view` may read the
+      audit entries of devices. The rest of the log stays with `audit.view`.
+*/
+
+DROP POLICY IF EXISTS "Device viewers can read device history" ON audit_log;
+CREATE POLICY "Device viewers can read device history"
+  ON audit_log FOR SELECT
+  TO authenticated
+  USING (entity_type = 'device' AND has_capability('devices.view'));
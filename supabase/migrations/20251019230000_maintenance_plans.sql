@@ -0,0 +1,68 @@
+/*
+  # Recurring maintenance plans
+
+  1. New Tables
+    - `maintenance_plans` - recurring maintenance for one device
+      (`device_id`) or for every device of an equipment type
+      (`equipment_type_id`). `recurrence` is one of
+        - 'interval': every `interval_days` days after the last completed visit
+        - 'calendar': every `interval_months` months on the day of `start_date`
+        - 'meter': every `meter_interval` `meter_unit`s, projected from
+          `daily_usage`
+      The schedule entries themselves are generated by the app
+      (src/utils/maintenancePlans.ts) up to 90 days ahead.
+
+  2. Changes
+    - `maintenance_schedules.plan_id` links generated entries to their plan.
+      It has no foreign key on purpose: entries outlive a deleted plan, and
+      the app cancels the open ones by finding their plan gone.
+
+  3. Security
+    - Plans are read with `maintenance.view` and managed with `maintenance.manage`
+*/
+
+CREATE TABLE IF NOT EXISTS maintenance_plans (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  device_id uuid REFERENCES devices(id) ON DELETE CASCADE,
+  equipment_type_id uuid REFERENCES equipment_types(id) ON DELETE CASCADE,
+  maintenance_type text NOT NULL DEFAULT 'preventive',
+  recurrence text NOT NULL CHECK (recurrence IN ('interval', 'calendar', 'meter')),
+  start_date date NOT NULL,
+  interval_days integer CHECK (interval_days > 0),
+  interval_months integer CHECK (interval_months > 0),
+  meter_unit text,
+  meter_interval numeric CHECK (meter_interval > 0),
+  daily_usage numeric CHECK (daily_usage > 0),
+  technician_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  estimated_cost decimal(10,2),
+  notes text,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CHECK ((device_id IS NULL) <> (equipment_type_id IS NULL)),
+  CHECK (
+    (recurrence = 'interval' AND interval_days IS NOT NULL)
+    OR (recurrence = 'calendar' AND interval_months IS NOT NULL)
+    OR (recurrence = 'meter' AND meter_interval IS NOT NULL AND daily_usage IS NOT NULL)
+  )
+);
+
+ALTER TABLE maintenance_schedules
+  ADD COLUMN IF NOT EXISTS plan_id uuid;
+
+CREATE INDEX IF NOT EXISTS idx_maintenance_schedules_plan ON maintenance_schedules(plan_id, device_id);
+
+ALTER TABLE maintenance_plans ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Maintenance viewers can read plans" ON maintenance_plans;
+CREATE POLICY "Maintenance viewers can read plans"
+  ON maintenance_plans FOR SELECT
+  TO authenticated
+  USING (has_capability('maintenance.view'));
+
+DROP POLICY IF EXISTS "Maintenance managers can manage plans" ON maintenance_plans;
+CREATE POLICY "Maintenance managers can manage plans"
+  ON maintenance_plans FOR ALL
+  TO authenticated
+  USING (has_capability('maintenance.manage'))
+  WITH CHECK (has_capability('maintenance.manage'));
@@ -0,0 +1,11 @@
+/*
+  # Maintenance calendar
+
+  1. Changes
+    - `maintenance_schedules.manually_scheduled` marks planned visits that
+      were moved to another date by hand, from the calendar or the schedule
+      form. Plan syncs keep such visits on the date they were moved to.
+*/
+
+ALTER TABLE maintenance_schedules
+  ADD COLUMN IF NOT EXISTS manually_scheduled boolean NOT NULL DEFAULT false;
@@ -0,0 +1,58 @@
+/*
+  # Maintenance work orders
+
+  1. Changes
+    - `equipment_types.checklist` holds the checklist a visit to that kind of
+      equipment works through: ticked checks and readings with min/max
+      tolerances.
+    - `maintenance_schedules` gains the work order recorded during a visit:
+      the checklist results (copied from the equipment type when the visit
+      starts), parts used, labour hours and the technician's sign-off.
+
+  2. Seed data
+    - Medical device types get the electrical safety test; ventilators,
+      defibrillators, infusion pumps and patient monitors also get their
+      calibration readings. Types that already have a checklist are left alone.
+*/
+
+-- 1. Columns
+ALTER TABLE equipment_types
+  ADD COLUMN IF NOT EXISTS checklist jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE maintenance_schedules
+  ADD COLUMN IF NOT EXISTS checklist jsonb NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN IF NOT EXISTS parts_used jsonb NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN IF NOT EXISTS labour_hours numeric CHECK (labour_hours IS NULL OR labour_hours >= 0),
+  ADD COLUMN IF NOT EXISTS signed_off_by uuid REFERENCES profiles(id),
+  ADD COLUMN IF NOT EXISTS signed_off_at timestamptz;
+
+-- 2. Seed checklists (mirrors sampleData.ts)
+UPDATE equipment_types
+SET checklist = '[
+  {"id": "visual-inspection", "label": "Visual inspection of casing, cables and plugs", "kind": "check", "required": true, "unit": null, "min": null, "max": null},
+  {"id": "protective-earth", "label": "Protective earth resistance", "kind": "reading", "required": true, "unit": "Ω", "min": null, "max": 0.3},
+  {"id": "equipment-leakage", "label": "Equipment leakage current", "kind": "reading", "required": true, "unit": "µA", "min": null, "max": 500},
+  {"id": "applied-part-leakage", "label": "Applied part leakage current", "kind": "reading", "required": true, "unit": "µA", "min": null, "max": 50},
+  {"id": "function-test", "label": "Functional test after service", "kind": "check", "required": true, "unit": null, "min": null, "max": null}
+]'::jsonb || CASE name
+  WHEN 'Ventilator' THEN '[
+    {"id": "tidal-volume", "label": "Delivered tidal volume at 500 ml setting", "kind": "reading", "required": true, "unit": "ml", "min": 450, "max": 550},
+    {"id": "oxygen-concentration", "label": "FiO2 at 21% setting", "kind": "reading", "required": true, "unit": "%", "min": 19, "max": 23},
+    {"id": "alarm-test", "label": "Disconnect and high-pressure alarms sound", "kind": "check", "required": true, "unit": null, "min": null, "max": null}
+  ]'::jsonb
+  WHEN 'Defibrillator' THEN '[
+    {"id": "energy-200j", "label": "Delivered energy at 200 J", "kind": "reading", "required": true, "unit": "J", "min": 170, "max": 230},
+    {"id": "charge-time", "label": "Charge time to maximum energy", "kind": "reading", "required": true, "unit": "s", "min": null, "max": 10},
+    {"id": "battery-check", "label": "Battery condition and date", "kind": "check", "required": false, "unit": null, "min": null, "max": null}
+  ]'::jsonb
+  WHEN 'Infusion Pump' THEN '[
+    {"id": "flow-accuracy", "label": "Flow rate error at 100 ml/h", "kind": "reading", "required": true, "unit": "%", "min": -5, "max": 5},
+    {"id": "occlusion-alarm", "label": "Occlusion alarm triggers", "kind": "check", "required": true, "unit": null, "min": null, "max": null}
+  ]'::jsonb
+  WHEN 'Patient Monitor' THEN '[
+    {"id": "spo2-simulator", "label": "SpO2 reading against 97% simulator", "kind": "reading", "required": true, "unit": "%", "min": 95, "max": 99},
+    {"id": "nibp-simulator", "label": "NIBP systolic against 120 mmHg simulator", "kind": "reading", "required": true, "unit": "mmHg", "min": 117, "max": 123}
+  ]'::jsonb
+  ELSE '[]'::jsonb
+END
+WHERE is_medical_device AND checklist = '[]'::jsonb;
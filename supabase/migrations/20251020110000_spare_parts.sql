@@ -0,0 +1,117 @@
+/*
+  # Spare parts inventory
+
+  1. New Tables
+    - `spare_parts` - a stocked part: `part_number`, the equipment types it
+      fits (`compatible_equipment_type_ids`), stock per store room
+      (`stock_levels`, a jsonb array of {storeRoom, quantity}) and the
+      `reorder_point` the total stock is compared against
+
+  2. Functions
+    - `has_capability(text)` - adds `inventory.view` (technicians, auditors)
+      and `inventory.manage` (admins only)
+    - `consume_spare_parts(jsonb)` - takes a signed-off work order's parts
+      ([{partId, storeRoom, quantity}]) out of stock in one transaction and
+      fails as a whole if any store room is short. Maintenance staff may call
+      it without `inventory.manage`.
+
+  3. Security
+    - Parts are read with `inventory.view` and managed with `inventory.manage`
+*/
+
+CREATE TABLE IF NOT EXISTS spare_parts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  part_number text NOT NULL UNIQUE,
+  name text NOT NULL,
+  description text,
+  compatible_equipment_type_ids uuid[] NOT NULL DEFAULT '{}',
+  stock_levels jsonb NOT NULL DEFAULT '[]'::jsonb,
+  reorder_point integer NOT NULL DEFAULT 0 CHECK (reorder_point >= 0),
+  unit_cost decimal(10,2),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE OR REPLACE FUNCTION has_capability(capability text)
+RETURNS boolean
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT CASE current_user_role()
+    WHEN 'admin' THEN true
+    WHEN 'technician' THEN capability IN (
+      'requests.viewAll', 'requests.work', 'devices.view', 'maintenance.view',
+      'maintenance.manage', 'inventory.view', 'compliance.view', 'incidents.view',
+      'incidents.manage', 'contracts.view'
+    )
+    WHEN 'department_head' THEN capability IN (
+      'requests.viewDepartment', 'requests.approve', 'devices.view',
+      'maintenance.view', 'incidents.view', 'analytics.view'
+    )
+    WHEN 'auditor' THEN capability IN (
+      'requests.viewAll', 'devices.view', 'maintenance.view', 'inventory.view',
+      'compliance.view', 'incidents.view', 'contracts.view', 'analytics.view',
+      'audit.view'
+    )
+    ELSE false
+  END;
+$$;
+
+ALTER TABLE spare_parts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Inventory viewers can read spare parts" ON spare_parts;
+CREATE POLICY "Inventory viewers can read spare parts"
+  ON spare_parts FOR SELECT
+  TO authenticated
+  USING (has_capability('inventory.view'));
+
+DROP POLICY IF EXISTS "Inventory managers can manage spare parts" ON spare_parts;
+CREATE POLICY "Inventory managers can manage spare parts"
+  ON spare_parts FOR ALL
+  TO authenticated
+  USING (has_capability('inventory.manage'))
+  WITH CHECK (has_capability('inventory.manage'));
+
+CREATE OR REPLACE FUNCTION consume_spare_parts(usages jsonb)
+RETURNS void
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  usage jsonb;
+  part spare_parts%ROWTYPE;
+  available integer;
+  wanted integer;
+BEGIN
+  IF NOT has_capability('inventory.manage') AND NOT has_capability('maintenance.manage') THEN
+    RAISE EXCEPTION 'You do not have permission to take parts out of stock';
+  END IF;
+
+  FOR usage IN SELECT * FROM jsonb_array_elements(usages) LOOP
+    wanted := (usage->>'quantity')::integer;
+
+    SELECT * INTO part FROM spare_parts WHERE id = (usage->>'partId')::uuid FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Spare part not found';
+    END IF;
+
+    SELECT COALESCE(SUM((level->>'quantity')::integer), 0) INTO available
+    FROM jsonb_array_elements(part.stock_levels) AS level
+    WHERE level->>'storeRoom' = usage->>'storeRoom';
+
+    IF available < wanted THEN
+      RAISE EXCEPTION 'Only % of % (%) in %, % needed',
+        available, part.name, part.part_number, usage->>'storeRoom', wanted;
+    END IF;
+
+    UPDATE spare_parts
+    SET stock_levels = (
+      SELECT jsonb_agg(
+        CASE WHEN level->>'storeRoom' = usage->>'storeRoom'
+          THEN jsonb_set(level, '{quantity}', to_jsonb((level->>'quantity')::integer - wanted))
+          ELSE level
+        END
+      )
+      FROM jsonb_array_elements(part.stock_levels) AS level
+    )
+    WHERE id = part.id;
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,58 @@
+/*
+  # Compliance certificate renewals
+
+  1. Changes
+    - `compliance_records.reminder_days` - days before expiry at which a
+      reminder goes out; the largest opens the renewal window
+    - `compliance_records.renewed_from` / `superseded_by` link a renewed
+      certificate to the one it replaced. Superseded records keep their
+      details as history and get the status 'superseded'.
+    - `maintenance_schedules.compliance_record_id` marks renewal tasks raised
+      for an expiring certificate
+
+  2. Functions
+    - `renew_compliance_record(uuid, jsonb)` - files the renewed certificate
+      and supersedes the old one in one transaction; fails if the old one has
+      already been renewed. Runs with the caller's rights, so the compliance
+      record policies still apply.
+*/
+
+ALTER TABLE compliance_records
+  ADD COLUMN IF NOT EXISTS reminder_days integer[] NOT NULL DEFAULT '{90,60,30,7}',
+  ADD COLUMN IF NOT EXISTS renewed_from uuid REFERENCES compliance_records(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS superseded_by uuid REFERENCES compliance_records(id) ON DELETE SET NULL;
+
+ALTER TABLE maintenance_schedules
+  ADD COLUMN IF NOT EXISTS compliance_record_id uuid REFERENCES compliance_records(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_maintenance_compliance_record ON maintenance_schedules(compliance_record_id);
+
+CREATE OR REPLACE FUNCTION renew_compliance_record(record_id uuid, renewal jsonb)
+RETURNS uuid
+LANGUAGE plpgsql SET search_path = public
+AS $$
+DECLARE
+  renewal_id uuid;
+BEGIN
+  PERFORM 1 FROM compliance_records WHERE id = record_id AND superseded_by IS NULL FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This certificate has already been renewed';
+  END IF;
+
+  INSERT INTO compliance_records (
+    device_id, compliance_type, certificate_number, issue_date, expiry_date,
+    status, auditor_name, notes, reminder_days, renewed_from
+  )
+  SELECT
+    device_id, compliance_type, certificate_number, issue_date, expiry_date,
+    COALESCE(status, 'valid'), auditor_name, notes, COALESCE(reminder_days, '{90,60,30,7}'), record_id
+  FROM jsonb_populate_record(NULL::compliance_records, renewal)
+  RETURNING id INTO renewal_id;
+
+  UPDATE compliance_records
+  SET superseded_by = renewal_id, status = 'superseded'
+  WHERE id = record_id;
+
+  RETURN renewal_id;
+END;
+$$;
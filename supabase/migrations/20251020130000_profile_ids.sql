@@ -0,0 +1,61 @@
+/*
+  # Profile ids follow the auth user id
+
+  1. Changes
+    - `handle_new_user()` gives every new profile the auth user's id as its
+      own id, so the app can key profiles on `user_id` and still hand the
+      same value around as the profile id
+    - Existing profiles whose id differs are renumbered. Foreign keys to
+      `profiles` are switched to ON UPDATE CASCADE for that; profile ids kept
+      outside foreign keys (rotation members, escalation events) are
+      rewritten alongside. The audit log is append-only and keeps the ids it
+      was written with.
+
+  2. Security
+    - Signed-in users may create their own profile as staff, for accounts
+      that predate the trigger
+*/
+
+CREATE OR REPLACE FUNCTION handle_new_user()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.profiles (id, user_id, email, full_name, role)
+  VALUES (
+    NEW.id,
+    NEW.id,
+    NEW.email,
+    COALESCE(NEW.raw_user_meta_data->>'full_name', NEW.email),
+    'user'::user_role
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DO $$
+DECLARE
+  fk record;
+  profile record;
+BEGIN
+  FOR fk IN
+    SELECT conrelid::regclass AS table_name, conname, pg_get_constraintdef(oid) AS definition
+    FROM pg_constraint
+    WHERE contype = 'f' AND confrelid = 'public.profiles'::regclass AND confupdtype <> 'c'
+  LOOP
+    EXECUTE format('ALTER TABLE %s DROP CONSTRAINT %I', fk.table_name, fk.conname);
+    EXECUTE format('ALTER TABLE %s ADD CONSTRAINT %I %s ON UPDATE CASCADE', fk.table_name, fk.conname, fk.definition);
+  END LOOP;
+
+  FOR profile IN SELECT id, user_id FROM profiles WHERE id <> user_id LOOP
+    UPDATE profiles SET id = profile.user_id WHERE id = profile.id;
+    UPDATE on_call_rotations SET member_ids = array_replace(member_ids, profile.id, profile.user_id)
+      WHERE profile.id = ANY(member_ids);
+    UPDATE escalation_events SET previous_assignee_id = profile.user_id WHERE previous_assignee_id = profile.id;
+    UPDATE escalation_events SET new_assignee_id = profile.user_id WHERE new_assignee_id = profile.id;
+  END LOOP;
+END $$;
+
+DROP POLICY IF EXISTS "Users can create their own profile" ON profiles;
+CREATE POLICY "Users can create their own profile"
+  ON profiles FOR INSERT
+  TO authenticated
+  WITH CHECK (id = auth.uid() AND user_id = auth.uid() AND role = 'user');
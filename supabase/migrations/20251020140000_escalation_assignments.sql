@@ -0,0 +1,12 @@
+/*
+  # Escalation reassignments in the assignment history
+
+  1. Changes
+    - `request_assignments.method` accepts 'escalation'. The escalation engine
+      now reassigns requests through `assign_request(...)`, so an escalated
+      request's handover is recorded like any other assignment.
+*/
+
+ALTER TABLE request_assignments DROP CONSTRAINT IF EXISTS request_assignments_method_check;
+ALTER TABLE request_assignments ADD CONSTRAINT request_assignments_method_check
+  CHECK (method IN ('manual', 'round_robin', 'skill', 'on_call', 'escalation'));
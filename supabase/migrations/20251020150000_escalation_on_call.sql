@@ -0,0 +1,15 @@
+/*
+  # Escalations to whoever is on call
+
+  1. Changes
+    - `escalation_rules.reassign_to_on_call` - the rule hands the record to
+      whoever is on call for it (worked out in src/utils/escalation.ts);
+      `reassign_to_id` becomes the fallback when nobody is. Rules that already
+      name a technician were set up as "reassign to on call", so they are
+      switched over.
+*/
+
+ALTER TABLE escalation_rules
+  ADD COLUMN IF NOT EXISTS reassign_to_on_call boolean NOT NULL DEFAULT false;
+
+UPDATE escalation_rules SET reassign_to_on_call = true WHERE reassign_to_id IS NOT NULL;
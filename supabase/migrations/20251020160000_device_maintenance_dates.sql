@@ -0,0 +1,47 @@
+/*
+  # Device maintenance dates follow completed visits
+
+  1. Functions
+    - `update_next_maintenance_date()` - a device that was never serviced
+      counts its next maintenance from `purchase_date` rather than today
+      (same rule as computeNextMaintenanceDate in src/utils/equipmentTypes.ts)
+    - `record_device_maintenance(uuid, date)` - moves `last_maintenance_date`
+      to a completed visit's date unless a later visit is already recorded;
+      the trigger above then works out `next_maintenance_date`
+
+  2. Security
+    - `record_device_maintenance` runs as SECURITY DEFINER so maintenance
+      staff can call it without `devices.manage`; callers need
+      `maintenance.manage` or `devices.manage`
+*/
+
+CREATE OR REPLACE FUNCTION update_next_maintenance_date()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.equipment_type_id IS NOT NULL THEN
+    SELECT
+      COALESCE(NEW.last_maintenance_date, NEW.purchase_date, CURRENT_DATE) + INTERVAL '1 day' * et.maintenance_interval_days
+    INTO NEW.next_maintenance_date
+    FROM equipment_types et
+    WHERE et.id = NEW.equipment_type_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION record_device_maintenance(target_device_id uuid, completed_on date)
+RETURNS void
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_capability('maintenance.manage') AND NOT has_capability('devices.manage') THEN
+    RAISE EXCEPTION 'You do not have permission to record maintenance';
+  END IF;
+
+  UPDATE devices
+  SET last_maintenance_date = completed_on, updated_at = now()
+  WHERE id = target_device_id
+    AND (last_maintenance_date IS NULL OR last_maintenance_date < completed_on);
+END;
+$$;
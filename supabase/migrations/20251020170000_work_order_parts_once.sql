@@ -0,0 +1,81 @@
+/*
+  # Work order parts are taken out of stock once
+
+  1. Changes
+    - `maintenance_schedules.parts_consumed_at` - when the work order's parts
+      were taken out of stock
+
+  2. Functions
+    - `consume_spare_parts(uuid, jsonb)` replaces `consume_spare_parts(jsonb)`.
+      It locks the work order, and does nothing and returns false when its
+      parts were already taken. Otherwise it takes the parts and stamps
+      `parts_consumed_at` in the same transaction, so completing a work order
+      again after a failed save cannot take its stock twice.
+*/
+
+ALTER TABLE maintenance_schedules
+  ADD COLUMN IF NOT EXISTS parts_consumed_at timestamptz;
+
+DROP FUNCTION IF EXISTS consume_spare_parts(jsonb);
+
+CREATE OR REPLACE FUNCTION consume_spare_parts(work_order_id uuid, usages jsonb)
+RETURNS boolean
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  usage jsonb;
+  part spare_parts%ROWTYPE;
+  consumed_at timestamptz;
+  available integer;
+  wanted integer;
+BEGIN
+  IF NOT has_capability('inventory.manage') AND NOT has_capability('maintenance.manage') THEN
+    RAISE EXCEPTION 'You do not have permission to take parts out of stock';
+  END IF;
+
+  SELECT parts_consumed_at INTO consumed_at
+  FROM maintenance_schedules WHERE id = work_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Maintenance schedule not found';
+  END IF;
+
+  IF consumed_at IS NOT NULL THEN
+    RETURN false;
+  END IF;
+
+  FOR usage IN SELECT * FROM jsonb_array_elements(usages) LOOP
+    wanted := (usage->>'quantity')::integer;
+
+    SELECT * INTO part FROM spare_parts WHERE id = (usage->>'partId')::uuid FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Spare part not found';
+    END IF;
+
+    SELECT COALESCE(SUM((level->>'quantity')::integer), 0) INTO available
+    FROM jsonb_array_elements(part.stock_levels) AS level
+    WHERE level->>'storeRoom' = usage->>'storeRoom';
+
+    IF available < wanted THEN
+      RAISE EXCEPTION 'Only % of % (%) in %, % needed',
+        available, part.name, part.part_number, usage->>'storeRoom', wanted;
+    END IF;
+
+    UPDATE spare_parts
+    SET stock_levels = (
+      SELECT jsonb_agg(
+        CASE WHEN level->>'storeRoom' = usage->>'storeRoom'
+          THEN jsonb_set(level, '{quantity}', to_jsonb((level->>'quantity')::integer - wanted))
+          ELSE level
+        END
+      )
+      FROM jsonb_array_elements(part.stock_levels) AS level
+    )
+    WHERE id = part.id;
+  END LOOP;
+
+  UPDATE maintenance_schedules SET parts_consumed_at = now() WHERE id = work_order_id;
+  RETURN true;
+END;
+$$;
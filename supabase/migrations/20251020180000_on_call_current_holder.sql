@@ -0,0 +1,112 @@
+/*
+  # On-call routing checks the current shift
+
+  1. New Functions
+    - `on_call_holder(rotation_id, at_time)` - who holds a rotation at a moment:
+      the latest override covering it, else the scheduled member. Mirrors
+      `onCallAt` in src/utils/onCall.ts; shifts are counted in calendar days
+      of the database time zone, so a handoff keeps its time of day across
+      daylight saving changes.
+
+  2. Changes
+    - `assign_request(...)` only lets a requester route their emergency to
+      whoever holds, right now, an active rotation covering the request's
+      type. Before, anyone listed in any rotation or with a current override
+      qualified, which is looser than the app's own check.
+*/
+
+CREATE OR REPLACE FUNCTION on_call_holder(target_rotation_id uuid, at_time timestamptz)
+RETURNS uuid
+LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  rotation on_call_rotations%ROWTYPE;
+  holder uuid;
+  shift_index integer;
+BEGIN
+  SELECT * INTO rotation FROM on_call_rotations WHERE id = target_rotation_id;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  -- The latest override wins where several cover the same moment
+  SELECT profile_id INTO holder
+  FROM on_call_overrides
+  WHERE rotation_id = rotation.id AND at_time >= starts_at AND at_time < ends_at
+  ORDER BY created_at DESC
+  LIMIT 1;
+  IF holder IS NOT NULL THEN
+    RETURN holder;
+  END IF;
+
+  IF cardinality(rotation.member_ids) = 0 OR at_time < rotation.starts_at THEN
+    RETURN NULL;
+  END IF;
+
+  shift_index := floor((at_time::date - rotation.starts_at::date)::numeric / rotation.shift_days);
+  IF at_time < rotation.starts_at + make_interval(days => shift_index * rotation.shift_days) THEN
+    shift_index := shift_index - 1;
+  END IF;
+
+  RETURN rotation.member_ids[shift_index % cardinality(rotation.member_ids) + 1];
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION assign_request(
+  target_request_id uuid,
+  to_assignee_id uuid,
+  assignment_method text,
+  assignment_reason text,
+  assigned_by_id uuid
+)
+RETURNS void
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  caller_id uuid := (SELECT id FROM profiles WHERE user_id = auth.uid());
+  current_assignee uuid;
+  on_call_routing boolean;
+BEGIN
+  IF assigned_by_id IS DISTINCT FROM caller_id THEN
+    RAISE EXCEPTION 'Assignments must be recorded by the signed-in user';
+  END IF;
+
+  -- The requester of an unassigned emergency may hand it to whoever is on call
+  -- for its request type right now
+  on_call_routing := assignment_method = 'on_call'
+    AND EXISTS (
+      SELECT 1 FROM requests
+      JOIN on_call_rotations ON on_call_rotations.is_active
+        AND (
+          cardinality(on_call_rotations.request_type_ids) = 0
+          OR requests.request_type_id = ANY(on_call_rotations.request_type_ids)
+        )
+      WHERE requests.id = target_request_id
+        AND requests.user_id = caller_id
+        AND requests.assigned_admin_id IS NULL
+        AND requests.urgency_level IN ('emergency', 'critical')
+        AND on_call_holder(on_call_rotations.id, now()) = to_assignee_id
+    );
+
+  IF NOT has_capability('requests.assign')
+     AND NOT (has_capability('requests.work') AND to_assignee_id = caller_id)
+     AND NOT on_call_routing THEN
+    RAISE EXCEPTION 'You do not have permission to assign requests';
+  END IF;
+
+  SELECT assigned_admin_id INTO current_assignee
+  FROM requests WHERE id = target_request_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Request not found';
+  END IF;
+
+  UPDATE requests
+  SET assigned_admin_id = to_assignee_id, updated_at = now()
+  WHERE id = target_request_id;
+
+  INSERT INTO request_assignments (request_id, from_assignee_id, to_assignee_id, method, reason, assigned_by)
+  VALUES (target_request_id, current_assignee, to_assignee_id, assignment_method, assignment_reason, assigned_by_id);
+END;
+$$;
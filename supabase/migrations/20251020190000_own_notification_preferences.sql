@@ -0,0 +1,47 @@
+/*
+  # Users save their own notification preferences
+
+  1. New Functions
+    - `update_own_notification_preferences(...)` - sets `phone`,
+      `notification_channels` and `quiet_hours_start` / `quiet_hours_end` on
+      the caller's own profile
+
+  2. Security
+    - Runs as SECURITY DEFINER because the only update policy on `profiles`
+      takes `users.manage`, so everyone else's preference changes were
+      silently dropped. It touches the preference columns only; role,
+      department and the rest still need `users.manage`.
+*/
+
+CREATE OR REPLACE FUNCTION update_own_notification_preferences(
+  target_user_id uuid,
+  new_phone text,
+  new_channels text[],
+  new_quiet_hours_start text,
+  new_quiet_hours_end text
+)
+RETURNS void
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF target_user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'You can only change your own notification preferences';
+  END IF;
+
+  IF NOT new_channels <@ ARRAY['email', 'sms'] THEN
+    RAISE EXCEPTION 'Unknown delivery channel';
+  END IF;
+
+  UPDATE profiles
+  SET phone = new_phone,
+      notification_channels = new_channels,
+      quiet_hours_start = new_quiet_hours_start,
+      quiet_hours_end = new_quiet_hours_end,
+      updated_at = now()
+  WHERE user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Profile not found';
+  END IF;
+END;
+$$;
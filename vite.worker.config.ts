@@ -0,0 +1,15 @@
+import { defineConfig } from 'vite';
+
+// Bundles src/worker.ts for Node. VITE_* settings are fixed at build time as
+// in the app; the worker's own credentials are read when it starts.
+export default defineConfig({
+  define: {
+    'import.meta.env.WORKER_EMAIL': 'process.env.WORKER_EMAIL',
+    'import.meta.env.WORKER_PASSWORD': 'process.env.WORKER_PASSWORD',
+  },
+  build: {
+    ssr: 'src/worker.ts',
+    outDir: 'dist-worker',
+    copyPublicDir: false,
+  },
+});